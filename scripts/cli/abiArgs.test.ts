@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Abi, shortString } from "starknet";
+import { loadAbi } from "../indexer/events";
+import { compileArgs, findFunction, parseArg } from "./abiArgs";
+import { CliError } from "./output";
+
+const U256 = { name: "amount", type: "core::integer::u256" };
+const U8 = { name: "decimals", type: "core::integer::u8" };
+const ADDRESS = { name: "recipient", type: "core::starknet::contract_address::ContractAddress" };
+const FELT = { name: "symbol", type: "core::felt252" };
+
+const rejects = (run: () => unknown, message: RegExp) =>
+  assert.throws(run, (error: unknown) => error instanceof CliError && message.test(error.message));
+
+describe("parseArg", () => {
+  it("accepts integers up to the top of their range", () => {
+    assert.equal(parseArg(U256, (2n ** 256n - 1n).toString()), 2n ** 256n - 1n);
+    assert.equal(parseArg(U256, "0xff"), 255n);
+    assert.equal(parseArg(U8, "255"), 255n);
+
+    rejects(() => parseArg(U256, (2n ** 256n).toString()), /does not fit in a u256/);
+    rejects(() => parseArg(U8, "256"), /does not fit in a u8/);
+    rejects(() => parseArg(U256, "-1"), /is not a u256/);
+  });
+
+  it("scales fractions by the input's decimals unless --raw", () => {
+    const options = { decimals: { amount: 18 } };
+
+    assert.equal(parseArg(U256, "1.5", options), 15n * 10n ** 17n);
+    assert.equal(parseArg(U256, "2", options), 2n * 10n ** 18n);
+    assert.equal(parseArg(U256, "2", { ...options, raw: true }), 2n);
+
+    rejects(() => parseArg(U256, "0.0000000000000000001", options), /more than 18 decimals/);
+    rejects(() => parseArg(U256, "1.5"), /whole number of base units/);
+    rejects(() => parseArg(U256, "1.5", { ...options, raw: true }), /whole number of base units/);
+  });
+
+  it("keeps addresses below 2^251", () => {
+    assert.equal(
+      parseArg(ADDRESS, "0x1"),
+      "0x0000000000000000000000000000000000000000000000000000000000000001"
+    );
+    assert.equal(parseArg(ADDRESS, (2n ** 251n - 1n).toString()), `0x07${"f".repeat(62)}`);
+
+    rejects(() => parseArg(ADDRESS, `0x${(2n ** 251n).toString(16)}`), /not a Starknet address/);
+    rejects(() => parseArg(ADDRESS, "alice"), /not a Starknet address/);
+  });
+
+  it("encodes short strings as felts and bounds numeric felts", () => {
+    assert.equal(parseArg(FELT, "ZUMP"), shortString.encodeShortString("ZUMP"));
+    assert.equal(parseArg(FELT, "42"), 42n);
+
+    rejects(() => parseArg(FELT, "x".repeat(32)), /neither a number nor a short string/);
+    rejects(() => parseArg(FELT, "zümp"), /neither a number nor a short string/);
+    rejects(() => parseArg(FELT, (2n ** 251n + 17n * 2n ** 192n + 1n).toString()), /larger than a felt/);
+  });
+});
+
+describe("compileArgs", () => {
+  const abi = loadAbi("MemecoinToken") as Abi;
+  const transfer = findFunction(abi, "MemecoinToken", "transfer");
+
+  it("compiles calldata with u256 split into low and high", () => {
+    const { args, calldata } = compileArgs(abi, transfer, ["0xabc", "1.5"], {
+      decimals: { amount: 18 },
+    });
+
+    assert.equal(args.amount, 15n * 10n ** 17n);
+    assert.deepEqual(calldata, [BigInt("0xabc").toString(), (15n * 10n ** 17n).toString(), "0"]);
+  });
+
+  it("requires one value per input", () => {
+    rejects(() => compileArgs(abi, transfer, ["0xabc"]), /transfer takes 2 arguments/);
+    rejects(() => compileArgs(abi, transfer, ["0xabc", "1", "2"]), /transfer takes 2 arguments/);
+  });
+});
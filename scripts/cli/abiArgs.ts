@@ -0,0 +1,220 @@
+import { Abi, Call, CallData, Calldata, shortString } from "starknet";
+import { toHexAddress } from "../indexer/events";
+import { CliError } from "./output";
+
+export interface AbiInput {
+  name: string;
+  type: string;
+}
+
+export interface AbiFunction {
+  name: string;
+  inputs: AbiInput[];
+  outputs: { type: string }[];
+  state_mutability: "view" | "external";
+}
+
+export type ArgValue = bigint | boolean | string;
+
+export interface ArgOptions {
+  /** Inputs given in whole tokens, scaled by 10^decimals (ignored with --raw) */
+  decimals?: Record<string, number>;
+  raw?: boolean;
+}
+
+const UINT_BITS: Record<string, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+// Contract addresses are felts below 2^251
+const ADDRESS_BOUND = 2n ** 251n;
+const FELT_PRIME = 2n ** 251n + 17n * 2n ** 192n + 1n;
+
+const shortType = (type: string): string => type.split("::").pop() || type;
+
+/**
+ * Every function of a contract ABI, including those nested in interfaces
+ */
+export function listFunctions(abi: Abi): AbiFunction[] {
+  const functions: AbiFunction[] = [];
+  const walk = (items: any[]) =>
+    items.forEach((item) => {
+      if (item.type === "function") functions.push(item);
+      if (item.type === "interface") walk(item.items);
+    });
+  walk(abi as any[]);
+  return functions;
+}
+
+export function findFunction(abi: Abi, contractName: string, name: string): AbiFunction {
+  const fn = listFunctions(abi).find((item) => item.name === name);
+  if (!fn) {
+    throw new CliError(`${contractName} has no function "${name}"`);
+  }
+  return fn;
+}
+
+/**
+ * Human-readable signature, used in usage errors
+ */
+export function signature(fn: AbiFunction): string {
+  const inputs = fn.inputs.map((input) => `${input.name}: ${shortType(input.type)}`).join(", ");
+  return `${fn.name}(${inputs})`;
+}
+
+function parseInteger(input: AbiInput, value: string, decimals?: number): bigint {
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return BigInt(value);
+
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new CliError(`${input.name}: "${value}" is not a ${shortType(input.type)}`);
+  }
+  const [, whole, fraction = ""] = match;
+  if (!decimals) {
+    if (fraction) {
+      throw new CliError(`${input.name}: "${value}" must be a whole number of base units`);
+    }
+    return BigInt(whole);
+  }
+  if (fraction.length > decimals) {
+    throw new CliError(`${input.name}: "${value}" has more than ${decimals} decimals`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+/**
+ * Parse and range-check one command line value against its Cairo type
+ */
+export function parseArg(input: AbiInput, value: string, options: ArgOptions = {}): ArgValue {
+  const type = shortType(input.type);
+
+  if (UINT_BITS[type] !== undefined) {
+    const decimals = options.raw ? undefined : options.decimals?.[input.name];
+    const parsed = parseInteger(input, value, decimals);
+    if (parsed >= 2n ** BigInt(UINT_BITS[type])) {
+      throw new CliError(`${input.name}: ${value} does not fit in a ${type}`);
+    }
+    return parsed;
+  }
+
+  switch (type) {
+    case "bool":
+      if (["true", "1", "yes"].includes(value.toLowerCase())) return true;
+      if (["false", "0", "no"].includes(value.toLowerCase())) return false;
+      throw new CliError(`${input.name}: "${value}" is not a bool (true/false)`);
+    case "ContractAddress":
+    case "ClassHash": {
+      if (!/^(0x[0-9a-fA-F]{1,64}|\d+)$/.test(value) || BigInt(value) >= ADDRESS_BOUND) {
+        throw new CliError(`${input.name}: "${value}" is not a Starknet address`);
+      }
+      return toHexAddress(value);
+    }
+    case "felt252": {
+      if (/^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+        if (BigInt(value) >= FELT_PRIME) {
+          throw new CliError(`${input.name}: ${value} is larger than a felt`);
+        }
+        return BigInt(value);
+      }
+      if (!shortString.isShortString(value) || !shortString.isASCII(value)) {
+        throw new CliError(`${input.name}: "${value}" is neither a number nor a short string (≤31 ASCII chars)`);
+      }
+      return shortString.encodeShortString(value);
+    }
+    default:
+      throw new CliError(`${input.name}: ${input.type} arguments cannot be passed from the command line`);
+  }
+}
+
+/**
+ * Validate positional values against a function's inputs and compile its calldata
+ */
+export function compileArgs(
+  abi: Abi,
+  fn: AbiFunction,
+  values: string[],
+  options: ArgOptions = {}
+): { args: Record<string, ArgValue>; calldata: Calldata } {
+  if (values.length !== fn.inputs.length) {
+    throw new CliError(
+      `${fn.name} takes ${fn.inputs.length} argument${fn.inputs.length === 1 ? "" : "s"}: ${signature(fn)}`
+    );
+  }
+
+  const args: Record<string, ArgValue> = {};
+  fn.inputs.forEach((input, i) => {
+    args[input.name] = parseArg(input, values[i], options);
+  });
+
+  return { args, calldata: new CallData(abi).compile(fn.name, args) };
+}
+
+/**
+ * Build a Call with ABI-checked arguments
+ */
+export function buildCall(
+  abi: Abi,
+  contract: { name: string; address: string },
+  functionName: string,
+  values: string[],
+  options: ArgOptions = {}
+): Call {
+  const fn = findFunction(abi, contract.name, functionName);
+  const { calldata } = compileArgs(abi, fn, values, options);
+  return { contractAddress: contract.address, entrypoint: fn.name, calldata };
+}
+
+/**
+ * Felt as text when it is a printable short string (names, symbols), hex otherwise
+ */
+export function feltText(value: bigint | string): string {
+  const hex = `0x${BigInt(value).toString(16)}`;
+  if (BigInt(value) === 0n) return hex;
+  const text = shortString.decodeShortString(hex);
+  return /^[\x20-\x7e]+$/.test(text) ? text : hex;
+}
+
+/**
+ * Convert a parsed return value into plain JSON-friendly values, following the ABI types
+ */
+export function displayValue(abi: Abi, type: string, value: unknown): unknown {
+  const inner = /^core::array::(?:Span|Array)::<(.+)>$/.exec(type);
+  if (inner && Array.isArray(value)) {
+    return value.map((item) => displayValue(abi, inner[1], item));
+  }
+
+  const struct = (abi as any[]).find((item) => item.type === "struct" && item.name === type);
+  if (struct && type !== "core::integer::u256" && value !== null && typeof value === "object") {
+    const record: Record<string, unknown> = {};
+    struct.members.forEach((member: AbiInput) => {
+      record[member.name] = displayValue(abi, member.type, (value as Record<string, unknown>)[member.name]);
+    });
+    return record;
+  }
+
+  switch (shortType(type)) {
+    case "ContractAddress":
+    case "ClassHash":
+      return toHexAddress(value as bigint);
+    case "felt252":
+      return feltText(value as bigint);
+    case "bool":
+      return Boolean(value);
+    default:
+      return typeof value === "bigint" ? value : String(value);
+  }
+}
+
+/**
+ * Decode a call_contract result with the function's ABI outputs
+ */
+export function decodeResult(abi: Abi, fn: AbiFunction, result: string[]): unknown {
+  if (fn.outputs.length === 0) return null;
+  const parsed = new CallData(abi).parse(fn.name, result);
+  return displayValue(abi, fn.outputs[0].type, parsed);
+}
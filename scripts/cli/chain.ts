@@ -0,0 +1,65 @@
+import { Call, GetTransactionReceiptResponse } from "starknet";
+import { formatBigIntWithDecimals } from "../../zump-frontend/src/utils/bondingCurveUtils";
+import { buildCall, decodeResult, findFunction } from "./abiArgs";
+import { CliContext, ResolvedContract } from "./context";
+import { CliError, info, printRecord } from "./output";
+
+/**
+ * Call a view function and decode its result with the contract ABI
+ */
+export async function readView(
+  ctx: CliContext,
+  contract: ResolvedContract,
+  functionName: string,
+  values: string[] = []
+): Promise<any> {
+  const abi = ctx.abi(contract.name);
+  const fn = findFunction(abi, contract.name, functionName);
+  const call = buildCall(abi, contract, functionName, values);
+  const result = await ctx.provider.callContract(call);
+  return decodeResult(abi, fn, result);
+}
+
+/**
+ * Execute calls in one multicall, or estimate their fee with --dry-run
+ * Returns the receipt, or null for a dry run.
+ */
+export async function submit(
+  ctx: CliContext,
+  calls: Call[],
+  summary: Record<string, unknown> = {}
+): Promise<GetTransactionReceiptResponse | null> {
+  const account = ctx.getAccount();
+  const callList = calls.map((call) => ({
+    to: call.contractAddress,
+    entrypoint: call.entrypoint,
+    calldata: (call.calldata as string[]).join(","),
+  }));
+
+  if (ctx.options.dryRun) {
+    const estimate = await account.estimateInvokeFee(calls);
+    printRecord(ctx.options, {
+      ...summary,
+      dryRun: true,
+      sender: account.address,
+      calls: ctx.options.json ? callList : callList.map((call) => `${call.to}.${call.entrypoint}`),
+      estimatedFee: `${formatBigIntWithDecimals(estimate.overall_fee, 18, 6)} ${estimate.unit === "FRI" ? "STRK" : "ETH"}`,
+      estimatedFeeRaw: estimate.overall_fee,
+    });
+    return null;
+  }
+
+  const { transaction_hash: txHash } = await account.execute(calls);
+  info(ctx.options, `📤 Submitted ${txHash}`);
+  const receipt = await ctx.provider.waitForTransaction(txHash);
+  if (!receipt.isSuccess()) {
+    throw new CliError(`Transaction ${txHash} did not succeed: ${JSON.stringify(receipt.value)}`);
+  }
+
+  printRecord(ctx.options, {
+    ...summary,
+    txHash,
+    explorer: ctx.explorerTxUrl(txHash),
+  });
+  return receipt;
+}
@@ -0,0 +1,40 @@
+import { BPS_DENOMINATOR } from "../../../zump-frontend/src/utils/curveQuote";
+import { toHexAddress } from "../../indexer/events";
+import { buildCall } from "../abiArgs";
+import { readView, submit } from "../chain";
+import { CliContext, CommandArgs, positional } from "../context";
+import { CliError } from "../output";
+
+const SET_FEE_USAGE = "admin set-fee <fee_bps> [fee_receiver]";
+
+/**
+ * admin set-fee <fee_bps> [fee_receiver] — ProtocolConfig.set_fee_config,
+ * keeping the current receiver when none is given
+ */
+export async function setFee(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const config = ctx.contract("ProtocolConfig");
+  const feeBps = positional(args, 0, "fee_bps", SET_FEE_USAGE);
+
+  const [current, owner] = await Promise.all([
+    readView(ctx, config, "get_fee_config"),
+    readView(ctx, config, "get_owner"),
+  ]);
+  const feeReceiver = args.positionals[1] ?? current.fee_receiver;
+
+  const call = buildCall(ctx.abi(config.name), config, "set_fee_config", [feeBps, feeReceiver]);
+  if (BigInt(feeBps) > BPS_DENOMINATOR) {
+    throw new CliError(`fee_bps: ${feeBps} is above ${BPS_DENOMINATOR} (100%)`);
+  }
+
+  // Fail before signing, as the admin console does
+  const account = ctx.getAccount();
+  if (toHexAddress(account.address) !== owner) {
+    throw new CliError(`${account.address} does not own ProtocolConfig (owner ${owner})`);
+  }
+
+  await submit(ctx, [call], {
+    contract: config.address,
+    feeBps: `${current.fee_bps} → ${BigInt(feeBps)}`,
+    feeReceiver: `${current.fee_receiver} → ${toHexAddress(feeReceiver)}`,
+  });
+}
@@ -0,0 +1,36 @@
+import { buildCall, findFunction, listFunctions, signature } from "../abiArgs";
+import { readView, submit } from "../chain";
+import { CliContext, CommandArgs, positional, stringFlag } from "../context";
+import { printRecord, printRows } from "../output";
+
+const CALL_USAGE = "call <contract|address> [function] [args...] [--abi ContractName]";
+
+/**
+ * call <contract> <function> [args...] — any ABI function; views are read,
+ * externals are sent (or estimated with --dry-run). Without a function,
+ * lists what the contract exposes.
+ */
+export async function callContract(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const contract = ctx.resolve(positional(args, 0, "contract", CALL_USAGE), stringFlag(args, "abi"));
+  const abi = ctx.abi(contract.name);
+  const [functionName, ...values] = args.positionals.slice(1);
+
+  if (!functionName) {
+    printRows(
+      ctx.options,
+      listFunctions(abi).map((fn) => ({ kind: fn.state_mutability, function: signature(fn) }))
+    );
+    return;
+  }
+
+  const fn = findFunction(abi, contract.name, functionName);
+  if (fn.state_mutability === "view") {
+    const result = await readView(ctx, contract, functionName, values);
+    const record = result !== null && typeof result === "object" ? (result as Record<string, unknown>) : { result };
+    printRecord(ctx.options, record);
+    return;
+  }
+
+  const call = buildCall(abi, contract, functionName, values);
+  await submit(ctx, [call], { contract: `${contract.name} ${contract.address}`, function: signature(fn) });
+}
@@ -0,0 +1,142 @@
+import { shortString } from "starknet";
+import {
+  ManifestClass,
+  MANIFEST_CLASSES,
+  MANIFEST_CONTRACTS,
+  computeAbiHash,
+} from "../../../zump-frontend/src/config/deploymentManifest";
+import { loadAbi, toHexAddress } from "../../indexer/events";
+import { fetchAbiHash, fetchDeployBlock, saveManifest } from "../../manifest";
+import { CliContext, CommandArgs } from "../context";
+import { CliError, Row, info, printRows } from "../output";
+
+const sameFelt = (a: string, b: string) => toHexAddress(a) === toHexAddress(b);
+
+/**
+ * ABI hash of the frontend's exported ABI, or null when the app has none
+ */
+function localAbiHash(name: string): string | null {
+  try {
+    return computeAbiHash(loadAbi(name));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "ok", or what differs between the manifest, the chain and the local ABI
+ */
+function abiStatus(entry: ManifestClass, onChain: string | null, local: string | null): string {
+  if (onChain === null) return "unreadable";
+  if (entry.abi_hash !== null && !sameFelt(entry.abi_hash, onChain)) return "manifest differs";
+  if (local === null) return "no local abi";
+  if (!sameFelt(local, onChain)) return "local differs";
+  return "ok";
+}
+
+/**
+ * Fail before any per-contract check when the node is unreachable or on
+ * another chain, so neither shows up as missing contracts
+ */
+async function checkChain(ctx: CliContext): Promise<void> {
+  let chainId: string;
+  try {
+    chainId = shortString.decodeShortString(await ctx.provider.getChainId());
+  } catch (error: any) {
+    throw new CliError(`Cannot reach the RPC node: ${error.message}`);
+  }
+  if (chainId !== ctx.manifest.chain_id) {
+    throw new CliError(
+      `RPC node is on ${chainId}, the ${ctx.manifest.network} manifest is for ${ctx.manifest.chain_id}`
+    );
+  }
+}
+
+/**
+ * deployments verify — every manifest contract is deployed with its recorded
+ * class, and the ABIs the app and the scripts use match what is on chain
+ */
+export async function verifyDeployments(ctx: CliContext, _args: CommandArgs): Promise<void> {
+  await checkChain(ctx);
+  const { manifest, provider } = ctx;
+  const rows: Row[] = [];
+
+  for (const name of MANIFEST_CONTRACTS) {
+    const entry = manifest.contracts[name];
+    if (!entry) continue;
+
+    let classStatus: string;
+    try {
+      const onChainClass = await provider.getClassHashAt(entry.address);
+      classStatus = sameFelt(onChainClass, entry.class_hash) ? "ok" : `differs (${toHexAddress(onChainClass)})`;
+    } catch {
+      classStatus = "not deployed";
+    }
+    const onChainAbi = await fetchAbiHash(provider, entry.class_hash);
+    rows.push({
+      name,
+      address: entry.address,
+      class: classStatus,
+      abi: abiStatus(entry, onChainAbi, localAbiHash(name)),
+    });
+  }
+
+  for (const name of MANIFEST_CLASSES) {
+    const entry = manifest.classes[name];
+    if (!entry) continue;
+
+    const onChainAbi = await fetchAbiHash(provider, entry.class_hash);
+    rows.push({
+      name,
+      address: "(per launch)",
+      class: onChainAbi === null ? "not declared" : "ok",
+      abi: abiStatus(entry, onChainAbi, localAbiHash(name)),
+    });
+  }
+
+  printRows(ctx.options, rows);
+  const failed = rows.filter((row) => row.class !== "ok" || row.abi !== "ok").length;
+  if (failed > 0) {
+    throw new CliError(`${failed} of ${rows.length} ${manifest.network} deployment entries failed verification`);
+  }
+  info(ctx.options, `\n✅ ${rows.length} ${manifest.network} deployment entries match the chain`);
+}
+
+/**
+ * deployments sync — fill the deploy blocks and ABI hashes the manifest is
+ * missing, e.g. after a deploy whose node could not return them
+ */
+export async function syncDeployments(ctx: CliContext, _args: CommandArgs): Promise<void> {
+  await checkChain(ctx);
+  const { manifest, provider } = ctx;
+  const rows: Row[] = [];
+
+  for (const name of MANIFEST_CONTRACTS) {
+    const entry = manifest.contracts[name];
+    if (!entry) continue;
+
+    if (entry.deploy_block === null && entry.deploy_tx !== null) {
+      entry.deploy_block = await fetchDeployBlock(provider, entry.deploy_tx);
+      rows.push({ name, field: "deploy_block", value: entry.deploy_block });
+    }
+    if (entry.abi_hash === null) {
+      entry.abi_hash = await fetchAbiHash(provider, entry.class_hash);
+      rows.push({ name, field: "abi_hash", value: entry.abi_hash });
+    }
+  }
+
+  for (const name of MANIFEST_CLASSES) {
+    const entry = manifest.classes[name];
+    if (!entry || entry.abi_hash !== null) continue;
+
+    entry.abi_hash = await fetchAbiHash(provider, entry.class_hash);
+    rows.push({ name, field: "abi_hash", value: entry.abi_hash });
+  }
+
+  printRows(ctx.options, rows);
+  if (rows.every((row) => row.value === null)) {
+    info(ctx.options, "\nNothing to update");
+    return;
+  }
+  info(ctx.options, `\n✅ Manifest saved to ${saveManifest(manifest)}`);
+}
@@ -0,0 +1,101 @@
+import {
+  DecodedEvent,
+  DecodedEventType,
+  EVENT_SELECTORS,
+  RawEvent,
+  decodeEvents,
+} from "../../../zump-frontend/src/utils/eventDecoder";
+import { toHexAddress } from "../../indexer/events";
+import { CliContext, CommandArgs, numberFlag, positional, stringFlag } from "../context";
+import { CliError, info } from "../output";
+
+const TAIL_USAGE =
+  "events tail <contract|address> [--blocks N] [--from-block N] [--type Buy,Sell] [--follow] [--interval S]";
+
+const CHUNK_SIZE = 100;
+
+function parseTypes(value: string | undefined): DecodedEventType[] {
+  if (!value) return Object.keys(EVENT_SELECTORS) as DecodedEventType[];
+  const types = value.split(",").map((type) => type.trim());
+  const unknown = types.filter((type) => !(type in EVENT_SELECTORS));
+  if (unknown.length > 0) {
+    throw new CliError(
+      `Unknown event type ${unknown.join(", ")}. Known: ${Object.keys(EVENT_SELECTORS).join(", ")}`
+    );
+  }
+  return types as DecodedEventType[];
+}
+
+function printEvent(ctx: CliContext, event: DecodedEvent): void {
+  const { type, fromAddress, txHash, blockNumber, ...fields } = event;
+  if (ctx.options.json) {
+    console.log(
+      JSON.stringify({ type, fromAddress, txHash, blockNumber, ...fields }, (_key, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      )
+    );
+    return;
+  }
+  const details = Object.entries(fields)
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join(" ");
+  console.log(`#${blockNumber}  ${type.padEnd(24)} ${txHash}  ${details}`);
+}
+
+async function fetchEvents(
+  ctx: CliContext,
+  address: string,
+  selectors: string[],
+  from: number,
+  to: number
+): Promise<RawEvent[]> {
+  const events: RawEvent[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await ctx.provider.getEvents({
+      address,
+      from_block: { block_number: from },
+      to_block: { block_number: to },
+      keys: [selectors],
+      chunk_size: CHUNK_SIZE,
+      continuation_token: continuationToken,
+    });
+    events.push(...(page.events as RawEvent[]));
+    continuationToken = page.continuation_token;
+  } while (continuationToken);
+
+  return events;
+}
+
+/**
+ * events tail <contract> — recent events decoded with the app's event decoder;
+ * --follow keeps polling for new blocks until interrupted
+ */
+export async function tailEvents(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const target = positional(args, 0, "contract", TAIL_USAGE);
+  const address = /^0x[0-9a-fA-F]+$/.test(target) ? toHexAddress(target) : ctx.contract(target).address;
+  const types = parseTypes(stringFlag(args, "type"));
+  const selectors = types.map((type) => EVENT_SELECTORS[type]);
+  const intervalMs = numberFlag(args, "interval", 10) * 1000;
+
+  const head = await ctx.provider.getBlockNumber();
+  const fromFlag = stringFlag(args, "from-block");
+  let from =
+    fromFlag === undefined ? Math.max(0, head - numberFlag(args, "blocks", 1000)) : numberFlag(args, "from-block", 0);
+  let to = head;
+
+  info(ctx.options, `📜 ${types.length === 1 ? types[0] : "Events"} from ${address}, blocks ${from} → ${to}`);
+
+  for (;;) {
+    if (from <= to) {
+      const events = await fetchEvents(ctx, address, selectors, from, to);
+      decodeEvents(events, types).forEach((event) => printEvent(ctx, event));
+      from = to + 1;
+    }
+    if (!args.flags.follow) return;
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    to = await ctx.provider.getBlockNumber();
+  }
+}
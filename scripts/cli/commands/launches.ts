@@ -0,0 +1,85 @@
+import { calculateProgress, formatBigIntWithDecimals } from "../../../zump-frontend/src/utils/bondingCurveUtils";
+import { readView } from "../chain";
+import { CliContext, CommandArgs, numberFlag, positional } from "../context";
+import { CliError, Row, printRecord, printRows } from "../output";
+
+const SHOW_USAGE = "launch show <id>";
+
+const formatAmount = (value: bigint) => formatBigIntWithDecimals(value, 18, 6);
+
+/**
+ * launches list — newest launches first, from PumpFactory.get_launch
+ */
+export async function listLaunches(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const factory = ctx.contract("PumpFactory");
+  const limit = numberFlag(args, "limit", 20);
+  const offset = numberFlag(args, "offset", 0);
+
+  const total = Number(await readView(ctx, factory, "total_launches"));
+  const last = total - 1 - offset;
+  const ids: number[] = [];
+  for (let id = last; id >= 0 && ids.length < limit; id--) {
+    ids.push(id);
+  }
+
+  const launches = await Promise.all(ids.map((id) => readView(ctx, factory, "get_launch", [String(id)])));
+  const rows: Row[] = launches.map((launch, i) => ({
+    id: ids[i],
+    symbol: launch.symbol,
+    name: launch.name,
+    pool: launch.pool,
+    token: launch.token,
+    basePrice: ctx.options.raw ? launch.base_price : formatAmount(launch.base_price),
+    maxSupply: ctx.options.raw ? launch.max_supply : formatAmount(launch.max_supply),
+    createdAt: new Date(Number(launch.created_at) * 1000).toISOString(),
+    migrated: launch.migrated,
+  }));
+
+  printRows(ctx.options, rows);
+  if (!ctx.options.json) {
+    console.log(`\n${rows.length} of ${total} launches`);
+  }
+}
+
+/**
+ * launch show <id> — factory record plus live pool state and curve progress
+ */
+export async function showLaunch(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const factory = ctx.contract("PumpFactory");
+  const id = positional(args, 0, "id", SHOW_USAGE);
+
+  const total = await readView(ctx, factory, "total_launches");
+  const launch = await readView(ctx, factory, "get_launch", [id]);
+  if (BigInt(id) >= BigInt(total)) {
+    throw new CliError(`Launch ${id} does not exist (${total} launches)`);
+  }
+
+  const pool = ctx.resolve(launch.pool, "BondingCurvePool");
+  const [state, price] = await Promise.all([
+    readView(ctx, pool, "get_state"),
+    readView(ctx, pool, "get_current_price"),
+  ]);
+
+  const amount = (value: bigint) => (ctx.options.raw ? value : formatAmount(value));
+  printRecord(ctx.options, {
+    id,
+    name: launch.name,
+    symbol: launch.symbol,
+    token: launch.token,
+    pool: launch.pool,
+    quoteToken: launch.quote_token,
+    createdAt: new Date(Number(launch.created_at) * 1000).toISOString(),
+    curve: {
+      basePrice: amount(launch.base_price),
+      slope: amount(launch.slope),
+      maxSupply: amount(launch.max_supply),
+    },
+    state: {
+      currentPrice: amount(price),
+      tokensSold: amount(state.tokens_sold),
+      reserveBalance: amount(state.reserve_balance),
+      progress: `${calculateProgress(state.tokens_sold, launch.max_supply).toFixed(2)}%`,
+      migrated: state.migrated,
+    },
+  });
+}
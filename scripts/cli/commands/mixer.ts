@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatBigIntWithDecimals } from "../../../zump-frontend/src/utils/bondingCurveUtils";
+import { findReceiptEvent } from "../../../zump-frontend/src/utils/eventDecoder";
+import {
+  formatMixerNote,
+  generateMixerNote,
+  getMixerNoteFileName,
+} from "../../../zump-frontend/src/utils/mixerNote";
+import { buildMixerDepositCalls } from "../../../zump-frontend/src/services/mixerBuilder";
+import { findFunction, parseArg } from "../abiArgs";
+import { readView, submit } from "../chain";
+import { CliContext, CommandArgs, positional, stringFlag } from "../context";
+import { CliError, info } from "../output";
+
+const DEPOSIT_USAGE = "mixer deposit <token> <amount> [--note-dir DIR]";
+
+/**
+ * mixer deposit <token> <amount> — the note is written before funds move,
+ * then rewritten with its leaf index once the Deposit event is in
+ */
+export async function depositToMixer(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const mixer = ctx.contract("DarkPoolMixer");
+  const abi = ctx.abi(mixer.name);
+  const token = ctx.token(positional(args, 0, "token", DEPOSIT_USAGE));
+  const [tokenInput, amountInput] = findFunction(abi, mixer.name, "deposit").inputs;
+  parseArg(tokenInput, token);
+  const amount = parseArg(amountInput, positional(args, 1, "amount", DEPOSIT_USAGE), {
+    decimals: { amount: 18 },
+    raw: ctx.options.raw,
+  }) as bigint;
+
+  const [isSupported, minDeposit, maxDeposit] = await Promise.all([
+    readView(ctx, mixer, "is_token_supported", [token]),
+    readView(ctx, mixer, "get_min_deposit"),
+    readView(ctx, mixer, "get_max_deposit"),
+  ]);
+  const show = (value: bigint) => formatBigIntWithDecimals(value, 18, 6);
+  if (!isSupported) {
+    throw new CliError(`DarkPoolMixer does not accept ${token}`);
+  }
+  if (amount < minDeposit || amount > maxDeposit) {
+    throw new CliError(`Deposit must be between ${show(minDeposit)} and ${show(maxDeposit)}`);
+  }
+
+  const note = generateMixerNote(ctx.options.network, token, amount);
+  const calls = buildMixerDepositCalls({
+    mixerAddress: mixer.address,
+    token,
+    amount,
+    commitment: note.commitment,
+  });
+  const summary = { mixer: mixer.address, token, amount: show(amount), commitment: note.commitment };
+
+  if (ctx.options.dryRun) {
+    await submit(ctx, calls, summary);
+    return;
+  }
+
+  // Anyone holding the note can withdraw, so keep it owner-readable only
+  const notePath = path.resolve(stringFlag(args, "note-dir") || ".", getMixerNoteFileName(note));
+  fs.writeFileSync(notePath, `${formatMixerNote(note)}\n`, { mode: 0o600 });
+  info(ctx.options, `🔑 Note saved to ${notePath}`);
+
+  const receipt = await submit(ctx, calls, { ...summary, note: notePath });
+  const event = receipt?.isSuccess() ? findReceiptEvent(receipt.value, "Deposit", mixer.address) : null;
+  if (!event) {
+    info(ctx.options, "⚠️  Deposit event not found; the note has no leaf index yet");
+    return;
+  }
+  fs.writeFileSync(notePath, `${formatMixerNote({ ...note, leafIndex: event.leafIndex })}\n`, { mode: 0o600 });
+  info(ctx.options, `🌳 Leaf index ${event.leafIndex}`);
+}
@@ -0,0 +1,156 @@
+import { Call } from "starknet";
+import { formatBigIntWithDecimals } from "../../../zump-frontend/src/utils/bondingCurveUtils";
+import { CurveFees, CurveQuoteState, quoteBuy, quoteSell } from "../../../zump-frontend/src/utils/curveQuote";
+import {
+  assertBuyWithinBound,
+  assertSellWithinBound,
+  buildBuyCalls,
+  buildSellCalls,
+} from "../../../zump-frontend/src/services/tradeBuilder";
+import { findFunction, parseArg } from "../abiArgs";
+import { readView, submit } from "../chain";
+import { CliContext, CommandArgs, ResolvedContract, positional, stringFlag } from "../context";
+import { CliError, printRecord } from "../output";
+
+type Side = "buy" | "sell";
+
+const QUOTE_USAGE = "pool quote <buy|sell> <pool> <amount>";
+const TRADE_USAGE = "pool trade <buy|sell> <pool> <amount> [--max-cost X | --min-return X]";
+
+interface QuoteInputs {
+  state: CurveQuoteState;
+  fees: CurveFees;
+  quoteToken: string;
+}
+
+function parseSide(value: string, usage: string): Side {
+  if (value !== "buy" && value !== "sell") {
+    throw new CliError(`Expected buy or sell, got "${value}". Usage: ${usage}`);
+  }
+  return value;
+}
+
+/**
+ * Amounts follow BondingCurvePool's amount_tokens (u256, 18 decimals)
+ */
+function parseAmount(ctx: CliContext, pool: ResolvedContract, side: Side, value: string, name = "amount_tokens"): bigint {
+  const [input] = findFunction(ctx.abi(pool.name), pool.name, side).inputs;
+  return parseArg({ ...input, name }, value, { decimals: { [name]: 18 }, raw: ctx.options.raw }) as bigint;
+}
+
+/**
+ * Same inputs ContractService.getQuoteInputs reads, so quotes match the app
+ */
+async function getQuoteInputs(ctx: CliContext, pool: ResolvedContract): Promise<QuoteInputs> {
+  const protocolConfig = ctx.contract("ProtocolConfig");
+  const [state, basePrice, slope, maxSupply, feeConfig, creatorFeeBps] = await Promise.all([
+    readView(ctx, pool, "get_state"),
+    readView(ctx, pool, "base_price"),
+    readView(ctx, pool, "slope"),
+    readView(ctx, pool, "max_supply"),
+    readView(ctx, protocolConfig, "get_fee_config"),
+    readView(ctx, protocolConfig, "get_creator_fee_bps"),
+  ]);
+
+  return {
+    state: {
+      basePrice,
+      slope,
+      maxSupply,
+      tokensSold: state.tokens_sold,
+      reserveBalance: state.reserve_balance,
+      migrated: state.migrated,
+    },
+    fees: { feeBps: feeConfig.fee_bps, creatorFeeBps },
+    quoteToken: state.quote_token,
+  };
+}
+
+function quoteRecord(ctx: CliContext, side: Side, pool: ResolvedContract, amount: bigint, inputs: QuoteInputs) {
+  const show = (value: bigint) => (ctx.options.raw ? value : formatBigIntWithDecimals(value, 18, 6));
+
+  if (side === "buy") {
+    const quote = quoteBuy(inputs.state, inputs.fees, amount);
+    return {
+      quote,
+      record: {
+        side,
+        pool: pool.address,
+        amount: show(amount),
+        price: show(quote.price),
+        fee: show(quote.fee),
+        creatorFee: show(quote.creatorFee),
+        feeBps: inputs.fees.feeBps,
+        creatorFeeBps: inputs.fees.creatorFeeBps,
+        totalCost: show(quote.totalCost),
+      },
+    };
+  }
+
+  const quote = quoteSell(inputs.state, inputs.fees, amount);
+  return {
+    quote,
+    record: {
+      side,
+      pool: pool.address,
+      amount: show(amount),
+      price: show(quote.price),
+      fee: show(quote.fee),
+      creatorFee: show(quote.creatorFee),
+      feeBps: inputs.fees.feeBps,
+      creatorFeeBps: inputs.fees.creatorFeeBps,
+      netReturn: show(quote.netReturn),
+    },
+  };
+}
+
+/**
+ * pool quote <buy|sell> <pool> <amount>
+ */
+export async function quotePool(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const side = parseSide(positional(args, 0, "buy|sell", QUOTE_USAGE), QUOTE_USAGE);
+  const pool = ctx.resolve(positional(args, 1, "pool", QUOTE_USAGE), "BondingCurvePool");
+  const amount = parseAmount(ctx, pool, side, positional(args, 2, "amount", QUOTE_USAGE));
+
+  const inputs = await getQuoteInputs(ctx, pool);
+  printRecord(ctx.options, quoteRecord(ctx, side, pool, amount, inputs).record);
+}
+
+/**
+ * pool trade <buy|sell> <pool> <amount> — re-quotes, checks the bound, then
+ * sends the same approve + buy / sell multicall as the app
+ */
+export async function tradePool(ctx: CliContext, args: CommandArgs): Promise<void> {
+  const side = parseSide(positional(args, 0, "buy|sell", TRADE_USAGE), TRADE_USAGE);
+  const pool = ctx.resolve(positional(args, 1, "pool", TRADE_USAGE), "BondingCurvePool");
+  const amount = parseAmount(ctx, pool, side, positional(args, 2, "amount", TRADE_USAGE));
+
+  const inputs = await getQuoteInputs(ctx, pool);
+  if (inputs.state.migrated) {
+    throw new CliError("Pool has migrated to the DEX; the bonding curve no longer trades");
+  }
+  const { record } = quoteRecord(ctx, side, pool, amount, inputs);
+
+  let calls: Call[];
+  if (side === "buy") {
+    const maxCostFlag = stringFlag(args, "max-cost");
+    const maxCost = maxCostFlag === undefined ? undefined : parseAmount(ctx, pool, side, maxCostFlag, "max_cost");
+    const quote = quoteBuy(inputs.state, inputs.fees, amount);
+    assertBuyWithinBound(quote, maxCost);
+    calls = buildBuyCalls({
+      poolAddress: pool.address,
+      quoteToken: inputs.quoteToken,
+      amountTokens: amount,
+      approveAmount: quote.totalCost,
+    });
+  } else {
+    const minReturnFlag = stringFlag(args, "min-return");
+    const minReturn =
+      minReturnFlag === undefined ? undefined : parseAmount(ctx, pool, side, minReturnFlag, "min_return");
+    const quote = quoteSell(inputs.state, inputs.fees, amount);
+    assertSellWithinBound(quote, minReturn);
+    calls = buildSellCalls({ poolAddress: pool.address, amountTokens: amount });
+  }
+
+  await submit(ctx, calls, record);
+}
@@ -0,0 +1,180 @@
+import { Abi, Account, RpcProvider } from "starknet";
+import { DeploymentManifest, ManifestContractName } from "../../zump-frontend/src/config/deploymentManifest";
+import { loadAbi, toHexAddress } from "../indexer/events";
+import { loadManifest } from "../manifest";
+import { CliError } from "./output";
+
+export interface GlobalOptions {
+  network: string;
+  rpc?: string;
+  json: boolean;
+  /** Estimate fees for invokes instead of sending them */
+  dryRun: boolean;
+  /** Amounts are base units instead of whole 18-decimal tokens */
+  raw: boolean;
+}
+
+/**
+ * Short names accepted wherever a deployed contract is expected
+ */
+const CONTRACT_ALIASES: Record<string, ManifestContractName> = {
+  factory: "PumpFactory",
+  config: "ProtocolConfig",
+  stealth: "StealthAddressGenerator",
+  tree: "CommitmentTree",
+  nullifiers: "NullifierRegistry",
+  verifier: "ZKProofVerifier",
+  mixer: "DarkPoolMixer",
+  relayer: "PrivacyRelayer",
+  state: "EncryptedStateManager",
+  migration: "LiquidityMigration",
+  hook: "ZkDexHook",
+};
+
+export interface ResolvedContract {
+  /** ABI file name under zump-frontend/src/abi, e.g. "PumpFactory" */
+  name: string;
+  address: string;
+}
+
+export class CliContext {
+  readonly options: GlobalOptions;
+  readonly manifest: DeploymentManifest;
+  readonly provider: RpcProvider;
+  private account: Account | null = null;
+  private abis = new Map<string, Abi>();
+
+  constructor(options: GlobalOptions) {
+    this.options = options;
+    try {
+      this.manifest = loadManifest(options.network);
+    } catch (error: any) {
+      throw new CliError(error.message);
+    }
+    this.provider = new RpcProvider({ nodeUrl: options.rpc || process.env.RPC_URL || this.manifest.rpc });
+  }
+
+  /**
+   * ABI from the frontend's exported ABIs, shared with the app and the indexer
+   */
+  abi(contractName: string): Abi {
+    let abi = this.abis.get(contractName);
+    if (!abi) {
+      try {
+        abi = loadAbi(contractName) as Abi;
+      } catch (error: any) {
+        throw new CliError(error.message);
+      }
+      this.abis.set(contractName, abi);
+    }
+    return abi;
+  }
+
+  /**
+   * Deployed contract by name or alias ("PumpFactory", "factory", "mixer", ...)
+   */
+  contract(nameOrAlias: string): ResolvedContract {
+    const name =
+      CONTRACT_ALIASES[nameOrAlias.toLowerCase()] ||
+      this.deployedNames().find((key) => key.toLowerCase() === nameOrAlias.toLowerCase());
+    const deployed = name ? this.manifest.contracts[name] : undefined;
+    if (!name || !deployed) {
+      throw new CliError(
+        `Unknown contract "${nameOrAlias}" on ${this.options.network}. ` +
+          `Deployed: ${this.deployedNames().join(", ")}`
+      );
+    }
+    return { name, address: toHexAddress(deployed.address) };
+  }
+
+  /**
+   * Deployed contract, or an address paired with an ABI name (pools, tokens)
+   */
+  resolve(target: string, abiName?: string): ResolvedContract {
+    if (/^0x[0-9a-fA-F]+$/.test(target)) {
+      if (!abiName) {
+        const name = this.deployedNames().find(
+          (key) => toHexAddress(this.manifest.contracts[key]!.address) === toHexAddress(target)
+        );
+        if (!name) {
+          throw new CliError(`${target} is not a deployed contract; pass --abi <ContractName>`);
+        }
+        return { name, address: toHexAddress(target) };
+      }
+      return { name: abiName, address: toHexAddress(target) };
+    }
+    return this.contract(target);
+  }
+
+  /**
+   * Contracts recorded in the manifest for this network
+   */
+  deployedNames(): ManifestContractName[] {
+    return Object.keys(this.manifest.contracts) as ManifestContractName[];
+  }
+
+  /**
+   * Token address by symbol from the manifest, or the address itself
+   */
+  token(symbolOrAddress: string): string {
+    const address = this.manifest.tokens[symbolOrAddress.toUpperCase()];
+    if (address) return toHexAddress(address);
+    if (/^0x[0-9a-fA-F]+$/.test(symbolOrAddress)) return toHexAddress(symbolOrAddress);
+    throw new CliError(`Unknown token "${symbolOrAddress}"`);
+  }
+
+  /**
+   * Signing account from ACCOUNT_ADDRESS / PRIVATE_KEY, needed for invokes and dry runs
+   */
+  getAccount(): Account {
+    if (!this.account) {
+      const address = process.env.ACCOUNT_ADDRESS || "";
+      const privateKey = process.env.PRIVATE_KEY || "";
+      if (!address || !privateKey) {
+        throw new CliError("PRIVATE_KEY and ACCOUNT_ADDRESS must be set in .env");
+      }
+      this.account = new Account({ provider: this.provider, address, signer: privateKey });
+    }
+    return this.account;
+  }
+
+  explorerTxUrl(txHash: string): string {
+    return `${this.manifest.explorer}/tx/${txHash}`;
+  }
+}
+
+/**
+ * Command line after the global flags are taken out
+ */
+export interface CommandArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+export function stringFlag(args: CommandArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) {
+    throw new CliError(`--${name} needs a value`);
+  }
+  return value === undefined || value === false ? undefined : value;
+}
+
+export function numberFlag(args: CommandArgs, name: string, fallback: number): number {
+  const value = stringFlag(args, name);
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value)) {
+    throw new CliError(`--${name} must be a non-negative integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * Positional argument, or a usage error naming what is missing
+ */
+export function positional(args: CommandArgs, index: number, name: string, usage: string): string {
+  const value = args.positionals[index];
+  if (value === undefined) {
+    throw new CliError(`Missing <${name}>. Usage: ${usage}`);
+  }
+  return value;
+}
@@ -0,0 +1,130 @@
+import * as dotenv from "dotenv";
+import { setFee } from "./commands/admin";
+import { callContract } from "./commands/call";
+import { syncDeployments, verifyDeployments } from "./commands/deployments";
+import { tailEvents } from "./commands/events";
+import { listLaunches, showLaunch } from "./commands/launches";
+import { depositToMixer } from "./commands/mixer";
+import { quotePool, tradePool } from "./commands/pool";
+import { CliContext, CommandArgs, GlobalOptions } from "./context";
+import { CliError } from "./output";
+
+dotenv.config();
+
+type Handler = (ctx: CliContext, args: CommandArgs) => Promise<void>;
+
+/**
+ * "group subcommand" → handler; single-word commands use their own name
+ */
+const COMMANDS: Record<string, Handler> = {
+  "launches list": listLaunches,
+  "launch show": showLaunch,
+  "pool quote": quotePool,
+  "pool trade": tradePool,
+  "mixer deposit": depositToMixer,
+  "admin set-fee": setFee,
+  "events tail": tailEvents,
+  "deployments verify": verifyDeployments,
+  "deployments sync": syncDeployments,
+  call: callContract,
+};
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(["json", "dry-run", "raw", "follow", "help"]);
+
+const HELP = `Usage: npm run cli -- <command> [args] [options]
+
+Commands:
+  launches list [--limit N] [--offset N]          Newest launches from PumpFactory
+  launch show <id>                                One launch with its pool state
+  pool quote <buy|sell> <pool> <amount>           Quote a trade with the app's curve math
+  pool trade <buy|sell> <pool> <amount>           Buy or sell on the bonding curve
+             [--max-cost X | --min-return X]
+  mixer deposit <token> <amount> [--note-dir DIR] Deposit into DarkPoolMixer and save the note
+  admin set-fee <fee_bps> [fee_receiver]          Update ProtocolConfig.set_fee_config
+  events tail <contract|address>                  Decoded events from recent blocks
+             [--blocks N | --from-block N] [--type Buy,Sell] [--follow] [--interval S]
+  call <contract|address> [function] [args...]    Any ABI function; lists functions when omitted
+             [--abi ContractName]
+  deployments verify                              Check manifest classes and ABI hashes against the chain
+  deployments sync                                Fill missing deploy blocks and ABI hashes from the chain
+
+Options:
+  --network <name>   Deployment manifest deployments/<name>-deployments.json (default: $NETWORK or sepolia)
+  --rpc <url>        RPC endpoint (default: $RPC_URL, then the manifest's rpc)
+  --json             Machine-readable output
+  --dry-run          Estimate the fee of a transaction instead of sending it
+  --raw              Amounts in base units instead of 18-decimal tokens
+
+Contracts are deployment names or aliases (factory, config, mixer, ...).
+Transactions sign with ACCOUNT_ADDRESS and PRIVATE_KEY from .env.`;
+
+function parseArgv(argv: string[]): CommandArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    const inline = eq === -1 ? undefined : arg.slice(eq + 1);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags[name] = true;
+    } else if (inline !== undefined) {
+      flags[name] = inline;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      flags[name] = argv[++i];
+    } else {
+      throw new CliError(`--${name} needs a value`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function resolveCommand(positionals: string[]): { handler: Handler; rest: string[] } | null {
+  const pair = positionals.slice(0, 2).join(" ");
+  if (COMMANDS[pair]) return { handler: COMMANDS[pair], rest: positionals.slice(2) };
+  if (positionals[0] && COMMANDS[positionals[0]]) {
+    return { handler: COMMANDS[positionals[0]], rest: positionals.slice(1) };
+  }
+  return null;
+}
+
+async function main() {
+  const { positionals, flags } = parseArgv(process.argv.slice(2));
+  const command = resolveCommand(positionals);
+
+  if (flags.help || !command) {
+    console.log(HELP);
+    if (!flags.help && positionals.length > 0) {
+      throw new CliError(`Unknown command "${positionals.slice(0, 2).join(" ")}"`);
+    }
+    return;
+  }
+
+  const options: GlobalOptions = {
+    network: typeof flags.network === "string" ? flags.network : process.env.NETWORK || "sepolia",
+    rpc: typeof flags.rpc === "string" ? flags.rpc : undefined,
+    json: Boolean(flags.json),
+    dryRun: Boolean(flags["dry-run"]),
+    raw: Boolean(flags.raw),
+  };
+
+  await command.handler(new CliContext(options), { positionals: command.rest, flags });
+}
+
+main().catch((error) => {
+  if (error instanceof CliError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    // Trading errors from the shared builders carry a code
+    console.error("❌ Command failed:", error?.code ? `${error.code}: ${error.message}` : error);
+  }
+  process.exit(1);
+});
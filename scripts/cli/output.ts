@@ -0,0 +1,88 @@
+/**
+ * Errors the CLI reports without a stack trace (bad input, missing config)
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export type Cell = string | number | bigint | boolean | null | undefined;
+export type Row = Record<string, Cell>;
+
+export interface OutputOptions {
+  json: boolean;
+}
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+function cellText(value: Cell): string {
+  if (value === null || value === undefined) return "-";
+  return String(value);
+}
+
+/**
+ * Rows as a padded table, or a JSON array with --json
+ */
+export function printRows(options: OutputOptions, rows: Row[], columns?: string[]): void {
+  if (options.json) {
+    console.log(stringify(rows));
+    return;
+  }
+  if (rows.length === 0) {
+    console.log("(no results)");
+    return;
+  }
+
+  const headers = columns || Object.keys(rows[0]);
+  const widths = headers.map((header) =>
+    Math.max(header.length, ...rows.map((row) => cellText(row[header]).length))
+  );
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+
+  console.log(line(headers));
+  console.log(line(widths.map((width) => "-".repeat(width))));
+  rows.forEach((row) => console.log(line(headers.map((header) => cellText(row[header])))));
+}
+
+/**
+ * One record as key/value lines, or a JSON object with --json
+ * Nested objects are flattened to dotted keys in table mode.
+ */
+export function printRecord(options: OutputOptions, record: Record<string, unknown>): void {
+  if (options.json) {
+    console.log(stringify(record));
+    return;
+  }
+
+  const flat: [string, string][] = [];
+  const walk = (prefix: string, value: unknown) => {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.entries(value as Record<string, unknown>).forEach(([key, item]) =>
+        walk(prefix ? `${prefix}.${key}` : key, item)
+      );
+    } else if (Array.isArray(value)) {
+      flat.push([prefix, `[${value.map((item) => cellText(item as Cell)).join(", ")}]`]);
+    } else {
+      flat.push([prefix, cellText(value as Cell)]);
+    }
+  };
+  walk("", record);
+
+  const width = Math.max(...flat.map(([key]) => key.length));
+  flat.forEach(([key, value]) => console.log(`${key.padEnd(width)}  ${value}`));
+}
+
+/**
+ * Progress and status lines; kept off stdout with --json so output stays parseable
+ */
+export function info(options: OutputOptions, message: string): void {
+  if (options.json) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
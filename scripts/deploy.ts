@@ -3,6 +3,8 @@ import * as dotenv from "dotenv";
 import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
+import { ManifestContractName } from "../zump-frontend/src/config/deploymentManifest";
+import { openManifest, recordContract, saveManifest } from "./manifest";
 
 dotenv.config();
 
@@ -13,17 +15,21 @@ const NETWORK = process.env.NETWORK || "sepolia";
 const RPC_URL = process.env.RPC_URL || `https://starknet-sepolia.publicnode.com`;
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
 const ACCOUNT_ADDRESS = process.env.ACCOUNT_ADDRESS || "";
+// Launches trade against STRK unless overridden
+const QUOTE_TOKEN_ADDRESS =
+  process.env.QUOTE_TOKEN_ADDRESS || "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
 
 interface DeploymentResult {
-  contractName: string;
+  contractName: ManifestContractName;
   address: string;
+  classHash: string;
   txHash: string;
 }
 
 async function deployContract(
   provider: RpcProvider,
   account: Account,
-  contractName: string,
+  contractName: ManifestContractName,
   constructorCalldata: any[]
 ): Promise<DeploymentResult> {
   console.log(`\n📦 Deploying ${contractName}...`);
@@ -247,6 +253,7 @@ async function deployContract(
   return {
     contractName,
     address: deployResponse.contract_address,
+    classHash: declareResponse.class_hash,
     txHash: deployResponse.transaction_hash,
   };
 }
@@ -390,28 +397,13 @@ async function main() {
     );
     deployments.push(zkDexHook);
 
-    // Save deployment addresses
-    const deploymentData = {
-      network: NETWORK,
-      timestamp: new Date().toISOString(),
-      account: ACCOUNT_ADDRESS,
-      contracts: deployments.reduce((acc, dep) => {
-        acc[dep.contractName] = {
-          address: dep.address,
-          txHash: dep.txHash,
-        };
-        return acc;
-      }, {} as Record<string, { address: string; txHash: string }>),
-    };
-
-    const deploymentPath = path.join(__dirname, "..", "deployments", `${NETWORK}.json`);
-    const deploymentDir = path.dirname(deploymentPath);
-    if (!fs.existsSync(deploymentDir)) {
-      fs.mkdirSync(deploymentDir, { recursive: true });
+    // Save the deployment manifest read by the frontend, CLI, indexer and relayer
+    const manifest = await openManifest(provider, NETWORK, RPC_URL, ACCOUNT_ADDRESS, QUOTE_TOKEN_ADDRESS);
+    for (const dep of deployments) {
+      await recordContract(provider, manifest, dep.contractName, dep);
     }
-
-    fs.writeFileSync(deploymentPath, JSON.stringify(deploymentData, null, 2));
-    console.log(`\n💾 Deployment data saved to: ${deploymentPath}`);
+    const manifestFile = saveManifest(manifest);
+    console.log(`\n💾 Deployment manifest saved to: ${manifestFile}`);
 
     console.log("\n✅ Deployment Complete!");
     console.log("\n📋 Deployment Summary:");
@@ -264,7 +264,7 @@ if npm run deploy; then
     echo ""
     echo -e "${GREEN}✅ Deployment complete!${NC}"
     echo ""
-    echo -e "${CYAN}📋 Deployment addresses saved to: deployments/${NETWORK}.json${NC}"
+    echo -e "${CYAN}📋 Deployment addresses saved to: deployments/${NETWORK}-deployments.json${NC}"
 else
     echo -e "${RED}❌ Deployment failed${NC}"
     exit 1
@@ -274,7 +274,7 @@ echo ""
 echo -e "${GREEN}🎉 All done!${NC}"
 echo ""
 echo -e "${CYAN}Next steps:${NC}"
-echo -e "  1. Check deployments/${NETWORK}.json for contract addresses"
+echo -e "  1. Check deployments/${NETWORK}-deployments.json for contract addresses"
 echo -e "  2. Create your first launch: npm run create-launch \"MyToken\" \"MTK\" \"1000000000000000\" \"1000000000000\" \"1000000000000000000000000\""
 echo ""
 
@@ -0,0 +1,22 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// The frontend ABIs are the source of truth for contract layouts. Events are
+// decoded with zump-frontend/src/utils/eventDecoder, shared with the app.
+const ABI_DIR = path.join(__dirname, "..", "..", "zump-frontend", "src", "abi");
+
+/**
+ * Normalize an address to 0x + 64 lowercase hex chars (matches the frontend's Supabase rows)
+ */
+export function toHexAddress(value: string | bigint): string {
+  return `0x${BigInt(value).toString(16).padStart(64, "0")}`;
+}
+
+export function loadAbi(contractName: string): any[] {
+  const abiPath = path.join(ABI_DIR, `${contractName}.json`);
+  if (!fs.existsSync(abiPath)) {
+    throw new Error(`ABI not found at ${abiPath}`);
+  }
+  // The exported ABI files start with a UTF-8 BOM
+  return JSON.parse(fs.readFileSync(abiPath, "utf8").replace(/^\uFEFF/, ""));
+}
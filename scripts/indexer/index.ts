@@ -0,0 +1,76 @@
+import { RpcProvider } from "starknet";
+import * as dotenv from "dotenv";
+import { loadManifest } from "../manifest";
+import { toHexAddress } from "./events";
+import { FactoryDeployment, Indexer } from "./indexer";
+import { SupabaseStore } from "./store";
+
+dotenv.config();
+
+// Network configuration
+const NETWORK = process.env.NETWORK || "sepolia";
+const RPC_URL = process.env.RPC_URL || `https://starknet-sepolia.publicnode.com`;
+
+// Supabase configuration (service role key, never the anon key)
+const SUPABASE_URL = process.env.SUPABASE_URL || "";
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || "";
+
+// Indexer configuration (the start block defaults to the PumpFactory deploy block)
+const START_BLOCK = process.env.INDEXER_START_BLOCK;
+// Blocks behind head that are left alone so a reorg can't rewrite indexed rows
+const CONFIRMATIONS = Number(process.env.INDEXER_CONFIRMATIONS || 10);
+const MAX_BLOCK_RANGE = Number(process.env.INDEXER_MAX_BLOCK_RANGE || 1000);
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_MS || 15000);
+const RUN_ONCE = process.argv.includes("--once");
+
+function loadFactory(): FactoryDeployment {
+  if (process.env.PUMP_FACTORY_ADDRESS) {
+    return { address: toHexAddress(process.env.PUMP_FACTORY_ADDRESS), startBlock: Number(START_BLOCK || 0) };
+  }
+
+  const factory = loadManifest(NETWORK).contracts.PumpFactory;
+  if (!factory) {
+    throw new Error(`PUMP_FACTORY_ADDRESS not set and the ${NETWORK} manifest has no PumpFactory`);
+  }
+  return { address: toHexAddress(factory.address), startBlock: Number(START_BLOCK || factory.deploy_block || 0) };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function main() {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_KEY must be set in .env");
+  }
+
+  const factory = loadFactory();
+  console.log("🛰️  Zump Indexer");
+  console.log(`📍 Network: ${NETWORK}`);
+  console.log(`🏭 PumpFactory: ${factory.address}`);
+
+  const provider = new RpcProvider({ nodeUrl: RPC_URL });
+  const store = new SupabaseStore(SUPABASE_URL, SUPABASE_SERVICE_KEY, `${NETWORK}:${factory.address}`);
+  const indexer = new Indexer(provider, store, factory, {
+    confirmations: CONFIRMATIONS,
+    maxBlockRange: MAX_BLOCK_RANGE,
+  });
+
+  await indexer.loadPools();
+
+  for (;;) {
+    const progressed = await indexer.runPass();
+    if (!progressed) {
+      if (RUN_ONCE) {
+        console.log("\n✅ Caught up");
+        return;
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed:", error);
+  process.exit(1);
+});
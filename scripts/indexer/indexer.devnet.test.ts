@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { SupabaseClient, createClient } from "@supabase/supabase-js";
+import { Account, RpcProvider } from "starknet";
+import {
+  DevnetLaunch,
+  approveQuote,
+  buyCall,
+  deployLaunch,
+  devnetProvider,
+  devnetSkipReason,
+  execute,
+  predeployedAccount,
+  sellCall,
+} from "../test/devnet";
+import { toHexAddress } from "./events";
+import { Indexer } from "./indexer";
+import { SupabaseStore } from "./store";
+
+/**
+ * Indexes a real launch on starknet-devnet into a local Supabase (Postgres +
+ * PostgREST) created from zump-frontend/supabase/schema.sql:
+ *
+ *   supabase start && supabase db reset
+ *   TEST_SUPABASE_URL=http://127.0.0.1:54321 TEST_SUPABASE_SERVICE_KEY=<service_role key> \
+ *     DEVNET_URL=http://127.0.0.1:5050 npm run test:scripts
+ */
+const SUPABASE_ENV = ["TEST_SUPABASE_URL", "TEST_SUPABASE_SERVICE_KEY"];
+const SUPABASE_URL = process.env.TEST_SUPABASE_URL || "";
+const SUPABASE_SERVICE_KEY = process.env.TEST_SUPABASE_SERVICE_KEY || "";
+
+describe("Indexer on devnet + Postgres", { skip: devnetSkipReason(SUPABASE_ENV) }, () => {
+  let client: SupabaseClient;
+  let provider: RpcProvider;
+  let account: Account;
+  let launch: DevnetLaunch;
+  let multicallTx: string;
+
+  const indexAll = async () => {
+    const store = new SupabaseStore(SUPABASE_URL, SUPABASE_SERVICE_KEY, `devnet:${launch.factory}`);
+    const indexer = new Indexer(
+      provider,
+      store,
+      { address: toHexAddress(launch.factory), startBlock: launch.startBlock },
+      { confirmations: 0, maxBlockRange: 5 }
+    );
+    await indexer.loadPools();
+    while (await indexer.runPass());
+  };
+
+  before(async () => {
+    client = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, { auth: { persistSession: false } });
+    provider = devnetProvider();
+    account = await predeployedAccount(provider);
+    launch = await deployLaunch(account);
+
+    await execute(account, [approveQuote(launch.pool), buyCall(launch.pool, 100n)]);
+    // Two trades in one transaction share its hash
+    multicallTx = await execute(account, [
+      approveQuote(launch.pool),
+      buyCall(launch.pool, 50n),
+      sellCall(launch.pool, 30n),
+    ]);
+
+    await indexAll();
+  });
+
+  it("records the launch in token_metadata", async () => {
+    const { data, error } = await client
+      .from("token_metadata")
+      .select("pool_address, symbol, creator_address")
+      .eq("token_address", toHexAddress(launch.token))
+      .single();
+
+    assert.ifError(error);
+    assert.deepEqual(data, {
+      pool_address: toHexAddress(launch.pool),
+      symbol: "DEV",
+      creator_address: toHexAddress(account.address),
+    });
+  });
+
+  it("keeps both trades of a multicall", async () => {
+    const { data, error } = await client
+      .from("trade_events")
+      .select("trade_type, amount, tx_hash, event_index")
+      .eq("pool_address", toHexAddress(launch.pool))
+      .order("block_number")
+      .order("event_index");
+
+    assert.ifError(error);
+    const multicall = (data || []).filter((trade) => BigInt(trade.tx_hash) === BigInt(multicallTx));
+    assert.deepEqual(
+      multicall.map(({ trade_type, amount, event_index }) => ({ trade_type, amount, event_index })),
+      [
+        { trade_type: "buy", amount: "50", event_index: 0 },
+        { trade_type: "sell", amount: "30", event_index: 1 },
+      ]
+    );
+  });
+
+  it("writes the holder balance read at the indexed block", async () => {
+    const { data, error } = await client
+      .from("user_portfolios")
+      .select("balance")
+      .eq("user_address", toHexAddress(account.address))
+      .eq("token_address", toHexAddress(launch.token))
+      .single();
+
+    assert.ifError(error);
+    assert.equal(data?.balance, "120");
+  });
+
+  it("is idempotent when a range is indexed again", async () => {
+    await client.from("indexer_state").delete().eq("id", `devnet:${launch.factory}`);
+    await indexAll();
+
+    const { count, error } = await client
+      .from("trade_events")
+      .select("*", { count: "exact", head: true })
+      .eq("pool_address", toHexAddress(launch.pool));
+
+    assert.ifError(error);
+    assert.equal(count, 3);
+  });
+});
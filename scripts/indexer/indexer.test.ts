@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { RpcProvider, shortString } from "starknet";
+import { EVENT_SELECTORS, RawEvent } from "../../zump-frontend/src/utils/eventDecoder";
+import launchReceipt from "../../zump-frontend/src/utils/__fixtures__/receipts/launch.json";
+import buyReceipt from "../../zump-frontend/src/utils/__fixtures__/receipts/buy.json";
+import sellReceipt from "../../zump-frontend/src/utils/__fixtures__/receipts/sell.json";
+import { toHexAddress } from "./events";
+import { Indexer } from "./indexer";
+import { BalanceRow, IndexedPool, IndexerStore, LaunchRow, TradeRow } from "./store";
+
+// Addresses used by the receipt fixtures
+const FACTORY = toHexAddress("0x73399b589e513c4aad810f1b5fab0e8ee00d71e5c606730617197486c889f50");
+const POOL = toHexAddress("0x2b7a4c1e9d8f6a3b5c7d9e1f2a4b6c8d0e2f4a6b8c0d2e4f6a8b0c2d4e6f8a1");
+const TOKEN = toHexAddress("0x5e3c1a9f7d5b3e1c9a7f5d3b1e9c7a5f3d1b9e7c5a3f1d9b7e5c3a1f9d7b5e3");
+const ACCOUNT = toHexAddress("0x4d1f2e0b6b1c7f9e0a2f1c3d5e7f9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3");
+const STEALTH = toHexAddress("0x3a9e5c1f7b3d9a5e1c7f3b9d5a1e7c3f9b5d1a7e3c9f5b1d7a3e9c5f1b7d3a9");
+
+const LAUNCH_BLOCK = 100;
+const BUY_BLOCK = 101;
+const MULTICALL_BLOCK = 104;
+const MULTICALL_TX = "0x4d2";
+
+const at = (events: RawEvent[], blockNumber: number, txHash: string): RawEvent[] =>
+  events.map((event) => ({ ...event, block_number: blockNumber, transaction_hash: txHash }));
+
+const tradeOf = (receipt: { events: RawEvent[] }, type: "Buy" | "Sell"): RawEvent =>
+  receipt.events.find((event) => BigInt(event.keys?.[0] ?? 0) === BigInt(EVENT_SELECTORS[type])) as RawEvent;
+
+/**
+ * A multicall that trades twice on the pool, next to another contract's event
+ * sharing the Buy selector and a pool event whose payload is cut short
+ */
+const MULTICALL_EVENTS = at(
+  [
+    { from_address: "0x123", keys: [EVENT_SELECTORS.Buy, "0x1"], data: ["0x5"] },
+    tradeOf(buyReceipt, "Buy"),
+    { ...tradeOf(buyReceipt, "Buy"), data: ["0x1"] },
+    tradeOf(sellReceipt, "Sell"),
+  ],
+  MULTICALL_BLOCK,
+  MULTICALL_TX
+);
+
+const CHAIN_EVENTS: RawEvent[] = [
+  ...at(launchReceipt.events, LAUNCH_BLOCK, launchReceipt.transaction_hash),
+  ...at(buyReceipt.events, BUY_BLOCK, buyReceipt.transaction_hash),
+  ...MULTICALL_EVENTS,
+];
+
+/**
+ * Just enough of RpcProvider for the indexer, paging getEvents two events at a time
+ */
+class FakeProvider {
+  head = 110;
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number): Promise<{ timestamp: number }> {
+    return { timestamp: 1760000000 + blockNumber };
+  }
+
+  async getEvents(filter: {
+    address?: string;
+    from_block: { block_number: number };
+    to_block: { block_number: number };
+    keys: string[][];
+    continuation_token?: string;
+  }): Promise<{ events: RawEvent[]; continuation_token?: string }> {
+    const matching = CHAIN_EVENTS.filter(
+      (event) =>
+        (event.block_number as number) >= filter.from_block.block_number &&
+        (event.block_number as number) <= filter.to_block.block_number &&
+        (!filter.address || toHexAddress(event.from_address as string) === toHexAddress(filter.address)) &&
+        filter.keys[0].some((key) => BigInt(key) === BigInt((event.keys as string[])[0]))
+    );
+    const start = Number(filter.continuation_token || 0);
+    const next = start + 2;
+    return {
+      events: matching.slice(start, next),
+      continuation_token: next < matching.length ? String(next) : undefined,
+    };
+  }
+
+  async callContract(call: { contractAddress: string; entrypoint: string }): Promise<string[]> {
+    switch (call.entrypoint) {
+      case "name":
+        return [shortString.encodeShortString("Zump Coin")];
+      case "symbol":
+        return [shortString.encodeShortString("ZUMP")];
+      case "balance_of":
+        return ["0x64", "0x0"];
+      default:
+        throw new Error(`Unexpected call to ${call.entrypoint}`);
+    }
+  }
+}
+
+class MemoryStore implements IndexerStore {
+  cursor: number | null = null;
+
+  launches: LaunchRow[] = [];
+
+  trades: TradeRow[] = [];
+
+  balances: BalanceRow[] = [];
+
+  async getCursor(): Promise<number | null> {
+    return this.cursor;
+  }
+
+  async setCursor(lastBlock: number): Promise<void> {
+    this.cursor = lastBlock;
+  }
+
+  async getKnownPools(): Promise<IndexedPool[]> {
+    return [];
+  }
+
+  async saveLaunches(launches: LaunchRow[]): Promise<void> {
+    this.launches.push(...launches);
+  }
+
+  async saveTrades(trades: TradeRow[]): Promise<void> {
+    this.trades.push(...trades);
+  }
+
+  async saveBalances(balances: BalanceRow[]): Promise<void> {
+    this.balances.push(...balances);
+  }
+}
+
+describe("Indexer", () => {
+  let provider: FakeProvider;
+  let store: MemoryStore;
+  let indexer: Indexer;
+
+  beforeEach(async () => {
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "warn", () => undefined);
+    provider = new FakeProvider();
+    store = new MemoryStore();
+    indexer = new Indexer(
+      provider as unknown as RpcProvider,
+      store,
+      { address: FACTORY, startBlock: LAUNCH_BLOCK },
+      { confirmations: 5, maxBlockRange: 1000 }
+    );
+    await indexer.loadPools();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("records launches from the factory events", async () => {
+    await indexer.runPass();
+
+    assert.deepEqual(
+      store.launches.map((launch) => [launch.launch_id, launch.token_address, launch.pool_address, launch.creator_address]),
+      [
+        ["42", TOKEN, POOL, STEALTH],
+        ["42", TOKEN, POOL, ACCOUNT],
+      ]
+    );
+    assert.equal(store.launches[0].symbol, "ZUMP");
+  });
+
+  it("stops confirmations behind head and picks up from the cursor", async () => {
+    assert.equal(await indexer.runPass(), true);
+    assert.equal(store.cursor, 105);
+    assert.deepEqual(
+      store.trades.map((trade) => trade.tx_hash),
+      [buyReceipt.transaction_hash, MULTICALL_TX, MULTICALL_TX]
+    );
+
+    assert.equal(await indexer.runPass(), false);
+    provider.head = 111;
+    assert.equal(await indexer.runPass(), true);
+    assert.equal(store.cursor, 106);
+  });
+
+  it("keeps every trade of a multicall under its own event index", async () => {
+    provider.head = MULTICALL_BLOCK + 5;
+    await indexer.runPass();
+
+    const multicall = store.trades.filter((trade) => trade.tx_hash === MULTICALL_TX);
+    assert.deepEqual(
+      multicall.map((trade) => [trade.trade_type, trade.event_index]),
+      [
+        ["buy", 1],
+        ["sell", 3],
+      ]
+    );
+    assert.deepEqual(multicall[0], {
+      pool_address: POOL,
+      trader: ACCOUNT,
+      trade_type: "buy",
+      amount: "100000000000000000000",
+      price: "51000000000000000",
+      cost_or_return: "5100000000000000000",
+      timestamp: new Date((1760000000 + MULTICALL_BLOCK) * 1000).toISOString(),
+      tx_hash: MULTICALL_TX,
+      event_index: 1,
+      block_number: MULTICALL_BLOCK,
+    });
+  });
+
+  it("skips foreign and malformed trade events without halting", async () => {
+    const warn = mock.method(console, "warn", () => undefined);
+
+    assert.equal(await indexer.runPass(), true);
+    assert.equal(store.trades.filter((trade) => trade.tx_hash === MULTICALL_TX).length, 2);
+    // Only the short pool event reaches the decoder; the foreign one is never decoded
+    assert.equal(warn.mock.callCount(), 1);
+  });
+
+  it("reads the balance of every token holder but the zero address", async () => {
+    await indexer.runPass();
+
+    assert.deepEqual(store.balances, [{ user_address: ACCOUNT, token_address: TOKEN, balance: "100" }]);
+  });
+});
@@ -0,0 +1,249 @@
+import { RpcProvider, shortString } from "starknet";
+import {
+  BuyEvent,
+  EVENT_SELECTORS,
+  RawEvent,
+  SellEvent,
+  decodeEvents,
+} from "../../zump-frontend/src/utils/eventDecoder";
+import { toHexAddress } from "./events";
+import { BalanceRow, IndexedPool, IndexerStore, LaunchRow, TradeRow } from "./store";
+
+const CHUNK_SIZE = 100;
+
+const PRICE_SCALE = 10n ** 18n;
+
+const FACTORY_SELECTORS = [EVENT_SELECTORS.LaunchCreated, EVENT_SELECTORS.LaunchRegistered];
+const TRADE_SELECTORS = [EVENT_SELECTORS.Buy, EVENT_SELECTORS.Sell];
+const TRANSFER_SELECTORS = [EVENT_SELECTORS.Transfer];
+
+interface BlockRange {
+  from: number;
+  to: number;
+}
+
+export interface FactoryDeployment {
+  address: string;
+  /** First block scanned on an empty cursor */
+  startBlock: number;
+}
+
+export interface IndexerOptions {
+  /** Blocks behind head that are left alone so a reorg can't rewrite indexed rows */
+  confirmations: number;
+  maxBlockRange: number;
+}
+
+/**
+ * Follows PumpFactory and every BondingCurvePool it launched, writing launches,
+ * trades and holder balances through the store. Events are decoded with the
+ * frontend's decoder, so the app and the indexer share one ABI reading.
+ */
+export class Indexer {
+  private provider: RpcProvider;
+
+  private store: IndexerStore;
+
+  private factoryAddress: string;
+
+  private startBlock: number;
+
+  private options: IndexerOptions;
+
+  // pool address → token address
+  private pools = new Map<string, string>();
+
+  private blockTimestamps = new Map<number, number>();
+
+  constructor(
+    provider: RpcProvider,
+    store: IndexerStore,
+    factory: FactoryDeployment,
+    options: IndexerOptions
+  ) {
+    this.provider = provider;
+    this.store = store;
+    this.factoryAddress = factory.address;
+    this.startBlock = factory.startBlock;
+    this.options = options;
+  }
+
+  async loadPools(): Promise<void> {
+    const known: IndexedPool[] = await this.store.getKnownPools();
+    for (const pool of known) {
+      this.pools.set(toHexAddress(pool.poolAddress), toHexAddress(pool.tokenAddress));
+    }
+    console.log(`📋 Following ${this.pools.size} known pools`);
+  }
+
+  /**
+   * Index the next confirmed block range
+   * Returns false once the indexer has caught up with head - confirmations.
+   */
+  async runPass(): Promise<boolean> {
+    const head = await this.provider.getBlockNumber();
+    const cursor = await this.store.getCursor();
+    const from = cursor === null ? this.startBlock : cursor + 1;
+    const target = head - this.options.confirmations;
+
+    if (from > target) return false;
+
+    const range: BlockRange = { from, to: Math.min(target, from + this.options.maxBlockRange - 1) };
+    console.log(`\n🔍 Indexing blocks ${range.from} → ${range.to} (head ${head})`);
+
+    // Launches first, so pools created in this range are followed in the same pass
+    const launches = await this.indexLaunches(range);
+    const trades = await this.indexTrades(range);
+    const balances = await this.indexBalances(range);
+
+    await this.store.saveLaunches(launches);
+    await this.store.saveTrades(trades);
+    await this.store.saveBalances(balances);
+    await this.store.setCursor(range.to);
+
+    console.log(
+      `  ✅ ${launches.length} launches, ${trades.length} trades, ${balances.length} balances`
+    );
+    this.blockTimestamps.clear();
+    return true;
+  }
+
+  private async fetchEvents(
+    range: BlockRange,
+    keys: string[][],
+    address?: string
+  ): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.provider.getEvents({
+        address,
+        from_block: { block_number: range.from },
+        to_block: { block_number: range.to },
+        keys,
+        chunk_size: CHUNK_SIZE,
+        continuation_token: continuationToken,
+      });
+      events.push(...(page.events as RawEvent[]));
+      continuationToken = page.continuation_token;
+    } while (continuationToken);
+
+    return events;
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    this.blockTimestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  private async readShortString(contractAddress: string, entrypoint: string): Promise<string> {
+    const [value] = await this.provider.callContract({ contractAddress, entrypoint, calldata: [] });
+    return shortString.decodeShortString(value);
+  }
+
+  private async indexLaunches(range: BlockRange): Promise<LaunchRow[]> {
+    const events = await this.fetchEvents(range, [FACTORY_SELECTORS], this.factoryAddress);
+    const launches: LaunchRow[] = [];
+
+    for (const event of decodeEvents(events, ["LaunchCreated", "LaunchRegistered"])) {
+      const creator = event.type === "LaunchCreated" ? event.stealthCreator : event.creator;
+
+      this.pools.set(event.pool, event.token);
+      launches.push({
+        token_address: event.token,
+        pool_address: event.pool,
+        launch_id: event.launchId.toString(),
+        name: await this.readShortString(event.token, "name"),
+        symbol: await this.readShortString(event.token, "symbol"),
+        creator_address: creator,
+      });
+    }
+
+    return launches;
+  }
+
+  private async indexTrades(range: BlockRange): Promise<TradeRow[]> {
+    if (this.pools.size === 0) return [];
+
+    // One keys-filtered query covers every pool. Any contract can emit events with
+    // these selectors, so only events of known pools are decoded.
+    const events = await this.fetchEvents(range, [TRADE_SELECTORS]);
+    const trades: TradeRow[] = [];
+    const eventIndexes = new Map<string, number>();
+
+    for (const raw of events) {
+      // Counted before the pool filter, so a row keeps its index whichever pools are known
+      const txHash = raw.transaction_hash || "0x0";
+      const eventIndex = eventIndexes.get(txHash) ?? 0;
+      eventIndexes.set(txHash, eventIndex + 1);
+
+      if (!raw.from_address || !this.pools.has(toHexAddress(raw.from_address))) continue;
+
+      // The decoder drops (and logs) payloads that do not match the ABI
+      const [event] = decodeEvents([raw], ["Buy", "Sell"]);
+      if (!event) continue;
+      trades.push(await this.toTradeRow(event, eventIndex));
+    }
+
+    return trades;
+  }
+
+  private async toTradeRow(event: BuyEvent | SellEvent, eventIndex: number): Promise<TradeRow> {
+    const blockNumber = event.blockNumber as number;
+    const costOrReturn = event.type === "Buy" ? event.costQuote : event.refundQuote;
+    const amount = event.amountTokens;
+    const timestamp = await this.getBlockTimestamp(blockNumber);
+
+    return {
+      pool_address: event.fromAddress as string,
+      trader: event.type === "Buy" ? event.buyer : event.seller,
+      trade_type: event.type === "Buy" ? "buy" : "sell",
+      amount: amount.toString(),
+      price: (amount === 0n ? 0n : (costOrReturn * PRICE_SCALE) / amount).toString(),
+      cost_or_return: costOrReturn.toString(),
+      timestamp: new Date(timestamp * 1000).toISOString(),
+      tx_hash: event.txHash as string,
+      event_index: eventIndex,
+      block_number: blockNumber,
+    };
+  }
+
+  /**
+   * Balances of every holder touched by a Transfer in the range, read at range.to
+   * Reading balance_of (instead of summing transfers) keeps re-runs idempotent.
+   */
+  private async indexBalances(range: BlockRange): Promise<BalanceRow[]> {
+    const zeroAddress = toHexAddress(0n);
+    const balances: BalanceRow[] = [];
+
+    for (const token of new Set(this.pools.values())) {
+      const events = await this.fetchEvents(range, [TRANSFER_SELECTORS], token);
+      const holders = new Set<string>();
+
+      for (const event of decodeEvents(events, ["Transfer"])) {
+        holders.add(event.from);
+        holders.add(event.to);
+      }
+      holders.delete(zeroAddress);
+
+      for (const holder of holders) {
+        const [low, high] = await this.provider.callContract(
+          { contractAddress: token, entrypoint: "balance_of", calldata: [holder] },
+          range.to
+        );
+        balances.push({
+          user_address: holder,
+          token_address: token,
+          balance: (BigInt(low) + (BigInt(high) << 128n)).toString(),
+        });
+      }
+    }
+
+    return balances;
+  }
+}
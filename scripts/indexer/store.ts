@@ -0,0 +1,157 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+export interface TradeRow {
+  pool_address: string;
+  trader: string;
+  trade_type: "buy" | "sell";
+  amount: string;
+  price: string;
+  cost_or_return: string;
+  timestamp: string;
+  tx_hash: string;
+  /** Position among the Buy/Sell events of the transaction */
+  event_index: number;
+  block_number: number;
+}
+
+export interface LaunchRow {
+  token_address: string;
+  pool_address: string;
+  launch_id: string;
+  name: string;
+  symbol: string;
+  creator_address: string;
+}
+
+export interface BalanceRow {
+  user_address: string;
+  token_address: string;
+  balance: string;
+}
+
+export interface IndexedPool {
+  poolAddress: string;
+  tokenAddress: string;
+}
+
+/**
+ * Where the indexer keeps its cursor and writes what it decoded
+ */
+export interface IndexerStore {
+  getCursor(): Promise<number | null>;
+  setCursor(lastBlock: number): Promise<void>;
+  getKnownPools(): Promise<IndexedPool[]>;
+  saveLaunches(launches: LaunchRow[]): Promise<void>;
+  saveTrades(trades: TradeRow[]): Promise<void>;
+  saveBalances(balances: BalanceRow[]): Promise<void>;
+}
+
+/**
+ * Writes indexed data into the Supabase tables defined in zump-frontend/supabase/schema.sql
+ * Uses the service role key, which bypasses the RLS policies that keep browsers read-only.
+ */
+export class SupabaseStore implements IndexerStore {
+  private client: SupabaseClient;
+
+  private cursorId: string;
+
+  constructor(url: string, serviceKey: string, cursorId: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    this.cursorId = cursorId;
+  }
+
+  /**
+   * Last fully indexed block, or null on first run
+   */
+  async getCursor(): Promise<number | null> {
+    const { data, error } = await this.client
+      .from("indexer_state")
+      .select("last_block")
+      .eq("id", this.cursorId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to read indexer cursor: ${error.message}`);
+    return data ? Number(data.last_block) : null;
+  }
+
+  async setCursor(lastBlock: number): Promise<void> {
+    const { error } = await this.client
+      .from("indexer_state")
+      .upsert({ id: this.cursorId, last_block: lastBlock, updated_at: new Date().toISOString() });
+
+    if (error) throw new Error(`Failed to save indexer cursor: ${error.message}`);
+  }
+
+  /**
+   * Pools already recorded in token_metadata
+   */
+  async getKnownPools(): Promise<IndexedPool[]> {
+    const { data, error } = await this.client
+      .from("token_metadata")
+      .select("token_address, pool_address")
+      .not("pool_address", "is", null);
+
+    if (error) throw new Error(`Failed to load pools: ${error.message}`);
+    return (data || []).map((row) => ({
+      poolAddress: row.pool_address as string,
+      tokenAddress: row.token_address as string,
+    }));
+  }
+
+  /**
+   * Insert launches that have no metadata yet; fill on-chain columns of existing rows
+   * Rows created by the launch UI keep their creator, description and images.
+   */
+  async saveLaunches(launches: LaunchRow[]): Promise<void> {
+    for (const launch of launches) {
+      const { data: existing, error: readError } = await this.client
+        .from("token_metadata")
+        .select("token_address")
+        .eq("token_address", launch.token_address)
+        .maybeSingle();
+
+      if (readError) throw new Error(`Failed to read token metadata: ${readError.message}`);
+
+      const { error } = existing
+        ? await this.client
+            .from("token_metadata")
+            .update({ pool_address: launch.pool_address, launch_id: launch.launch_id })
+            .eq("token_address", launch.token_address)
+        : await this.client.from("token_metadata").insert(launch);
+
+      if (error) throw new Error(`Failed to save launch ${launch.launch_id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Idempotent: (tx_hash, event_index) is unique, so multicall trades all land
+   */
+  async saveTrades(trades: TradeRow[]): Promise<void> {
+    if (trades.length === 0) return;
+
+    const { error } = await this.client
+      .from("trade_events")
+      .upsert(trades, { onConflict: "tx_hash,event_index", ignoreDuplicates: true });
+
+    if (error) throw new Error(`Failed to save trades: ${error.message}`);
+  }
+
+  /**
+   * Idempotent: balances are absolute values read at the indexed block
+   */
+  async saveBalances(balances: BalanceRow[]): Promise<void> {
+    if (balances.length === 0) return;
+
+    const now = new Date().toISOString();
+    const { error } = await this.client
+      .from("user_portfolios")
+      .upsert(
+        balances.map((balance) => ({ ...balance, last_updated: now })),
+        { onConflict: "user_address,token_address" }
+      );
+
+    if (error) throw new Error(`Failed to save balances: ${error.message}`);
+  }
+}
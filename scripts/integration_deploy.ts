@@ -35,6 +35,8 @@
  */
 
 import { Account, Contract, RpcProvider, CallData, stark, hash } from 'starknet';
+import { ManifestContractName } from '../zump-frontend/src/config/deploymentManifest';
+import { openManifest, recordClass, recordContract, saveManifest } from './manifest';
 
 // Contract class hashes (to be filled after declaration)
 interface ContractClassHashes {
@@ -62,6 +64,32 @@ interface DeployedContracts {
   liquidityMigration: string;
 }
 
+interface DeploymentRecord {
+  name: ManifestContractName;
+  address: string;
+  classHash: string;
+  txHash: string;
+}
+
+// Every contract deployed in this run, written to the deployment manifest at the end
+const deploymentRecords: DeploymentRecord[] = [];
+
+/**
+ * Deploy one contract through the UDC and remember it for the manifest
+ */
+async function deployRecorded(
+  account: Account,
+  name: ManifestContractName,
+  classHash: string,
+  constructorCalldata: string[]
+): Promise<string> {
+  const deploy = await account.deployContract({ classHash, constructorCalldata });
+  await account.waitForTransaction(deploy.transaction_hash);
+  console.log(`${name} deployed at: ${deploy.contract_address}`);
+  deploymentRecords.push({ name, address: deploy.contract_address, classHash, txHash: deploy.transaction_hash });
+  return deploy.contract_address;
+}
+
 /**
  * Phase 1: Deploy Core Infrastructure Contracts
  * These contracts have no dependencies on other contracts
@@ -90,63 +118,63 @@ async function deployPhase1(
     max_supply: '1000000000000000000000000000', // 1B tokens
   });
   
-  const protocolConfigDeploy = await account.deployContract({
-    classHash: classHashes.protocolConfig,
-    constructorCalldata: protocolConfigCalldata,
-  });
-  await account.waitForTransaction(protocolConfigDeploy.transaction_hash);
-  console.log(`ProtocolConfig deployed at: ${protocolConfigDeploy.contract_address}`);
+  const protocolConfigAddress = await deployRecorded(
+    account,
+    'ProtocolConfig',
+    classHashes.protocolConfig,
+    protocolConfigCalldata
+  );
   
   // 2. Deploy StealthAddressGenerator
   console.log('Deploying StealthAddressGenerator...');
   const stealthGenCalldata = CallData.compile({ owner });
   
-  const stealthGenDeploy = await account.deployContract({
-    classHash: classHashes.stealthAddressGenerator,
-    constructorCalldata: stealthGenCalldata,
-  });
-  await account.waitForTransaction(stealthGenDeploy.transaction_hash);
-  console.log(`StealthAddressGenerator deployed at: ${stealthGenDeploy.contract_address}`);
+  const stealthGenAddress = await deployRecorded(
+    account,
+    'StealthAddressGenerator',
+    classHashes.stealthAddressGenerator,
+    stealthGenCalldata
+  );
   
   // 3. Deploy ZKProofVerifier
   console.log('Deploying ZKProofVerifier...');
   const zkVerifierCalldata = CallData.compile({ owner });
   
-  const zkVerifierDeploy = await account.deployContract({
-    classHash: classHashes.zkProofVerifier,
-    constructorCalldata: zkVerifierCalldata,
-  });
-  await account.waitForTransaction(zkVerifierDeploy.transaction_hash);
-  console.log(`ZKProofVerifier deployed at: ${zkVerifierDeploy.contract_address}`);
+  const zkVerifierAddress = await deployRecorded(
+    account,
+    'ZKProofVerifier',
+    classHashes.zkProofVerifier,
+    zkVerifierCalldata
+  );
   
   // 4. Deploy NullifierRegistry
   console.log('Deploying NullifierRegistry...');
   const nullifierCalldata = CallData.compile({ owner });
   
-  const nullifierDeploy = await account.deployContract({
-    classHash: classHashes.nullifierRegistry,
-    constructorCalldata: nullifierCalldata,
-  });
-  await account.waitForTransaction(nullifierDeploy.transaction_hash);
-  console.log(`NullifierRegistry deployed at: ${nullifierDeploy.contract_address}`);
+  const nullifierAddress = await deployRecorded(
+    account,
+    'NullifierRegistry',
+    classHashes.nullifierRegistry,
+    nullifierCalldata
+  );
   
   // 5. Deploy CommitmentTree
   console.log('Deploying CommitmentTree...');
   const commitmentTreeCalldata = CallData.compile({ owner });
   
-  const commitmentTreeDeploy = await account.deployContract({
-    classHash: classHashes.commitmentTree,
-    constructorCalldata: commitmentTreeCalldata,
-  });
-  await account.waitForTransaction(commitmentTreeDeploy.transaction_hash);
-  console.log(`CommitmentTree deployed at: ${commitmentTreeDeploy.contract_address}`);
+  const commitmentTreeAddress = await deployRecorded(
+    account,
+    'CommitmentTree',
+    classHashes.commitmentTree,
+    commitmentTreeCalldata
+  );
   
   return {
-    protocolConfig: protocolConfigDeploy.contract_address,
-    stealthAddressGenerator: stealthGenDeploy.contract_address,
-    zkProofVerifier: zkVerifierDeploy.contract_address,
-    nullifierRegistry: nullifierDeploy.contract_address,
-    commitmentTree: commitmentTreeDeploy.contract_address,
+    protocolConfig: protocolConfigAddress,
+    stealthAddressGenerator: stealthGenAddress,
+    zkProofVerifier: zkVerifierAddress,
+    nullifierRegistry: nullifierAddress,
+    commitmentTree: commitmentTreeAddress,
   };
 }
 
@@ -173,16 +201,16 @@ async function deployPhase2(
     fee_receiver: feeReceiver,
   });
   
-  const darkPoolDeploy = await account.deployContract({
-    classHash: classHashes.darkPoolMixer,
-    constructorCalldata: darkPoolCalldata,
-  });
-  await account.waitForTransaction(darkPoolDeploy.transaction_hash);
-  console.log(`DarkPoolMixer deployed at: ${darkPoolDeploy.contract_address}`);
+  const darkPoolAddress = await deployRecorded(
+    account,
+    'DarkPoolMixer',
+    classHashes.darkPoolMixer,
+    darkPoolCalldata
+  );
   
   return {
     ...phase1Contracts,
-    darkPoolMixer: darkPoolDeploy.contract_address,
+    darkPoolMixer: darkPoolAddress,
   };
 }
 
@@ -203,16 +231,16 @@ async function deployPhase3(
   console.log('Deploying PumpFactory...');
   const pumpFactoryCalldata = CallData.compile({ owner });
   
-  const pumpFactoryDeploy = await account.deployContract({
-    classHash: classHashes.pumpFactory,
-    constructorCalldata: pumpFactoryCalldata,
-  });
-  await account.waitForTransaction(pumpFactoryDeploy.transaction_hash);
-  console.log(`PumpFactory deployed at: ${pumpFactoryDeploy.contract_address}`);
+  const pumpFactoryAddress = await deployRecorded(
+    account,
+    'PumpFactory',
+    classHashes.pumpFactory,
+    pumpFactoryCalldata
+  );
   
   return {
     ...phase2Contracts,
-    pumpFactory: pumpFactoryDeploy.contract_address,
+    pumpFactory: pumpFactoryAddress,
   } as DeployedContracts;
 }
 
@@ -383,7 +411,10 @@ async function main() {
   console.log('========================================\n');
   
   // Configuration
-  const provider = new RpcProvider({ nodeUrl: process.env.STARKNET_RPC_URL || 'http://localhost:5050' });
+  const rpcUrl = process.env.STARKNET_RPC_URL || 'http://localhost:5050';
+  // Defaults to a local devnet, so a bare run never overwrites the sepolia manifest
+  const network = process.env.NETWORK || 'devnet';
+  const provider = new RpcProvider({ nodeUrl: rpcUrl });
   const account = new Account(
     provider,
     process.env.ACCOUNT_ADDRESS || '0x0',
@@ -417,8 +448,21 @@ async function main() {
     // Phase 4: Wire dependencies
     await wireContractDependencies(account, contracts);
     
-    // Test flows
+    // Record the deployment for the frontend, CLI, indexer and relayer
     const quoteToken = process.env.QUOTE_TOKEN_ADDRESS || '0x0';
+    const manifest = await openManifest(provider, network, rpcUrl, account.address, quoteToken);
+    for (const record of deploymentRecords) {
+      await recordContract(provider, manifest, record.name, record);
+    }
+    if (classHashes.memecoinToken !== '0x0') {
+      await recordClass(provider, manifest, 'MemecoinToken', classHashes.memecoinToken);
+    }
+    if (classHashes.bondingCurvePool !== '0x0') {
+      await recordClass(provider, manifest, 'BondingCurvePool', classHashes.bondingCurvePool);
+    }
+    console.log(`Deployment manifest saved to: ${saveManifest(manifest)}`);
+    
+    // Test flows
     const { tokenAddress, poolAddress } = await testAnonymousLaunchFlow(account, contracts, quoteToken);
     
     if (tokenAddress !== '0xTOKEN_ADDRESS') {
@@ -0,0 +1,129 @@
+import { RpcProvider, shortString } from "starknet";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEPLOYMENT_MANIFEST_VERSION,
+  DeploymentManifest,
+  ManifestClassName,
+  ManifestContractName,
+  computeAbiHash,
+  parseDeploymentManifest,
+} from "../zump-frontend/src/config/deploymentManifest";
+import { toHexAddress } from "./indexer/events";
+
+// Same files the frontend config imports
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+const EXPLORERS: Record<string, string> = {
+  sepolia: "https://sepolia.voyager.online",
+  mainnet: "https://voyager.online",
+};
+
+export function manifestPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${network}-deployments.json`);
+}
+
+export function loadManifest(network: string): DeploymentManifest {
+  const manifestFile = manifestPath(network);
+  if (!fs.existsSync(manifestFile)) {
+    throw new Error(`Deployment manifest not found at ${manifestFile}`);
+  }
+  return parseDeploymentManifest(JSON.parse(fs.readFileSync(manifestFile, "utf8")));
+}
+
+/**
+ * Existing manifest for the network, or an empty one for a first deployment
+ * Redeploying a contract replaces its entry; the others are kept.
+ */
+export async function openManifest(
+  provider: RpcProvider,
+  network: string,
+  rpc: string,
+  deployer: string,
+  quoteToken: string
+): Promise<DeploymentManifest> {
+  const today = new Date().toISOString().slice(0, 10);
+  if (fs.existsSync(manifestPath(network))) {
+    return { ...loadManifest(network), rpc, deployer: toHexAddress(deployer), deployed_at: today };
+  }
+
+  const chainId = await provider.getChainId();
+  return {
+    version: DEPLOYMENT_MANIFEST_VERSION,
+    network,
+    chain_id: shortString.decodeShortString(chainId),
+    rpc,
+    explorer: EXPLORERS[network] || EXPLORERS.sepolia,
+    deployed_at: today,
+    deployer: toHexAddress(deployer),
+    quote_token: toHexAddress(quoteToken),
+    contracts: {},
+    classes: {},
+    tokens: {},
+  };
+}
+
+export function saveManifest(manifest: DeploymentManifest): string {
+  const manifestFile = manifestPath(manifest.network);
+  fs.mkdirSync(path.dirname(manifestFile), { recursive: true });
+  fs.writeFileSync(manifestFile, `${JSON.stringify(parseDeploymentManifest(manifest), null, 2)}\n`);
+  return manifestFile;
+}
+
+/**
+ * ABI hash of a declared class, or null if the node cannot return it
+ */
+export async function fetchAbiHash(provider: RpcProvider, classHash: string): Promise<string | null> {
+  try {
+    const contractClass = await provider.getClassByHash(classHash);
+    return "sierra_program" in contractClass ? computeAbiHash(contractClass.abi) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchDeployBlock(provider: RpcProvider, txHash: string): Promise<number | null> {
+  try {
+    const receipt = await provider.getTransactionReceipt(txHash);
+    return "block_number" in receipt.value ? Number(receipt.value.block_number) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a deployed protocol contract with its class, deploy block and ABI hash
+ */
+export async function recordContract(
+  provider: RpcProvider,
+  manifest: DeploymentManifest,
+  name: ManifestContractName,
+  deployment: { address: string; classHash: string; txHash: string }
+): Promise<void> {
+  const [deployBlock, abiHash] = await Promise.all([
+    fetchDeployBlock(provider, deployment.txHash),
+    fetchAbiHash(provider, deployment.classHash),
+  ]);
+  manifest.contracts[name] = {
+    address: toHexAddress(deployment.address),
+    class_hash: toHexAddress(deployment.classHash),
+    abi_hash: abiHash,
+    deploy_tx: toHexAddress(deployment.txHash),
+    deploy_block: deployBlock,
+  };
+}
+
+/**
+ * Record a class that is deployed per launch (MemecoinToken, BondingCurvePool)
+ */
+export async function recordClass(
+  provider: RpcProvider,
+  manifest: DeploymentManifest,
+  name: ManifestClassName,
+  classHash: string
+): Promise<void> {
+  manifest.classes[name] = {
+    class_hash: toHexAddress(classHash),
+    abi_hash: await fetchAbiHash(provider, classHash),
+  };
+}
@@ -0,0 +1,188 @@
+import { Account, RpcProvider } from "starknet";
+import * as dotenv from "dotenv";
+import * as http from "http";
+import { toHexAddress } from "../indexer/events";
+import { loadManifest } from "../manifest";
+import { RelayError, Relayer, RelayerAddresses } from "./relayer";
+import { parseSignedRequest } from "./request";
+
+dotenv.config();
+
+// Network configuration
+const NETWORK = process.env.NETWORK || "sepolia";
+const RPC_URL = process.env.RPC_URL || `https://starknet-sepolia.publicnode.com`;
+
+// Relayer account (must be authorized in PrivacyRelayer)
+const RELAYER_ADDRESS = process.env.RELAYER_ADDRESS || "";
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY || "";
+
+// Service configuration
+const PORT = Number(process.env.RELAYER_PORT || 8787);
+const CORS_ORIGIN = process.env.RELAYER_CORS_ORIGIN || "*";
+const FEE_BPS = BigInt(process.env.RELAYER_FEE_BPS || 50);
+// Floor in quote token base units, so small buys still cover gas
+const MIN_FEE = BigInt(process.env.RELAYER_MIN_FEE || 0);
+// Quotes and requests are only honoured for this long
+const QUOTE_TTL_SECONDS = Number(process.env.RELAYER_QUOTE_TTL || 300);
+const MAX_BODY_BYTES = 64 * 1024;
+
+function loadAddresses(): RelayerAddresses {
+  const fromEnv = {
+    privacyRelayer: process.env.PRIVACY_RELAYER_ADDRESS,
+    darkPoolMixer: process.env.DARK_POOL_MIXER_ADDRESS,
+    pumpFactory: process.env.PUMP_FACTORY_ADDRESS,
+  };
+  if (fromEnv.privacyRelayer && fromEnv.darkPoolMixer && fromEnv.pumpFactory) {
+    return {
+      privacyRelayer: toHexAddress(fromEnv.privacyRelayer),
+      darkPoolMixer: toHexAddress(fromEnv.darkPoolMixer),
+      pumpFactory: { address: toHexAddress(fromEnv.pumpFactory), startBlock: 0 },
+    };
+  }
+
+  const { contracts } = loadManifest(NETWORK);
+  const privacyRelayer = fromEnv.privacyRelayer || contracts.PrivacyRelayer?.address;
+  const darkPoolMixer = fromEnv.darkPoolMixer || contracts.DarkPoolMixer?.address;
+  const pumpFactory = fromEnv.pumpFactory || contracts.PumpFactory?.address;
+  if (!privacyRelayer || !darkPoolMixer || !pumpFactory) {
+    throw new Error(
+      `PRIVACY_RELAYER_ADDRESS/DARK_POOL_MIXER_ADDRESS/PUMP_FACTORY_ADDRESS not set and missing from the ${NETWORK} manifest`
+    );
+  }
+  // The factory's launch events start at its deploy block, unless it was overridden
+  const startBlock = fromEnv.pumpFactory ? 0 : contracts.PumpFactory?.deploy_block || 0;
+  return {
+    privacyRelayer: toHexAddress(privacyRelayer),
+    darkPoolMixer: toHexAddress(darkPoolMixer),
+    pumpFactory: { address: toHexAddress(pumpFactory), startBlock },
+  };
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": CORS_ORIGIN,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new RelayError("BODY_TOO_LARGE", 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new RelayError("MALFORMED_REQUEST"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+async function route(relayer: Relayer, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url || "/", "http://relayer");
+
+  if (req.method === "OPTIONS") {
+    send(res, 204, {});
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    send(res, 200, { relayer: relayer.address, feeBps: FEE_BPS.toString(), minFee: MIN_FEE.toString() });
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/quote") {
+    const pool = url.searchParams.get("pool");
+    const amount = url.searchParams.get("amount");
+    if (!pool || !amount) throw new RelayError("MALFORMED_REQUEST");
+    let amountTokens: bigint;
+    try {
+      amountTokens = BigInt(amount);
+    } catch {
+      throw new RelayError("INVALID_AMOUNT");
+    }
+    send(res, 200, await relayer.quote(pool, amountTokens));
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/relay") {
+    const signed = parseSignedRequest(await readBody(req));
+    send(res, 202, await relayer.accept(signed));
+    return;
+  }
+
+  const status = url.pathname.match(/^\/status\/(0x[0-9a-fA-F]+)$/);
+  if (req.method === "GET" && status) {
+    const job = relayer.getJob(status[1]);
+    if (!job) throw new RelayError("UNKNOWN_REQUEST", 404);
+    send(res, 200, job);
+    return;
+  }
+
+  throw new RelayError("NOT_FOUND", 404);
+}
+
+async function main() {
+  if (!RELAYER_ADDRESS || !RELAYER_PRIVATE_KEY) {
+    throw new Error("RELAYER_ADDRESS and RELAYER_PRIVATE_KEY must be set in .env");
+  }
+
+  const addresses = loadAddresses();
+  const provider = new RpcProvider({ nodeUrl: RPC_URL });
+  const account = new Account({ provider, address: RELAYER_ADDRESS, signer: RELAYER_PRIVATE_KEY });
+  const relayer = new Relayer(provider, account, addresses, {
+    feeBps: FEE_BPS,
+    minFee: MIN_FEE,
+    quoteTtlSeconds: QUOTE_TTL_SECONDS,
+  });
+
+  console.log("🛰️  Zump Relayer");
+  console.log(`📍 Network: ${NETWORK}`);
+  console.log(`👤 Relayer account: ${relayer.address}`);
+  console.log(`🔁 PrivacyRelayer: ${addresses.privacyRelayer}`);
+  console.log(`🌀 DarkPoolMixer: ${addresses.darkPoolMixer}`);
+  console.log(`🏭 PumpFactory: ${addresses.pumpFactory.address}`);
+
+  const server = http.createServer((req, res) => {
+    route(relayer, req, res).catch((error) => {
+      if (error instanceof RelayError) {
+        send(res, error.status, { error: error.code });
+        return;
+      }
+      // parseSignedRequest throws plain errors carrying the code
+      if (error?.message === "MALFORMED_REQUEST") {
+        send(res, 400, { error: error.message });
+        return;
+      }
+      console.error("❌ Request failed:", error);
+      send(res, 500, { error: "INTERNAL_ERROR" });
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`🚀 Listening on http://localhost:${PORT}`);
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Relayer failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { Account, RpcProvider, stark } from "starknet";
+import { RelayedBuyParams } from "../../zump-frontend/src/services/relayerClient";
+import { buildMixerDepositCalls } from "../../zump-frontend/src/services/mixerBuilder";
+import { CommitmentTreeMirror } from "../../zump-frontend/src/utils/commitmentTree";
+import { MixerNote, generateMixerNote } from "../../zump-frontend/src/utils/mixerNote";
+import { generatePrivateTradeNote } from "../../zump-frontend/src/utils/privateTradeNote";
+import {
+  PROOF_TYPES,
+  computeNullifierHash,
+  computeTradeInputHash,
+  createDevelopmentProof,
+} from "../../zump-frontend/src/utils/zkProof";
+import {
+  DevnetLaunch,
+  DevnetPrivacy,
+  STRK_ADDRESS,
+  deployLaunch,
+  deployPrivacy,
+  devnetProvider,
+  devnetSkipReason,
+  execute,
+  predeployedAccount,
+} from "../test/devnet";
+import { signRelayRequest } from "../test/relay";
+import { RelayError, RelayJob, Relayer } from "./relayer";
+
+/**
+ * Relays a mixer-funded private buy through the deployed contracts:
+ *
+ *   starknet-devnet --seed 0 &
+ *   scarb build
+ *   DEVNET_URL=http://127.0.0.1:5050 npm run test:scripts
+ */
+const NOTE_AMOUNT = 5n * 10n ** 18n;
+const AMOUNT_TOKENS = 1000n;
+const MIXER_FEE_BPS = 30n;
+
+function u256(values: string[]): bigint {
+  return BigInt(values[0]) + (BigInt(values[1] ?? 0) << 128n);
+}
+
+describe("Relayer on devnet", { skip: devnetSkipReason() }, () => {
+  let provider: RpcProvider;
+  let user: Account;
+  let relayer: Relayer;
+  let launch: DevnetLaunch;
+  let privacy: DevnetPrivacy;
+  let funding: MixerNote;
+  let tree: CommitmentTreeMirror;
+  const recipient = stark.randomAddress();
+
+  const balanceOf = async (token: string, owner: string): Promise<bigint> =>
+    u256(await provider.callContract({ contractAddress: token, entrypoint: "balance_of", calldata: [owner] }));
+
+  /**
+   * A relayed buy as usePrivateTrading.relayedBuy builds it, paid from the funding note
+   */
+  const buildParams = async (amountTokens: bigint): Promise<RelayedBuyParams> => {
+    const quote = await relayer.quote(launch.pool, amountTokens);
+    const note = generatePrivateTradeNote(launch.pool, amountTokens);
+    const [merkleRoot, block] = await Promise.all([
+      provider.callContract({ contractAddress: privacy.commitmentTree, entrypoint: "get_current_root" }),
+      provider.getBlock("latest"),
+    ]);
+
+    return {
+      launchId: BigInt(quote.launchId),
+      pool: launch.pool,
+      amountTokens,
+      commitment: note.commitment,
+      proof: createDevelopmentProof({
+        proofType: PROOF_TYPES.BUY,
+        publicInputHash: computeTradeInputHash(PROOF_TYPES.BUY, note.poolAddress, amountTokens, note.commitment),
+        merkleRoot: merkleRoot[0],
+        nullifierHash: computeNullifierHash(note.nullifier),
+        timestamp: block.timestamp,
+      }),
+      funding: {
+        token: funding.token,
+        amount: funding.amount,
+        nullifier: funding.nullifier,
+        commitment: funding.commitment,
+        leafIndex: 0n,
+        merkleProof: tree.getPath(0),
+        merkleRoot: tree.getRootAt(0),
+      },
+      recipient,
+      maxCost: BigInt(quote.cost),
+      maxFee: BigInt(quote.fee),
+      expiresAt: Math.floor(Date.now() / 1000) + 120,
+    };
+  };
+
+  const waitForJob = async (id: string): Promise<RelayJob> => {
+    const deadline = Date.now() + 60_000;
+    while (Date.now() < deadline) {
+      const job = relayer.getJob(id);
+      if (job && (job.status === "confirmed" || job.status === "failed")) return job;
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    throw new Error(`Relay job ${id} did not settle`);
+  };
+
+  before(async () => {
+    provider = devnetProvider();
+    user = await predeployedAccount(provider, 0);
+    const relayerAccount = await predeployedAccount(provider, 1);
+
+    launch = await deployLaunch(user);
+    privacy = await deployPrivacy(user, launch, relayerAccount.address);
+    relayer = new Relayer(
+      provider,
+      relayerAccount,
+      {
+        privacyRelayer: privacy.privacyRelayer,
+        darkPoolMixer: privacy.mixer,
+        pumpFactory: { address: launch.factory, startBlock: launch.startBlock },
+      },
+      { feeBps: 50n, minFee: 0n, quoteTtlSeconds: 300 }
+    );
+
+    funding = generateMixerNote("devnet", STRK_ADDRESS, NOTE_AMOUNT);
+    await execute(
+      user,
+      buildMixerDepositCalls({
+        mixerAddress: privacy.mixer,
+        token: STRK_ADDRESS,
+        amount: NOTE_AMOUNT,
+        commitment: funding.commitment,
+      })
+    );
+    tree = new CommitmentTreeMirror([funding.commitment]);
+  });
+
+  it("buys privately with a mixer note and forwards tokens and change", async () => {
+    const params = await buildParams(AMOUNT_TOKENS);
+    const job = await waitForJob((await relayer.accept(await signRelayRequest(params))).id);
+
+    assert.equal(job.status, "confirmed", job.error);
+    assert.equal(await balanceOf(launch.token, recipient), AMOUNT_TOKENS);
+
+    const received = NOTE_AMOUNT - (NOTE_AMOUNT * MIXER_FEE_BPS) / 10000n;
+    assert.equal(await balanceOf(STRK_ADDRESS, recipient), received - params.maxCost - params.maxFee);
+
+    const [committed] = await provider.callContract({
+      contractAddress: launch.pool,
+      entrypoint: "is_commitment_valid",
+      calldata: [params.commitment],
+    });
+    assert.equal(BigInt(committed), 1n);
+  });
+
+  it("refuses to relay a note that is already spent", async () => {
+    const signed = await signRelayRequest(await buildParams(AMOUNT_TOKENS));
+
+    await assert.rejects(
+      relayer.accept(signed),
+      (error: unknown) => error instanceof RelayError && error.code === "NULLIFIER_ALREADY_SPENT"
+    );
+  });
+
+  it("refuses a proof bound to another amount", async () => {
+    const params = await buildParams(AMOUNT_TOKENS);
+    const signed = await signRelayRequest({ ...params, amountTokens: AMOUNT_TOKENS + 1n });
+
+    await assert.rejects(
+      relayer.accept(signed),
+      (error: unknown) => error instanceof RelayError && error.code === "INVALID_PROOF"
+    );
+  });
+});
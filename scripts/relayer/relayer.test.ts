@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { Account, Call, RpcProvider, cairo } from "starknet";
+import { RelayedBuyParams } from "../../zump-frontend/src/services/relayerClient";
+import { EVENT_SELECTORS } from "../../zump-frontend/src/utils/eventDecoder";
+import { PROOF_TYPES, computeTradeInputHash, createDevelopmentProof } from "../../zump-frontend/src/utils/zkProof";
+import { toHexAddress } from "../indexer/events";
+import { signRelayRequest } from "../test/relay";
+import { RelayError, Relayer } from "./relayer";
+
+const FACTORY = toHexAddress("0xfac");
+const POOL = toHexAddress("0xb00");
+const MEMECOIN = toHexAddress("0x7000");
+const STRK = toHexAddress("0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d");
+const MIXER = toHexAddress("0x313");
+const PRIVACY_RELAYER = toHexAddress("0x4e1");
+const RELAYER_ACCOUNT = toHexAddress("0xacc");
+
+// Deployed by an attacker: free tokens, and STRK posing as the memecoin
+const FAKE_POOL = toHexAddress("0xbad");
+
+const NOTE_AMOUNT = 5n * 10n ** 18n;
+const PRICE = 10n ** 15n;
+const AMOUNT_TOKENS = 1000n;
+const PROOF_TIME = 1760000000;
+
+const u256 = (value: bigint): string[] => {
+  const { low, high } = cairo.uint256(value);
+  return [low.toString(), high.toString()];
+};
+
+/**
+ * PumpFactory with one registered launch, its pool, the mixer and an attacker's pool
+ */
+function fakeChain() {
+  const views: Record<string, Record<string, (calldata: string[]) => string[]>> = {
+    [FACTORY]: {
+      get_launch: ([low]) => (BigInt(low) === 0n ? [MEMECOIN, POOL, STRK] : ["0x0", "0x0", "0x0"]),
+    },
+    [POOL]: {
+      is_private_trades_enabled: () => ["0x1"],
+      get_buy_cost: ([low]) => u256(PRICE * BigInt(low)),
+    },
+    [FAKE_POOL]: {
+      is_private_trades_enabled: () => ["0x1"],
+      quote_token: () => [STRK],
+      token: () => [STRK],
+      get_buy_cost: () => u256(0n),
+    },
+    [MIXER]: {
+      get_commitment_token: () => [STRK],
+      get_commitment_amount: () => u256(NOTE_AMOUNT),
+      is_nullifier_spent: () => ["0x0"],
+      get_amount_after_fee: () => u256(NOTE_AMOUNT),
+    },
+  };
+
+  const provider = {
+    callContract: async ({ contractAddress, entrypoint, calldata = [] }: Call) => {
+      const view = views[toHexAddress(contractAddress)]?.[entrypoint];
+      if (!view) throw new Error(`No ${entrypoint} on ${contractAddress}`);
+      return view(calldata as string[]);
+    },
+    getBlock: async () => ({ timestamp: PROOF_TIME + 10 }),
+    getBlockNumber: async () => 20,
+    getEvents: async () => ({
+      events: [
+        {
+          from_address: FACTORY,
+          keys: [EVENT_SELECTORS.LaunchRegistered, "0x0", "0x0"],
+          data: [MEMECOIN, POOL, "0x5ea1"],
+          block_number: 12,
+          transaction_hash: "0x1",
+        },
+      ],
+    }),
+    waitForTransaction: async () => ({ isSuccess: () => true }),
+  } as unknown as RpcProvider;
+
+  const executed: Call[][] = [];
+  const account = {
+    address: RELAYER_ACCOUNT,
+    execute: async (calls: Call[]) => {
+      executed.push(calls);
+      return { transaction_hash: "0x7e1" };
+    },
+  } as unknown as Account;
+
+  return { provider, account, executed };
+}
+
+const buyParams = (pool: string, launchId: bigint): RelayedBuyParams => {
+  const commitment = "0x5c0ffee";
+  return {
+    launchId,
+    pool,
+    amountTokens: AMOUNT_TOKENS,
+    commitment,
+    proof: createDevelopmentProof({
+      proofType: PROOF_TYPES.BUY,
+      publicInputHash: computeTradeInputHash(PROOF_TYPES.BUY, pool, AMOUNT_TOKENS, commitment),
+      merkleRoot: "0x7007",
+      nullifierHash: "0x4a11",
+      timestamp: PROOF_TIME,
+    }),
+    funding: {
+      token: STRK,
+      amount: NOTE_AMOUNT,
+      nullifier: "0x9111",
+      commitment: "0x9222",
+      leafIndex: 0n,
+      merkleProof: ["0x1"],
+      merkleRoot: "0x9333",
+    },
+    recipient: toHexAddress("0xa77ac4e7"),
+    maxCost: NOTE_AMOUNT,
+    maxFee: NOTE_AMOUNT,
+    expiresAt: Math.floor(Date.now() / 1000) + 60,
+  };
+};
+
+const isRelayError = (code: string) => (error: unknown) => error instanceof RelayError && error.code === code;
+
+describe("Relayer pool checks", () => {
+  let chain: ReturnType<typeof fakeChain>;
+  let relayer: Relayer;
+
+  beforeEach(() => {
+    chain = fakeChain();
+    relayer = new Relayer(
+      chain.provider,
+      chain.account,
+      { privacyRelayer: PRIVACY_RELAYER, darkPoolMixer: MIXER, pumpFactory: { address: FACTORY, startBlock: 10 } },
+      { feeBps: 50n, minFee: 0n, quoteTtlSeconds: 300 }
+    );
+  });
+
+  it("quotes pools with their factory launch", async () => {
+    const quote = await relayer.quote(POOL, AMOUNT_TOKENS);
+
+    assert.equal(quote.launchId, "0");
+    assert.equal(quote.quoteToken, STRK);
+    assert.equal(quote.cost, (PRICE * AMOUNT_TOKENS).toString());
+    await assert.rejects(relayer.quote(FAKE_POOL, AMOUNT_TOKENS), isRelayError("UNKNOWN_POOL"));
+  });
+
+  it("refuses a pool the factory did not launch under the signed launch ID", async () => {
+    const signed = await signRelayRequest(buyParams(FAKE_POOL, 0n));
+
+    await assert.rejects(relayer.accept(signed), isRelayError("UNKNOWN_POOL"));
+    assert.equal(chain.executed.length, 0);
+  });
+
+  it("sends the factory's memecoin and quote token, not the pool's", async () => {
+    const job = await relayer.accept(await signRelayRequest(buyParams(POOL, 0n)));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(job.status, "confirmed");
+    const [calls] = chain.executed;
+    const transfers = calls.filter((call) => call.entrypoint === "transfer").map((call) => call.contractAddress);
+    assert.deepEqual(transfers, [MEMECOIN, STRK]);
+    assert.equal(calls.find((call) => call.entrypoint === "approve")?.contractAddress, STRK);
+  });
+});
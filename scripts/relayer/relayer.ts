@@ -0,0 +1,387 @@
+import { Account, CallData, RpcProvider, cairo, Call } from "starknet";
+import { EVENT_SELECTORS, RawEvent, decodeEvents } from "../../zump-frontend/src/utils/eventDecoder";
+import {
+  PROOF_TYPES,
+  PROOF_VALIDITY_SECONDS,
+  compileZKProof,
+  computeTradeInputHash,
+} from "../../zump-frontend/src/utils/zkProof";
+import { toHexAddress } from "../indexer/events";
+import { FactoryDeployment } from "../indexer/indexer";
+import { SignedPrivateBuyRequest, hashPrivateBuyRequest, verifyRequestSignature } from "./request";
+
+/**
+ * Validates signed private buy requests and relays them from an account
+ * authorized in PrivacyRelayer, one transaction at a time
+ */
+
+// ZKProofVerifier accepts proofs for PROOF_VALIDITY_SECONDS; leave room for inclusion
+const PROOF_INCLUSION_MARGIN = 300;
+
+const BPS_DENOMINATOR = 10000n;
+
+const EVENT_CHUNK_SIZE = 100;
+
+const LAUNCH_SELECTORS = [EVENT_SELECTORS.LaunchCreated, EVENT_SELECTORS.LaunchRegistered];
+
+export type JobStatus = "queued" | "submitted" | "confirmed" | "failed";
+
+export interface RelayJob {
+  id: string;
+  status: JobStatus;
+  txHash?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RelayQuote {
+  relayer: string;
+  /** PumpFactory launch of the pool; the signed request must name it */
+  launchId: string;
+  pool: string;
+  quoteToken: string;
+  amountTokens: string;
+  /** Curve cost plus protocol and creator fees, what private_buy pulls from the relayer */
+  cost: string;
+  fee: string;
+  feeBps: string;
+  validUntil: number;
+}
+
+export interface RelayerAddresses {
+  privacyRelayer: string;
+  darkPoolMixer: string;
+  /** Only pools this factory launched are traded */
+  pumpFactory: FactoryDeployment;
+}
+
+/**
+ * A launch as PumpFactory records it; the pool's own getters are not trusted
+ */
+interface FactoryLaunch {
+  launchId: bigint;
+  token: string;
+  pool: string;
+  quoteToken: string;
+}
+
+export interface RelayerOptions {
+  feeBps: bigint;
+  /** Floor in quote token base units, so small buys still cover gas */
+  minFee: bigint;
+  /** Quotes and requests are only honoured for this long */
+  quoteTtlSeconds: number;
+}
+
+export class RelayError extends Error {
+  constructor(public code: string, public status = 400) {
+    super(code);
+  }
+}
+
+function u256(values: string[]): bigint {
+  return BigInt(values[0]) + (BigInt(values[1] ?? 0) << 128n);
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export class Relayer {
+  private provider: RpcProvider;
+
+  private account: Account;
+
+  private addresses: RelayerAddresses;
+
+  private options: RelayerOptions;
+
+  private jobs = new Map<string, RelayJob>();
+
+  // pool address → launch ID, from the factory's launch events
+  private launchIds = new Map<string, bigint>();
+
+  // Last block whose launch events are in launchIds
+  private launchesScannedTo: number | null = null;
+
+  // Mixer nullifiers of jobs not yet settled, so one note can't be relayed twice
+  private pendingNullifiers = new Set<string>();
+
+  // Submissions run one at a time so the relayer's nonce never collides
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(provider: RpcProvider, account: Account, addresses: RelayerAddresses, options: RelayerOptions) {
+    this.provider = provider;
+    this.account = account;
+    this.addresses = addresses;
+    this.options = options;
+  }
+
+  get address(): string {
+    return toHexAddress(this.account.address);
+  }
+
+  quoteFee(cost: bigint): bigint {
+    const { feeBps, minFee } = this.options;
+    const fee = (cost * feeBps) / BPS_DENOMINATOR;
+    return fee > minFee ? fee : minFee;
+  }
+
+  async quote(pool: string, amountTokens: bigint): Promise<RelayQuote> {
+    if (amountTokens <= 0n) throw new RelayError("INVALID_AMOUNT");
+
+    const launchId = await this.findLaunchId(pool);
+    if (launchId === null) throw new RelayError("UNKNOWN_POOL");
+    const launch = await this.getLaunch(launchId, pool);
+    const cost = await this.getCost(launch.pool, amountTokens);
+    return {
+      relayer: this.address,
+      launchId: launchId.toString(),
+      pool: launch.pool,
+      quoteToken: launch.quoteToken,
+      amountTokens: amountTokens.toString(),
+      cost: cost.toString(),
+      fee: this.quoteFee(cost).toString(),
+      feeBps: this.options.feeBps.toString(),
+      validUntil: nowSeconds() + this.options.quoteTtlSeconds,
+    };
+  }
+
+  getJob(id: string): RelayJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Check a signed request against chain state and queue it
+   * Everything that would make the multicall revert is rejected here, so the
+   * relayer doesn't pay gas for requests that can't succeed.
+   */
+  async accept(signed: SignedPrivateBuyRequest): Promise<RelayJob> {
+    const id = hashPrivateBuyRequest(signed.request);
+    const existing = this.jobs.get(id);
+    if (existing) return existing;
+
+    const calls = await this.validate(signed);
+    const nullifier = toHexAddress(signed.request.funding.nullifier);
+    if (this.pendingNullifiers.has(nullifier)) {
+      throw new RelayError("DUPLICATE_REQUEST", 409);
+    }
+
+    const job: RelayJob = { id, status: "queued", createdAt: Date.now(), updatedAt: Date.now() };
+    this.jobs.set(id, job);
+    this.pendingNullifiers.add(nullifier);
+
+    this.queue = this.queue
+      .then(() => this.submit(job, calls))
+      .finally(() => this.pendingNullifiers.delete(nullifier));
+    return job;
+  }
+
+  private async validate(signed: SignedPrivateBuyRequest): Promise<Call[]> {
+    const { request } = signed;
+    const { proof, funding } = request;
+    const now = nowSeconds();
+
+    if (request.expiresAt <= now) throw new RelayError("REQUEST_EXPIRED");
+    if (request.expiresAt > now + this.options.quoteTtlSeconds) throw new RelayError("REQUEST_TTL_TOO_LONG");
+    if (!verifyRequestSignature(signed)) throw new RelayError("INVALID_SIGNATURE", 401);
+
+    const amountTokens = BigInt(request.amountTokens);
+    if (amountTokens <= 0n) throw new RelayError("INVALID_AMOUNT");
+    if (proof.proofType !== PROOF_TYPES.BUY) throw new RelayError("INVALID_PROOF_TYPE");
+    const inputHash = computeTradeInputHash(PROOF_TYPES.BUY, request.pool, amountTokens, request.commitment);
+    if (BigInt(inputHash) !== BigInt(proof.publicInputHash)) throw new RelayError("INVALID_PROOF");
+
+    const block = await this.provider.getBlock("latest");
+    if (proof.timestamp > block.timestamp) throw new RelayError("FUTURE_PROOF");
+    if (block.timestamp - proof.timestamp >= PROOF_VALIDITY_SECONDS - PROOF_INCLUSION_MARGIN) {
+      throw new RelayError("PROOF_EXPIRED");
+    }
+
+    // A pool the factory did not launch could report anything, e.g. a zero
+    // price and the quote token as its memecoin, and be paid from our balance
+    const { token: memecoin, quoteToken } = await this.getLaunch(BigInt(request.launchId), request.pool);
+
+    const { darkPoolMixer, privacyRelayer } = this.addresses;
+    const [enabled, noteToken, noteAmount, spent] = await Promise.all([
+      this.callOne(request.pool, "is_private_trades_enabled"),
+      this.callOne(darkPoolMixer, "get_commitment_token", [funding.commitment]),
+      this.call(darkPoolMixer, "get_commitment_amount", [funding.commitment]).then(u256),
+      this.callOne(darkPoolMixer, "is_nullifier_spent", [funding.nullifier]),
+    ]);
+
+    if (BigInt(enabled) === 0n) throw new RelayError("PRIVATE_TRADES_DISABLED");
+    if (BigInt(quoteToken) !== BigInt(funding.token)) throw new RelayError("FUNDING_TOKEN_MISMATCH");
+    if (BigInt(noteToken) !== BigInt(funding.token) || noteAmount !== BigInt(funding.amount)) {
+      throw new RelayError("INVALID_COMMITMENT");
+    }
+    if (BigInt(spent) !== 0n) throw new RelayError("NULLIFIER_ALREADY_SPENT");
+
+    const cost = await this.getCost(request.pool, amountTokens);
+    const fee = this.quoteFee(cost);
+    if (cost > BigInt(request.maxCost)) throw new RelayError("SLIPPAGE_EXCEEDED");
+    if (fee > BigInt(request.maxFee)) throw new RelayError("FEE_ABOVE_MAX");
+
+    const received = u256(
+      await this.call(darkPoolMixer, "get_amount_after_fee", [...this.uint256(noteAmount)])
+    );
+    const change = received - cost - fee;
+    if (change < 0n) throw new RelayError("INSUFFICIENT_FUNDING");
+
+    const calls: Call[] = [
+      {
+        contractAddress: darkPoolMixer,
+        entrypoint: "withdraw",
+        calldata: CallData.compile({
+          token: funding.token,
+          amount: cairo.uint256(noteAmount),
+          nullifier: funding.nullifier,
+          recipient: this.address,
+          commitment: funding.commitment,
+          leaf_index: cairo.uint256(funding.leafIndex),
+          merkle_proof: funding.merkleProof,
+          merkle_root: funding.merkleRoot,
+        }),
+      },
+      {
+        contractAddress: quoteToken,
+        entrypoint: "approve",
+        calldata: CallData.compile({ spender: request.pool, amount: cairo.uint256(cost) }),
+      },
+      {
+        contractAddress: request.pool,
+        entrypoint: "private_buy",
+        calldata: [
+          ...this.uint256(amountTokens),
+          ...compileZKProof(proof),
+          request.commitment,
+        ],
+      },
+      {
+        // Records the nullifier on-chain and checks this account is an authorized relayer
+        contractAddress: privacyRelayer,
+        entrypoint: "execute_private_buy",
+        calldata: CallData.compile({
+          pool: request.pool,
+          proof: {
+            commitment: request.commitment,
+            nullifier: funding.nullifier,
+            proof_data: proof.publicInputHash,
+          },
+          amount_tokens: cairo.uint256(amountTokens),
+          commitment: request.commitment,
+        }),
+      },
+      {
+        contractAddress: memecoin,
+        entrypoint: "transfer",
+        calldata: CallData.compile({ recipient: request.recipient, amount: cairo.uint256(amountTokens) }),
+      },
+    ];
+
+    if (change > 0n) {
+      calls.push({
+        contractAddress: quoteToken,
+        entrypoint: "transfer",
+        calldata: CallData.compile({ recipient: request.recipient, amount: cairo.uint256(change) }),
+      });
+    }
+    return calls;
+  }
+
+  private async submit(job: RelayJob, calls: Call[]): Promise<void> {
+    try {
+      const { transaction_hash: txHash } = await this.account.execute(calls);
+      this.update(job, { status: "submitted", txHash });
+      console.log(`  📤 ${job.id.slice(0, 10)}… submitted in ${txHash}`);
+
+      const receipt = await this.provider.waitForTransaction(txHash);
+      if (!receipt.isSuccess()) throw new Error("Transaction reverted");
+      this.update(job, { status: "confirmed" });
+      console.log(`  ✅ ${job.id.slice(0, 10)}… confirmed`);
+    } catch (error: any) {
+      this.update(job, { status: "failed", error: error?.message || String(error) });
+      console.error(`  ❌ ${job.id.slice(0, 10)}… failed:`, error?.message || error);
+    }
+  }
+
+  private update(job: RelayJob, changes: Partial<RelayJob>): void {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+  }
+
+  /**
+   * PumpFactory's record of a launch, which must be the given pool
+   */
+  private async getLaunch(launchId: bigint, pool: string): Promise<FactoryLaunch> {
+    // PublicLaunchInfo starts with token, pool, quote_token
+    const [token, launchPool, quoteToken] = await this.call(this.addresses.pumpFactory.address, "get_launch", [
+      ...this.uint256(launchId),
+    ]);
+    if (BigInt(launchPool) === 0n || BigInt(launchPool) !== BigInt(pool)) {
+      throw new RelayError("UNKNOWN_POOL");
+    }
+    return {
+      launchId,
+      token: toHexAddress(token),
+      pool: toHexAddress(launchPool),
+      quoteToken: toHexAddress(quoteToken),
+    };
+  }
+
+  /**
+   * Launch ID of a pool, from PumpFactory's LaunchCreated and LaunchRegistered events
+   * The factory has no pool getter and pools are not told their launch, so
+   * the events are scanned once and only new blocks are read afterwards.
+   */
+  private async findLaunchId(pool: string): Promise<bigint | null> {
+    const key = toHexAddress(pool);
+    const known = this.launchIds.get(key);
+    if (known !== undefined) return known;
+
+    const { address, startBlock } = this.addresses.pumpFactory;
+    const fromBlock = this.launchesScannedTo === null ? startBlock : this.launchesScannedTo + 1;
+    const toBlock = await this.provider.getBlockNumber();
+    if (fromBlock <= toBlock) {
+      const events: RawEvent[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await this.provider.getEvents({
+          address,
+          from_block: { block_number: fromBlock },
+          to_block: { block_number: toBlock },
+          keys: [LAUNCH_SELECTORS],
+          chunk_size: EVENT_CHUNK_SIZE,
+          continuation_token: continuationToken,
+        });
+        events.push(...(page.events as RawEvent[]));
+        continuationToken = page.continuation_token;
+      } while (continuationToken);
+
+      decodeEvents(events, ["LaunchCreated", "LaunchRegistered"]).forEach((event) => {
+        this.launchIds.set(toHexAddress(event.pool), event.launchId);
+      });
+      this.launchesScannedTo = toBlock;
+    }
+
+    return this.launchIds.get(key) ?? null;
+  }
+
+  private async getCost(pool: string, amountTokens: bigint): Promise<bigint> {
+    return u256(await this.call(pool, "get_buy_cost", this.uint256(amountTokens)));
+  }
+
+  private uint256(value: bigint): string[] {
+    const { low, high } = cairo.uint256(value);
+    return [low.toString(), high.toString()];
+  }
+
+  private async call(contractAddress: string, entrypoint: string, calldata: string[] = []): Promise<string[]> {
+    return this.provider.callContract({ contractAddress, entrypoint, calldata });
+  }
+
+  private async callOne(contractAddress: string, entrypoint: string, calldata: string[] = []): Promise<string> {
+    const [value] = await this.call(contractAddress, entrypoint, calldata);
+    return value;
+  }
+}
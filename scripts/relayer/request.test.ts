@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RelayedBuyParams } from "../../zump-frontend/src/services/relayerClient";
+import { PROOF_TYPES, computeTradeInputHash, createDevelopmentProof } from "../../zump-frontend/src/utils/zkProof";
+import { signRelayRequest } from "../test/relay";
+import { hashPrivateBuyRequest, parseSignedRequest, verifyRequestSignature } from "./request";
+
+const POOL = "0x2b7a4c1e9d8f6a3b5c7d9e1f2a4b6c8d0e2f4a6b8c0d2e4f6a8b0c2d4e6f8a1";
+const COMMITMENT = "0x5c0ffee";
+const AMOUNT = 1000n;
+
+const PARAMS: RelayedBuyParams = {
+  launchId: 0n,
+  pool: POOL,
+  amountTokens: AMOUNT,
+  commitment: COMMITMENT,
+  proof: createDevelopmentProof({
+    proofType: PROOF_TYPES.BUY,
+    publicInputHash: computeTradeInputHash(PROOF_TYPES.BUY, POOL, AMOUNT, COMMITMENT),
+    merkleRoot: "0x7007",
+    nullifierHash: "0x4a11",
+    timestamp: 1760000000,
+  }),
+  funding: {
+    token: "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d",
+    amount: 5n * 10n ** 18n,
+    nullifier: "0x9111",
+    commitment: "0x9222",
+    leafIndex: 3n,
+    merkleProof: ["0x1", "0x2", "0x3"],
+    merkleRoot: "0x9333",
+  },
+  recipient: "0x4d1f2e0b6b1c7f9e0a2f1c3d5e7f9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3",
+  maxCost: 10n ** 18n,
+  maxFee: 5n * 10n ** 15n,
+  expiresAt: 1760000300,
+};
+
+describe("relay request", () => {
+  it("verifies a request signed by the frontend RelayerClient", async () => {
+    const signed = parseSignedRequest(await signRelayRequest(PARAMS));
+
+    assert.equal(verifyRequestSignature(signed), true);
+  });
+
+  it("rejects a request altered after signing", async () => {
+    const signed = await signRelayRequest(PARAMS);
+    const altered = {
+      ...signed,
+      request: { ...signed.request, proof: { ...signed.request.proof, timestamp: 1760000001 } },
+    };
+
+    assert.notEqual(hashPrivateBuyRequest(altered.request), hashPrivateBuyRequest(signed.request));
+    assert.equal(verifyRequestSignature(altered), false);
+  });
+
+  it("rejects a body with a missing proof coordinate", async () => {
+    const signed = await signRelayRequest(PARAMS);
+    const { y1: _y1, ...proofB } = signed.request.proof.proofB;
+    const body = {
+      ...signed,
+      request: { ...signed.request, proof: { ...signed.request.proof, proofB } },
+    };
+
+    assert.throws(() => parseSignedRequest(body), /MALFORMED_REQUEST/);
+  });
+});
@@ -0,0 +1,152 @@
+import { ec, hash, num, shortString } from "starknet";
+import { ZKProof, compileZKProof } from "../../zump-frontend/src/utils/zkProof";
+
+/**
+ * Wire format of relayed private buys
+ * The frontend's relayerClient builds the same request hash; keep the two
+ * field orders in step.
+ */
+
+/**
+ * DarkPoolMixer note the relayer withdraws to itself to pay for the buy
+ */
+export interface MixerFunding {
+  token: string;
+  amount: string;
+  nullifier: string;
+  commitment: string;
+  leafIndex: string;
+  merkleProof: string[];
+  merkleRoot: string;
+}
+
+export interface PrivateBuyRequest {
+  /** PumpFactory launch the pool must belong to */
+  launchId: string;
+  pool: string;
+  amountTokens: string;
+  /** Position commitment recorded by private_buy */
+  commitment: string;
+  proof: ZKProof;
+  funding: MixerFunding;
+  /** Receives the bought tokens and the unspent quote tokens */
+  recipient: string;
+  /** Highest pool cost (curve cost plus fees) the user accepts */
+  maxCost: string;
+  /** Highest relayer fee the user accepts */
+  maxFee: string;
+  /** Unix seconds */
+  expiresAt: number;
+  /** Full public key of the one-time key that signed the request */
+  signer: string;
+}
+
+export interface SignedPrivateBuyRequest {
+  request: PrivateBuyRequest;
+  signature: [string, string];
+}
+
+const REQUEST_DOMAIN = shortString.encodeShortString("ZUMP_RELAY_BUY");
+
+const felt = (value: string | number | bigint): string => num.toHex(BigInt(value));
+
+/**
+ * x coordinate of an uncompressed (0x04…) public key; the full key does not fit a felt
+ */
+const signerKey = (signer: string): string => felt(`0x${signer.replace(/^0x04/, "").slice(0, 64)}`);
+
+/**
+ * Poseidon hash of every request field; this is what the signer signs
+ */
+export function hashPrivateBuyRequest(request: PrivateBuyRequest): string {
+  const { funding } = request;
+  return hash.computePoseidonHashOnElements([
+    REQUEST_DOMAIN,
+    felt(request.launchId),
+    felt(request.pool),
+    felt(request.amountTokens),
+    felt(request.commitment),
+    ...compileZKProof(request.proof).map(felt),
+    felt(funding.token),
+    felt(funding.amount),
+    felt(funding.nullifier),
+    felt(funding.commitment),
+    felt(funding.leafIndex),
+    hash.computePoseidonHashOnElements(funding.merkleProof.map(felt)),
+    felt(funding.merkleRoot),
+    felt(request.recipient),
+    felt(request.maxCost),
+    felt(request.maxFee),
+    felt(request.expiresAt),
+    signerKey(request.signer),
+  ]);
+}
+
+export function verifyRequestSignature(signed: SignedPrivateBuyRequest): boolean {
+  try {
+    const [r, s] = signed.signature;
+    return ec.starkCurve.verify(
+      new ec.starkCurve.Signature(BigInt(r), BigInt(s)),
+      hashPrivateBuyRequest(signed.request),
+      signed.request.signer
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Shape check for an untrusted request body
+ * Throws with the first problem found; values are not checked against chain state.
+ */
+export function parseSignedRequest(body: unknown): SignedPrivateBuyRequest {
+  const signed = body as SignedPrivateBuyRequest;
+  const request = signed?.request;
+  if (!request || !Array.isArray(signed.signature) || signed.signature.length !== 2) {
+    throw new Error("MALFORMED_REQUEST");
+  }
+
+  try {
+    [
+      request.launchId,
+      request.pool,
+      request.amountTokens,
+      request.commitment,
+      request.recipient,
+      request.maxCost,
+      request.maxFee,
+      signerKey(request.signer),
+      ...signed.signature,
+      request.proof.publicInputHash,
+      request.proof.merkleRoot,
+      request.proof.nullifierHash,
+      request.proof.proofA.x,
+      request.proof.proofA.y,
+      request.proof.proofB.x0,
+      request.proof.proofB.x1,
+      request.proof.proofB.y0,
+      request.proof.proofB.y1,
+      request.proof.proofC.x,
+      request.proof.proofC.y,
+      request.funding.token,
+      request.funding.amount,
+      request.funding.nullifier,
+      request.funding.commitment,
+      request.funding.leafIndex,
+      request.funding.merkleRoot,
+      ...request.funding.merkleProof,
+    ].forEach((value) => BigInt(value));
+  } catch {
+    throw new Error("MALFORMED_REQUEST");
+  }
+  if (
+    !Number.isInteger(request.expiresAt) ||
+    !Number.isInteger(request.proof.proofType) ||
+    !Number.isInteger(request.proof.timestamp) ||
+    !/^0x04[0-9a-fA-F]{128}$/.test(request.signer)
+  ) {
+    throw new Error("MALFORMED_REQUEST");
+  }
+
+  return signed;
+}
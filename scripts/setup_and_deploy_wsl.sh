@@ -194,7 +194,7 @@ echo ""
 echo -e "${GREEN}✅ Setup and deployment complete!${NC}"
 echo ""
 echo -e "${CYAN}📋 Next steps:${NC}"
-echo "  1. Check deployments/sepolia.json for contract addresses"
+echo "  1. Check deployments/sepolia-deployments.json for contract addresses"
 echo "  2. Create your first launch: npm run create-launch"
 echo "  3. See CONNECTION_DOCUMENTATION.md for usage examples"
 
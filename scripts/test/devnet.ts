@@ -0,0 +1,218 @@
+import { Account, CallData, Call, RawArgs, RpcProvider, cairo, json, shortString } from "starknet";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Shared setup for the tests that run against a local starknet-devnet
+ *
+ *   starknet-devnet --seed 0 &
+ *   scarb build
+ *   DEVNET_URL=http://127.0.0.1:5050 npm run test:scripts
+ *
+ * Tests skip themselves (see devnetSkipReason) when no devnet is configured.
+ */
+
+export const DEVNET_URL = process.env.DEVNET_URL || "";
+
+// Fee token that funds the devnet's predeployed accounts
+export const STRK_ADDRESS = "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+const TARGET_DIR = path.join(__dirname, "..", "..", "target", "dev");
+
+const ONE = 10n ** 18n;
+
+export const LAUNCH_CURVE = {
+  basePrice: 10n ** 15n,
+  slope: 10n ** 9n,
+  maxSupply: 1_000_000n * ONE,
+};
+
+export interface DevnetLaunch {
+  protocolConfig: string;
+  factory: string;
+  token: string;
+  pool: string;
+  /** Block before the first deployment, where an indexer should start */
+  startBlock: number;
+}
+
+export interface DevnetPrivacy {
+  verifier: string;
+  commitmentTree: string;
+  nullifierRegistry: string;
+  mixer: string;
+  privacyRelayer: string;
+}
+
+/**
+ * Why the devnet tests cannot run here, or undefined when they can
+ */
+export function devnetSkipReason(extraEnv: string[] = []): string | undefined {
+  const missing = ["DEVNET_URL", ...extraEnv].filter((name) => !process.env[name]);
+  if (missing.length > 0) return `${missing.join(", ")} not set`;
+  if (!fs.existsSync(path.join(TARGET_DIR, "BondingCurvePool.sierra.json"))) {
+    return "contracts not built (run scarb build)";
+  }
+  return undefined;
+}
+
+export function devnetProvider(): RpcProvider {
+  return new RpcProvider({ nodeUrl: DEVNET_URL });
+}
+
+/**
+ * One of the accounts devnet deploys and funds at startup
+ */
+export async function predeployedAccount(provider: RpcProvider, index = 0): Promise<Account> {
+  const response = await fetch(DEVNET_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "devnet_getPredeployedAccounts", params: {} }),
+  });
+  const { result, error } = (await response.json()) as {
+    result?: { address: string; private_key: string }[];
+    error?: { message: string };
+  };
+  if (!result) throw new Error(`devnet_getPredeployedAccounts failed: ${error?.message}`);
+  if (!result[index]) throw new Error(`Devnet has no predeployed account #${index}`);
+
+  return new Account({ provider, address: result[index].address, signer: result[index].private_key });
+}
+
+function readArtifact(contractName: string, kind: "sierra" | "casm"): any {
+  const artifactPath = path.join(TARGET_DIR, `${contractName}.${kind}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`${kind} artifact not found at ${artifactPath}. Run 'scarb build' first.`);
+  }
+  return json.parse(fs.readFileSync(artifactPath).toString("ascii"));
+}
+
+/**
+ * Declare a contract from target/dev (once per devnet) and deploy an instance
+ */
+export async function deploy(
+  account: Account,
+  contractName: string,
+  constructorCalldata: RawArgs
+): Promise<string> {
+  const { class_hash: classHash } = await account.declareIfNot({
+    contract: readArtifact(contractName, "sierra"),
+    casm: readArtifact(contractName, "casm"),
+  });
+  const { contract_address: address, transaction_hash: txHash } = await account.deployContract({
+    classHash,
+    constructorCalldata: CallData.compile(constructorCalldata),
+  });
+  await account.waitForTransaction(txHash);
+  return address;
+}
+
+export async function execute(account: Account, calls: Call[]): Promise<string> {
+  const { transaction_hash: txHash } = await account.execute(calls);
+  await account.waitForTransaction(txHash);
+  return txHash;
+}
+
+/**
+ * ProtocolConfig, PumpFactory and one launch registered the way create_launch.ts does it:
+ * the token is deployed first, minting is handed to the pool, then the factory records it
+ */
+export async function deployLaunch(account: Account, name = "Devnet Coin", symbol = "DEV"): Promise<DevnetLaunch> {
+  const startBlock = await account.getBlockNumber();
+
+  const protocolConfig = await deploy(account, "ProtocolConfig", {
+    owner: account.address,
+    fee_bps: 30,
+    fee_receiver: account.address,
+    min_base_price: cairo.uint256(1),
+    max_base_price: cairo.uint256(ONE),
+    min_slope: cairo.uint256(1),
+    max_slope: cairo.uint256(ONE),
+    min_supply: cairo.uint256(1),
+    max_supply: cairo.uint256(LAUNCH_CURVE.maxSupply * 10n),
+  });
+  const factory = await deploy(account, "PumpFactory", { owner: account.address });
+  const token = await deploy(account, "MemecoinToken", {
+    name: shortString.encodeShortString(name),
+    symbol: shortString.encodeShortString(symbol),
+    decimals: 18,
+    initial_minter: account.address,
+  });
+  const pool = await deploy(account, "BondingCurvePool", {
+    token,
+    quote_token: STRK_ADDRESS,
+    creator: account.address,
+    protocol_config: protocolConfig,
+    base_price: cairo.uint256(LAUNCH_CURVE.basePrice),
+    slope: cairo.uint256(LAUNCH_CURVE.slope),
+    max_supply: cairo.uint256(LAUNCH_CURVE.maxSupply),
+  });
+
+  await execute(account, [
+    { contractAddress: token, entrypoint: "update_minter", calldata: [pool] },
+    // Launches record the factory's quote token
+    { contractAddress: factory, entrypoint: "set_quote_token", calldata: [STRK_ADDRESS] },
+    {
+      contractAddress: factory,
+      entrypoint: "register_launch",
+      calldata: CallData.compile({
+        token,
+        pool,
+        name: shortString.encodeShortString(name),
+        symbol: shortString.encodeShortString(symbol),
+        base_price: cairo.uint256(LAUNCH_CURVE.basePrice),
+        slope: cairo.uint256(LAUNCH_CURVE.slope),
+        max_supply: cairo.uint256(LAUNCH_CURVE.maxSupply),
+      }),
+    },
+  ]);
+
+  return { protocolConfig, factory, token, pool, startBlock };
+}
+
+/**
+ * Mixer stack and verifier wired to a launch the way integration_deploy.ts does it,
+ * with private trades enabled on the pool and STRK accepted by the mixer
+ */
+export async function deployPrivacy(account: Account, launch: DevnetLaunch, relayer: string): Promise<DevnetPrivacy> {
+  const verifier = await deploy(account, "ZKProofVerifier", { owner: account.address });
+  const commitmentTree = await deploy(account, "CommitmentTree", { owner: account.address });
+  const nullifierRegistry = await deploy(account, "NullifierRegistry", { owner: account.address });
+  const mixer = await deploy(account, "DarkPoolMixer", {
+    owner: account.address,
+    commitment_tree: commitmentTree,
+    nullifier_registry: nullifierRegistry,
+    fee_receiver: account.address,
+  });
+  const privacyRelayer = await deploy(account, "PrivacyRelayer", { owner: account.address });
+
+  await execute(account, [
+    { contractAddress: commitmentTree, entrypoint: "authorize_inserter", calldata: [mixer] },
+    { contractAddress: nullifierRegistry, entrypoint: "authorize_pool", calldata: [mixer] },
+    { contractAddress: mixer, entrypoint: "add_supported_token", calldata: [STRK_ADDRESS] },
+    { contractAddress: privacyRelayer, entrypoint: "authorize_relayer", calldata: [relayer] },
+    { contractAddress: launch.pool, entrypoint: "set_zk_proof_verifier", calldata: [verifier] },
+    { contractAddress: launch.pool, entrypoint: "set_private_trades_enabled", calldata: [1] },
+  ]);
+
+  return { verifier, commitmentTree, nullifierRegistry, mixer, privacyRelayer };
+}
+
+/**
+ * Approve the pool for the quote it may pull; devnet accounts hold plenty of STRK
+ */
+export function approveQuote(pool: string, amount = 1000n * ONE): Call {
+  return {
+    contractAddress: STRK_ADDRESS,
+    entrypoint: "approve",
+    calldata: CallData.compile({ spender: pool, amount: cairo.uint256(amount) }),
+  };
+}
+
+export function buyCall(pool: string, amountTokens: bigint): Call {
+  return { contractAddress: pool, entrypoint: "buy", calldata: CallData.compile([cairo.uint256(amountTokens)]) };
+}
+
+export function sellCall(pool: string, amountTokens: bigint): Call {
+  return { contractAddress: pool, entrypoint: "sell", calldata: CallData.compile([cairo.uint256(amountTokens)]) };
+}
@@ -0,0 +1,24 @@
+import { RelayedBuyParams, RelayerClient } from "../../zump-frontend/src/services/relayerClient";
+import { SignedPrivateBuyRequest } from "../relayer/request";
+
+/**
+ * The body the frontend's RelayerClient.submit posts to /relay
+ * The client is pointed at a stub transport, so tests exercise its real
+ * signing and serialization without an HTTP server.
+ */
+export async function signRelayRequest(params: RelayedBuyParams): Promise<SignedPrivateBuyRequest> {
+  let body: unknown;
+  const client = new RelayerClient("http://relayer.test");
+  Object.assign(client, {
+    http: {
+      post: async (_path: string, payload: unknown) => {
+        body = payload;
+        return { data: { id: "0x0", status: "queued" } };
+      },
+    },
+  });
+
+  await client.submit(params);
+  // The relayer receives it as JSON
+  return JSON.parse(JSON.stringify(body)) as SignedPrivateBuyRequest;
+}
@@ -33,6 +33,7 @@ trait IERC20<TContractState> {
 #[starknet::interface]
 trait IProtocolConfig<TContractState> {
     fn get_fee_config(self: @TContractState) -> (u16, ContractAddress);
+    fn get_creator_fee_bps(self: @TContractState) -> u16;
 }
 
 #[starknet::interface]
@@ -245,13 +246,28 @@ mod BondingCurvePool {
         base + (slope * sold)
     }
 
-    /// Calculate protocol fee
-    fn calculate_fee(self: @ContractState, amount: u256) -> (u256, ContractAddress) {
+    /// Calculate the quote value of `amount` tokens starting at `sold` as the area under the curve:
+    /// sum of (base_price + slope × (sold + i)) for i in 0..amount
+    /// Buying and then selling the same tokens moves exactly this amount in and out of the reserve.
+    fn calculate_curve_cost(self: @ContractState, sold: u256, amount: u256) -> u256 {
+        if amount == 0 {
+            return 0;
+        }
+        let base = self.base_price.read();
+        let slope = self.slope.read();
+        (base * amount) + slope * ((amount * sold) + (amount * (amount - 1)) / 2)
+    }
+
+    /// Calculate protocol and creator fees, both charged on top of the curve value
+    /// Returns (protocol_fee, fee_receiver, creator_fee)
+    fn calculate_fees(self: @ContractState, amount: u256) -> (u256, ContractAddress, u256) {
         let proto_addr = self.protocol_config.read();
         let proto = IProtocolConfigDispatcher { contract_address: proto_addr };
         let (fee_bps, fee_receiver) = proto.get_fee_config();
+        let creator_fee_bps = proto.get_creator_fee_bps();
         let fee = (amount * fee_bps.into()) / 10000;
-        (fee, fee_receiver)
+        let creator_fee = (amount * creator_fee_bps.into()) / 10000;
+        (fee, fee_receiver, creator_fee)
     }
 
     /// Check migration threshold after buy operations
@@ -276,6 +292,24 @@ mod BondingCurvePool {
         calculate_current_price(self)
     }
 
+    /// Get the quote a buy of `amount_tokens` costs, fees included
+    #[external(v0)]
+    fn get_buy_cost(self: @ContractState, amount_tokens: u256) -> u256 {
+        let cost = calculate_curve_cost(self, self.tokens_sold.read(), amount_tokens);
+        let (fee, _, creator_fee) = calculate_fees(self, cost);
+        cost + fee + creator_fee
+    }
+
+    /// Get the quote a sell of `amount_tokens` pays out, fees deducted
+    #[external(v0)]
+    fn get_sell_return(self: @ContractState, amount_tokens: u256) -> u256 {
+        let sold = self.tokens_sold.read();
+        assert(sold >= amount_tokens, 'NOT_ENOUGH_SOLD');
+        let gross_refund = calculate_curve_cost(self, sold - amount_tokens, amount_tokens);
+        let (fee, _, creator_fee) = calculate_fees(self, gross_refund);
+        gross_refund - fee - creator_fee
+    }
+
     /// Get pool state
     #[external(v0)]
     fn get_state(self: @ContractState) -> PoolState {
@@ -407,13 +441,10 @@ mod BondingCurvePool {
         let sold = self.tokens_sold.read();
         assert(sold + amount_tokens <= max_supply, 'MAX_SUPPLY_REACHED');
         
-        // Calculate price using bonding curve formula
-        let price = calculate_current_price(@self);
-        let total_cost = price * amount_tokens;
-
-        // Calculate protocol fee
-        let (fee, fee_receiver) = calculate_fee(@self, total_cost);
-        let net_cost = total_cost - fee;
+        // Price the tokens along the bonding curve; fees come on top
+        let net_cost = calculate_curve_cost(@self, sold, amount_tokens);
+        let (fee, fee_receiver, creator_fee) = calculate_fees(@self, net_cost);
+        let total_cost = net_cost + fee + creator_fee;
 
         let quote_addr = self.quote_token.read();
         let mut quote = IERC20Dispatcher { contract_address: quote_addr };
@@ -425,6 +456,11 @@ mod BondingCurvePool {
         // Transfer fee to protocol
         quote.transfer_from(caller, fee_receiver, fee);
 
+        // Transfer creator fee
+        if creator_fee > 0 {
+            quote.transfer_from(caller, self.creator.read(), creator_fee);
+        }
+
         // Mint tokens to buyer
         let token_addr = self.token.read();
         let mut token = IERC20Dispatcher { contract_address: token_addr };
@@ -439,7 +475,7 @@ mod BondingCurvePool {
             buyer: caller, 
             amount_tokens, 
             cost_quote: total_cost, 
-            fee_quote: fee 
+            fee_quote: fee + creator_fee 
         });
 
         // Check migration threshold after buy (Requirements: 8.4)
@@ -456,16 +492,13 @@ mod BondingCurvePool {
         let sold = self.tokens_sold.read();
         assert(sold >= amount_tokens, 'NOT_ENOUGH_SOLD');
         
-        // Calculate price using bonding curve formula
-        let price = calculate_current_price(@self);
-        let gross_refund = price * amount_tokens;
-
-        // Calculate protocol fee
-        let (fee, fee_receiver) = calculate_fee(@self, gross_refund);
-        let net_refund = gross_refund - fee;
+        // Refund the same curve area the tokens were bought for; fees come out of it
+        let gross_refund = calculate_curve_cost(@self, sold - amount_tokens, amount_tokens);
+        let (fee, fee_receiver, creator_fee) = calculate_fees(@self, gross_refund);
+        let net_refund = gross_refund - fee - creator_fee;
 
         let reserve = self.reserve_balance.read();
-        assert(reserve >= net_refund, 'INSUFFICIENT_RESERVE');
+        assert(reserve >= gross_refund, 'INSUFFICIENT_RESERVE');
 
         // Burn tokens from seller
         let token_addr = self.token.read();
@@ -481,15 +514,20 @@ mod BondingCurvePool {
         // Send fee
         quote.transfer(fee_receiver, fee);
 
+        // Send creator fee
+        if creator_fee > 0 {
+            quote.transfer(self.creator.read(), creator_fee);
+        }
+
         // Update state
         self.tokens_sold.write(sold - amount_tokens);
-        self.reserve_balance.write(reserve - net_refund);
+        self.reserve_balance.write(reserve - gross_refund);
 
         self.emit(Sell { 
             seller: caller, 
             amount_tokens, 
             refund_quote: net_refund, 
-            fee_quote: fee 
+            fee_quote: fee + creator_fee 
         });
     }
 
@@ -530,13 +568,10 @@ mod BondingCurvePool {
         let sold = self.tokens_sold.read();
         assert(sold + amount_tokens <= max_supply, 'MAX_SUPPLY_REACHED');
         
-        // Calculate price using bonding curve formula
+        // Price the tokens along the bonding curve; fees come on top
         let price = calculate_current_price(@self);
-        let total_cost = price * amount_tokens;
-
-        // Calculate protocol fee
-        let (fee, fee_receiver) = calculate_fee(@self, total_cost);
-        let net_cost = total_cost - fee;
+        let net_cost = calculate_curve_cost(@self, sold, amount_tokens);
+        let (fee, fee_receiver, creator_fee) = calculate_fees(@self, net_cost);
 
         // For private buy, the caller (relayer) transfers funds on behalf of the user
         let caller = get_caller_address();
@@ -550,6 +585,11 @@ mod BondingCurvePool {
         // Transfer fee to protocol
         quote.transfer_from(caller, fee_receiver, fee);
 
+        // Transfer creator fee
+        if creator_fee > 0 {
+            quote.transfer_from(caller, self.creator.read(), creator_fee);
+        }
+
         // Mint tokens to caller (relayer will forward to stealth address)
         let token_addr = self.token.read();
         let mut token = IERC20Dispatcher { contract_address: token_addr };
@@ -620,16 +660,14 @@ mod BondingCurvePool {
         let sold = self.tokens_sold.read();
         assert(sold >= amount_tokens, 'NOT_ENOUGH_SOLD');
         
-        // Calculate price using bonding curve formula
+        // Refund the same curve area the tokens were bought for; fees come out of it
         let price = calculate_current_price(@self);
-        let gross_refund = price * amount_tokens;
-
-        // Calculate protocol fee
-        let (fee, fee_receiver) = calculate_fee(@self, gross_refund);
-        let net_refund = gross_refund - fee;
+        let gross_refund = calculate_curve_cost(@self, sold - amount_tokens, amount_tokens);
+        let (fee, fee_receiver, creator_fee) = calculate_fees(@self, gross_refund);
+        let net_refund = gross_refund - fee - creator_fee;
 
         let reserve = self.reserve_balance.read();
-        assert(reserve >= net_refund, 'INSUFFICIENT_RESERVE');
+        assert(reserve >= gross_refund, 'INSUFFICIENT_RESERVE');
 
         // Burn tokens from caller (relayer holds tokens on behalf of user)
         let caller = get_caller_address();
@@ -646,9 +684,14 @@ mod BondingCurvePool {
         // Send fee to protocol
         quote.transfer(fee_receiver, fee);
 
+        // Send creator fee
+        if creator_fee > 0 {
+            quote.transfer(self.creator.read(), creator_fee);
+        }
+
         // Update state
         self.tokens_sold.write(sold - amount_tokens);
-        self.reserve_balance.write(reserve - net_refund);
+        self.reserve_balance.write(reserve - gross_refund);
 
         // Emit privacy-preserving event with nullifier hash as commitment
         self.emit(PrivateSell { 
@@ -81,7 +81,7 @@ mod CommitmentTree {
     }
 
     #[constructor]
-    fn constructor(
+    pub fn constructor(
         ref self: ContractState,
         owner: ContractAddress
     ) {
@@ -136,7 +136,7 @@ mod CommitmentTree {
 
     // Insert commitment (leaf) into Merkle tree
     #[external(v0)]
-    fn insert_commitment(
+    pub fn insert_commitment(
         ref self: ContractState,
         commitment: felt252
     ) -> u256 {
@@ -293,7 +293,7 @@ mod CommitmentTree {
 
     // Verify Merkle proof
     #[external(v0)]
-    fn verify_proof(
+    pub fn verify_proof(
         self: @ContractState,
         leaf: felt252,
         leaf_index: u256,
@@ -366,7 +366,7 @@ mod CommitmentTree {
 
     // Authorize inserter
     #[external(v0)]
-    fn authorize_inserter(
+    pub fn authorize_inserter(
         ref self: ContractState,
         inserter: ContractAddress
     ) {
@@ -388,13 +388,13 @@ mod CommitmentTree {
 
     // Get current root
     #[external(v0)]
-    fn get_current_root(self: @ContractState) -> felt252 {
+    pub fn get_current_root(self: @ContractState) -> felt252 {
         self.current_root.read()
     }
 
     // Get leaf count
     #[external(v0)]
-    fn get_leaf_count(self: @ContractState) -> u256 {
+    pub fn get_leaf_count(self: @ContractState) -> u256 {
         self.next_leaf_index.read()
     }
 
@@ -409,7 +409,7 @@ mod CommitmentTree {
 
     // Check if root is valid (current or historical)
     #[external(v0)]
-    fn is_known_root(
+    pub fn is_known_root(
         self: @ContractState,
         root: felt252
     ) -> bool {
@@ -3,10 +3,10 @@ use core::poseidon::poseidon_hash_span;
 
 // Encrypted balance entry
 #[derive(Copy, Drop, Serde, starknet::Store)]
-struct EncryptedBalance {
-    encrypted_amount: felt252,
-    commitment: felt252,
-    last_updated: u64,
+pub struct EncryptedBalance {
+    pub encrypted_amount: felt252,
+    pub commitment: felt252,
+    pub last_updated: u64,
 }
 
 // Encrypted position (for trading)
@@ -88,7 +88,7 @@ mod EncryptedStateManager {
     }
 
     #[constructor]
-    fn constructor(
+    pub fn constructor(
         ref self: ContractState,
         owner: ContractAddress
     ) {
@@ -111,7 +111,7 @@ mod EncryptedStateManager {
 
     // Encrypt and store balance
     #[external(v0)]
-    fn encrypt_balance(
+    pub fn encrypt_balance(
         ref self: ContractState,
         stealth_address: ContractAddress,
         token: ContractAddress,
@@ -159,7 +159,7 @@ mod EncryptedStateManager {
 
     // Update encrypted balance
     #[external(v0)]
-    fn update_encrypted_balance(
+    pub fn update_encrypted_balance(
         ref self: ContractState,
         stealth_address: ContractAddress,
         token: ContractAddress,
@@ -235,7 +235,7 @@ mod EncryptedStateManager {
 
     // Get encrypted balance (returns encrypted data, not plaintext)
     #[external(v0)]
-    fn get_encrypted_balance(
+    pub fn get_encrypted_balance(
         self: @ContractState,
         stealth_address: ContractAddress,
         token: ContractAddress
@@ -254,7 +254,7 @@ mod EncryptedStateManager {
 
     // Verify balance commitment (without revealing amount)
     #[external(v0)]
-    fn verify_balance_commitment(
+    pub fn verify_balance_commitment(
         self: @ContractState,
         stealth_address: ContractAddress,
         token: ContractAddress,
@@ -266,7 +266,7 @@ mod EncryptedStateManager {
 
     // Authorize encryptor (pools, relayers, etc.)
     #[external(v0)]
-    fn authorize_encryptor(
+    pub fn authorize_encryptor(
         ref self: ContractState,
         encryptor: ContractAddress
     ) {
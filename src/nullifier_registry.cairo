@@ -312,6 +312,12 @@ mod NullifierRegistry {
         self.authorized_relayers.read(relayer)
     }
 
+    // Get owner address
+    #[external(v0)]
+    fn get_owner(self: @ContractState) -> ContractAddress {
+        self.owner.read()
+    }
+
     // Get total spent nullifiers
     #[external(v0)]
     fn get_total_spent(self: @ContractState) -> u256 {
@@ -154,5 +154,17 @@ mod PrivacyRelayer {
         only_owner(@self);
         self.mev_protection_enabled.write(enabled);
     }
+
+    // Check if MEV protection is enabled
+    #[external(v0)]
+    fn is_mev_protection_enabled(self: @ContractState) -> bool {
+        self.mev_protection_enabled.read()
+    }
+
+    // Get owner address
+    #[external(v0)]
+    fn get_owner(self: @ContractState) -> ContractAddress {
+        self.owner.read()
+    }
 }
 
@@ -26,6 +26,12 @@ pub trait IProtocolConfig<TContractState> {
     /// Set fee configuration (owner only)
     fn set_fee_config(ref self: TContractState, fee_bps: u16, fee_receiver: ContractAddress);
     
+    /// Get the fee pools pay to a launch's creator on every trade
+    fn get_creator_fee_bps(self: @TContractState) -> u16;
+    
+    /// Set the creator fee (owner only)
+    fn set_creator_fee_bps(ref self: TContractState, creator_fee_bps: u16);
+    
     /// Get the current curve limits
     fn get_curve_limits(self: @TContractState) -> CurveLimits;
     
@@ -53,6 +59,7 @@ pub mod ProtocolConfig {
     /// Error constants
     mod Errors {
         pub const NOT_AUTHORIZED: felt252 = 'NOT_AUTHORIZED';
+        pub const FEE_TOO_HIGH: felt252 = 'FEE_TOO_HIGH';
     }
 
     #[storage]
@@ -60,6 +67,7 @@ pub mod ProtocolConfig {
         owner: ContractAddress,
         fee_bps: u16,
         fee_receiver: ContractAddress,
+        creator_fee_bps: u16,
         min_base_price: u256,
         max_base_price: u256,
         min_slope: u256,
@@ -72,6 +80,7 @@ pub mod ProtocolConfig {
     #[derive(Drop, starknet::Event)]
     enum Event {
         FeeConfigUpdated: FeeConfigUpdated,
+        CreatorFeeUpdated: CreatorFeeUpdated,
         CurveLimitsUpdated: CurveLimitsUpdated,
         OwnershipTransferred: OwnershipTransferred,
     }
@@ -82,6 +91,11 @@ pub mod ProtocolConfig {
         fee_receiver: ContractAddress,
     }
 
+    #[derive(Drop, starknet::Event)]
+    struct CreatorFeeUpdated {
+        creator_fee_bps: u16,
+    }
+
     #[derive(Drop, starknet::Event)]
     struct CurveLimitsUpdated {
         min_base_price: u256,
@@ -130,6 +144,12 @@ pub mod ProtocolConfig {
         assert(caller == owner, Errors::NOT_AUTHORIZED);
     }
 
+    /// Sells pay both fees out of the refund, so together they must stay below 100%
+    fn assert_fees_within_bounds(fee_bps: u16, creator_fee_bps: u16) {
+        let total: u32 = fee_bps.into() + creator_fee_bps.into();
+        assert(total <= 10000, Errors::FEE_TOO_HIGH);
+    }
+
     #[abi(embed_v0)]
     impl ProtocolConfigImpl of IProtocolConfig<ContractState> {
         /// Returns the current fee configuration
@@ -150,6 +170,7 @@ pub mod ProtocolConfig {
         ) {
             // Only owner can update fee configuration
             assert_only_owner(@self);
+            assert_fees_within_bounds(fee_bps, self.creator_fee_bps.read());
             
             self.fee_bps.write(fee_bps);
             self.fee_receiver.write(fee_receiver);
@@ -157,6 +178,21 @@ pub mod ProtocolConfig {
             self.emit(FeeConfigUpdated { fee_bps, fee_receiver });
         }
 
+        /// Returns the creator fee, 0 until the owner sets one
+        fn get_creator_fee_bps(self: @ContractState) -> u16 {
+            self.creator_fee_bps.read()
+        }
+
+        /// Sets the creator fee (owner only)
+        fn set_creator_fee_bps(ref self: ContractState, creator_fee_bps: u16) {
+            assert_only_owner(@self);
+            assert_fees_within_bounds(self.fee_bps.read(), creator_fee_bps);
+
+            self.creator_fee_bps.write(creator_fee_bps);
+
+            self.emit(CreatorFeeUpdated { creator_fee_bps });
+        }
+
         /// Returns the current curve limits
         /// Requirements: 9.4
         fn get_curve_limits(self: @ContractState) -> CurveLimits {
@@ -118,6 +118,9 @@ pub trait IPumpFactory<TContractState> {
     /// Get liquidity migration contract
     fn liquidity_migration(self: @TContractState) -> ContractAddress;
     
+    /// Get quote token for new launches
+    fn quote_token(self: @TContractState) -> ContractAddress;
+    
     /// Set stealth address generator
     fn set_stealth_generator(ref self: TContractState, generator: ContractAddress);
     
@@ -550,6 +553,11 @@ pub mod PumpFactory {
             self.liquidity_migration.read()
         }
 
+        /// Get quote token for new launches
+        fn quote_token(self: @ContractState) -> ContractAddress {
+            self.quote_token.read()
+        }
+
         /// Set stealth address generator (owner only)
         fn set_stealth_generator(ref self: ContractState, generator: ContractAddress) {
             assert_only_owner(@self);
@@ -266,7 +266,7 @@ pub mod StealthAddressGenerator {
     }
 
     /// Derive ephemeral public key using Poseidon hash
-    fn derive_ephemeral_pubkey(
+    pub fn derive_ephemeral_pubkey(
         ephemeral_random: felt252,
         timestamp: u64,
         nonce: u256
@@ -281,7 +281,7 @@ pub mod StealthAddressGenerator {
     }
 
     /// Derive shared secret from public keys
-    fn derive_shared_secret_internal(
+    pub fn derive_shared_secret_internal(
         spending_pubkey: felt252,
         viewing_pubkey: felt252,
         ephemeral_pubkey: felt252
@@ -295,7 +295,7 @@ pub mod StealthAddressGenerator {
     }
 
     /// Compute stealth address hash from shared secret
-    fn compute_stealth_hash(shared_secret: felt252) -> felt252 {
+    pub fn compute_stealth_hash(shared_secret: felt252) -> felt252 {
         let mut data = ArrayTrait::new();
         data.append(DomainSeparators::STEALTH_ADDRESS);
         data.append(shared_secret);
@@ -303,7 +303,7 @@ pub mod StealthAddressGenerator {
     }
 
     /// Compute view tag for efficient scanning
-    fn compute_view_tag(viewing_pubkey: felt252, ephemeral_pubkey: felt252) -> felt252 {
+    pub fn compute_view_tag(viewing_pubkey: felt252, ephemeral_pubkey: felt252) -> felt252 {
         let mut data = ArrayTrait::new();
         data.append(DomainSeparators::VIEW_TAG);
         data.append(viewing_pubkey);
@@ -103,9 +103,16 @@ mod ZkDexHook {
     }
 
     // Check if liquidity is protected
+    #[external(v0)]
     fn is_protected(self: @ContractState, pool: ContractAddress) -> bool {
         let (_, unlock_time) = self.locked_lp.read(pool);
         unlock_time > 0
     }
+
+    // Locked LP token and unlock time of a pool (unlock time is 0 once unlocked)
+    #[external(v0)]
+    fn get_locked_lp(self: @ContractState, pool: ContractAddress) -> (ContractAddress, u64) {
+        self.locked_lp.read(pool)
+    }
 }
 
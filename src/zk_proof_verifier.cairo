@@ -1,22 +1,45 @@
 use starknet::ContractAddress;
 use core::poseidon::poseidon_hash_span;
 
+/// Proof point on G1 curve
+#[derive(Copy, Drop, Serde, starknet::Store, PartialEq)]
+pub struct G1ProofPoint {
+    pub x: felt252,
+    pub y: felt252,
+}
+
+/// Proof point on G2 curve
+#[derive(Copy, Drop, Serde, starknet::Store, PartialEq)]
+pub struct G2ProofPoint {
+    pub x0: felt252,
+    pub x1: felt252,
+    pub y0: felt252,
+    pub y1: felt252,
+}
+
 // ZK Proof structure (compatible with Noir/Garaga)
-#[derive(Copy, Drop, Serde, starknet::Store)]
-struct ZKProof {
+// Same layout as BondingCurvePool's ZKProof, which forwards it unchanged
+#[derive(Copy, Drop, Serde, starknet::Store, PartialEq)]
+pub struct ZKProof {
     // Public inputs
-    public_input_hash: felt252,
-    merkle_root: felt252,
-    nullifier_hash: felt252,
+    pub public_input_hash: felt252,
+    pub merkle_root: felt252,
+    pub nullifier_hash: felt252,
     
-    // Proof data (simplified - in production use actual proof points)
-    proof_a: (felt252, felt252),
-    proof_b: (felt252, felt252),
-    proof_c: (felt252, felt252),
+    // Groth16 proof points
+    pub proof_a: G1ProofPoint,
+    pub proof_b: G2ProofPoint,
+    pub proof_c: G1ProofPoint,
     
     // Metadata
-    proof_type: u8, // 1=Buy, 2=Sell, 3=Transfer, 4=Launch
-    timestamp: u64,
+    pub proof_type: u8, // 1=Buy, 2=Sell, 3=Transfer, 4=Launch
+    pub timestamp: u64,
+}
+
+#[starknet::interface]
+pub trait IZKProofVerifier<TContractState> {
+    fn verify_proof(ref self: TContractState, proof: ZKProof) -> bool;
+    fn is_proof_verified(self: @TContractState, proof_hash: felt252) -> bool;
 }
 
 // Verification key (for zk-SNARK verification)
@@ -159,13 +182,13 @@ mod ZKProofVerifier {
         assert(*proof.nullifier_hash != 0, 'INVALID_NULLIFIER');
 
         // Verify proof points are non-zero
-        let (a_x, a_y) = *proof.proof_a;
-        let (b_x, b_y) = *proof.proof_b;
-        let (c_x, c_y) = *proof.proof_c;
+        let a = *proof.proof_a;
+        let b = *proof.proof_b;
+        let c = *proof.proof_c;
         
-        assert(a_x != 0 && a_y != 0, 'INVALID_PROOF_A');
-        assert(b_x != 0 && b_y != 0, 'INVALID_PROOF_B');
-        assert(c_x != 0 && c_y != 0, 'INVALID_PROOF_C');
+        assert(a.x != 0 && a.y != 0, 'INVALID_PROOF_A');
+        assert(b.x0 != 0 && b.y0 != 0, 'INVALID_PROOF_B');
+        assert(c.x != 0 && c.y != 0, 'INVALID_PROOF_C');
 
         // In production: Perform pairing check with verification key
         // e(A, B) = e(alpha, beta) * e(public_inputs, gamma) * e(C, delta)
@@ -251,17 +274,19 @@ mod ZKProofVerifier {
         data.append(*proof.merkle_root);
         data.append(*proof.nullifier_hash);
         
-        let (a_x, a_y) = *proof.proof_a;
-        data.append(a_x);
-        data.append(a_y);
+        let a = *proof.proof_a;
+        data.append(a.x);
+        data.append(a.y);
         
-        let (b_x, b_y) = *proof.proof_b;
-        data.append(b_x);
-        data.append(b_y);
+        let b = *proof.proof_b;
+        data.append(b.x0);
+        data.append(b.x1);
+        data.append(b.y0);
+        data.append(b.y1);
         
-        let (c_x, c_y) = *proof.proof_c;
-        data.append(c_x);
-        data.append(c_y);
+        let c = *proof.proof_c;
+        data.append(c.x);
+        data.append(c.y);
         
         poseidon_hash_span(data.span())
     }
@@ -301,6 +326,18 @@ mod ZKProofVerifier {
         self.garaga_enabled.write(enabled);
     }
 
+    // Check if Garaga acceleration is enabled
+    #[external(v0)]
+    fn is_garaga_enabled(self: @ContractState) -> bool {
+        self.garaga_enabled.read()
+    }
+
+    // Get owner address
+    #[external(v0)]
+    fn get_owner(self: @ContractState) -> ContractAddress {
+        self.owner.read()
+    }
+
     // Check if proof is verified
     #[external(v0)]
     fn is_proof_verified(
@@ -406,13 +406,13 @@ mod e2e_simulation_tests {
         let stealth_address = poseidon_hash_span(stealth_data.span());
         assert(stealth_address != 0, 'Stealth address generated');
         
-        // === Step 2: Calculate price using bonding curve ===
-        let current_price = base_price + (slope * tokens_sold);
-        let total_cost = current_price * amount_tokens;
+        // === Step 2: Calculate cost as the area under the bonding curve ===
+        let net_cost = (base_price * amount_tokens)
+            + slope * ((amount_tokens * tokens_sold) + (amount_tokens * (amount_tokens - 1)) / 2);
         
-        // === Step 3: Calculate protocol fee ===
-        let fee = (total_cost * fee_bps) / 10000;
-        let net_cost = total_cost - fee;
+        // === Step 3: Add protocol fee on top ===
+        let fee = (net_cost * fee_bps) / 10000;
+        let total_cost = net_cost + fee;
         
         // === Step 4: Generate commitment for the trade ===
         let commitment = generate_test_commitment(user_secret, amount_tokens);
@@ -446,9 +446,10 @@ mod e2e_simulation_tests {
         let nullifier = generate_test_nullifier(user_secret, commitment);
         assert(nullifier != 0, 'Nullifier generated');
         
-        // === Step 3: Calculate refund using bonding curve ===
-        let current_price = base_price + (slope * tokens_sold);
-        let gross_refund = current_price * amount_tokens;
+        // === Step 3: Calculate refund as the area under the curve below tokens_sold ===
+        let sold_after = tokens_sold - amount_tokens;
+        let gross_refund = (base_price * amount_tokens)
+            + slope * ((amount_tokens * sold_after) + (amount_tokens * (amount_tokens - 1)) / 2);
         
         // === Step 4: Calculate protocol fee ===
         let fee = (gross_refund * fee_bps) / 10000;
@@ -575,8 +576,8 @@ mod e2e_simulation_tests {
                 break;
             }
             
-            let price = base_price + (slope * tokens_sold);
-            let cost = price * trade_amount;
+            let cost = (base_price * trade_amount)
+                + slope * ((trade_amount * tokens_sold) + (trade_amount * (trade_amount - 1)) / 2);
             reserve_balance = reserve_balance + cost;
             tokens_sold = tokens_sold + trade_amount;
         };
@@ -694,3 +695,546 @@ mod contract_pattern_tests {
         assert(nullifier != 0, 'Event has nullifier');
     }
 }
+
+// ============================================================================
+// Stealth Key Test Vectors
+// ============================================================================
+//
+// Expected values come from zump-frontend/src/utils/stealthKeys.ts with
+// spending key 0x1111, viewing key 0x2222 and ephemeral key 0x3333. If these
+// fail, the client no longer derives the same addresses as the contract.
+
+#[cfg(test)]
+mod stealth_vector_tests {
+    use core::ec::{EcPoint, EcPointTrait, stark_curve};
+    use pump_fun::stealth_address_generator::StealthAddressGenerator::{
+        derive_ephemeral_pubkey, derive_shared_secret_internal, compute_stealth_hash,
+        compute_view_tag
+    };
+
+    const SPENDING_KEY: felt252 = 0x1111;
+    const VIEWING_KEY: felt252 = 0x2222;
+    const EPHEMERAL_KEY: felt252 = 0x3333;
+
+    const SPENDING_PUBKEY: felt252 =
+        0x3a68ed59df05e2313925e0f0c83b5951decacdf9109d7d8969541eb8b4b7e89;
+    const VIEWING_PUBKEY: felt252 =
+        0x6bfa2238af7eb25ad41eb8787234d303b4df22a36d545216bf9b91935636c80;
+    const EPHEMERAL_PUBKEY: felt252 =
+        0x102560da2308127e6f0c079182ff4c63736fa57db33429cc80f9c63cbac564b;
+    const ECDH_SECRET: felt252 =
+        0x2b8e1ff652871ba0572c6cb2e72f59ddcebad737534e815128d16f7df9fd869;
+    const SHARED_SECRET: felt252 =
+        0x350ca18404f4d6b8dc444f74004b2d9879de3ab3df2947dcd4710d8e2c5c345;
+    const STEALTH_ADDRESS: felt252 =
+        0xf4d2de19f3756b9221d4bdf9a3d28a13159203c4d8c03df7c31cc5b8632b11;
+    const VIEW_TAG: felt252 =
+        0x407bb6e15131ef75de4c317b07a517140f955a8dfbca3c5be5c5134c04a0a58;
+
+    /// x coordinate of scalar * point
+    fn mul_x(point: EcPoint, scalar: felt252) -> felt252 {
+        let product: NonZero<EcPoint> = point.mul(scalar).try_into().unwrap();
+        product.x()
+    }
+
+    fn generator() -> EcPoint {
+        EcPointTrait::new(stark_curve::GEN_X, stark_curve::GEN_Y).unwrap()
+    }
+
+    fn from_x(x: felt252) -> EcPoint {
+        EcPointTrait::new_from_x(x).unwrap()
+    }
+
+    /// Test: getPublicKey matches Stark-curve scalar multiplication
+    #[test]
+    fn test_public_keys_match() {
+        assert(mul_x(generator(), SPENDING_KEY) == SPENDING_PUBKEY, 'Spending pubkey mismatch');
+        assert(mul_x(generator(), VIEWING_KEY) == VIEWING_PUBKEY, 'Viewing pubkey mismatch');
+        assert(mul_x(generator(), EPHEMERAL_KEY) == EPHEMERAL_PUBKEY, 'Ephemeral pubkey mismatch');
+    }
+
+    /// Test: computeEcdh gives the same secret from both sides
+    #[test]
+    fn test_ecdh_matches() {
+        assert(mul_x(from_x(VIEWING_PUBKEY), EPHEMERAL_KEY) == ECDH_SECRET, 'Sender ECDH mismatch');
+        assert(mul_x(from_x(EPHEMERAL_PUBKEY), VIEWING_KEY) == ECDH_SECRET, 'Recipient ECDH mismatch');
+    }
+
+    /// Test: createStealthPayment matches the contract hashes
+    #[test]
+    fn test_stealth_payment_matches() {
+        let shared_secret = derive_shared_secret_internal(
+            SPENDING_PUBKEY, VIEWING_PUBKEY, ECDH_SECRET
+        );
+        assert(shared_secret == SHARED_SECRET, 'Shared secret mismatch');
+        assert(compute_stealth_hash(shared_secret) == STEALTH_ADDRESS, 'Stealth address mismatch');
+        assert(
+            compute_view_tag(VIEWING_PUBKEY, EPHEMERAL_PUBKEY) == VIEW_TAG, 'View tag mismatch'
+        );
+    }
+
+    /// Test: computeOnChainStealthAddress matches generate_stealth_address
+    #[test]
+    fn test_on_chain_derivation_matches() {
+        let ephemeral_pubkey = derive_ephemeral_pubkey('random_789', 1000, 7);
+        assert(
+            ephemeral_pubkey == 0x7df7cd6fc5056c3ae418d5345046c5a54ddf4f82a1477111540c9a1baef152f,
+            'Ephemeral derivation mismatch'
+        );
+
+        let shared_secret = derive_shared_secret_internal(
+            SPENDING_PUBKEY, VIEWING_PUBKEY, ephemeral_pubkey
+        );
+        assert(
+            compute_stealth_hash(
+                shared_secret
+            ) == 0x4f36f8d6c62e019ef29b2e93a6e3b451459e0ac4f7319d97433822759771b7e,
+            'On-chain address mismatch'
+        );
+        assert(
+            compute_view_tag(
+                VIEWING_PUBKEY, ephemeral_pubkey
+            ) == 0x3fbb9dbecb7a3d08d84eff6bce27ef595dc6856c5fb5f8f2742739caab25e61,
+            'On-chain view tag mismatch'
+        );
+    }
+}
+
+// ============================================================================
+// Commitment Tree Cross-Implementation Vectors
+// ============================================================================
+//
+// Expected values come from CommitmentTreeMirror in
+// zump-frontend/src/utils/commitmentTree.ts after inserting 0x101..0x505.
+// If these fail, the client builds withdrawal paths the contract rejects.
+
+#[cfg(test)]
+mod commitment_tree_vector_tests {
+    use starknet::contract_address_const;
+    use pump_fun::commitment_tree::CommitmentTree;
+
+    const EMPTY_ROOT: felt252 = 0x177702db477b71bf44db2c7692cf8303c0548e30fd8fcc2473f99779e63369c;
+    const ROOT_0: felt252 = 0x1372597f5263d9f9f3126be7a749bdb611fe7ec9bc0e565a541051257a8e785;
+    const ROOT_1: felt252 = 0x599614aa5f7d17e5655d4d12bb00d0e7bb9ff90a5ff1facef433749f3b53a68;
+    const ROOT_2: felt252 = 0x2816a3a6312a8311591733af91803a542196177b419628cffa1a7541c5cab54;
+    const ROOT_3: felt252 = 0x4dc3b660c66481727bb0a24e2274251fb718c1415c9e5b7785f1953d83fd78b;
+    const ROOT_4: felt252 = 0x6032a961711c2dfa910b82e244bea1ea753db137785cdb75de163628f4b2834;
+
+    /// Tree owned by, and open to inserts from, the default test caller
+    fn setup() -> CommitmentTree::ContractState {
+        let mut state = CommitmentTree::contract_state_for_testing();
+        let caller = contract_address_const::<0>();
+        CommitmentTree::constructor(ref state, caller);
+        CommitmentTree::authorize_inserter(ref state, caller);
+        state
+    }
+
+    /// CommitmentTreeMirror.getPath(3) for the five-leaf tree
+    fn leaf_3_path() -> Span<felt252> {
+        array![
+            0x303,
+            0x7d595c5e2b69aee90c27f52d20f8bf020583068159ee4d69bdabef3fd90ae50,
+            0x7a4593a109e9577576dbbc919cc2f4453ed2c32cec8f34322906fda98a8b687,
+            0x1fa0a8778a7c9d89e54537c6ad22f5f7229fb86aaaebbd3db5873a1e6193f6,
+            0x47968b6ceab867bd0a474d0f63742404757296926ced1f3378dc0083bb847bb,
+            0x5eb38e04228e2f215c93e78e1afc152dfb7b14d9123c4ace17b6e3084437c2d,
+            0x40d2f18110fc1334d48b6a3a545e02552a7ec829ad5082947c56ad71eae50f7,
+            0x379fbcc3187d9d20598823dfbbd93e4f6ac254ab790fd128031f76f657bd89d,
+            0x178946a3f8a3a19559518add69c4013c32d7ba6afc9d7a4f165dbb23266828e,
+            0x645f5ec317c844faf10abe3e769bc8a80919d40cc628a88bcdc3753da21d91f,
+            0xd8c047c110d96a3c2511706e92f1fec92df0876e3cb39a674c99711064c4dd,
+            0x6b7e25433d33ad07d1862e6ffc87fa9653381602b3ca60f5c08a2f38ebeb31d,
+            0x4a53aaf4c84cc41d5f6a507f813ea75d56d03603fa47517693ec90da06d1378,
+            0x78d4154f579bea9b0895e958d6b2277f6186ab2f66bb1f5f1d29698eccc2012,
+            0x1f089cec560dd65232edec3422a2da17a16cbc5e980672e45bbb7b0219c3213,
+            0x495153238f90f768eba8502653f6f09f53fe04655f79ad6c802928949943c90,
+            0x283b2e366b647d6809ec81f280204cf7117d5ab0943205888a543e5bab9acc9,
+            0x60fef412665b6ba04a914a7603b12e8e96a8377cac0c7f387ecfa6202480b86,
+            0x19ac74949dd144f4d19388515869065b92242a07ae26088df42cff4a90b019b,
+            0x7c309105144d080b5528f09dbb3abac9f6b0482808a659b3ca58ebe3b9081ad,
+        ]
+            .span()
+    }
+
+    /// Test: EMPTY_ROOT matches the constructor's zero root
+    #[test]
+    fn test_empty_root_matches() {
+        let state = setup();
+        assert(CommitmentTree::get_current_root(@state) == EMPTY_ROOT, 'Empty root mismatch');
+    }
+
+    /// Test: getRootAt matches the root after every insert_commitment
+    #[test]
+    fn test_insertion_roots_match() {
+        let mut state = setup();
+        let leaves = array![0x101, 0x202, 0x303, 0x404, 0x505];
+        let roots = array![ROOT_0, ROOT_1, ROOT_2, ROOT_3, ROOT_4];
+
+        let mut i: u32 = 0;
+        loop {
+            if i >= leaves.len() {
+                break;
+            }
+            let leaf_index = CommitmentTree::insert_commitment(ref state, *leaves.at(i));
+            assert(leaf_index == i.into(), 'Leaf index mismatch');
+            assert(CommitmentTree::get_current_root(@state) == *roots.at(i), 'Root mismatch');
+            i += 1;
+        };
+
+        assert(CommitmentTree::get_leaf_count(@state) == 5, 'Leaf count mismatch');
+    }
+
+    /// Test: a client-built path verifies and its root stays known
+    #[test]
+    fn test_client_path_verifies() {
+        let mut state = setup();
+        CommitmentTree::insert_commitment(ref state, 0x101);
+        CommitmentTree::insert_commitment(ref state, 0x202);
+        CommitmentTree::insert_commitment(ref state, 0x303);
+        CommitmentTree::insert_commitment(ref state, 0x404);
+        CommitmentTree::insert_commitment(ref state, 0x505);
+
+        assert(
+            CommitmentTree::verify_proof(@state, 0x404, 3, leaf_3_path(), ROOT_3),
+            'Client path rejected'
+        );
+        assert(CommitmentTree::is_known_root(@state, ROOT_3), 'Insertion root unknown');
+    }
+}
+
+// ============================================================================
+// Encrypted State Cross-Implementation Vectors
+// ============================================================================
+//
+// Expected values come from zump-frontend/src/utils/encryptedState.ts with
+// viewing key 0x2222, stealth address 0x5ea17 and token 0x70c3. If these
+// fail, the client can no longer open the balances the contract stores.
+
+#[cfg(test)]
+mod encrypted_state_vector_tests {
+    use starknet::{ContractAddress, contract_address_const};
+    use pump_fun::encrypted_state_manager::EncryptedStateManager;
+
+    /// deriveEncryptionKey(0x2222, 0x5ea17)
+    const ENCRYPTION_KEY: felt252 =
+        0x5384ad939874b82524f99fc862db12d03ce6bead0632cd802c42458a6c3f56c;
+    const AMOUNT: u256 = 1000000000000000000;
+    /// 2^128 + 5, so the amount has a high limb
+    const LARGE_AMOUNT: u256 = 340282366920938463463374607431768211461;
+
+    const HASHED_AMOUNT: felt252 =
+        0x28fc5519045a7c121c9ff5d2a60f87c7aec5db6a575d617bdf931d994b02555;
+    const HASHED_COMMITMENT: felt252 =
+        0x333fcf8492c15151d71624b9406a113b57098ea2c2ed703a79f729ca3784351;
+    const HASHED_LARGE_AMOUNT: felt252 =
+        0x43814ba539ebdb23bea6f11c0e645ee5da9cbc6d34c74527277dbf74f47ec70;
+    const HASHED_LARGE_COMMITMENT: felt252 =
+        0x272d115ceef7db927a7a3b696e6bd6c27cbce40ebcf5b25a80a8daa1ad37236;
+    /// encryptAmount(AMOUNT, ENCRYPTION_KEY, 0x5ea17, 0x70c3)
+    const PADDED_AMOUNT: felt252 =
+        0x722d7073861a453701d5829047ea0139292367e012acb505cda9f1316241a94;
+    const PADDED_COMMITMENT: felt252 =
+        0x1ef4cc7cb8edde26ac6ccbe1d203f45cca7ea1cfa278095322800751dd70391;
+
+    fn stealth_address() -> ContractAddress {
+        contract_address_const::<0x5ea17>()
+    }
+
+    fn token() -> ContractAddress {
+        contract_address_const::<0x70c3>()
+    }
+
+    /// Manager owned by, and open to updates from, the default test caller
+    fn setup() -> EncryptedStateManager::ContractState {
+        let mut state = EncryptedStateManager::contract_state_for_testing();
+        let caller = contract_address_const::<0>();
+        EncryptedStateManager::constructor(ref state, caller);
+        EncryptedStateManager::authorize_encryptor(ref state, caller);
+        state
+    }
+
+    /// Test: hashEncryptAmount and computeBalanceCommitment match encrypt_balance
+    #[test]
+    fn test_encrypt_balance_matches() {
+        let mut state = setup();
+
+        let commitment = EncryptedStateManager::encrypt_balance(
+            ref state, stealth_address(), token(), AMOUNT, ENCRYPTION_KEY
+        );
+        let stored = EncryptedStateManager::get_encrypted_balance(@state, stealth_address(), token());
+        assert(commitment == HASHED_COMMITMENT, 'Commitment mismatch');
+        assert(stored.encrypted_amount == HASHED_AMOUNT, 'Hashed amount mismatch');
+        assert(
+            EncryptedStateManager::verify_balance_commitment(
+                @state, stealth_address(), token(), HASHED_COMMITMENT
+            ),
+            'Commitment not verified'
+        );
+
+        let commitment = EncryptedStateManager::encrypt_balance(
+            ref state, stealth_address(), token(), LARGE_AMOUNT, ENCRYPTION_KEY
+        );
+        let stored = EncryptedStateManager::get_encrypted_balance(@state, stealth_address(), token());
+        assert(commitment == HASHED_LARGE_COMMITMENT, 'Large commitment mismatch');
+        assert(stored.encrypted_amount == HASHED_LARGE_AMOUNT, 'Large amount mismatch');
+    }
+
+    /// Test: computeUpdatedBalanceCommitment matches update_encrypted_balance
+    #[test]
+    fn test_update_encrypted_balance_matches() {
+        let mut state = setup();
+
+        EncryptedStateManager::update_encrypted_balance(
+            ref state, stealth_address(), token(), PADDED_AMOUNT, ENCRYPTION_KEY
+        );
+        let stored = EncryptedStateManager::get_encrypted_balance(@state, stealth_address(), token());
+        assert(stored.encrypted_amount == PADDED_AMOUNT, 'Ciphertext not stored');
+        assert(stored.commitment == PADDED_COMMITMENT, 'Commitment mismatch');
+        assert(
+            EncryptedStateManager::verify_balance_commitment(
+                @state, stealth_address(), token(), PADDED_COMMITMENT
+            ),
+            'Commitment not verified'
+        );
+    }
+}
+
+// ============================================================================
+// Private Trade Tests
+// ============================================================================
+//
+// Deploys BondingCurvePool with the real ZKProofVerifier, so a ZKProof layout
+// that differs between the two makes private_buy revert on deserialization.
+
+#[starknet::interface]
+trait ITestToken<TContractState> {
+    fn mint(ref self: TContractState, to: ContractAddress, amount: u256);
+    fn approve(ref self: TContractState, spender: ContractAddress, amount: u256) -> bool;
+    fn update_minter(ref self: TContractState, new_minter: ContractAddress);
+    fn balance_of(self: @TContractState, owner: ContractAddress) -> u256;
+}
+
+#[starknet::interface]
+trait ITestPool<TContractState> {
+    fn set_zk_proof_verifier(ref self: TContractState, verifier: ContractAddress);
+    fn set_private_trades_enabled(ref self: TContractState, enabled: bool);
+    fn private_buy(ref self: TContractState, amount_tokens: u256, proof: ZKProof, commitment: felt252);
+    fn buy(ref self: TContractState, amount_tokens: u256);
+    fn sell(ref self: TContractState, amount_tokens: u256);
+    fn get_buy_cost(self: @TContractState, amount_tokens: u256) -> u256;
+    fn get_sell_return(self: @TContractState, amount_tokens: u256) -> u256;
+    fn reserve_balance(self: @TContractState) -> u256;
+    fn tokens_sold(self: @TContractState) -> u256;
+    fn is_commitment_valid(self: @TContractState, commitment: felt252) -> bool;
+}
+
+#[cfg(test)]
+mod private_trade_tests {
+    use super::*;
+    use pump_fun::memecoin_token::MemecoinToken;
+    use starknet::syscalls::deploy_syscall;
+    use starknet::testing::set_contract_address;
+
+    const BASE_PRICE: u256 = 1000;
+    const SLOPE: u256 = 10;
+
+    pub fn deploy(class_hash: felt252, calldata: Array<felt252>) -> ContractAddress {
+        let (address, _) = deploy_syscall(class_hash.try_into().unwrap(), 0, calldata.span(), false)
+            .unwrap();
+        address
+    }
+
+    pub fn deploy_token(symbol: felt252, minter: ContractAddress) -> ContractAddress {
+        deploy(MemecoinToken::TEST_CLASS_HASH, array![symbol, symbol, 18, minter.into()])
+    }
+
+    /// Pool with private trades enabled and the relayer (test owner) funded and approved
+    fn setup() -> (ITestPoolDispatcher, ITestTokenDispatcher, IZKProofVerifierDispatcher) {
+        let owner = get_test_owner();
+        set_contract_address(owner);
+
+        let quote = deploy_token('QUOTE', owner);
+        let token = deploy_token('MEME', owner);
+        let config = deploy(
+            ProtocolConfig::TEST_CLASS_HASH,
+            array![
+                owner.into(), 30, get_test_fee_receiver().into(),
+                1, 0, 1000000, 0, 1, 0, 1000000, 0, 1, 0, 1000000000, 0
+            ]
+        );
+        let verifier = deploy(ZKProofVerifier::TEST_CLASS_HASH, array![owner.into()]);
+        let pool = deploy(
+            BondingCurvePool::TEST_CLASS_HASH,
+            array![
+                token.into(), quote.into(), owner.into(), config.into(),
+                BASE_PRICE.low.into(), 0, SLOPE.low.into(), 0, 1000000, 0
+            ]
+        );
+
+        ITestTokenDispatcher { contract_address: token }.update_minter(pool);
+        let quote_token = ITestTokenDispatcher { contract_address: quote };
+        quote_token.mint(owner, 1000000000);
+        quote_token.approve(pool, 1000000000);
+
+        let pool = ITestPoolDispatcher { contract_address: pool };
+        pool.set_zk_proof_verifier(verifier);
+        pool.set_private_trades_enabled(true);
+
+        (
+            pool,
+            ITestTokenDispatcher { contract_address: token },
+            IZKProofVerifierDispatcher { contract_address: verifier }
+        )
+    }
+
+    /// Test: the pool forwards its ZKProof to the verifier and mints to the relayer
+    #[test]
+    fn test_private_buy_through_verifier() {
+        let (pool, token, _) = setup();
+        let proof = create_test_zk_proof(1, 0);
+        let commitment = proof.public_input_hash;
+
+        pool.private_buy(100, proof, commitment);
+
+        assert(pool.tokens_sold() == 100, 'Tokens not sold');
+        assert(token.balance_of(get_test_owner()) == 100, 'Tokens not minted');
+        assert(pool.is_commitment_valid(commitment), 'Commitment not stored');
+
+        let mut data = ArrayTrait::new();
+        proof.serialize(ref data);
+        assert(data.len() == 13, 'Proof layout changed');
+    }
+
+    /// Test: the verifier records the proof under a hash of all 8 point coordinates
+    #[test]
+    fn test_verifier_records_private_buy_proof() {
+        let (pool, _, verifier) = setup();
+        let proof = create_test_zk_proof(1, 0);
+        pool.private_buy(100, proof, proof.public_input_hash);
+
+        let mut data = ArrayTrait::new();
+        data.append(proof.public_input_hash);
+        data.append(proof.merkle_root);
+        data.append(proof.nullifier_hash);
+        data.append(1);
+        data.append(2);
+        data.append(3);
+        data.append(4);
+        data.append(5);
+        data.append(6);
+        data.append(7);
+        data.append(8);
+        assert(verifier.is_proof_verified(poseidon_hash_span(data.span())), 'Proof not recorded');
+    }
+}
+
+
+// ============================================================================
+// Curve Pricing Tests
+// ============================================================================
+//
+// Public buys and sells settle the area under the curve and charge the
+// protocol and creator fees on top, so the reserve always equals the curve
+// value of the tokens sold and a round trip can only lose the fees.
+
+#[cfg(test)]
+mod curve_pricing_tests {
+    use super::*;
+    use super::private_trade_tests::{deploy, deploy_token};
+    use starknet::testing::set_contract_address;
+
+    const FUNDING: u256 = 1000000000;
+    // 100 tokens from 0 sold: 1000 × 100 + 10 × (100 × 99 / 2)
+    const CURVE_COST: u256 = 149500;
+    const PROTOCOL_FEE: u256 = 448;
+    const CREATOR_FEE: u256 = 1495;
+
+    fn get_test_creator() -> ContractAddress {
+        contract_address_const::<0xc4ea7>()
+    }
+
+    /// Pool with a 0.3% protocol fee and a 1% creator fee; the owner trades
+    fn setup() -> (ITestPoolDispatcher, ITestTokenDispatcher, IProtocolConfigDispatcher) {
+        let owner = get_test_owner();
+        set_contract_address(owner);
+
+        let quote = deploy_token('QUOTE', owner);
+        let token = deploy_token('MEME', owner);
+        let config = deploy(
+            ProtocolConfig::TEST_CLASS_HASH,
+            array![
+                owner.into(), 30, get_test_fee_receiver().into(),
+                1, 0, 1000000, 0, 1, 0, 1000000, 0, 1, 0, 1000000000, 0
+            ]
+        );
+        let config = IProtocolConfigDispatcher { contract_address: config };
+        config.set_creator_fee_bps(100);
+
+        let pool = deploy(
+            BondingCurvePool::TEST_CLASS_HASH,
+            array![
+                token.into(), quote.into(), get_test_creator().into(), config.contract_address.into(),
+                1000, 0, 10, 0, 1000000, 0
+            ]
+        );
+
+        ITestTokenDispatcher { contract_address: token }.update_minter(pool);
+        let quote_token = ITestTokenDispatcher { contract_address: quote };
+        quote_token.mint(owner, FUNDING);
+        quote_token.approve(pool, FUNDING);
+
+        (ITestPoolDispatcher { contract_address: pool }, quote_token, config)
+    }
+
+    /// Test: a buy pays the curve cost into the reserve and both fees on top
+    #[test]
+    fn test_buy_charges_curve_cost_plus_fees() {
+        let (pool, quote, _) = setup();
+        let total = CURVE_COST + PROTOCOL_FEE + CREATOR_FEE;
+        assert(pool.get_buy_cost(100) == total, 'Wrong buy quote');
+
+        pool.buy(100);
+
+        assert(quote.balance_of(get_test_owner()) == FUNDING - total, 'Wrong amount paid');
+        assert(pool.reserve_balance() == CURVE_COST, 'Reserve not curve cost');
+        assert(quote.balance_of(pool.contract_address) == CURVE_COST, 'Pool balance off');
+        assert(quote.balance_of(get_test_fee_receiver()) == PROTOCOL_FEE, 'Protocol fee not paid');
+        assert(quote.balance_of(get_test_creator()) == CREATOR_FEE, 'Creator fee not paid');
+    }
+
+    /// Test: selling straight back refunds the curve cost minus fees and empties the reserve
+    #[test]
+    fn test_round_trip_returns_less_than_paid() {
+        let (pool, quote, _) = setup();
+        pool.buy(100);
+        let refund = CURVE_COST - PROTOCOL_FEE - CREATOR_FEE;
+        assert(pool.get_sell_return(100) == refund, 'Wrong sell quote');
+
+        pool.sell(100);
+
+        let paid = CURVE_COST + PROTOCOL_FEE + CREATOR_FEE;
+        assert(quote.balance_of(get_test_owner()) == FUNDING - paid + refund, 'Wrong refund');
+        assert(pool.tokens_sold() == 0, 'Tokens not returned');
+        assert(pool.reserve_balance() == 0, 'Reserve not emptied');
+        assert(quote.balance_of(pool.contract_address) == 0, 'Pool kept quote');
+        assert(quote.balance_of(get_test_creator()) == CREATOR_FEE * 2, 'Creator fee not paid');
+    }
+
+    /// Test: splitting a buy does not change what goes into the reserve
+    #[test]
+    fn test_split_buys_fill_the_same_reserve() {
+        let (pool, _, _) = setup();
+        pool.buy(40);
+        pool.buy(60);
+
+        assert(pool.reserve_balance() == CURVE_COST, 'Reserve depends on split');
+    }
+
+    /// Test: protocol and creator fees together cannot exceed 100%
+    #[test]
+    #[should_panic(expected: ('FEE_TOO_HIGH', 'ENTRYPOINT_FAILED'))]
+    fn test_creator_fee_bounded_by_protocol_fee() {
+        let (_, _, config) = setup();
+        config.set_creator_fee_bps(9971);
+    }
+}
@@ -13,6 +13,14 @@ module.exports = function override(config, env) {
     util: require.resolve('util/'),
   };
 
+  // Deployment manifests live in ../deployments, shared with the deploy scripts
+  const deploymentsDir = path.resolve(__dirname, '..', 'deployments');
+  config.resolve.plugins.forEach((plugin) => {
+    if (plugin.constructor.name === 'ModuleScopePlugin') {
+      plugin.allowedPaths.push(deploymentsDir);
+    }
+  });
+
   return config;
 };
 
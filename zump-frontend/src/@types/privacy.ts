@@ -9,6 +9,10 @@ export interface StealthAddress {
   address: string;
   viewTag: string;
   ephemeralPubkey: string;
+  /** 'ecdh': derived client-side; 'onchain': from generate_stealth_address */
+  derivation?: 'ecdh' | 'onchain';
+  /** Set when the inbox scanner found a payment generated by another wallet */
+  receivedFrom?: string;
   createdAt: number;
 }
 
@@ -33,6 +37,10 @@ export interface StealthBalance {
   tokenSymbol: string;
   balance: string;
   formattedBalance: string;
+  /** 'encrypted' balances come from EncryptedStateManager; public ones are the token balance */
+  visibility?: 'public' | 'encrypted';
+  /** False for encrypted balances the user's key could not open (balance is 0) */
+  isDecrypted?: boolean;
 }
 
 // Aggregated balance across all stealth addresses
@@ -73,4 +81,35 @@ export const CONTRACT_ERROR_CODES: Record<string, string> = {
   'AMOUNT_TOO_HIGH': 'Miktar çok yüksek',
   'TREE_FULL': 'Merkle ağacı dolu',
   'INVALID_MERKLE_PROOF': 'Geçersiz Merkle kanıtı',
+  'INVALID_MERKLE_ROOT': 'Merkle kökü tanınmıyor',
+  'PRIVATE_TRADES_DISABLED': 'Bu havuzda gizli işlemler kapalı',
+  'VERIFIER_NOT_SET': 'Havuzun kanıt doğrulayıcısı ayarlanmamış',
+  'FUTURE_PROOF': 'Kanıt zaman damgası ileri tarihli',
+  'INVALID_STEALTH_ADDRESS': 'Stealth adres PumpFactory tarafından tanınmıyor',
 };
+
+// Stored DarkPoolMixer note (the note string holds the secret and nullifier)
+export interface StoredMixerNote {
+  commitment: string;
+  note: string;
+  tokenSymbol: string;
+  status: 'pending' | 'deposited' | 'withdrawn';
+  depositTxHash?: string;
+  withdrawTxHash?: string;
+  createdAt: number;
+}
+
+// Private buy position in a BondingCurvePool (nullifier and secret stay in the vault)
+export interface StoredPrivatePosition {
+  commitment: string;
+  poolAddress: string;
+  tokenSymbol: string;
+  amount: string;
+  nullifier: string;
+  secret: string;
+  status: 'pending' | 'open' | 'sold';
+  viewTag: string;
+  buyTxHash?: string;
+  sellTxHash?: string;
+  createdAt: number;
+}
@@ -69,6 +69,8 @@ export interface TradeEvent {
   cost_or_return: string;
   timestamp: string;
   tx_hash: string;
+  /** Position among the Buy/Sell events of the transaction */
+  event_index: number;
   block_number: number | null;
   created_at: string;
 }
@@ -82,6 +84,7 @@ export interface TradeEventInsert {
   cost_or_return: string;
   timestamp: string;
   tx_hash: string;
+  event_index?: number;
   block_number?: number | null;
 }
 
@@ -0,0 +1,246 @@
+/**
+ * CurveDesigner Component
+ * Curve presets, a price-vs-supply plot and a buyer simulation for the
+ * launch form
+ * Requirements: 2.1, 4.2
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TableContainer,
+  Divider,
+} from '@mui/material';
+import Chart from 'react-apexcharts';
+import useChart from '../chart/useChart';
+import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+import { findMigrationPoint } from '../../utils/curvePreview';
+import { NO_FEES } from '../../utils/curveQuote';
+import {
+  CURVE_PRESETS,
+  CurveFormValues,
+  CurvePresetId,
+  equalBuys,
+  getPresetParams,
+  sampleCurve,
+  simulateBuyers,
+  toCurveFormValues,
+} from '../../utils/curveDesigner';
+import { LaunchCurveValues, LaunchLimits, toCurveParams } from '../../services/launchValidation';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface CurveDesignerProps {
+  values: Partial<LaunchCurveValues>;
+  limits: LaunchLimits | null;
+  /** Receives preset values ready for LaunchFormData */
+  onChange: (values: CurveFormValues) => void;
+  quoteSymbol?: string;
+  displayDecimals?: number;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const PRESET_IDS = Object.keys(CURVE_PRESETS) as CurvePresetId[];
+const DEFAULT_BUYERS = '10';
+const DEFAULT_BUY_SIZE = '1000';
+const MAX_SIMULATED_BUYERS = 100;
+const CHART_HEIGHT = 220;
+
+// ===========================================
+// Main Component
+// ===========================================
+
+export default function CurveDesigner({
+  values,
+  limits,
+  onChange,
+  quoteSymbol = 'STRK',
+  displayDecimals = 6,
+}: CurveDesignerProps) {
+  const [preset, setPreset] = useState<CurvePresetId | null>(null);
+  const [buyerCount, setBuyerCount] = useState(DEFAULT_BUYERS);
+  const [buySize, setBuySize] = useState(DEFAULT_BUY_SIZE);
+
+  const fees = limits?.fees ?? NO_FEES;
+  const { basePrice, slope, maxSupply, migrationThreshold } = values;
+  const params = useMemo(
+    () => toCurveParams({ basePrice, slope, maxSupply, migrationThreshold }),
+    [basePrice, slope, maxSupply, migrationThreshold]
+  );
+
+  const points = useMemo(() => (params ? sampleCurve(params) : []), [params]);
+  const migrationPoint = useMemo(() => (params ? findMigrationPoint(params) : null), [params]);
+
+  const simulation = useMemo(() => {
+    const count = Math.min(Number.parseInt(buyerCount, 10) || 0, MAX_SIMULATED_BUYERS);
+    if (!params || count <= 0 || !/^\d*\.?\d+$/.test(buySize)) return null;
+    return simulateBuyers(params, fees, equalBuys(count, toBigIntWithDecimals(buySize)));
+  }, [params, fees, buyerCount, buySize]);
+
+  const format = (value: bigint) => formatBigIntWithDecimals(value, 18, displayDecimals);
+  const formatQuote = (value: bigint) => `${format(value)} ${quoteSymbol}`;
+
+  const handlePresetChange = (_: React.MouseEvent<HTMLElement>, id: CurvePresetId | null) => {
+    if (!id) return;
+    setPreset(id);
+    onChange(toCurveFormValues(getPresetParams(id, limits?.curve)));
+  };
+
+  const chartOptions = useChart({
+    chart: {
+      type: 'area',
+      toolbar: { show: false },
+      zoom: { enabled: false },
+    },
+    stroke: { width: 2 },
+    xaxis: {
+      type: 'numeric',
+      title: { text: 'Tokens sold' },
+      labels: {
+        formatter: (value: string) => Number(value).toLocaleString(undefined, { maximumFractionDigits: 0 }),
+      },
+    },
+    yaxis: {
+      labels: {
+        formatter: (value: number) => `${value.toFixed(displayDecimals)} ${quoteSymbol}`,
+      },
+    },
+    annotations: migrationPoint
+      ? {
+          xaxis: [
+            {
+              x: Number(formatBigIntWithDecimals(migrationPoint.tokensSold, 18, 18)),
+              label: { text: 'Migration' },
+            },
+          ],
+        }
+      : {},
+    tooltip: {
+      x: { formatter: (value: number) => `${value.toLocaleString()} tokens sold` },
+    },
+  });
+
+  return (
+    <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+      <Stack spacing={2}>
+        <Typography variant="subtitle2">Curve Designer</Typography>
+
+        {/* Presets */}
+        <Stack spacing={1}>
+          <ToggleButtonGroup value={preset} exclusive size="small" onChange={handlePresetChange}>
+            {PRESET_IDS.map((id) => (
+              <ToggleButton key={id} value={id}>
+                {CURVE_PRESETS[id].label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          {preset && (
+            <Typography variant="caption" color="text.secondary">
+              {CURVE_PRESETS[preset].description}
+            </Typography>
+          )}
+        </Stack>
+
+        {/* Price vs supply */}
+        {params ? (
+          <Chart
+            type="area"
+            series={[{ name: 'Price', data: points.map((point) => [point.supply, point.price]) }]}
+            options={chartOptions}
+            height={CHART_HEIGHT}
+          />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Enter valid curve parameters or pick a preset to plot the curve.
+          </Typography>
+        )}
+
+        <Divider sx={{ borderStyle: 'dashed' }} />
+
+        {/* Buyer simulation */}
+        <Typography variant="subtitle2">Simulate Buyers</Typography>
+        <Stack direction="row" spacing={2}>
+          <TextField
+            size="small"
+            label="Buyers"
+            value={buyerCount}
+            onChange={(event) => setBuyerCount(event.target.value)}
+            helperText={`Up to ${MAX_SIMULATED_BUYERS}`}
+          />
+          <TextField
+            size="small"
+            label="Tokens per buyer"
+            value={buySize}
+            onChange={(event) => setBuySize(event.target.value)}
+          />
+        </Stack>
+
+        {simulation && (
+          <>
+            <Stack spacing={0.5}>
+              <Typography variant="body2">
+                Average entry price: <strong>{formatQuote(simulation.averageEntryPrice)}</strong>
+              </Typography>
+              {simulation.migration ? (
+                <Typography variant="body2">
+                  Migrates after buyer #{simulation.migration.buyer} with{' '}
+                  <strong>{formatQuote(simulation.migration.raised)}</strong> raised
+                </Typography>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No migration; the pool holds {formatQuote(simulation.reserve)} after these buyers
+                </Typography>
+              )}
+            </Stack>
+
+            <TableContainer sx={{ maxHeight: 240 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell align="right">Entry price</TableCell>
+                    <TableCell align="right">Cost</TableCell>
+                    <TableCell align="right">Final share</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {simulation.buys.map((buy) => (
+                    <TableRow key={buy.buyer}>
+                      <TableCell>{buy.buyer}</TableCell>
+                      {buy.status === 'filled' ? (
+                        <>
+                          <TableCell align="right">{formatQuote(buy.entryPrice)}</TableCell>
+                          <TableCell align="right">{formatQuote(buy.cost)}</TableCell>
+                          <TableCell align="right">{buy.sharePercent}%</TableCell>
+                        </>
+                      ) : (
+                        <TableCell align="right" colSpan={3} sx={{ color: 'text.disabled' }}>
+                          Rejected ({buy.reason})
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * CurvePreview Component
+ * Live summary of the bonding curve a launch form describes
+ * Requirements: 2.1, 4.2
+ */
+
+import { useMemo } from 'react';
+import { Box, Stack, Typography, Alert, Divider } from '@mui/material';
+import { buildCurvePreview } from '../../utils/curvePreview';
+import { formatBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+import { BPS_DENOMINATOR, NO_FEES } from '../../utils/curveQuote';
+import { LaunchCurveValues, LaunchLimits, toCurveParams } from '../../services/launchValidation';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface CurvePreviewProps {
+  values: Partial<LaunchCurveValues>;
+  /** Trading fees come from here; without them the preview assumes none */
+  limits: LaunchLimits | null;
+  quoteSymbol?: string;
+  displayDecimals?: number;
+}
+
+// ===========================================
+// Helper Components
+// ===========================================
+
+function PreviewRow({ label, value }: { label: string; value: string }) {
+  return (
+    <Stack direction="row" justifyContent="space-between" spacing={2}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ fontWeight: 600, textAlign: 'right', wordBreak: 'break-all' }}>
+        {value}
+      </Typography>
+    </Stack>
+  );
+}
+
+// ===========================================
+// Main Component
+// ===========================================
+
+export default function CurvePreview({
+  values,
+  limits,
+  quoteSymbol = 'STRK',
+  displayDecimals = 6,
+}: CurvePreviewProps) {
+  const fees = limits?.fees ?? NO_FEES;
+  const { basePrice, slope, maxSupply, migrationThreshold } = values;
+  const params = useMemo(
+    () => toCurveParams({ basePrice, slope, maxSupply, migrationThreshold }),
+    [basePrice, slope, maxSupply, migrationThreshold]
+  );
+  const preview = useMemo(() => (params ? buildCurvePreview(params, fees) : null), [params, fees]);
+
+  const format = (value: bigint) => formatBigIntWithDecimals(value, 18, displayDecimals);
+  const formatQuote = (value: bigint) => `${format(value)} ${quoteSymbol}`;
+
+  if (!params || !preview) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Enter valid curve parameters to see a preview.
+      </Typography>
+    );
+  }
+
+  const feePercent = (Number(fees.feeBps + fees.creatorFeeBps) * 100) / Number(BPS_DENOMINATOR);
+
+  const renderMigration = () => {
+    if (params.migrationThreshold === BigInt(0)) {
+      return <PreviewRow label="Migration" value="Disabled" />;
+    }
+    if (!preview.migration) {
+      return (
+        <Alert severity="warning">
+          The pool holds at most {formatQuote(preview.reserveAtSellout)} when sold out, below the{' '}
+          {formatQuote(params.migrationThreshold)} migration threshold. This token would never
+          migrate to a DEX.
+        </Alert>
+      );
+    }
+    return (
+      <>
+        <PreviewRow
+          label="Migrates at"
+          value={`${preview.migration.percentSold}% sold (${format(preview.migration.tokensSold)} tokens)`}
+        />
+        <PreviewRow label="Price at migration" value={formatQuote(preview.migration.price)} />
+      </>
+    );
+  };
+
+  return (
+    <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+      <Stack spacing={1}>
+        <Typography variant="subtitle2">Curve Preview</Typography>
+
+        <PreviewRow label="Price at 0% sold" value={formatQuote(preview.startPrice)} />
+        <PreviewRow label="Price at 50% sold" value={formatQuote(preview.midPrice)} />
+        <PreviewRow label="Price at 100% sold" value={formatQuote(preview.endPrice)} />
+
+        <Divider sx={{ borderStyle: 'dashed' }} />
+
+        <PreviewRow
+          label={`Total raise with ${feePercent}% fees`}
+          value={formatQuote(preview.totalRaise)}
+        />
+        <PreviewRow label="Pool reserve" value={formatQuote(preview.reserveAtSellout)} />
+
+        <Divider sx={{ borderStyle: 'dashed' }} />
+
+        {renderMigration()}
+
+        <Typography variant="caption" color="text.secondary">
+          Assumes the whole supply is bought in small steps along the curve.
+          {!limits && ' Fees not loaded; shown without fees.'}
+        </Typography>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,4 @@
+export { default as CurvePreview } from './CurvePreview';
+export type { CurvePreviewProps } from './CurvePreview';
+export { default as CurveDesigner } from './CurveDesigner';
+export type { CurveDesignerProps } from './CurveDesigner';
@@ -1,10 +1,10 @@
 /**
  * PriceChart Component
- * Displays price over time chart from trade events
+ * Displays price over time from trade events as a line or as OHLCV candles
  * Requirements: 10.3
  */
 
-import React, { useMemo, useEffect, useState } from 'react';
+import React, { useMemo, useEffect, useState, useCallback } from 'react';
 import { Box, Typography, Skeleton, ToggleButtonGroup, ToggleButton, useTheme } from '@mui/material';
 import { ApexOptions } from 'apexcharts';
 import Chart from 'react-apexcharts';
@@ -12,6 +12,7 @@ import { useTradeHistory, ParsedTradeEvent } from '../../hooks/useTradeHistory';
 import { usePricePolling, PriceData } from '../../hooks/usePricePolling';
 import useChart from '../chart/useChart';
 import { formatBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+import { Candle, CandleInterval, CANDLE_INTERVALS, applyPriceTick, buildCandles } from '../../utils/candles';
 
 // ===========================================
 // Types
@@ -33,6 +34,8 @@ export interface PricePoint {
 
 type TimeRange = '1h' | '24h' | '7d' | '30d' | 'all';
 
+type ChartMode = 'line' | 'candle';
+
 // ===========================================
 // Constants
 // ===========================================
@@ -53,6 +56,13 @@ const TIME_RANGE_LABELS: Record<TimeRange, string> = {
   'all': 'Tümü',
 };
 
+const CHART_MODE_LABELS: Record<ChartMode, string> = {
+  line: 'Çizgi',
+  candle: 'Mum',
+};
+
+const VOLUME_CHART_RATIO = 0.3;
+
 // ===========================================
 // Helper Functions
 // ===========================================
@@ -76,6 +86,19 @@ function tradesToPricePoints(
   }));
 }
 
+/**
+ * Filter trades by time range
+ */
+function filterTradesByTimeRange(
+  trades: ParsedTradeEvent[],
+  range: TimeRange
+): ParsedTradeEvent[] {
+  if (range === 'all') return trades;
+
+  const cutoff = Date.now() - TIME_RANGES[range];
+  return trades.filter((trade) => trade.timestamp.getTime() >= cutoff);
+}
+
 /**
  * Filter price points by time range
  */
@@ -135,6 +158,8 @@ export const PriceChart: React.FC<PriceChartProps> = ({
 }) => {
   const theme = useTheme();
   const [timeRange, setTimeRange] = useState<TimeRange>('24h');
+  const [chartMode, setChartMode] = useState<ChartMode>('line');
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('15m');
 
   // Fetch trade history for historical prices
   // Requirements: 10.3 - Fetch historical prices from trade events
@@ -172,6 +197,47 @@ export const PriceChart: React.FC<PriceChartProps> = ({
     return withCurrentPrice;
   }, [trades, timeRange, priceData, decimals]);
 
+  // Aggregate trades into candles; the polled price streams into the last candle
+  const candles = useMemo((): Candle[] => {
+    const built = buildCandles(filterTradesByTimeRange(trades, timeRange), candleInterval);
+    if (!priceData) return built;
+    return applyPriceTick(built, candleInterval, {
+      timestamp: priceData.lastUpdated,
+      price: priceData.currentPrice,
+    });
+  }, [trades, timeRange, candleInterval, priceData]);
+
+  const toDisplayNumber = useCallback(
+    (value: bigint) => Number(formatBigIntWithDecimals(value, decimals, 8)),
+    [decimals]
+  );
+
+  const candleSeries = useMemo(() => {
+    return [
+      {
+        name: 'Fiyat',
+        data: candles.map((candle) => ({
+          x: candle.time,
+          y: [candle.open, candle.high, candle.low, candle.close].map(toDisplayNumber),
+        })),
+      },
+    ];
+  }, [candles, toDisplayNumber]);
+
+  // Buy/sell split of each candle's quote volume (stacked bars)
+  const volumeSeries = useMemo(() => {
+    return [
+      {
+        name: 'Alış',
+        data: candles.map((candle) => ({ x: candle.time, y: toDisplayNumber(candle.buyVolume) })),
+      },
+      {
+        name: 'Satış',
+        data: candles.map((candle) => ({ x: candle.time, y: toDisplayNumber(candle.sellVolume) })),
+      },
+    ];
+  }, [candles, toDisplayNumber]);
+
   // Prepare chart series data
   const series = useMemo(() => {
     return [
@@ -257,6 +323,95 @@ export const PriceChart: React.FC<PriceChartProps> = ({
     },
   } as ApexOptions);
 
+  const candleOptions = useChart({
+    chart: {
+      type: 'candlestick',
+      toolbar: {
+        show: false,
+      },
+      zoom: {
+        enabled: true,
+        type: 'x',
+      },
+    },
+    plotOptions: {
+      candlestick: {
+        colors: {
+          upward: theme.palette.success.main,
+          downward: theme.palette.error.main,
+        },
+      },
+    },
+    xaxis: {
+      type: 'datetime',
+      labels: {
+        datetimeUTC: false,
+      },
+    },
+    yaxis: {
+      tooltip: {
+        enabled: true,
+      },
+      labels: {
+        formatter: (value: number) => `${value.toFixed(displayDecimals)} ${quoteSymbol}`,
+      },
+    },
+    tooltip: {
+      x: {
+        format: 'dd MMM yyyy HH:mm',
+      },
+    },
+    grid: {
+      borderColor: theme.palette.divider,
+      strokeDashArray: 3,
+    },
+  } as ApexOptions);
+
+  const volumeOptions = useChart({
+    chart: {
+      type: 'bar',
+      stacked: true,
+      toolbar: {
+        show: false,
+      },
+    },
+    colors: [theme.palette.success.main, theme.palette.error.main],
+    plotOptions: {
+      bar: {
+        columnWidth: '80%',
+      },
+    },
+    dataLabels: {
+      enabled: false,
+    },
+    legend: {
+      show: false,
+    },
+    xaxis: {
+      type: 'datetime',
+      labels: {
+        show: false,
+      },
+    },
+    yaxis: {
+      labels: {
+        formatter: (value: number) => value.toFixed(2),
+      },
+    },
+    tooltip: {
+      x: {
+        format: 'dd MMM yyyy HH:mm',
+      },
+      y: {
+        formatter: (value: number) => `${value.toFixed(displayDecimals)} ${quoteSymbol}`,
+      },
+    },
+    grid: {
+      borderColor: theme.palette.divider,
+      strokeDashArray: 3,
+    },
+  } as ApexOptions);
+
   // Handle time range change
   const handleTimeRangeChange = (
     _event: React.MouseEvent<HTMLElement>,
@@ -267,8 +422,30 @@ export const PriceChart: React.FC<PriceChartProps> = ({
     }
   };
 
+  // Handle chart mode change
+  const handleChartModeChange = (
+    _event: React.MouseEvent<HTMLElement>,
+    newMode: ChartMode | null
+  ) => {
+    if (newMode) {
+      setChartMode(newMode);
+    }
+  };
+
+  // Handle candle interval change
+  const handleCandleIntervalChange = (
+    _event: React.MouseEvent<HTMLElement>,
+    newInterval: CandleInterval | null
+  ) => {
+    if (newInterval) {
+      setCandleInterval(newInterval);
+    }
+  };
+
+  const hasData = chartMode === 'candle' ? candles.length > 0 : chartData.length > 0;
+
   // Loading state
-  if (isLoadingTrades && chartData.length === 0) {
+  if (isLoadingTrades && !hasData) {
     return (
       <Box>
         {showTimeRangeSelector && (
@@ -282,7 +459,7 @@ export const PriceChart: React.FC<PriceChartProps> = ({
   }
 
   // Error state
-  if (tradesError && chartData.length === 0) {
+  if (tradesError && !hasData) {
     return (
       <Box
         sx={{
@@ -302,7 +479,7 @@ export const PriceChart: React.FC<PriceChartProps> = ({
   }
 
   // Empty state
-  if (chartData.length === 0) {
+  if (!hasData) {
     return (
       <Box
         sx={{
@@ -323,9 +500,37 @@ export const PriceChart: React.FC<PriceChartProps> = ({
 
   return (
     <Box>
-      {/* Time Range Selector */}
-      {showTimeRangeSelector && (
-        <Box sx={{ mb: 2, display: 'flex', justifyContent: 'flex-end' }}>
+      {/* Chart Mode, Candle Interval and Time Range Selectors */}
+      <Box sx={{ mb: 2, display: 'flex', flexWrap: 'wrap', gap: 1, justifyContent: 'flex-end' }}>
+        <ToggleButtonGroup
+          value={chartMode}
+          exclusive
+          onChange={handleChartModeChange}
+          size="small"
+        >
+          {(Object.keys(CHART_MODE_LABELS) as ChartMode[]).map((mode) => (
+            <ToggleButton key={mode} value={mode}>
+              {CHART_MODE_LABELS[mode]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        {chartMode === 'candle' && (
+          <ToggleButtonGroup
+            value={candleInterval}
+            exclusive
+            onChange={handleCandleIntervalChange}
+            size="small"
+          >
+            {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map((interval) => (
+              <ToggleButton key={interval} value={interval}>
+                {interval}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        )}
+
+        {showTimeRangeSelector && (
           <ToggleButtonGroup
             value={timeRange}
             exclusive
@@ -338,17 +543,34 @@ export const PriceChart: React.FC<PriceChartProps> = ({
               </ToggleButton>
             ))}
           </ToggleButtonGroup>
-        </Box>
-      )}
+        )}
+      </Box>
 
       {/* Price Chart */}
       {/* Requirements: 10.3 - Display price over time chart */}
-      <Chart
-        type="area"
-        series={series}
-        options={chartOptions}
-        height={height}
-      />
+      {chartMode === 'line' ? (
+        <Chart
+          type="area"
+          series={series}
+          options={chartOptions}
+          height={height}
+        />
+      ) : (
+        <>
+          <Chart
+            type="candlestick"
+            series={candleSeries}
+            options={candleOptions}
+            height={Math.round(height * (1 - VOLUME_CHART_RATIO))}
+          />
+          <Chart
+            type="bar"
+            series={volumeSeries}
+            options={volumeOptions}
+            height={Math.round(height * VOLUME_CHART_RATIO)}
+          />
+        </>
+      )}
     </Box>
   );
 };
@@ -1,6 +1,7 @@
 /**
  * BalanceAggregation Component
- * Displays aggregated balances across all stealth addresses
+ * Displays aggregated balances across all stealth addresses, marking each
+ * one public or encrypted (EncryptedStateManager)
  * Requirements: 10.4
  */
 
@@ -24,15 +25,18 @@ import {
   Divider,
   Stack,
   Avatar,
+  Button,
 } from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import AccountBalanceWalletIcon from '@mui/icons-material/AccountBalanceWallet';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import LockIcon from '@mui/icons-material/Lock';
 import { useBalanceAggregation, SUPPORTED_TOKENS } from '../../hooks/useBalanceAggregation';
+import { BalanceVerification, balanceKey } from '../../hooks/useEncryptedState';
 import { useStealthAddress } from '../../hooks/useStealthAddress';
 import { useWallet } from '../../hooks/useWallet';
-import { AggregatedBalance } from '../../@types/privacy';
+import { AggregatedBalance, StealthBalance } from '../../@types/privacy';
 
 interface BalanceAggregationProps {
   compact?: boolean;
@@ -55,9 +59,25 @@ export function BalanceAggregation({ compact = false }: BalanceAggregationProps)
     isLoading,
     error,
     refreshBalances,
+    encryptedPositions,
+    encryptedVerifications,
+    verifyEncryptedBalance,
   } = useBalanceAggregation();
 
   const [expandedToken, setExpandedToken] = useState<string | null>(null);
+  const [verifyingKey, setVerifyingKey] = useState<string | null>(null);
+
+  const handleVerify = async (balance: StealthBalance) => {
+    const key = balanceKey(balance.address, balance.token);
+    setVerifyingKey(key);
+    try {
+      await verifyEncryptedBalance(balance.address, balance.token);
+    } catch (err) {
+      console.error('Balance verification error:', err);
+    } finally {
+      setVerifyingKey(null);
+    }
+  };
 
   const handleToggleExpand = (token: string) => {
     setExpandedToken(expandedToken === token ? null : token);
@@ -150,6 +170,9 @@ export function BalanceAggregation({ compact = false }: BalanceAggregationProps)
                   onToggleExpand={() => handleToggleExpand(balance.token)}
                   formatAddress={formatAddress}
                   compact={compact}
+                  verifications={encryptedVerifications}
+                  verifyingKey={verifyingKey}
+                  onVerify={handleVerify}
                 />
                 {index < aggregatedBalances.length - 1 && <Divider sx={{ my: 1 }} />}
               </React.Fragment>
@@ -157,6 +180,40 @@ export function BalanceAggregation({ compact = false }: BalanceAggregationProps)
           </List>
         )}
 
+        {/* Encrypted Positions */}
+        {encryptedPositions.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Şifreli Pozisyonlar
+            </Typography>
+            {encryptedPositions.map((position) => (
+              <Box
+                key={position.entry.positionHash}
+                sx={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  py: 0.5,
+                  px: 1,
+                  bgcolor: 'action.hover',
+                  borderRadius: 1,
+                  mb: 0.5,
+                }}
+              >
+                <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                  Havuz {formatAddress(position.entry.pool)}
+                </Typography>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="caption" color="text.secondary">
+                    {new Date(position.entry.timestamp * 1000).toLocaleDateString()}
+                  </Typography>
+                  <Chip icon={<LockIcon />} label="Şifreli" size="small" color="secondary" variant="outlined" />
+                </Stack>
+              </Box>
+            ))}
+          </Box>
+        )}
+
         {/* Supported Tokens Info */}
         {!compact && (
           <Box sx={{ mt: 2, pt: 2, borderTop: 1, borderColor: 'divider' }}>
@@ -193,6 +250,9 @@ interface AggregatedBalanceItemProps {
   onToggleExpand: () => void;
   formatAddress: (address: string) => string;
   compact?: boolean;
+  verifications: Record<string, BalanceVerification>;
+  verifyingKey: string | null;
+  onVerify: (balance: StealthBalance) => void;
 }
 
 function AggregatedBalanceItem({
@@ -201,6 +261,9 @@ function AggregatedBalanceItem({
   onToggleExpand,
   formatAddress,
   compact,
+  verifications,
+  verifyingKey,
+  onVerify,
 }: AggregatedBalanceItemProps) {
   const tokenColor = TOKEN_COLORS[balance.tokenSymbol] || '#888';
 
@@ -255,28 +318,70 @@ function AggregatedBalanceItem({
             <Typography variant="caption" color="text.secondary" sx={{ mb: 1, display: 'block' }}>
               Adres Bazında Dağılım:
             </Typography>
-            {balance.stealthBalances.map((sb, idx) => (
-              <Box
-                key={`${sb.address}-${idx}`}
-                sx={{
-                  display: 'flex',
-                  justifyContent: 'space-between',
-                  alignItems: 'center',
-                  py: 0.5,
-                  px: 1,
-                  bgcolor: 'background.default',
-                  borderRadius: 1,
-                  mb: 0.5,
-                }}
-              >
-                <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
-                  {formatAddress(sb.address)}
-                </Typography>
-                <Typography variant="caption" fontWeight={600}>
-                  {sb.formattedBalance} {sb.tokenSymbol}
-                </Typography>
-              </Box>
-            ))}
+            {balance.stealthBalances.map((sb, idx) => {
+              const isEncrypted = sb.visibility === 'encrypted';
+              const key = balanceKey(sb.address, sb.token);
+              const verification = verifications[key];
+
+              return (
+                <Box
+                  key={`${sb.address}-${sb.visibility || 'public'}-${idx}`}
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    py: 0.5,
+                    px: 1,
+                    bgcolor: 'background.default',
+                    borderRadius: 1,
+                    mb: 0.5,
+                  }}
+                >
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                      {formatAddress(sb.address)}
+                    </Typography>
+                    <Chip
+                      icon={isEncrypted ? <LockIcon /> : undefined}
+                      label={isEncrypted ? 'Şifreli' : 'Açık'}
+                      size="small"
+                      color={isEncrypted ? 'secondary' : 'default'}
+                      variant="outlined"
+                    />
+                  </Stack>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Tooltip
+                      title={
+                        isEncrypted && !sb.isDecrypted
+                          ? 'Anahtarınız bu bakiyeyi çözemedi (kasa kilitli olabilir)'
+                          : ''
+                      }
+                    >
+                      <Typography variant="caption" fontWeight={600}>
+                        {sb.formattedBalance} {sb.tokenSymbol}
+                      </Typography>
+                    </Tooltip>
+                    {isEncrypted && sb.isDecrypted && (
+                      verification ? (
+                        <Chip
+                          label={verification === 'verified' ? 'Doğrulandı' : 'Uyuşmuyor'}
+                          size="small"
+                          color={verification === 'verified' ? 'success' : 'error'}
+                        />
+                      ) : (
+                        <Button
+                          size="small"
+                          onClick={() => onVerify(sb)}
+                          disabled={verifyingKey === key}
+                        >
+                          {verifyingKey === key ? <CircularProgress size={14} /> : 'Doğrula'}
+                        </Button>
+                      )
+                    )}
+                  </Stack>
+                </Box>
+              );
+            })}
           </Box>
         </Collapse>
       )}
@@ -0,0 +1,330 @@
+/**
+ * MixerPanel Component
+ * DarkPoolMixer deposit and withdraw flows with downloadable notes
+ * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  TextField,
+  MenuItem,
+  Stack,
+  Alert,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  Tabs,
+  Tab,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+} from '@mui/material';
+import ShuffleIcon from '@mui/icons-material/Shuffle';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DownloadIcon from '@mui/icons-material/Download';
+import CallMadeIcon from '@mui/icons-material/CallMade';
+import { useMixer } from '../../hooks/useMixer';
+import { useWallet } from '../../hooks/useWallet';
+import { SUPPORTED_TOKENS } from '../../hooks/useBalanceAggregation';
+import { StoredMixerNote } from '../../@types/privacy';
+import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+import { parseMixerNote } from '../../utils/mixerNote';
+
+const STATUS_LABELS: Record<StoredMixerNote['status'], string> = {
+  pending: 'Bekliyor',
+  deposited: 'Yatırıldı',
+  withdrawn: 'Çekildi',
+};
+
+const STATUS_COLORS: Record<StoredMixerNote['status'], 'warning' | 'success' | 'default'> = {
+  pending: 'warning',
+  deposited: 'success',
+  withdrawn: 'default',
+};
+
+const getTokenInfo = (address: string) =>
+  SUPPORTED_TOKENS.find((token) => BigInt(token.address) === BigInt(address));
+
+export function MixerPanel() {
+  const { address } = useWallet();
+  const [tokenAddress, setTokenAddress] = useState(SUPPORTED_TOKENS[1].address);
+  const token = getTokenInfo(tokenAddress) ?? SUPPORTED_TOKENS[1];
+
+  const {
+    terms,
+    isLoadingTerms,
+    notes,
+    isDepositing,
+    isWithdrawing,
+    error,
+    quoteWithdrawal,
+    deposit,
+    withdraw,
+    downloadNote,
+    clearError,
+  } = useMixer({ token: token.address, tokenSymbol: token.symbol });
+
+  const [tab, setTab] = useState(0);
+  const [amount, setAmount] = useState('');
+  const [lastNote, setLastNote] = useState<StoredMixerNote | null>(null);
+  const [noteInput, setNoteInput] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [withdrawTx, setWithdrawTx] = useState<string | null>(null);
+
+  const format = (value: bigint, decimals = token.decimals) =>
+    formatBigIntWithDecimals(value, decimals, 4);
+
+  // Amount, token and fee of the note being withdrawn
+  const withdrawPreview = useMemo(() => {
+    if (!noteInput) return null;
+    try {
+      const note = parseMixerNote(noteInput);
+      const info = getTokenInfo(note.token);
+      return {
+        symbol: info?.symbol ?? 'token',
+        decimals: info?.decimals ?? 18,
+        amount: note.amount,
+        quote: quoteWithdrawal(note.amount),
+      };
+    } catch {
+      return null;
+    }
+  }, [noteInput, quoteWithdrawal]);
+
+  const handleDeposit = async () => {
+    const stored = await deposit(toBigIntWithDecimals(amount, token.decimals));
+    if (stored) {
+      setLastNote(stored);
+      setAmount('');
+    }
+  };
+
+  const handleWithdraw = async () => {
+    const result = await withdraw(noteInput, recipient || address || '');
+    if (result) {
+      setWithdrawTx(result.hash);
+      setNoteInput('');
+    }
+  };
+
+  const handleUseNote = (stored: StoredMixerNote) => {
+    setNoteInput(stored.note);
+    setWithdrawTx(null);
+    setTab(1);
+  };
+
+  return (
+    <Card sx={{ bgcolor: 'background.paper', borderRadius: 2 }}>
+      <CardHeader
+        title={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ShuffleIcon sx={{ color: 'primary.main' }} />
+            <Typography variant="h6">Karıştırıcı</Typography>
+            {terms && !terms.isTokenSupported && (
+              <Chip label="Token desteklenmiyor" size="small" color="warning" sx={{ ml: 1 }} />
+            )}
+          </Box>
+        }
+        sx={{ pb: 0 }}
+      />
+
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={clearError}>
+            {error}
+          </Alert>
+        )}
+
+        <Stack direction="row" spacing={2} sx={{ mb: 2 }} alignItems="center">
+          <TextField
+            select
+            size="small"
+            label="Token"
+            value={token.address}
+            onChange={(event) => setTokenAddress(event.target.value)}
+            sx={{ minWidth: 120 }}
+          >
+            {SUPPORTED_TOKENS.map((item) => (
+              <MenuItem key={item.address} value={item.address}>
+                {item.symbol}
+              </MenuItem>
+            ))}
+          </TextField>
+          {isLoadingTerms && <CircularProgress size={20} />}
+          {terms && (
+            <Typography variant="caption" color="text.secondary">
+              Ücret: %{(Number(terms.feeBps) / 100).toFixed(2)} · Min: {format(terms.minDeposit)} · Maks:{' '}
+              {format(terms.maxDeposit)} {token.symbol}
+            </Typography>
+          )}
+        </Stack>
+
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+          <Tab label="Yatır" />
+          <Tab label="Çek" />
+        </Tabs>
+
+        {tab === 0 && (
+          <Box>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+              <TextField
+                size="small"
+                fullWidth
+                label={`Miktar (${token.symbol})`}
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                type="number"
+              />
+              <Button
+                variant="contained"
+                onClick={handleDeposit}
+                disabled={!amount || Number(amount) <= 0 || isDepositing || !terms?.isTokenSupported}
+                startIcon={isDepositing ? <CircularProgress size={20} /> : undefined}
+              >
+                {isDepositing ? 'Yatırılıyor...' : 'Yatır'}
+              </Button>
+            </Stack>
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              Not, işlem gönderilmeden önce gizlilik kasanıza kaydedilir.
+            </Typography>
+
+            {lastNote && (
+              <Alert
+                severity="warning"
+                sx={{ mt: 2 }}
+                action={
+                  <>
+                    <Tooltip title="Kopyala">
+                      <IconButton size="small" onClick={() => navigator.clipboard.writeText(lastNote.note)}>
+                        <ContentCopyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="İndir">
+                      <IconButton size="small" onClick={() => downloadNote(lastNote)}>
+                        <DownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </>
+                }
+              >
+                <Typography variant="body2" sx={{ mb: 0.5 }}>
+                  Bu notu saklayın; notu bilen herkes yatırılan tutarı çekebilir.
+                </Typography>
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {lastNote.note}
+                </Typography>
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {tab === 1 && (
+          <Stack spacing={1.5}>
+            <TextField
+              size="small"
+              fullWidth
+              multiline
+              minRows={2}
+              label="Not"
+              value={noteInput}
+              onChange={(event) => setNoteInput(event.target.value)}
+              placeholder="zump-mixer-v2:..."
+            />
+            <TextField
+              size="small"
+              fullWidth
+              label="Alıcı adresi"
+              value={recipient}
+              onChange={(event) => setRecipient(event.target.value)}
+              placeholder={address || '0x...'}
+              helperText="Boş bırakılırsa bağlı cüzdana gönderilir"
+            />
+            {withdrawPreview?.quote && (
+              <Box sx={{ p: 1.5, bgcolor: 'action.hover', borderRadius: 1 }}>
+                <Typography variant="body2">
+                  Yatırılan: {format(withdrawPreview.amount, withdrawPreview.decimals)} {withdrawPreview.symbol}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Ücret: {format(withdrawPreview.quote.fee, withdrawPreview.decimals)} {withdrawPreview.symbol}
+                </Typography>
+                <Typography variant="body2" fontWeight="bold">
+                  Alınacak: {format(withdrawPreview.quote.amountAfterFee, withdrawPreview.decimals)}{' '}
+                  {withdrawPreview.symbol}
+                </Typography>
+              </Box>
+            )}
+            {noteInput && !withdrawPreview && (
+              <Typography variant="caption" color="error">
+                Geçersiz not
+              </Typography>
+            )}
+            {withdrawTx && (
+              <Alert severity="success">Çekim gönderildi: {withdrawTx.slice(0, 10)}...</Alert>
+            )}
+            <Button
+              variant="contained"
+              onClick={handleWithdraw}
+              disabled={!withdrawPreview || isWithdrawing}
+              startIcon={isWithdrawing ? <CircularProgress size={20} /> : undefined}
+            >
+              {isWithdrawing ? 'Çekiliyor...' : 'Çek'}
+            </Button>
+          </Stack>
+        )}
+
+        {notes.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Notlarım ({notes.length})
+            </Typography>
+            <List dense disablePadding>
+              {notes.map((stored) => (
+                <ListItem key={stored.commitment} sx={{ px: 0 }}>
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                          {stored.commitment.slice(0, 10)}...
+                        </Typography>
+                        <Chip
+                          label={STATUS_LABELS[stored.status]}
+                          size="small"
+                          color={STATUS_COLORS[stored.status]}
+                        />
+                      </Box>
+                    }
+                    secondary={`${stored.tokenSymbol} · ${new Date(stored.createdAt).toLocaleString()}`}
+                  />
+                  <ListItemSecondaryAction>
+                    <Tooltip title="İndir">
+                      <IconButton size="small" onClick={() => downloadNote(stored)}>
+                        <DownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {stored.status !== 'withdrawn' && (
+                      <Tooltip title="Çek">
+                        <IconButton size="small" onClick={() => handleUseNote(stored)}>
+                          <CallMadeIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </ListItemSecondaryAction>
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default MixerPanel;
@@ -11,6 +11,8 @@ import { StealthAddressPanel } from './StealthAddressPanel';
 import { TransactionHistory } from './TransactionHistory';
 import { BalanceAggregation } from './BalanceAggregation';
 import { ErrorDisplay } from './ErrorDisplay';
+import { PrivacyVaultPanel } from './PrivacyVaultPanel';
+import { MixerPanel } from './MixerPanel';
 import { usePrivacyError } from '../../hooks/usePrivacyError';
 import { useWallet } from '../../hooks/useWallet';
 
@@ -74,6 +76,11 @@ export function PrivacyDashboard({ showTitle = true }: PrivacyDashboardProps) {
         </Box>
       ) : (
         <Grid container spacing={3}>
+          {/* Privacy Vault - Full Width */}
+          <Grid item xs={12}>
+            <PrivacyVaultPanel />
+          </Grid>
+
           {/* Balance Aggregation - Full Width */}
           <Grid item xs={12}>
             <BalanceAggregation />
@@ -87,6 +94,11 @@ export function PrivacyDashboard({ showTitle = true }: PrivacyDashboardProps) {
           <Grid item xs={12} md={6}>
             <TransactionHistory maxItems={5} />
           </Grid>
+
+          {/* DarkPool Mixer - Full Width */}
+          <Grid item xs={12}>
+            <MixerPanel />
+          </Grid>
         </Grid>
       )}
     </Container>
@@ -0,0 +1,195 @@
+/**
+ * PrivacyVaultPanel Component
+ * Unlocks the encrypted privacy vault and handles backups and seed recovery
+ * Requirements: 2.1, 10.2, 10.3, 10.4
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  TextField,
+  Stack,
+  Alert,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  Collapse,
+} from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import LockOpenIcon from '@mui/icons-material/LockOpen';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadIcon from '@mui/icons-material/Upload';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import { usePrivacyVault } from '../../hooks/usePrivacyVault';
+
+export function PrivacyVaultPanel() {
+  const {
+    isUnlocked,
+    isBusy,
+    error,
+    recoverySeed,
+    unlock,
+    lock,
+    exportBackup,
+    importBackup,
+    restoreFromSeed,
+  } = usePrivacyVault();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showSeed, setShowSeed] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const restored = await importBackup(file);
+    if (restored > 0) {
+      setNotice(`${restored} kayıt yedekten geri yüklendi`);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (await restoreFromSeed(seedInput)) {
+      setSeedInput('');
+      setShowRestore(false);
+      setNotice('Stealth anahtarları kurtarma tohumundan yeniden oluşturuldu');
+    }
+  };
+
+  return (
+    <Card sx={{ bgcolor: 'background.paper', borderRadius: 2 }}>
+      <CardHeader
+        title={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {isUnlocked ? (
+              <LockOpenIcon sx={{ color: 'success.main' }} />
+            ) : (
+              <LockIcon sx={{ color: 'text.secondary' }} />
+            )}
+            <Typography variant="h6">Gizlilik Kasası</Typography>
+            <Chip
+              label={isUnlocked ? 'Açık' : 'Kilitli'}
+              size="small"
+              color={isUnlocked ? 'success' : 'default'}
+              sx={{ ml: 1 }}
+            />
+          </Box>
+        }
+        sx={{ pb: 0 }}
+      />
+
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {notice && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Stealth adresleriniz, işlem geçmişiniz ve bakiyeleriniz bu cihazda cüzdan imzanızdan
+          türetilen bir anahtarla şifrelenir.
+        </Typography>
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} sx={{ mb: 2 }}>
+          {isUnlocked ? (
+            <Button variant="outlined" startIcon={<LockIcon />} onClick={lock}>
+              Kilitle
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={isBusy ? <CircularProgress size={20} /> : <LockOpenIcon />}
+              onClick={unlock}
+              disabled={isBusy}
+            >
+              Kasayı Aç
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={exportBackup}
+            disabled={!isUnlocked || isBusy}
+          >
+            Yedeği İndir
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!isUnlocked || isBusy}
+          >
+            Yedeği Yükle
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json"
+            hidden
+            onChange={handleImport}
+          />
+        </Stack>
+
+        {isUnlocked && recoverySeed && (
+          <Box sx={{ p: 1.5, mb: 2, bgcolor: 'action.hover', borderRadius: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Typography variant="subtitle2">Kurtarma Tohumu</Typography>
+              <Tooltip title={showSeed ? 'Gizle' : 'Göster'}>
+                <IconButton size="small" onClick={() => setShowSeed(!showSeed)}>
+                  {showSeed ? <VisibilityOffIcon fontSize="small" /> : <VisibilityIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Typography
+              variant="caption"
+              sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}
+              color="text.secondary"
+            >
+              {showSeed ? recoverySeed : '•'.repeat(24)}
+            </Typography>
+            <Typography variant="caption" color="warning.main" display="block" sx={{ mt: 0.5 }}>
+              Bu tohumu güvenli bir yerde saklayın; yedek dosyası yalnızca bu tohumla açılır.
+            </Typography>
+          </Box>
+        )}
+
+        <Button size="small" onClick={() => setShowRestore(!showRestore)}>
+          Tohumdan geri yükle
+        </Button>
+        <Collapse in={showRestore}>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} sx={{ mt: 1 }}>
+            <TextField
+              size="small"
+              fullWidth
+              label="Kurtarma tohumu"
+              value={seedInput}
+              onChange={(event) => setSeedInput(event.target.value)}
+              placeholder="0x..."
+            />
+            <Button variant="contained" onClick={handleRestore} disabled={!seedInput || isBusy}>
+              Geri Yükle
+            </Button>
+          </Stack>
+        </Collapse>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PrivacyVaultPanel;
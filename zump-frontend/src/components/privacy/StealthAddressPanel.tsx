@@ -1,6 +1,7 @@
 /**
  * StealthAddressPanel Component
- * Displays stealth address generation UI and list of generated addresses
+ * Displays stealth address generation UI, the inbox scan and the list of
+ * generated and received addresses
  * Requirements: 10.3
  */
 
@@ -28,9 +29,11 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
 import VisibilityIcon from '@mui/icons-material/Visibility';
+import InboxIcon from '@mui/icons-material/MoveToInbox';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import { useStealthAddress } from '../../hooks/useStealthAddress';
+import { useStealthInbox } from '../../hooks/useStealthInbox';
 import { useWallet } from '../../hooks/useWallet';
 import { StealthAddress } from '../../@types/privacy';
 
@@ -47,6 +50,7 @@ export function StealthAddressPanel({ compact = false }: StealthAddressPanelProp
     generateStealthAddress,
     removeStealthAddress,
   } = useStealthAddress();
+  const { isScanning, error: scanError, lastScannedBlock, lastFound, scan } = useStealthInbox();
 
   const [expanded, setExpanded] = useState(!compact);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
@@ -119,9 +123,9 @@ export function StealthAddressPanel({ compact = false }: StealthAddressPanelProp
       
       <Collapse in={expanded}>
         <CardContent>
-          {error && (
+          {(error || scanError) && (
             <Alert severity="error" sx={{ mb: 2 }}>
-              {error}
+              {error || scanError}
             </Alert>
           )}
 
@@ -136,6 +140,24 @@ export function StealthAddressPanel({ compact = false }: StealthAddressPanelProp
             {isGenerating ? 'Oluşturuluyor...' : 'Yeni Stealth Adres Oluştur'}
           </Button>
 
+          <Button
+            variant="outlined"
+            startIcon={isScanning ? <CircularProgress size={20} /> : <InboxIcon />}
+            onClick={scan}
+            disabled={isScanning}
+            fullWidth
+            sx={{ mb: 1 }}
+          >
+            {isScanning ? 'Taranıyor...' : 'Gelen Ödemeleri Tara'}
+          </Button>
+
+          {lastScannedBlock !== null && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+              Son taranan blok: {lastScannedBlock}
+              {lastFound > 0 && ` · ${lastFound} yeni adres bulundu`}
+            </Typography>
+          )}
+
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
             Stealth adresler, işlemlerinizi ana cüzdanınızla ilişkilendirilemez hale getirir.
           </Typography>
@@ -212,6 +234,11 @@ function StealthAddressItem({
             <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
               {formatAddress(stealth.address)}
             </Typography>
+            {stealth.receivedFrom && (
+              <Tooltip title={`Gönderen: ${stealth.receivedFrom}`}>
+                <Chip label="Alındı" size="small" color="success" variant="outlined" />
+              </Tooltip>
+            )}
           </Box>
         }
         secondary={
@@ -6,5 +6,7 @@
 export { StealthAddressPanel } from './StealthAddressPanel';
 export { TransactionHistory } from './TransactionHistory';
 export { BalanceAggregation } from './BalanceAggregation';
+export { PrivacyVaultPanel } from './PrivacyVaultPanel';
+export { MixerPanel } from './MixerPanel';
 export { ErrorDisplay } from './ErrorDisplay';
 export { PrivacyDashboard } from './PrivacyDashboard';
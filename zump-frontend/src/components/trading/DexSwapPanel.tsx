@@ -0,0 +1,263 @@
+/**
+ * DexSwapPanel Component
+ * Buy/Sell for tokens that graduated from the bonding curve, quoted and
+ * routed through the configured DEX adapter
+ * Requirements: 8.4
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  Chip,
+  CircularProgress,
+  InputAdornment,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useDexSwap, DexSwapSide } from '../../hooks/useDexSwap';
+import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+import TradingErrorDisplay from './TradingErrorDisplay';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface DexSwapPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  quoteSymbol?: string;
+  /** Last bonding curve price; the stub adapter quotes at it */
+  referencePrice?: bigint;
+  /** Render without the surrounding Card (inside another trade panel) */
+  embedded?: boolean;
+  onTradeSuccess?: () => void;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const SLIPPAGE_OPTIONS = [0.5, 1, 2, 5];
+const DEFAULT_SLIPPAGE = 1;
+const DECIMALS = 18;
+
+const ADAPTER_NAMES: Record<string, string> = {
+  avnu: 'AVNU',
+  stub: 'Stub DEX',
+};
+
+// ===========================================
+// Component
+// ===========================================
+
+export default function DexSwapPanel({
+  tokenAddress,
+  tokenSymbol,
+  quoteSymbol = 'STRK',
+  referencePrice,
+  embedded = false,
+  onTradeSuccess,
+}: DexSwapPanelProps) {
+  const [side, setSide] = useState<DexSwapSide>('buy');
+  const [amount, setAmount] = useState('');
+  const [slippage, setSlippage] = useState(DEFAULT_SLIPPAGE);
+
+  const handleSuccess = useCallback(() => {
+    setAmount('');
+    onTradeSuccess?.();
+  }, [onTradeSuccess]);
+
+  const {
+    adapterId,
+    isSimulated,
+    quote,
+    isQuoting,
+    isSwapping,
+    error,
+    clearError,
+    requestQuote,
+    swap,
+    userTokenBalance,
+    userQuoteBalance,
+    refreshBalances,
+  } = useDexSwap({ tokenAddress, referencePrice, onSuccess: handleSuccess });
+
+  const sellSymbol = side === 'buy' ? quoteSymbol : tokenSymbol;
+  const buySymbol = side === 'buy' ? tokenSymbol : quoteSymbol;
+  const sellBalance = side === 'buy' ? userQuoteBalance : userTokenBalance;
+
+  useEffect(() => {
+    refreshBalances();
+  }, [refreshBalances]);
+
+  // Re-quote when the amount or side changes (debounced)
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      requestQuote(side, amount && parseFloat(amount) > 0 ? toBigIntWithDecimals(amount, DECIMALS) : BigInt(0));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [side, amount, requestQuote]);
+
+  const handleSideChange = useCallback((_: React.SyntheticEvent, value: DexSwapSide) => {
+    setSide(value);
+    setAmount('');
+    clearError();
+  }, [clearError]);
+
+  const handleAmountChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = event.target;
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+      clearError();
+    }
+  }, [clearError]);
+
+  const handleMaxClick = useCallback(() => {
+    if (sellBalance) {
+      setAmount(formatBigIntWithDecimals(sellBalance, DECIMALS, 6));
+    }
+  }, [sellBalance]);
+
+  const handleSwap = useCallback(async () => {
+    try {
+      await swap(slippage);
+    } catch (err) {
+      // Error is handled by the hook
+      console.error('Swap failed:', err);
+    }
+  }, [swap, slippage]);
+
+  const isSwapDisabled = useMemo(() => {
+    if (!quote || isQuoting || isSwapping) return true;
+    if (sellBalance !== null && quote.sellAmount > sellBalance) return true;
+    return false;
+  }, [quote, isQuoting, isSwapping, sellBalance]);
+
+  const buttonText = useMemo(() => {
+    if (isSwapping) return 'Swapping...';
+    if (sellBalance !== null && quote && quote.sellAmount > sellBalance) return 'Insufficient Balance';
+    return side === 'buy' ? `Buy ${tokenSymbol}` : `Sell ${tokenSymbol}`;
+  }, [isSwapping, sellBalance, quote, side, tokenSymbol]);
+
+  const content = (
+    <Stack spacing={2}>
+      <Alert severity="success">
+        Bu token DEX&apos;e taşındı. İşlemler {ADAPTER_NAMES[adapterId] ?? adapterId} üzerinden yönlendirilir.
+        {isSimulated && ' (simülasyon)'}
+      </Alert>
+
+      <TradingErrorDisplay error={error} onClose={clearError} />
+
+      <Tabs
+        value={side}
+        onChange={handleSideChange}
+        sx={{ '& .MuiTab-root': { minWidth: 0, flex: 1 } }}
+      >
+        <Tab value="buy" label="Buy" />
+        <Tab value="sell" label="Sell" />
+      </Tabs>
+
+      <Box>
+        <Typography
+          variant="caption"
+          component="div"
+          sx={{ textAlign: 'right', color: 'text.secondary', cursor: 'pointer', mb: 0.5 }}
+          onClick={handleMaxClick}
+        >
+          Balance: {sellBalance ? formatBigIntWithDecimals(sellBalance, DECIMALS, 4) : '0'} {sellSymbol}
+        </Typography>
+        <TextField
+          fullWidth
+          size="small"
+          value={amount}
+          onChange={handleAmountChange}
+          label={`You Pay (${sellSymbol})`}
+          placeholder="0.0"
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                <Button size="small" onClick={handleMaxClick}>
+                  MAX
+                </Button>
+              </InputAdornment>
+            ),
+          }}
+        />
+      </Box>
+
+      <TextField
+        fullWidth
+        size="small"
+        value={quote ? formatBigIntWithDecimals(quote.buyAmount, DECIMALS, 6) : ''}
+        label={`You Receive (${buySymbol})`}
+        placeholder="0.0"
+        disabled
+        InputProps={{
+          readOnly: true,
+          endAdornment: isQuoting ? (
+            <InputAdornment position="end">
+              <CircularProgress size={16} />
+            </InputAdornment>
+          ) : null,
+        }}
+      />
+
+      {quote && quote.routes.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+          <Typography variant="caption" color="text.secondary">
+            Route
+          </Typography>
+          {quote.routes.map((route) => (
+            <Chip
+              key={route.name}
+              size="small"
+              variant="outlined"
+              label={`${route.name} ${route.percent.toFixed(0)}%`}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="caption" color="text.secondary">
+          Slippage Tolerance
+        </Typography>
+        <Stack direction="row" spacing={0.5}>
+          {SLIPPAGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              size="small"
+              variant={slippage === option ? 'contained' : 'outlined'}
+              onClick={() => setSlippage(option)}
+              sx={{ minWidth: 40, fontSize: '0.7rem' }}
+            >
+              {option}%
+            </Button>
+          ))}
+        </Stack>
+      </Stack>
+
+      <Button
+        fullWidth
+        size="large"
+        variant="contained"
+        color={side === 'buy' ? 'success' : 'error'}
+        onClick={handleSwap}
+        disabled={isSwapDisabled}
+        startIcon={isSwapping && <CircularProgress size={20} color="inherit" />}
+      >
+        {buttonText}
+      </Button>
+    </Stack>
+  );
+
+  return embedded ? content : <Card sx={{ p: 3 }}>{content}</Card>;
+}
+
+export { DexSwapPanel };
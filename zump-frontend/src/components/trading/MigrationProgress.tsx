@@ -0,0 +1,117 @@
+/**
+ * MigrationProgress Component
+ * Migration phase label and reserve progress towards the launch's
+ * migration threshold
+ * Requirements: 8.4
+ */
+
+import { Box, LinearProgress, Stack, Tooltip, Typography } from '@mui/material';
+import Label from '../label';
+import Iconify from '../iconify';
+import { MigrationPhase, MigrationStatus } from '../../services/migrationTracker';
+import { formatBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface MigrationProgressProps {
+  status: MigrationStatus | null;
+  quoteSymbol?: string;
+  /** Single progress row without amounts, for cards */
+  compact?: boolean;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const DECIMALS = 18;
+
+export const MIGRATION_PHASE_LABELS: Record<MigrationPhase, { label: string; color: 'primary' | 'warning' | 'success' }> = {
+  bonding: { label: 'Bonding', color: 'primary' },
+  graduating: { label: 'Graduating', color: 'warning' },
+  graduated: { label: 'Graduated', color: 'success' },
+};
+
+// ===========================================
+// Component
+// ===========================================
+
+export default function MigrationProgress({
+  status,
+  quoteSymbol = 'STRK',
+  compact = false,
+}: MigrationProgressProps) {
+  if (!status || (status.threshold === BigInt(0) && status.phase === 'bonding')) return null;
+
+  const { label, color } = MIGRATION_PHASE_LABELS[status.phase];
+  const progress = status.thresholdProgress;
+  const hasThreshold = status.threshold > BigInt(0);
+
+  if (compact) {
+    return (
+      <Stack spacing={1} sx={{ pl: 1, pr: 3, pt: 0.5 }} direction="row" alignItems="center">
+        <LinearProgress
+          variant="determinate"
+          value={progress}
+          color={color}
+          sx={{ mx: 2, mr: 0.5, flexGrow: 1, height: 6, borderRadius: 1 }}
+        />
+        <Tooltip title={`Migration threshold: ${progress.toFixed(1)}% (${label})`} arrow>
+          <Box component="span">
+            <Iconify icon="eva:info-outline" color="gray" width={16} />
+          </Box>
+        </Tooltip>
+      </Stack>
+    );
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          Migration Threshold
+        </Typography>
+        <Label variant="soft" color={color}>
+          {label}
+        </Label>
+      </Stack>
+
+      {hasThreshold && (
+        <>
+          <LinearProgress
+            variant="determinate"
+            value={progress}
+            color={color}
+            sx={{ height: 10, borderRadius: 5 }}
+          />
+          <Stack direction="row" justifyContent="space-between" sx={{ mt: 0.5 }}>
+            <Typography variant="caption" color="text.secondary">
+              {formatBigIntWithDecimals(status.reserveBalance, DECIMALS, 2)} {quoteSymbol} reserve
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {formatBigIntWithDecimals(status.threshold, DECIMALS, 2)} {quoteSymbol} threshold
+            </Typography>
+          </Stack>
+        </>
+      )}
+
+      {status.phase === 'graduating' && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          Waiting for the liquidity to move to the DEX.
+        </Typography>
+      )}
+
+      {status.liquidityLock && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          {status.liquidityLock.unlocked
+            ? 'LP tokens unlocked'
+            : `LP tokens locked until ${new Date(status.liquidityLock.unlockTime * 1000).toLocaleString()}`}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export { MigrationProgress };
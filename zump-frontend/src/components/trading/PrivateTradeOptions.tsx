@@ -0,0 +1,198 @@
+/**
+ * PrivateTradeOptions Component
+ * "Gizli İşlem" toggle, the relayer option for buys and, for sells, the
+ * private position to sell, plus proof progress while a proof is generated
+ * Renders nothing unless the pool has private trades enabled
+ * Requirements: 6.1, 6.2, 6.4
+ */
+
+import {
+  Button,
+  Chip,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { StoredPrivatePosition } from '../../@types/privacy';
+import { ProofProgress, ProofStage } from '../../services/proofProvider';
+import { RelayJobStatus, RelayerQuote } from '../../services/relayerClient';
+import { formatBigIntWithDecimals } from '../../utils/bondingCurveUtils';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface PrivateTradeOptionsProps {
+  isPrivateEnabled: boolean | null;
+  isPrivate: boolean;
+  onPrivateChange: (isPrivate: boolean) => void;
+  /** Which controls to show; both when the panel has buy and sell side by side */
+  side?: 'buy' | 'sell';
+  positions: StoredPrivatePosition[];
+  selectedPosition: string;
+  onPositionChange: (commitment: string) => void;
+  tokenSymbol: string;
+  decimals?: number;
+  disabled?: boolean;
+  /** Offer sending buys through the relayer (REACT_APP_RELAYER_URL is set) */
+  isRelayerAvailable?: boolean;
+  useRelayer?: boolean;
+  onUseRelayerChange?: (useRelayer: boolean) => void;
+  relayQuote?: RelayerQuote | null;
+  relayStatus?: RelayJobStatus | null;
+  quoteSymbol?: string;
+  /** Progress of the proof being generated, if any */
+  proofProgress?: ProofProgress | null;
+  onCancelProof?: () => void;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const PROOF_STAGE_LABELS: Record<ProofStage, string> = {
+  loading: 'Devre yükleniyor',
+  proving: 'Kanıt oluşturuluyor',
+  formatting: 'Kanıt hazırlanıyor',
+  done: 'Kanıt hazır',
+};
+
+const RELAY_STATUS_LABELS: Record<RelayJobStatus, string> = {
+  queued: 'Sırada',
+  submitted: 'Gönderildi',
+  confirmed: 'Onaylandı',
+  failed: 'Başarısız',
+};
+
+const RELAY_STATUS_COLORS: Record<RelayJobStatus, 'default' | 'info' | 'success' | 'error'> = {
+  queued: 'default',
+  submitted: 'info',
+  confirmed: 'success',
+  failed: 'error',
+};
+
+// ===========================================
+// Component
+// ===========================================
+
+export default function PrivateTradeOptions({
+  isPrivateEnabled,
+  isPrivate,
+  onPrivateChange,
+  side,
+  positions,
+  selectedPosition,
+  onPositionChange,
+  tokenSymbol,
+  decimals = 18,
+  disabled = false,
+  isRelayerAvailable = false,
+  useRelayer = false,
+  onUseRelayerChange,
+  relayQuote = null,
+  relayStatus = null,
+  quoteSymbol = 'STRK',
+  proofProgress = null,
+  onCancelProof,
+}: PrivateTradeOptionsProps) {
+  if (!isPrivateEnabled) return null;
+
+  return (
+    <Stack spacing={1} sx={{ mb: 2 }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={isPrivate}
+            onChange={(event) => onPrivateChange(event.target.checked)}
+            disabled={disabled}
+          />
+        }
+        label="Gizli İşlem"
+      />
+
+      {isPrivate && side !== 'sell' && (
+        <Typography variant="caption" color="text.secondary">
+          Alım, adresiniz yerine bir commitment ile kaydedilir. Pozisyonun anahtarları gizlilik
+          kasanızda saklanır.
+        </Typography>
+      )}
+
+      {isPrivate && side !== 'sell' && isRelayerAvailable && onUseRelayerChange && (
+        <>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={useRelayer}
+                onChange={(event) => onUseRelayerChange(event.target.checked)}
+                disabled={disabled}
+              />
+            }
+            label="Relayer ile gönder"
+          />
+          {useRelayer && (
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Typography variant="caption" color="text.secondary">
+                {relayQuote
+                  ? `Relayer ücreti: ${formatBigIntWithDecimals(relayQuote.fee, decimals, 4)} ${quoteSymbol} · mixer notunuzdan ödenir`
+                  : 'İşlem cüzdanınız yerine relayer tarafından gönderilir ve bir mixer notundan ödenir'}
+              </Typography>
+              {relayStatus && (
+                <Chip
+                  size="small"
+                  label={RELAY_STATUS_LABELS[relayStatus]}
+                  color={RELAY_STATUS_COLORS[relayStatus]}
+                />
+              )}
+            </Stack>
+          )}
+        </>
+      )}
+
+      {isPrivate && proofProgress && (
+        <Stack spacing={0.5}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center">
+            <Typography variant="caption" color="text.secondary">
+              {PROOF_STAGE_LABELS[proofProgress.stage]}
+            </Typography>
+            {onCancelProof && (
+              <Button size="small" color="inherit" onClick={onCancelProof}>
+                İptal
+              </Button>
+            )}
+          </Stack>
+          <LinearProgress variant="determinate" value={Math.round(proofProgress.progress * 100)} />
+        </Stack>
+      )}
+
+      {isPrivate && side !== 'buy' && (
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label="Gizli pozisyon"
+          value={selectedPosition}
+          onChange={(event) => onPositionChange(event.target.value)}
+          disabled={disabled || positions.length === 0}
+          helperText={
+            positions.length === 0
+              ? 'Bu havuzda açık gizli pozisyonunuz yok'
+              : 'Pozisyonun tamamı satılır ve nullifier harcanır'
+          }
+        >
+          {positions.map((position) => (
+            <MenuItem key={position.commitment} value={position.commitment}>
+              {formatBigIntWithDecimals(BigInt(position.amount), decimals, 4)} {tokenSymbol} ·{' '}
+              {new Date(position.createdAt).toLocaleDateString()}
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+    </Stack>
+  );
+}
+
+export { PrivateTradeOptions };
@@ -44,21 +44,9 @@ export default function TradingErrorDisplay({
       {error.message}
       
       {/* Recovery Options */}
-      {(error.recoveryOptions || showDexRedirect || onRetry) && (
+      {(Boolean(error.recoveryOptions?.length) || onRetry) && (
         <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
-          {/* DEX Redirect Button - Requirements: 6.5 */}
-          {showDexRedirect && (
-            <Button
-              size="small"
-              variant="outlined"
-              color="inherit"
-              onClick={() => window.open('https://app.avnu.fi', '_blank')}
-            >
-              DEX&apos;e Git
-            </Button>
-          )}
-          
-          {/* Custom Recovery Options */}
+          {/* Custom Recovery Options ("DEX ile İşlem Yap" for migrated pools - Requirements: 6.5) */}
           {error.recoveryOptions?.map((option, index) => (
             <Button
               key={index}
@@ -71,7 +59,7 @@ export default function TradingErrorDisplay({
             </Button>
           ))}
           
-          {/* Retry Button */}
+          {/* Retry Button (a migrated pool fails again) */}
           {onRetry && !showDexRedirect && (
             <Button
               size="small"
@@ -1,7 +1,8 @@
 /**
  * TradingPanel Component
- * Buy/Sell interface for bonding curve trading
- * Requirements: 5.1, 5.4, 6.1
+ * Buy/Sell interface for bonding curve trading, with private trades when
+ * the pool allows them; migrated pools trade through the DEX instead
+ * Requirements: 5.1, 5.4, 6.1, 6.2, 8.4
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
@@ -19,11 +20,15 @@ import {
   Tabs,
   TextField,
   Typography,
-  Alert,
 } from '@mui/material';
 import { alpha, useTheme } from '@mui/material/styles';
 import Iconify from '../iconify';
 import { useTrading } from '../../hooks/useTrading';
+import { usePrivateTrading } from '../../hooks/usePrivateTrading';
+import { SlippageDetails, getSuggestedSlippage } from '../../utils/tradingErrors';
+import TradingErrorDisplay from './TradingErrorDisplay';
+import PrivateTradeOptions from './PrivateTradeOptions';
+import DexSwapPanel from './DexSwapPanel';
 import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../../utils/bondingCurveUtils';
 
 // ===========================================
@@ -72,6 +77,31 @@ export default function TradingPanel({
   const [showSlippageSettings, setShowSlippageSettings] = useState(false);
   const [calculatedValue, setCalculatedValue] = useState<bigint | null>(null);
   const [isCalculatingValue, setIsCalculatingValue] = useState(false);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [selectedPosition, setSelectedPosition] = useState('');
+  const [useRelayer, setUseRelayer] = useState(false);
+  // Set when a trade fails because the pool migrated since it was loaded
+  const [switchedToDex, setSwitchedToDex] = useState(false);
+
+  // "Slippage Artır": widen the tolerance enough to accept the fresh quote
+  // "DEX ile İşlem Yap": show the DEX swap instead of the curve
+  const recoveryHandlers = useMemo(
+    () => ({
+      onIncreaseSlippage: (details?: SlippageDetails) => {
+        setSlippage((current) => getSuggestedSlippage(current, details, calculatedValue));
+        setShowSlippageSettings(true);
+      },
+      onSwitchToDex: () => setSwitchedToDex(true),
+    }),
+    [calculatedValue]
+  );
+
+  const handleTradeSuccess = useCallback(() => {
+    setAmount('');
+    setCalculatedValue(null);
+    setSelectedPosition('');
+    onTradeSuccess?.();
+  }, [onTradeSuccess]);
 
   // Trading hook
   const {
@@ -89,13 +119,45 @@ export default function TradingPanel({
   } = useTrading({
     poolAddress,
     tokenAddress,
-    onSuccess: () => {
-      setAmount('');
-      setCalculatedValue(null);
-      onTradeSuccess?.();
-    },
+    recoveryHandlers,
+    onSuccess: handleTradeSuccess,
+  });
+
+  // Private trading hook (private_buy / private_sell)
+  const {
+    isPrivateEnabled,
+    positions,
+    isSubmitting,
+    error: privateError,
+    privateBuy,
+    privateSell,
+    isRelayerAvailable,
+    relayQuote,
+    relayStatus,
+    getRelayQuote,
+    relayedBuy,
+    proofProgress,
+    cancelProof,
+    clearError: clearPrivateError,
+  } = usePrivateTrading({
+    poolAddress,
+    tokenAddress,
+    tokenSymbol,
+    onSuccess: handleTradeSuccess,
   });
 
+  const privateMode = isPrivate && Boolean(isPrivateEnabled);
+  const isPrivateSell = privateMode && activeTab === 'sell';
+  const relayMode = privateMode && activeTab === 'buy' && useRelayer && isRelayerAvailable;
+  const isTrading = isBuying || isSelling || isSubmitting;
+
+  // A private sell always sells a whole position
+  useEffect(() => {
+    if (!isPrivateSell) return;
+    const position = positions.find((item) => item.commitment === selectedPosition);
+    setAmount(position ? formatBigIntWithDecimals(BigInt(position.amount), DECIMALS, DECIMALS) : '');
+  }, [isPrivateSell, positions, selectedPosition]);
+
   // Refresh balances on mount
   useEffect(() => {
     refreshBalances();
@@ -133,13 +195,34 @@ export default function TradingPanel({
     return () => clearTimeout(timeoutId);
   }, [amount, activeTab, getBuyCost, getSellReturn]);
 
+  // Relayer fee quote for the amount being bought
+  useEffect(() => {
+    if (!relayMode || !amount || parseFloat(amount) <= 0) return undefined;
+    const timeoutId = setTimeout(() => {
+      getRelayQuote(toBigIntWithDecimals(amount, DECIMALS));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [relayMode, amount, getRelayQuote]);
+
   // Handle tab change
   const handleTabChange = useCallback((_: React.SyntheticEvent, newValue: TradeTab) => {
     setActiveTab(newValue);
     setAmount('');
     setCalculatedValue(null);
+    setSelectedPosition('');
     clearError();
-  }, [clearError]);
+    clearPrivateError();
+  }, [clearError, clearPrivateError]);
+
+  // Handle private toggle
+  const handlePrivateChange = useCallback((checked: boolean) => {
+    setIsPrivate(checked);
+    setAmount('');
+    setCalculatedValue(null);
+    setSelectedPosition('');
+    clearError();
+    clearPrivateError();
+  }, [clearError, clearPrivateError]);
 
   // Handle amount change
   const handleAmountChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -178,27 +261,38 @@ export default function TradingPanel({
         const maxCost = calculatedValue 
           ? (calculatedValue * slippageMultiplier) / slippageDivisor
           : undefined;
-        await buy(amountBigInt, maxCost);
+        if (relayMode) {
+          if (await relayedBuy(amountBigInt, maxCost)) await refreshBalances();
+        } else if (privateMode) {
+          if (await privateBuy(amountBigInt, maxCost)) await refreshBalances();
+        } else {
+          await buy(amountBigInt, maxCost);
+        }
       } else {
         // For sell, minReturn = calculatedReturn * (1 - slippage)
         const minSlippageMultiplier = BigInt(Math.floor((100 - slippage) * 100));
         const minReturn = calculatedValue
           ? (calculatedValue * minSlippageMultiplier) / slippageDivisor
           : undefined;
-        await sell(amountBigInt, minReturn);
+        if (privateMode) {
+          if (await privateSell(selectedPosition, minReturn)) await refreshBalances();
+        } else {
+          await sell(amountBigInt, minReturn);
+        }
       }
     } catch (err) {
       // Error is handled by the hook
       console.error('Trade failed:', err);
     }
-  }, [amount, activeTab, slippage, calculatedValue, buy, sell]);
+  }, [amount, activeTab, slippage, calculatedValue, privateMode, relayMode, selectedPosition, buy, sell, privateBuy, privateSell, relayedBuy, refreshBalances]);
 
   // Check if trade is disabled
   const isTradeDisabled = useMemo(() => {
     if (isMigrated) return true;
     if (!amount || parseFloat(amount) <= 0) return true;
-    if (isBuying || isSelling) return true;
+    if (isTrading) return true;
     if (isCalculatingValue) return true;
+    if (isPrivateSell && !selectedPosition) return true;
     
     if (activeTab === 'sell' && userTokenBalance !== null) {
       const amountBigInt = toBigIntWithDecimals(amount, DECIMALS);
@@ -206,16 +300,29 @@ export default function TradingPanel({
     }
     
     return false;
-  }, [isMigrated, amount, isBuying, isSelling, isCalculatingValue, activeTab, userTokenBalance]);
+  }, [isMigrated, amount, isTrading, isCalculatingValue, isPrivateSell, selectedPosition, activeTab, userTokenBalance]);
 
   // Get button text
   const buttonText = useMemo(() => {
-    if (isBuying) return 'Buying...';
-    if (isSelling) return 'Selling...';
+    if (isBuying || (isSubmitting && activeTab === 'buy')) return 'Buying...';
+    if (isSelling || isSubmitting) return 'Selling...';
     if (isMigrated) return 'Pool Migrated';
-    if (activeTab === 'buy') return 'Buy';
-    return 'Sell';
-  }, [isBuying, isSelling, isMigrated, activeTab]);
+    if (activeTab === 'buy') return privateMode ? 'Private Buy' : 'Buy';
+    return privateMode ? 'Private Sell' : 'Sell';
+  }, [isBuying, isSelling, isSubmitting, isMigrated, activeTab, privateMode]);
+
+  // Graduated pools no longer trade on the curve
+  if (isMigrated || switchedToDex) {
+    return (
+      <DexSwapPanel
+        tokenAddress={tokenAddress}
+        tokenSymbol={tokenSymbol}
+        quoteSymbol={quoteSymbol}
+        referencePrice={currentPrice}
+        onTradeSuccess={onTradeSuccess}
+      />
+    );
+  }
 
   return (
     <Card sx={{ p: 3 }}>
@@ -247,35 +354,33 @@ export default function TradingPanel({
         />
       </Tabs>
 
-      {/* Migrated Warning */}
-      {isMigrated && (
-        <Alert 
-          severity="warning" 
-          sx={{ mb: 2 }}
-          action={
-            <Button 
-              color="inherit" 
-              size="small"
-              onClick={() => window.open('https://app.avnu.fi', '_blank')}
-            >
-              DEX&apos;e Git
-            </Button>
-          }
-        >
-          Bu havuz DEX&apos;e taşınmış. Lütfen DEX üzerinden işlem yapın.
-        </Alert>
-      )}
-
       {/* Error Display */}
-      {error && (
-        <Alert 
-          severity="error" 
-          sx={{ mb: 2 }}
-          onClose={clearError}
-        >
-          {error.message}
-        </Alert>
-      )}
+      <TradingErrorDisplay
+        error={privateMode ? privateError : error}
+        onClose={privateMode ? clearPrivateError : clearError}
+      />
+
+      {/* Private Trade Toggle - Requirements: 6.1, 6.2 */}
+      <PrivateTradeOptions
+        isPrivateEnabled={isPrivateEnabled && !isMigrated}
+        isPrivate={privateMode}
+        onPrivateChange={handlePrivateChange}
+        side={activeTab}
+        positions={positions}
+        selectedPosition={selectedPosition}
+        onPositionChange={setSelectedPosition}
+        tokenSymbol={tokenSymbol}
+        decimals={DECIMALS}
+        disabled={isTrading}
+        isRelayerAvailable={isRelayerAvailable}
+        useRelayer={useRelayer}
+        onUseRelayerChange={setUseRelayer}
+        relayQuote={relayQuote}
+        relayStatus={relayStatus}
+        proofProgress={proofProgress}
+        onCancelProof={cancelProof}
+        quoteSymbol={quoteSymbol}
+      />
 
       <Box>
         {/* Amount Input */}
@@ -303,14 +408,14 @@ export default function TradingPanel({
             value={amount}
             onChange={handleAmountChange}
             placeholder="0.0"
-            disabled={isMigrated}
+            disabled={isMigrated || isPrivateSell}
             InputProps={{
               endAdornment: (
                 <InputAdornment position="end">
                   <Button 
                     size="small" 
                     onClick={handleMaxClick}
-                    disabled={isMigrated}
+                    disabled={isMigrated || isPrivateSell}
                   >
                     MAX
                   </Button>
@@ -468,7 +573,7 @@ export default function TradingPanel({
           color={activeTab === 'buy' ? 'success' : 'error'}
           onClick={handleTrade}
           disabled={isTradeDisabled}
-          startIcon={(isBuying || isSelling) && <CircularProgress size={20} color="inherit" />}
+          startIcon={isTrading && <CircularProgress size={20} color="inherit" />}
         >
           {buttonText}
         </Button>
@@ -3,3 +3,12 @@ export type { TradingPanelProps } from './TradingPanel';
 
 export { default as TradingErrorDisplay, TradingErrorDisplay as TradingErrorDisplayComponent } from './TradingErrorDisplay';
 export type { TradingErrorDisplayProps } from './TradingErrorDisplay';
+
+export { default as PrivateTradeOptions, PrivateTradeOptions as PrivateTradeOptionsComponent } from './PrivateTradeOptions';
+export type { PrivateTradeOptionsProps } from './PrivateTradeOptions';
+
+export { default as DexSwapPanel, DexSwapPanel as DexSwapPanelComponent } from './DexSwapPanel';
+export type { DexSwapPanelProps } from './DexSwapPanel';
+
+export { default as MigrationProgress, MigrationProgress as MigrationProgressComponent, MIGRATION_PHASE_LABELS } from './MigrationProgress';
+export type { MigrationProgressProps } from './MigrationProgress';
@@ -4,6 +4,16 @@
  * Requirements: 1.1
  */
 
+// Shared with the deploy scripts; config-overrides.js allows the import
+// eslint-disable-next-line import/no-relative-packages
+import sepoliaManifest from '../../../deployments/sepolia-deployments.json';
+import {
+  DeploymentManifest,
+  ManifestClassName,
+  ManifestContractName,
+  parseDeploymentManifest,
+} from './deploymentManifest';
+
 // Network types
 export type NetworkId = 'mainnet' | 'sepolia';
 
@@ -36,52 +46,61 @@ export interface ContractConfig {
   chainId: string;
 }
 
-// Sepolia testnet configuration - DEPLOYED 2025-12-03
+// Deployment manifests written by the deploy scripts (deployments/<network>-deployments.json)
+const DEPLOYMENT_MANIFESTS: Partial<Record<NetworkId, DeploymentManifest>> = {
+  sepolia: parseDeploymentManifest(sepoliaManifest),
+};
+
+// Manifest address of a protocol contract, '0x0' when the network has none
+const manifestAddress = (network: NetworkId, name: ManifestContractName): string =>
+  DEPLOYMENT_MANIFESTS[network]?.contracts[name]?.address || '0x0';
+
+// Sepolia testnet configuration - addresses from the deployment manifest
 const SEPOLIA_CONFIG: ContractConfig = {
   addresses: {
     // Core contracts
-    pumpFactory: process.env.REACT_APP_PUMP_FACTORY_ADDRESS || '0x073399b589e513c4aad810f1b5fab0e8ee00d71e5c606730617197486c889f50',
-    protocolConfig: process.env.REACT_APP_PROTOCOL_CONFIG_ADDRESS || '0x008c776746428bad63e71142247ddb24963d8ea68de66733ca76f1f50006b34f',
-    quoteToken: process.env.REACT_APP_QUOTE_TOKEN_ADDRESS || '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d', // STRK on Sepolia
+    pumpFactory: process.env.REACT_APP_PUMP_FACTORY_ADDRESS || manifestAddress('sepolia', 'PumpFactory'),
+    protocolConfig: process.env.REACT_APP_PROTOCOL_CONFIG_ADDRESS || manifestAddress('sepolia', 'ProtocolConfig'),
+    quoteToken: process.env.REACT_APP_QUOTE_TOKEN_ADDRESS || DEPLOYMENT_MANIFESTS.sepolia?.quote_token || '0x0',
     
     // Privacy contracts
-    stealthAddressGenerator: process.env.REACT_APP_STEALTH_GENERATOR_ADDRESS || '0x064f0f550c2b7e64d26c21c0952db204eabc92b8f7c00bfe222e4e1081fed92f',
-    nullifierRegistry: process.env.REACT_APP_NULLIFIER_REGISTRY_ADDRESS || '0x042025d0436d3fb24efc2f54bb80b96374834cb738ce0e97f1dc1403f20103f9',
-    zkProofVerifier: process.env.REACT_APP_ZK_VERIFIER_ADDRESS || '0x058b44f91d29735df077a3c9a2dcf89b3a267e46516a7954687a307781291adf',
-    commitmentTree: process.env.REACT_APP_COMMITMENT_TREE_ADDRESS || '0x026ef549f0fd89855c35802895f3cc4bdd682c1184defc8c30a57f091dc312ec',
-    darkPoolMixer: process.env.REACT_APP_DARKPOOL_MIXER_ADDRESS || '0x04c0c9b0fcbb2f45b31ccda688fb95af193f8b745713fcedc6763f630b1b25e7',
-    privacyRelayer: process.env.REACT_APP_PRIVACY_RELAYER_ADDRESS || '0x05933b0cc0bd3926730db1a9746f8610a474e820efacd625371a6fb1cfd1c744',
-    encryptedStateManager: process.env.REACT_APP_ENCRYPTED_STATE_ADDRESS || '0x07067de4049e782c55c9dbd6157e5c97d1224ae76de3fe1912af4e59eed20a44',
+    stealthAddressGenerator: process.env.REACT_APP_STEALTH_GENERATOR_ADDRESS || manifestAddress('sepolia', 'StealthAddressGenerator'),
+    nullifierRegistry: process.env.REACT_APP_NULLIFIER_REGISTRY_ADDRESS || manifestAddress('sepolia', 'NullifierRegistry'),
+    zkProofVerifier: process.env.REACT_APP_ZK_VERIFIER_ADDRESS || manifestAddress('sepolia', 'ZKProofVerifier'),
+    commitmentTree: process.env.REACT_APP_COMMITMENT_TREE_ADDRESS || manifestAddress('sepolia', 'CommitmentTree'),
+    darkPoolMixer: process.env.REACT_APP_DARKPOOL_MIXER_ADDRESS || manifestAddress('sepolia', 'DarkPoolMixer'),
+    privacyRelayer: process.env.REACT_APP_PRIVACY_RELAYER_ADDRESS || manifestAddress('sepolia', 'PrivacyRelayer'),
+    encryptedStateManager: process.env.REACT_APP_ENCRYPTED_STATE_ADDRESS || manifestAddress('sepolia', 'EncryptedStateManager'),
     
     // Migration contracts
-    liquidityMigration: process.env.REACT_APP_LIQUIDITY_MIGRATION_ADDRESS || '0x0066136ec75eced3807da383b287877a3ee40b78d3190de47b940e0666729790',
-    zkDexHook: process.env.REACT_APP_ZK_DEX_HOOK_ADDRESS || '0x047db2d84db630911902930cc6f9286e4e0ae27fe1eb808fcebf2a45d604117b',
+    liquidityMigration: process.env.REACT_APP_LIQUIDITY_MIGRATION_ADDRESS || manifestAddress('sepolia', 'LiquidityMigration'),
+    zkDexHook: process.env.REACT_APP_ZK_DEX_HOOK_ADDRESS || manifestAddress('sepolia', 'ZkDexHook'),
   },
-  rpcUrl: process.env.REACT_APP_STARKNET_RPC_URL || 'https://rpc.starknet-testnet.lava.build',
-  explorerUrl: 'https://sepolia.voyager.online',
-  chainId: 'SN_SEPOLIA',
+  rpcUrl: process.env.REACT_APP_STARKNET_RPC_URL || DEPLOYMENT_MANIFESTS.sepolia?.rpc || 'https://rpc.starknet-testnet.lava.build',
+  explorerUrl: DEPLOYMENT_MANIFESTS.sepolia?.explorer || 'https://sepolia.voyager.online',
+  chainId: DEPLOYMENT_MANIFESTS.sepolia?.chain_id || 'SN_SEPOLIA',
 };
 
 // Mainnet configuration (placeholder - not deployed yet)
 const MAINNET_CONFIG: ContractConfig = {
   addresses: {
     // Core contracts
-    pumpFactory: process.env.REACT_APP_PUMP_FACTORY_ADDRESS_MAINNET || '0x0',
-    protocolConfig: process.env.REACT_APP_PROTOCOL_CONFIG_ADDRESS_MAINNET || '0x0',
+    pumpFactory: process.env.REACT_APP_PUMP_FACTORY_ADDRESS_MAINNET || manifestAddress('mainnet', 'PumpFactory'),
+    protocolConfig: process.env.REACT_APP_PROTOCOL_CONFIG_ADDRESS_MAINNET || manifestAddress('mainnet', 'ProtocolConfig'),
     quoteToken: process.env.REACT_APP_QUOTE_TOKEN_ADDRESS_MAINNET || '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d', // STRK on Mainnet
     
     // Privacy contracts
-    stealthAddressGenerator: process.env.REACT_APP_STEALTH_GENERATOR_ADDRESS_MAINNET || '0x0',
-    nullifierRegistry: process.env.REACT_APP_NULLIFIER_REGISTRY_ADDRESS_MAINNET || '0x0',
-    zkProofVerifier: process.env.REACT_APP_ZK_VERIFIER_ADDRESS_MAINNET || '0x0',
-    commitmentTree: process.env.REACT_APP_COMMITMENT_TREE_ADDRESS_MAINNET || '0x0',
-    darkPoolMixer: process.env.REACT_APP_DARKPOOL_MIXER_ADDRESS_MAINNET || '0x0',
-    privacyRelayer: process.env.REACT_APP_PRIVACY_RELAYER_ADDRESS_MAINNET || '0x0',
-    encryptedStateManager: process.env.REACT_APP_ENCRYPTED_STATE_ADDRESS_MAINNET || '0x0',
+    stealthAddressGenerator: process.env.REACT_APP_STEALTH_GENERATOR_ADDRESS_MAINNET || manifestAddress('mainnet', 'StealthAddressGenerator'),
+    nullifierRegistry: process.env.REACT_APP_NULLIFIER_REGISTRY_ADDRESS_MAINNET || manifestAddress('mainnet', 'NullifierRegistry'),
+    zkProofVerifier: process.env.REACT_APP_ZK_VERIFIER_ADDRESS_MAINNET || manifestAddress('mainnet', 'ZKProofVerifier'),
+    commitmentTree: process.env.REACT_APP_COMMITMENT_TREE_ADDRESS_MAINNET || manifestAddress('mainnet', 'CommitmentTree'),
+    darkPoolMixer: process.env.REACT_APP_DARKPOOL_MIXER_ADDRESS_MAINNET || manifestAddress('mainnet', 'DarkPoolMixer'),
+    privacyRelayer: process.env.REACT_APP_PRIVACY_RELAYER_ADDRESS_MAINNET || manifestAddress('mainnet', 'PrivacyRelayer'),
+    encryptedStateManager: process.env.REACT_APP_ENCRYPTED_STATE_ADDRESS_MAINNET || manifestAddress('mainnet', 'EncryptedStateManager'),
     
     // Migration contracts
-    liquidityMigration: process.env.REACT_APP_LIQUIDITY_MIGRATION_ADDRESS_MAINNET || '0x0',
-    zkDexHook: process.env.REACT_APP_ZK_DEX_HOOK_ADDRESS_MAINNET || '0x0',
+    liquidityMigration: process.env.REACT_APP_LIQUIDITY_MIGRATION_ADDRESS_MAINNET || manifestAddress('mainnet', 'LiquidityMigration'),
+    zkDexHook: process.env.REACT_APP_ZK_DEX_HOOK_ADDRESS_MAINNET || manifestAddress('mainnet', 'ZkDexHook'),
   },
   rpcUrl: process.env.REACT_APP_STARKNET_RPC_URL_MAINNET || 'https://starknet-mainnet.public.blastapi.io',
   explorerUrl: 'https://starkscan.co',
@@ -111,6 +130,88 @@ export const getContractAddresses = (network?: NetworkId): ContractAddresses =>
   return getContractConfig(network).addresses;
 };
 
+// Get the deployment manifest for current network, null when it has none
+export const getDeploymentManifest = (network?: NetworkId): DeploymentManifest | null =>
+  DEPLOYMENT_MANIFESTS[network || getCurrentNetwork()] || null;
+
+/**
+ * Class hashes of the per-launch contracts, '0x0' when not declared
+ */
+export const getLaunchClassHashes = (network?: NetworkId): Record<ManifestClassName, string> => {
+  const classes = getDeploymentManifest(network)?.classes;
+  return {
+    MemecoinToken: classes?.MemecoinToken?.class_hash || '0x0',
+    BondingCurvePool: classes?.BondingCurvePool?.class_hash || '0x0',
+  };
+};
+
+/**
+ * Check if simulated trading is enabled
+ * Opt-in for local development via REACT_APP_TRADING_SIMULATION=true.
+ * Always false in production builds, so trades there go through the pools.
+ */
+export const isTradingSimulationEnabled = (): boolean => {
+  if (process.env.NODE_ENV === 'production') {
+    return false;
+  }
+  return process.env.REACT_APP_TRADING_SIMULATION === 'true';
+};
+
+/**
+ * Base URL of the private-buy relayer (scripts/relayer), if one is configured
+ */
+export const getRelayerUrl = (): string | null => process.env.REACT_APP_RELAYER_URL || null;
+
+export type ProverBackend = 'worker' | 'mock';
+
+export interface ProverConfig {
+  backend: ProverBackend;
+  /** Base URL of the circuit artifacts (manifest.json, wasm, zkey) */
+  circuitsUrl: string;
+}
+
+/**
+ * Which proof provider private trades use
+ * 'worker' proves in a WebWorker from the circuit artifacts; 'mock' builds
+ * deterministic placeholder proofs that only pass the current non-zero checks.
+ * 'mock' is the development default and ignored in production builds, which
+ * always use the worker.
+ */
+export const getProverConfig = (): ProverConfig => {
+  const mock = process.env.NODE_ENV !== 'production' && process.env.REACT_APP_PROVER !== 'worker';
+  return {
+    backend: mock ? 'mock' : 'worker',
+    circuitsUrl: process.env.REACT_APP_CIRCUITS_URL || `${process.env.PUBLIC_URL}/circuits`,
+  };
+};
+
+export type DexAdapterId = 'avnu' | 'stub';
+
+export interface DexConfig {
+  adapter: DexAdapterId;
+  /** Base URL of the AVNU swap API */
+  apiUrl: string;
+}
+
+const AVNU_API_URLS: Record<NetworkId, string> = {
+  mainnet: 'https://starknet.api.avnu.fi',
+  sepolia: 'https://sepolia.api.avnu.fi',
+};
+
+/**
+ * Which DEX adapter graduated (migrated) tokens are quoted and swapped through
+ * 'stub' quotes at the last bonding curve price and only simulates swaps;
+ * opt-in for local development via REACT_APP_DEX_ADAPTER=stub and ignored
+ * in production builds.
+ */
+export const getDexConfig = (network?: NetworkId): DexConfig => {
+  const stub = process.env.NODE_ENV !== 'production' && process.env.REACT_APP_DEX_ADAPTER === 'stub';
+  return {
+    adapter: stub ? 'stub' : 'avnu',
+    apiUrl: process.env.REACT_APP_DEX_API_URL || AVNU_API_URLS[network || getCurrentNetwork()],
+  };
+};
+
 // Validate contract address (non-zero)
 export const isValidContractAddress = (address: string): boolean => {
   return address !== '0x0' && address !== '' && address.startsWith('0x');
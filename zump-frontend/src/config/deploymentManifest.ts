@@ -0,0 +1,162 @@
+/**
+ * Deployment Manifest
+ * Versioned record of a network's deployment, written by the deploy scripts
+ * (deployments/<network>-deployments.json) and read by the frontend config,
+ * deploymentService, the CLI, the indexer and the relayer
+ * Requirements: 1.1
+ */
+
+import { hash, num } from 'starknet';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+/**
+ * Protocol contracts deployed once per network
+ */
+export const MANIFEST_CONTRACTS = [
+  'ProtocolConfig',
+  'PumpFactory',
+  'StealthAddressGenerator',
+  'CommitmentTree',
+  'NullifierRegistry',
+  'ZKProofVerifier',
+  'DarkPoolMixer',
+  'PrivacyRelayer',
+  'EncryptedStateManager',
+  'LiquidityMigration',
+  'ZkDexHook',
+] as const;
+
+/**
+ * Classes declared once and deployed per launch
+ */
+export const MANIFEST_CLASSES = ['MemecoinToken', 'BondingCurvePool'] as const;
+
+export type ManifestContractName = (typeof MANIFEST_CONTRACTS)[number];
+export type ManifestClassName = (typeof MANIFEST_CLASSES)[number];
+
+export interface ManifestClass {
+  class_hash: string;
+  /** starknetKeccak of the class ABI as compact JSON; null until synced from chain */
+  abi_hash: string | null;
+}
+
+export interface ManifestContract extends ManifestClass {
+  address: string;
+  deploy_tx: string | null;
+  /** Block of the deploy transaction; event scans start here */
+  deploy_block: number | null;
+}
+
+export interface DeploymentManifest {
+  version: typeof DEPLOYMENT_MANIFEST_VERSION;
+  network: string;
+  chain_id: string;
+  rpc: string;
+  explorer: string;
+  deployed_at: string;
+  deployer: string;
+  /** Quote token launches trade against */
+  quote_token: string;
+  contracts: Partial<Record<ManifestContractName, ManifestContract>>;
+  classes: Partial<Record<ManifestClassName, ManifestClass>>;
+  tokens: Record<string, string>;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHex = (value: unknown): value is string => typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value);
+
+const isNullableHex = (value: unknown): boolean => value === null || isHex(value);
+
+const fail = (network: string, message: string): never => {
+  throw new Error(`Invalid ${network} deployment manifest: ${message}`);
+};
+
+/**
+ * Object-valued section of the manifest; a missing section is empty
+ */
+const getSection = (network: string, manifest: Fields, field: string): Fields => {
+  const section = manifest[field] ?? {};
+  return isRecord(section) ? section : fail(network, `${field} must be an object`);
+};
+
+const checkClass = (network: string, name: string, entry: unknown): Fields => {
+  if (!isRecord(entry) || !isHex(entry.class_hash)) {
+    return fail(network, `${name}.class_hash must be a hex felt`);
+  }
+  if (!isNullableHex(entry.abi_hash)) fail(network, `${name}.abi_hash must be a hex felt or null`);
+  return entry;
+};
+
+/**
+ * Validate a parsed manifest file
+ *
+ * @throws Error naming the first field that does not match the format
+ */
+export const parseDeploymentManifest = (value: unknown): DeploymentManifest => {
+  const manifest: Fields = isRecord(value) ? value : {};
+  const network = typeof manifest.network === 'string' ? manifest.network : 'unknown';
+
+  if (manifest.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    fail(network, `expected version ${DEPLOYMENT_MANIFEST_VERSION}, found ${String(manifest.version)}`);
+  }
+  ['chain_id', 'rpc', 'explorer', 'deployed_at'].forEach((field) => {
+    if (typeof manifest[field] !== 'string') fail(network, `${field} must be a string`);
+  });
+  if (!isHex(manifest.deployer)) fail(network, 'deployer must be an address');
+  if (!isHex(manifest.quote_token)) fail(network, 'quote_token must be an address');
+
+  const contracts = getSection(network, manifest, 'contracts');
+  const classes = getSection(network, manifest, 'classes');
+  const tokens = getSection(network, manifest, 'tokens');
+
+  Object.entries(contracts).forEach(([name, contract]) => {
+    if (!(MANIFEST_CONTRACTS as readonly string[]).includes(name)) fail(network, `unknown contract ${name}`);
+    const entry = checkClass(network, name, contract);
+    if (!isHex(entry.address)) fail(network, `${name}.address must be an address`);
+    if (!isNullableHex(entry.deploy_tx)) fail(network, `${name}.deploy_tx must be a hash or null`);
+    if (entry.deploy_block !== null && !Number.isInteger(entry.deploy_block)) {
+      fail(network, `${name}.deploy_block must be a block number or null`);
+    }
+  });
+  Object.entries(classes).forEach(([name, entry]) => {
+    if (!(MANIFEST_CLASSES as readonly string[]).includes(name)) fail(network, `unknown class ${name}`);
+    checkClass(network, name, entry);
+  });
+
+  // Every field read below was checked above
+  return { ...manifest, contracts, classes, tokens } as DeploymentManifest;
+};
+
+// ============================================================================
+// ABI Hashes
+// ============================================================================
+
+/**
+ * Hash identifying an ABI, independent of its whitespace
+ * Accepts the parsed ABI or the JSON string a Sierra class carries.
+ */
+export const computeAbiHash = (abi: unknown): string => {
+  const parsed = typeof abi === 'string' ? JSON.parse(abi) : abi;
+  return num.toHex(hash.starknetKeccak(JSON.stringify(parsed)));
+};
+
+export default {
+  DEPLOYMENT_MANIFEST_VERSION,
+  MANIFEST_CONTRACTS,
+  MANIFEST_CLASSES,
+  parseDeploymentManifest,
+  computeAbiHash,
+};
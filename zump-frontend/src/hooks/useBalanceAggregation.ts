@@ -1,16 +1,20 @@
 /**
  * useBalanceAggregation Hook
- * Aggregates balances across all stealth addresses
+ * Aggregates balances across all stealth addresses, public token balances
+ * next to encrypted EncryptedStateManager balances
  * Requirements: 10.4
  */
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useAccount } from '@starknet-react/core';
 import { StealthBalance, AggregatedBalance } from '../@types/privacy';
+import { EncryptedPositionView } from '../services/encryptedStateService';
 import { useStealthAddress } from './useStealthAddress';
+import { BalanceVerification, useEncryptedState } from './useEncryptedState';
+import { getPrivacyVault } from '../services/privacyVault';
 
-// Storage key for cached balances
-const BALANCE_CACHE_KEY = 'zump_balance_cache';
+// Vault collection for cached balances
+const BALANCE_COLLECTION = 'balances';
 
 // Common tokens on Starknet
 export const SUPPORTED_TOKENS = [
@@ -41,11 +45,17 @@ export const SUPPORTED_TOKENS = [
 ];
 
 export interface UseBalanceAggregationReturn {
+  /** Public and encrypted balances per stealth address */
   stealthBalances: StealthBalance[];
   aggregatedBalances: AggregatedBalance[];
   totalValueUsd: string;
   isLoading: boolean;
   error: string | null;
+  isEncryptedStateAvailable: boolean;
+  encryptedPositions: EncryptedPositionView[];
+  /** verify_balance_commitment results, keyed by balanceKey(address, token) */
+  encryptedVerifications: Record<string, BalanceVerification>;
+  verifyEncryptedBalance: (address: string, token: string) => Promise<boolean>;
   refreshBalances: () => Promise<void>;
   getBalanceForAddress: (address: string, token: string) => StealthBalance | undefined;
   getAggregatedBalance: (token: string) => AggregatedBalance | undefined;
@@ -58,18 +68,71 @@ export function useBalanceAggregation(): UseBalanceAggregationReturn {
   const { address: walletAddress, isConnected } = useAccount();
   const { stealthAddresses } = useStealthAddress();
   
-  const [stealthBalances, setStealthBalances] = useState<StealthBalance[]>([]);
+  const [publicBalances, setPublicBalances] = useState<StealthBalance[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Encrypted balances; entries hashed by encrypt_balance are matched
+  // against the public balance of the same address and token
+  const encryptedState = useEncryptedState({
+    stealthAddresses: stealthAddresses.map((stealth) => stealth.address),
+    tokens: SUPPORTED_TOKENS.map((token) => token.address),
+    candidates: (address, token) =>
+      publicBalances
+        .filter((balance) => balance.address === address && balance.token === token)
+        .map((balance) => BigInt(balance.balance)),
+  });
+  const { refresh: refreshEncryptedState } = encryptedState;
+
+  const stealthBalances = useMemo((): StealthBalance[] => {
+    const encrypted = encryptedState.balances.map((view): StealthBalance => {
+      const token = SUPPORTED_TOKENS.find((t) => t.address === view.token);
+      const balance = view.decrypted ? view.decrypted.amount.toString() : '0';
+      return {
+        address: view.stealthAddress,
+        token: view.token,
+        tokenSymbol: token?.symbol || 'UNKNOWN',
+        balance,
+        formattedBalance: view.decrypted ? formatBalance(balance, token?.decimals || 18) : '•••',
+        visibility: 'encrypted',
+        isDecrypted: Boolean(view.decrypted),
+      };
+    });
+    return [...publicBalances, ...encrypted];
+  }, [publicBalances, encryptedState.balances]);
+
+  // Load cached balances from the vault (empty while it is locked)
+  const loadCachedBalances = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!walletAddress || !vault.isUnlocked(walletAddress)) {
+      setPublicBalances([]);
+      return;
+    }
+
+    try {
+      setPublicBalances(await vault.read<StealthBalance[]>(walletAddress, BALANCE_COLLECTION, []));
+    } catch (err) {
+      console.error('Failed to load cached balances:', err);
+    }
+  }, [walletAddress]);
+
   // Load cached balances on mount
   useEffect(() => {
     if (walletAddress && isConnected) {
       loadCachedBalances();
     } else {
-      setStealthBalances([]);
+      setPublicBalances([]);
     }
-  }, [walletAddress, isConnected]);
+  }, [walletAddress, isConnected, loadCachedBalances]);
+
+  // Reload when the vault is unlocked or restored
+  useEffect(() => {
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null) loadCachedBalances();
+    });
+  }, [walletAddress, loadCachedBalances]);
 
   // Refresh balances when stealth addresses change
   useEffect(() => {
@@ -78,32 +141,15 @@ export function useBalanceAggregation(): UseBalanceAggregationReturn {
     }
   }, [stealthAddresses.length, isConnected]);
 
-  // Load cached balances from localStorage
-  const loadCachedBalances = useCallback(() => {
-    if (!walletAddress) return;
-    
-    try {
-      const storageKey = `${BALANCE_CACHE_KEY}_${walletAddress}`;
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored) as StealthBalance[];
-        setStealthBalances(parsed);
-      }
-    } catch (err) {
-      console.error('Failed to load cached balances:', err);
-    }
-  }, [walletAddress]);
-
-  // Save balances to localStorage
+  // Save balances to the vault
   const saveCachedBalances = useCallback((balances: StealthBalance[]) => {
     if (!walletAddress) return;
-    
-    try {
-      const storageKey = `${BALANCE_CACHE_KEY}_${walletAddress}`;
-      localStorage.setItem(storageKey, JSON.stringify(balances));
-    } catch (err) {
-      console.error('Failed to save cached balances:', err);
-    }
+
+    getPrivacyVault()
+      .write(walletAddress, BALANCE_COLLECTION, balances)
+      .catch((err) => {
+        console.error('Failed to save cached balances:', err);
+      });
   }, [walletAddress]);
 
   // Aggregate balances by token
@@ -178,13 +224,15 @@ export function useBalanceAggregation(): UseBalanceAggregationReturn {
               tokenSymbol: token.symbol,
               balance: mockBalance,
               formattedBalance: formatBalance(mockBalance, token.decimals),
+              visibility: 'public',
             });
           }
         }
       }
 
-      setStealthBalances(newBalances);
+      setPublicBalances(newBalances);
       saveCachedBalances(newBalances);
+      await refreshEncryptedState();
     } catch (err: any) {
       const errorMessage = err?.message || 'Failed to refresh balances';
       setError(errorMessage);
@@ -192,7 +240,7 @@ export function useBalanceAggregation(): UseBalanceAggregationReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [isConnected, stealthAddresses, saveCachedBalances]);
+  }, [isConnected, stealthAddresses, saveCachedBalances, refreshEncryptedState]);
 
   // Get balance for specific address and token
   const getBalanceForAddress = useCallback((address: string, token: string): StealthBalance | undefined => {
@@ -208,8 +256,12 @@ export function useBalanceAggregation(): UseBalanceAggregationReturn {
     stealthBalances,
     aggregatedBalances,
     totalValueUsd,
-    isLoading,
-    error,
+    isLoading: isLoading || encryptedState.isLoading,
+    error: error || encryptedState.error,
+    isEncryptedStateAvailable: encryptedState.isAvailable,
+    encryptedPositions: encryptedState.positions,
+    encryptedVerifications: encryptedState.verifications,
+    verifyEncryptedBalance: encryptedState.verifyBalance,
     refreshBalances,
     getBalanceForAddress,
     getAggregatedBalance,
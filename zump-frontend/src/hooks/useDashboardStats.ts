@@ -1,6 +1,8 @@
 /**
  * Dashboard Statistics Hook
- * Fetches real-time platform statistics from Supabase
+ * Fetches real-time platform statistics from Supabase token metadata and
+ * the trade_events rows written by scripts/indexer. The browser never scans
+ * chain history here; EventIndexer stays for single-pool views.
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -73,6 +75,16 @@ export interface UseDashboardStatsReturn {
   isSupabaseAvailable: boolean;
 }
 
+// ===========================================
+// Constants
+// ===========================================
+
+// Days covered by the sparklines; older trades are not fetched
+const STATS_WINDOW_DAYS = 10;
+
+// PostgREST's default max-rows; newest trades are kept when a window has more
+const MAX_TRADE_ROWS = 1000;
+
 // ===========================================
 // Default/Mock Stats (fallback when Supabase not configured)
 // ===========================================
@@ -212,26 +224,27 @@ export function useDashboardStats(autoRefreshMs?: number): UseDashboardStatsRetu
     try {
       const client = getSupabaseClient();
       
-      // Fetch all data in parallel
-      const [
-        tokensResult,
-        tradesResult,
-        recentTradesResult,
-      ] = await Promise.all([
-        // Get all tokens
+      // Trades come from the indexer-written table, not from chain scans.
+      // Totals below cover the same window as the charts.
+      const windowStart = new Date(Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const [tokensResult, tradesResult] = await Promise.all([
         client.from('token_metadata').select('*'),
-        // Get all trades
-        client.from('trade_events').select('*'),
-        // Get trades from last 7 days for charts
-        client.from('trade_events')
+        client
+          .from('trade_events')
           .select('*')
-          .gte('timestamp', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
-          .order('timestamp', { ascending: true }),
+          .gte('timestamp', windowStart.toISOString())
+          .order('timestamp', { ascending: false })
+          .limit(MAX_TRADE_ROWS),
       ]);
-      
+      if (tradesResult.error) {
+        throw tradesResult.error;
+      }
       const tokens = (tokensResult.data || []) as TokenMetadata[];
       const allTrades = (tradesResult.data || []) as TradeEvent[];
-      const recentTrades = (recentTradesResult.data || []) as TradeEvent[];
+      
+      // Trades from last 7 days for charts
+      const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+      const recentTrades = allTrades.filter(t => new Date(t.timestamp).getTime() >= weekAgo);
       
       // Calculate unique active users
       const uniqueTraders = new Set(allTrades.map(t => t.trader));
@@ -346,7 +359,7 @@ function generateDailyData(trades: TradeEvent[]): {
   longRatio: number[];
   shortRatio: number[];
 } {
-  const days = 10;
+  const days = STATS_WINDOW_DAYS;
   const now = new Date();
   const dates: string[] = [];
   const users: number[] = [];
@@ -0,0 +1,62 @@
+/**
+ * useDeploymentCheck Hook
+ * Protocol contracts of the current network whose deployed class does not
+ * match the ABI the app was built against
+ * Requirements: 1.1
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { ManifestContractName } from '../config/deploymentManifest';
+import { getDeploymentCheck } from '../services/deploymentCheck';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseDeploymentCheckReturn {
+  /** Contracts that need a redeploy; empty while checking */
+  outdated: ManifestContractName[];
+  isChecking: boolean;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+/**
+ * Hook to find the given contracts that predate the app's ABIs
+ *
+ * @param names - Contracts the page calls
+ */
+export function useDeploymentCheck(
+  names: readonly ManifestContractName[]
+): UseDeploymentCheckReturn {
+  const deploymentCheck = useMemo(() => getDeploymentCheck(), []);
+  // Callers usually pass an inline array
+  const key = names.join(',');
+
+  const [outdated, setOutdated] = useState<ManifestContractName[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsChecking(true);
+
+    deploymentCheck
+      .findOutdated(key ? (key.split(',') as ManifestContractName[]) : [])
+      .then((result) => {
+        if (!cancelled) setOutdated(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [deploymentCheck, key]);
+
+  return { outdated, isChecking };
+}
+
+export default useDeploymentCheck;
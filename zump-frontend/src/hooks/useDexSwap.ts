@@ -0,0 +1,178 @@
+/**
+ * useDexSwap Hook
+ * Quotes and swaps a graduated token against the quote token through the
+ * configured DEX adapter (AVNU, or the local stub)
+ * Requirements: 8.4
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { Account } from 'starknet';
+import { getContractService, TransactionResult } from '../services/contractService';
+import { DexQuote, getDexAdapter } from '../services/dexAdapter';
+import { getContractAddresses } from '../config/contracts';
+import { ERROR_MESSAGES, TradingError, parseContractError } from '../utils/tradingErrors';
+
+// ===========================================
+// Types
+// ===========================================
+
+export type DexSwapSide = 'buy' | 'sell';
+
+export interface UseDexSwapOptions {
+  tokenAddress: string;
+  /** Last bonding curve price (1e18 scale); the stub adapter fills at it */
+  referencePrice?: bigint;
+  onSuccess?: (result: TransactionResult) => void;
+}
+
+export interface UseDexSwapReturn {
+  adapterId: string;
+  /** True when swaps are only simulated (stub adapter) */
+  isSimulated: boolean;
+  quote: DexQuote | null;
+  isQuoting: boolean;
+  isSwapping: boolean;
+  error: TradingError | null;
+  clearError: () => void;
+  /**
+   * Quote an exact-in swap: quote token → token for 'buy', token → quote token for 'sell'
+   */
+  requestQuote: (side: DexSwapSide, sellAmount: bigint) => Promise<DexQuote | null>;
+  /** Execute the current quote; slippage in percent */
+  swap: (slippage: number) => Promise<TransactionResult>;
+  userTokenBalance: bigint | null;
+  userQuoteBalance: bigint | null;
+  refreshBalances: () => Promise<void>;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useDexSwap(options: UseDexSwapOptions): UseDexSwapReturn {
+  const { tokenAddress, referencePrice, onSuccess } = options;
+  const { account, address } = useAccount();
+
+  const [quote, setQuote] = useState<DexQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isSwapping, setIsSwapping] = useState(false);
+  const [error, setError] = useState<TradingError | null>(null);
+  const [userTokenBalance, setUserTokenBalance] = useState<bigint | null>(null);
+  const [userQuoteBalance, setUserQuoteBalance] = useState<bigint | null>(null);
+
+  const adapter = useMemo(() => getDexAdapter(), []);
+  const contractService = useMemo(() => getContractService(), []);
+  const { quoteToken } = useMemo(() => getContractAddresses(), []);
+
+  // Keep the contract service signing with the connected wallet
+  useEffect(() => {
+    if (account) {
+      contractService.setAccount(account as unknown as Account);
+    }
+  }, [account, contractService]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const refreshBalances = useCallback(async () => {
+    if (!address || !tokenAddress) {
+      setUserTokenBalance(null);
+      setUserQuoteBalance(null);
+      return;
+    }
+
+    try {
+      const [tokenBal, quoteBal] = await Promise.all([
+        contractService.getBalance(tokenAddress, address),
+        contractService.getBalance(quoteToken, address),
+      ]);
+      setUserTokenBalance(tokenBal);
+      setUserQuoteBalance(quoteBal);
+    } catch (err) {
+      console.error('Failed to fetch balances:', err);
+    }
+  }, [address, tokenAddress, quoteToken, contractService]);
+
+  const requestQuote = useCallback(async (side: DexSwapSide, sellAmount: bigint): Promise<DexQuote | null> => {
+    if (sellAmount <= BigInt(0) || !tokenAddress) {
+      setQuote(null);
+      return null;
+    }
+
+    setIsQuoting(true);
+    setError(null);
+
+    try {
+      const next = await adapter.getQuote({
+        sellToken: side === 'buy' ? quoteToken : tokenAddress,
+        buyToken: side === 'buy' ? tokenAddress : quoteToken,
+        sellAmount,
+        taker: address,
+        reference: referencePrice ? { price: referencePrice, quoteToken } : undefined,
+      });
+      setQuote(next);
+      return next;
+    } catch (err) {
+      console.error('Failed to get DEX quote:', err);
+      setQuote(null);
+      setError(parseContractError(err));
+      return null;
+    } finally {
+      setIsQuoting(false);
+    }
+  }, [adapter, tokenAddress, quoteToken, address, referencePrice]);
+
+  const swap = useCallback(async (slippage: number): Promise<TransactionResult> => {
+    if (!account || !address) {
+      const tradingError: TradingError = {
+        code: 'ACCOUNT_NOT_CONNECTED',
+        message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED,
+      };
+      setError(tradingError);
+      throw new Error(tradingError.message);
+    }
+    if (!quote) {
+      throw new Error('DEX_NO_ROUTE');
+    }
+
+    setIsSwapping(true);
+    setError(null);
+
+    try {
+      const calls = await adapter.buildSwapCalls(quote, address, slippage);
+      const result: TransactionResult = adapter.executesSwaps
+        ? await contractService.executeDexSwap(calls)
+        : { hash: `simulated-swap-${Date.now()}`, status: 'confirmed' };
+
+      setQuote(null);
+      await refreshBalances();
+      onSuccess?.(result);
+      return result;
+    } catch (err) {
+      console.error('DEX swap failed:', err);
+      setError(parseContractError(err));
+      throw err;
+    } finally {
+      setIsSwapping(false);
+    }
+  }, [account, address, quote, adapter, contractService, refreshBalances, onSuccess]);
+
+  return {
+    adapterId: adapter.id,
+    isSimulated: !adapter.executesSwaps,
+    quote,
+    isQuoting,
+    isSwapping,
+    error,
+    clearError,
+    requestQuote,
+    swap,
+    userTokenBalance,
+    userQuoteBalance,
+    refreshBalances,
+  };
+}
+
+export default useDexSwap;
@@ -0,0 +1,139 @@
+/**
+ * useEncryptedState Hook
+ * Encrypted balances and positions of the user's stealth addresses from
+ * EncryptedStateManager, decrypted client-side with the vault's keys
+ * Requirements: 10.4
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { StoredPrivatePosition } from '../@types/privacy';
+import {
+  EncryptedBalanceQuery,
+  EncryptedBalanceView,
+  EncryptedPositionView,
+  getEncryptedStateService,
+} from '../services/encryptedStateService';
+import { getPrivacyVault } from '../services/privacyVault';
+
+// Vault collection holding private positions (written by usePrivateTrading)
+const POSITIONS_COLLECTION = 'privatePositions';
+
+export type BalanceVerification = 'verified' | 'mismatch';
+
+export interface UseEncryptedStateReturn {
+  isAvailable: boolean;
+  balances: EncryptedBalanceView[];
+  positions: EncryptedPositionView[];
+  isLoading: boolean;
+  error: string | null;
+  /** verify_balance_commitment results, keyed by balanceKey(address, token) */
+  verifications: Record<string, BalanceVerification>;
+  refresh: () => Promise<void>;
+  verifyBalance: (stealthAddress: string, token: string) => Promise<boolean>;
+}
+
+export const balanceKey = (stealthAddress: string, token: string): string =>
+  `${BigInt(stealthAddress).toString(16)}:${BigInt(token).toString(16)}`;
+
+/**
+ * Custom hook for EncryptedStateManager balances and positions
+ */
+export function useEncryptedState(query: EncryptedBalanceQuery): UseEncryptedStateReturn {
+  const { address: walletAddress, isConnected } = useAccount();
+  const service = useMemo(() => getEncryptedStateService(), []);
+  const isAvailable = service.isAvailable();
+
+  const [balances, setBalances] = useState<EncryptedBalanceView[]>([]);
+  const [positions, setPositions] = useState<EncryptedPositionView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verifications, setVerifications] = useState<Record<string, BalanceVerification>>({});
+
+  // The candidates callback changes every render; read the latest one
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const refresh = useCallback(async () => {
+    const { stealthAddresses } = queryRef.current;
+    if (!isAvailable || !isConnected || !walletAddress || stealthAddresses.length === 0) {
+      setBalances([]);
+      setPositions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const vault = getPrivacyVault();
+      const keys = vault.getStealthKeys(walletAddress);
+      const nextBalances = await service.getBalances(queryRef.current, keys);
+
+      let nextPositions: EncryptedPositionView[] = [];
+      if (keys) {
+        const stored = await vault.read<StoredPrivatePosition[]>(walletAddress, POSITIONS_COLLECTION, []);
+        const open = stored.filter((position) => position.status === 'open');
+        nextPositions = await service.getPositions(
+          open.map((position) => ({ pool: position.poolAddress, commitment: position.commitment })),
+          keys
+        );
+      }
+
+      setBalances(nextBalances);
+      setPositions(nextPositions);
+      setVerifications({});
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to load encrypted balances';
+      setError(errorMessage);
+      console.error('Encrypted state refresh error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [service, isAvailable, isConnected, walletAddress]);
+
+  // Refresh when the stealth addresses change
+  const addressesKey = query.stealthAddresses.join(',');
+  useEffect(() => {
+    refresh();
+  }, [addressesKey, refresh]);
+
+  // Decrypt again once the vault is unlocked
+  useEffect(() => {
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null || collection === POSITIONS_COLLECTION) refresh();
+    });
+  }, [walletAddress, refresh]);
+
+  const verifyBalance = useCallback(async (stealthAddress: string, token: string): Promise<boolean> => {
+    const key = balanceKey(stealthAddress, token);
+    const view = balances.find((balance) => balanceKey(balance.stealthAddress, balance.token) === key);
+    if (!view) {
+      throw new Error('Encrypted balance not found');
+    }
+
+    try {
+      const valid = await service.verifyBalance(view);
+      setVerifications((prev) => ({ ...prev, [key]: valid ? 'verified' : 'mismatch' }));
+      return valid;
+    } catch (err: any) {
+      setError(err?.message || 'Failed to verify balance commitment');
+      throw err;
+    }
+  }, [service, balances]);
+
+  return {
+    isAvailable,
+    balances,
+    positions,
+    isLoading,
+    error,
+    verifications,
+    refresh,
+    verifyBalance,
+  };
+}
+
+export default useEncryptedState;
@@ -0,0 +1,58 @@
+/**
+ * useLaunchLimits Hook
+ * Loads ProtocolConfig curve limits and fee for the launch form
+ * Requirements: 2.1, 9.1
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { getLaunchValidationService, LaunchLimits } from '../services/launchValidation';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseLaunchLimitsReturn {
+  /** Null until loaded (or when the contract cannot be reached) */
+  limits: LaunchLimits | null;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useLaunchLimits(): UseLaunchLimitsReturn {
+  const [limits, setLimits] = useState<LaunchLimits | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async (forceRefresh: boolean) => {
+    setIsLoading(true);
+    try {
+      setLimits(await getLaunchValidationService().getLimits(forceRefresh));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load curve limits:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load curve limits'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    limits,
+    isLoading,
+    error,
+    refresh,
+  };
+}
+
+export default useLaunchLimits;
@@ -0,0 +1,161 @@
+/**
+ * useLiquidityLock Hook
+ * ZkDexHook LP lock of a graduated pool: the locked LP token, its unlock
+ * time, whether the hook still protects it and the DEX pair reserves
+ * Requirements: 8.4
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getContractAddresses, isValidContractAddress } from '../config/contracts';
+import { getContractService, LpReserves } from '../services/contractService';
+import { getMigrationTracker } from '../services/migrationTracker';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * 'locked': unlock time in the future; 'unlockable': the unlock time passed
+ * but the owner has not called unlock_liquidity; 'unlocked': LPUnlocked was
+ * emitted and the hook no longer holds the LP tokens
+ */
+export type LiquidityLockState = 'locked' | 'unlockable' | 'unlocked';
+
+export interface PoolLiquidityLock {
+  lpToken: string;
+  /** Unix seconds; 0 when the on-chain entry was cleared by the unlock */
+  unlockTime: number;
+  state: LiquidityLockState;
+  /** ZkDexHook.is_protected; null when the deployed hook lacks the view */
+  isProtected: boolean | null;
+  /** DEX pair reserves; null when the LP token does not expose get_reserves */
+  reserves: LpReserves | null;
+  lockTxHash: string | null;
+  /** Unix seconds of the unlock, when it is known from LPUnlocked */
+  unlockedAt: number | null;
+}
+
+export interface UseLiquidityLockOptions {
+  autoFetch?: boolean;
+  pollingInterval?: number; // in milliseconds, 0 to disable
+}
+
+export interface UseLiquidityLockReturn {
+  /** null while loading or when the pool's liquidity was never locked */
+  lock: PoolLiquidityLock | null;
+  /** False when no ZkDexHook is configured for the network */
+  isAvailable: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const isZeroAddress = (address: string): boolean => BigInt(address) === BigInt(0);
+
+const getLockState = (unlocked: boolean, unlockTime: number): LiquidityLockState => {
+  if (unlocked) return 'unlocked';
+  return unlockTime * 1000 <= Date.now() ? 'unlockable' : 'locked';
+};
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+/**
+ * Hook to inspect the ZkDexHook liquidity lock of a pool
+ * Reads the hook's locked_lp view and falls back to the LiquidityProtected /
+ * LPUnlocked events for hooks deployed before the view existed.
+ *
+ * @param poolAddress - The bonding curve pool address
+ * @param options - Hook options
+ */
+export function useLiquidityLock(
+  poolAddress: string | undefined,
+  options: UseLiquidityLockOptions = {}
+): UseLiquidityLockReturn {
+  const { autoFetch = true, pollingInterval = 0 } = options;
+  const contractService = useMemo(() => getContractService(), []);
+  const tracker = useMemo(() => getMigrationTracker(), []);
+  const isAvailable = useMemo(() => isValidContractAddress(getContractAddresses().zkDexHook), []);
+
+  const [lock, setLock] = useState<PoolLiquidityLock | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchLock = useCallback(async () => {
+    if (!poolAddress || !isAvailable) {
+      setLock(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // The events carry the LP token and unlock time even after
+      // unlock_liquidity zeroed the stored entry
+      const [locked, lockEvent, isProtected] = await Promise.all([
+        contractService.getLockedLiquidity(poolAddress).catch(() => null),
+        tracker.getLiquidityLock(poolAddress),
+        contractService.isLiquidityProtected(poolAddress).catch(() => null),
+      ]);
+
+      const lpToken = locked && !isZeroAddress(locked.lpToken) ? locked.lpToken : lockEvent?.lpToken;
+      if (!lpToken) {
+        setLock(null);
+        return;
+      }
+
+      const unlockTime = locked?.unlockTime || lockEvent?.unlockTime || 0;
+      // A stored entry with unlock time 0 is what unlock_liquidity leaves behind
+      const unlocked = Boolean(lockEvent?.unlocked) || (locked !== null && locked.unlockTime === 0);
+      const reserves = await contractService.getLpReserves(lpToken).catch(() => null);
+
+      setLock({
+        lpToken,
+        unlockTime,
+        state: getLockState(unlocked, unlockTime),
+        isProtected,
+        reserves,
+        lockTxHash: lockEvent?.txHash ?? null,
+        unlockedAt: lockEvent?.unlockedAt ?? null,
+      });
+    } catch (err) {
+      console.error('Failed to fetch liquidity lock:', err);
+      setError(err instanceof Error ? err : new Error('Failed to fetch liquidity lock'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolAddress, isAvailable, contractService, tracker]);
+
+  // Initial fetch
+  useEffect(() => {
+    if (autoFetch) {
+      fetchLock();
+    }
+  }, [autoFetch, fetchLock]);
+
+  // An unlock is final; keep polling only while it can still happen
+  const unlocked = lock?.state === 'unlocked';
+  useEffect(() => {
+    if (pollingInterval <= 0 || !autoFetch || unlocked) {
+      return undefined;
+    }
+    const intervalId = setInterval(fetchLock, pollingInterval);
+    return () => clearInterval(intervalId);
+  }, [pollingInterval, autoFetch, unlocked, fetchLock]);
+
+  return {
+    lock,
+    isAvailable,
+    isLoading,
+    error,
+    refetch: fetchLock,
+  };
+}
+
+export default useLiquidityLock;
@@ -0,0 +1,92 @@
+/**
+ * useMigrationStatus Hook
+ * Bonding curve → DEX status of a pool: threshold progress, then the
+ * "Graduating" / "Graduated" phases from the migration events
+ * Requirements: 8.4
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { MigrationStatus, getMigrationTracker } from '../services/migrationTracker';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseMigrationStatusOptions {
+  autoFetch?: boolean;
+  pollingInterval?: number; // in milliseconds, 0 to disable
+}
+
+export interface UseMigrationStatusReturn {
+  status: MigrationStatus | null;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+/**
+ * Hook to follow the migration of a bonding curve pool
+ *
+ * @param poolAddress - The bonding curve pool address
+ * @param options - Hook options
+ */
+export function useMigrationStatus(
+  poolAddress: string | undefined,
+  options: UseMigrationStatusOptions = {}
+): UseMigrationStatusReturn {
+  const { autoFetch = true, pollingInterval = 0 } = options;
+  const tracker = useMemo(() => getMigrationTracker(), []);
+
+  const [status, setStatus] = useState<MigrationStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!poolAddress) {
+      setStatus(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setStatus(await tracker.getStatus(poolAddress));
+    } catch (err) {
+      console.error('Failed to fetch migration status:', err);
+      setError(err instanceof Error ? err : new Error('Failed to fetch migration status'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolAddress, tracker]);
+
+  // Initial fetch
+  useEffect(() => {
+    if (autoFetch) {
+      fetchStatus();
+    }
+  }, [autoFetch, fetchStatus]);
+
+  // Polling stops once the pool has graduated; nothing changes after that
+  const graduated = status?.phase === 'graduated';
+  useEffect(() => {
+    if (pollingInterval <= 0 || !autoFetch || graduated) {
+      return undefined;
+    }
+    const intervalId = setInterval(fetchStatus, pollingInterval);
+    return () => clearInterval(intervalId);
+  }, [pollingInterval, autoFetch, graduated, fetchStatus]);
+
+  return {
+    status,
+    isLoading,
+    error,
+    refetch: fetchStatus,
+  };
+}
+
+export default useMigrationStatus;
@@ -0,0 +1,305 @@
+/**
+ * useMixer Hook
+ * DarkPoolMixer deposits and withdrawals with notes kept in the privacy vault
+ * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { Account, validateAndParseAddress } from 'starknet';
+import { CONTRACT_ERROR_CODES, StoredMixerNote } from '../@types/privacy';
+import { getCurrentNetwork } from '../config/contracts';
+import { getContractService, TransactionResult } from '../services/contractService';
+import {
+  getMixerService,
+  MixerService,
+  MixerTerms,
+  MixerWithdrawalQuote,
+} from '../services/mixerService';
+import { getPrivacyVault } from '../services/privacyVault';
+import {
+  MixerNote,
+  formatMixerNote,
+  generateMixerNote,
+  getMixerNoteFileName,
+  parseMixerNote,
+} from '../utils/mixerNote';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseMixerOptions {
+  token: string;
+  tokenSymbol: string;
+}
+
+export interface UseMixerReturn {
+  terms: MixerTerms | null;
+  isLoadingTerms: boolean;
+  /** Notes stored in the vault for the connected wallet (empty while locked) */
+  notes: StoredMixerNote[];
+  isDepositing: boolean;
+  isWithdrawing: boolean;
+  error: string | null;
+  quoteWithdrawal: (amount: bigint) => MixerWithdrawalQuote | null;
+  /** Deposit and return the stored note; the note is saved before the transaction is sent */
+  deposit: (amount: bigint) => Promise<StoredMixerNote | null>;
+  /** Withdraw a serialized note to any recipient */
+  withdraw: (note: string, recipient: string) => Promise<TransactionResult | null>;
+  downloadNote: (note: StoredMixerNote) => void;
+  refreshTerms: () => Promise<void>;
+  clearError: () => void;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const NOTES_COLLECTION = 'notes';
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const isRejection = (message: string): boolean =>
+  message.includes('rejected') || message.includes('denied');
+
+/**
+ * Contract and validation errors carry the Cairo short-string code
+ */
+const toErrorMessage = (err: any, fallback: string): string => {
+  const message: string = err?.message || fallback;
+  if (isRejection(message)) {
+    return 'İşlem cüzdan tarafından reddedildi';
+  }
+  const code = Object.keys(CONTRACT_ERROR_CODES).find((known) => message.includes(known));
+  return code ? CONTRACT_ERROR_CODES[code] : message;
+};
+
+const toStoredNote = (note: MixerNote, tokenSymbol: string): StoredMixerNote => ({
+  commitment: note.commitment,
+  note: formatMixerNote(note),
+  tokenSymbol,
+  status: 'pending',
+  createdAt: Date.now(),
+});
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useMixer(options: UseMixerOptions): UseMixerReturn {
+  const { token, tokenSymbol } = options;
+  const { address: walletAddress, account } = useAccount();
+
+  const [terms, setTerms] = useState<MixerTerms | null>(null);
+  const [isLoadingTerms, setIsLoadingTerms] = useState(false);
+  const [notes, setNotes] = useState<StoredMixerNote[]>([]);
+  const [isDepositing, setIsDepositing] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const contractService = useMemo(() => getContractService(), []);
+
+  // Keep the contract service signing with the connected wallet
+  useEffect(() => {
+    if (account) {
+      contractService.setAccount(account as unknown as Account);
+    }
+  }, [account, contractService]);
+
+  const refreshTerms = useCallback(async () => {
+    setIsLoadingTerms(true);
+    try {
+      setTerms(await getMixerService().getTerms(token));
+    } catch (err: any) {
+      setError(toErrorMessage(err, 'Failed to load mixer terms'));
+      console.error('Mixer terms error:', err);
+    } finally {
+      setIsLoadingTerms(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    refreshTerms();
+  }, [refreshTerms]);
+
+  // Load notes from the vault (empty while it is locked)
+  const loadNotes = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!walletAddress || !vault.isUnlocked(walletAddress)) {
+      setNotes([]);
+      return;
+    }
+
+    try {
+      setNotes(await vault.read<StoredMixerNote[]>(walletAddress, NOTES_COLLECTION, []));
+    } catch (err) {
+      console.error('Failed to load mixer notes:', err);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    loadNotes();
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null || collection === NOTES_COLLECTION) {
+        loadNotes();
+      }
+    });
+  }, [walletAddress, loadNotes]);
+
+  // Read-modify-write so concurrent updates from other tabs are not lost
+  const updateNotes = useCallback(
+    async (update: (current: StoredMixerNote[]) => StoredMixerNote[]) => {
+      if (!walletAddress) return;
+      const vault = getPrivacyVault();
+      const current = await vault.read<StoredMixerNote[]>(walletAddress, NOTES_COLLECTION, []);
+      await vault.write(walletAddress, NOTES_COLLECTION, update(current));
+    },
+    [walletAddress]
+  );
+
+  const quoteWithdrawal = useCallback(
+    (amount: bigint): MixerWithdrawalQuote | null =>
+      terms ? MixerService.quoteWithdrawal(amount, terms.feeBps) : null,
+    [terms]
+  );
+
+  const deposit = useCallback(
+    async (amount: bigint): Promise<StoredMixerNote | null> => {
+      if (!walletAddress || !account) {
+        setError('Wallet not connected');
+        return null;
+      }
+
+      setIsDepositing(true);
+      setError(null);
+
+      let stored: StoredMixerNote | null = null;
+      try {
+        const current = terms ?? (await getMixerService().getTerms(token));
+        if (!current.isTokenSupported) throw new Error('TOKEN_NOT_SUPPORTED');
+        if (amount < current.minDeposit) throw new Error('AMOUNT_TOO_LOW');
+        if (amount > current.maxDeposit) throw new Error('AMOUNT_TOO_HIGH');
+
+        // The note must be safe before funds move
+        const vault = getPrivacyVault();
+        if (!vault.isUnlocked(walletAddress)) {
+          await vault.unlock(account, walletAddress);
+        }
+
+        const note = generateMixerNote(getCurrentNetwork(), token, amount);
+        const pending = toStoredNote(note, tokenSymbol);
+        stored = pending;
+        await updateNotes((existing) => [pending, ...existing]);
+
+        const result = await contractService.depositToMixer(token, amount, note.commitment);
+        const deposited: StoredMixerNote = {
+          ...pending,
+          note: formatMixerNote({ ...note, leafIndex: result.leafIndex }),
+          status: 'deposited',
+          depositTxHash: result.hash,
+        };
+        await updateNotes((existing) =>
+          existing.map((item) => (item.commitment === deposited.commitment ? deposited : item))
+        );
+        return deposited;
+      } catch (err: any) {
+        // Keep pending notes unless the wallet refused to send the deposit
+        const rejected = stored && isRejection(err?.message || '');
+        if (rejected) {
+          const { commitment } = stored as StoredMixerNote;
+          await updateNotes((existing) => existing.filter((item) => item.commitment !== commitment));
+        }
+        setError(toErrorMessage(err, 'Failed to deposit'));
+        console.error('Mixer deposit error:', err);
+        return null;
+      } finally {
+        setIsDepositing(false);
+      }
+    },
+    [walletAddress, account, terms, token, tokenSymbol, updateNotes, contractService]
+  );
+
+  const withdraw = useCallback(
+    async (noteValue: string, recipient: string): Promise<TransactionResult | null> => {
+      if (!walletAddress || !account) {
+        setError('Wallet not connected');
+        return null;
+      }
+
+      setIsWithdrawing(true);
+      setError(null);
+
+      try {
+        const note = parseMixerNote(noteValue);
+        if (note.network !== getCurrentNetwork()) {
+          throw new Error(`Note belongs to ${note.network}`);
+        }
+        const recipientAddress = validateAndParseAddress(recipient);
+
+        const proof = await getMixerService().buildWithdrawalProof(note);
+        const result = await contractService.withdrawFromMixer({
+          token: note.token,
+          amount: note.amount,
+          nullifier: note.nullifier,
+          recipient: recipientAddress,
+          commitment: note.commitment,
+          ...proof,
+        });
+
+        if (getPrivacyVault().isUnlocked(walletAddress)) {
+          await updateNotes((existing) =>
+            existing.map((item) =>
+              BigInt(item.commitment) === BigInt(note.commitment)
+                ? { ...item, status: 'withdrawn', withdrawTxHash: result.hash }
+                : item
+            )
+          );
+        }
+        return result;
+      } catch (err: any) {
+        setError(toErrorMessage(err, 'Failed to withdraw'));
+        console.error('Mixer withdraw error:', err);
+        return null;
+      } finally {
+        setIsWithdrawing(false);
+      }
+    },
+    [walletAddress, account, updateNotes, contractService]
+  );
+
+  const downloadNote = useCallback((stored: StoredMixerNote) => {
+    const blob = new Blob([stored.note], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getMixerNoteFileName(parseMixerNote(stored.note));
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    terms,
+    isLoadingTerms,
+    notes,
+    isDepositing,
+    isWithdrawing,
+    error,
+    quoteWithdrawal,
+    deposit,
+    withdraw,
+    downloadNote,
+    refreshTerms,
+    clearError,
+  };
+}
+
+export default useMixer;
@@ -0,0 +1,148 @@
+/**
+ * usePrivacyVault Hook
+ * Lock state, encrypted backups and seed recovery for the privacy vault
+ * Requirements: 2.1, 10.2, 10.3, 10.4
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { getPrivacyVault } from '../services/privacyVault';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UsePrivacyVaultReturn {
+  isUnlocked: boolean;
+  isBusy: boolean;
+  error: string | null;
+  /** Seed to write down; null while locked */
+  recoverySeed: string | null;
+  unlock: () => Promise<boolean>;
+  lock: () => void;
+  /** Download the encrypted backup file */
+  exportBackup: () => Promise<void>;
+  /** Returns the number of restored collections */
+  importBackup: (file: File) => Promise<number>;
+  restoreFromSeed: (seed: string) => Promise<boolean>;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function usePrivacyVault(): UsePrivacyVaultReturn {
+  const { address: walletAddress, account } = useAccount();
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [recoverySeed, setRecoverySeed] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const syncState = useCallback(() => {
+    const vault = getPrivacyVault();
+    setIsUnlocked(walletAddress ? vault.isUnlocked(walletAddress) : false);
+    setRecoverySeed(walletAddress ? vault.getRecoverySeed(walletAddress) : null);
+  }, [walletAddress]);
+
+  useEffect(() => {
+    syncState();
+    return getPrivacyVault().subscribe((_, collection) => {
+      if (collection === null) syncState();
+    });
+  }, [syncState]);
+
+  // Run a vault action with shared busy/error handling
+  const run = useCallback(
+    async <T>(action: () => Promise<T>, fallback: T, failure: string): Promise<T> => {
+      if (!walletAddress || !account) {
+        setError('Wallet not connected');
+        return fallback;
+      }
+
+      setIsBusy(true);
+      setError(null);
+      try {
+        return await action();
+      } catch (err: any) {
+        setError(err?.message || failure);
+        console.error(`${failure}:`, err);
+        return fallback;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [walletAddress, account]
+  );
+
+  const unlock = useCallback(
+    () =>
+      run(
+        async () => {
+          await getPrivacyVault().unlock(account!, walletAddress!);
+          return true;
+        },
+        false,
+        'Failed to unlock vault'
+      ),
+    [run, account, walletAddress]
+  );
+
+  const lock = useCallback(() => {
+    if (walletAddress) getPrivacyVault().lock(walletAddress);
+  }, [walletAddress]);
+
+  const exportBackup = useCallback(
+    () =>
+      run(
+        async () => {
+          const blob = await getPrivacyVault().exportBackup(walletAddress!);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `zump-vault-${walletAddress!.slice(0, 10)}-${Date.now()}.json`;
+          link.click();
+          URL.revokeObjectURL(url);
+        },
+        undefined,
+        'Failed to export backup'
+      ),
+    [run, walletAddress]
+  );
+
+  const importBackup = useCallback(
+    (file: File) =>
+      run(
+        async () => getPrivacyVault().importBackup(walletAddress!, await file.text()),
+        0,
+        'Failed to import backup'
+      ),
+    [run, walletAddress]
+  );
+
+  const restoreFromSeed = useCallback(
+    (seed: string) =>
+      run(
+        async () => {
+          await getPrivacyVault().restoreFromSeed(account!, walletAddress!, seed);
+          return true;
+        },
+        false,
+        'Failed to restore from seed'
+      ),
+    [run, account, walletAddress]
+  );
+
+  return {
+    isUnlocked,
+    isBusy,
+    error,
+    recoverySeed,
+    unlock,
+    lock,
+    exportBackup,
+    importBackup,
+    restoreFromSeed,
+  };
+}
+
+export default usePrivacyVault;
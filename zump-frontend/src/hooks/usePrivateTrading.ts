@@ -0,0 +1,552 @@
+/**
+ * usePrivateTrading Hook
+ * Private buys and sells through BondingCurvePool.private_buy/private_sell
+ * Each buy is a position whose secret and nullifier live in the privacy
+ * vault; selling it spends the nullifier. Trades are recorded in the
+ * transaction history under one of the user's stealth view tags.
+ * Buys can also go through the relayer, paid from a mixer note, so the
+ * wallet never sends the transaction. Proofs come from useProver and can
+ * be cancelled before anything is saved or sent.
+ * Requirements: 6.1, 6.2, 6.4
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { Account } from 'starknet';
+import {
+  PrivateTransaction,
+  StealthAddress,
+  StoredMixerNote,
+  StoredPrivatePosition,
+} from '../@types/privacy';
+import { getCurrentNetwork, getRelayerUrl } from '../config/contracts';
+import { getContractService, TransactionResult } from '../services/contractService';
+import { getMixerService, MixerService } from '../services/mixerService';
+import { getPrivacyVault } from '../services/privacyVault';
+import { getPrivateTradeService } from '../services/privateTradeService';
+import { ProofProgress } from '../services/proofProvider';
+import { RelayJobStatus, RelayerQuote, getRelayerClient } from '../services/relayerClient';
+import { MixerNote, parseMixerNote } from '../utils/mixerNote';
+import { PrivateTradeNote, generatePrivateTradeNote } from '../utils/privateTradeNote';
+import {
+  ERROR_MESSAGES,
+  SlippageExceededError,
+  TradingError,
+  parseContractError,
+} from '../utils/tradingErrors';
+import { useProver } from './useProver';
+import { useStealthAddress } from './useStealthAddress';
+import { useTransactionHistory } from './useTransactionHistory';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UsePrivateTradingOptions {
+  poolAddress: string;
+  tokenAddress: string;
+  tokenSymbol: string;
+  onSuccess?: (result: TransactionResult) => void;
+}
+
+export interface UsePrivateTradingReturn {
+  /** Whether the pool accepts private trades (null while loading) */
+  isPrivateEnabled: boolean | null;
+  /** Unsold positions in this pool (empty while the vault is locked) */
+  positions: StoredPrivatePosition[];
+  isSubmitting: boolean;
+  error: TradingError | null;
+  /** Buy privately; the position is saved before the transaction is sent */
+  privateBuy: (amount: bigint, maxCost?: bigint) => Promise<TransactionResult | null>;
+  /** Sell a whole position, spending its nullifier */
+  privateSell: (commitment: string, minReturn?: bigint) => Promise<TransactionResult | null>;
+  /** Whether REACT_APP_RELAYER_URL is set */
+  isRelayerAvailable: boolean;
+  /** Latest relayer quote from getRelayQuote */
+  relayQuote: RelayerQuote | null;
+  /** Status of the relayed buy in flight, if any */
+  relayStatus: RelayJobStatus | null;
+  getRelayQuote: (amount: bigint) => Promise<RelayerQuote | null>;
+  /** Buy privately through the relayer, paid from a deposited mixer note */
+  relayedBuy: (amount: bigint, maxCost?: bigint) => Promise<TransactionResult | null>;
+  /** Progress of the proof being generated for the trade in flight */
+  proofProgress: ProofProgress | null;
+  /** Stop generating the proof; the trade fails with PROOF_CANCELLED */
+  cancelProof: () => void;
+  clearError: () => void;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const POSITIONS_COLLECTION = 'privatePositions';
+const STEALTH_COLLECTION = 'stealthAddresses';
+const NOTES_COLLECTION = 'notes';
+
+// How long the relayer may hold a request before it must be re-signed
+const RELAY_REQUEST_TTL_SECONDS = 120;
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const isRejection = (message: string): boolean =>
+  message.includes('rejected') || message.includes('denied');
+
+const toNote = (position: StoredPrivatePosition): PrivateTradeNote => ({
+  poolAddress: position.poolAddress,
+  amount: BigInt(position.amount),
+  nullifier: position.nullifier,
+  secret: position.secret,
+  commitment: position.commitment,
+});
+
+/**
+ * Smallest deposited note in the quote token that still covers the buy
+ * after the mixer fee, so larger notes stay available
+ */
+const pickFundingNote = (
+  stored: StoredMixerNote[],
+  token: string,
+  required: bigint,
+  mixerFeeBps: bigint
+): MixerNote | null => {
+  const network = getCurrentNetwork();
+  const candidates = stored
+    .filter((item) => item.status === 'deposited')
+    .map((item) => parseMixerNote(item.note))
+    .filter(
+      (note) =>
+        note.network === network &&
+        BigInt(note.token) === BigInt(token) &&
+        MixerService.quoteWithdrawal(note.amount, mixerFeeBps).amountAfterFee >= required
+    )
+    .sort((a, b) => (a.amount < b.amount ? -1 : Number(a.amount > b.amount)));
+  return candidates[0] ?? null;
+};
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function usePrivateTrading(options: UsePrivateTradingOptions): UsePrivateTradingReturn {
+  const { poolAddress, tokenAddress, tokenSymbol, onSuccess } = options;
+  const { address: walletAddress, account } = useAccount();
+  const { generateStealthAddress } = useStealthAddress();
+  const { addTransaction } = useTransactionHistory();
+  const { prove, progress: proofProgress, cancel: cancelProof } = useProver();
+
+  const [isPrivateEnabled, setIsPrivateEnabled] = useState<boolean | null>(null);
+  const [allPositions, setAllPositions] = useState<StoredPrivatePosition[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<TradingError | null>(null);
+  const [relayQuote, setRelayQuote] = useState<RelayerQuote | null>(null);
+  const [relayStatus, setRelayStatus] = useState<RelayJobStatus | null>(null);
+
+  const isRelayerAvailable = getRelayerUrl() !== null;
+  const contractService = useMemo(() => getContractService(), []);
+
+  // Keep the contract service signing with the connected wallet
+  useEffect(() => {
+    if (account) {
+      contractService.setAccount(account as unknown as Account);
+    }
+  }, [account, contractService]);
+
+  // The toggle is only offered when the pool has private trades switched on
+  useEffect(() => {
+    let cancelled = false;
+    setIsPrivateEnabled(null);
+    if (!poolAddress) return undefined;
+
+    contractService
+      .isPrivateTradesEnabled(poolAddress)
+      .then((enabled) => {
+        if (!cancelled) setIsPrivateEnabled(enabled);
+      })
+      .catch((err) => {
+        console.error('Failed to read private trade status:', err);
+        if (!cancelled) setIsPrivateEnabled(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poolAddress, contractService]);
+
+  // Load positions from the vault (empty while it is locked)
+  const loadPositions = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!walletAddress || !vault.isUnlocked(walletAddress)) {
+      setAllPositions([]);
+      return;
+    }
+
+    try {
+      setAllPositions(
+        await vault.read<StoredPrivatePosition[]>(walletAddress, POSITIONS_COLLECTION, [])
+      );
+    } catch (err) {
+      console.error('Failed to load private positions:', err);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    loadPositions();
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null || collection === POSITIONS_COLLECTION) {
+        loadPositions();
+      }
+    });
+  }, [walletAddress, loadPositions]);
+
+  const positions = useMemo(
+    () =>
+      poolAddress
+        ? allPositions.filter(
+            (position) =>
+              position.status === 'open' && BigInt(position.poolAddress) === BigInt(poolAddress)
+          )
+        : [],
+    [allPositions, poolAddress]
+  );
+
+  // Read-modify-write so concurrent updates from other tabs are not lost
+  const updatePositions = useCallback(
+    async (update: (current: StoredPrivatePosition[]) => StoredPrivatePosition[]) => {
+      if (!walletAddress) return;
+      const vault = getPrivacyVault();
+      const current = await vault.read<StoredPrivatePosition[]>(walletAddress, POSITIONS_COLLECTION, []);
+      await vault.write(walletAddress, POSITIONS_COLLECTION, update(current));
+    },
+    [walletAddress]
+  );
+
+  /**
+   * Unlock the vault and pick the view tag trades are recorded under:
+   * the newest stealth address, or a fresh one when there is none
+   */
+  const prepareVault = useCallback(async (): Promise<string> => {
+    if (!walletAddress || !account) {
+      throw new Error(ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED);
+    }
+
+    const vault = getPrivacyVault();
+    if (!vault.isUnlocked(walletAddress)) {
+      await vault.unlock(account, walletAddress);
+    }
+
+    const known = await vault.read<StealthAddress[]>(walletAddress, STEALTH_COLLECTION, []);
+    const stealth = known.length > 0 ? known[known.length - 1] : await generateStealthAddress();
+    if (!stealth) {
+      throw new Error('Failed to generate stealth address');
+    }
+    return stealth.viewTag;
+  }, [walletAddress, account, generateStealthAddress]);
+
+  /**
+   * Save a note as a pending position; the secret must be safe before funds move
+   */
+  const savePendingPosition = useCallback(
+    async (note: PrivateTradeNote, viewTag: string) => {
+      const position: StoredPrivatePosition = {
+        commitment: note.commitment,
+        poolAddress: note.poolAddress,
+        tokenSymbol,
+        amount: note.amount.toString(),
+        nullifier: note.nullifier,
+        secret: note.secret,
+        status: 'pending',
+        viewTag,
+        createdAt: Date.now(),
+      };
+      await updatePositions((existing) => [position, ...existing]);
+      return position;
+    },
+    [tokenSymbol, updatePositions]
+  );
+
+  const markPositionOpen = useCallback(
+    (commitment: string, buyTxHash: string) =>
+      updatePositions((existing) =>
+        existing.map((item) =>
+          item.commitment === commitment ? { ...item, status: 'open', buyTxHash } : item
+        )
+      ),
+    [updatePositions]
+  );
+
+  const record = useCallback(
+    (type: PrivateTransaction['type'], position: StoredPrivatePosition, commitment: string, txHash: string) => {
+      addTransaction({
+        type,
+        amount: position.amount,
+        token: tokenAddress,
+        tokenSymbol: position.tokenSymbol,
+        commitment,
+        viewTag: position.viewTag,
+        timestamp: Date.now(),
+        status: 'confirmed',
+        txHash,
+      });
+    },
+    [addTransaction, tokenAddress]
+  );
+
+  const reportError = useCallback((err: unknown) => {
+    const tradingError = parseContractError(err);
+    setError(tradingError);
+  }, []);
+
+  const privateBuy = useCallback(
+    async (amount: bigint, maxCost?: bigint): Promise<TransactionResult | null> => {
+      if (!walletAddress || !account) {
+        setError({ code: 'ACCOUNT_NOT_CONNECTED', message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED });
+        return null;
+      }
+
+      setIsSubmitting(true);
+      setError(null);
+
+      let pending: StoredPrivatePosition | null = null;
+      try {
+        const viewTag = await prepareVault();
+        const note = generatePrivateTradeNote(poolAddress, amount);
+        const proof = await prove(await getPrivateTradeService().buildBuyRequest(note));
+        const position = await savePendingPosition(note, viewTag);
+        pending = position;
+
+        const result = await contractService.privateBuy(
+          poolAddress,
+          amount,
+          proof,
+          note.commitment,
+          maxCost
+        );
+
+        await markPositionOpen(position.commitment, result.hash);
+        record('buy', position, note.commitment, result.hash);
+        onSuccess?.(result);
+        return result;
+      } catch (err: any) {
+        // Keep pending positions unless the buy never left the wallet
+        if (pending && isRejection(err?.message || '')) {
+          const { commitment } = pending;
+          await updatePositions((existing) => existing.filter((item) => item.commitment !== commitment));
+        }
+        console.error('Private buy failed:', err);
+        reportError(err);
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [walletAddress, account, poolAddress, prepareVault, prove, savePendingPosition, markPositionOpen, updatePositions, contractService, record, reportError, onSuccess]
+  );
+
+  const privateSell = useCallback(
+    async (commitment: string, minReturn?: bigint): Promise<TransactionResult | null> => {
+      if (!walletAddress || !account) {
+        setError({ code: 'ACCOUNT_NOT_CONNECTED', message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED });
+        return null;
+      }
+
+      setIsSubmitting(true);
+      setError(null);
+
+      try {
+        await prepareVault();
+        const current = await getPrivacyVault().read<StoredPrivatePosition[]>(
+          walletAddress,
+          POSITIONS_COLLECTION,
+          []
+        );
+        const position = current.find((item) => item.commitment === commitment);
+        if (!position || position.status !== 'open') {
+          throw new Error('Private position not found');
+        }
+
+        const note = toNote(position);
+        const proof = await prove(await getPrivateTradeService().buildSellRequest(note));
+        const result = await contractService.privateSell(
+          poolAddress,
+          note.amount,
+          proof,
+          note.nullifier,
+          minReturn
+        );
+
+        await updatePositions((existing) =>
+          existing.map((item) =>
+            item.commitment === commitment
+              ? { ...item, status: 'sold', sellTxHash: result.hash }
+              : item
+          )
+        );
+        // PrivateSell is emitted with the nullifier in its commitment field
+        record('sell', position, note.nullifier, result.hash);
+        onSuccess?.(result);
+        return result;
+      } catch (err) {
+        console.error('Private sell failed:', err);
+        reportError(err);
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [walletAddress, account, poolAddress, prepareVault, prove, updatePositions, contractService, record, reportError, onSuccess]
+  );
+
+  const getRelayQuote = useCallback(
+    async (amount: bigint): Promise<RelayerQuote | null> => {
+      const client = getRelayerClient();
+      if (!client || !poolAddress || amount <= BigInt(0)) {
+        setRelayQuote(null);
+        return null;
+      }
+
+      try {
+        const quote = await client.getQuote(poolAddress, amount);
+        setRelayQuote(quote);
+        return quote;
+      } catch (err) {
+        console.error('Failed to get relayer quote:', err);
+        setRelayQuote(null);
+        return null;
+      }
+    },
+    [poolAddress]
+  );
+
+  /**
+   * The relayer withdraws a mixer note to itself, buys with it and forwards
+   * the tokens and the unspent remainder to the wallet. The wallet only
+   * signs the vault unlock.
+   */
+  const relayedBuy = useCallback(
+    async (amount: bigint, maxCost?: bigint): Promise<TransactionResult | null> => {
+      if (!walletAddress || !account) {
+        setError({ code: 'ACCOUNT_NOT_CONNECTED', message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED });
+        return null;
+      }
+
+      setIsSubmitting(true);
+      setError(null);
+      setRelayStatus(null);
+
+      let pending: StoredPrivatePosition | null = null;
+      let relayTxHash: string | undefined;
+      try {
+        const client = getRelayerClient();
+        if (!client) throw new Error('RELAYER_NOT_CONFIGURED');
+
+        const viewTag = await prepareVault();
+        const quote = await client.getQuote(poolAddress, amount);
+        setRelayQuote(quote);
+        const costBound = maxCost ?? quote.cost;
+        if (quote.cost > costBound) {
+          throw new SlippageExceededError({ side: 'buy', quoted: quote.cost, bound: costBound });
+        }
+
+        const vault = getPrivacyVault();
+        const [storedNotes, terms] = await Promise.all([
+          vault.read<StoredMixerNote[]>(walletAddress, NOTES_COLLECTION, []),
+          getMixerService().getTerms(quote.quoteToken),
+        ]);
+        const funding = pickFundingNote(storedNotes, quote.quoteToken, costBound + quote.fee, terms.feeBps);
+        if (!funding) throw new Error('NO_FUNDING_NOTE');
+
+        const path = await getMixerService().buildWithdrawalProof(funding);
+        const note = generatePrivateTradeNote(poolAddress, amount);
+        const proof = await prove(await getPrivateTradeService().buildBuyRequest(note));
+        const position = await savePendingPosition(note, viewTag);
+        pending = position;
+
+        const submitted = await client.submit({
+          launchId: quote.launchId,
+          pool: poolAddress,
+          amountTokens: amount,
+          commitment: note.commitment,
+          proof,
+          funding: {
+            token: funding.token,
+            amount: funding.amount,
+            nullifier: funding.nullifier,
+            commitment: funding.commitment,
+            ...path,
+          },
+          recipient: walletAddress,
+          maxCost: costBound,
+          maxFee: quote.fee,
+          expiresAt: Math.floor(Date.now() / 1000) + RELAY_REQUEST_TTL_SECONDS,
+        });
+        setRelayStatus(submitted.status);
+
+        const job = await client.waitForJob(submitted.id, {
+          onUpdate: (update) => {
+            relayTxHash = update.txHash;
+            setRelayStatus(update.status);
+          },
+        });
+        const hash = job.txHash as string;
+
+        await markPositionOpen(position.commitment, hash);
+        // The relayer spent the funding note's nullifier in the same transaction
+        const notesAfter = await vault.read<StoredMixerNote[]>(walletAddress, NOTES_COLLECTION, []);
+        await vault.write(
+          walletAddress,
+          NOTES_COLLECTION,
+          notesAfter.map((item) =>
+            BigInt(item.commitment) === BigInt(funding.commitment)
+              ? { ...item, status: 'withdrawn', withdrawTxHash: hash }
+              : item
+          )
+        );
+        record('buy', position, note.commitment, hash);
+
+        const result: TransactionResult = { hash, status: 'confirmed' };
+        onSuccess?.(result);
+        return result;
+      } catch (err) {
+        // Keep pending positions once a transaction exists; otherwise nothing moved
+        if (pending && !relayTxHash) {
+          const { commitment } = pending;
+          await updatePositions((existing) => existing.filter((item) => item.commitment !== commitment));
+        }
+        console.error('Relayed private buy failed:', err);
+        reportError(err);
+        return null;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [walletAddress, account, poolAddress, prepareVault, prove, savePendingPosition, markPositionOpen, updatePositions, record, reportError, onSuccess]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    isPrivateEnabled,
+    positions,
+    isSubmitting,
+    error,
+    privateBuy,
+    privateSell,
+    isRelayerAvailable,
+    relayQuote,
+    relayStatus,
+    getRelayQuote,
+    relayedBuy,
+    proofProgress,
+    cancelProof,
+    clearError,
+  };
+}
+
+export default usePrivateTrading;
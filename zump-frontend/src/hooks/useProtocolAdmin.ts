@@ -0,0 +1,193 @@
+/**
+ * useProtocolAdmin Hook
+ * Owner-gated protocol administration: which contracts the connected wallet
+ * owns, their current settings, and a queue of changes sent as one multicall
+ * Requirements: 9.2, 9.3, 9.4
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { Account } from 'starknet';
+import { getContractService, TransactionResult } from '../services/contractService';
+import {
+  AdminActionId,
+  AdminChange,
+  AdminContractId,
+  AdminFormValues,
+  AdminOwnership,
+  AdminSnapshot,
+  getAdminService,
+} from '../services/adminService';
+import { getLaunchValidationService } from '../services/launchValidation';
+import { ERROR_MESSAGES, TradingError, parseContractError } from '../utils/tradingErrors';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseProtocolAdminReturn {
+  ownerships: AdminOwnership[];
+  /** True when the wallet owns at least one admin contract */
+  isOwner: boolean;
+  isOwnerOf: (contract: AdminContractId) => boolean;
+  snapshot: AdminSnapshot;
+  isLoading: boolean;
+  /** Queued changes, in the order they will run */
+  changes: AdminChange[];
+  isPreparing: boolean;
+  isSubmitting: boolean;
+  lastResult: TransactionResult | null;
+  error: TradingError | null;
+  clearError: () => void;
+  refresh: () => Promise<void>;
+  /**
+   * Diff a form against the chain and queue it; replaces a queued change to
+   * the same setter (or the same address for authorizations)
+   */
+  queueChange: (actionId: AdminActionId, form: AdminFormValues) => Promise<AdminChange | null>;
+  removeChange: (key: string) => void;
+  clearChanges: () => void;
+  /** Send every queued change in one multicall */
+  submitChanges: () => Promise<TransactionResult | null>;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useProtocolAdmin(): UseProtocolAdminReturn {
+  const { account, address } = useAccount();
+  const adminService = useMemo(() => getAdminService(), []);
+  const contractService = useMemo(() => getContractService(), []);
+
+  const [ownerships, setOwnerships] = useState<AdminOwnership[]>([]);
+  const [snapshot, setSnapshot] = useState<AdminSnapshot>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [changes, setChanges] = useState<AdminChange[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastResult, setLastResult] = useState<TransactionResult | null>(null);
+  const [error, setError] = useState<TradingError | null>(null);
+
+  // Keep the contract service signing with the connected wallet
+  useEffect(() => {
+    if (account) {
+      contractService.setAccount(account as unknown as Account);
+    }
+  }, [account, contractService]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextOwnerships, nextSnapshot] = await Promise.all([
+        adminService.getOwnerships(address),
+        adminService.getSnapshot(),
+      ]);
+      setOwnerships(nextOwnerships);
+      setSnapshot(nextSnapshot);
+    } catch (err) {
+      console.error('Failed to load admin state:', err);
+      setError(parseContractError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adminService, address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Queued calls were checked against the previous wallet's ownership
+  useEffect(() => {
+    setChanges([]);
+  }, [address]);
+
+  const isOwnerOf = useCallback(
+    (contract: AdminContractId) => ownerships.some((item) => item.contract === contract && item.isOwner),
+    [ownerships]
+  );
+
+  const queueChange = useCallback(async (actionId: AdminActionId, form: AdminFormValues): Promise<AdminChange | null> => {
+    setIsPreparing(true);
+    setError(null);
+
+    try {
+      const change = await adminService.prepareChange(actionId, form);
+      setChanges((prev) => {
+        const index = prev.findIndex((item) => item.key === change.key);
+        if (index === -1) return [...prev, change];
+        return prev.map((item, i) => (i === index ? change : item));
+      });
+      return change;
+    } catch (err) {
+      console.error('Failed to prepare admin change:', err);
+      setError(parseContractError(err));
+      return null;
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [adminService]);
+
+  const removeChange = useCallback((key: string) => {
+    setChanges((prev) => prev.filter((item) => item.key !== key));
+  }, []);
+
+  const clearChanges = useCallback(() => {
+    setChanges([]);
+  }, []);
+
+  const submitChanges = useCallback(async (): Promise<TransactionResult | null> => {
+    if (!account || !address) {
+      setError({
+        code: 'ACCOUNT_NOT_CONNECTED',
+        message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED,
+      });
+      return null;
+    }
+    if (changes.length === 0) return null;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await adminService.submitChanges(changes, ownerships);
+      setLastResult(result);
+      setChanges([]);
+      // Launch forms validate against the curve limits and fee just changed
+      getLaunchValidationService().getLimits(true).catch(() => undefined);
+      await refresh();
+      return result;
+    } catch (err) {
+      console.error('Admin multicall failed:', err);
+      setError(parseContractError(err));
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [account, address, changes, ownerships, adminService, refresh]);
+
+  return {
+    ownerships,
+    isOwner: ownerships.some((item) => item.isOwner),
+    isOwnerOf,
+    snapshot,
+    isLoading,
+    changes,
+    isPreparing,
+    isSubmitting,
+    lastResult,
+    error,
+    clearError,
+    refresh,
+    queueChange,
+    removeChange,
+    clearChanges,
+    submitChanges,
+  };
+}
+
+export default useProtocolAdmin;
@@ -0,0 +1,101 @@
+import { act, renderHook } from '@testing-library/react';
+import { ProofProvider, ProofRequest, ProveOptions } from '../services/proofProvider';
+import { ZKProof } from '../utils/zkProof';
+import { useProver } from './useProver';
+
+// Keeps starknet (and its TextEncoder use) out of the jsdom environment
+jest.mock('../services/proofProvider', () => ({ getProofProvider: jest.fn() }));
+
+const REQUEST = {
+  proofType: 1,
+  publicInputHash: '0x1234',
+  merkleRoot: '0x7007',
+  nullifierHash: '0x4a11',
+  timestamp: 1760000000,
+  witness: {},
+} as ProofRequest;
+
+/**
+ * Provider whose proofs stay pending until resolved, aborting like the
+ * worker provider does
+ */
+class PendingProvider implements ProofProvider {
+  readonly name = 'pending';
+
+  readonly calls: { options: ProveOptions; resolve: (proof: ZKProof) => void }[] = [];
+
+  prove(_request: ProofRequest, options: ProveOptions = {}): Promise<ZKProof> {
+    return new Promise<ZKProof>((resolve, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new Error('PROOF_CANCELLED')));
+      this.calls.push({ options, resolve });
+    });
+  }
+}
+
+const PROOF = { nullifierHash: '0x4a11' } as ZKProof;
+
+describe('useProver', () => {
+  it('cancels the proof in flight and resets its state', async () => {
+    const provider = new PendingProvider();
+    const { result } = renderHook(() => useProver({ provider }));
+
+    let proving!: Promise<ZKProof>;
+    act(() => {
+      proving = result.current.prove(REQUEST);
+    });
+    const settled = expect(proving).rejects.toThrow('PROOF_CANCELLED');
+
+    act(() => provider.calls[0].options.onProgress?.({ stage: 'proving', progress: 0.5 }));
+    expect(result.current.isProving).toBe(true);
+    expect(result.current.progress).toEqual({ stage: 'proving', progress: 0.5 });
+
+    await act(async () => {
+      result.current.cancel();
+      await settled;
+    });
+
+    expect(provider.calls[0].options.signal?.aborted).toBe(true);
+    expect(result.current.isProving).toBe(false);
+    expect(result.current.progress).toBeNull();
+    expect(result.current.error).toBe('PROOF_CANCELLED');
+  });
+
+  it('replaces a proof in flight without reporting its cancellation', async () => {
+    const provider = new PendingProvider();
+    const { result } = renderHook(() => useProver({ provider }));
+
+    let first!: Promise<ZKProof>;
+    let second!: Promise<ZKProof>;
+    act(() => {
+      first = result.current.prove(REQUEST);
+    });
+    const replaced = expect(first).rejects.toThrow('PROOF_CANCELLED');
+
+    await act(async () => {
+      second = result.current.prove(REQUEST);
+      await replaced;
+    });
+
+    expect(provider.calls[0].options.signal?.aborted).toBe(true);
+    expect(result.current.isProving).toBe(true);
+    expect(result.current.error).toBeNull();
+
+    await act(async () => {
+      provider.calls[1].resolve(PROOF);
+      await expect(second).resolves.toBe(PROOF);
+    });
+    expect(result.current.isProving).toBe(false);
+  });
+
+  it('aborts the prover when the component unmounts', () => {
+    const provider = new PendingProvider();
+    const { result, unmount } = renderHook(() => useProver({ provider }));
+
+    act(() => {
+      result.current.prove(REQUEST).catch(() => undefined);
+    });
+    unmount();
+
+    expect(provider.calls[0].options.signal?.aborted).toBe(true);
+  });
+});
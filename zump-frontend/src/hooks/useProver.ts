@@ -0,0 +1,104 @@
+/**
+ * useProver Hook
+ * Runs proofs through the configured proof provider with progress and
+ * cancellation. Proving happens off the main thread with the worker
+ * provider, so the UI stays responsive during long proofs.
+ * Requirements: 6.1, 6.2
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  ProofProgress,
+  ProofProvider,
+  ProofRequest,
+  getProofProvider,
+} from '../services/proofProvider';
+import { ZKProof } from '../utils/zkProof';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseProverOptions {
+  /** Defaults to getProofProvider() */
+  provider?: ProofProvider;
+}
+
+export interface UseProverReturn {
+  isProving: boolean;
+  /** Progress of the proof in flight (null when idle) */
+  progress: ProofProgress | null;
+  error: string | null;
+  /** Prove one request at a time; rejects with PROOF_CANCELLED when cancelled */
+  prove: (request: ProofRequest) => Promise<ZKProof>;
+  cancel: () => void;
+}
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useProver(options: UseProverOptions = {}): UseProverReturn {
+  const { provider } = options;
+
+  const [isProving, setIsProving] = useState(false);
+  const [progress, setProgress] = useState<ProofProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  // Stop the prover when the component using it goes away
+  useEffect(() => cancel, [cancel]);
+
+  const prove = useCallback(
+    async (request: ProofRequest): Promise<ZKProof> => {
+      // A new proof replaces the one in flight
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setIsProving(true);
+      setError(null);
+      setProgress({ stage: 'loading', progress: 0 });
+
+      try {
+        return await (provider ?? getProofProvider()).prove(request, {
+          signal: controller.signal,
+          onProgress: (update) => {
+            if (controllerRef.current === controller) setProgress(update);
+          },
+        });
+      } catch (err: any) {
+        // A proof replaced by a newer one fails quietly
+        const replaced = controllerRef.current !== null && controllerRef.current !== controller;
+        if (!replaced) {
+          setError(err?.message || 'Proof generation failed');
+        }
+        throw err;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+        }
+        if (!controllerRef.current) {
+          setIsProving(false);
+          setProgress(null);
+        }
+      }
+    },
+    [provider]
+  );
+
+  return {
+    isProving,
+    progress,
+    error,
+    prove,
+    cancel,
+  };
+}
+
+export default useProver;
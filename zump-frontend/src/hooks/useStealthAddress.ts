@@ -1,6 +1,6 @@
 /**
  * useStealthAddress Hook
- * Manages stealth address generation and storage
+ * Manages stealth address generation and storage (in the encrypted privacy vault)
  * Requirements: 2.1, 2.2, 2.3, 10.3
  */
 
@@ -10,15 +10,32 @@ import { Contract, RpcProvider } from 'starknet';
 import { StealthAddress } from '../@types/privacy';
 import { getContractAddresses, getContractConfig, isValidContractAddress } from '../config/contracts';
 import { STEALTH_ADDRESS_GENERATOR_ABI } from '../abi';
-
-// Storage key for stealth addresses
-const STEALTH_STORAGE_KEY = 'zump_stealth_addresses';
+import { findReceiptEvent } from '../utils/eventDecoder';
+import {
+  StealthKeys,
+  StealthMetaAddress,
+  computeOnChainStealthAddress,
+  createStealthPayment,
+  toMetaAddress,
+} from '../utils/stealthKeys';
+import { getPrivacyVault } from '../services/privacyVault';
+
+// Vault collection for stealth addresses
+const STEALTH_COLLECTION = 'stealthAddresses';
 
 export interface UseStealthAddressReturn {
   stealthAddresses: StealthAddress[];
   isGenerating: boolean;
   error: string | null;
   isContractAvailable: boolean;
+  /** Public keys senders pay to; null until the keys are unlocked */
+  metaAddress: StealthMetaAddress | null;
+  unlockStealthKeys: () => Promise<StealthKeys | null>;
+  /**
+   * Add addresses found elsewhere (e.g. the inbox scanner); resolves with how
+   * many were new once they are saved, and rejects when the vault write fails
+   */
+  importStealthAddresses: (entries: StealthAddress[]) => Promise<number>;
   generateStealthAddress: () => Promise<StealthAddress | null>;
   generateStealthAddressOnChain: () => Promise<StealthAddress | null>;
   removeStealthAddress: (address: string) => void;
@@ -36,6 +53,10 @@ export function useStealthAddress(): UseStealthAddressReturn {
   const [stealthAddresses, setStealthAddresses] = useState<StealthAddress[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Private keys stay in memory only; unlocking the vault re-derives them
+  const [stealthKeys, setStealthKeys] = useState<StealthKeys | null>(
+    () => (walletAddress ? getPrivacyVault().getStealthKeys(walletAddress) : null)
+  );
 
   // Get contract configuration
   const addresses = useMemo(() => getContractAddresses(), []);
@@ -60,45 +81,76 @@ export function useStealthAddress(): UseStealthAddressReturn {
     );
   }, [isContractAvailable, addresses.stealthAddressGenerator, account, provider]);
 
-  // Load stealth addresses from localStorage on mount
-  useEffect(() => {
-    if (walletAddress && isConnected) {
-      loadStealthAddresses();
-    } else {
+  // Load stealth addresses from the vault (empty while it is locked)
+  const loadStealthAddresses = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!walletAddress || !vault.isUnlocked(walletAddress)) {
       setStealthAddresses([]);
+      setStealthKeys(null);
+      return;
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [walletAddress, isConnected]);
 
-  // Load stealth addresses from localStorage
-  const loadStealthAddresses = useCallback(() => {
-    if (!walletAddress) return;
-    
     try {
-      const storageKey = `${STEALTH_STORAGE_KEY}_${walletAddress}`;
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored) as StealthAddress[];
-        setStealthAddresses(parsed);
-      }
+      setStealthKeys(vault.getStealthKeys(walletAddress));
+      setStealthAddresses(await vault.read<StealthAddress[]>(walletAddress, STEALTH_COLLECTION, []));
     } catch (err) {
       console.error('Failed to load stealth addresses:', err);
     }
   }, [walletAddress]);
 
-  // Save stealth addresses to localStorage
+  // Load stealth addresses on mount
+  useEffect(() => {
+    if (walletAddress && isConnected) {
+      loadStealthAddresses();
+    } else {
+      setStealthAddresses([]);
+      setStealthKeys(null);
+    }
+  }, [walletAddress, isConnected, loadStealthAddresses]);
+
+  // Reload when the vault is unlocked or another instance saves the list
+  useEffect(() => {
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null || collection === STEALTH_COLLECTION) {
+        loadStealthAddresses();
+      }
+    });
+  }, [walletAddress, loadStealthAddresses]);
+
+  // Save stealth addresses to the vault
   const saveStealthAddresses = useCallback((newAddresses: StealthAddress[]) => {
     if (!walletAddress) return;
-    
+
+    getPrivacyVault()
+      .write(walletAddress, STEALTH_COLLECTION, newAddresses)
+      .catch((err) => {
+        console.error('Failed to save stealth addresses:', err);
+      });
+  }, [walletAddress]);
+
+  // Unlock the vault, deriving the stealth keys (prompts once per session)
+  const unlockStealthKeys = useCallback(async (): Promise<StealthKeys | null> => {
+    if (stealthKeys) return stealthKeys;
+    if (!isConnected || !account || !walletAddress) {
+      setError('Wallet not connected');
+      return null;
+    }
+
     try {
-      const storageKey = `${STEALTH_STORAGE_KEY}_${walletAddress}`;
-      localStorage.setItem(storageKey, JSON.stringify(newAddresses));
-    } catch (err) {
-      console.error('Failed to save stealth addresses:', err);
+      const keys = await getPrivacyVault().unlock(account, walletAddress);
+      setStealthKeys(keys);
+      return keys;
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to derive stealth keys';
+      setError(errorMessage);
+      console.error('Stealth key derivation error:', err);
+      return null;
     }
-  }, [walletAddress]);
+  }, [stealthKeys, isConnected, account, walletAddress]);
 
-  // Generate a new stealth address locally (offline mode)
+  // Generate a new stealth address locally (ECDH against our own meta-address)
   const generateStealthAddress = useCallback(async (): Promise<StealthAddress | null> => {
     if (!isConnected || !walletAddress) {
       setError('Wallet not connected');
@@ -109,15 +161,15 @@ export function useStealthAddress(): UseStealthAddressReturn {
     setError(null);
 
     try {
-      // Generate random values for stealth address derivation
-      const ephemeralRandom = generateRandomFelt();
-      const viewingPubkey = generateRandomFelt();
+      const keys = await unlockStealthKeys();
+      if (!keys) return null;
 
-      // Create local stealth address
+      const payment = createStealthPayment(toMetaAddress(keys));
       const newStealthAddress: StealthAddress = {
-        address: generateLocalStealthAddress(walletAddress.toString(), stealthAddresses.length),
-        viewTag: generateViewTag(viewingPubkey, ephemeralRandom),
-        ephemeralPubkey: ephemeralRandom,
+        address: payment.address,
+        viewTag: payment.viewTag,
+        ephemeralPubkey: payment.ephemeralPubkey,
+        derivation: 'ecdh',
         createdAt: Date.now(),
       };
 
@@ -134,7 +186,7 @@ export function useStealthAddress(): UseStealthAddressReturn {
     } finally {
       setIsGenerating(false);
     }
-  }, [isConnected, walletAddress, stealthAddresses, saveStealthAddresses]);
+  }, [isConnected, walletAddress, unlockStealthKeys, stealthAddresses, saveStealthAddresses]);
 
   // Generate stealth address on-chain via contract
   const generateStealthAddressOnChain = useCallback(async (): Promise<StealthAddress | null> => {
@@ -153,16 +205,15 @@ export function useStealthAddress(): UseStealthAddressReturn {
     setError(null);
 
     try {
-      // Generate random values
-      const spendingPubkey = generateRandomFelt();
-      const viewingPubkey = generateRandomFelt();
-      const ephemeralRandom = generateRandomFelt();
+      const keys = await unlockStealthKeys();
+      if (!keys) return null;
+      const meta = toMetaAddress(keys);
 
       // Call contract to generate stealth address
       const tx = await stealthContract.invoke('generate_stealth_address', [
-        spendingPubkey,
-        viewingPubkey,
-        ephemeralRandom,
+        meta.spendingPubkey,
+        meta.viewingPubkey,
+        generateRandomFelt(),
       ]);
 
       // Wait for transaction confirmation
@@ -170,31 +221,26 @@ export function useStealthAddress(): UseStealthAddressReturn {
         retryInterval: 2000,
       });
 
-      // Extract data from events
-      let stealthAddr = '0x0';
-      let viewTag = '0x0';
-      let ephemeralPubkey = ephemeralRandom;
-
-      if (receipt && (receipt as any).events) {
-        const events = (receipt as any).events;
-        const event = events.find((e: any) => e.data && e.data.length >= 2);
-        if (event) {
-          stealthAddr = event.data[0]?.toString() || stealthAddr;
-          viewTag = event.data[1]?.toString() || viewTag;
-          ephemeralPubkey = event.data[2]?.toString() || ephemeralPubkey;
-        }
+      const event = findReceiptEvent(
+        receipt as any,
+        'StealthAddressGenerated',
+        addresses.stealthAddressGenerator
+      );
+      if (!event) {
+        throw new Error('StealthAddressGenerated event not found');
       }
 
-      // If we couldn't extract from events, generate locally
-      if (stealthAddr === '0x0') {
-        stealthAddr = generateLocalStealthAddress(walletAddress.toString(), stealthAddresses.length);
-        viewTag = generateViewTag(viewingPubkey, ephemeralRandom);
+      // The contract hashes public values only, so the result must be reproducible
+      const expected = computeOnChainStealthAddress(meta, event.ephemeralPubkey);
+      if (BigInt(expected.address) !== BigInt(event.stealthAddress)) {
+        throw new Error('On-chain stealth address does not match local derivation');
       }
 
       const newStealthAddress: StealthAddress = {
-        address: stealthAddr,
-        viewTag,
-        ephemeralPubkey,
+        address: event.stealthAddress,
+        viewTag: event.viewTag,
+        ephemeralPubkey: event.ephemeralPubkey,
+        derivation: 'onchain',
         createdAt: Date.now(),
       };
 
@@ -210,7 +256,7 @@ export function useStealthAddress(): UseStealthAddressReturn {
       
       // Fallback to local generation on error
       console.log('Falling back to local stealth address generation...');
-      return generateStealthAddress();
+      return await generateStealthAddress();
     } finally {
       setIsGenerating(false);
     }
@@ -220,9 +266,11 @@ export function useStealthAddress(): UseStealthAddressReturn {
     account,
     stealthContract,
     isContractAvailable,
+    unlockStealthKeys,
     stealthAddresses,
     saveStealthAddresses,
     provider,
+    addresses.stealthAddressGenerator,
     generateStealthAddress,
   ]);
 
@@ -249,15 +297,47 @@ export function useStealthAddress(): UseStealthAddressReturn {
     saveStealthAddresses(updatedAddresses);
   }, [stealthAddresses, saveStealthAddresses]);
 
+  // Merge addresses found elsewhere, skipping ones already in the list
+  // Read-modify-write on the vault: the list in state may predate the unlock
+  const importStealthAddresses = useCallback(async (entries: StealthAddress[]): Promise<number> => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    const vault = getPrivacyVault();
+    const current = await vault.read<StealthAddress[]>(walletAddress, STEALTH_COLLECTION, []);
+    const known = new Set(current.map((sa) => BigInt(sa.address)));
+    const fresh = entries.filter((entry) => {
+      const key = BigInt(entry.address);
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+    if (fresh.length === 0) return 0;
+
+    const updatedAddresses = [...current, ...fresh];
+    await vault.write(walletAddress, STEALTH_COLLECTION, updatedAddresses);
+    setStealthAddresses(updatedAddresses);
+    return fresh.length;
+  }, [walletAddress]);
+
   // Clear all stealth addresses
   const clearAllStealthAddresses = useCallback(() => {
     setStealthAddresses([]);
     if (walletAddress) {
-      const storageKey = `${STEALTH_STORAGE_KEY}_${walletAddress}`;
-      localStorage.removeItem(storageKey);
+      getPrivacyVault()
+        .remove(walletAddress, STEALTH_COLLECTION)
+        .catch((err) => {
+          console.error('Failed to clear stealth addresses:', err);
+        });
     }
   }, [walletAddress]);
 
+  const metaAddress = useMemo(
+    () => (stealthKeys ? toMetaAddress(stealthKeys) : null),
+    [stealthKeys]
+  );
+
   // Get stealth address by view tag
   const getStealthAddressByViewTag = useCallback((viewTag: string): StealthAddress | undefined => {
     return stealthAddresses.find(sa => sa.viewTag === viewTag);
@@ -268,6 +348,9 @@ export function useStealthAddress(): UseStealthAddressReturn {
     isGenerating,
     error,
     isContractAvailable,
+    metaAddress,
+    unlockStealthKeys,
+    importStealthAddresses,
     generateStealthAddress,
     generateStealthAddressOnChain,
     removeStealthAddress,
@@ -281,32 +364,7 @@ export function useStealthAddress(): UseStealthAddressReturn {
 function generateRandomFelt(): string {
   const bytes = new Uint8Array(31); // 31 bytes to stay within felt252 range
   crypto.getRandomValues(bytes);
-  return '0x' + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-}
-
-// Helper: Generate local stealth address (for offline/fallback mode)
-function generateLocalStealthAddress(walletAddress: string, index: number): string {
-  const timestamp = Date.now();
-  const random = generateRandomFelt();
-  const combined = `${walletAddress}_${index}_${timestamp}_${random}`;
-  // Simple hash simulation - mimics Poseidon hash behavior
-  let hash = BigInt(0);
-  for (let i = 0; i < combined.length; i++) {
-    const char = BigInt(combined.charCodeAt(i));
-    hash = (hash * BigInt(31) + char) % BigInt('0x800000000000011000000000000000000000000000000000000000000000001');
-  }
-  return '0x' + hash.toString(16).padStart(64, '0');
-}
-
-// Helper: Generate view tag for efficient scanning
-function generateViewTag(viewingPubkey: string, ephemeralPubkey: string): string {
-  const combined = `${viewingPubkey}_${ephemeralPubkey}`;
-  let hash = BigInt(0);
-  for (let i = 0; i < combined.length; i++) {
-    const char = BigInt(combined.charCodeAt(i));
-    hash = (hash * BigInt(31) + char) % BigInt('0xFFFFFFFFFFFFFFFF');
-  }
-  return '0x' + hash.toString(16).padStart(16, '0');
+  return `0x${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')}`;
 }
 
 export default useStealthAddress;
@@ -0,0 +1,140 @@
+/**
+ * useStealthInbox Hook
+ * Scans StealthAddressGenerated events for payments to the user's
+ * stealth meta-address and adds them to the stealth address list
+ * Requirements: 2.2, 2.3, 10.3
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAccount } from '@starknet-react/core';
+import { StealthAddress } from '../@types/privacy';
+import { getStealthScanner, StealthInboxMatch } from '../services/stealthScanner';
+import { toMetaAddress } from '../utils/stealthKeys';
+import { useStealthAddress } from './useStealthAddress';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface UseStealthInboxOptions {
+  /** Scan periodically once the stealth keys are unlocked (never prompts for a signature) */
+  autoScan?: boolean;
+  scanInterval?: number; // in milliseconds, default 60000
+}
+
+export interface UseStealthInboxReturn {
+  isScanning: boolean;
+  error: string | null;
+  lastScannedBlock: number | null;
+  /** Addresses added by the most recent scan */
+  lastFound: number;
+  /** Scan now, asking for the key signature if needed; returns how many addresses were added */
+  scan: () => Promise<number>;
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const SCAN_CURSOR_KEY = 'zump_stealth_scan_block';
+const DEFAULT_SCAN_INTERVAL = 60000;
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const loadCursor = (storageKey: string): number | null => {
+  const stored = localStorage.getItem(storageKey);
+  return stored === null ? null : Number(stored);
+};
+
+const toStealthAddress = (match: StealthInboxMatch, walletAddress: string): StealthAddress => ({
+  address: match.address,
+  viewTag: match.viewTag,
+  ephemeralPubkey: match.ephemeralPubkey,
+  derivation: 'onchain',
+  receivedFrom: BigInt(match.sender) === BigInt(walletAddress) ? undefined : match.sender,
+  createdAt: Date.now(),
+});
+
+// ===========================================
+// Hook Implementation
+// ===========================================
+
+export function useStealthInbox(options: UseStealthInboxOptions = {}): UseStealthInboxReturn {
+  const { autoScan = true, scanInterval = DEFAULT_SCAN_INTERVAL } = options;
+  const { address: walletAddress } = useAccount();
+  const { metaAddress, unlockStealthKeys, importStealthAddresses } = useStealthAddress();
+
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastScannedBlock, setLastScannedBlock] = useState<number | null>(null);
+  const [lastFound, setLastFound] = useState(0);
+
+  const cursorKey = walletAddress ? `${SCAN_CURSOR_KEY}_${walletAddress}` : null;
+
+  // Latest import function for the polling timer
+  const importRef = useRef(importStealthAddresses);
+  importRef.current = importStealthAddresses;
+
+  useEffect(() => {
+    setLastScannedBlock(cursorKey ? loadCursor(cursorKey) : null);
+    setLastFound(0);
+  }, [cursorKey]);
+
+  const scan = useCallback(async (): Promise<number> => {
+    if (!walletAddress || !cursorKey) {
+      setError('Wallet not connected');
+      return 0;
+    }
+
+    const keys = await unlockStealthKeys();
+    if (!keys) return 0;
+
+    setIsScanning(true);
+    setError(null);
+
+    try {
+      const result = await getStealthScanner().scan(toMetaAddress(keys), loadCursor(cursorKey));
+      // The cursor only moves once the matches are saved, so a failed write is rescanned
+      const added = await importRef.current(
+        result.matches.map((match) => toStealthAddress(match, walletAddress))
+      );
+
+      localStorage.setItem(cursorKey, result.toBlock.toString());
+      setLastScannedBlock(result.toBlock);
+      setLastFound(added);
+      return added;
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to scan stealth inbox';
+      setError(errorMessage);
+      console.error('Stealth inbox scan error:', err);
+      return 0;
+    } finally {
+      setIsScanning(false);
+    }
+  }, [walletAddress, cursorKey, unlockStealthKeys]);
+
+  // Latest scan for the polling timer, so a new scan function does not restart it
+  const scanRef = useRef(scan);
+  scanRef.current = scan;
+
+  // Poll only while the keys are already unlocked
+  useEffect(() => {
+    if (!autoScan || !metaAddress) return undefined;
+
+    scanRef.current();
+    const interval = setInterval(() => scanRef.current(), scanInterval);
+    return () => clearInterval(interval);
+  }, [autoScan, metaAddress, scanInterval]);
+
+  return {
+    isScanning,
+    error,
+    lastScannedBlock,
+    lastFound,
+    scan,
+  };
+}
+
+export default useStealthInbox;
@@ -2,18 +2,36 @@
  * useTokenLaunch Hook
  * Handles token launch functionality with REAL contract deployment
  * Deploys MemecoinToken, BondingCurvePool, and registers with PumpFactory
+ * in one multicall, and finishes launches that were interrupted
+ * Anonymous launches register a stealth creator with a launch proof
  * Requirements: 2.1, 2.4
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAccount } from '@starknet-react/core';
-import { Account, RpcProvider, Contract, CallData, cairo, shortString } from 'starknet';
-import { LaunchParams, LaunchResult } from '../services/contractService';
+import { Account } from 'starknet';
+import { LaunchResult } from '../services/contractService';
 import { getSupabaseService } from '../services/supabaseService';
-import { deployFullLaunch, LaunchDeploymentResult } from '../services/deploymentService';
+import {
+  LaunchPlan,
+  LaunchPlanParams,
+  LaunchDeploymentResult,
+  buildLaunchCalls,
+  buildLaunchProofRequest,
+  createLaunchPlan,
+  deployFullLaunch,
+  getFactoryStealthGenerator,
+  isAcceptedStealthCreator,
+  resumeLaunch,
+} from '../services/deploymentService';
+import { getLaunchValidationService } from '../services/launchValidation';
+import { VaultError, getPrivacyVault } from '../services/privacyVault';
+import { ProofProgress } from '../services/proofProvider';
 import { TokenMetadataInsert } from '../@types/supabase';
-import { getContractConfig, getContractAddresses } from '../config/contracts';
-import { PUMP_FACTORY_ABI } from '../abi';
+import { DEFAULT_MIGRATION_THRESHOLD } from '../utils/curvePreview';
+import { ZKProof, createDevelopmentProof } from '../utils/zkProof';
+import { useStealthAddress } from './useStealthAddress';
+import { useProver } from './useProver';
 
 // ============================================================================
 // Types
@@ -33,6 +51,10 @@ export interface LaunchFormData {
   websiteUrl?: string;
   twitterUrl?: string;
   telegramUrl?: string;
+  /** Register under a stealth creator with a launch proof */
+  anonymous?: boolean;
+  /** Stealth address to register as creator; a new one is created if empty */
+  stealthCreator?: string;
 }
 
 export interface GasEstimate {
@@ -54,8 +76,38 @@ export interface LaunchState {
   deploymentStep: string | null;  // Current deployment step
 }
 
+/**
+ * Off-chain metadata saved once the launch is on chain
+ */
+export type PendingLaunchMetadata = Omit<
+  TokenMetadataInsert,
+  'token_address' | 'pool_address' | 'launch_id'
+>;
+
+/**
+ * A launch that was started but not confirmed, kept per wallet
+ * An anonymous launch holds the launch secret and stealth creator, so it is
+ * kept in the privacy vault and never stored in plaintext; a public launch
+ * holds neither and is kept in localStorage.
+ */
+export interface PendingLaunch {
+  plan: LaunchPlan;
+  metadata: PendingLaunchMetadata;
+  /** Last deploymentStep reached before the launch was interrupted */
+  deploymentStep: string;
+  transactionHash: string | null;
+  updatedAt: number;
+}
+
 export interface UseTokenLaunchReturn extends LaunchState {
+  pendingLaunch: PendingLaunch | null;
+  /** An interrupted launch waits in the locked vault; unlock it to recover or discard */
+  hasLockedPendingLaunch: boolean;
+  /** Progress of the launch proof of an anonymous launch (null when idle) */
+  proofProgress: ProofProgress | null;
   launch: (params: LaunchFormData) => Promise<LaunchResult>;
+  recoverLaunch: () => Promise<LaunchResult>;
+  discardPendingLaunch: () => void;
   estimateGas: (params: LaunchFormData) => Promise<GasEstimate>;
   reset: () => void;
 }
@@ -64,8 +116,13 @@ export interface UseTokenLaunchReturn extends LaunchState {
 // Constants
 // ============================================================================
 
-const DEFAULT_MIGRATION_THRESHOLD = BigInt('1000000000000000000000'); // 1000 tokens
 const WEI_DECIMALS = 18;
+const PENDING_LAUNCH_COLLECTION = 'pendingLaunch';
+// Public launches don't need the vault (nor its unlock signature)
+const PUBLIC_PENDING_LAUNCH_KEY = 'zump_public_pending_launch';
+
+// Steps before the launch transaction is sent; nothing is on chain yet
+const PRE_SUBMIT_STEPS = ['preparing', 'stealth_creator', 'uploading_image', 'proving', 'signing'];
 
 // ============================================================================
 // Helper Functions
@@ -95,12 +152,83 @@ export const formatAmount = (amount: bigint, decimals: number = WEI_DECIMALS): s
   return fraction ? `${whole}.${fraction}` : whole;
 };
 
+/**
+ * Convert form amounts to launch plan parameters
+ */
+const toPlanParams = (params: LaunchFormData, creatorAddress: string): LaunchPlanParams => ({
+  name: params.name,
+  symbol: params.symbol,
+  basePrice: parseAmount(params.basePrice),
+  slope: parseAmount(params.slope),
+  maxSupply: parseAmount(params.maxSupply),
+  migrationThreshold: params.migrationThreshold
+    ? parseAmount(params.migrationThreshold)
+    : DEFAULT_MIGRATION_THRESHOLD,
+  stealthCreator: creatorAddress,
+});
+
+/**
+ * Vault form of a pending launch (plan amounts as decimal strings)
+ */
+const toStoredPendingLaunch = (pending: PendingLaunch): unknown =>
+  JSON.parse(
+    JSON.stringify(pending, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+
+const fromStoredPendingLaunch = (stored: any): PendingLaunch => {
+  const { params } = stored.plan;
+  return {
+    ...stored,
+    plan: {
+      ...stored.plan,
+      params: {
+        ...params,
+        basePrice: BigInt(params.basePrice),
+        slope: BigInt(params.slope),
+        maxSupply: BigInt(params.maxSupply),
+        migrationThreshold: BigInt(params.migrationThreshold),
+      },
+    },
+  };
+};
+
+/**
+ * Store launch metadata in Supabase (failures are logged, the launch is on chain)
+ */
+const storeLaunchMetadata = async (
+  deployment: LaunchDeploymentResult,
+  metadata: PendingLaunchMetadata
+): Promise<void> => {
+  if (!deployment.tokenAddress || deployment.tokenAddress === '0x0' || deployment.tokenAddress === '0') {
+    return;
+  }
+
+  try {
+    const supabaseService = getSupabaseService();
+    const row: TokenMetadataInsert = {
+      ...metadata,
+      token_address: deployment.tokenAddress,
+      pool_address: deployment.poolAddress,
+      launch_id: deployment.launchId.toString(),
+    };
+
+    console.log('Saving metadata to Supabase:', row);
+    await supabaseService.createTokenMetadata(row);
+    console.log('Metadata saved successfully');
+  } catch (metadataError) {
+    console.error('Failed to store metadata:', metadataError);
+    // Don't fail - contracts are deployed successfully
+  }
+};
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
 
 export function useTokenLaunch(): UseTokenLaunchReturn {
   const { account, address } = useAccount();
+  const { generateStealthAddress, generateStealthAddressOnChain } = useStealthAddress();
+  const { prove, progress: proofProgress } = useProver();
   
   const [state, setState] = useState<LaunchState>({
     isLaunching: false,
@@ -113,6 +241,80 @@ export function useTokenLaunch(): UseTokenLaunchReturn {
     gasEstimate: null,
     deploymentStep: null,
   });
+  const [pendingLaunch, setPendingLaunch] = useState<PendingLaunch | null>(null);
+  const [hasLockedPendingLaunch, setHasLockedPendingLaunch] = useState(false);
+  // Vault writes run in order, so a cleared launch is never written back
+  const pendingLaunchWrites = useRef<Promise<void>>(Promise.resolve());
+
+  // Read the pending launch; of one in the locked vault only whether it exists is known
+  const loadPendingLaunch = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!address) {
+      setPendingLaunch(null);
+      setHasLockedPendingLaunch(false);
+      return;
+    }
+
+    try {
+      const publicLaunch = localStorage.getItem(`${PUBLIC_PENDING_LAUNCH_KEY}_${address}`);
+      if (publicLaunch) {
+        setPendingLaunch(fromStoredPendingLaunch(JSON.parse(publicLaunch)));
+        setHasLockedPendingLaunch(false);
+        return;
+      }
+      if (!vault.isUnlocked(address)) {
+        setPendingLaunch(null);
+        setHasLockedPendingLaunch(await vault.has(address, PENDING_LAUNCH_COLLECTION));
+        return;
+      }
+      const stored = await vault.read<unknown>(address, PENDING_LAUNCH_COLLECTION, null);
+      setPendingLaunch(stored ? fromStoredPendingLaunch(stored) : null);
+      setHasLockedPendingLaunch(false);
+    } catch (err) {
+      console.error('Failed to load pending launch:', err);
+    }
+  }, [address]);
+
+  // Pick up a launch interrupted in an earlier session
+  useEffect(() => {
+    loadPendingLaunch();
+  }, [loadPendingLaunch]);
+
+  // Reload when the vault is unlocked or locked
+  useEffect(() => {
+    if (!address) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(address)) return;
+      if (collection === null) loadPendingLaunch();
+    });
+  }, [address, loadPendingLaunch]);
+
+  /**
+   * Persist (or clear) the pending launch of the connected wallet
+   */
+  const updatePendingLaunch = useCallback((pending: PendingLaunch | null) => {
+    if (!address) return;
+    setPendingLaunch(pending);
+
+    const vault = getPrivacyVault();
+    const publicKey = `${PUBLIC_PENDING_LAUNCH_KEY}_${address}`;
+    pendingLaunchWrites.current = pendingLaunchWrites.current
+      .then(async () => {
+        if (pending && !pending.plan.anonymous) {
+          localStorage.setItem(publicKey, JSON.stringify(toStoredPendingLaunch(pending)));
+          return;
+        }
+        localStorage.removeItem(publicKey);
+        if (pending) {
+          await vault.write(address, PENDING_LAUNCH_COLLECTION, toStoredPendingLaunch(pending));
+        } else if (vault.isUnlocked(address)) {
+          await vault.remove(address, PENDING_LAUNCH_COLLECTION);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to save pending launch:', err);
+      });
+  }, [address]);
 
   /**
    * Reset state to initial values
@@ -131,43 +333,6 @@ export function useTokenLaunch(): UseTokenLaunchReturn {
     });
   }, []);
 
-  /**
-   * Build launch calldata from form data
-   */
-  const buildCalldata = useCallback((params: LaunchFormData, creatorAddress: string) => {
-    const basePrice = parseAmount(params.basePrice);
-    const slope = parseAmount(params.slope);
-    const maxSupply = parseAmount(params.maxSupply);
-    const migrationThreshold = params.migrationThreshold 
-      ? parseAmount(params.migrationThreshold)
-      : DEFAULT_MIGRATION_THRESHOLD;
-
-    // Encode name and symbol as felt252
-    const nameAsFelt = shortString.encodeShortString(params.name.slice(0, 31));
-    const symbolAsFelt = shortString.encodeShortString(params.symbol.slice(0, 31));
-
-    return {
-      calldata: CallData.compile({
-        name: nameAsFelt,
-        symbol: symbolAsFelt,
-        base_price: cairo.uint256(basePrice),
-        slope: cairo.uint256(slope),
-        max_supply: cairo.uint256(maxSupply),
-        stealth_creator: creatorAddress,
-        migration_threshold: cairo.uint256(migrationThreshold),
-      }),
-      launchParams: {
-        name: params.name,
-        symbol: params.symbol,
-        basePrice,
-        slope,
-        maxSupply,
-        stealthCreator: creatorAddress,
-        migrationThreshold,
-      } as LaunchParams,
-    };
-  }, []);
-
   /**
    * Estimate gas for token launch
    * Requirements: 2.4
@@ -180,25 +345,20 @@ export function useTokenLaunch(): UseTokenLaunchReturn {
     setState(prev => ({ ...prev, isEstimating: true, error: null }));
 
     try {
-      const config = getContractConfig();
-      const addresses = getContractAddresses();
-      
-      const provider = new RpcProvider({ nodeUrl: config.rpcUrl });
-      const factoryContract = new Contract(
-        PUMP_FACTORY_ABI,
-        addresses.pumpFactory,
-        provider
+      // Estimate the same multicall launch() sends; an anonymous launch is
+      // estimated with a placeholder proof of the same size
+      const plan = createLaunchPlan(
+        address,
+        toPlanParams(params, params.stealthCreator || address),
+        params.anonymous
       );
-
-      const { calldata } = buildCalldata(params, address);
-
-      // Estimate fee using the account
+      const launchProof = plan.anonymous
+        ? createDevelopmentProof(await buildLaunchProofRequest(plan))
+        : undefined;
       const starknetAccount = account as unknown as Account;
-      const estimateFeeResponse = await starknetAccount.estimateInvokeFee({
-        contractAddress: addresses.pumpFactory,
-        entrypoint: 'create_launch',
-        calldata,
-      });
+      const estimateFeeResponse = await starknetAccount.estimateInvokeFee(
+        buildLaunchCalls(plan, undefined, launchProof)
+      );
 
       const estimate: GasEstimate = {
         estimatedFee: BigInt(estimateFeeResponse.overall_fee.toString()),
@@ -214,82 +374,83 @@ export function useTokenLaunch(): UseTokenLaunchReturn {
       setState(prev => ({ ...prev, isEstimating: false, error: err }));
       throw err;
     }
-  }, [account, address, buildCalldata]);
+  }, [account, address]);
 
   /**
-   * Launch a new token with REAL contract deployment
-   * Deploys MemecoinToken, BondingCurvePool, and registers with PumpFactory
-   * Requirements: 2.1, 2.2, 2.3
+   * Stealth address an anonymous launch registers as creator
+   * When PumpFactory has a stealth generator it only accepts addresses that
+   * generator produced, so new ones are generated on chain.
    */
-  const launch = useCallback(async (params: LaunchFormData): Promise<LaunchResult> => {
-    if (!account || !address) {
-      throw new Error('Wallet not connected');
+  const resolveStealthCreator = useCallback(async (params: LaunchFormData): Promise<string> => {
+    let creator = params.stealthCreator;
+    const generator = await getFactoryStealthGenerator();
+
+    if (!creator) {
+      const created = generator
+        ? await generateStealthAddressOnChain()
+        : await generateStealthAddress();
+      if (!created) {
+        throw new Error('Could not create a stealth address for the launch');
+      }
+      creator = created.address;
     }
 
-    setState(prev => ({ 
-      ...prev, 
-      isLaunching: true, 
-      error: null,
-      transactionHash: null,
-      tokenAddress: null,
-      poolAddress: null,
-      launchId: null,
-      deploymentStep: 'preparing',
-    }));
+    if (generator && !(await isAcceptedStealthCreator(creator))) {
+      throw new Error('INVALID_STEALTH_ADDRESS: PumpFactory does not accept this stealth address');
+    }
+    return creator;
+  }, [generateStealthAddress, generateStealthAddressOnChain]);
+
+  /**
+   * Launch proof of an anonymous plan, timestamped when it is sent
+   * Proofs expire, so a recovered launch is proven again.
+   */
+  const proveLaunch = useCallback(async (
+    plan: LaunchPlan,
+    onProgress: (step: string, details?: string) => void
+  ): Promise<ZKProof | undefined> => {
+    if (!plan.anonymous) return undefined;
+    onProgress('proving', 'Generating launch proof...');
+    return prove(await buildLaunchProofRequest(plan));
+  }, [prove]);
+
+  /**
+   * Send a launch plan (or finish an interrupted one), save its metadata and
+   * keep the pending launch record in step with the deployment
+   */
+  const runDeployment = useCallback(async (
+    pending: PendingLaunch,
+    deploy: (
+      onProgress: (step: string, details?: string) => void,
+      onSubmitted: (transactionHash: string) => void
+    ) => Promise<LaunchDeploymentResult>
+  ): Promise<LaunchResult> => {
+    let record = pending;
+    const track = (changes: Partial<PendingLaunch>) => {
+      record = { ...record, ...changes, updatedAt: Date.now() };
+      updatePendingLaunch(record);
+    };
 
     try {
-      console.log('Starting REAL token deployment with params:', params);
-      
-      // Parse amounts
-      const basePrice = parseAmount(params.basePrice);
-      const slope = parseAmount(params.slope);
-      const maxSupply = parseAmount(params.maxSupply);
-      const migrationThreshold = params.migrationThreshold 
-        ? parseAmount(params.migrationThreshold)
-        : DEFAULT_MIGRATION_THRESHOLD;
-
-      // Upload image if provided
-      let imageUrl = params.imageUrl || '';
-      if (params.imageFile) {
-        try {
-          setState(prev => ({ ...prev, deploymentStep: 'uploading_image' }));
-          console.log('Uploading token image...');
-          const supabaseService = getSupabaseService();
-          imageUrl = await supabaseService.uploadTokenImage(params.imageFile);
-          console.log('Image uploaded successfully:', imageUrl);
-        } catch (uploadError) {
-          console.error('Failed to upload image:', uploadError);
-          // Continue without image
-        }
-      }
+      track({});
 
       // Progress callback
       const onProgress = (step: string, details?: string) => {
         console.log(`[Deployment] ${step}: ${details || ''}`);
         setState(prev => ({ ...prev, deploymentStep: step }));
+        if (step !== 'complete') track({ deploymentStep: step });
+      };
+      const onSubmitted = (transactionHash: string) => {
+        setState(prev => ({ ...prev, transactionHash }));
+        track({ transactionHash });
       };
 
-      // Deploy real contracts (Token + Pool + Register)
-      console.log('Starting full contract deployment...');
-      const deploymentResult = await deployFullLaunch(
-        account as unknown as Account,
-        {
-          name: params.name,
-          symbol: params.symbol,
-          basePrice,
-          slope,
-          maxSupply,
-          migrationThreshold,
-          stealthCreator: address, // Use wallet address as creator (or stealth address)
-        },
-        onProgress
-      );
-
+      const deploymentResult = await deploy(onProgress, onSubmitted);
       console.log('Deployment result:', deploymentResult);
 
       // Convert to LaunchResult format
       const result: LaunchResult = {
-        transactionHash: deploymentResult.registerTx,
+        transactionHash: deploymentResult.transactionHash || '',
         tokenAddress: deploymentResult.tokenAddress,
         poolAddress: deploymentResult.poolAddress,
         launchId: deploymentResult.launchId,
@@ -304,48 +465,175 @@ export function useTokenLaunch(): UseTokenLaunchReturn {
         launchId: result.launchId,
         deploymentStep: 'saving_metadata',
       }));
+      track({ deploymentStep: 'saving_metadata' });
 
       // Store metadata in Supabase
-      if (result.tokenAddress && result.tokenAddress !== '0x0' && result.tokenAddress !== '0') {
-        try {
-          const supabaseService = getSupabaseService();
-          const metadata: TokenMetadataInsert = {
-            token_address: result.tokenAddress,
-            pool_address: result.poolAddress,
-            launch_id: result.launchId.toString(),
-            name: params.name,
-            symbol: params.symbol,
-            description: params.description || null,
-            image_url: imageUrl || null,
-            creator_address: address,
-            tags: params.tags || [],
-            website_url: params.websiteUrl || null,
-            twitter_url: params.twitterUrl || null,
-            telegram_url: params.telegramUrl || null,
-          };
-          
-          console.log('Saving metadata to Supabase:', metadata);
-          await supabaseService.createTokenMetadata(metadata);
-          console.log('Metadata saved successfully');
-        } catch (metadataError) {
-          console.error('Failed to store metadata:', metadataError);
-          // Don't fail - contracts are deployed successfully
-        }
-      }
+      await storeLaunchMetadata(deploymentResult, record.metadata);
 
+      updatePendingLaunch(null);
       setState(prev => ({ ...prev, isLaunching: false, deploymentStep: 'complete' }));
       return result;
     } catch (error) {
       console.error('Launch error:', error);
+      // A launch rejected before it was sent left nothing on chain to recover
+      if (PRE_SUBMIT_STEPS.includes(record.deploymentStep) && !record.transactionHash) {
+        updatePendingLaunch(null);
+      }
       const err = error instanceof Error ? error : new Error('Failed to launch token');
       setState(prev => ({ ...prev, isLaunching: false, error: err, deploymentStep: 'failed' }));
       throw err;
     }
-  }, [account, address]);
+  }, [updatePendingLaunch]);
+
+  /**
+   * Launch a new token with REAL contract deployment
+   * Deploys MemecoinToken, BondingCurvePool, and registers with PumpFactory
+   * Requirements: 2.1, 2.2, 2.3
+   */
+  const launch = useCallback(async (params: LaunchFormData): Promise<LaunchResult> => {
+    if (!account || !address) {
+      throw new Error('Wallet not connected');
+    }
+
+    setState(prev => ({ 
+      ...prev, 
+      isLaunching: true, 
+      error: null,
+      transactionHash: null,
+      tokenAddress: null,
+      poolAddress: null,
+      launchId: null,
+      deploymentStep: 'preparing',
+    }));
+
+
+    let plan: LaunchPlan;
+    try {
+      // Check the curve against ProtocolConfig limits before anything is sent
+      const curve = await getLaunchValidationService().validate(params);
+
+      // Use wallet address as creator, or a stealth address for anonymous launches
+      let stealthCreator: string = address;
+      if (params.anonymous) {
+        // The pending anonymous launch holds its secret, so it is recorded in the privacy vault
+        const vault = getPrivacyVault();
+        if (!vault.isUnlocked(address)) {
+          await vault.unlock(account, address);
+        }
+
+        setState(prev => ({ ...prev, deploymentStep: 'stealth_creator' }));
+        stealthCreator = await resolveStealthCreator(params);
+      }
+
+      plan = createLaunchPlan(
+        address,
+        {
+          name: params.name,
+          symbol: params.symbol,
+          ...curve,
+          stealthCreator,
+        },
+        params.anonymous
+      );
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to prepare launch');
+      setState(prev => ({ ...prev, isLaunching: false, error: err, deploymentStep: 'failed' }));
+      throw err;
+    }
+
+    // Upload image if provided
+    let imageUrl = params.imageUrl || '';
+    if (params.imageFile) {
+      try {
+        setState(prev => ({ ...prev, deploymentStep: 'uploading_image' }));
+        const supabaseService = getSupabaseService();
+        imageUrl = await supabaseService.uploadTokenImage(params.imageFile);
+      } catch (uploadError) {
+        console.error('Failed to upload image:', uploadError);
+        // Continue without image
+      }
+    }
+
+    const pending: PendingLaunch = {
+      plan,
+      metadata: {
+        name: params.name,
+        symbol: params.symbol,
+        description: params.description || null,
+        image_url: imageUrl || null,
+        // Anonymous launches store the stealth creator, never the wallet
+        creator_address: plan.params.stealthCreator,
+        tags: params.tags || [],
+        website_url: params.websiteUrl || null,
+        twitter_url: params.twitterUrl || null,
+        telegram_url: params.telegramUrl || null,
+      },
+      deploymentStep: 'preparing',
+      transactionHash: null,
+      updatedAt: Date.now(),
+    };
+
+    return runDeployment(pending, async (onProgress, onSubmitted) => {
+      const launchProof = await proveLaunch(plan, onProgress);
+      return deployFullLaunch(account as unknown as Account, plan, onProgress, onSubmitted, launchProof);
+    });
+  }, [account, address, resolveStealthCreator, proveLaunch, runDeployment]);
+
+  /**
+   * Finish the pending launch from the step it was interrupted at
+   * Before the transaction was sent the whole launch is sent again; after it,
+   * only the missing calls are; a launch that reached saving_metadata only
+   * needs its metadata stored.
+   */
+  const recoverLaunch = useCallback(async (): Promise<LaunchResult> => {
+    if (!account || !address) {
+      throw new Error('Wallet not connected');
+    }
+    if (!pendingLaunch) {
+      // An anonymous launch is only read once the vault is unlocked
+      if (hasLockedPendingLaunch) {
+        throw new VaultError('Unlock the privacy vault to finish the launch', 'LOCKED');
+      }
+      throw new Error('No pending launch to recover');
+    }
+
+    setState(prev => ({
+      ...prev,
+      isLaunching: true,
+      error: null,
+      transactionHash: pendingLaunch.transactionHash,
+      tokenAddress: pendingLaunch.plan.tokenAddress,
+      poolAddress: pendingLaunch.plan.poolAddress,
+      launchId: null,
+      deploymentStep: 'recovering',
+    }));
+
+    const starknetAccount = account as unknown as Account;
+    const { plan, deploymentStep, transactionHash } = pendingLaunch;
+
+    return runDeployment(pendingLaunch, async (onProgress, onSubmitted) => {
+      const launchProof = await proveLaunch(plan, onProgress);
+      return PRE_SUBMIT_STEPS.includes(deploymentStep) && !transactionHash
+        ? deployFullLaunch(starknetAccount, plan, onProgress, onSubmitted, launchProof)
+        : resumeLaunch(starknetAccount, plan, transactionHash, onProgress, onSubmitted, launchProof);
+    });
+  }, [account, address, pendingLaunch, hasLockedPendingLaunch, proveLaunch, runDeployment]);
+
+  /**
+   * Forget the pending launch without finishing it
+   */
+  const discardPendingLaunch = useCallback(() => {
+    updatePendingLaunch(null);
+  }, [updatePendingLaunch]);
 
   return {
     ...state,
+    pendingLaunch,
+    hasLockedPendingLaunch,
+    proofProgress,
     launch,
+    recoverLaunch,
+    discardPendingLaunch,
     estimateGas,
     reset,
   };
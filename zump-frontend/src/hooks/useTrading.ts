@@ -1,57 +1,39 @@
 /**
  * useTrading Hook
  * Handles buy/sell operations through the bonding curve
- * SIMULATION MODE: Transfers real STRK but simulates token minting
+ * Trades go through BondingCurvePool.buy/sell; balances are read from the token contract.
+ * Simulated trading is available for local development only (see isTradingSimulationEnabled).
  * Requirements: 5.1, 5.2, 6.1, 6.2
  */
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { useAccount } from '@starknet-react/core';
-import { Account, Contract, cairo } from 'starknet';
+import { Account } from 'starknet';
 import { getContractService, TransactionResult } from '../services/contractService';
-import { getContractAddresses } from '../config/contracts';
-import { getSupabaseService } from '../services/supabaseService';
+import { getContractAddresses, isTradingSimulationEnabled } from '../config/contracts';
+import { assertBuyWithinBound, assertSellWithinBound } from '../services/tradeBuilder';
 import { 
   parseContractError, 
+  getRecoveryOptions,
   ERROR_MESSAGES, 
   TradingError,
   RecoveryOption,
+  RecoveryHandlers,
 } from '../utils/tradingErrors';
 
-// Treasury address to receive STRK payments (can be changed to protocol owner)
-const TREASURY_ADDRESS = '0x01361bf6bbb553110e559fdb344549a2bc86107d5a73266039e5541a28c37838';
-// Treasury private key for sell payouts (TESTNET ONLY - never use in production!)
-const TREASURY_PRIVATE_KEY = '0x01b9bec0ba4101fe4cdf3663ee6f7b2c5cfacb907a5960bfdac69db76b934328';
-
-// Local storage key for simulated balances
-const getSimulatedBalanceKey = (userAddress: string) => `simulated_balances_${userAddress}`;
-
-// ERC20 Transfer ABI - amount split into low/high for u256
-const ERC20_TRANSFER_ABI = [
-  {
-    name: 'transfer',
-    type: 'function',
-    inputs: [
-      { name: 'recipient', type: 'felt' },
-      { name: 'amount_low', type: 'felt' },
-      { name: 'amount_high', type: 'felt' },
-    ],
-    outputs: [{ type: 'felt' }],
-    state_mutability: 'external',
-  },
-];
-
 // ===========================================
 // Types (Re-export from tradingErrors)
 // ===========================================
 
-export type { TradingError, RecoveryOption };
+export type { TradingError, RecoveryOption, RecoveryHandlers };
 
 export interface UseTradingOptions {
   poolAddress: string;
   tokenAddress: string;
   onSuccess?: (result: TransactionResult) => void;
   onError?: (error: TradingError) => void;
+  /** Component actions offered as recovery options (e.g. "Slippage Artır") */
+  recoveryHandlers?: RecoveryHandlers;
 }
 
 export interface UseTradingReturn {
@@ -59,7 +41,7 @@ export interface UseTradingReturn {
   getBuyCost: (amount: bigint) => Promise<bigint>;
   getSellReturn: (amount: bigint) => Promise<bigint>;
   
-  // Trading operations
+  // Trading operations (aborts with SLIPPAGE_EXCEEDED when a fresh quote breaks the bound)
   buy: (amount: bigint, maxCost?: bigint) => Promise<TransactionResult>;
   sell: (amount: bigint, minReturn?: bigint) => Promise<TransactionResult>;
   
@@ -82,16 +64,17 @@ export interface UseTradingReturn {
 
 /**
  * Hook for trading operations on bonding curve pools
- * SIMULATION MODE: Real STRK transfer + simulated token balance
  * 
  * Requirements:
- * - 5.1: Calculate buy cost using BondingCurvePool.get_buy_cost
- * - 5.2: Execute buy with STRK transfer (simulated token mint)
- * - 6.1: Calculate sell return using BondingCurvePool.get_sell_return
- * - 6.2: Execute sell (simulated)
+ * - 5.1: Calculate buy cost from pool state
+ * - 5.2: Execute buy via approve + BondingCurvePool.buy multicall
+ * - 5.3: Enforce maxCost against a fresh quote
+ * - 6.1: Calculate sell return from pool state
+ * - 6.2: Execute sell via BondingCurvePool.sell
+ * - 6.3: Enforce minReturn against a fresh quote
  */
 export function useTrading(options: UseTradingOptions): UseTradingReturn {
-  const { poolAddress, tokenAddress, onSuccess, onError } = options;
+  const { poolAddress, tokenAddress, onSuccess, onError, recoveryHandlers } = options;
   
   const { account, address } = useAccount();
   
@@ -104,70 +87,21 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
 
   const contractService = useMemo(() => getContractService(), []);
   const addresses = useMemo(() => getContractAddresses(), []);
+  const simulationMode = useMemo(() => isTradingSimulationEnabled(), []);
 
-  // ===========================================
-  // Simulated Balance Management
-  // ===========================================
-
-  /**
-   * Get simulated balances from localStorage
-   */
-  const getSimulatedBalances = useCallback((): Record<string, string> => {
-    if (!address) return {};
-    try {
-      const stored = localStorage.getItem(getSimulatedBalanceKey(address));
-      return stored ? JSON.parse(stored) : {};
-    } catch {
-      return {};
+  // Keep the contract service signing with the connected wallet
+  useEffect(() => {
+    if (account) {
+      contractService.setAccount(account as unknown as Account);
     }
-  }, [address]);
-
-  /**
-   * Save simulated balance to localStorage
-   */
-  const saveSimulatedBalance = useCallback((tokenAddr: string, balance: bigint) => {
-    if (!address) return;
-    const balances = getSimulatedBalances();
-    const normalizedAddr = normalizeAddr(tokenAddr);
-    balances[normalizedAddr] = balance.toString();
-    localStorage.setItem(getSimulatedBalanceKey(address), JSON.stringify(balances));
-    console.log('Saved balance for:', normalizedAddr, 'value:', balance.toString());
-  }, [address, getSimulatedBalances]);
+  }, [account, contractService]);
 
-  /**
-   * Normalize address for consistent storage key
-   */
-  const normalizeAddr = (addr: string): string => {
-    if (!addr) return '0x0';
-    const hex = addr.toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
-    if (!hex) return '0x0';
-    return `0x${hex}`;
-  };
-
-  /**
-   * Get simulated balance for a token
-   */
-  const getSimulatedBalance = useCallback((tokenAddr: string): bigint => {
-    const balances = getSimulatedBalances();
-    const normalizedAddr = normalizeAddr(tokenAddr);
-    const bal = balances[normalizedAddr];
-    console.log('Getting balance for:', normalizedAddr, 'found:', bal);
-    return bal ? BigInt(bal) : BigInt(0);
-  }, [getSimulatedBalances]);
-
-  // Load simulated balance on mount and when address/token changes
+  // Simulated balances live in memory only and reset with the token/account
   useEffect(() => {
-    if (address && tokenAddress) {
-      const simBal = getSimulatedBalance(tokenAddress);
-      console.log('Loading token balance on mount:', {
-        address,
-        tokenAddress,
-        normalizedToken: normalizeAddr(tokenAddress),
-        balance: simBal.toString(),
-      });
-      setUserTokenBalance(simBal);
+    if (simulationMode) {
+      setUserTokenBalance(address ? BigInt(0) : null);
     }
-  }, [address, tokenAddress, getSimulatedBalance]);
+  }, [simulationMode, address, tokenAddress]);
 
   /**
    * Clear error state
@@ -176,10 +110,45 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
     setError(null);
   }, []);
 
+  /**
+   * Report a trading error to state and the onError callback
+   */
+  const reportError = useCallback((tradingError: TradingError) => {
+    setError(tradingError);
+    onError?.(tradingError);
+  }, [onError]);
+
+  /**
+   * Convert a thrown error into a TradingError with its recovery options
+   */
+  const toTradingError = useCallback((err: unknown): TradingError => {
+    const tradingError = parseContractError(err);
+    // Running a recovery action dismisses the error it recovers from
+    const handlers: RecoveryHandlers = {
+      onIncreaseSlippage: recoveryHandlers?.onIncreaseSlippage
+        ? (details) => {
+            setError(null);
+            recoveryHandlers.onIncreaseSlippage?.(details);
+          }
+        : undefined,
+      onSwitchToDex: recoveryHandlers?.onSwitchToDex
+        ? () => {
+            setError(null);
+            recoveryHandlers.onSwitchToDex?.();
+          }
+        : undefined,
+    };
+    return {
+      ...tradingError,
+      recoveryOptions: tradingError.recoveryOptions
+        ?? getRecoveryOptions(tradingError.code, handlers, tradingError.slippage),
+    };
+  }, [recoveryHandlers]);
+
   /**
    * Refresh user balances
-   * Token balance = simulated (localStorage)
-   * Quote balance = real STRK balance from chain
+   * Token balance = MemecoinToken.balance_of (kept in memory in simulation mode)
+   * Quote balance = quote token balance from chain
    */
   const refreshBalances = useCallback(async () => {
     if (!address) {
@@ -189,19 +158,20 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
     }
 
     try {
-      // Token balance from simulation
-      const simBal = getSimulatedBalance(tokenAddress);
-      setUserTokenBalance(simBal);
-
-      // Quote balance from chain (real STRK)
-      const quoteBal = await contractService.getBalance(addresses.quoteToken, address);
+      const [tokenBal, quoteBal] = await Promise.all([
+        simulationMode || !tokenAddress
+          ? Promise.resolve(null)
+          : contractService.getBalance(tokenAddress, address),
+        contractService.getBalance(addresses.quoteToken, address),
+      ]);
+      if (tokenBal !== null) {
+        setUserTokenBalance(tokenBal);
+      }
       setUserQuoteBalance(quoteBal);
     } catch (err) {
       console.error('Failed to fetch balances:', err);
-      // Still set simulated balance even if STRK fetch fails
-      setUserTokenBalance(getSimulatedBalance(tokenAddress));
     }
-  }, [address, tokenAddress, addresses.quoteToken, contractService, getSimulatedBalance]);
+  }, [address, tokenAddress, addresses.quoteToken, contractService, simulationMode]);
 
   /**
    * Get buy cost for a given amount of tokens
@@ -246,11 +216,11 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
   }, [poolAddress, contractService]);
 
   /**
-   * Buy tokens - SIMULATION MODE
-   * 1. Transfer real STRK to treasury
-   * 2. Record trade in Supabase
-   * 3. Update simulated token balance in localStorage
-   * Requirements: 5.2
+   * Buy tokens
+   * 1. Check quote balance against the expected cost
+   * 2. Re-quote, enforce maxCost, send approve + buy multicall
+   * 3. Refresh balances (the indexer records the trade)
+   * Requirements: 5.2, 5.3
    */
   const buy = useCallback(async (
     amount: bigint,
@@ -261,8 +231,7 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
         code: 'ACCOUNT_NOT_CONNECTED',
         message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED,
       };
-      setError(tradingError);
-      onError?.(tradingError);
+      reportError(tradingError);
       throw new Error(tradingError.message);
     }
 
@@ -270,125 +239,54 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
     setError(null);
 
     try {
-      // Calculate cost
-      const cost = maxCost || await getBuyCost(amount);
+      if (simulationMode) {
+        assertBuyWithinBound(await contractService.getBuyQuote(poolAddress, amount), maxCost);
+        const result: TransactionResult = {
+          hash: `simulated-buy-${Date.now()}`,
+          status: 'confirmed',
+        };
+        setUserTokenBalance((prev) => (prev ?? BigInt(0)) + amount);
+        onSuccess?.(result);
+        return result;
+      }
+
+      const cost = await getBuyCost(amount);
       
-      // Check user has enough STRK balance
+      // Check user has enough quote balance
       const quoteBalance = await contractService.getBalance(addresses.quoteToken, address);
       if (quoteBalance < cost) {
         const tradingError: TradingError = {
           code: 'INSUFFICIENT_BALANCE',
           message: `${ERROR_MESSAGES.INSUFFICIENT_BALANCE} Gerekli: ${cost.toString()}, Mevcut: ${quoteBalance.toString()}`,
         };
-        setError(tradingError);
-        onError?.(tradingError);
+        reportError(tradingError);
         throw new Error(tradingError.message);
       }
 
-      // Create STRK transfer contract
-      const strkContract = new Contract(
-        ERC20_TRANSFER_ABI as any,
-        addresses.quoteToken,
-        account as unknown as Account
-      );
-
-      // Transfer STRK to treasury
-      console.log('Transferring STRK to treasury:', {
-        amount: cost.toString(),
-        treasury: TREASURY_ADDRESS,
-      });
-
-      // Convert bigint to uint256 format - pass as two separate felt values
-      const costLow = (cost & BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF')).toString();
-      const costHigh = (cost >> BigInt(128)).toString();
-      
-      const transferTx = await strkContract.invoke('transfer', [
-        TREASURY_ADDRESS,
-        costLow,
-        costHigh,
-      ]);
-
-      // Wait for transaction using starknet.js provider
-      const { RpcProvider } = await import('starknet');
-      const provider = new RpcProvider({ nodeUrl: 'https://rpc.starknet-testnet.lava.build' });
-      const receipt = await provider.waitForTransaction(transferTx.transaction_hash);
-
-      // Check if transaction succeeded (handle different receipt types)
-      const isSuccess = 'execution_status' in receipt 
-        ? receipt.execution_status === 'SUCCEEDED' 
-        : !('transaction_failure_reason' in receipt);
-      
-      if (!isSuccess) {
-        throw new Error('STRK transfer failed');
-      }
-
-      // Calculate price per token
-      const pricePerToken = amount > BigInt(0) ? (cost * BigInt('1000000000000000000')) / amount : BigInt(0);
-
-      // Record trade in Supabase
-      try {
-        const supabaseService = getSupabaseService();
-        await supabaseService.cacheTradeEvent({
-          pool_address: poolAddress,
-          trader: address,
-          trade_type: 'buy',
-          amount: amount.toString(),
-          price: pricePerToken.toString(),
-          cost_or_return: cost.toString(),
-          timestamp: new Date().toISOString(),
-          tx_hash: transferTx.transaction_hash,
-          block_number: null,
-        });
-        console.log('Trade recorded in Supabase');
-      } catch (supabaseErr) {
-        console.warn('Failed to record trade in Supabase:', supabaseErr);
-        // Don't fail the whole operation if Supabase fails
-      }
+      const result = await contractService.buy(poolAddress, amount, maxCost);
 
-      // Update simulated token balance
-      const currentSimBalance = getSimulatedBalance(tokenAddress);
-      const newBalance = currentSimBalance + amount;
-      saveSimulatedBalance(tokenAddress, newBalance);
-      setUserTokenBalance(newBalance);
-
-      console.log('Token balance updated:', {
-        previous: currentSimBalance.toString(),
-        added: amount.toString(),
-        new: newBalance.toString(),
-      });
-
-      const result: TransactionResult = {
-        hash: transferTx.transaction_hash,
-        status: 'confirmed',
-      };
-
-      // Refresh STRK balance
       await refreshBalances();
       onSuccess?.(result);
 
       return result;
     } catch (err) {
       console.error('Buy failed:', err);
-      const tradingError = parseContractError(err);
-      setError(tradingError);
-      onError?.(tradingError);
+      reportError(toTradingError(err));
       throw err;
     } finally {
       setIsBuying(false);
     }
-  }, [account, address, poolAddress, tokenAddress, addresses.quoteToken, contractService, getBuyCost, getSimulatedBalance, saveSimulatedBalance, refreshBalances, onSuccess, onError]);
+  }, [account, address, poolAddress, addresses.quoteToken, contractService, simulationMode, getBuyCost, refreshBalances, reportError, toTradingError, onSuccess]);
 
   /**
-   * Sell tokens - REAL STRK PAYOUT
+   * Sell tokens
    * 1. Check token balance
-   * 2. Transfer STRK from treasury to user
-   * 3. Update token balance
-   * 4. Record trade in Supabase
-   * Requirements: 6.2
+   * 2. Re-quote, enforce minReturn, call BondingCurvePool.sell
+   * 3. Refresh balances (the indexer records the trade)
+   * Requirements: 6.2, 6.3
    */
   const sell = useCallback(async (
     amount: bigint,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     minReturn?: bigint
   ): Promise<TransactionResult> => {
     if (!account || !address) {
@@ -396,8 +294,7 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
         code: 'ACCOUNT_NOT_CONNECTED',
         message: ERROR_MESSAGES.ACCOUNT_NOT_CONNECTED,
       };
-      setError(tradingError);
-      onError?.(tradingError);
+      reportError(tradingError);
       throw new Error(tradingError.message);
     }
 
@@ -406,144 +303,43 @@ export function useTrading(options: UseTradingOptions): UseTradingReturn {
 
     try {
       // Check token balance
-      const simBalance = getSimulatedBalance(tokenAddress);
-      if (simBalance < amount) {
+      const tokenBalance = simulationMode
+        ? userTokenBalance ?? BigInt(0)
+        : await contractService.getBalance(tokenAddress, address);
+      if (tokenBalance < amount) {
         const tradingError: TradingError = {
-          code: 'INSUFFICIENT_BALANCE',
-          message: `${ERROR_MESSAGES.INSUFFICIENT_BALANCE} Gerekli: ${amount.toString()}, Mevcut: ${simBalance.toString()}`,
+          code: 'INSUFFICIENT_TOKEN_BALANCE',
+          message: `${ERROR_MESSAGES.INSUFFICIENT_TOKEN_BALANCE} Gerekli: ${amount.toString()}, Mevcut: ${tokenBalance.toString()}`,
         };
-        setError(tradingError);
-        onError?.(tradingError);
+        reportError(tradingError);
         throw new Error(tradingError.message);
       }
 
-      // Calculate return amount
-      const returnAmount = await getSellReturn(amount);
-      
-      console.log('Sell return calculated:', returnAmount);
-      
-      if (returnAmount === undefined || returnAmount === null) {
-        throw new Error('Failed to calculate sell return');
-      }
-      
-      const pricePerToken = amount > BigInt(0) ? (returnAmount * BigInt('1000000000000000000')) / amount : BigInt(0);
-
-      console.log('Selling tokens:', {
-        amount: amount.toString(),
-        returnAmount: returnAmount.toString(),
-        userAddress: address,
-      });
-
-      // Create treasury account to send STRK to user
-      const starknetModule = await import('starknet');
-      const provider = new starknetModule.RpcProvider({ nodeUrl: 'https://rpc.starknet-testnet.lava.build' });
-      const treasuryAccount = new starknetModule.Account(provider, TREASURY_ADDRESS, TREASURY_PRIVATE_KEY);
-
-      // Create STRK transfer contract with treasury account
-      const strkContract = new starknetModule.Contract(
-        ERC20_TRANSFER_ABI as any,
-        addresses.quoteToken,
-        treasuryAccount
-      );
-
-      // Convert return amount to u256 format
-      const returnLow = (returnAmount & BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF')).toString();
-      const returnHigh = (returnAmount >> BigInt(128)).toString();
-
-      // Transfer STRK from treasury to user
-      console.log('Transferring STRK from treasury to user...', {
-        to: address,
-        amountLow: returnLow,
-        amountHigh: returnHigh,
-      });
-      
-      let transferTx;
-      try {
-        transferTx = await strkContract.invoke('transfer', [
-          address,
-          returnLow,
-          returnHigh,
-        ]);
-        console.log('Transfer response:', transferTx);
-      } catch (invokeErr) {
-        console.error('Invoke failed:', invokeErr);
-        throw invokeErr;
-      }
-      
-      const txHash = transferTx?.transaction_hash || (transferTx as any)?.hash;
-      console.log('Transaction hash:', txHash);
-      
-      if (!txHash) {
-        throw new Error('No transaction hash returned from transfer');
-      }
-
-      // Wait for transaction
-      console.log('Waiting for transaction...');
-      const receipt = await provider.waitForTransaction(txHash);
-      console.log('Receipt:', receipt);
-      
-      const isSuccess = receipt && (
-        ('execution_status' in receipt && receipt.execution_status === 'SUCCEEDED') ||
-        ('status' in receipt && receipt.status === 'ACCEPTED_ON_L2') ||
-        !('transaction_failure_reason' in receipt)
-      );
-      
-      if (!isSuccess) {
-        throw new Error('STRK payout failed');
-      }
-
-      console.log('STRK payout successful:', txHash);
-
-      // Update token balance
-      const newBalance = simBalance - amount;
-      saveSimulatedBalance(tokenAddress, newBalance);
-      setUserTokenBalance(newBalance);
-
-      // Record trade in Supabase
-      try {
-        const supabaseService = getSupabaseService();
-        await supabaseService.cacheTradeEvent({
-          pool_address: poolAddress,
-          trader: address,
-          trade_type: 'sell',
-          amount: amount.toString(),
-          price: pricePerToken.toString(),
-          cost_or_return: returnAmount.toString(),
-          timestamp: new Date().toISOString(),
-          tx_hash: txHash,
-          block_number: null,
-        });
-        console.log('Sell trade recorded in Supabase');
-      } catch (supabaseErr) {
-        console.warn('Failed to record sell trade in Supabase:', supabaseErr);
+      if (simulationMode) {
+        assertSellWithinBound(await contractService.getSellQuote(poolAddress, amount), minReturn);
+        const result: TransactionResult = {
+          hash: `simulated-sell-${Date.now()}`,
+          status: 'confirmed',
+        };
+        setUserTokenBalance(tokenBalance - amount);
+        onSuccess?.(result);
+        return result;
       }
 
-      console.log('Token balance updated:', {
-        previous: simBalance.toString(),
-        sold: amount.toString(),
-        new: newBalance.toString(),
-      });
-
-      const result: TransactionResult = {
-        hash: txHash,
-        status: 'confirmed',
-      };
+      const result = await contractService.sell(poolAddress, amount, minReturn);
 
-      // Refresh STRK balance
       await refreshBalances();
       onSuccess?.(result);
 
       return result;
     } catch (err) {
       console.error('Sell failed:', err);
-      const tradingError = parseContractError(err);
-      setError(tradingError);
-      onError?.(tradingError);
+      reportError(toTradingError(err));
       throw err;
     } finally {
       setIsSelling(false);
     }
-  }, [account, address, poolAddress, tokenAddress, addresses.quoteToken, getSimulatedBalance, getSellReturn, saveSimulatedBalance, refreshBalances, onSuccess, onError]);
+  }, [account, address, poolAddress, tokenAddress, contractService, simulationMode, userTokenBalance, refreshBalances, reportError, toTradingError, onSuccess]);
 
   return {
     getBuyCost,
@@ -8,9 +8,10 @@ import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useAccount } from '@starknet-react/core';
 import { PrivateTransaction } from '../@types/privacy';
 import { useStealthAddress } from './useStealthAddress';
+import { getPrivacyVault } from '../services/privacyVault';
 
-// Storage key for transaction history
-const TX_HISTORY_STORAGE_KEY = 'zump_tx_history';
+// Vault collection for transaction history
+const TX_HISTORY_COLLECTION = 'transactions';
 
 export interface UseTransactionHistoryReturn {
   transactions: PrivateTransaction[];
@@ -44,41 +45,52 @@ export function useTransactionHistory(): UseTransactionHistoryReturn {
     return stealthAddresses.map(sa => sa.viewTag);
   }, [stealthAddresses]);
 
-  // Load transactions from localStorage on mount
-  useEffect(() => {
-    if (walletAddress && isConnected) {
-      loadTransactions();
-    } else {
+  // Load transactions from the vault (empty while it is locked)
+  const loadTransactions = useCallback(async () => {
+    const vault = getPrivacyVault();
+    if (!walletAddress || !vault.isUnlocked(walletAddress)) {
       setTransactions([]);
+      return;
     }
-  }, [walletAddress, isConnected]);
 
-  // Load transactions from localStorage
-  const loadTransactions = useCallback(() => {
-    if (!walletAddress) return;
-    
     try {
-      const storageKey = `${TX_HISTORY_STORAGE_KEY}_${walletAddress}`;
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored) as PrivateTransaction[];
-        setTransactions(parsed);
-      }
+      setTransactions(
+        await vault.read<PrivateTransaction[]>(walletAddress, TX_HISTORY_COLLECTION, [])
+      );
     } catch (err) {
       console.error('Failed to load transactions:', err);
     }
   }, [walletAddress]);
 
-  // Save transactions to localStorage
+  // Load transactions on mount
+  useEffect(() => {
+    if (walletAddress && isConnected) {
+      loadTransactions();
+    } else {
+      setTransactions([]);
+    }
+  }, [walletAddress, isConnected, loadTransactions]);
+
+  // Reload when the vault is unlocked or the history changes elsewhere
+  useEffect(() => {
+    if (!walletAddress) return undefined;
+    return getPrivacyVault().subscribe((wallet, collection) => {
+      if (BigInt(wallet) !== BigInt(walletAddress)) return;
+      if (collection === null || collection === TX_HISTORY_COLLECTION) {
+        loadTransactions();
+      }
+    });
+  }, [walletAddress, loadTransactions]);
+
+  // Save transactions to the vault
   const saveTransactions = useCallback((txs: PrivateTransaction[]) => {
     if (!walletAddress) return;
-    
-    try {
-      const storageKey = `${TX_HISTORY_STORAGE_KEY}_${walletAddress}`;
-      localStorage.setItem(storageKey, JSON.stringify(txs));
-    } catch (err) {
-      console.error('Failed to save transactions:', err);
-    }
+
+    getPrivacyVault()
+      .write(walletAddress, TX_HISTORY_COLLECTION, txs)
+      .catch((err) => {
+        console.error('Failed to save transactions:', err);
+      });
   }, [walletAddress]);
 
   // Filter transactions by user's view tags (only show user's own transactions)
@@ -116,8 +128,8 @@ export function useTransactionHistory(): UseTransactionHistoryReturn {
 
     try {
       // In production, this would fetch from an indexer or blockchain
-      // For now, we just reload from localStorage
-      loadTransactions();
+      // For now, we just reload from the vault
+      await loadTransactions();
       
       // Simulate network delay
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -131,16 +143,25 @@ export function useTransactionHistory(): UseTransactionHistoryReturn {
   }, [isConnected, walletAddress, loadTransactions]);
 
   // Add a new transaction
+  // Read-modify-write: this hook's list is empty while the vault is locked,
+  // and a flow may unlock it just before recording
   const addTransaction = useCallback((tx: Omit<PrivateTransaction, 'id'>) => {
     const newTx: PrivateTransaction = {
       ...tx,
       id: generateTransactionId(),
     };
 
-    const updatedTxs = [newTx, ...transactions];
-    setTransactions(updatedTxs);
-    saveTransactions(updatedTxs);
-  }, [transactions, saveTransactions]);
+    setTransactions((prev) => [newTx, ...prev]);
+    if (!walletAddress) return;
+
+    const vault = getPrivacyVault();
+    vault
+      .read<PrivateTransaction[]>(walletAddress, TX_HISTORY_COLLECTION, [])
+      .then((current) => saveTransactions([newTx, ...current]))
+      .catch((err) => {
+        console.error('Failed to save transactions:', err);
+      });
+  }, [walletAddress, saveTransactions]);
 
   // Filter by specific view tag
   const filterByViewTag = useCallback((viewTag: string | null) => {
@@ -156,8 +177,11 @@ export function useTransactionHistory(): UseTransactionHistoryReturn {
   const clearHistory = useCallback(() => {
     setTransactions([]);
     if (walletAddress) {
-      const storageKey = `${TX_HISTORY_STORAGE_KEY}_${walletAddress}`;
-      localStorage.removeItem(storageKey);
+      getPrivacyVault()
+        .remove(walletAddress, TX_HISTORY_COLLECTION)
+        .catch((err) => {
+          console.error('Failed to clear transactions:', err);
+        });
     }
   }, [walletAddress]);
 
@@ -79,6 +79,12 @@ const navConfig = [
 
       // BLOG
       { title: '🚀 Launch Private Memecoin', icon: ICONS.label, path: PATH_DASHBOARD.createDn404.create, caption: DN404_DEFINE},
+      {
+        title: '🛠 Admin Console',
+        path: PATH_DASHBOARD.admin,
+        icon: ICONS.lock,
+        caption: 'Owner-only protocol settings. Requires the wallet that owns the contracts.',
+      },
       {
         title: '📚 Documentation',
         path: 'https://github.com/AjnasNB/zump.fun',
@@ -0,0 +1,130 @@
+import {Helmet} from 'react-helmet-async';
+import {useAccount} from '@starknet-react/core';
+// @mui
+import {Alert,Container,Grid,LinearProgress,Stack,Typography} from '@mui/material';
+// routes
+import { PATH_DASHBOARD } from '../../routes/paths';
+// hooks
+import { useProtocolAdmin } from '../../hooks/useProtocolAdmin';
+import { useDeploymentCheck } from '../../hooks/useDeploymentCheck';
+import { MANIFEST_CONTRACTS } from '../../config/deploymentManifest';
+// services
+import { getAdminService } from '../../services/adminService';
+// components
+import CustomBreadcrumbs from '../../components/custom-breadcrumbs';
+import {useSettingsContext} from '../../components/settings';
+import { TradingErrorDisplay } from '../../components/trading';
+// assets
+import { ForbiddenIllustration } from '../../assets/illustrations';
+// sections
+import { AdminChangeQueue, AdminContractCard } from '../../sections/@dashboard/admin';
+
+// ----------------------------------------------------------------------
+
+export default function AdminConsolePage() {
+  const { themeStretch } = useSettingsContext();
+  const { address } = useAccount();
+
+  const {
+    ownerships,
+    isOwner,
+    snapshot,
+    isLoading,
+    changes,
+    isPreparing,
+    isSubmitting,
+    lastResult,
+    error,
+    clearError,
+    queueChange,
+    removeChange,
+    clearChanges,
+    submitChanges,
+  } = useProtocolAdmin();
+
+  const { outdated } = useDeploymentCheck(MANIFEST_CONTRACTS);
+
+  const contracts = getAdminService().getConfiguredContracts();
+
+  const renderDenied = (
+    <Stack alignItems="center" sx={{ textAlign: 'center', py: 5 }}>
+      <Typography variant="h4" paragraph>
+        {address ? 'Owner Access Only' : 'Connect Your Wallet'}
+      </Typography>
+      <Typography sx={{ color: 'text.secondary' }}>
+        {address
+          ? 'The connected wallet does not own any of the protocol contracts.'
+          : 'Connect the wallet that owns the protocol contracts to manage them.'}
+      </Typography>
+      <ForbiddenIllustration sx={{ height: 260, my: { xs: 5, sm: 10 } }} />
+    </Stack>
+  );
+
+  return (
+    <>
+      <Helmet>
+        <title> Admin Console | Zump.fun</title>
+      </Helmet>
+
+      <Container maxWidth={themeStretch ? false : 'lg'}>
+        <CustomBreadcrumbs
+          heading="Admin Console"
+          links={[
+            { name: 'Dashboard', href: PATH_DASHBOARD.root },
+            { name: 'Admin Console' },
+          ]}
+        />
+
+        {isLoading && ownerships.length === 0 && <LinearProgress sx={{ mb: 3 }} />}
+
+        {contracts.length === 0 && (
+          <Alert severity="warning">No protocol contract addresses are configured for this network.</Alert>
+        )}
+
+        {outdated.length > 0 && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            The deployed {outdated.join(', ')} {outdated.length === 1 ? 'class does' : 'classes do'} not match
+            the ABIs this app was built with. Redeploy {outdated.length === 1 ? 'it' : 'them'} and sync the
+            deployment manifest.
+          </Alert>
+        )}
+
+        {!isLoading && contracts.length > 0 && !isOwner && renderDenied}
+
+        {isOwner && (
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={7}>
+              <Stack spacing={3}>
+                {contracts.map((contract) => (
+                  <AdminContractCard
+                    key={contract.id}
+                    contract={contract}
+                    ownership={ownerships.find((item) => item.contract === contract.id)}
+                    snapshot={snapshot}
+                    isPreparing={isPreparing}
+                    onQueue={queueChange}
+                  />
+                ))}
+              </Stack>
+            </Grid>
+
+            <Grid item xs={12} md={5}>
+              <Stack spacing={3} sx={{ position: { md: 'sticky' }, top: { md: 88 } }}>
+                <TradingErrorDisplay error={error} onClose={clearError} />
+
+                <AdminChangeQueue
+                  changes={changes}
+                  isSubmitting={isSubmitting}
+                  lastResult={lastResult}
+                  onRemove={removeChange}
+                  onClear={clearChanges}
+                  onSubmit={submitChanges}
+                />
+              </Stack>
+            </Grid>
+          </Grid>
+        )}
+      </Container>
+    </>
+  );
+}
@@ -1,8 +1,8 @@
-import {useEffect,useState} from 'react';
+import {useCallback,useEffect,useState} from 'react';
 import {Helmet} from 'react-helmet-async';
 import {useParams, useLocation} from 'react-router-dom';
 // @mui
-import {Box,Card,Container,Divider,Grid,Stack,Tab,Tabs,Typography,LinearProgress,Alert,Chip} from '@mui/material';
+import {Box,Card,Container,Divider,Grid,Stack,Tab,Tabs,Typography,LinearProgress,Alert} from '@mui/material';
 import {alpha} from '@mui/material/styles';
 // redux
 import {Notpump_DN404} from 'src/descriptions/DN404';
@@ -10,6 +10,11 @@ import {addToCart,getProduct,gotoStep} from '../../redux/slices/DN404';
 import {useDispatch,useSelector} from '../../redux/store';
 // hooks
 import { useTokenDetail } from '../../hooks/useTokenDetail';
+import { useMigrationStatus } from '../../hooks/useMigrationStatus';
+import { useLiquidityLock } from '../../hooks/useLiquidityLock';
+import { useDeploymentCheck } from '../../hooks/useDeploymentCheck';
+// config
+import { ManifestContractName } from '../../config/deploymentManifest';
 // utils
 import { formatBigIntWithDecimals } from '../../utils/bondingCurveUtils';
 // routes
@@ -22,11 +27,13 @@ import Markdown from '../../components/markdown';
 import {useSettingsContext} from '../../components/settings';
 import {SkeletonProductDetails} from '../../components/skeleton';
 import Label from '../../components/label';
+import { MigrationProgress, MIGRATION_PHASE_LABELS } from '../../components/trading';
 // sections
 import CartWidget from '../../sections/@dashboard/e-commerce/CartWidget';
 import {
   DN404DetailsCarousel,
   DN404DetailsSummary,
+  DN404LiquidityLockPanel,
   ProductDetailsReview,
 } from '../../sections/@dashboard/e-commerce/details';
 import DN404TradeHistory from './DN404TradeHistory';
@@ -51,6 +58,19 @@ const SUMMARY = [
   },
 ];
 
+// An unlock within this window gets a banner on the details page
+const RECENT_UNLOCK_WINDOW = 7 * 24 * 60 * 60; // seconds
+
+const TRADING_CONTRACTS: ManifestContractName[] = [
+  'ProtocolConfig',
+  'PumpFactory',
+  'CommitmentTree',
+  'NullifierRegistry',
+  'ZKProofVerifier',
+  'PrivacyRelayer',
+  'ZkDexHook',
+];
+
 // ----------------------------------------------------------------------
 
 export default function DN404DetailsPage() {
@@ -82,6 +102,33 @@ export default function DN404DetailsPage() {
     pollingInterval: 10000, // Poll every 10 seconds for price updates
   });
 
+  // Bonding curve → DEX migration (threshold, MigrationCompleted, LP lock)
+  // Requirements: 8.4
+  const { status: migration, refetch: refetchMigration } = useMigrationStatus(poolAddress, {
+    autoFetch: Boolean(poolAddress),
+    pollingInterval: 15000,
+  });
+
+  // ZkDexHook LP lock of the graduated liquidity
+  // Requirements: 8.4
+  const {
+    lock: liquidityLock,
+    isAvailable: liquidityLockAvailable,
+    isLoading: liquidityLockLoading,
+  } = useLiquidityLock(poolAddress, {
+    autoFetch: Boolean(poolAddress),
+    pollingInterval: 30000,
+  });
+
+  // Contracts a trade, private trade or graduation goes through
+  const { outdated: outdatedContracts } = useDeploymentCheck(TRADING_CONTRACTS);
+
+  // A buy can push the reserve over the threshold
+  const handleTradeSuccess = useCallback(() => {
+    refetchOnChain();
+    refetchMigration();
+  }, [refetchOnChain, refetchMigration]);
+
   // Combined loading state
   const isLoading = reduxLoading || onChainLoading;
 
@@ -103,7 +150,12 @@ export default function DN404DetailsPage() {
   const displayName = onChainToken?.name || product?.name || 'Unknown Token';
   const displaySymbol = onChainToken?.symbol || product?.symbol || '???';
   const displayDescription = onChainToken?.description || product?.description || '';
-  const isMigrated = onChainToken?.migrated || product?.isMigrated || false;
+  const isMigrated = migration?.migrated || onChainToken?.migrated || product?.isMigrated || false;
+  const migrationPhase = migration?.phase ?? (isMigrated ? 'graduated' : 'bonding');
+  const recentlyUnlocked =
+    liquidityLock?.state === 'unlocked' &&
+    (liquidityLock.unlockedAt === null ||
+      Date.now() / 1000 - liquidityLock.unlockedAt <= RECENT_UNLOCK_WINDOW);
   const progress = onChainToken?.progress || product?.bondingCurveProccess || 0;
   const currentPrice = onChainToken?.currentPrice;
   const tokensSold = onChainToken?.tokensSold;
@@ -148,24 +200,36 @@ export default function DN404DetailsPage() {
           </Alert>
         )}
 
-        {/* Migrated pool status - Requirements: 4.4 */}
-        {isMigrated && (
-          <Alert 
-            severity="info" 
-            sx={{ mb: 2 }}
-            action={
-              <Chip 
-                label="Trade on DEX" 
-                color="primary" 
-                size="small" 
-                onClick={() => {
-                  // TODO: Redirect to DEX
-                  window.open('https://app.avnu.fi', '_blank');
-                }}
-              />
-            }
-          >
-            This token has been migrated to a public DEX. Bonding curve trading is no longer available.
+        {outdatedContracts.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            This network runs an older version of {outdatedContracts.join(', ')}. Trades through{' '}
+            {outdatedContracts.length === 1 ? 'it' : 'them'} may fail until the contracts are redeployed.
+          </Alert>
+        )}
+
+        {/* Migration status - Requirements: 4.4, 8.4 */}
+        {migrationPhase === 'graduating' && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This token crossed its migration threshold and is graduating to a DEX. Bonding curve trading is closing.
+          </Alert>
+        )}
+        {migrationPhase === 'graduated' && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            This token graduated to a DEX. Trades below are quoted and routed through the DEX.
+          </Alert>
+        )}
+
+        {/* Liquidity lock warnings - Requirements: 8.4 */}
+        {recentlyUnlocked && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            The DEX liquidity of this token was recently unlocked
+            {liquidityLock?.unlockedAt ? ` on ${new Date(liquidityLock.unlockedAt * 1000).toLocaleString()}` : ''}.
+            The LP tokens are no longer held by the hook and can be withdrawn from the pool.
+          </Alert>
+        )}
+        {liquidityLock?.state === 'unlockable' && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            The liquidity lock of this token has expired. The LP tokens can be unlocked and withdrawn at any time.
           </Alert>
         )}
 
@@ -215,6 +279,13 @@ export default function DN404DetailsPage() {
                       </Stack>
                     </Box>
 
+                    {/* Migration Threshold Progress - Requirements: 8.4 */}
+                    {migration && (
+                      <Box sx={{ mb: 3 }}>
+                        <MigrationProgress status={migration} />
+                      </Box>
+                    )}
+
                     {/* Pool Metrics Grid */}
                     <Grid container spacing={2}>
                       {/* Current Price - Requirements: 4.2 */}
@@ -262,9 +333,9 @@ export default function DN404DetailsPage() {
                           <Box sx={{ mt: 0.5 }}>
                             <Label 
                               variant="soft" 
-                              color={isMigrated ? 'success' : 'primary'}
+                              color={MIGRATION_PHASE_LABELS[migrationPhase].color}
                             >
-                              {isMigrated ? 'Migrated to DEX' : 'Active'}
+                              {migrationPhase === 'bonding' ? 'Active' : MIGRATION_PHASE_LABELS[migrationPhase].label}
                             </Label>
                           </Box>
                         </Box>
@@ -285,6 +356,11 @@ export default function DN404DetailsPage() {
                     </Box>
                   </Card>
                 )}
+
+                {/* Liquidity Lock Panel - Requirements: 8.4 */}
+                {liquidityLockAvailable && (migrationPhase !== 'bonding' || liquidityLock) && (
+                  <DN404LiquidityLockPanel lock={liquidityLock} isLoading={liquidityLockLoading} />
+                )}
               </Grid>
 
               <Grid item xs={12} md={6} lg={5}>
@@ -298,7 +374,7 @@ export default function DN404DetailsPage() {
                   tokenAddress={tokenAddress}
                   currentPrice={currentPrice}
                   isMigrated={isMigrated}
-                  onTradeSuccess={refetchOnChain}
+                  onTradeSuccess={handleTradeSuccess}
                 />
               </Grid>
             </Grid>
@@ -43,6 +43,11 @@ export const DN404Fairlaunch = Loadable(
 export const DN404DetailsPage = Loadable(
   lazy(() => import('../pages/dashboard/DN404DetailsPage'))
 );
+
+// DASHBOARD: ADMIN
+export const AdminConsolePage = Loadable(
+  lazy(() => import('../pages/dashboard/AdminConsolePage'))
+);
 export const EcommerceProductListPage = Loadable(
   lazy(() => import('../pages/dashboard/EcommerceProductListPage'))
 );
@@ -38,6 +38,7 @@ import {
   EcommerceProductEditPage,
   EcommerceProductCreatePage,
   DN404DetailsPage,
+  AdminConsolePage,
   // Dashboard: Invoice
   DN404TradeHistory,
   InvoiceDetailsPage,
@@ -245,6 +246,7 @@ export default function Router() {
         },
         { path: 'calendar', element: <CalendarPage /> },
         { path: 'kanban', element: <KanbanPage /> },
+        { path: 'admin', element: <AdminConsolePage /> },
         { path: 'permission-denied', element: <PermissionDeniedPage /> },
         { path: 'blank', element: <BlankPage /> },
       ],
@@ -0,0 +1,139 @@
+import {useEffect,useState} from 'react';
+// @mui
+import {Box,Button,CircularProgress,FormControlLabel,Stack,Switch,TextField,Typography} from '@mui/material';
+// services
+import {
+  AdminAction,
+  AdminActionId,
+  AdminFormValues,
+  AdminValues,
+  formatAdminValue,
+  parseAdminValue,
+  toAdminFormValue,
+} from '../../../services/adminService';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  action: AdminAction;
+  /** Current on-chain values; undefined for per-address actions */
+  current?: AdminValues;
+  disabled?: boolean;
+  isPreparing?: boolean;
+  onQueue: (actionId: AdminActionId, form: AdminFormValues) => Promise<unknown>;
+};
+
+const toForm = (action: AdminAction, current?: AdminValues): AdminFormValues =>
+  action.fields.reduce<AdminFormValues>((form, field) => {
+    const value = current?.[field.name];
+    return {
+      ...form,
+      [field.name]: value === undefined ? (field.kind === 'bool' ? false : '') : toAdminFormValue(field, value),
+    };
+  }, {});
+
+export default function AdminActionForm({ action, current, disabled = false, isPreparing = false, onQueue }: Props) {
+  const [form, setForm] = useState<AdminFormValues>(() => toForm(action, current));
+  const [touched, setTouched] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Prefill with the on-chain values until the admin edits the form
+  useEffect(() => {
+    if (!touched) {
+      setForm(toForm(action, current));
+    }
+  }, [action, current, touched]);
+
+  const handleChange = (name: string, value: string | boolean) => {
+    setTouched(true);
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => ({ ...prev, [name]: '' }));
+  };
+
+  const handleQueue = async () => {
+    const errors = action.fields.reduce<Record<string, string>>((acc, field) => {
+      try {
+        parseAdminValue(field, form[field.name] ?? '');
+        return acc;
+      } catch {
+        return { ...acc, [field.name]: `Invalid ${field.kind === 'bps' ? 'basis points (0-10000)' : field.kind}` };
+      }
+    }, {});
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const change = await onQueue(action.id, form);
+    if (change && action.toggle) {
+      setForm(toForm(action));
+      setTouched(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1.5 }}>
+        {action.label}
+        <Typography component="span" variant="caption" color="text.disabled" sx={{ ml: 1, fontFamily: 'monospace' }}>
+          {action.entrypoint}
+        </Typography>
+      </Typography>
+
+      <Stack spacing={1.5}>
+        {action.fields.map((field) => {
+          const currentValue = current?.[field.name];
+          const helper = fieldErrors[field.name] ||
+            (currentValue !== undefined ? `Current: ${formatAdminValue(field.kind, currentValue)}` : undefined);
+
+          if (field.kind === 'bool') {
+            return (
+              <Stack key={field.name} direction="row" alignItems="center" justifyContent="space-between">
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={Boolean(form[field.name])}
+                      onChange={(event) => handleChange(field.name, event.target.checked)}
+                      disabled={disabled}
+                    />
+                  }
+                  label={field.label}
+                />
+                {helper && (
+                  <Typography variant="caption" color="text.secondary">
+                    {helper}
+                  </Typography>
+                )}
+              </Stack>
+            );
+          }
+
+          return (
+            <TextField
+              key={field.name}
+              fullWidth
+              size="small"
+              label={field.label}
+              value={form[field.name] ?? ''}
+              onChange={(event) => handleChange(field.name, event.target.value)}
+              error={Boolean(fieldErrors[field.name])}
+              helperText={helper}
+              disabled={disabled}
+              placeholder={field.kind === 'address' ? '0x...' : '0'}
+              InputProps={{ sx: field.kind === 'address' ? { fontFamily: 'monospace' } : undefined }}
+            />
+          );
+        })}
+
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={handleQueue}
+          disabled={disabled || isPreparing}
+          startIcon={isPreparing && <CircularProgress size={16} color="inherit" />}
+          sx={{ alignSelf: 'flex-end' }}
+        >
+          Add to Batch
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,134 @@
+// @mui
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardHeader,
+  CircularProgress,
+  IconButton,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+// services
+import { ADMIN_CONTRACTS, AdminChange, formatAdminValue } from '../../../services/adminService';
+import { TransactionResult } from '../../../services/contractService';
+// utils
+import { getExplorerTxUrl } from '../../../utils/launchUtils';
+// components
+import Iconify from '../../../components/iconify';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  changes: AdminChange[];
+  isSubmitting?: boolean;
+  lastResult?: TransactionResult | null;
+  onRemove: (key: string) => void;
+  onClear: () => void;
+  onSubmit: () => void;
+};
+
+const contractLabel = (change: AdminChange): string =>
+  ADMIN_CONTRACTS.find((contract) => contract.id === change.action.contract)?.label ?? change.action.contract;
+
+export default function AdminChangeQueue({
+  changes,
+  isSubmitting = false,
+  lastResult,
+  onRemove,
+  onClear,
+  onSubmit,
+}: Props) {
+  const noOps = changes.filter((change) => change.diff.every((row) => !row.changed));
+
+  return (
+    <Card>
+      <CardHeader
+        title="Pending Changes"
+        subheader={`${changes.length} call${changes.length === 1 ? '' : 's'} in one multicall`}
+        action={
+          changes.length > 0 && (
+            <Button size="small" color="inherit" onClick={onClear} disabled={isSubmitting}>
+              Clear
+            </Button>
+          )
+        }
+      />
+
+      <Stack spacing={2} sx={{ p: 3 }}>
+        {changes.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Add changes from the contract cards to review them here before submitting.
+          </Typography>
+        )}
+
+        {changes.map((change) => (
+          <Box key={change.key} sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+              <Typography variant="subtitle2">
+                {contractLabel(change)}.{change.action.entrypoint}
+              </Typography>
+              <IconButton size="small" onClick={() => onRemove(change.key)} disabled={isSubmitting}>
+                <Iconify icon="eva:close-fill" width={16} />
+              </IconButton>
+            </Stack>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Current</TableCell>
+                  <TableCell>New</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {change.diff.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{formatAdminValue(row.kind, row.current)}</TableCell>
+                    <TableCell sx={{ fontWeight: row.changed ? 'bold' : 'normal', color: row.changed ? 'warning.main' : 'text.secondary' }}>
+                      {formatAdminValue(row.kind, row.next)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+
+        {noOps.length > 0 && (
+          <Alert severity="info">
+            {noOps.length} queued call{noOps.length === 1 ? ' does' : 's do'} not change any value.
+          </Alert>
+        )}
+
+        {lastResult && changes.length === 0 && (
+          <Alert severity="success">
+            Changes applied.{' '}
+            <Link href={getExplorerTxUrl(lastResult.hash)} target="_blank" rel="noopener">
+              View transaction
+            </Link>
+          </Alert>
+        )}
+
+        <Button
+          fullWidth
+          size="large"
+          variant="contained"
+          onClick={onSubmit}
+          disabled={changes.length === 0 || isSubmitting}
+          startIcon={isSubmitting && <CircularProgress size={20} color="inherit" />}
+        >
+          {isSubmitting ? 'Submitting...' : `Submit ${changes.length} Change${changes.length === 1 ? '' : 's'}`}
+        </Button>
+      </Stack>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+// @mui
+import {Card,CardHeader,Divider,Link,Stack,Typography} from '@mui/material';
+// services
+import {
+  ADMIN_ACTIONS,
+  AdminActionId,
+  AdminContract,
+  AdminFormValues,
+  AdminOwnership,
+  AdminSnapshot,
+} from '../../../services/adminService';
+// utils
+import { formatAddress } from '../../../utils/formatAddress';
+import { getExplorerAddressUrl } from '../../../utils/launchUtils';
+// components
+import Label from '../../../components/label';
+//
+import AdminActionForm from './AdminActionForm';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  contract: AdminContract;
+  ownership?: AdminOwnership;
+  snapshot: AdminSnapshot;
+  isPreparing?: boolean;
+  onQueue: (actionId: AdminActionId, form: AdminFormValues) => Promise<unknown>;
+};
+
+export default function AdminContractCard({ contract, ownership, snapshot, isPreparing = false, onQueue }: Props) {
+  const actions = ADMIN_ACTIONS.filter((action) => action.contract === contract.id);
+  const isOwner = Boolean(ownership?.isOwner);
+
+  return (
+    <Card>
+      <CardHeader
+        title={contract.label}
+        subheader={
+          ownership && (
+            <Link
+              href={getExplorerAddressUrl(ownership.address)}
+              target="_blank"
+              rel="noopener"
+              variant="caption"
+              sx={{ fontFamily: 'monospace' }}
+            >
+              {formatAddress(ownership.address)}
+            </Link>
+          )
+        }
+        action={
+          <Label variant="soft" color={isOwner ? 'success' : 'default'}>
+            {isOwner ? 'Owner' : 'Read only'}
+          </Label>
+        }
+      />
+
+      <Stack spacing={2} sx={{ p: 3 }}>
+        <Typography variant="caption" color="text.secondary">
+          Owner: {ownership?.owner ? formatAddress(ownership.owner) : 'Unknown'}
+        </Typography>
+
+        <Divider sx={{ borderStyle: 'dashed' }} />
+
+        {actions.map((action) => (
+          <AdminActionForm
+            key={action.id}
+            action={action}
+            current={snapshot[action.id]}
+            disabled={!isOwner}
+            isPreparing={isPreparing}
+            onQueue={onQueue}
+          />
+        ))}
+      </Stack>
+    </Card>
+  );
+}
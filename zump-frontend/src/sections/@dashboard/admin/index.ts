@@ -0,0 +1,3 @@
+export { default as AdminActionForm } from './AdminActionForm';
+export { default as AdminContractCard } from './AdminContractCard';
+export { default as AdminChangeQueue } from './AdminChangeQueue';
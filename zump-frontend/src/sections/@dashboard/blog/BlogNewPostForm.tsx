@@ -1,6 +1,6 @@
 import * as Yup from 'yup';
 import { useNavigate } from 'react-router-dom';
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 // form
 import { yupResolver } from '@hookform/resolvers/yup';
 import { useForm } from 'react-hook-form';
@@ -24,15 +24,28 @@ import {
   StepLabel,
   StepContent,
   LinearProgress,
+  MenuItem,
 } from '@mui/material';
 // routes
 import { PATH_DASHBOARD } from '../../../routes/paths';
 // hooks
 import { useTokenLaunch, LaunchFormData, formatAmount } from '../../../hooks/useTokenLaunch';
 import { useWallet } from '../../../hooks/useWallet';
+import { useLaunchLimits } from '../../../hooks/useLaunchLimits';
+import { useStealthAddress } from '../../../hooks/useStealthAddress';
+import { usePrivacyVault } from '../../../hooks/usePrivacyVault';
+import {
+  LaunchCurveValues,
+  LaunchValidationError,
+  createLaunchCurveSchema,
+} from '../../../services/launchValidation';
 // components
 import { useSnackbar } from '../../../components/snackbar';
+import { CurveDesigner, CurvePreview } from '../../../components/launch';
+import { CurveFormValues } from '../../../utils/curveDesigner';
+import { formatAddress } from '../../../utils/launchUtils';
 import FormProvider, {
+  RHFSelect,
   RHFSwitch,
   RHFEditor,
   RHFUpload,
@@ -83,6 +96,9 @@ export interface TokenLaunchFormValues {
   publish: boolean;
   fairlaunch: boolean;
   derivative: boolean;
+  anonymous: boolean;
+  /** Stealth address to launch under; empty creates a new one */
+  stealthCreator: string;
   
   // Legacy fields for preview compatibility
   metaTitle: string;
@@ -104,20 +120,38 @@ export default function BlogNewPostForm() {
     transactionHash,
     tokenAddress,
     deploymentStep,
+    pendingLaunch,
+    hasLockedPendingLaunch,
+    proofProgress,
+    recoverLaunch,
+    discardPendingLaunch,
     reset: resetLaunch,
   } = useTokenLaunch();
+  const { stealthAddresses } = useStealthAddress();
+  const { unlock: unlockVault, isBusy: isUnlockingVault } = usePrivacyVault();
 
-  // Deployment steps configuration
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  const [isAnonymousLaunch, setIsAnonymousLaunch] = useState(false);
+
+  // Deployment steps configuration (the on-chain check only runs when finishing a launch,
+  // the stealth creator and proof steps only for anonymous launches)
+  const ANONYMOUS_STEPS = ['stealth_creator', 'proving'];
   const DEPLOYMENT_STEPS = [
     { key: 'preparing', label: 'Preparing Launch', description: 'Validating parameters...' },
+    { key: 'stealth_creator', label: 'Stealth Creator', description: 'Preparing the stealth address the launch is registered under...' },
     { key: 'uploading_image', label: 'Uploading Image', description: 'Uploading token image to storage...' },
-    { key: 'deploying_token', label: 'Deploy Token Contract', description: 'Sign transaction to deploy MemecoinToken (1/4)' },
-    { key: 'deploying_pool', label: 'Deploy Pool Contract', description: 'Sign transaction to deploy BondingCurvePool (2/4)' },
-    { key: 'updating_minter', label: 'Update Token Minter', description: 'Sign transaction to set pool as minter (3/4)' },
-    { key: 'registering', label: 'Register Launch', description: 'Sign transaction to register with PumpFactory (4/4)' },
+    { key: 'recovering', label: 'Checking Launch', description: 'Checking which launch steps are already on chain...' },
+    { key: 'proving', label: 'Generating Launch Proof', description: 'Proving the launch for ZKProofVerifier...' },
+    { key: 'signing', label: 'Sign Launch Transaction', description: 'Sign one transaction that deploys the token and pool, sets the minter and registers with PumpFactory' },
+    { key: 'confirming', label: 'Confirming', description: 'Waiting for the launch transaction to be accepted...' },
     { key: 'saving_metadata', label: 'Saving Metadata', description: 'Saving token metadata to database...' },
     { key: 'complete', label: 'Complete!', description: 'Your token has been launched successfully!' },
-  ];
+  ]
+    .filter((step) => isRecovering || step.key !== 'recovering')
+    .filter((step) => isAnonymousLaunch || !ANONYMOUS_STEPS.includes(step.key))
+    // A recovered launch already has its stealth creator
+    .filter((step) => !isRecovering || step.key !== 'stealth_creator');
 
   // Get current step index
   const getCurrentStepIndex = () => {
@@ -131,7 +165,9 @@ export default function BlogNewPostForm() {
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [launchResult, setLaunchResult] = useState<{ tokenAddress: string; symbol: string } | null>(null);
 
-  const NewTokenSchema = Yup.object().shape({
+  const { limits, error: limitsError } = useLaunchLimits();
+
+  const NewTokenSchema = useMemo(() => Yup.object().shape({
     title: Yup.string()
       .required('Token name is required')
       .max(31, 'Token name must be 31 characters or less'),
@@ -142,18 +178,7 @@ export default function BlogNewPostForm() {
     description: Yup.string().required('Description is required'),
     tags: Yup.array().min(1, 'Must have at least 1 tag'),
     cover: Yup.mixed().nullable(),
-    basePrice: Yup.string()
-      .required('Base price is required')
-      .matches(/^\d*\.?\d+$/, 'Must be a valid number'),
-    slope: Yup.string()
-      .required('Slope is required')
-      .matches(/^\d*\.?\d+$/, 'Must be a valid number'),
-    maxSupply: Yup.string()
-      .required('Max supply is required')
-      .matches(/^\d*\.?\d+$/, 'Must be a valid number'),
-    migrationThreshold: Yup.string()
-      .matches(/^\d*\.?\d*$/, 'Must be a valid number'),
-  });
+  }).concat(createLaunchCurveSchema(limits)), [limits]);
 
   const defaultValues: TokenLaunchFormValues = {
     title: '',
@@ -172,6 +197,8 @@ export default function BlogNewPostForm() {
     publish: true,
     fairlaunch: true,
     derivative: false,
+    anonymous: false,
+    stealthCreator: '',
     metaTitle: '',
     metaDescription: '',
     metaKeywords: [],
@@ -186,6 +213,7 @@ export default function BlogNewPostForm() {
     reset,
     watch,
     setValue,
+    setError,
     handleSubmit,
     formState: { isSubmitting, isValid },
   } = methods;
@@ -231,6 +259,8 @@ export default function BlogNewPostForm() {
         websiteUrl: values.websiteUrl || undefined,
         twitterUrl: values.twitterUrl || undefined,
         telegramUrl: values.telegramUrl || undefined,
+        anonymous: values.anonymous,
+        stealthCreator: values.stealthCreator || undefined,
       };
 
       await estimateGas(formData);
@@ -264,8 +294,11 @@ export default function BlogNewPostForm() {
         websiteUrl: data.websiteUrl || undefined,
         twitterUrl: data.twitterUrl || undefined,
         telegramUrl: data.telegramUrl || undefined,
+        anonymous: data.anonymous,
+        stealthCreator: data.stealthCreator || undefined,
       };
 
+      setIsAnonymousLaunch(data.anonymous);
       const result = await launch(formData);
       
       // Store result and show success modal
@@ -283,6 +316,11 @@ export default function BlogNewPostForm() {
       }
     } catch (err) {
       console.error('Launch error:', err);
+      if (err instanceof LaunchValidationError) {
+        (Object.keys(err.fieldErrors) as (keyof LaunchCurveValues)[]).forEach((field) => {
+          setError(field, { type: 'validate', message: err.fieldErrors[field] });
+        });
+      }
       enqueueSnackbar(
         err instanceof Error ? err.message : 'Failed to launch token', 
         { variant: 'error' }
@@ -290,6 +328,41 @@ export default function BlogNewPostForm() {
     }
   };
 
+  /**
+   * Finish a launch interrupted in an earlier session
+   */
+  const handleRecoverLaunch = async () => {
+    const symbol = pendingLaunch?.plan.params.symbol || '';
+
+    setIsRecovering(true);
+    setIsAnonymousLaunch(Boolean(pendingLaunch?.plan.anonymous));
+    try {
+      const result = await recoverLaunch();
+      setLaunchResult({ tokenAddress: result.tokenAddress, symbol });
+      setShowSuccessModal(true);
+    } catch (err) {
+      console.error('Launch recovery error:', err);
+      enqueueSnackbar(
+        err instanceof Error ? err.message : 'Failed to finish launch',
+        { variant: 'error' }
+      );
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  /**
+   * Apply curve values picked in the curve designer
+   */
+  const handleCurveChange = useCallback(
+    (curve: CurveFormValues) => {
+      (Object.keys(curve) as (keyof CurveFormValues)[]).forEach((field) => {
+        setValue(field, curve[field], { shouldValidate: true });
+      });
+    },
+    [setValue]
+  );
+
   const handleDrop = useCallback(
     (acceptedFiles: File[]) => {
       const file = acceptedFiles[0];
@@ -322,6 +395,46 @@ export default function BlogNewPostForm() {
                 </Alert>
               )}
 
+              {/* Interrupted Launch */}
+              {pendingLaunch && !isLaunching && (
+                <Alert
+                  severity="info"
+                  action={
+                    <Stack direction="row" spacing={1}>
+                      <Button color="inherit" size="small" onClick={discardPendingLaunch}>
+                        Discard
+                      </Button>
+                      <Button color="inherit" size="small" variant="outlined" onClick={handleRecoverLaunch}>
+                        Finish Launch
+                      </Button>
+                    </Stack>
+                  }
+                >
+                  Your launch of <strong>{pendingLaunch.plan.params.symbol}</strong> was interrupted.
+                  Finish it to complete the remaining steps.
+                </Alert>
+              )}
+
+              {/* Interrupted launch in the locked vault */}
+              {hasLockedPendingLaunch && !isLaunching && (
+                <Alert
+                  severity="info"
+                  action={
+                    <LoadingButton
+                      color="inherit"
+                      size="small"
+                      variant="outlined"
+                      loading={isUnlockingVault}
+                      onClick={unlockVault}
+                    >
+                      Unlock Vault
+                    </LoadingButton>
+                  }
+                >
+                  An anonymous launch was interrupted. Unlock your privacy vault to finish or discard it.
+                </Alert>
+              )}
+
               {/* Launch Error */}
               {launchError && (
                 <Alert severity="error" onClose={() => resetLaunch()}>
@@ -377,6 +490,8 @@ export default function BlogNewPostForm() {
 
               {/* Bonding Curve Parameters */}
               <Typography variant="h6">Bonding Curve Parameters</Typography>
+
+              <CurveDesigner values={values} limits={limits} onChange={handleCurveChange} />
               
               <Grid container spacing={2}>
                 <Grid item xs={12} sm={6}>
@@ -406,12 +521,20 @@ export default function BlogNewPostForm() {
                 <Grid item xs={12} sm={6}>
                   <RHFTextField 
                     name="migrationThreshold" 
-                    label="Migration Threshold" 
+                    label="Migration Threshold (STRK)" 
                     type="text"
-                    helperText="Tokens sold before DEX migration"
+                    helperText="Pool reserve that triggers DEX migration"
                   />
                 </Grid>
               </Grid>
+
+              {limitsError && (
+                <Alert severity="warning">
+                  Could not load the protocol curve limits. Values are checked again when you launch.
+                </Alert>
+              )}
+
+              <CurvePreview values={values} limits={limits} />
             </Stack>
           </Card>
         </Grid>
@@ -441,8 +564,45 @@ export default function BlogNewPostForm() {
                   labelPlacement="start"
                   sx={{ mx: 0, width: 1, justifyContent: 'space-between' }}
                 />
+
+                <RHFSwitch
+                  name="anonymous"
+                  label="Anonymous Launch"
+                  labelPlacement="start"
+                  sx={{ mx: 0, width: 1, justifyContent: 'space-between' }}
+                />
               </div>
 
+              {/* Anonymous Launch */}
+              {values.anonymous && (
+                <>
+                  <RHFSelect
+                    name="stealthCreator"
+                    label="Stealth Creator"
+                    InputLabelProps={{ shrink: true }}
+                    SelectProps={{ displayEmpty: true }}
+                    helperText="Registered as the creator instead of your wallet"
+                  >
+                    <MenuItem value="">Create a new stealth address</MenuItem>
+                    {stealthAddresses.map((stealth) => (
+                      <MenuItem key={stealth.address} value={stealth.address}>
+                        {formatAddress(stealth.address)}
+                        {stealth.derivation === 'onchain' ? ' (on-chain)' : ''}
+                      </MenuItem>
+                    ))}
+                  </RHFSelect>
+
+                  <Alert severity="info">
+                    PumpFactory, the pool and the token listing record the stealth address as
+                    creator, and a launch proof is submitted to ZKProofVerifier. Still linkable
+                    to your wallet: it sends and pays for the launch transaction, deploys the
+                    token and pool through the UDC and is the token&apos;s initial minter. A
+                    stealth address generated on chain also emits your wallet in its
+                    StealthAddressGenerated event. Launch from a fresh wallet to hide these too.
+                  </Alert>
+                </>
+              )}
+
               {/* Tags */}
               <RHFAutocomplete
                 name="tags"
@@ -564,7 +724,7 @@ export default function BlogNewPostForm() {
             🚀 Launching Your Token
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            Please sign each transaction in your wallet
+            Please sign the launch transaction in your wallet
           </Typography>
         </DialogTitle>
         <DialogContent>
@@ -600,6 +760,11 @@ export default function BlogNewPostForm() {
                       <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
                         {step.description}
                       </Typography>
+                      {isActive && step.key === 'proving' && proofProgress && (
+                        <Typography variant="caption" color="text.secondary">
+                          {proofProgress.stage} ({Math.round(proofProgress.progress * 100)}%)
+                        </Typography>
+                      )}
                       {isActive && !isFailed && (
                         <LinearProgress 
                           sx={{ 
@@ -655,8 +820,8 @@ export default function BlogNewPostForm() {
               }}
             >
               <Typography variant="body2">
-                <strong>Do not close this window!</strong> Each step requires a wallet signature.
-                You will need to sign <strong>4 transactions</strong> in total.
+                <strong>Do not close this window!</strong> The whole launch is a single
+                transaction. If it is interrupted, you can finish it from this page later.
               </Typography>
             </Alert>
           </Box>
@@ -39,6 +39,9 @@ import Iconify from '../../../../components/iconify';
 import Label from '../../../../components/label';
 // hooks
 import { useTrading } from '../../../../hooks/useTrading';
+import { usePrivateTrading } from '../../../../hooks/usePrivateTrading';
+import { SlippageDetails, getSuggestedSlippage } from '../../../../utils/tradingErrors';
+import { DexSwapPanel, PrivateTradeOptions, TradingErrorDisplay } from '../../../../components/trading';
 // @mui
 // utils
 import { bgGradient } from '../../../../utils/cssStyles';
@@ -216,18 +219,37 @@ export default function DN404DetailsSummary({
 
   // ===========================================
   // On-Chain Trading State & Logic
-  // Requirements: 5.3, 6.3, 6.4
+  // Requirements: 5.3, 6.1, 6.2, 6.3, 6.4
   // ===========================================
   
+  const tokenSymbol = product.name.split(' ')[0].toUpperCase();
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [useRelayer, setUseRelayer] = useState(false);
+  const [selectedPosition, setSelectedPosition] = useState('');
   const [tradeAmount, setTradeAmount] = useState<string>('');
   const [slippage, setSlippage] = useState<number>(DEFAULT_SLIPPAGE);
   const [showSlippageSettings, setShowSlippageSettings] = useState(false);
   const [calculatedValue, setCalculatedValue] = useState<bigint | null>(null);
   const [isCalculatingValue, setIsCalculatingValue] = useState(false);
   const [currentTabTrade, setCurrentTabTrade] = useState<'trade' | 'derivative'>('trade');
+  // Set when a trade fails because the pool migrated since it was loaded
+  const [switchedToDex, setSwitchedToDex] = useState(false);
 
   // Use trading hook if pool and token addresses are provided
   const tradingEnabled = Boolean(poolAddress && tokenAddress);
+
+  // "Slippage Artır": widen the tolerance enough to accept the fresh quote
+  // "DEX ile İşlem Yap": show the DEX swap instead of the curve
+  const recoveryHandlers = useMemo(
+    () => ({
+      onIncreaseSlippage: (details?: SlippageDetails) => {
+        setSlippage((current) => getSuggestedSlippage(current, details, calculatedValue));
+        setShowSlippageSettings(true);
+      },
+      onSwitchToDex: () => setSwitchedToDex(true),
+    }),
+    [calculatedValue]
+  );
   
   const {
     getBuyCost,
@@ -244,13 +266,61 @@ export default function DN404DetailsSummary({
   } = useTrading({
     poolAddress: poolAddress || '',
     tokenAddress: tokenAddress || '',
+    recoveryHandlers,
+    onSuccess: () => {
+      setTradeAmount('');
+      setCalculatedValue(null);
+      onTradeSuccess?.();
+    },
+  });
+
+  // Private trades (private_buy / private_sell), offered when the pool enables them
+  const {
+    isPrivateEnabled,
+    positions,
+    isSubmitting,
+    error: privateError,
+    privateBuy,
+    privateSell,
+    isRelayerAvailable,
+    relayQuote,
+    relayStatus,
+    getRelayQuote,
+    relayedBuy,
+    proofProgress,
+    cancelProof,
+    clearError: clearPrivateError,
+  } = usePrivateTrading({
+    poolAddress: poolAddress || '',
+    tokenAddress: tokenAddress || '',
+    tokenSymbol,
     onSuccess: () => {
       setTradeAmount('');
       setCalculatedValue(null);
+      setSelectedPosition('');
       onTradeSuccess?.();
     },
   });
 
+  const privateMode = tradingEnabled && isPrivate && Boolean(isPrivateEnabled);
+  const relayMode = privateMode && useRelayer && isRelayerAvailable;
+
+  // Relayer fee quote for the amount being bought
+  useEffect(() => {
+    if (!relayMode || !tradeAmount || parseFloat(tradeAmount) <= 0) return undefined;
+    const timeoutId = setTimeout(() => {
+      getRelayQuote(toBigIntWithDecimals(tradeAmount, DECIMALS));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [relayMode, tradeAmount, getRelayQuote]);
+
+  const handlePrivateChange = (checked: boolean) => {
+    setIsPrivate(checked);
+    setSelectedPosition('');
+    clearError();
+    clearPrivateError();
+  };
+
   // Refresh balances on mount when trading is enabled
   useEffect(() => {
     if (tradingEnabled) {
@@ -324,7 +394,13 @@ export default function DN404DetailsSummary({
       const maxCost = calculatedValue 
         ? (calculatedValue * slippageMultiplier) / slippageDivisor
         : undefined;
-      await buy(amountBigInt, maxCost);
+      if (relayMode) {
+        if (await relayedBuy(amountBigInt, maxCost)) await refreshBalances();
+      } else if (privateMode) {
+        if (await privateBuy(amountBigInt, maxCost)) await refreshBalances();
+      } else {
+        await buy(amountBigInt, maxCost);
+      }
     } catch (err) {
       console.error('Buy failed:', err);
     }
@@ -333,6 +409,10 @@ export default function DN404DetailsSummary({
   // Handle sell execution
   // Requirements: 6.2, 6.3, 6.4
   const handleSell = async () => {
+    if (privateMode) {
+      await handlePrivateSell();
+      return;
+    }
     if (!tradeAmount || parseFloat(tradeAmount) <= 0 || !tradingEnabled) return;
 
     const amountBigInt = toBigIntWithDecimals(tradeAmount, DECIMALS);
@@ -348,6 +428,24 @@ export default function DN404DetailsSummary({
     }
   };
 
+  // Private sell of a whole position; its amount replaces the typed one
+  // Requirements: 6.2
+  const handlePrivateSell = async () => {
+    const position = positions.find((item) => item.commitment === selectedPosition);
+    if (!position) return;
+
+    const minSlippageMultiplier = BigInt(Math.floor((100 - slippage) * 100));
+    const slippageDivisor = BigInt(10000);
+
+    try {
+      const expectedReturn = await getSellReturn(BigInt(position.amount));
+      const minReturn = (expectedReturn * minSlippageMultiplier) / slippageDivisor;
+      if (await privateSell(position.commitment, minReturn)) await refreshBalances();
+    } catch (err) {
+      console.error('Private sell failed:', err);
+    }
+  };
+
   // Check if sell is disabled (no balance)
   // Requirements: 6.4
   const isSellDisabled = useMemo(() => {
@@ -359,21 +457,22 @@ export default function DN404DetailsSummary({
     });
     if (isMigrated) return true;
     if (!tradingEnabled) return false; // Fall back to mock behavior
+    if (privateMode) return !selectedPosition || isSubmitting;
     if (userTokenBalance === null || userTokenBalance === BigInt(0)) return true;
     if (!tradeAmount || parseFloat(tradeAmount) <= 0) return true;
     
     const amountBigInt = toBigIntWithDecimals(tradeAmount, DECIMALS);
     return amountBigInt > userTokenBalance;
-  }, [isMigrated, tradingEnabled, userTokenBalance, tradeAmount]);
+  }, [isMigrated, tradingEnabled, privateMode, selectedPosition, isSubmitting, userTokenBalance, tradeAmount]);
 
   // Check if buy is disabled
   const isBuyDisabled = useMemo(() => {
     if (isMigrated) return true;
     if (!tradingEnabled) return false; // Fall back to mock behavior
     if (!tradeAmount || parseFloat(tradeAmount) <= 0) return true;
-    if (isBuying || isSelling) return true;
+    if (isBuying || isSelling || isSubmitting) return true;
     return false;
-  }, [isMigrated, tradingEnabled, tradeAmount, isBuying, isSelling]);
+  }, [isMigrated, tradingEnabled, tradeAmount, isBuying, isSelling, isSubmitting]);
 
   const theme = useTheme();
   const isDesktop = useResponsive('up', 'md');
@@ -425,43 +524,35 @@ export default function DN404DetailsSummary({
     carousel1.current?.slickGoTo(currentIndex);
   }, [currentIndex]);
 
-  const tokenSymbol = product.name.split(' ')[0].toUpperCase();
-  
+  // Graduated pools trade through the DEX adapter - Requirements: 6.5, 8.4
+  const dexMode = tradingEnabled && (isMigrated || switchedToDex);
+
   const TABS = [
     {
       value: 'trade',
       label: 'Trade',
-      component: (
+      component: dexMode ? (
+        <DexSwapPanel
+          embedded
+          tokenAddress={tokenAddress || ''}
+          tokenSymbol={tokenSymbol}
+          referencePrice={currentPrice}
+          onTradeSuccess={onTradeSuccess}
+        />
+      ) : (
         <Stack>
-          {/* Migrated Warning - Requirements: 6.5 */}
+          {/* Migrated Warning (no pool to route through) - Requirements: 6.5 */}
           {isMigrated && (
-            <Alert 
-              severity="warning" 
-              sx={{ mb: 2 }}
-              action={
-                <Button 
-                  color="inherit" 
-                  size="small"
-                  onClick={() => window.open('https://app.avnu.fi', '_blank')}
-                >
-                  DEX&apos;e Git
-                </Button>
-              }
-            >
+            <Alert severity="warning" sx={{ mb: 2 }}>
               Bu havuz DEX&apos;e taşınmış. Lütfen DEX üzerinden işlem yapın.
             </Alert>
           )}
 
           {/* Trading Error Display */}
-          {tradingError && (
-            <Alert 
-              severity="error" 
-              sx={{ mb: 2 }}
-              onClose={clearError}
-            >
-              {tradingError.message}
-            </Alert>
-          )}
+          <TradingErrorDisplay
+            error={privateMode ? privateError : tradingError}
+            onClose={privateMode ? clearPrivateError : clearError}
+          />
 
           <Stack spacing={0.5}>
             <Stack direction="row" alignItems="center" justifyContent="space-between">
@@ -600,6 +691,30 @@ export default function DN404DetailsSummary({
             )}
           </Stack>
 
+          {/* Private Trade Toggle - Requirements: 6.1, 6.2 */}
+          {tradingEnabled && (
+            <Box sx={{ pt: 2 }}>
+              <PrivateTradeOptions
+                isPrivateEnabled={isPrivateEnabled && !isMigrated}
+                isPrivate={privateMode}
+                onPrivateChange={handlePrivateChange}
+                positions={positions}
+                selectedPosition={selectedPosition}
+                onPositionChange={setSelectedPosition}
+                tokenSymbol={tokenSymbol}
+                decimals={DECIMALS}
+                disabled={isBuying || isSelling || isSubmitting}
+                isRelayerAvailable={isRelayerAvailable}
+                useRelayer={useRelayer}
+                onUseRelayerChange={setUseRelayer}
+                relayQuote={relayQuote}
+                relayStatus={relayStatus}
+                proofProgress={proofProgress}
+                onCancelProof={cancelProof}
+              />
+            </Box>
+          )}
+
           {/* Buy/Sell Buttons - Requirements: 5.3, 6.3, 6.4 */}
           <Stack direction="row" spacing={2} sx={{ pt: 2 }}>
             <Button
@@ -612,7 +727,10 @@ export default function DN404DetailsSummary({
               sx={{ whiteSpace: 'nowrap' }}
               startIcon={isBuying && <CircularProgress size={16} color="inherit" />}
             >
-              {isBuying ? 'Buying...' : 'Buy'}
+              {(() => {
+                if (isBuying) return 'Buying...';
+                return privateMode ? 'Private Buy' : 'Buy';
+              })()}
             </Button>
 
             <Button 
@@ -622,10 +740,11 @@ export default function DN404DetailsSummary({
               variant="contained"
               disabled={isSellDisabled}
               onClick={tradingEnabled ? handleSell : undefined}
-              startIcon={isSelling && <CircularProgress size={16} color="inherit" />}
+              startIcon={(isSelling || isSubmitting) && <CircularProgress size={16} color="inherit" />}
             >
               {(() => {
                 if (isSelling) return 'Selling...';
+                if (privateMode) return isSubmitting ? 'Submitting...' : 'Private Sell';
                 if (isSellDisabled && tradingEnabled) return 'No Balance';
                 return 'Sell';
               })()}
@@ -0,0 +1,170 @@
+// @mui
+import {Box,Card,Grid,Link,Stack,Typography} from '@mui/material';
+// hooks
+import useCountdown from '../../../../hooks/useCountdown';
+import { LiquidityLockState, PoolLiquidityLock } from '../../../../hooks/useLiquidityLock';
+// utils
+import { formatBigIntWithDecimals } from '../../../../utils/bondingCurveUtils';
+import { formatAddress } from '../../../../utils/formatAddress';
+import { getExplorerAddressUrl, getExplorerTxUrl } from '../../../../utils/launchUtils';
+// components
+import Label from '../../../../components/label';
+import Iconify from '../../../../components/iconify';
+
+// ----------------------------------------------------------------------
+
+const DECIMALS = 18;
+
+const LOCK_STATE_LABELS: Record<LiquidityLockState, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  locked: { label: 'Locked', color: 'success' },
+  unlockable: { label: 'Unlockable', color: 'warning' },
+  unlocked: { label: 'Unlocked', color: 'error' },
+};
+
+/** Falls back to the lock state when the deployed hook has no is_protected view */
+const isProtected = (lock: PoolLiquidityLock): boolean => lock.isProtected ?? lock.state !== 'unlocked';
+
+const formatTimestamp = (timestamp: number | null): string =>
+  timestamp ? new Date(timestamp * 1000).toLocaleString() : 'Unknown';
+
+type Props = {
+  lock: PoolLiquidityLock | null;
+  isLoading?: boolean;
+};
+
+export default function DN404LiquidityLockPanel({
+  lock,
+  isLoading = false,
+}: Props) {
+  return (
+    <Card sx={{ p: 3, mt: 3 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+        <Typography variant="h6">Liquidity Lock</Typography>
+        {lock && (
+          <Label variant="soft" color={LOCK_STATE_LABELS[lock.state].color}>
+            {LOCK_STATE_LABELS[lock.state].label}
+          </Label>
+        )}
+      </Stack>
+
+      {!lock ? (
+        <Typography variant="body2" color="text.secondary">
+          {isLoading ? 'Loading liquidity lock...' : 'No LP tokens are locked for this pool yet.'}
+        </Typography>
+      ) : (
+        <Stack spacing={2}>
+          {lock.state === 'locked' ? (
+            <UnlockCountdown key={lock.unlockTime} unlockTime={lock.unlockTime} />
+          ) : (
+            <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+              <Typography variant="caption" color="text.secondary">
+                {lock.state === 'unlocked' ? 'Unlocked' : 'Lock Expired'}
+              </Typography>
+              <Typography variant="subtitle1">
+                {lock.state === 'unlocked'
+                  ? formatTimestamp(lock.unlockedAt)
+                  : `${formatTimestamp(lock.unlockTime)} — the owner can withdraw the LP tokens`}
+              </Typography>
+            </Box>
+          )}
+
+          <Grid container spacing={2}>
+            {/* LP Token */}
+            <Grid item xs={6}>
+              <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+                <Typography variant="caption" color="text.secondary">
+                  LP Token
+                </Typography>
+                <Link
+                  href={getExplorerAddressUrl(lock.lpToken)}
+                  target="_blank"
+                  rel="noopener"
+                  variant="subtitle2"
+                  sx={{ display: 'block', fontFamily: 'monospace' }}
+                >
+                  {formatAddress(lock.lpToken)}
+                </Link>
+              </Box>
+            </Grid>
+
+            {/* Protected Status */}
+            <Grid item xs={6}>
+              <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+                <Typography variant="caption" color="text.secondary">
+                  Protected
+                </Typography>
+                <Stack direction="row" alignItems="center" spacing={0.5} sx={{ mt: 0.5 }}>
+                  <Iconify
+                    icon={isProtected(lock) ? 'eva:shield-fill' : 'eva:shield-off-fill'}
+                    color={isProtected(lock) ? 'success.main' : 'error.main'}
+                    width={18}
+                  />
+                  <Typography variant="subtitle2">{isProtected(lock) ? 'Yes' : 'No'}</Typography>
+                </Stack>
+              </Box>
+            </Grid>
+
+            {/* DEX Reserves */}
+            <Grid item xs={12}>
+              <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+                <Typography variant="caption" color="text.secondary">
+                  DEX Reserves
+                </Typography>
+                {lock.reserves ? (
+                  <Typography variant="subtitle2">
+                    {formatBigIntWithDecimals(lock.reserves.reserve0, DECIMALS, 4)} /{' '}
+                    {formatBigIntWithDecimals(lock.reserves.reserve1, DECIMALS, 4)}
+                    <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                      (token0 / token1)
+                    </Typography>
+                  </Typography>
+                ) : (
+                  <Typography variant="subtitle2" color="text.disabled">
+                    Unavailable
+                  </Typography>
+                )}
+              </Box>
+            </Grid>
+          </Grid>
+
+          {lock.lockTxHash && (
+            <Link
+              href={getExplorerTxUrl(lock.lockTxHash)}
+              target="_blank"
+              rel="noopener"
+              variant="caption"
+            >
+              View lock transaction
+            </Link>
+          )}
+        </Stack>
+      )}
+    </Card>
+  );
+}
+
+// ----------------------------------------------------------------------
+
+type UnlockCountdownProps = {
+  unlockTime: number;
+};
+
+// useCountdown reads the date once, so this is remounted (keyed) per unlock time
+function UnlockCountdown({ unlockTime }: UnlockCountdownProps) {
+  const { days, hours, minutes, seconds } = useCountdown(new Date(unlockTime * 1000));
+  const expired = unlockTime * 1000 <= Date.now();
+
+  return (
+    <Box sx={{ p: 2, bgcolor: 'background.neutral', borderRadius: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Unlocks In
+      </Typography>
+      <Typography variant="h5" sx={{ fontFamily: 'monospace' }}>
+        {expired ? 'Unlockable' : `${days}d ${hours}h ${minutes}m ${seconds}s`}
+      </Typography>
+      <Typography variant="caption" color="text.disabled">
+        {formatTimestamp(unlockTime)}
+      </Typography>
+    </Box>
+  );
+}
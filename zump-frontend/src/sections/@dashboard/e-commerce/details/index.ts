@@ -1,5 +1,6 @@
 export { default as DN404DetailsCarousel } from './DN404DetailsCarousel';
 export { default as DN404DetailsSummary } from './DN404DetailsSummary';
+export { default as DN404LiquidityLockPanel } from './DN404LiquidityLockPanel';
 
 export { default as ProductDetailsReview } from './ProductDetailsReview';
 export { default as ProductDetailsReviewList } from './ProductDetailsReviewList';
@@ -20,6 +20,8 @@ import { Notpump_DEFINE_FAIRLAUNCH, WALLET } from 'src/descriptions/DN404';
 import { PATH_DASHBOARD } from '../../../../routes/paths';
 // utils
 import { fCurrency, fShortenNumber } from '../../../../utils/formatNumber';
+// hooks
+import { useMigrationStatus } from '../../../../hooks/useMigrationStatus';
 // redux
 import { useDispatch } from '../../../../redux/store';
 import { addToCart } from '../../../../redux/slices/DN404';
@@ -30,6 +32,7 @@ import Iconify from '../../../../components/iconify';
 import Label from '../../../../components/label';
 import Image from '../../../../components/image';
 import { ColorPreview } from '../../../../components/color-utils';
+import { MigrationProgress, MIGRATION_PHASE_LABELS } from '../../../../components/trading';
 
 // ----------------------------------------------------------------------
 
@@ -54,6 +57,7 @@ export default function DN404Card({ product }: Props) {
     holdersCount,
     isMigrated,
     privacyLevel,
+    poolAddress,
   } = product;
 
   const dispatch = useDispatch();
@@ -64,8 +68,14 @@ export default function DN404Card({ product }: Props) {
   // Use on-chain bonding curve progress or fallback
   const progress = bondingCurveProccess ?? 0;
 
+  // Graduating / Graduated once the pool reaches its migration threshold
+  const { status: migration } = useMigrationStatus(poolAddress);
+
   // Determine status label and color
   const getStatusConfig = () => {
+    if (migration && migration.phase !== 'bonding') {
+      return MIGRATION_PHASE_LABELS[migration.phase];
+    }
     if (isMigrated) {
       return { label: 'Migrated', color: 'success' as const };
     }
@@ -171,6 +181,9 @@ export default function DN404Card({ product }: Props) {
         </Tooltip>
       </Stack>
 
+      {/* Migration Threshold Progress */}
+      <MigrationProgress status={migration} compact />
+
       {/* Fair Launch Progress */}
       <Stack spacing={1} sx={{ pl: 1, pr: 3, pt: 0.5 }} direction="row" alignItems="center">
         <LinearProgress
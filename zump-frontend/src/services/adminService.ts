@@ -0,0 +1,569 @@
+/**
+ * Admin Service
+ * Owner-only configuration of the protocol contracts: ownership detection,
+ * current values, typed call building with a before/after diff, and one
+ * multicall for a batch of changes
+ * Requirements: 9.2, 9.3, 9.4
+ */
+
+import { Call, Contract, addAddressPadding, num, validateAndParseAddress } from 'starknet';
+import { getContractAddresses, isValidContractAddress } from '../config/contracts';
+import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../utils/bondingCurveUtils';
+import { TransactionResult, getContractService } from './contractService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Contracts with owner-only setters; the ids match the ContractAddresses keys
+ */
+export type AdminContractId =
+  | 'protocolConfig'
+  | 'pumpFactory'
+  | 'nullifierRegistry'
+  | 'privacyRelayer'
+  | 'zkProofVerifier'
+  | 'darkPoolMixer';
+
+export type AdminActionId =
+  | 'set_fee_config'
+  | 'set_creator_fee_bps'
+  | 'set_curve_limits'
+  | 'set_liquidity_migration'
+  | 'set_quote_token'
+  | 'authorize_pool'
+  | 'revoke_pool'
+  | 'authorize_registry_relayer'
+  | 'authorize_relayer'
+  | 'set_deposit_limits'
+  | 'add_supported_token'
+  | 'set_mev_protection'
+  | 'set_garaga_enabled';
+
+/**
+ * 'amount': 18-decimal value typed as a decimal string; 'bps': u16 basis points
+ */
+export type AdminFieldKind = 'address' | 'amount' | 'bps' | 'bool';
+
+export type AdminValue = string | bigint | boolean;
+
+/** Parsed call arguments by Cairo parameter name */
+export type AdminValues = Record<string, AdminValue>;
+
+/** Form input by Cairo parameter name, as typed */
+export type AdminFormValues = Record<string, string | boolean>;
+
+export interface AdminField {
+  /** Cairo parameter name */
+  name: string;
+  label: string;
+  kind: AdminFieldKind;
+}
+
+export interface AdminContract {
+  id: AdminContractId;
+  label: string;
+  ownerEntrypoint: 'get_owner' | 'owner';
+}
+
+export interface AdminAction {
+  id: AdminActionId;
+  contract: AdminContractId;
+  entrypoint: string;
+  label: string;
+  fields: AdminField[];
+  /**
+   * Per-address flag the call sets to `target` (authorize_pool,
+   * add_supported_token...); other actions overwrite the values they take
+   */
+  toggle?: { keyField: string; label: string; target: boolean };
+}
+
+export interface AdminOwnership {
+  contract: AdminContractId;
+  address: string;
+  /** null when the owner view is missing or unreachable */
+  owner: string | null;
+  isOwner: boolean;
+}
+
+export interface AdminDiffRow {
+  label: string;
+  kind: AdminFieldKind;
+  /** null when the contract has no view for it */
+  current: AdminValue | null;
+  next: AdminValue;
+  changed: boolean;
+}
+
+export interface AdminChange {
+  /** Queue key: one change per setter, or per setter and address for toggles */
+  key: string;
+  action: AdminAction;
+  values: AdminValues;
+  diff: AdminDiffRow[];
+  call: Call;
+}
+
+export type AdminSnapshot = Partial<Record<AdminActionId, AdminValues>>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DECIMALS = 18;
+const MAX_BPS = BigInt(10000);
+const AMOUNT_PATTERN = /^\d*\.?\d+$/;
+
+export const ADMIN_CONTRACTS: AdminContract[] = [
+  { id: 'protocolConfig', label: 'ProtocolConfig', ownerEntrypoint: 'get_owner' },
+  { id: 'pumpFactory', label: 'PumpFactory', ownerEntrypoint: 'owner' },
+  { id: 'nullifierRegistry', label: 'NullifierRegistry', ownerEntrypoint: 'get_owner' },
+  { id: 'privacyRelayer', label: 'PrivacyRelayer', ownerEntrypoint: 'get_owner' },
+  { id: 'zkProofVerifier', label: 'ZKProofVerifier', ownerEntrypoint: 'get_owner' },
+  { id: 'darkPoolMixer', label: 'DarkPoolMixer', ownerEntrypoint: 'get_owner' },
+];
+
+export const ADMIN_ACTIONS: AdminAction[] = [
+  {
+    id: 'set_fee_config',
+    contract: 'protocolConfig',
+    entrypoint: 'set_fee_config',
+    label: 'Fee Config',
+    fields: [
+      { name: 'fee_bps', label: 'Fee (bps)', kind: 'bps' },
+      { name: 'fee_receiver', label: 'Fee Receiver', kind: 'address' },
+    ],
+  },
+  {
+    id: 'set_creator_fee_bps',
+    contract: 'protocolConfig',
+    entrypoint: 'set_creator_fee_bps',
+    label: 'Creator Fee',
+    fields: [{ name: 'creator_fee_bps', label: 'Creator Fee (bps)', kind: 'bps' }],
+  },
+  {
+    id: 'set_curve_limits',
+    contract: 'protocolConfig',
+    entrypoint: 'set_curve_limits',
+    label: 'Curve Limits',
+    fields: [
+      { name: 'min_base_price', label: 'Min Base Price', kind: 'amount' },
+      { name: 'max_base_price', label: 'Max Base Price', kind: 'amount' },
+      { name: 'min_slope', label: 'Min Slope', kind: 'amount' },
+      { name: 'max_slope', label: 'Max Slope', kind: 'amount' },
+      { name: 'min_supply', label: 'Min Supply', kind: 'amount' },
+      { name: 'max_supply', label: 'Max Supply', kind: 'amount' },
+    ],
+  },
+  {
+    id: 'set_liquidity_migration',
+    contract: 'pumpFactory',
+    entrypoint: 'set_liquidity_migration',
+    label: 'Liquidity Migration',
+    fields: [{ name: 'migration', label: 'LiquidityMigration Contract', kind: 'address' }],
+  },
+  {
+    id: 'set_quote_token',
+    contract: 'pumpFactory',
+    entrypoint: 'set_quote_token',
+    label: 'Quote Token',
+    fields: [{ name: 'quote_token', label: 'Quote Token', kind: 'address' }],
+  },
+  {
+    id: 'authorize_pool',
+    contract: 'nullifierRegistry',
+    entrypoint: 'authorize_pool',
+    label: 'Authorize Pool',
+    fields: [{ name: 'pool', label: 'Pool', kind: 'address' }],
+    toggle: { keyField: 'pool', label: 'Pool authorized', target: true },
+  },
+  {
+    id: 'revoke_pool',
+    contract: 'nullifierRegistry',
+    entrypoint: 'revoke_pool',
+    label: 'Revoke Pool',
+    fields: [{ name: 'pool', label: 'Pool', kind: 'address' }],
+    toggle: { keyField: 'pool', label: 'Pool authorized', target: false },
+  },
+  {
+    id: 'authorize_registry_relayer',
+    contract: 'nullifierRegistry',
+    entrypoint: 'authorize_relayer',
+    label: 'Authorize Relayer',
+    fields: [{ name: 'relayer', label: 'Relayer', kind: 'address' }],
+    toggle: { keyField: 'relayer', label: 'Relayer authorized', target: true },
+  },
+  {
+    id: 'authorize_relayer',
+    contract: 'privacyRelayer',
+    entrypoint: 'authorize_relayer',
+    label: 'Authorize Relayer',
+    fields: [{ name: 'relayer', label: 'Relayer', kind: 'address' }],
+    toggle: { keyField: 'relayer', label: 'Relayer authorized', target: true },
+  },
+  {
+    id: 'set_mev_protection',
+    contract: 'privacyRelayer',
+    entrypoint: 'set_mev_protection',
+    label: 'MEV Protection',
+    fields: [{ name: 'enabled', label: 'MEV Protection', kind: 'bool' }],
+  },
+  {
+    id: 'set_garaga_enabled',
+    contract: 'zkProofVerifier',
+    entrypoint: 'set_garaga_enabled',
+    label: 'Garaga Acceleration',
+    fields: [{ name: 'enabled', label: 'Garaga Acceleration', kind: 'bool' }],
+  },
+  {
+    id: 'set_deposit_limits',
+    contract: 'darkPoolMixer',
+    entrypoint: 'set_deposit_limits',
+    label: 'Deposit Limits',
+    fields: [
+      { name: 'min_deposit', label: 'Min Deposit', kind: 'amount' },
+      { name: 'max_deposit', label: 'Max Deposit', kind: 'amount' },
+    ],
+  },
+  {
+    id: 'add_supported_token',
+    contract: 'darkPoolMixer',
+    entrypoint: 'add_supported_token',
+    label: 'Add Supported Token',
+    fields: [{ name: 'token', label: 'Token', kind: 'address' }],
+    toggle: { keyField: 'token', label: 'Token supported', target: true },
+  },
+];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export const getAdminAction = (id: AdminActionId): AdminAction => {
+  const action = ADMIN_ACTIONS.find((item) => item.id === id);
+  if (!action) {
+    throw new Error(`Unknown admin action: ${id}`);
+  }
+  return action;
+};
+
+const sameAddress = (a: string, b: string): boolean => BigInt(a) === BigInt(b);
+
+const isSameValue = (a: AdminValue, b: AdminValue): boolean => {
+  if (typeof a === 'string' && typeof b === 'string') return sameAddress(a, b);
+  return a === b;
+};
+
+const invalidInput = (field: AdminField): Error =>
+  new Error(`ADMIN_INVALID_INPUT: ${field.label}`);
+
+/**
+ * Parse one typed form value into a call argument
+ * Throws ADMIN_INVALID_INPUT naming the field.
+ */
+export const parseAdminValue = (field: AdminField, raw: string | boolean): AdminValue => {
+  if (field.kind === 'bool') {
+    return Boolean(raw);
+  }
+
+  const value = String(raw).trim();
+  switch (field.kind) {
+    case 'address':
+      try {
+        return addAddressPadding(validateAndParseAddress(value));
+      } catch {
+        throw invalidInput(field);
+      }
+    case 'bps': {
+      if (!/^\d+$/.test(value) || BigInt(value) > MAX_BPS) throw invalidInput(field);
+      return BigInt(value);
+    }
+    case 'amount': {
+      if (!AMOUNT_PATTERN.test(value) || (value.split('.')[1] || '').length > DECIMALS) {
+        throw invalidInput(field);
+      }
+      return toBigIntWithDecimals(value, DECIMALS);
+    }
+    default:
+      throw invalidInput(field);
+  }
+};
+
+/**
+ * Current value in the form's typed representation (to prefill the form)
+ */
+export const toAdminFormValue = (field: AdminField, value: AdminValue): string | boolean => {
+  if (field.kind === 'bool') return Boolean(value);
+  if (field.kind === 'amount') return formatBigIntWithDecimals(value as bigint, DECIMALS, DECIMALS);
+  return value.toString();
+};
+
+/**
+ * Display form of a current or next value
+ */
+export const formatAdminValue = (kind: AdminFieldKind, value: AdminValue | null): string => {
+  if (value === null) return 'Unknown';
+  switch (kind) {
+    case 'bool':
+      return value ? 'Yes' : 'No';
+    case 'address': {
+      const address = value.toString();
+      return `${address.slice(0, 8)}…${address.slice(-6)}`;
+    }
+    case 'bps':
+      return `${value.toString()} bps (${(Number(value) / 100).toFixed(2)}%)`;
+    case 'amount':
+      return formatBigIntWithDecimals(value as bigint, DECIMALS, 6);
+    default:
+      return value.toString();
+  }
+};
+
+// ============================================================================
+// Admin Service Class
+// ============================================================================
+
+export class AdminService {
+  // eslint-disable-next-line class-methods-use-this
+  private getContract(id: AdminContractId): Contract {
+    const contractService = getContractService();
+    switch (id) {
+      case 'protocolConfig':
+        return contractService.getProtocolConfigContract();
+      case 'pumpFactory':
+        return contractService.getPumpFactoryContract();
+      case 'nullifierRegistry':
+        return contractService.getNullifierRegistryContract();
+      case 'privacyRelayer':
+        return contractService.getPrivacyRelayerContract();
+      case 'zkProofVerifier':
+        return contractService.getZkProofVerifierContract();
+      case 'darkPoolMixer':
+        return contractService.getDarkPoolMixerContract();
+      default:
+        throw new Error(`Unknown admin contract: ${id}`);
+    }
+  }
+
+  /**
+   * Configured admin contracts
+   */
+  // eslint-disable-next-line class-methods-use-this
+  getConfiguredContracts(): AdminContract[] {
+    const addresses = getContractAddresses();
+    return ADMIN_CONTRACTS.filter((contract) => isValidContractAddress(addresses[contract.id]));
+  }
+
+  /**
+   * Owner of every configured admin contract, compared with the account
+   */
+  async getOwnerships(account?: string): Promise<AdminOwnership[]> {
+    const addresses = getContractAddresses();
+
+    return Promise.all(
+      this.getConfiguredContracts().map(async (contract) => {
+        let owner: string | null = null;
+        try {
+          const result = await this.getContract(contract.id).call(contract.ownerEntrypoint);
+          owner = addAddressPadding(num.toHex(result.toString()));
+        } catch (err) {
+          console.warn(`Failed to read ${contract.label} owner:`, err);
+        }
+        return {
+          contract: contract.id,
+          address: addresses[contract.id],
+          owner,
+          isOwner: Boolean(account && owner && sameAddress(account, owner)),
+        };
+      })
+    );
+  }
+
+  /**
+   * Current values of a setter action, or null when they cannot be read
+   * (toggle actions are per address; see getToggleState)
+   */
+  async getCurrentValues(action: AdminAction): Promise<AdminValues | null> {
+    if (action.toggle) return null;
+
+    const contractService = getContractService();
+    try {
+      switch (action.id) {
+        case 'set_fee_config': {
+          const fee = await contractService.getFeeConfig();
+          return { fee_bps: fee.feeBps, fee_receiver: fee.feeReceiver };
+        }
+        case 'set_creator_fee_bps': {
+          const fee = await contractService.getFeeConfig();
+          return { creator_fee_bps: fee.creatorFeeBps };
+        }
+        case 'set_curve_limits': {
+          const limits = await contractService.getCurveLimits();
+          return {
+            min_base_price: limits.minBasePrice,
+            max_base_price: limits.maxBasePrice,
+            min_slope: limits.minSlope,
+            max_slope: limits.maxSlope,
+            min_supply: limits.minSupply,
+            max_supply: limits.maxSupply,
+          };
+        }
+        case 'set_liquidity_migration':
+          return { migration: await this.readAddress(action.contract, 'liquidity_migration') };
+        case 'set_quote_token':
+          return { quote_token: await this.readAddress(action.contract, 'quote_token') };
+        case 'set_mev_protection':
+          return { enabled: await this.readFlag(action.contract, 'is_mev_protection_enabled') };
+        case 'set_garaga_enabled':
+          return { enabled: await this.readFlag(action.contract, 'is_garaga_enabled') };
+        case 'set_deposit_limits': {
+          const limits = await contractService.getMixerLimits();
+          return { min_deposit: limits.min, max_deposit: limits.max };
+        }
+        default:
+          return null;
+      }
+    } catch (err) {
+      console.warn(`Failed to read current ${action.label}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Current values of every setter whose contract is configured
+   */
+  async getSnapshot(): Promise<AdminSnapshot> {
+    const configured = new Set(this.getConfiguredContracts().map((contract) => contract.id));
+    const setters = ADMIN_ACTIONS.filter((action) => !action.toggle && configured.has(action.contract));
+    const values = await Promise.all(setters.map((action) => this.getCurrentValues(action)));
+
+    return setters.reduce<AdminSnapshot>((snapshot, action, index) => {
+      const current = values[index];
+      return current ? { ...snapshot, [action.id]: current } : snapshot;
+    }, {});
+  }
+
+  /**
+   * Current per-address flag of a toggle action, or null without a view for it
+   */
+  async getToggleState(action: AdminAction, key: string): Promise<boolean | null> {
+    const entrypoint: Partial<Record<AdminActionId, string>> = {
+      authorize_pool: 'is_pool_authorized',
+      revoke_pool: 'is_pool_authorized',
+      authorize_registry_relayer: 'is_relayer_authorized',
+      add_supported_token: 'is_token_supported',
+    };
+    const view = entrypoint[action.id];
+    if (!view) return null;
+
+    try {
+      return await this.readFlag(action.contract, view, [key]);
+    } catch (err) {
+      console.warn(`Failed to read ${action.label} state:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Parse the form, diff it against the chain and build the call
+   * Throws ADMIN_INVALID_INPUT for a malformed field.
+   */
+  async prepareChange(actionId: AdminActionId, form: AdminFormValues): Promise<AdminChange> {
+    const action = getAdminAction(actionId);
+    const values = action.fields.reduce<AdminValues>(
+      (parsed, field) => ({ ...parsed, [field.name]: parseAdminValue(field, form[field.name] ?? '') }),
+      {}
+    );
+
+    let diff: AdminDiffRow[];
+    let key: string = action.id;
+    if (action.toggle) {
+      const target = values[action.toggle.keyField] as string;
+      const current = await this.getToggleState(action, target);
+      key = `${action.id}:${target}`;
+      diff = [
+        {
+          label: `${action.toggle.label} (${formatAdminValue('address', target)})`,
+          kind: 'bool',
+          current,
+          next: action.toggle.target,
+          changed: current !== action.toggle.target,
+        },
+      ];
+    } else {
+      const current = await this.getCurrentValues(action);
+      diff = action.fields.map((field) => {
+        const before = current?.[field.name] ?? null;
+        const after = values[field.name];
+        return {
+          label: field.label,
+          kind: field.kind,
+          current: before,
+          next: after,
+          changed: before === null || !isSameValue(before, after),
+        };
+      });
+    }
+
+    return {
+      key,
+      action,
+      values,
+      diff,
+      call: this.getContract(action.contract).populate(action.entrypoint, values),
+    };
+  }
+
+  /**
+   * Send queued changes as one multicall
+   * Fails with ONLY_OWNER before signing if the account does not own a target.
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async submitChanges(changes: AdminChange[], ownerships: AdminOwnership[]): Promise<TransactionResult> {
+    const notOwned = changes.find(
+      (change) => !ownerships.some((item) => item.contract === change.action.contract && item.isOwner)
+    );
+    if (notOwned) {
+      throw new Error(`ONLY_OWNER: ${notOwned.action.contract}`);
+    }
+
+    return getContractService().executeAdminCalls(changes.map((change) => change.call));
+  }
+
+  private async readAddress(contract: AdminContractId, entrypoint: string): Promise<string> {
+    const result = await this.getContract(contract).call(entrypoint);
+    return addAddressPadding(num.toHex(result.toString()));
+  }
+
+  private async readFlag(contract: AdminContractId, entrypoint: string, args: string[] = []): Promise<boolean> {
+    const result = await this.getContract(contract).call(entrypoint, args);
+    return Boolean(result);
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let adminServiceInstance: AdminService | null = null;
+
+/**
+ * Get or create AdminService singleton
+ */
+export const getAdminService = (): AdminService => {
+  if (!adminServiceInstance) {
+    adminServiceInstance = new AdminService();
+  }
+  return adminServiceInstance;
+};
+
+/**
+ * Reset AdminService instance
+ */
+export const resetAdminService = (): void => {
+  adminServiceInstance = null;
+};
+
+export default AdminService;
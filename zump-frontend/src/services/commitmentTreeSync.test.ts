@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+import { RpcProvider } from 'starknet';
+import { CommitmentTreeMirror } from '../utils/commitmentTree';
+import { EVENT_SELECTORS, RawEvent } from '../utils/eventDecoder';
+import { CommitmentTreeSync } from './commitmentTreeSync';
+import { getContractService } from './contractService';
+
+const TREE_ADDRESS = '0x1c0ffee';
+
+jest.mock('../config/contracts', () => ({
+  getContractAddresses: () => ({ commitmentTree: '0x1c0ffee' }),
+  getContractConfig: () => ({ rpcUrl: 'http://localhost:5050' }),
+  isValidContractAddress: () => true,
+}));
+
+jest.mock('./contractService', () => ({ getContractService: jest.fn() }));
+
+/**
+ * The node environment has no localStorage; the sync persists its tree there
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Chain whose LeafInserted history can be rewritten, with the CommitmentTree
+ * views the sync checks against
+ */
+class FakeChain {
+  head = 0;
+
+  private leaves: { leaf: string; block: number }[] = [];
+
+  readonly getEventsFrom: number[] = [];
+
+  /**
+   * Replace everything from leafIndex on, as a reorg would
+   */
+  setLeaves(leafIndex: number, leaves: string[], firstBlock: number): void {
+    this.leaves = [
+      ...this.leaves.slice(0, leafIndex),
+      ...leaves.map((leaf, offset) => ({ leaf, block: firstBlock + offset })),
+    ];
+    this.head = this.leaves[this.leaves.length - 1].block;
+  }
+
+  mirror(): CommitmentTreeMirror {
+    return new CommitmentTreeMirror(this.leaves.map(({ leaf }) => leaf));
+  }
+
+  provider(): RpcProvider {
+    return {
+      getBlockNumber: async () => this.head,
+      getEvents: async (filter: {
+        from_block: { block_number: number };
+        to_block: { block_number: number };
+      }) => {
+        this.getEventsFrom.push(filter.from_block.block_number);
+        const tree = this.mirror();
+        const events: RawEvent[] = this.leaves
+          .map(({ leaf, block }, index) => ({
+            from_address: TREE_ADDRESS,
+            keys: [EVENT_SELECTORS.LeafInserted, leaf],
+            data: [`0x${index.toString(16)}`, '0x0', tree.getRootAt(index)],
+            block_number: block,
+            transaction_hash: `0x${(block * 100 + index).toString(16)}`,
+          }))
+          .filter(
+            (event) =>
+              event.block_number >= filter.from_block.block_number &&
+              event.block_number <= filter.to_block.block_number
+          );
+        return { events };
+      },
+    } as unknown as RpcProvider;
+  }
+}
+
+describe('CommitmentTreeSync', () => {
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    Object.assign(globalThis, { localStorage: new MemoryStorage() });
+    chain = new FakeChain();
+    (getContractService as jest.Mock).mockReturnValue({
+      getMerkleTreeLeafCount: async () => BigInt(chain.mirror().size),
+      getCurrentMerkleRoot: async () => chain.mirror().getRoot(),
+      isKnownMerkleRoot: async () => true,
+    });
+  });
+
+  it('replaces reorged leaves from the re-scanned range without a full resync', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const sync = new CommitmentTreeSync(chain.provider(), { reorgDepth: 5 });
+
+    chain.setLeaves(0, ['0x101', '0x202', '0x303'], 10);
+    expect((await sync.sync()).getLeaves()).toEqual(['0x101', '0x202', '0x303']);
+
+    // Block 12 is replaced by a fork that holds another leaf at index 2
+    chain.setLeaves(2, ['0x909', '0xa0a'], 12);
+    const tree = await sync.sync();
+
+    expect(tree.getLeaves()).toEqual(['0x101', '0x202', '0x909', '0xa0a']);
+    expect(tree.getRoot()).toBe(chain.mirror().getRoot());
+    expect(tree.indexOf('0x303')).toBe(-1);
+    expect(chain.getEventsFrom).toEqual([0, 8]);
+    expect(warn).not.toHaveBeenCalled();
+
+    await expect(sync.getPath('0x909')).resolves.toEqual({
+      leafIndex: BigInt(2),
+      merkleProof: chain.mirror().getPath(2),
+      merkleRoot: chain.mirror().getRootAt(2),
+    });
+    warn.mockRestore();
+  });
+
+  it('drops leaves the contract no longer has', async () => {
+    const sync = new CommitmentTreeSync(chain.provider(), { reorgDepth: 5 });
+
+    chain.setLeaves(0, ['0x101', '0x202', '0x303'], 10);
+    await sync.sync();
+
+    // The fork at block 12 has no insert at all
+    chain.setLeaves(0, ['0x101', '0x202'], 10);
+    chain.head = 12;
+    const tree = await sync.sync();
+
+    expect(tree.getLeaves()).toEqual(['0x101', '0x202']);
+    await expect(sync.getPath('0x303')).rejects.toThrow('Commitment not found');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Commitment Tree Sync
+ * Keeps a local CommitmentTreeMirror in step with LeafInserted events so
+ * Merkle paths are built without asking the RPC node for a specific leaf
+ * Requirements: 7.1, 7.2
+ */
+
+import { RpcProvider } from 'starknet';
+import { getContractAddresses, getContractConfig, isValidContractAddress } from '../config/contracts';
+import { CommitmentTreeMirror } from '../utils/commitmentTree';
+import { EVENT_SELECTORS, LeafInsertedEvent, decodeEvents } from '../utils/eventDecoder';
+import { EventIndexer } from './eventIndexer';
+import { getContractService } from './contractService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommitmentTreeSyncOptions {
+  /** Trailing blocks re-scanned on every sync to catch reorged leaves */
+  reorgDepth?: number;
+}
+
+export interface CommitmentPath {
+  leafIndex: bigint;
+  merkleProof: string[];
+  merkleRoot: string;
+}
+
+interface StoredTree {
+  lastSyncedBlock: number;
+  leaves: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY = 'zump_commitment_tree';
+const DEFAULT_REORG_DEPTH = 10;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const sameFelt = (a: string, b: string): boolean => BigInt(a) === BigInt(b);
+
+// ============================================================================
+// Commitment Tree Sync Class
+// ============================================================================
+
+export class CommitmentTreeSync {
+  private provider: RpcProvider;
+
+  private indexer: EventIndexer;
+
+  private reorgDepth: number;
+
+  private tree: CommitmentTreeMirror | null = null;
+
+  private lastSyncedBlock: number | null = null;
+
+  private syncing: Promise<CommitmentTreeMirror> | null = null;
+
+  constructor(provider?: RpcProvider, options: CommitmentTreeSyncOptions = {}) {
+    this.provider = provider ?? new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+    this.indexer = new EventIndexer(this.provider);
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  }
+
+  /**
+   * Bring the local tree up to date and check it against the contract
+   * Concurrent calls share one sync.
+   */
+  async sync(): Promise<CommitmentTreeMirror> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Merkle path for a commitment, built from the synced tree
+   * The path proves membership in the root recorded at insertion, which
+   * is_known_root keeps accepting after later deposits.
+   *
+   * @throws Error when the commitment is not in the tree or the root is unknown
+   */
+  async getPath(commitment: string): Promise<CommitmentPath> {
+    const tree = await this.sync();
+    const leafIndex = tree.indexOf(commitment);
+    if (leafIndex < 0) {
+      throw new Error('Commitment not found in the commitment tree');
+    }
+
+    const merkleRoot = tree.getRootAt(leafIndex);
+    if (!(await getContractService().isKnownMerkleRoot(merkleRoot))) {
+      throw new Error('INVALID_MERKLE_ROOT');
+    }
+
+    return {
+      leafIndex: BigInt(leafIndex),
+      merkleProof: tree.getPath(leafIndex),
+      merkleRoot,
+    };
+  }
+
+  getLastSyncedBlock(): number | null {
+    return this.lastSyncedBlock;
+  }
+
+  /**
+   * Forget the local tree, including the persisted copy
+   */
+  reset(): void {
+    this.tree = null;
+    this.lastSyncedBlock = null;
+    localStorage.removeItem(this.storageKey());
+  }
+
+  private storageKey(): string {
+    return `${STORAGE_KEY}_${BigInt(getContractAddresses().commitmentTree).toString(16)}`;
+  }
+
+  private load(): void {
+    if (this.tree) return;
+
+    this.tree = new CommitmentTreeMirror();
+    try {
+      const stored = localStorage.getItem(this.storageKey());
+      if (stored) {
+        const parsed = JSON.parse(stored) as StoredTree;
+        this.tree = new CommitmentTreeMirror(parsed.leaves);
+        this.lastSyncedBlock = parsed.lastSyncedBlock;
+      }
+    } catch (err) {
+      console.error('Failed to load commitment tree:', err);
+    }
+  }
+
+  private persist(): void {
+    if (!this.tree || this.lastSyncedBlock === null) return;
+
+    const stored: StoredTree = {
+      lastSyncedBlock: this.lastSyncedBlock,
+      leaves: this.tree.getLeaves(),
+    };
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(stored));
+    } catch (err) {
+      console.error('Failed to persist commitment tree:', err);
+    }
+  }
+
+  private async runSync(retryFromScratch = true): Promise<CommitmentTreeMirror> {
+    const { commitmentTree } = getContractAddresses();
+    if (!isValidContractAddress(commitmentTree)) {
+      throw new Error('CommitmentTree contract address not configured');
+    }
+
+    this.load();
+    const tree = this.tree as CommitmentTreeMirror;
+    const incremental = this.lastSyncedBlock !== null;
+
+    try {
+      const toBlock = await this.provider.getBlockNumber();
+      const fromBlock = this.lastSyncedBlock === null
+        ? 0
+        : Math.max(0, this.lastSyncedBlock - this.reorgDepth + 1);
+
+      const events = await this.indexer.fetchEvents(commitmentTree, fromBlock, toBlock, [
+        [EVENT_SELECTORS.LeafInserted],
+      ]);
+      decodeEvents(events, ['LeafInserted'])
+        .sort((a, b) => (a.leafIndex < b.leafIndex ? -1 : 1))
+        .forEach((event) => this.apply(tree, event));
+
+      await this.verify(tree);
+      this.lastSyncedBlock = toBlock;
+      this.persist();
+      return tree;
+    } catch (err) {
+      if (!incremental || !retryFromScratch) throw err;
+      // A stale or reorged cache; rebuild from genesis once
+      console.warn('Commitment tree out of sync, resyncing from scratch:', err);
+      this.reset();
+      return this.runSync(false);
+    }
+  }
+
+  /**
+   * Apply one LeafInserted event and check its new_root
+   */
+  private apply(tree: CommitmentTreeMirror, event: LeafInsertedEvent): void {
+    const leafIndex = Number(event.leafIndex);
+    const existing = tree.getLeaf(leafIndex);
+
+    if (existing !== undefined) {
+      if (sameFelt(existing, event.leaf)) return;
+      // Re-scanned range with a different leaf: the old one was reorged out
+      tree.truncate(leafIndex);
+    }
+    if (leafIndex !== tree.size) {
+      throw new Error(`Missing commitment tree leaves before index ${leafIndex}`);
+    }
+
+    tree.insert(event.leaf);
+    if (!sameFelt(tree.getRootAt(leafIndex), event.newRoot)) {
+      throw new Error(`Commitment tree root mismatch at leaf ${leafIndex}`);
+    }
+  }
+
+  /**
+   * Compare with get_current_root, or with is_known_root when leaves were
+   * inserted after the synced block
+   */
+  private async verify(tree: CommitmentTreeMirror): Promise<void> {
+    const contractService = getContractService();
+    const leafCount = Number(await contractService.getMerkleTreeLeafCount());
+
+    if (tree.size > leafCount) {
+      tree.truncate(leafCount);
+    }
+
+    const matches = tree.size === leafCount
+      ? sameFelt(tree.getRoot(), await contractService.getCurrentMerkleRoot())
+      : await contractService.isKnownMerkleRoot(tree.getRoot());
+
+    if (!matches) {
+      throw new Error('Local commitment tree does not match CommitmentTree');
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let commitmentTreeSyncInstance: CommitmentTreeSync | null = null;
+
+/**
+ * Get or create CommitmentTreeSync singleton
+ */
+export const getCommitmentTreeSync = (): CommitmentTreeSync => {
+  if (!commitmentTreeSyncInstance) {
+    commitmentTreeSyncInstance = new CommitmentTreeSync();
+  }
+  return commitmentTreeSyncInstance;
+};
+
+/**
+ * Reset CommitmentTreeSync instance
+ */
+export const resetCommitmentTreeSync = (): void => {
+  commitmentTreeSyncInstance = null;
+};
+
+export default CommitmentTreeSync;
@@ -4,18 +4,45 @@
  * Requirements: 1.2, 1.3, 1.4
  */
 
-import { Contract, Account, RpcProvider, CallData, cairo, shortString } from 'starknet';
+import {
+  Contract,
+  Account,
+  RpcProvider,
+  Call,
+  CallData,
+  addAddressPadding,
+  cairo,
+  num,
+  shortString,
+} from 'starknet';
 import { 
   PUMP_FACTORY_ABI, 
   BONDING_CURVE_POOL_ABI, 
   MEMECOIN_TOKEN_ABI,
+  PROTOCOL_CONFIG_ABI,
   STEALTH_ADDRESS_GENERATOR_ABI,
   NULLIFIER_REGISTRY_ABI,
+  ZK_PROOF_VERIFIER_ABI,
   COMMITMENT_TREE_ABI,
   DARK_POOL_MIXER_ABI,
   PRIVACY_RELAYER_ABI,
+  ENCRYPTED_STATE_MANAGER_ABI,
+  ZK_DEX_HOOK_ABI,
 } from '../abi';
 import { getContractConfig, getContractAddresses, isValidContractAddress, NetworkId } from '../config/contracts';
+import { quoteBuy, quoteSell, BuyQuote, SellQuote, CurveFees, CurveQuoteState } from '../utils/curveQuote';
+import { findReceiptEvent } from '../utils/eventDecoder';
+import { EncryptedBalanceEntry, EncryptedPositionEntry } from '../utils/encryptedState';
+import { ZKProof } from '../utils/zkProof';
+import { buildMixerDepositCalls, buildMixerWithdrawCall, MixerWithdrawCallParams } from './mixerBuilder';
+import {
+  assertBuyWithinBound,
+  assertSellWithinBound,
+  buildBuyCalls,
+  buildSellCalls,
+  buildPrivateBuyCalls,
+  buildPrivateSellCalls,
+} from './tradeBuilder';
 
 // ============================================================================
 // Types
@@ -52,6 +79,45 @@ export interface PoolConfig {
   maxSupply: bigint;
 }
 
+/**
+ * Launch a pool belongs to and the reserve at which it migrates
+ */
+export interface PoolMigrationThreshold {
+  launchId: bigint;
+  /** Quote reserve that triggers migration; 0 when the launch has none */
+  threshold: bigint;
+}
+
+/**
+ * ZkDexHook.locked_lp entry of a pool
+ */
+export interface LockedLiquidity {
+  lpToken: string;
+  /** Unix seconds; 0 once unlocked (or never locked) */
+  unlockTime: number;
+}
+
+export interface LpReserves {
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+export interface FeeConfig {
+  feeBps: bigint;
+  feeReceiver: string;
+  /** Paid to the launch creator on top of feeBps */
+  creatorFeeBps: bigint;
+}
+
+export interface CurveLimits {
+  minBasePrice: bigint;
+  maxBasePrice: bigint;
+  minSlope: bigint;
+  maxSlope: bigint;
+  minSupply: bigint;
+  maxSupply: bigint;
+}
+
 export interface PublicLaunchInfo {
   token: string;
   pool: string;
@@ -74,6 +140,12 @@ export interface TransactionResult {
 
 export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
 
+export interface MixerDepositResult extends TransactionResult {
+  leafIndex: bigint;
+}
+
+export type MixerWithdrawParams = Omit<MixerWithdrawCallParams, 'mixerAddress'>;
+
 // ============================================================================
 // Contract Service Class
 // ============================================================================
@@ -87,16 +159,24 @@ export class ContractService {
 
   private pumpFactoryContract: Contract | null = null;
 
+  private protocolConfigContract: Contract | null = null;
+
   private stealthGeneratorContract: Contract | null = null;
 
   private nullifierRegistryContract: Contract | null = null;
 
+  private zkProofVerifierContract: Contract | null = null;
+
   private commitmentTreeContract: Contract | null = null;
 
   private darkPoolMixerContract: Contract | null = null;
 
   private privacyRelayerContract: Contract | null = null;
 
+  private encryptedStateManagerContract: Contract | null = null;
+
+  private zkDexHookContract: Contract | null = null;
+
   constructor(network?: NetworkId) {
     this.network = network || 'sepolia';
     const config = getContractConfig(this.network);
@@ -115,11 +195,15 @@ export class ContractService {
     this.account = account;
     // Reset cached contracts when account changes
     this.pumpFactoryContract = null;
+    this.protocolConfigContract = null;
     this.stealthGeneratorContract = null;
     this.nullifierRegistryContract = null;
+    this.zkProofVerifierContract = null;
     this.commitmentTreeContract = null;
     this.darkPoolMixerContract = null;
     this.privacyRelayerContract = null;
+    this.encryptedStateManagerContract = null;
+    this.zkDexHookContract = null;
   }
 
   /**
@@ -162,6 +246,27 @@ export class ContractService {
     return this.pumpFactoryContract;
   }
 
+  /**
+   * Get ProtocolConfig contract instance
+   */
+  getProtocolConfigContract(): Contract {
+    const addresses = getContractAddresses(this.network);
+    
+    if (!isValidContractAddress(addresses.protocolConfig)) {
+      throw new Error('ProtocolConfig contract address not configured');
+    }
+
+    if (!this.protocolConfigContract) {
+      this.protocolConfigContract = new Contract(
+        PROTOCOL_CONFIG_ABI,
+        addresses.protocolConfig,
+        this.account || this.provider
+      );
+    }
+
+    return this.protocolConfigContract;
+  }
+
   /**
    * Get BondingCurvePool contract instance for a specific pool
    * Requirements: 1.3
@@ -282,6 +387,27 @@ export class ContractService {
     return this.darkPoolMixerContract;
   }
 
+  /**
+   * Get ZKProofVerifier contract instance
+   */
+  getZkProofVerifierContract(): Contract {
+    const addresses = getContractAddresses(this.network);
+    
+    if (!isValidContractAddress(addresses.zkProofVerifier)) {
+      throw new Error('ZKProofVerifier contract address not configured');
+    }
+
+    if (!this.zkProofVerifierContract) {
+      this.zkProofVerifierContract = new Contract(
+        ZK_PROOF_VERIFIER_ABI,
+        addresses.zkProofVerifier,
+        this.account || this.provider
+      );
+    }
+
+    return this.zkProofVerifierContract;
+  }
+
   /**
    * Get PrivacyRelayer contract instance
    */
@@ -303,6 +429,52 @@ export class ContractService {
     return this.privacyRelayerContract;
   }
 
+  /**
+   * Get EncryptedStateManager contract instance
+   */
+  getEncryptedStateManagerContract(): Contract {
+    const addresses = getContractAddresses(this.network);
+
+    if (!isValidContractAddress(addresses.encryptedStateManager)) {
+      throw new Error('EncryptedStateManager contract address not configured');
+    }
+
+    if (!this.encryptedStateManagerContract) {
+      this.encryptedStateManagerContract = new Contract(
+        ENCRYPTED_STATE_MANAGER_ABI,
+        addresses.encryptedStateManager,
+        this.account || this.provider
+      );
+    }
+
+    return this.encryptedStateManagerContract;
+  }
+
+  // =========================================================================
+  // Migration Contract Instances
+  // =========================================================================
+
+  /**
+   * Get ZkDexHook contract instance
+   */
+  getZkDexHookContract(): Contract {
+    const addresses = getContractAddresses(this.network);
+
+    if (!isValidContractAddress(addresses.zkDexHook)) {
+      throw new Error('ZkDexHook contract address not configured');
+    }
+
+    if (!this.zkDexHookContract) {
+      this.zkDexHookContract = new Contract(
+        ZK_DEX_HOOK_ABI,
+        addresses.zkDexHook,
+        this.account || this.provider
+      );
+    }
+
+    return this.zkDexHookContract;
+  }
+
   // =========================================================================
   // Stealth Address Methods
   // =========================================================================
@@ -379,6 +551,17 @@ export class ContractService {
     return result?.toString() || '0x0';
   }
 
+  /**
+   * Check a view tag with check_ownership
+   * The contract only checks that the tag maps to a registered stealth
+   * address and ignores viewing_key, so no key is sent.
+   */
+  async checkStealthOwnership(viewTag: string): Promise<boolean> {
+    const stealth = this.getStealthGeneratorContract();
+    const result = await stealth.call('check_ownership', [viewTag, 0]);
+    return Boolean(result);
+  }
+
   // =========================================================================
   // Nullifier Registry Methods
   // =========================================================================
@@ -442,6 +625,15 @@ export class ContractService {
     return Boolean(result);
   }
 
+  /**
+   * Check if a root is the current or a historical CommitmentTree root
+   */
+  async isKnownMerkleRoot(root: string): Promise<boolean> {
+    const tree = this.getCommitmentTreeContract();
+    const result = await tree.call('is_known_root', [root]);
+    return Boolean(result);
+  }
+
   // =========================================================================
   // DarkPool Mixer Methods
   // =========================================================================
@@ -488,24 +680,177 @@ export class ContractService {
     };
   }
 
+  /**
+   * Deposit into the mixer with approve + deposit in one multicall
+   * Requirements: 7.1
+   */
+  async depositToMixer(token: string, amount: bigint, commitment: string): Promise<MixerDepositResult> {
+    if (!this.account) {
+      throw new Error('Account not connected');
+    }
+
+    const addresses = getContractAddresses(this.network);
+    if (!isValidContractAddress(addresses.darkPoolMixer)) {
+      throw new Error('DarkPoolMixer contract address not configured');
+    }
+
+    const tx = await this.account.execute(
+      buildMixerDepositCalls({ mixerAddress: addresses.darkPoolMixer, token, amount, commitment })
+    );
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
+
+    const event = findReceiptEvent(receipt, 'Deposit', addresses.darkPoolMixer);
+    if (!event) {
+      throw new Error('Deposit event not found in receipt');
+    }
+
+    return {
+      hash: tx.transaction_hash,
+      status: 'confirmed',
+      blockNumber: receipt?.block_number,
+      leafIndex: event.leafIndex,
+    };
+  }
+
+  /**
+   * Withdraw a deposit to any recipient; the mixer fee is deducted on-chain
+   * Requirements: 7.2, 7.3
+   */
+  async withdrawFromMixer(params: MixerWithdrawParams): Promise<TransactionResult> {
+    if (!this.account) {
+      throw new Error('Account not connected');
+    }
+
+    const addresses = getContractAddresses(this.network);
+    if (!isValidContractAddress(addresses.darkPoolMixer)) {
+      throw new Error('DarkPoolMixer contract address not configured');
+    }
+
+    const tx = await this.account.execute([
+      buildMixerWithdrawCall({ mixerAddress: addresses.darkPoolMixer, ...params }),
+    ]);
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
+
+    return {
+      hash: tx.transaction_hash,
+      status: 'confirmed',
+      blockNumber: receipt?.block_number,
+    };
+  }
+
+  // =========================================================================
+  // Encrypted State Methods
+  // =========================================================================
+
+  /**
+   * Encrypted balance of a stealth address for a token (all zero if none)
+   */
+  async getEncryptedBalance(stealthAddress: string, token: string): Promise<EncryptedBalanceEntry> {
+    const manager = this.getEncryptedStateManagerContract();
+    const result = (await manager.call('get_encrypted_balance', [stealthAddress, token])) as any;
+    return {
+      encryptedAmount: num.toHex(result.encrypted_amount),
+      commitment: num.toHex(result.commitment),
+      lastUpdated: Number(result.last_updated),
+    };
+  }
+
+  /**
+   * Encrypted position by its position hash
+   */
+  async getEncryptedPosition(positionHash: string): Promise<EncryptedPositionEntry> {
+    const manager = this.getEncryptedStateManagerContract();
+    const result = (await manager.call('get_encrypted_position', [positionHash])) as any;
+    return {
+      positionHash: num.toHex(result.position_hash),
+      encryptedData: num.toHex(result.encrypted_data),
+      pool: addAddressPadding(num.toHex(result.pool)),
+      timestamp: Number(result.timestamp),
+    };
+  }
+
+  /**
+   * Ciphertext of a balance, released against a decryption proof
+   * The contract does not check the proof yet; decryption happens client-side.
+   */
+  async requestDecryption(stealthAddress: string, token: string, decryptionProof: string): Promise<string> {
+    const manager = this.getEncryptedStateManagerContract();
+    const result = await manager.call('request_decryption', [stealthAddress, token, decryptionProof]);
+    return num.toHex(result as bigint);
+  }
+
+  /**
+   * Check a claimed commitment against the stored balance without revealing the amount
+   */
+  async verifyBalanceCommitment(
+    stealthAddress: string,
+    token: string,
+    claimedCommitment: string
+  ): Promise<boolean> {
+    const manager = this.getEncryptedStateManagerContract();
+    const result = await manager.call('verify_balance_commitment', [
+      stealthAddress,
+      token,
+      claimedCommitment,
+    ]);
+    return Boolean(result);
+  }
+
+  // =========================================================================
+  // ZkDexHook Methods
+  // =========================================================================
+
+  /**
+   * LP token ZkDexHook locked for a migrated pool, and its unlock time
+   */
+  async getLockedLiquidity(poolAddress: string): Promise<LockedLiquidity> {
+    const hook = this.getZkDexHookContract();
+    const result = (await hook.call('get_locked_lp', [poolAddress])) as any;
+    return {
+      lpToken: this.toHexAddress(result[0]),
+      unlockTime: Number(result[1]),
+    };
+  }
+
+  /**
+   * Whether ZkDexHook still holds the pool's LP tokens
+   */
+  async isLiquidityProtected(poolAddress: string): Promise<boolean> {
+    const hook = this.getZkDexHookContract();
+    const result = await hook.call('is_protected', [poolAddress]);
+    return Boolean(result);
+  }
+
+  /**
+   * Reserves of a DEX pair (the LP token is the pair contract)
+   * Read from the raw result so pairs that also return a timestamp work too
+   */
+  async getLpReserves(lpToken: string): Promise<LpReserves> {
+    const [low0, high0, low1, high1] = await this.provider.callContract({
+      contractAddress: lpToken,
+      entrypoint: 'get_reserves',
+    });
+    return {
+      reserve0: this.parseU256({ low: low0, high: high0 }),
+      reserve1: this.parseU256({ low: low1, high: high1 }),
+    };
+  }
+
   // =========================================================================
   // Helper Methods for Privacy Events
   // =========================================================================
 
   /**
-   * Extract stealth address from receipt events
+   * Extract stealth address from the StealthAddressRegistered event
    */
   private extractStealthAddressFromReceipt(receipt: any): string | null {
-    try {
-      const events = receipt.events || [];
-      const event = events.find((e: any) => e.keys && e.data);
-      if (event && event.data && event.data[0]) {
-        return event.data[0].toString();
-      }
-      return null;
-    } catch {
-      return null;
-    }
+    const addresses = getContractAddresses(this.network);
+    const event = findReceiptEvent(
+      receipt,
+      'StealthAddressRegistered',
+      addresses.stealthAddressGenerator
+    );
+    return event?.stealthAddress ?? null;
   }
 
   /**
@@ -516,20 +861,18 @@ export class ContractService {
     viewTag: string;
     ephemeralPubkey: string;
   } | null {
-    try {
-      const events = receipt.events || [];
-      const event = events.find((e: any) => e.keys && e.data);
-      if (event && event.data) {
-        return {
-          stealthAddress: event.data[0]?.toString() || '0x0',
-          viewTag: event.data[1]?.toString() || '0x0',
-          ephemeralPubkey: event.data[2]?.toString() || '0x0',
-        };
-      }
-      return null;
-    } catch {
-      return null;
-    }
+    const addresses = getContractAddresses(this.network);
+    const event = findReceiptEvent(
+      receipt,
+      'StealthAddressGenerated',
+      addresses.stealthAddressGenerator
+    );
+    if (!event) return null;
+    return {
+      stealthAddress: event.stealthAddress,
+      viewTag: event.viewTag,
+      ephemeralPubkey: event.ephemeralPubkey,
+    };
   }
 
   // =========================================================================
@@ -702,148 +1045,334 @@ export class ContractService {
   }
 
   /**
-   * Get buy cost for a given amount of tokens
-   * Requirements: 5.1
-   * 
-   * Calculates the cost using the bonding curve integral:
-   * cost = base_price * amount + slope * (current_sold + amount)^2 / 2 - slope * current_sold^2 / 2
-   * 
-   * All values are in 18 decimals. We need proper scaling to avoid overflow.
+   * Migration threshold of the launch a pool was registered under
+   * Read from the pool's own factory (get_launch_full), since the public
+   * launch info omits it
+   *
+   * @returns null when the pool was not registered with a factory
    */
-  async getBuyCost(poolAddress: string, amountTokens: bigint): Promise<bigint> {
+  async getPoolMigrationThreshold(poolAddress: string): Promise<PoolMigrationThreshold | null> {
+    const pool = this.getBondingCurvePoolContract(poolAddress);
+    const [factoryAddress, launchId] = await Promise.all([
+      pool.call('get_factory'),
+      pool.call('get_launch_id'),
+    ]);
+    if (BigInt(factoryAddress.toString()) === BigInt(0)) {
+      return null;
+    }
+
+    const factory = new Contract(PUMP_FACTORY_ABI, this.toHexAddress(factoryAddress), this.provider);
+    const id = this.parseU256(launchId);
+    const info: any = await factory.call('get_launch_full', [cairo.uint256(id)]);
+    return {
+      launchId: id,
+      threshold: this.parseU256(info.migration_threshold),
+    };
+  }
+
+  /**
+   * Get protocol and creator fees (ProtocolConfig.get_fee_config, get_creator_fee_bps)
+   * The pools charge both on top of the curve cost of every buy and sell
+   */
+  async getFeeConfig(): Promise<FeeConfig> {
+    const protocolConfig = this.getProtocolConfigContract();
+    const [result, creatorFeeBps]: any[] = await Promise.all([
+      protocolConfig.call('get_fee_config'),
+      protocolConfig.call('get_creator_fee_bps'),
+    ]);
+    return {
+      feeBps: BigInt(result.fee_bps?.toString() || '0'),
+      feeReceiver: this.toHexAddress(result.fee_receiver),
+      creatorFeeBps: BigInt(creatorFeeBps?.toString() || '0'),
+    };
+  }
+
+  /**
+   * Get the bonding curve parameter ranges new launches must stay within
+   * (ProtocolConfig.get_curve_limits)
+   */
+  async getCurveLimits(): Promise<CurveLimits> {
+    const protocolConfig = this.getProtocolConfigContract();
+    const result: any = await protocolConfig.call('get_curve_limits');
+    return {
+      minBasePrice: this.parseU256(result.min_base_price),
+      maxBasePrice: this.parseU256(result.max_base_price),
+      minSlope: this.parseU256(result.min_slope),
+      maxSlope: this.parseU256(result.max_slope),
+      minSupply: this.parseU256(result.min_supply),
+      maxSupply: this.parseU256(result.max_supply),
+    };
+  }
+
+  /**
+   * Read everything a buy/sell quote depends on in one round trip
+   */
+  private async getQuoteInputs(
+    poolAddress: string
+  ): Promise<{ state: CurveQuoteState; fees: CurveFees; quoteToken: string }> {
     const pool = this.getBondingCurvePoolContract(poolAddress);
     
-    // Get current pool state and config
-    const [state, basePrice, slope] = await Promise.all([
+    const [state, basePrice, slope, maxSupply, feeConfig] = await Promise.all([
       pool.call('get_state'),
       pool.call('base_price'),
       pool.call('slope'),
+      pool.call('max_supply'),
+      this.getFeeConfig(),
     ]);
     
-    const stateObj = this.parsePoolState(state);
-    const tokensSold = stateObj.tokensSold;
-    const base = this.parseU256(basePrice);
-    const s = this.parseU256(slope);
-    const amount = BigInt(amountTokens);
+    const poolState = this.parsePoolState(state);
     
-    // Debug logging
-    console.log('getBuyCost debug:', {
-      tokensSold: tokensSold.toString(),
-      basePrice: base.toString(),
-      slope: s.toString(),
-      amount: amount.toString(),
-    });
-    
-    // Decimal scaling factor (10^18)
-    const DECIMALS = BigInt('1000000000000000000');
-    
-    // Calculate cost using bonding curve integral
-    // cost = base_price * amount + slope * ((current + amount)^2 - current^2) / 2
-    const currentSold = tokensSold;
-    const newSold = currentSold + amount;
-    
-    // Linear component: base_price * amount / 10^18
-    const linearCost = (base * amount) / DECIMALS;
-    
-    // Quadratic component needs double scaling because we're squaring 18-decimal values
-    // (newSold^2 - currentSold^2) results in 36-decimal value, need to divide by 10^36
-    // Then multiply by slope (18 decimals) and divide by 2
-    // Final: slope * squareDiff / 2 / 10^36 = slope * squareDiff / (2 * 10^18 * 10^18)
-    const newSoldScaled = newSold / DECIMALS; // Convert to actual token count
-    const currentSoldScaled = currentSold / DECIMALS;
-    const squareDiffScaled = newSoldScaled * newSoldScaled - currentSoldScaled * currentSoldScaled;
-    
-    // quadraticCost = slope * squareDiff / 2 (slope is in 18 decimals, result is in 18 decimals)
-    const quadraticCost = (s * squareDiffScaled) / BigInt(2);
-    
-    return linearCost + quadraticCost;
+    return {
+      state: {
+        basePrice: this.parseU256(basePrice),
+        slope: this.parseU256(slope),
+        maxSupply: this.parseU256(maxSupply),
+        tokensSold: poolState.tokensSold,
+        reserveBalance: poolState.reserveBalance,
+        migrated: poolState.migrated,
+      },
+      fees: feeConfig,
+      quoteToken: poolState.quoteToken,
+    };
+  }
+
+  /**
+   * Get full buy quote (price, total cost, fees, reserve share)
+   * Requirements: 5.1
+   */
+  async getBuyQuote(poolAddress: string, amountTokens: bigint): Promise<BuyQuote> {
+    const { state, fees } = await this.getQuoteInputs(poolAddress);
+    return quoteBuy(state, fees, BigInt(amountTokens));
+  }
+
+  /**
+   * Get full sell quote (price, gross refund, fees, net refund)
+   * Requirements: 6.1
+   */
+  async getSellQuote(poolAddress: string, amountTokens: bigint): Promise<SellQuote> {
+    const { state, fees } = await this.getQuoteInputs(poolAddress);
+    return quoteSell(state, fees, BigInt(amountTokens));
+  }
+
+  /**
+   * Get buy cost for a given amount of tokens
+   * Total quote tokens BondingCurvePool.buy pulls from the buyer, fees included
+   * Requirements: 5.1
+   */
+  async getBuyCost(poolAddress: string, amountTokens: bigint): Promise<bigint> {
+    const quote = await this.getBuyQuote(poolAddress, amountTokens);
+    return quote.totalCost;
   }
 
   /**
    * Get sell return for a given amount of tokens
+   * Quote tokens BondingCurvePool.sell sends to the seller, net of both fees
    * Requirements: 6.1
-   * 
-   * Calculates the return using the bonding curve integral:
-   * return = base_price * amount + slope * current_sold^2 / 2 - slope * (current_sold - amount)^2 / 2
-   * 
-   * All values are in 18 decimals. We need proper scaling to avoid overflow.
    */
   async getSellReturn(poolAddress: string, amountTokens: bigint): Promise<bigint> {
-    // For simulation mode, use hardcoded bonding curve params
-    // since pool contracts are not deployed
-    const base = BigInt('1000000000000'); // 0.000001 STRK base price
-    const s = BigInt('100000000000');     // slope
-    const amount = BigInt(amountTokens);
-    
-    console.log('getSellReturn simulation:', {
+    const quote = await this.getSellQuote(poolAddress, amountTokens);
+    return quote.netReturn;
+  }
+
+  /**
+   * Buy tokens from bonding curve
+   * Re-quotes against fresh pool state, aborts with SLIPPAGE_EXCEEDED when the
+   * cost is above maxCost, then sends approve + buy as one multicall
+   * Requirements: 5.2, 5.3
+   */
+  async buy(poolAddress: string, amountTokens: bigint, maxCost?: bigint): Promise<TransactionResult> {
+    if (!this.account) {
+      throw new Error('Account not connected');
+    }
+
+    const { state, fees, quoteToken } = await this.getQuoteInputs(poolAddress);
+    const quote = quoteBuy(state, fees, amountTokens);
+    assertBuyWithinBound(quote, maxCost);
+
+    const calls = buildBuyCalls({
       poolAddress,
-      amount: amount.toString(),
-      basePrice: base.toString(),
-      slope: s.toString(),
+      quoteToken,
+      amountTokens,
+      approveAmount: quote.totalCost,
     });
     
-    // Decimal scaling factor (10^18)
-    const DECIMALS = BigInt('1000000000000000000');
-    
-    // In simulation mode, we assume the user is selling tokens they bought
-    // So currentSold = amount (they bought this much), newSold = 0 (after selling all)
-    // For partial sells, we use amount as the sold portion
-    const currentSold = amount;
-    const newSold = BigInt(0);
-    
-    // Linear component: base_price * amount / 10^18
-    const linearReturn = (base * amount) / DECIMALS;
+    const tx = await this.account.execute(calls);
     
-    // Quadratic component - scale down before squaring to avoid overflow
-    const currentSoldScaled = currentSold / DECIMALS;
-    const newSoldScaled = newSold / DECIMALS;
-    const squareDiffScaled = currentSoldScaled * currentSoldScaled - newSoldScaled * newSoldScaled;
-    
-    // quadraticReturn = slope * squareDiff / 2
-    const quadraticReturn = (s * squareDiffScaled) / BigInt(2);
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
     
-    return linearReturn + quadraticReturn;
+    return {
+      hash: tx.transaction_hash,
+      status: 'confirmed',
+      blockNumber: receipt?.block_number,
+    };
   }
 
   /**
-   * Buy tokens from bonding curve
-   * Requirements: 5.2
+   * Sell tokens to bonding curve
+   * Re-quotes against fresh pool state and aborts with SLIPPAGE_EXCEEDED when
+   * the return is below minReturn. No approval needed: the pool burns the
+   * tokens as the token's minter
+   * Requirements: 6.2, 6.3
    */
-  async buy(poolAddress: string, amountTokens: bigint): Promise<TransactionResult> {
+  async sell(poolAddress: string, amountTokens: bigint, minReturn?: bigint): Promise<TransactionResult> {
     if (!this.account) {
       throw new Error('Account not connected');
     }
 
-    const pool = this.getBondingCurvePoolContract(poolAddress);
+    const quote = await this.getSellQuote(poolAddress, amountTokens);
+    assertSellWithinBound(quote, minReturn);
     
-    const tx = await pool.invoke('buy', [cairo.uint256(amountTokens)]);
+    const tx = await this.account.execute(buildSellCalls({ poolAddress, amountTokens }));
     
-    await this.waitForTransaction(tx.transaction_hash);
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
     
     return {
       hash: tx.transaction_hash,
       status: 'confirmed',
+      blockNumber: receipt?.block_number,
     };
   }
 
   /**
-   * Sell tokens to bonding curve
+   * Whether the pool accepts private_buy/private_sell
+   */
+  async isPrivateTradesEnabled(poolAddress: string): Promise<boolean> {
+    const pool = this.getBondingCurvePoolContract(poolAddress);
+    const result = await pool.call('is_private_trades_enabled');
+    return Boolean(result);
+  }
+
+  /**
+   * Timestamp of the latest block; proofs must not be newer than it
+   */
+  async getLatestBlockTimestamp(): Promise<number> {
+    const block = await this.provider.getBlock('latest');
+    return Number(block.timestamp);
+  }
+
+  /**
+   * Buy tokens without the buyer appearing in the pool's events
+   * Same re-quote and maxCost check as buy, then approve + private_buy
+   * Requirements: 6.1
+   */
+  async privateBuy(
+    poolAddress: string,
+    amountTokens: bigint,
+    proof: ZKProof,
+    commitment: string,
+    maxCost?: bigint
+  ): Promise<TransactionResult> {
+    if (!this.account) {
+      throw new Error('Account not connected');
+    }
+
+    const { state, fees, quoteToken } = await this.getQuoteInputs(poolAddress);
+    const quote = quoteBuy(state, fees, amountTokens);
+    assertBuyWithinBound(quote, maxCost);
+
+    const tx = await this.account.execute(
+      buildPrivateBuyCalls({
+        poolAddress,
+        quoteToken,
+        amountTokens,
+        approveAmount: quote.totalCost,
+        proof,
+        commitment,
+      })
+    );
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
+
+    if (!findReceiptEvent(receipt, 'PrivateBuy', poolAddress)) {
+      throw new Error('PrivateBuy event not found in receipt');
+    }
+
+    return {
+      hash: tx.transaction_hash,
+      status: 'confirmed',
+      blockNumber: receipt?.block_number,
+    };
+  }
+
+  /**
+   * Sell tokens against a nullifier instead of the seller's identity
+   * Same re-quote and minReturn check as sell; the nullifier is checked
+   * first so a spent one fails before anything is signed
    * Requirements: 6.2
    */
-  async sell(poolAddress: string, amountTokens: bigint): Promise<TransactionResult> {
+  async privateSell(
+    poolAddress: string,
+    amountTokens: bigint,
+    proof: ZKProof,
+    nullifier: string,
+    minReturn?: bigint
+  ): Promise<TransactionResult> {
     if (!this.account) {
       throw new Error('Account not connected');
     }
 
-    const pool = this.getBondingCurvePoolContract(poolAddress);
-    
-    const tx = await pool.invoke('sell', [cairo.uint256(amountTokens)]);
-    
-    await this.waitForTransaction(tx.transaction_hash);
-    
+    if (await this.isNullifierSpent(nullifier)) {
+      throw new Error('NULLIFIER_ALREADY_SPENT');
+    }
+
+    const quote = await this.getSellQuote(poolAddress, amountTokens);
+    assertSellWithinBound(quote, minReturn);
+
+    const tx = await this.account.execute(
+      buildPrivateSellCalls({ poolAddress, amountTokens, proof, nullifier })
+    );
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
+
+    if (!findReceiptEvent(receipt, 'PrivateSell', poolAddress)) {
+      throw new Error('PrivateSell event not found in receipt');
+    }
+
+    return {
+      hash: tx.transaction_hash,
+      status: 'confirmed',
+      blockNumber: receipt?.block_number,
+    };
+  }
+
+  // =========================================================================
+  // DEX Methods
+  // =========================================================================
+
+  /**
+   * Send the calls a DEX adapter built for a swap (approve + swap)
+   * Used once a pool has migrated and no longer trades on the curve
+   */
+  async executeDexSwap(calls: Call[]): Promise<TransactionResult> {
+    return this.executeCalls(calls);
+  }
+
+  // =========================================================================
+  // Admin Methods
+  // =========================================================================
+
+  /**
+   * Send a batch of owner-only calls as one multicall
+   * Each call reverts with the contract's owner check if the account does
+   * not own its target
+   */
+  async executeAdminCalls(calls: Call[]): Promise<TransactionResult> {
+    return this.executeCalls(calls);
+  }
+
+  /**
+   * Execute prebuilt calls from the connected account and wait for the receipt
+   */
+  private async executeCalls(calls: Call[]): Promise<TransactionResult> {
+    if (!this.account) {
+      throw new Error('Account not connected');
+    }
+
+    const tx = await this.account.execute(calls);
+    const receipt = await this.waitForTransaction(tx.transaction_hash);
+
     return {
       hash: tx.transaction_hash,
       status: 'confirmed',
+      blockNumber: receipt?.block_number,
     };
   }
 
@@ -1027,13 +1556,23 @@ export class ContractService {
     return BigInt(value.toString());
   }
 
+  /**
+   * Convert felt252 contract response to a padded hex address
+   */
+  // eslint-disable-next-line class-methods-use-this
+  private toHexAddress(value: any): string {
+    if (!value) return '0x0';
+    const bigIntValue = BigInt(value.toString());
+    return `0x${bigIntValue.toString(16).padStart(64, '0')}`;
+  }
+
   /**
    * Parse PoolState from contract response
    */
   private parsePoolState(result: any): PoolState {
     return {
-      token: result.token?.toString() || '0x0',
-      quoteToken: result.quote_token?.toString() || '0x0',
+      token: this.toHexAddress(result.token),
+      quoteToken: this.toHexAddress(result.quote_token),
       tokensSold: this.parseU256(result.tokens_sold),
       reserveBalance: this.parseU256(result.reserve_balance),
       migrated: Boolean(result.migrated),
@@ -1044,17 +1583,10 @@ export class ContractService {
    * Parse PublicLaunchInfo from contract response
    */
   private parsePublicLaunchInfo(result: any): PublicLaunchInfo {
-    // Helper to convert felt252 to hex address
-    const toHexAddress = (value: any): string => {
-      if (!value) return '0x0';
-      const bigIntValue = BigInt(value.toString());
-      return `0x${bigIntValue.toString(16).padStart(64, '0')}`;
-    };
-    
     return {
-      token: toHexAddress(result.token),
-      pool: toHexAddress(result.pool),
-      quoteToken: toHexAddress(result.quote_token),
+      token: this.toHexAddress(result.token),
+      pool: this.toHexAddress(result.pool),
+      quoteToken: this.toHexAddress(result.quote_token),
       name: shortString.decodeShortString(result.name?.toString() || '0x0'),
       symbol: shortString.decodeShortString(result.symbol?.toString() || '0x0'),
       basePrice: this.parseU256(result.base_price),
@@ -1069,70 +1601,19 @@ export class ContractService {
    * Extract LaunchCreated event from transaction receipt
    */
   private extractLaunchCreatedEvent(receipt: any): { launchId: bigint; token: string; pool: string } | null {
-    try {
-      console.log('Parsing receipt for LaunchCreated event:', JSON.stringify(receipt, null, 2));
-      
-      const events = receipt.events || [];
-      console.log(`Found ${events.length} events in receipt`);
-      
-      const addresses = getContractAddresses(this.network);
-      const factoryAddress = addresses.pumpFactory.toLowerCase();
-      console.log('Looking for events from factory:', factoryAddress);
-      
-      // Log all event addresses for debugging
-      events.forEach((e: any, i: number) => {
-        console.log(`Event ${i}: from=${e.from_address}, keys=${e.keys?.length}, data=${e.data?.length}`);
-      });
-      
-      // Find LaunchCreated event from factory contract
-      const launchEvent = events.find((event: any) => {
-        const fromAddr = event.from_address?.toLowerCase();
-        return fromAddr === factoryAddress && event.keys && event.keys.length >= 3 && event.data && event.data.length >= 3;
-      });
-      
-      if (launchEvent) {
-        console.log('Found LaunchCreated event from factory:', launchEvent);
-        
-        // Cairo event structure:
-        // #[derive(Drop, starknet::Event)]
-        // pub struct LaunchCreated {
-        //     #[key]
-        //     pub launch_id: u256,           // keys[1], keys[2] (u256 = 2 felts)
-        //     pub token: ContractAddress,    // data[0]
-        //     pub pool: ContractAddress,     // data[1]
-        //     pub stealth_creator: ContractAddress, // data[2]
-        //     pub migration_threshold: u256, // data[3], data[4]
-        // }
-        
-        // Parse launch_id from keys (u256 = low, high)
-        const launchIdLow = BigInt(launchEvent.keys[1]?.toString() || '0');
-        const launchIdHigh = BigInt(launchEvent.keys[2]?.toString() || '0');
-        const launchId = launchIdLow + (launchIdHigh << BigInt(128));
-        
-        // Parse addresses from data
-        const tokenFelt = BigInt(launchEvent.data[0]?.toString() || '0');
-        const poolFelt = BigInt(launchEvent.data[1]?.toString() || '0');
-        
-        // Convert felt252 to hex address format
-        const token = `0x${tokenFelt.toString(16).padStart(64, '0')}`;
-        const pool = `0x${poolFelt.toString(16).padStart(64, '0')}`;
-        
-        const result = {
-          launchId,
-          token,
-          pool,
-        };
-        
-        console.log('Parsed event data:', result);
-        return result;
-      }
-      
+    const addresses = getContractAddresses(this.network);
+    const event = findReceiptEvent(receipt, 'LaunchCreated', addresses.pumpFactory);
+
+    if (!event) {
       console.warn('No LaunchCreated event found in receipt');
       return null;
-    } catch (error) {
-      console.error('Error parsing LaunchCreated event:', error);
-      return null;
     }
+
+    return {
+      launchId: event.launchId,
+      token: event.token,
+      pool: event.pool,
+    };
   }
 }
 
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+
+import { RpcProvider } from 'starknet';
+import { PUMP_FACTORY_ABI, ZK_PROOF_VERIFIER_ABI } from '../abi';
+import { DeploymentCheck } from './deploymentCheck';
+
+const OLD_VERIFIER_CLASS = '0xc1a55';
+
+jest.mock('../config/contracts', () => ({
+  getContractConfig: () => ({ rpcUrl: 'http://localhost:5050' }),
+  isValidContractAddress: (address: string) => BigInt(address) !== BigInt(0),
+  getDeploymentManifest: () => ({
+    contracts: {
+      // Synced before the verifier changed
+      ZKProofVerifier: { address: '0x5a', class_hash: '0xc1a55', abi_hash: null },
+      PumpFactory: { address: '0xfac', class_hash: '0xfac1', abi_hash: null },
+      NullifierRegistry: { address: '0x4a11', class_hash: '0x4a111', abi_hash: '0x1' },
+      PrivacyRelayer: { address: '0x0', class_hash: '0x0', abi_hash: null },
+    },
+  }),
+}));
+
+const fakeProvider = () => {
+  const getClassByHash = jest.fn(async (classHash: string) => ({
+    sierra_program: [],
+    // The verifier before its G1/G2 proof layout
+    abi: classHash === OLD_VERIFIER_CLASS ? ZK_PROOF_VERIFIER_ABI.slice(1) : PUMP_FACTORY_ABI,
+  }));
+  return { provider: { getClassByHash } as unknown as RpcProvider, getClassByHash };
+};
+
+describe('DeploymentCheck', () => {
+  it('reports contracts whose deployed class has another ABI', async () => {
+    const { provider } = fakeProvider();
+    const check = new DeploymentCheck(provider);
+
+    await expect(check.findOutdated(['PumpFactory', 'ZKProofVerifier'])).resolves.toEqual([
+      'ZKProofVerifier',
+    ]);
+  });
+
+  it('prefers the manifest ABI hash and skips undeployed contracts', async () => {
+    const { provider, getClassByHash } = fakeProvider();
+    const check = new DeploymentCheck(provider);
+
+    await expect(
+      check.findOutdated(['NullifierRegistry', 'PrivacyRelayer', 'DarkPoolMixer'])
+    ).resolves.toEqual(['NullifierRegistry']);
+    expect(getClassByHash).not.toHaveBeenCalled();
+  });
+
+  it('reads each class once and ignores classes it cannot read', async () => {
+    const { provider, getClassByHash } = fakeProvider();
+    const check = new DeploymentCheck(provider);
+
+    await check.findOutdated(['ZKProofVerifier']);
+    await check.findOutdated(['ZKProofVerifier']);
+    expect(getClassByHash).toHaveBeenCalledTimes(1);
+
+    getClassByHash.mockRejectedValueOnce(new Error('rate limited'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await expect(check.isOutdated('PumpFactory')).resolves.toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
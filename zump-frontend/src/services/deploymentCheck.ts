@@ -0,0 +1,127 @@
+/**
+ * Deployment Check
+ * Detects protocol contracts whose deployed class predates the ABI the app
+ * calls, e.g. a network that was not redeployed after a contract change.
+ * Calls into such a contract fail or decode the wrong layout.
+ * Requirements: 1.1
+ */
+
+import { Abi, RpcProvider } from 'starknet';
+import {
+  DARK_POOL_MIXER_ABI,
+  COMMITMENT_TREE_ABI,
+  ENCRYPTED_STATE_MANAGER_ABI,
+  LIQUIDITY_MIGRATION_ABI,
+  NULLIFIER_REGISTRY_ABI,
+  PRIVACY_RELAYER_ABI,
+  PROTOCOL_CONFIG_ABI,
+  PUMP_FACTORY_ABI,
+  STEALTH_ADDRESS_GENERATOR_ABI,
+  ZK_DEX_HOOK_ABI,
+  ZK_PROOF_VERIFIER_ABI,
+} from '../abi';
+import {
+  getContractConfig,
+  getDeploymentManifest,
+  isValidContractAddress,
+} from '../config/contracts';
+import { ManifestContractName, computeAbiHash } from '../config/deploymentManifest';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const APP_ABIS: Record<ManifestContractName, Abi> = {
+  ProtocolConfig: PROTOCOL_CONFIG_ABI,
+  PumpFactory: PUMP_FACTORY_ABI,
+  StealthAddressGenerator: STEALTH_ADDRESS_GENERATOR_ABI,
+  CommitmentTree: COMMITMENT_TREE_ABI,
+  NullifierRegistry: NULLIFIER_REGISTRY_ABI,
+  ZKProofVerifier: ZK_PROOF_VERIFIER_ABI,
+  DarkPoolMixer: DARK_POOL_MIXER_ABI,
+  PrivacyRelayer: PRIVACY_RELAYER_ABI,
+  EncryptedStateManager: ENCRYPTED_STATE_MANAGER_ABI,
+  LiquidityMigration: LIQUIDITY_MIGRATION_ABI,
+  ZkDexHook: ZK_DEX_HOOK_ABI,
+};
+
+// ============================================================================
+// Deployment Check Class
+// ============================================================================
+
+export class DeploymentCheck {
+  private provider: RpcProvider;
+
+  /** A deployed class never changes, so each contract is checked once */
+  private results = new Map<ManifestContractName, Promise<boolean>>();
+
+  constructor(provider?: RpcProvider) {
+    this.provider = provider ?? new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+  }
+
+  /**
+   * Names of the given contracts whose deployed ABI differs from the app's
+   */
+  async findOutdated(names: readonly ManifestContractName[]): Promise<ManifestContractName[]> {
+    const outdated = await Promise.all(names.map((name) => this.isOutdated(name)));
+    return names.filter((_, index) => outdated[index]);
+  }
+
+  /**
+   * Whether a contract's deployed ABI differs from the app's
+   * Uses the manifest's abi_hash when it is recorded, else the class on
+   * chain. A contract that is not deployed, or whose class cannot be read,
+   * is not reported.
+   */
+  isOutdated(name: ManifestContractName): Promise<boolean> {
+    let result = this.results.get(name);
+    if (!result) {
+      result = this.checkContract(name).catch((error) => {
+        console.warn(`Could not check the deployed ${name} class:`, error);
+        this.results.delete(name);
+        return false;
+      });
+      this.results.set(name, result);
+    }
+    return result;
+  }
+
+  private async checkContract(name: ManifestContractName): Promise<boolean> {
+    const entry = getDeploymentManifest()?.contracts[name];
+    if (!entry || !isValidContractAddress(entry.address)) return false;
+
+    const appAbiHash = BigInt(computeAbiHash(APP_ABIS[name]));
+    if (entry.abi_hash !== null) {
+      return BigInt(entry.abi_hash) !== appAbiHash;
+    }
+
+    const contractClass = await this.provider.getClassByHash(entry.class_hash);
+    if (!('sierra_program' in contractClass)) return false;
+    return BigInt(computeAbiHash(contractClass.abi)) !== appAbiHash;
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let deploymentCheckInstance: DeploymentCheck | null = null;
+
+/**
+ * Get or create DeploymentCheck singleton
+ */
+export const getDeploymentCheck = (): DeploymentCheck => {
+  if (!deploymentCheckInstance) {
+    deploymentCheckInstance = new DeploymentCheck();
+  }
+  return deploymentCheckInstance;
+};
+
+/**
+ * Reset DeploymentCheck instance
+ */
+export const resetDeploymentCheck = (): void => {
+  deploymentCheckInstance = null;
+};
+
+export default DeploymentCheck;
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+import { RpcProvider } from 'starknet';
+import { EVENT_SELECTORS, RawEvent } from '../utils/eventDecoder';
+import { LaunchPlan, getLaunchProgress } from './deploymentService';
+
+const FACTORY = '0xfac';
+const POOL = '0xb00';
+
+jest.mock('../config/contracts', () => ({
+  getContractAddresses: () => ({ pumpFactory: '0xfac' }),
+  getContractConfig: () => ({ rpcUrl: 'http://localhost:5050' }),
+  getDeploymentManifest: () => null,
+  getLaunchClassHashes: () => ({ MemecoinToken: '0x0', BondingCurvePool: '0x0' }),
+  isValidContractAddress: () => true,
+}));
+
+jest.mock('./contractService', () => ({ getContractService: jest.fn() }));
+
+const tokenOf = (launchId: number) => `0x${(0x7000 + launchId).toString(16)}`;
+
+const launchCreated = (launchId: number): RawEvent => ({
+  from_address: FACTORY,
+  keys: [EVENT_SELECTORS.LaunchCreated, `0x${launchId.toString(16)}`, '0x0'],
+  data: [tokenOf(launchId), POOL, '0x5ea1', '0x64', '0x0'],
+  block_number: 100 + launchId,
+  transaction_hash: `0x${(0x1000 + launchId).toString(16)}`,
+});
+
+/**
+ * Factory with a long launch history, served a few events per page
+ */
+const fakeProvider = (launches: number, receipts: Record<string, RawEvent[]> = {}) => {
+  const events = Array.from({ length: launches }, (_, launchId) => launchCreated(launchId));
+  const getEvents = jest.fn(
+    async (filter: { keys: string[][]; chunk_size: number; continuation_token?: string }) => {
+      expect(filter.keys).toEqual([[EVENT_SELECTORS.LaunchCreated]]);
+      const start = Number(filter.continuation_token ?? 0);
+      const end = start + filter.chunk_size;
+      return {
+        events: events.slice(start, end),
+        continuation_token: end < events.length ? String(end) : undefined,
+      };
+    }
+  );
+
+  const provider = {
+    getClassHashAt: async () => '0xc1a55',
+    callContract: async () => [POOL],
+    getBlockNumber: async () => 100 + launches,
+    getEvents,
+    getTransactionReceipt: async (transactionHash: string) => ({
+      transaction_hash: transactionHash,
+      events: receipts[transactionHash] ?? [],
+    }),
+  } as unknown as RpcProvider;
+
+  return { provider, getEvents };
+};
+
+const planFor = (launchId: number) =>
+  ({ tokenAddress: tokenOf(launchId), poolAddress: POOL } as unknown as LaunchPlan);
+
+describe('getLaunchProgress', () => {
+  it('finds a launch registered before the most recent launches', async () => {
+    const { provider, getEvents } = fakeProvider(250);
+
+    await expect(getLaunchProgress(planFor(3), provider)).resolves.toEqual({
+      tokenDeployed: true,
+      poolDeployed: true,
+      minterUpdated: true,
+      launchId: BigInt(3),
+    });
+    expect(getEvents).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads the launch ID from the pending transaction receipt', async () => {
+    const { provider, getEvents } = fakeProvider(0, { '0xabc': [launchCreated(42)] });
+
+    const progress = await getLaunchProgress(planFor(42), provider, '0xabc');
+
+    expect(progress.launchId).toBe(BigInt(42));
+    expect(getEvents).not.toHaveBeenCalled();
+  });
+
+  it('reports an unregistered token', async () => {
+    const { provider } = fakeProvider(10);
+
+    expect((await getLaunchProgress(planFor(99), provider)).launchId).toBeNull();
+  });
+});
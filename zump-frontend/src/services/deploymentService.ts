@@ -1,24 +1,50 @@
 /**
  * Deployment Service
  * Handles real contract deployment for token launches
- * Deploys MemecoinToken and BondingCurvePool, then registers with PumpFactory
+ * Deploys MemecoinToken and BondingCurvePool, hands minting to the pool and
+ * registers with PumpFactory in a single multicall; anonymous launches also
+ * submit a launch proof to ZKProofVerifier
  */
 
-import { Account, Contract, CallData, shortString, RpcProvider, cairo } from 'starknet';
-import { getContractConfig, getContractAddresses } from '../config/contracts';
-import { PUMP_FACTORY_ABI, MEMECOIN_TOKEN_ABI } from '../abi';
+import {
+  Account,
+  Call,
+  CallData,
+  shortString,
+  RpcProvider,
+  cairo,
+  hash,
+  addAddressPadding,
+} from 'starknet';
+import {
+  getContractConfig,
+  getContractAddresses,
+  getDeploymentManifest,
+  getLaunchClassHashes,
+  isValidContractAddress,
+} from '../config/contracts';
+import { EMPTY_ROOT } from '../utils/commitmentTree';
+import { EVENT_SELECTORS, decodeEvents, findReceiptEvent } from '../utils/eventDecoder';
+import { randomPrivateKey } from '../utils/stealthKeys';
+import {
+  PROOF_TYPES,
+  ZKProof,
+  compileZKProof,
+  computeLaunchInputHash,
+  computeNullifierHash,
+} from '../utils/zkProof';
+import { getContractService } from './contractService';
+import { EventIndexer } from './eventIndexer';
+import type { ProofRequest } from './proofProvider';
 
-// Class hashes from deployment (these are declared on Sepolia)
-const CLASS_HASHES = {
-  MemecoinToken: '0x05760e0c93665dcbe1ee270331b7fc1624e2084d15438f6a9075a3f0dc2a885f',
-  BondingCurvePool: '0x039e341c7a61fe3ed1692a85c464b7f820d67fedafed195449ac1786347654c7',
-};
+// Per-launch class hashes declared on the current network (deployment manifest)
+const CLASS_HASHES = getLaunchClassHashes();
 
 export interface DeployTokenParams {
   name: string;
   symbol: string;
   decimals?: number;  // Default 18
-  initialMinter: string;  // Pool will be the minter
+  initialMinter: string;  // Deployer; handed to the pool by update_minter
 }
 
 export interface DeployPoolParams {
@@ -31,126 +57,100 @@ export interface DeployPoolParams {
   maxSupply: bigint;
 }
 
+export interface LaunchPlanParams {
+  name: string;
+  symbol: string;
+  basePrice: bigint;
+  slope: bigint;
+  maxSupply: bigint;
+  migrationThreshold: bigint;
+  stealthCreator?: string;
+}
+
+/**
+ * Everything needed to send (or resend) a launch
+ * Addresses are precomputed from the salts, so a plan identifies the launch
+ * before any transaction exists.
+ */
+export interface LaunchPlan {
+  deployer: string;
+  tokenSalt: string;
+  poolSalt: string;
+  tokenAddress: string;
+  poolAddress: string;
+  params: LaunchPlanParams & { stealthCreator: string };
+  /** Registered under a stealth creator with a launch proof */
+  anonymous?: boolean;
+  /** Secret behind the launch proof's nullifier (anonymous launches only) */
+  launchSecret?: string;
+}
+
+/**
+ * On-chain state of a launch plan
+ */
+export interface LaunchProgress {
+  tokenDeployed: boolean;
+  poolDeployed: boolean;
+  minterUpdated: boolean;
+  /** Null until the launch is registered with PumpFactory */
+  launchId: bigint | null;
+}
+
 export interface LaunchDeploymentResult {
   tokenAddress: string;
   poolAddress: string;
   launchId: bigint;
-  tokenDeployTx: string;
-  poolDeployTx: string;
-  registerTx: string;
+  /** The launch multicall, or null if a recovery found nothing left to send */
+  transactionHash: string | null;
 }
 
+export type DeploymentProgressCallback = (step: string, details?: string) => void;
+
 // Universal Deployer Contract address on Starknet
 const UDC_ADDRESS = '0x041a78e741e5af2fec34b695679bc6891742439f7afb8484ecd7766661ad02bf';
 
+const LAUNCH_NULLIFIER_DOMAIN = shortString.encodeShortString('ZUMP_LAUNCH');
+
 /**
- * Extract deployed contract address from transaction receipt
+ * Generate a random UDC salt
  */
-function extractDeployedAddress(receipt: any): string | null {
-  console.log('Parsing deployment receipt:', JSON.stringify(receipt, null, 2));
-  
-  // Method 1: Check events array
-  const events = receipt.events || [];
-  for (const event of events) {
-    // UDC ContractDeployed event has deployed address in keys[1] or data[0]
-    const fromAddr = event.from_address?.toLowerCase?.() || '';
-    if (fromAddr.includes('41a78e741e5af2fec34b695679bc6891742439f7afb8484ecd7766661ad02bf')) {
-      console.log('Found UDC event:', event);
-      // Try keys first (address is usually keys[1])
-      if (event.keys && event.keys.length > 1) {
-        return event.keys[1];
-      }
-      // Then try data
-      if (event.data && event.data.length > 0) {
-        return event.data[0];
-      }
-    }
-  }
-  
-  // Method 2: Check contract_address in receipt directly
-  if (receipt.contract_address) {
-    return receipt.contract_address;
-  }
-  
-  // Method 3: Check deploy_transaction_receipts
-  if (receipt.deploy_transaction_receipts?.[0]?.contract_address) {
-    return receipt.deploy_transaction_receipts[0].contract_address;
-  }
-  
-  return null;
+function generateSalt(): string {
+  return `0x${Date.now().toString(16)}${Math.random().toString(16).slice(2, 10)}`;
 }
 
 /**
- * Deploy a new MemecoinToken contract
+ * Address a `unique` UDC deployment will get
+ * The UDC mixes the caller into the salt and deploys from its own address.
  */
-export async function deployMemecoinToken(
-  account: Account,
-  params: DeployTokenParams
-): Promise<{ address: string; transactionHash: string }> {
+export function precomputeUdcAddress(
+  deployer: string,
+  classHash: string,
+  salt: string,
+  constructorCalldata: string[]
+): string {
+  const uniqueSalt = hash.computePedersenHash(deployer, salt);
+  return addAddressPadding(
+    hash.calculateContractAddressFromHash(uniqueSalt, classHash, constructorCalldata, UDC_ADDRESS)
+  );
+}
+
+function buildTokenConstructorCalldata(params: DeployTokenParams): string[] {
   const { name, symbol, decimals = 18, initialMinter } = params;
-  
-  // Constructor calldata for MemecoinToken
-  const constructorCalldata = [
+  return [
     shortString.encodeShortString(name.slice(0, 31)),
     shortString.encodeShortString(symbol.slice(0, 31)),
     decimals.toString(),
     initialMinter,
   ];
-  
-  // Generate unique salt
-  const salt = `0x${Date.now().toString(16)}${Math.random().toString(16).slice(2, 10)}`;
-  
-  // Deploy via UDC
-  const deployCall = {
-    contractAddress: UDC_ADDRESS,
-    entrypoint: 'deployContract',
-    calldata: CallData.compile({
-      classHash: CLASS_HASHES.MemecoinToken,
-      salt,
-      unique: 1,
-      calldata: constructorCalldata,
-    }),
-  };
-  
-  console.log('Deploying MemecoinToken with call:', deployCall);
-  
-  const { transaction_hash } = await account.execute(deployCall);
-  console.log('Token deploy tx hash:', transaction_hash);
-  
-  // Wait for transaction
-  const receipt = await account.waitForTransaction(transaction_hash);
-  
-  // Extract contract address
-  const contractAddress = extractDeployedAddress(receipt);
-  
-  if (!contractAddress) {
-    console.error('Receipt without contract address:', receipt);
-    throw new Error(`Failed to get contract address. Check console for receipt details. TX: ${transaction_hash}`);
-  }
-  
-  console.log('Token deployed at:', contractAddress);
-  
-  return {
-    address: contractAddress,
-    transactionHash: transaction_hash,
-  };
 }
 
-/**
- * Deploy a new BondingCurvePool contract
- */
-export async function deployBondingCurvePool(
-  account: Account,
-  params: DeployPoolParams
-): Promise<{ address: string; transactionHash: string }> {
+function buildPoolConstructorCalldata(params: DeployPoolParams): string[] {
   const { tokenAddress, quoteTokenAddress, creator, protocolConfig, basePrice, slope, maxSupply } = params;
-  
-  // Constructor calldata for BondingCurvePool
   const uint256BasePrice = cairo.uint256(basePrice);
   const uint256Slope = cairo.uint256(slope);
   const uint256MaxSupply = cairo.uint256(maxSupply);
-  
-  const constructorCalldata = [
+
+  return [
     tokenAddress,
     quoteTokenAddress,
     creator,
@@ -162,205 +162,412 @@ export async function deployBondingCurvePool(
     uint256MaxSupply.low.toString(),
     uint256MaxSupply.high.toString(),
   ];
-  
-  // Generate unique salt
-  const salt = `0x${Date.now().toString(16)}${Math.random().toString(16).slice(2, 10)}`;
-  
-  // Deploy via UDC
-  const deployCall = {
+}
+
+function buildUdcDeployCall(classHash: string, salt: string, constructorCalldata: string[]): Call {
+  return {
     contractAddress: UDC_ADDRESS,
     entrypoint: 'deployContract',
     calldata: CallData.compile({
-      classHash: CLASS_HASHES.BondingCurvePool,
+      classHash,
       salt,
       unique: 1,
       calldata: constructorCalldata,
     }),
   };
-  
-  console.log('Deploying BondingCurvePool with call:', deployCall);
-  
-  const { transaction_hash } = await account.execute(deployCall);
-  console.log('Pool deploy tx hash:', transaction_hash);
-  
-  // Wait for transaction
-  const receipt = await account.waitForTransaction(transaction_hash);
-  
-  // Extract contract address
-  const contractAddress = extractDeployedAddress(receipt);
-  
-  if (!contractAddress) {
-    console.error('Pool receipt without contract address:', receipt);
-    throw new Error(`Failed to get pool contract address. TX: ${transaction_hash}`);
+}
+
+function tokenParamsOf(plan: LaunchPlan): DeployTokenParams {
+  return {
+    name: plan.params.name,
+    symbol: plan.params.symbol,
+    decimals: 18,
+    initialMinter: plan.deployer,
+  };
+}
+
+function poolParamsOf(plan: LaunchPlan, tokenAddress: string): DeployPoolParams {
+  const addresses = getContractAddresses();
+  return {
+    tokenAddress,
+    quoteTokenAddress: addresses.quoteToken,
+    creator: plan.params.stealthCreator,
+    protocolConfig: addresses.protocolConfig,
+    basePrice: plan.params.basePrice,
+    slope: plan.params.slope,
+    maxSupply: plan.params.maxSupply,
+  };
+}
+
+/**
+ * Precompute token and pool addresses for a launch
+ * The pool constructor takes the token address, so the token is computed first.
+ */
+export function createLaunchPlan(
+  deployer: string,
+  params: LaunchPlanParams,
+  anonymous: boolean = false
+): LaunchPlan {
+  if (!isValidContractAddress(CLASS_HASHES.MemecoinToken) || !isValidContractAddress(CLASS_HASHES.BondingCurvePool)) {
+    throw new Error('Launch contract classes are not in the deployment manifest for this network');
+  }
+
+  const plan: LaunchPlan = {
+    deployer: addAddressPadding(deployer),
+    tokenSalt: generateSalt(),
+    poolSalt: generateSalt(),
+    tokenAddress: '',
+    poolAddress: '',
+    params: { ...params, stealthCreator: params.stealthCreator || deployer },
+    ...(anonymous && { anonymous, launchSecret: randomPrivateKey() }),
+  };
+
+  plan.tokenAddress = precomputeUdcAddress(
+    plan.deployer,
+    CLASS_HASHES.MemecoinToken,
+    plan.tokenSalt,
+    buildTokenConstructorCalldata(tokenParamsOf(plan))
+  );
+  plan.poolAddress = precomputeUdcAddress(
+    plan.deployer,
+    CLASS_HASHES.BondingCurvePool,
+    plan.poolSalt,
+    buildPoolConstructorCalldata(poolParamsOf(plan, plan.tokenAddress))
+  );
+
+  return plan;
+}
+
+/**
+ * Proof request for an anonymous launch
+ * The proof is bound to the token, pool and stealth creator, and its
+ * nullifier to a secret only the launcher holds. Launches are not in the
+ * commitment tree, so the proof carries the empty root.
+ */
+export async function buildLaunchProofRequest(plan: LaunchPlan): Promise<ProofRequest> {
+  if (!plan.launchSecret) {
+    throw new Error('Launch plan is not anonymous');
   }
-  
-  console.log('Pool deployed at:', contractAddress);
-  
+
+  const timestamp = await getContractService().getLatestBlockTimestamp();
+  const publicInputHash = computeLaunchInputHash(
+    plan.tokenAddress,
+    plan.poolAddress,
+    plan.params.stealthCreator
+  );
+  const nullifier = hash.computePoseidonHashOnElements([
+    LAUNCH_NULLIFIER_DOMAIN,
+    plan.launchSecret,
+    plan.tokenAddress,
+  ]);
+  const nullifierHash = computeNullifierHash(nullifier);
+
   return {
-    address: contractAddress,
-    transactionHash: transaction_hash,
+    proofType: PROOF_TYPES.LAUNCH,
+    publicInputHash,
+    merkleRoot: EMPTY_ROOT,
+    nullifierHash,
+    timestamp,
+    witness: {
+      public_input_hash: BigInt(publicInputHash).toString(),
+      merkle_root: BigInt(EMPTY_ROOT).toString(),
+      nullifier_hash: BigInt(nullifierHash).toString(),
+      proof_type: PROOF_TYPES.LAUNCH.toString(),
+      token: BigInt(plan.tokenAddress).toString(),
+      pool: BigInt(plan.poolAddress).toString(),
+      stealth_creator: BigInt(plan.params.stealthCreator).toString(),
+      nullifier: BigInt(nullifier).toString(),
+      secret: BigInt(plan.launchSecret).toString(),
+    },
   };
 }
 
 /**
- * Register a launch with PumpFactory using register_anonymous_launch
+ * StealthAddressGenerator PumpFactory checks anonymous creators against,
+ * or null when none is set and any creator is accepted
  */
-export async function registerLaunchWithFactory(
-  account: Account,
-  params: {
-    tokenAddress: string;
-    poolAddress: string;
-    quoteTokenAddress: string;
-    name: string;
-    symbol: string;
-    basePrice: bigint;
-    slope: bigint;
-    maxSupply: bigint;
-    stealthCreator: string;
-    migrationThreshold: bigint;
+export async function getFactoryStealthGenerator(
+  provider: RpcProvider = new RpcProvider({ nodeUrl: getContractConfig().rpcUrl })
+): Promise<string | null> {
+  const [generator] = await provider.callContract({
+    contractAddress: getContractAddresses().pumpFactory,
+    entrypoint: 'stealth_generator',
+    calldata: [],
+  });
+  return BigInt(generator) === BigInt(0) ? null : addAddressPadding(generator);
+}
+
+/**
+ * Whether register_anonymous_launch accepts a stealth creator
+ * (it reverts with INVALID_STEALTH_ADDRESS otherwise)
+ */
+export async function isAcceptedStealthCreator(
+  stealthCreator: string,
+  provider: RpcProvider = new RpcProvider({ nodeUrl: getContractConfig().rpcUrl })
+): Promise<boolean> {
+  const generator = await getFactoryStealthGenerator(provider);
+  if (!generator) return true;
+
+  const [valid] = await provider.callContract({
+    contractAddress: generator,
+    entrypoint: 'is_valid_stealth',
+    calldata: [stealthCreator],
+  });
+  return BigInt(valid) !== BigInt(0);
+}
+
+/**
+ * Calls for the parts of a launch that are not on chain yet
+ * With no progress this is the full launch: deploy token, deploy pool,
+ * update_minter and register_anonymous_launch. A launch proof is submitted
+ * to ZKProofVerifier right before the registration.
+ */
+export function buildLaunchCalls(
+  plan: LaunchPlan,
+  progress?: LaunchProgress,
+  launchProof?: ZKProof
+): Call[] {
+  const addresses = getContractAddresses();
+  const calls: Call[] = [];
+
+  if (!progress?.tokenDeployed) {
+    calls.push(
+      buildUdcDeployCall(
+        CLASS_HASHES.MemecoinToken,
+        plan.tokenSalt,
+        buildTokenConstructorCalldata(tokenParamsOf(plan))
+      )
+    );
+  }
+
+  if (!progress?.poolDeployed) {
+    calls.push(
+      buildUdcDeployCall(
+        CLASS_HASHES.BondingCurvePool,
+        plan.poolSalt,
+        buildPoolConstructorCalldata(poolParamsOf(plan, plan.tokenAddress))
+      )
+    );
+  }
+
+  if (!progress?.minterUpdated) {
+    calls.push({
+      contractAddress: plan.tokenAddress,
+      entrypoint: 'update_minter',
+      calldata: CallData.compile({ new_minter: plan.poolAddress }),
+    });
   }
-): Promise<{ launchId: bigint; transactionHash: string }> {
+
+  if (progress?.launchId === null || progress?.launchId === undefined) {
+    if (launchProof && isValidContractAddress(addresses.zkProofVerifier)) {
+      calls.push({
+        contractAddress: addresses.zkProofVerifier,
+        entrypoint: 'verify_proof',
+        calldata: compileZKProof(launchProof),
+      });
+    }
+    calls.push({
+      contractAddress: addresses.pumpFactory,
+      entrypoint: 'register_anonymous_launch',
+      calldata: CallData.compile({
+        token: plan.tokenAddress,
+        pool: plan.poolAddress,
+        quote_token: addresses.quoteToken,
+        name: shortString.encodeShortString(plan.params.name.slice(0, 31)),
+        symbol: shortString.encodeShortString(plan.params.symbol.slice(0, 31)),
+        base_price: cairo.uint256(plan.params.basePrice),
+        slope: cairo.uint256(plan.params.slope),
+        max_supply: cairo.uint256(plan.params.maxSupply),
+        stealth_creator: plan.params.stealthCreator,
+        migration_threshold: cairo.uint256(plan.params.migrationThreshold),
+      }),
+    });
+  }
+
+  return calls;
+}
+
+async function isDeployed(provider: RpcProvider, address: string): Promise<boolean> {
+  try {
+    await provider.getClassHashAt(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Look up the launch ID of a token from PumpFactory's LaunchCreated events
+ * The launch transaction's receipt is checked first. The token is not an
+ * event key, so otherwise every LaunchCreated event since the factory was
+ * deployed is paged through.
+ */
+async function findLaunchId(
+  provider: RpcProvider,
+  tokenAddress: string,
+  transactionHash?: string | null
+): Promise<bigint | null> {
   const addresses = getContractAddresses();
-  const config = getContractConfig();
-  
-  const factoryContract = new Contract(
-    PUMP_FACTORY_ABI,
+  const token = BigInt(tokenAddress);
+
+  if (transactionHash) {
+    try {
+      const receipt = await provider.getTransactionReceipt(transactionHash);
+      const event = findReceiptEvent(receipt as any, 'LaunchCreated', addresses.pumpFactory);
+      if (event && BigInt(event.token) === token) return event.launchId;
+    } catch (error) {
+      console.warn('Launch transaction receipt unavailable:', error);
+    }
+  }
+
+  const fromBlock = getDeploymentManifest()?.contracts.PumpFactory?.deploy_block ?? 0;
+  const toBlock = await provider.getBlockNumber();
+  const events = await new EventIndexer(provider).fetchEvents(
     addresses.pumpFactory,
-    account
+    fromBlock,
+    toBlock,
+    [[EVENT_SELECTORS.LaunchCreated]]
   );
-  
-  // Call register_anonymous_launch
-  const { transaction_hash } = await factoryContract.invoke('register_anonymous_launch', [
-    params.tokenAddress,
-    params.poolAddress,
-    params.quoteTokenAddress,
-    shortString.encodeShortString(params.name.slice(0, 31)),
-    shortString.encodeShortString(params.symbol.slice(0, 31)),
-    cairo.uint256(params.basePrice),
-    cairo.uint256(params.slope),
-    cairo.uint256(params.maxSupply),
-    params.stealthCreator,
-    cairo.uint256(params.migrationThreshold),
+  const launch = decodeEvents(events, ['LaunchCreated']).find((event) => BigInt(event.token) === token);
+
+  return launch ? launch.launchId : null;
+}
+
+/**
+ * Check which parts of a launch plan are on chain
+ */
+export async function getLaunchProgress(
+  plan: LaunchPlan,
+  provider: RpcProvider = new RpcProvider({ nodeUrl: getContractConfig().rpcUrl }),
+  transactionHash?: string | null
+): Promise<LaunchProgress> {
+  const [tokenDeployed, poolDeployed] = await Promise.all([
+    isDeployed(provider, plan.tokenAddress),
+    isDeployed(provider, plan.poolAddress),
   ]);
-  
-  // Wait for transaction and get receipt
+
+  let minterUpdated = false;
+  if (tokenDeployed) {
+    const [minter] = await provider.callContract({
+      contractAddress: plan.tokenAddress,
+      entrypoint: 'minter',
+      calldata: [],
+    });
+    minterUpdated = BigInt(minter) === BigInt(plan.poolAddress);
+  }
+
+  const launchId = tokenDeployed
+    ? await findLaunchId(provider, plan.tokenAddress, transactionHash)
+    : null;
+
+  return { tokenDeployed, poolDeployed, minterUpdated, launchId };
+}
+
+/**
+ * Send the given calls as one multicall and read the launch ID from its receipt
+ * The calls revert together, so a failed launch leaves no orphaned contracts.
+ */
+async function executeLaunch(
+  account: Account,
+  plan: LaunchPlan,
+  calls: Call[],
+  onProgress?: DeploymentProgressCallback,
+  onSubmitted?: (transactionHash: string) => void
+): Promise<LaunchDeploymentResult> {
+  const addresses = getContractAddresses();
+  const provider = new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+
+  onProgress?.('signing', `Sign the launch transaction (${calls.length} calls)...`);
+  const { transaction_hash } = await account.execute(calls);
+  onSubmitted?.(transaction_hash);
+
+  onProgress?.('confirming', `Waiting for ${transaction_hash}...`);
   const receipt = await account.waitForTransaction(transaction_hash);
-  
-  // Parse launch ID from events (simplified - in production parse properly)
-  // For now, query total_launches to get the ID
-  const provider = new RpcProvider({ nodeUrl: config.rpcUrl });
-  const factoryRead = new Contract(PUMP_FACTORY_ABI, addresses.pumpFactory, provider);
-  const totalLaunches = await factoryRead.call('total_launches');
-  const launchId = BigInt(totalLaunches.toString()) - BigInt(1);
-  
+
+  const event = findReceiptEvent(receipt as any, 'LaunchCreated', addresses.pumpFactory);
+  const launchId = event ? event.launchId : await findLaunchId(provider, plan.tokenAddress);
+  if (launchId === null) {
+    throw new Error(`Launch was not registered. TX: ${transaction_hash}`);
+  }
+
   return {
+    tokenAddress: plan.tokenAddress,
+    poolAddress: plan.poolAddress,
     launchId,
     transactionHash: transaction_hash,
   };
 }
 
 /**
- * Update token minter to pool address
+ * Full launch deployment in one transaction: deploy token, deploy pool,
+ * update minter and register with factory
  */
-async function updateTokenMinter(
+export async function deployFullLaunch(
   account: Account,
-  tokenAddress: string,
-  newMinter: string
-): Promise<string> {
-  const tokenContract = new Contract(
-    MEMECOIN_TOKEN_ABI,
-    tokenAddress,
-    account
-  );
-  
-  const { transaction_hash } = await tokenContract.invoke('update_minter', [newMinter]);
-  await account.waitForTransaction(transaction_hash);
-  
-  return transaction_hash;
+  plan: LaunchPlan,
+  onProgress?: DeploymentProgressCallback,
+  onSubmitted?: (transactionHash: string) => void,
+  launchProof?: ZKProof
+): Promise<LaunchDeploymentResult> {
+  const calls = buildLaunchCalls(plan, undefined, launchProof);
+  const result = await executeLaunch(account, plan, calls, onProgress, onSubmitted);
+  onProgress?.('complete', `Launch registered with ID ${result.launchId}`);
+  return result;
 }
 
 /**
- * Full launch deployment: Deploy token, pool, update minter, and register with factory
+ * Finish a launch that did not complete
+ * Waits for a previously sent transaction, then sends only the calls whose
+ * effects are missing on chain.
  */
-export async function deployFullLaunch(
+export async function resumeLaunch(
   account: Account,
-  params: {
-    name: string;
-    symbol: string;
-    basePrice: bigint;
-    slope: bigint;
-    maxSupply: bigint;
-    migrationThreshold: bigint;
-    stealthCreator?: string;
-  },
-  onProgress?: (step: string, details?: string) => void
+  plan: LaunchPlan,
+  pendingTransactionHash?: string | null,
+  onProgress?: DeploymentProgressCallback,
+  onSubmitted?: (transactionHash: string) => void,
+  launchProof?: ZKProof
 ): Promise<LaunchDeploymentResult> {
-  const addresses = getContractAddresses();
-  const ownerAddress = account.address;
-  const stealthCreator = params.stealthCreator || ownerAddress;
-  
-  onProgress?.('deploying_token', 'Deploying MemecoinToken contract...');
-  
-  // Step 1: Deploy Token (minter = owner initially)
-  const tokenResult = await deployMemecoinToken(account, {
-    name: params.name,
-    symbol: params.symbol,
-    decimals: 18,
-    initialMinter: ownerAddress, // Will be updated to pool after pool deployment
-  });
-  
-  onProgress?.('deploying_pool', `Token deployed at ${tokenResult.address}. Deploying BondingCurvePool...`);
-  
-  // Step 2: Deploy Pool
-  const poolResult = await deployBondingCurvePool(account, {
-    tokenAddress: tokenResult.address,
-    quoteTokenAddress: addresses.quoteToken,
-    creator: stealthCreator,
-    protocolConfig: addresses.protocolConfig,
-    basePrice: params.basePrice,
-    slope: params.slope,
-    maxSupply: params.maxSupply,
-  });
-  
-  onProgress?.('updating_minter', `Pool deployed at ${poolResult.address}. Updating token minter...`);
-  
-  // Step 3: Update token minter to pool
-  await updateTokenMinter(account, tokenResult.address, poolResult.address);
-  
-  onProgress?.('registering', 'Registering with PumpFactory...');
-  
-  // Step 4: Register with Factory
-  const registerResult = await registerLaunchWithFactory(account, {
-    tokenAddress: tokenResult.address,
-    poolAddress: poolResult.address,
-    quoteTokenAddress: addresses.quoteToken,
-    name: params.name,
-    symbol: params.symbol,
-    basePrice: params.basePrice,
-    slope: params.slope,
-    maxSupply: params.maxSupply,
-    stealthCreator,
-    migrationThreshold: params.migrationThreshold,
-  });
-  
-  onProgress?.('complete', `Launch registered with ID ${registerResult.launchId}`);
-  
-  return {
-    tokenAddress: tokenResult.address,
-    poolAddress: poolResult.address,
-    launchId: registerResult.launchId,
-    tokenDeployTx: tokenResult.transactionHash,
-    poolDeployTx: poolResult.transactionHash,
-    registerTx: registerResult.transactionHash,
-  };
+  const provider = new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+
+  if (pendingTransactionHash) {
+    onProgress?.('confirming', `Waiting for ${pendingTransactionHash}...`);
+    try {
+      await provider.waitForTransaction(pendingTransactionHash);
+    } catch (error) {
+      // Reverted or rejected: nothing from that transaction landed
+      console.warn('Pending launch transaction did not succeed:', error);
+    }
+  }
+
+  onProgress?.('recovering', 'Checking launch state on chain...');
+  const progress = await getLaunchProgress(plan, provider, pendingTransactionHash);
+  const calls = buildLaunchCalls(plan, progress, launchProof);
+
+  if (calls.length === 0 && progress.launchId !== null) {
+    onProgress?.('complete', `Launch already registered with ID ${progress.launchId}`);
+    return {
+      tokenAddress: plan.tokenAddress,
+      poolAddress: plan.poolAddress,
+      launchId: progress.launchId,
+      transactionHash: pendingTransactionHash || null,
+    };
+  }
+
+  const result = await executeLaunch(account, plan, calls, onProgress, onSubmitted);
+  onProgress?.('complete', `Launch registered with ID ${result.launchId}`);
+  return result;
 }
 
 export default {
-  deployMemecoinToken,
-  deployBondingCurvePool,
-  registerLaunchWithFactory,
+  createLaunchPlan,
+  buildLaunchCalls,
+  buildLaunchProofRequest,
+  getFactoryStealthGenerator,
+  isAcceptedStealthCreator,
+  getLaunchProgress,
   deployFullLaunch,
+  resumeLaunch,
+  precomputeUdcAddress,
   CLASS_HASHES,
 };
-
-
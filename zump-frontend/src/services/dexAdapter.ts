@@ -0,0 +1,225 @@
+/**
+ * DEX Adapter
+ * Quotes and swap calls for tokens that graduated from the bonding curve.
+ * AVNU routes across the Starknet DEXes; the stub quotes at the last curve
+ * price for local development and builds no calls.
+ * Requirements: 8.4
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { Call, num } from 'starknet';
+import { DexAdapterId, getDexConfig } from '../config/contracts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DexQuoteRequest {
+  sellToken: string;
+  buyToken: string;
+  /** Exact amount sold, in the sell token's base units */
+  sellAmount: bigint;
+  taker?: string;
+  /**
+   * Last bonding curve price (quote per token, 1e18 scale) and which token is
+   * the quote token; only the stub prices with it
+   */
+  reference?: { price: bigint; quoteToken: string };
+}
+
+export interface DexRouteLeg {
+  name: string;
+  /** Share of the amount sent through this DEX, 0-100 */
+  percent: number;
+}
+
+export interface DexQuote {
+  id: string;
+  adapter: DexAdapterId;
+  sellToken: string;
+  buyToken: string;
+  sellAmount: bigint;
+  buyAmount: bigint;
+  routes: DexRouteLeg[];
+  /** Unix ms after which the quote can no longer be built; null if it does not expire */
+  expiresAt: number | null;
+}
+
+export interface DexAdapter {
+  readonly id: DexAdapterId;
+  /** False when swaps are only simulated (no calls are built) */
+  readonly executesSwaps: boolean;
+  getQuote(request: DexQuoteRequest): Promise<DexQuote>;
+  /**
+   * Calls that perform the quoted swap from the taker's account, approve included
+   *
+   * @param slippage - Tolerance in percent (1 = 1%)
+   */
+  buildSwapCalls(quote: DexQuote, taker: string, slippage: number): Promise<Call[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PRICE_SCALE = BigInt(10 ** 18);
+const STUB_FEE_BPS = BigInt(30);
+const BPS = BigInt(10000);
+
+const isSameAddress = (a: string, b: string): boolean => BigInt(a) === BigInt(b);
+
+// ============================================================================
+// AVNU Adapter
+// ============================================================================
+
+/**
+ * AVNU swap API (v2): GET /swap/v2/quotes, POST /swap/v2/build
+ */
+export class AvnuDexAdapter implements DexAdapter {
+  readonly id = 'avnu' as const;
+
+  readonly executesSwaps = true;
+
+  private http: AxiosInstance;
+
+  constructor(apiUrl: string) {
+    this.http = axios.create({ baseURL: apiUrl.replace(/\/$/, ''), timeout: 15000 });
+    this.http.interceptors.response.use(
+      (response) => response,
+      (error) => Promise.reject(new Error(error.response ? 'DEX_NO_ROUTE' : 'DEX_UNAVAILABLE'))
+    );
+  }
+
+  async getQuote(request: DexQuoteRequest): Promise<DexQuote> {
+    const { data } = await this.http.get('/swap/v2/quotes', {
+      params: {
+        sellTokenAddress: request.sellToken,
+        buyTokenAddress: request.buyToken,
+        sellAmount: num.toHex(request.sellAmount),
+        takerAddress: request.taker,
+        size: 1,
+      },
+    });
+
+    const [best] = Array.isArray(data) ? data : [];
+    if (!best) {
+      throw new Error('DEX_NO_ROUTE');
+    }
+
+    return {
+      id: best.quoteId,
+      adapter: this.id,
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      sellAmount: BigInt(best.sellAmount),
+      buyAmount: BigInt(best.buyAmount),
+      routes: (best.routes ?? []).map((route: any) => ({
+        name: route.name,
+        percent: Number(route.percent) * 100,
+      })),
+      expiresAt: best.expiry ? Number(best.expiry) : null,
+    };
+  }
+
+  async buildSwapCalls(quote: DexQuote, taker: string, slippage: number): Promise<Call[]> {
+    if (quote.expiresAt !== null && Date.now() > quote.expiresAt) {
+      throw new Error('DEX_QUOTE_EXPIRED');
+    }
+
+    const { data } = await this.http.post('/swap/v2/build', {
+      quoteId: quote.id,
+      takerAddress: taker,
+      slippage: slippage / 100,
+      includeApprove: true,
+    });
+
+    return (data.calls ?? []).map((call: any) => ({
+      contractAddress: call.contractAddress,
+      entrypoint: call.entrypoint,
+      calldata: call.calldata,
+    }));
+  }
+}
+
+// ============================================================================
+// Stub Adapter
+// ============================================================================
+
+/**
+ * Local stand-in for a DEX: fills at the last bonding curve price minus a
+ * 0.3% fee, one "Stub" route, no calls
+ */
+export class StubDexAdapter implements DexAdapter {
+  readonly id = 'stub' as const;
+
+  readonly executesSwaps = false;
+
+  private nextQuoteId = 0;
+
+  async getQuote(request: DexQuoteRequest): Promise<DexQuote> {
+    const { reference } = request;
+    if (!reference || reference.price <= BigInt(0)) {
+      throw new Error('DEX_NO_ROUTE');
+    }
+
+    const gross = isSameAddress(request.sellToken, reference.quoteToken)
+      ? (request.sellAmount * PRICE_SCALE) / reference.price
+      : (request.sellAmount * reference.price) / PRICE_SCALE;
+
+    this.nextQuoteId += 1;
+    return {
+      id: `stub-${this.nextQuoteId}`,
+      adapter: this.id,
+      sellToken: request.sellToken,
+      buyToken: request.buyToken,
+      sellAmount: request.sellAmount,
+      buyAmount: (gross * (BPS - STUB_FEE_BPS)) / BPS,
+      routes: [{ name: 'Stub', percent: 100 }],
+      expiresAt: null,
+    };
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async buildSwapCalls(): Promise<Call[]> {
+    return [];
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let dexAdapterInstance: DexAdapter | null = null;
+
+/**
+ * Get or create the configured DexAdapter (see getDexConfig)
+ */
+export const getDexAdapter = (): DexAdapter => {
+  if (!dexAdapterInstance) {
+    const config = getDexConfig();
+    dexAdapterInstance = config.adapter === 'stub'
+      ? new StubDexAdapter()
+      : new AvnuDexAdapter(config.apiUrl);
+  }
+  return dexAdapterInstance;
+};
+
+/**
+ * Replace the DexAdapter, e.g. with a custom stub
+ */
+export const setDexAdapter = (adapter: DexAdapter): void => {
+  dexAdapterInstance = adapter;
+};
+
+/**
+ * Reset DexAdapter instance
+ */
+export const resetDexAdapter = (): void => {
+  dexAdapterInstance = null;
+};
+
+export default {
+  AvnuDexAdapter,
+  StubDexAdapter,
+  getDexAdapter,
+};
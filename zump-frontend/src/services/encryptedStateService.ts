@@ -0,0 +1,198 @@
+/**
+ * Encrypted State Service
+ * Reads EncryptedStateManager balances and positions of the user's stealth
+ * addresses and opens them with keys derived from the viewing key
+ * Requirements: 10.4
+ */
+
+import { RpcProvider, addAddressPadding } from 'starknet';
+import { getContractAddresses, getContractConfig, isValidContractAddress } from '../config/contracts';
+import {
+  DecryptedBalance,
+  EncryptedBalanceEntry,
+  EncryptedPositionEntry,
+  decryptBalance,
+  decryptPosition,
+  deriveEncryptionKey,
+  expectedBalanceCommitment,
+} from '../utils/encryptedState';
+import { EVENT_SELECTORS, decodeEvents } from '../utils/eventDecoder';
+import { StealthKeys } from '../utils/stealthKeys';
+import { getContractService } from './contractService';
+import { EventIndexer } from './eventIndexer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EncryptedBalanceView {
+  stealthAddress: string;
+  token: string;
+  entry: EncryptedBalanceEntry;
+  /** Null while the vault is locked or when the key does not open the entry */
+  decrypted: DecryptedBalance | null;
+  /** What verify_balance_commitment should accept for the decrypted amount */
+  expectedCommitment: string | null;
+}
+
+export interface EncryptedPositionView {
+  entry: EncryptedPositionEntry;
+  /** Commitment of the private position the entry holds */
+  commitment: string;
+}
+
+/**
+ * A private position the wallet knows the commitment of
+ */
+export interface KnownPosition {
+  pool: string;
+  commitment: string;
+}
+
+export interface EncryptedBalanceQuery {
+  stealthAddresses: string[];
+  tokens: string[];
+  /** Amounts an entry written by encrypt_balance may hold (see decryptBalance) */
+  candidates?: (stealthAddress: string, token: string) => bigint[];
+}
+
+// ============================================================================
+// Encrypted State Service Class
+// ============================================================================
+
+export class EncryptedStateService {
+  private provider: RpcProvider;
+
+  private indexer: EventIndexer;
+
+  constructor(provider?: RpcProvider) {
+    this.provider = provider ?? new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+    this.indexer = new EventIndexer(this.provider);
+  }
+
+  isAvailable(): boolean {
+    return isValidContractAddress(getContractAddresses().encryptedStateManager);
+  }
+
+  /**
+   * Encrypted balances of every stealth address and token that has one
+   * Without keys (vault locked) the entries are returned still encrypted.
+   */
+  async getBalances(query: EncryptedBalanceQuery, keys: StealthKeys | null): Promise<EncryptedBalanceView[]> {
+    const { stealthAddresses, tokens, candidates } = query;
+    const contractService = getContractService();
+    const pairs = stealthAddresses.flatMap((stealthAddress) =>
+      tokens.map((token) => ({ stealthAddress, token }))
+    );
+
+    const entries = await Promise.all(
+      pairs.map(({ stealthAddress, token }) => contractService.getEncryptedBalance(stealthAddress, token))
+    );
+
+    return pairs
+      .map(({ stealthAddress, token }, i) => ({ stealthAddress, token, entry: entries[i] }))
+      .filter(({ entry }) => BigInt(entry.commitment) !== BigInt(0))
+      .map(({ stealthAddress, token, entry }) => {
+        if (!keys) {
+          return { stealthAddress, token, entry, decrypted: null, expectedCommitment: null };
+        }
+
+        const key = deriveEncryptionKey(keys.viewing.privateKey, stealthAddress);
+        const decrypted = decryptBalance(
+          entry,
+          key,
+          stealthAddress,
+          token,
+          candidates?.(stealthAddress, token) ?? []
+        );
+        return {
+          stealthAddress,
+          token,
+          entry,
+          decrypted,
+          expectedCommitment: decrypted
+            ? expectedBalanceCommitment(entry, decrypted, key, stealthAddress, token)
+            : null,
+        };
+      });
+  }
+
+  /**
+   * Encrypted positions holding one of the wallet's private positions
+   * EncryptedStateManager does not index positions by owner, so the
+   * PositionEncrypted events of each pool are scanned and only entries the
+   * wallet's key opens are kept.
+   */
+  async getPositions(positions: KnownPosition[], keys: StealthKeys): Promise<EncryptedPositionView[]> {
+    const { encryptedStateManager } = getContractAddresses();
+    const contractService = getContractService();
+    const byPool = new Map<string, string[]>();
+    positions.forEach(({ pool, commitment }) => {
+      const key = addAddressPadding(pool);
+      byPool.set(key, [...(byPool.get(key) ?? []), commitment]);
+    });
+
+    const toBlock = await this.provider.getBlockNumber();
+    const views = await Promise.all(
+      Array.from(byPool.entries()).map(async ([pool, commitments]) => {
+        const events = await this.indexer.fetchEvents(encryptedStateManager, 0, toBlock, [
+          [EVENT_SELECTORS.PositionEncrypted],
+          [],
+          [pool],
+        ]);
+        const entries = await Promise.all(
+          decodeEvents(events, ['PositionEncrypted']).map((event) =>
+            contractService.getEncryptedPosition(event.positionHash)
+          )
+        );
+
+        const key = deriveEncryptionKey(keys.viewing.privateKey, pool);
+        return entries.flatMap((entry) => {
+          const commitment = decryptPosition(entry, key, commitments);
+          return commitment ? [{ entry, commitment }] : [];
+        });
+      })
+    );
+
+    return views.flat();
+  }
+
+  /**
+   * Ask EncryptedStateManager whether the decrypted amount is what it stores
+   */
+  async verifyBalance(view: EncryptedBalanceView): Promise<boolean> {
+    if (!view.expectedCommitment) {
+      throw new Error('Balance is not decrypted');
+    }
+    return getContractService().verifyBalanceCommitment(
+      view.stealthAddress,
+      view.token,
+      view.expectedCommitment
+    );
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let encryptedStateServiceInstance: EncryptedStateService | null = null;
+
+/**
+ * Get or create EncryptedStateService singleton
+ */
+export const getEncryptedStateService = (): EncryptedStateService => {
+  if (!encryptedStateServiceInstance) {
+    encryptedStateServiceInstance = new EncryptedStateService();
+  }
+  return encryptedStateServiceInstance;
+};
+
+/**
+ * Reset EncryptedStateService instance
+ */
+export const resetEncryptedStateService = (): void => {
+  encryptedStateServiceInstance = null;
+};
+
+export default EncryptedStateService;
@@ -0,0 +1,306 @@
+/**
+ * Event Indexer
+ * Pages through BondingCurvePool trade events, remembers the last indexed
+ * block per pool and caches block timestamps
+ * Requirements: 7.1, 7.2, 10.3
+ */
+
+import { RpcProvider } from 'starknet';
+import { getContractConfig } from '../config/contracts';
+import { TradeType } from '../@types/supabase';
+import { BuyEvent, SellEvent, EVENT_SELECTORS, RawEvent, decodeEvents } from '../utils/eventDecoder';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexedTrade {
+  id: string;
+  poolAddress: string;
+  trader: string;
+  type: TradeType;
+  amountTokens: bigint;
+  costOrReturn: bigint;
+  feeQuote: bigint;
+  price: bigint;
+  timestamp: Date;
+  txHash: string;
+  blockNumber: number | null;
+}
+
+export interface EventIndexerOptions {
+  /** Events requested per getEvents page */
+  chunkSize?: number;
+  /** Trailing blocks re-scanned on every sync to drop reorged events */
+  reorgDepth?: number;
+}
+
+interface PoolIndex {
+  lastIndexedBlock: number;
+  /** Oldest first */
+  trades: IndexedTrade[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CHUNK_SIZE = 100;
+const DEFAULT_REORG_DEPTH = 10;
+const PRICE_SCALE = BigInt(10 ** 18);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const poolKey = (poolAddress: string): string => BigInt(poolAddress).toString(16);
+
+/**
+ * Average price per token of a trade, scaled by 1e18
+ */
+const calculatePriceFromTrade = (amountTokens: bigint, costOrReturn: bigint): bigint => {
+  if (amountTokens === BigInt(0)) return BigInt(0);
+  return (costOrReturn * PRICE_SCALE) / amountTokens;
+};
+
+// ============================================================================
+// Event Indexer Class
+// ============================================================================
+
+export class EventIndexer {
+  private provider: RpcProvider;
+
+  private chunkSize: number;
+
+  private reorgDepth: number;
+
+  private pools = new Map<string, PoolIndex>();
+
+  private syncing = new Map<string, Promise<IndexedTrade[]>>();
+
+  private blockTimestamps = new Map<number, number>();
+
+  private pendingTimestamps = new Map<number, Promise<number>>();
+
+  constructor(provider?: RpcProvider, options: EventIndexerOptions = {}) {
+    this.provider = provider ?? new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  }
+
+  // =========================================================================
+  // Raw Event Paging
+  // =========================================================================
+
+  /**
+   * Fetch every event in a block range, following continuation tokens
+   */
+  async fetchEvents(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    keys?: string[][]
+  ): Promise<RawEvent[]> {
+    const collected: RawEvent[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      // eslint-disable-next-line no-await-in-loop
+      const page = await this.provider.getEvents({
+        address,
+        from_block: { block_number: fromBlock },
+        to_block: { block_number: toBlock },
+        keys,
+        chunk_size: this.chunkSize,
+        continuation_token: continuationToken,
+      });
+      collected.push(...page.events);
+      continuationToken = page.continuation_token;
+    } while (continuationToken);
+
+    return collected;
+  }
+
+  // =========================================================================
+  // Block Timestamps
+  // =========================================================================
+
+  /**
+   * Block timestamp in seconds, fetched once per block
+   */
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const pending = this.pendingTimestamps.get(blockNumber);
+    if (pending) return pending;
+
+    const request = this.provider
+      .getBlock(blockNumber)
+      .then((block) => {
+        this.blockTimestamps.set(blockNumber, block.timestamp);
+        return block.timestamp;
+      })
+      .finally(() => {
+        this.pendingTimestamps.delete(blockNumber);
+      });
+
+    this.pendingTimestamps.set(blockNumber, request);
+    return request;
+  }
+
+  // =========================================================================
+  // Pool Trades
+  // =========================================================================
+
+  /**
+   * Index new Buy/Sell events of a pool and return all its trades, oldest first
+   * The last reorgDepth indexed blocks are fetched again on every sync and
+   * replace what was stored for them, so events from orphaned blocks drop out.
+   * Concurrent calls for the same pool share one sync.
+   */
+  async syncPool(poolAddress: string): Promise<IndexedTrade[]> {
+    const key = poolKey(poolAddress);
+    const running = this.syncing.get(key);
+    if (running) return running;
+
+    const sync = this.runSync(poolAddress, key).finally(() => {
+      this.syncing.delete(key);
+    });
+    this.syncing.set(key, sync);
+    return sync;
+  }
+
+  /**
+   * Sync several pools, keeping already indexed trades for pools that fail
+   */
+  async syncPools(poolAddresses: string[]): Promise<IndexedTrade[]> {
+    const results = await Promise.allSettled(
+      poolAddresses.map((poolAddress) => this.syncPool(poolAddress))
+    );
+
+    return results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.warn(`Failed to index pool ${poolAddresses[i]}:`, result.reason);
+      return this.getTrades(poolAddresses[i]);
+    });
+  }
+
+  /**
+   * Trades indexed so far, oldest first (no RPC calls)
+   */
+  getTrades(poolAddress: string): IndexedTrade[] {
+    return this.pools.get(poolKey(poolAddress))?.trades ?? [];
+  }
+
+  /**
+   * Last block covered by a completed sync, or null if never synced
+   */
+  getLastIndexedBlock(poolAddress: string): number | null {
+    return this.pools.get(poolKey(poolAddress))?.lastIndexedBlock ?? null;
+  }
+
+  /**
+   * Forget indexed trades for one pool, or for all pools
+   */
+  reset(poolAddress?: string): void {
+    if (poolAddress) {
+      this.pools.delete(poolKey(poolAddress));
+    } else {
+      this.pools.clear();
+    }
+  }
+
+  private async runSync(poolAddress: string, key: string): Promise<IndexedTrade[]> {
+    const index = this.pools.get(key);
+    const latestBlock = await this.provider.getBlockNumber();
+    const fromBlock = index ? Math.max(0, index.lastIndexedBlock - this.reorgDepth + 1) : 0;
+
+    if (index && fromBlock > latestBlock) {
+      return index.trades;
+    }
+
+    const events = await this.fetchEvents(poolAddress, fromBlock, latestBlock, [
+      [EVENT_SELECTORS.Buy, EVENT_SELECTORS.Sell],
+    ]);
+    // Pending events have no block yet; the next sync picks them up
+    const tradeEvents = decodeEvents(events, ['Buy', 'Sell']).filter(
+      (event) => event.blockNumber !== null
+    );
+
+    // Re-scanned blocks may have been replaced, so their timestamps are refetched
+    this.blockTimestamps.forEach((_, blockNumber) => {
+      if (blockNumber >= fromBlock) this.blockTimestamps.delete(blockNumber);
+    });
+    const blockNumbers = Array.from(new Set(tradeEvents.map((event) => event.blockNumber as number)));
+    await Promise.all(blockNumbers.map((blockNumber) => this.getBlockTimestamp(blockNumber)));
+
+    const eventsPerTx = new Map<string, number>();
+    const freshTrades = tradeEvents.map((event) => {
+      const txHash = event.txHash || '';
+      const eventIndex = eventsPerTx.get(txHash) ?? 0;
+      eventsPerTx.set(txHash, eventIndex + 1);
+      return this.toIndexedTrade(poolAddress, event, eventIndex);
+    });
+
+    const keptTrades = (index?.trades ?? []).filter(
+      (trade) => trade.blockNumber !== null && trade.blockNumber < fromBlock
+    );
+    const trades = [...keptTrades, ...freshTrades];
+
+    this.pools.set(key, { lastIndexedBlock: latestBlock, trades });
+    return trades;
+  }
+
+  private toIndexedTrade(
+    poolAddress: string,
+    event: BuyEvent | SellEvent,
+    eventIndex: number
+  ): IndexedTrade {
+    const isBuy = event.type === 'Buy';
+    const costOrReturn = isBuy ? event.costQuote : event.refundQuote;
+    const txHash = event.txHash || '';
+    const timestamp = event.blockNumber !== null
+      ? this.blockTimestamps.get(event.blockNumber)
+      : undefined;
+
+    return {
+      id: `${txHash}_${eventIndex}`,
+      poolAddress,
+      trader: isBuy ? event.buyer : event.seller,
+      type: isBuy ? 'buy' : 'sell',
+      amountTokens: event.amountTokens,
+      costOrReturn,
+      feeQuote: event.feeQuote,
+      price: calculatePriceFromTrade(event.amountTokens, costOrReturn),
+      timestamp: timestamp !== undefined ? new Date(timestamp * 1000) : new Date(),
+      txHash,
+      blockNumber: event.blockNumber,
+    };
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let eventIndexerInstance: EventIndexer | null = null;
+
+/**
+ * Get or create EventIndexer singleton
+ */
+export const getEventIndexer = (): EventIndexer => {
+  if (!eventIndexerInstance) {
+    eventIndexerInstance = new EventIndexer();
+  }
+  return eventIndexerInstance;
+};
+
+/**
+ * Reset EventIndexer instance (drops all indexed trades and cached timestamps)
+ */
+export const resetEventIndexer = (): void => {
+  eventIndexerInstance = null;
+};
+
+export default EventIndexer;
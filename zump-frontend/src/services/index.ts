@@ -11,9 +11,16 @@ export {
   type LaunchResult,
   type PoolState,
   type PoolConfig,
+  type FeeConfig,
+  type CurveLimits,
   type PublicLaunchInfo,
   type TransactionResult,
   type TransactionStatus,
+  type PoolMigrationThreshold,
+  type LockedLiquidity,
+  type LpReserves,
+  type MixerDepositResult,
+  type MixerWithdrawParams,
 } from './contractService';
 
 export {
@@ -22,3 +29,136 @@ export {
   getSupabaseService,
   resetSupabaseService,
 } from './supabaseService';
+
+export {
+  EventIndexer,
+  getEventIndexer,
+  resetEventIndexer,
+  type IndexedTrade,
+  type EventIndexerOptions,
+} from './eventIndexer';
+
+export {
+  StealthScanner,
+  getStealthScanner,
+  resetStealthScanner,
+  type StealthInboxMatch,
+  type StealthScanResult,
+  type StealthScannerOptions,
+} from './stealthScanner';
+
+export {
+  PrivacyVault,
+  VaultError,
+  getPrivacyVault,
+  resetPrivacyVault,
+  type VaultCollection,
+  type VaultErrorCode,
+  type VaultListener,
+  type VaultBackup,
+} from './privacyVault';
+
+export {
+  MixerService,
+  getMixerService,
+  resetMixerService,
+  type MixerTerms,
+  type MixerWithdrawalQuote,
+  type MixerWithdrawalProof,
+} from './mixerService';
+
+export {
+  CommitmentTreeSync,
+  getCommitmentTreeSync,
+  resetCommitmentTreeSync,
+  type CommitmentPath,
+  type CommitmentTreeSyncOptions,
+} from './commitmentTreeSync';
+
+export {
+  PrivateTradeService,
+  getPrivateTradeService,
+  resetPrivateTradeService,
+} from './privateTradeService';
+
+export {
+  RelayerClient,
+  getRelayerClient,
+  resetRelayerClient,
+  hashRelayRequest,
+  type RelayerQuote,
+  type RelayerFunding,
+  type RelayedBuyParams,
+  type RelayJob,
+  type RelayJobStatus,
+} from './relayerClient';
+
+export {
+  MockProofProvider,
+  WorkerProofProvider,
+  getProofProvider,
+  setProofProvider,
+  resetProofProvider,
+  type ProofProvider,
+  type ProofRequest,
+  type ProofProgress,
+  type ProveOptions,
+} from './proofProvider';
+
+export {
+  EncryptedStateService,
+  getEncryptedStateService,
+  resetEncryptedStateService,
+  type EncryptedBalanceView,
+  type EncryptedPositionView,
+  type EncryptedBalanceQuery,
+  type KnownPosition,
+} from './encryptedStateService';
+
+export {
+  MigrationTracker,
+  getMigrationTracker,
+  resetMigrationTracker,
+  calculateThresholdProgress,
+  type MigrationPhase,
+  type MigrationStatus,
+  type MigrationCompletion,
+  type LiquidityLock,
+} from './migrationTracker';
+
+export {
+  AvnuDexAdapter,
+  StubDexAdapter,
+  getDexAdapter,
+  setDexAdapter,
+  resetDexAdapter,
+  type DexAdapter,
+  type DexQuote,
+  type DexQuoteRequest,
+  type DexRouteLeg,
+} from './dexAdapter';
+
+export {
+  AdminService,
+  ADMIN_ACTIONS,
+  ADMIN_CONTRACTS,
+  getAdminAction,
+  parseAdminValue,
+  toAdminFormValue,
+  formatAdminValue,
+  getAdminService,
+  resetAdminService,
+  type AdminContractId,
+  type AdminActionId,
+  type AdminFieldKind,
+  type AdminValue,
+  type AdminValues,
+  type AdminFormValues,
+  type AdminField,
+  type AdminContract,
+  type AdminAction,
+  type AdminOwnership,
+  type AdminDiffRow,
+  type AdminChange,
+  type AdminSnapshot,
+} from './adminService';
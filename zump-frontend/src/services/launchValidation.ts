@@ -0,0 +1,256 @@
+/**
+ * Launch Validation Service
+ * Validates launch curve parameters against the on-chain ProtocolConfig
+ * limits before a launch is sent, so bad values never reach a reverting transaction
+ * Requirements: 2.1, 9.1
+ */
+
+import * as Yup from 'yup';
+import { CurveLimits, getContractService } from './contractService';
+import {
+  CurveParams,
+  DEFAULT_MIGRATION_THRESHOLD,
+  calculateRaise,
+} from '../utils/curvePreview';
+import { CurveFees } from '../utils/curveQuote';
+import { formatBigIntWithDecimals, toBigIntWithDecimals } from '../utils/bondingCurveUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LaunchLimits {
+  curve: CurveLimits;
+  fees: CurveFees;
+}
+
+/**
+ * Curve fields of the launch form, as typed by the user (LaunchFormData satisfies this)
+ */
+export interface LaunchCurveValues {
+  basePrice: string;
+  slope: string;
+  maxSupply: string;
+  migrationThreshold?: string;
+}
+
+// ============================================================================
+// Error Class
+// ============================================================================
+
+export class LaunchValidationError extends Error {
+  constructor(
+    message: string,
+    /** Message per form field */
+    public fieldErrors: Partial<Record<keyof LaunchCurveValues, string>>
+  ) {
+    super(message);
+    this.name = 'LaunchValidationError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_DECIMALS = 18;
+const QUOTE_SYMBOL = 'STRK';
+const LIMITS_CACHE_TTL_MS = 60 * 1000;
+const AMOUNT_PATTERN = /^\d*\.?\d+$/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Format an 18-decimal amount for a validation message
+ */
+const formatLimit = (value: bigint): string =>
+  formatBigIntWithDecimals(value, TOKEN_DECIMALS, TOKEN_DECIMALS);
+
+const hasValidDecimals = (value: string): boolean =>
+  (value.split('.')[1] || '').length <= TOKEN_DECIMALS;
+
+/**
+ * Parse a typed amount, or null if it is not a valid 18-decimal number
+ */
+export const parseCurveAmount = (value: string | undefined | null): bigint | null => {
+  if (!value || !AMOUNT_PATTERN.test(value) || !hasValidDecimals(value)) return null;
+  return toBigIntWithDecimals(value, TOKEN_DECIMALS);
+};
+
+/**
+ * Curve parameters from typed values, or null while any of them is invalid
+ * An empty migration threshold falls back to DEFAULT_MIGRATION_THRESHOLD.
+ */
+export const toCurveParams = (values: Partial<LaunchCurveValues>): CurveParams | null => {
+  const basePrice = parseCurveAmount(values.basePrice);
+  const slope = parseCurveAmount(values.slope);
+  const maxSupply = parseCurveAmount(values.maxSupply);
+  const migrationThreshold = values.migrationThreshold
+    ? parseCurveAmount(values.migrationThreshold)
+    : DEFAULT_MIGRATION_THRESHOLD;
+
+  if (basePrice === null || slope === null || maxSupply === null || migrationThreshold === null) {
+    return null;
+  }
+  return { basePrice, slope, maxSupply, migrationThreshold };
+};
+
+/**
+ * Amount field checked for format and, once limits are loaded, for range
+ */
+const amountField = (label: string, unit: string, range?: [bigint, bigint]) =>
+  Yup.string()
+    .required(`${label} is required`)
+    .matches(AMOUNT_PATTERN, `${label} must be a valid number`)
+    .test('decimals', `${label} can have at most ${TOKEN_DECIMALS} decimal places`, (value) =>
+      !value || hasValidDecimals(value)
+    )
+    .test('range', '', function checkRange(value) {
+      const amount = parseCurveAmount(value);
+      if (!range || amount === null) return true;
+
+      const [min, max] = range;
+      if (amount < min) {
+        return this.createError({
+          message: `${label} must be at least ${formatLimit(min)}${unit} (protocol minimum)`,
+        });
+      }
+      if (amount > max) {
+        return this.createError({
+          message: `${label} must be at most ${formatLimit(max)}${unit} (protocol maximum)`,
+        });
+      }
+      return true;
+    });
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Yup schema for the launch form's curve fields
+ * Without limits (not loaded yet, or unreachable) only the number format is
+ * checked; the launch itself re-validates against fresh limits.
+ *
+ * @param limits - ProtocolConfig limits and fees
+ * @returns Schema for basePrice, slope, maxSupply and migrationThreshold
+ */
+export const createLaunchCurveSchema = (limits: LaunchLimits | null) => {
+  const curve = limits?.curve;
+
+  return Yup.object().shape({
+    basePrice: amountField(
+      'Base price',
+      ` ${QUOTE_SYMBOL}`,
+      curve && [curve.minBasePrice, curve.maxBasePrice]
+    ),
+    slope: amountField('Slope', '', curve && [curve.minSlope, curve.maxSlope]),
+    maxSupply: amountField('Max supply', ' tokens', curve && [curve.minSupply, curve.maxSupply]),
+    migrationThreshold: Yup.string()
+      .matches(/^\d*\.?\d*$/, 'Migration threshold must be a valid number')
+      .test(
+        'decimals',
+        `Migration threshold can have at most ${TOKEN_DECIMALS} decimal places`,
+        (value) => !value || hasValidDecimals(value)
+      )
+      .test('reachable', '', function checkReachable(value) {
+        const params = toCurveParams({ ...this.parent, migrationThreshold: value });
+        if (!limits || !params || params.migrationThreshold === BigInt(0)) return true;
+
+        const reserve = calculateRaise(params, params.maxSupply);
+        if (reserve >= params.migrationThreshold) return true;
+
+        return this.createError({
+          message: `Migration threshold ${formatLimit(params.migrationThreshold)} ${QUOTE_SYMBOL} is above the ${formatLimit(reserve)} ${QUOTE_SYMBOL} the pool holds when sold out, so it would never migrate`,
+        });
+      }),
+  });
+};
+
+// ============================================================================
+// Launch Validation Service Class
+// ============================================================================
+
+export class LaunchValidationService {
+  private limits: LaunchLimits | null = null;
+
+  private fetchedAt = 0;
+
+  private pending: Promise<LaunchLimits> | null = null;
+
+  /**
+   * Curve limits and trading fees, cached for a minute
+   */
+  async getLimits(forceRefresh = false): Promise<LaunchLimits> {
+    if (!forceRefresh && this.limits && Date.now() - this.fetchedAt < LIMITS_CACHE_TTL_MS) {
+      return this.limits;
+    }
+    if (this.pending) return this.pending;
+
+    const contractService = getContractService();
+    this.pending = Promise.all([contractService.getCurveLimits(), contractService.getFeeConfig()])
+      .then(([curve, feeConfig]) => {
+        this.limits = {
+          curve,
+          fees: { feeBps: feeConfig.feeBps, creatorFeeBps: feeConfig.creatorFeeBps },
+        };
+        this.fetchedAt = Date.now();
+        return this.limits;
+      })
+      .finally(() => {
+        this.pending = null;
+      });
+
+    return this.pending;
+  }
+
+  /**
+   * Validate launch values against fresh on-chain limits
+   * Throws LaunchValidationError listing every invalid field.
+   */
+  async validate(values: LaunchCurveValues): Promise<CurveParams> {
+    const limits = await this.getLimits(true);
+
+    try {
+      await createLaunchCurveSchema(limits).validate(values, { abortEarly: false });
+    } catch (error) {
+      if (!(error instanceof Yup.ValidationError)) throw error;
+
+      const fieldErrors: LaunchValidationError['fieldErrors'] = {};
+      error.inner.forEach((inner) => {
+        const field = inner.path as keyof LaunchCurveValues;
+        if (field && !fieldErrors[field]) fieldErrors[field] = inner.message;
+      });
+      throw new LaunchValidationError(error.errors[0] || 'Invalid launch parameters', fieldErrors);
+    }
+
+    return toCurveParams(values) as CurveParams;
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let launchValidationServiceInstance: LaunchValidationService | null = null;
+
+/**
+ * Get or create LaunchValidationService singleton
+ */
+export const getLaunchValidationService = (): LaunchValidationService => {
+  if (!launchValidationServiceInstance) {
+    launchValidationServiceInstance = new LaunchValidationService();
+  }
+  return launchValidationServiceInstance;
+};
+
+/**
+ * Reset LaunchValidationService instance (drops cached limits)
+ */
+export const resetLaunchValidationService = (): void => {
+  launchValidationServiceInstance = null;
+};
+
+export default LaunchValidationService;
@@ -0,0 +1,293 @@
+/**
+ * Migration Tracker
+ * Follows a pool from the bonding curve to the DEX: threshold progress from
+ * pool state, then LiquidityMigration.MigrationCompleted and the ZkDexHook
+ * LP lock events once the threshold is crossed
+ * Requirements: 8.4
+ */
+
+import { RpcProvider, addAddressPadding } from 'starknet';
+import {
+  getContractAddresses,
+  getContractConfig,
+  getDeploymentManifest,
+  isValidContractAddress,
+} from '../config/contracts';
+import { EVENT_SELECTORS, decodeEvents } from '../utils/eventDecoder';
+import { PoolMigrationThreshold, getContractService } from './contractService';
+import { EventIndexer } from './eventIndexer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * 'bonding': trades on the curve; 'graduating': the threshold was crossed or
+ * the pool stopped trading, but LiquidityMigration has not reported the
+ * liquidity moved yet; 'graduated': the liquidity is on the DEX
+ */
+export type MigrationPhase = 'bonding' | 'graduating' | 'graduated';
+
+/**
+ * LP tokens ZkDexHook holds for a migrated pool
+ */
+export interface LiquidityLock {
+  lpToken: string;
+  /** Unix seconds */
+  unlockTime: number;
+  unlocked: boolean;
+  /** Unix seconds of the LPUnlocked block */
+  unlockedAt: number | null;
+  txHash: string | null;
+}
+
+export interface MigrationCompletion {
+  launchId: bigint;
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface MigrationStatus {
+  pool: string;
+  phase: MigrationPhase;
+  /** The pool's migrated flag; trades on the curve revert once it is set */
+  migrated: boolean;
+  reserveBalance: bigint;
+  /** 0 when the launch has no migration threshold */
+  threshold: bigint;
+  /** reserve / threshold, 0-100 */
+  thresholdProgress: number;
+  completion: MigrationCompletion | null;
+  liquidityLock: LiquidityLock | null;
+}
+
+/**
+ * What is known of a pool's LP lock up to `scannedTo`
+ */
+interface LockScan {
+  lock: LiquidityLock | null;
+  /** Block of the LiquidityProtected event behind `lock` */
+  lockBlock: number;
+  scannedTo: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const poolKey = (poolAddress: string): string => BigInt(poolAddress).toString(16);
+
+/**
+ * Reserve as a percentage of the threshold, two decimals
+ */
+export const calculateThresholdProgress = (reserveBalance: bigint, threshold: bigint): number => {
+  if (threshold <= BigInt(0)) return 0;
+  const progress = Number((reserveBalance * BigInt(10000)) / threshold) / 100;
+  return Math.min(Math.max(progress, 0), 100);
+};
+
+// ============================================================================
+// Migration Tracker Class
+// ============================================================================
+
+export class MigrationTracker {
+  private provider: RpcProvider;
+
+  private indexer: EventIndexer;
+
+  /** Thresholds never change after launch */
+  private thresholds = new Map<string, PoolMigrationThreshold | null>();
+
+  /** MigrationCompleted is final, so it is looked up once per pool */
+  private completions = new Map<string, MigrationCompletion>();
+
+  /** LP locks per pool; later lookups only scan the blocks after `scannedTo` */
+  private locks = new Map<string, LockScan>();
+
+  private pending = new Map<string, Promise<MigrationStatus>>();
+
+  constructor(provider?: RpcProvider) {
+    this.provider = provider ?? new RpcProvider({ nodeUrl: getContractConfig().rpcUrl });
+    this.indexer = new EventIndexer(this.provider);
+  }
+
+  /**
+   * Current migration status of a pool
+   * Concurrent calls for the same pool share one request.
+   */
+  async getStatus(poolAddress: string): Promise<MigrationStatus> {
+    const key = poolKey(poolAddress);
+    const pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const request = this.loadStatus(poolAddress, key).finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private async loadStatus(poolAddress: string, key: string): Promise<MigrationStatus> {
+    const contractService = getContractService();
+    const [state, launch] = await Promise.all([
+      contractService.getPoolState(poolAddress),
+      this.getThreshold(poolAddress, key),
+    ]);
+
+    const threshold = launch?.threshold ?? BigInt(0);
+    const thresholdReached = threshold > BigInt(0) && state.reserveBalance >= threshold;
+    const status: MigrationStatus = {
+      pool: addAddressPadding(poolAddress),
+      phase: 'bonding',
+      migrated: state.migrated,
+      reserveBalance: state.reserveBalance,
+      threshold,
+      thresholdProgress: state.migrated ? 100 : calculateThresholdProgress(state.reserveBalance, threshold),
+      completion: null,
+      liquidityLock: null,
+    };
+
+    // Pools on the curve have no migration events to look for
+    if (!state.migrated && !thresholdReached) {
+      return status;
+    }
+
+    const [completion, liquidityLock] = await Promise.all([
+      this.getCompletion(poolAddress, key),
+      this.getLiquidityLock(poolAddress),
+    ]);
+    // Without a LiquidityMigration deployment nothing reports the move, so a
+    // migrated pool is as graduated as it gets
+    const trackable = isValidContractAddress(getContractAddresses().liquidityMigration);
+    const graduated = state.migrated && (completion !== null || liquidityLock !== null || !trackable);
+
+    return {
+      ...status,
+      phase: graduated ? 'graduated' : 'graduating',
+      completion,
+      liquidityLock,
+    };
+  }
+
+  private async getThreshold(poolAddress: string, key: string): Promise<PoolMigrationThreshold | null> {
+    if (this.thresholds.has(key)) {
+      return this.thresholds.get(key) ?? null;
+    }
+    const threshold = await getContractService().getPoolMigrationThreshold(poolAddress);
+    this.thresholds.set(key, threshold);
+    return threshold;
+  }
+
+  /**
+   * LiquidityMigration.MigrationCompleted for the pool, if it was emitted
+   */
+  private async getCompletion(poolAddress: string, key: string): Promise<MigrationCompletion | null> {
+    const cached = this.completions.get(key);
+    if (cached) return cached;
+
+    const { liquidityMigration } = getContractAddresses();
+    if (!isValidContractAddress(liquidityMigration)) return null;
+
+    // keys: selector, launch_id (low, high), pool
+    const fromBlock = getDeploymentManifest()?.contracts.LiquidityMigration?.deploy_block ?? 0;
+    const toBlock = await this.provider.getBlockNumber();
+    const events = await this.indexer.fetchEvents(liquidityMigration, fromBlock, toBlock, [
+      [EVENT_SELECTORS.MigrationCompleted],
+      [],
+      [],
+      [addAddressPadding(poolAddress)],
+    ]);
+    const [event] = decodeEvents(events, ['MigrationCompleted']);
+    if (!event) return null;
+
+    const completion: MigrationCompletion = {
+      launchId: event.launchId,
+      txHash: event.txHash,
+      blockNumber: event.blockNumber,
+    };
+    this.completions.set(key, completion);
+    return completion;
+  }
+
+  /**
+   * Latest ZkDexHook lock of the pool's LP tokens
+   * An unlock is final, so an unlocked lock is returned without a request.
+   */
+  async getLiquidityLock(poolAddress: string): Promise<LiquidityLock | null> {
+    const key = poolKey(poolAddress);
+    const cached = this.locks.get(key);
+    if (cached?.lock?.unlocked) return cached.lock;
+
+    const { zkDexHook } = getContractAddresses();
+    if (!isValidContractAddress(zkDexHook)) return null;
+
+    const pool = addAddressPadding(poolAddress);
+    const fromBlock = cached
+      ? cached.scannedTo + 1
+      : getDeploymentManifest()?.contracts.ZkDexHook?.deploy_block ?? 0;
+    const toBlock = await this.provider.getBlockNumber();
+    if (fromBlock > toBlock) return cached?.lock ?? null;
+
+    const [protectedEvents, unlockedEvents] = await Promise.all([
+      this.indexer.fetchEvents(zkDexHook, fromBlock, toBlock, [[EVENT_SELECTORS.LiquidityProtected], [pool]]),
+      this.indexer.fetchEvents(zkDexHook, fromBlock, toBlock, [[EVENT_SELECTORS.LPUnlocked], [pool]]),
+    ]);
+
+    const scan: LockScan = cached
+      ? { ...cached, scannedTo: toBlock }
+      : { lock: null, lockBlock: 0, scannedTo: toBlock };
+    const locks = decodeEvents(protectedEvents, ['LiquidityProtected']);
+    const latest = locks[locks.length - 1];
+    if (latest) {
+      scan.lock = {
+        lpToken: latest.lpToken,
+        unlockTime: Number(latest.unlockTime),
+        unlocked: false,
+        unlockedAt: null,
+        txHash: latest.txHash,
+      };
+      scan.lockBlock = latest.blockNumber ?? 0;
+    }
+
+    const { lock } = scan;
+    const unlock = lock
+      ? decodeEvents(unlockedEvents, ['LPUnlocked']).find(
+          (event) => (event.blockNumber ?? 0) >= scan.lockBlock
+        )
+      : undefined;
+    if (lock && unlock) {
+      const unlockedAt = unlock.blockNumber != null
+        ? await this.indexer.getBlockTimestamp(unlock.blockNumber)
+        : null;
+      scan.lock = { ...lock, unlocked: true, unlockedAt };
+    }
+
+    this.locks.set(key, scan);
+    return scan.lock;
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let migrationTrackerInstance: MigrationTracker | null = null;
+
+/**
+ * Get or create MigrationTracker singleton
+ */
+export const getMigrationTracker = (): MigrationTracker => {
+  if (!migrationTrackerInstance) {
+    migrationTrackerInstance = new MigrationTracker();
+  }
+  return migrationTrackerInstance;
+};
+
+/**
+ * Reset MigrationTracker instance
+ */
+export const resetMigrationTracker = (): void => {
+  migrationTrackerInstance = null;
+};
+
+export default MigrationTracker;
@@ -0,0 +1,75 @@
+/**
+ * Mixer Builder
+ * Builds DarkPoolMixer deposit and withdraw calls
+ * Requirements: 7.1, 7.2
+ */
+
+import { Call, CallData, cairo } from 'starknet';
+import { buildApproveCall } from './tradeBuilder';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MixerDepositCallsParams {
+  mixerAddress: string;
+  token: string;
+  amount: bigint;
+  commitment: string;
+}
+
+export interface MixerWithdrawCallParams {
+  mixerAddress: string;
+  token: string;
+  amount: bigint;
+  nullifier: string;
+  recipient: string;
+  commitment: string;
+  leafIndex: bigint;
+  merkleProof: string[];
+  merkleRoot: string;
+}
+
+// ============================================================================
+// Call Builders
+// ============================================================================
+
+/**
+ * approve(token → mixer) + DarkPoolMixer.deposit, for one account.execute
+ * The mixer pulls exactly amount with transfer_from.
+ */
+export const buildMixerDepositCalls = (params: MixerDepositCallsParams): Call[] => [
+  buildApproveCall(params.token, params.mixerAddress, params.amount),
+  {
+    contractAddress: params.mixerAddress,
+    entrypoint: 'deposit',
+    calldata: CallData.compile({
+      token: params.token,
+      amount: cairo.uint256(params.amount),
+      commitment: params.commitment,
+    }),
+  },
+];
+
+/**
+ * DarkPoolMixer.withdraw; amount is the deposited amount, the fee is taken from it
+ */
+export const buildMixerWithdrawCall = (params: MixerWithdrawCallParams): Call => ({
+  contractAddress: params.mixerAddress,
+  entrypoint: 'withdraw',
+  calldata: CallData.compile({
+    token: params.token,
+    amount: cairo.uint256(params.amount),
+    nullifier: params.nullifier,
+    recipient: params.recipient,
+    commitment: params.commitment,
+    leaf_index: cairo.uint256(params.leafIndex),
+    merkle_proof: params.merkleProof,
+    merkle_root: params.merkleRoot,
+  }),
+});
+
+export default {
+  buildMixerDepositCalls,
+  buildMixerWithdrawCall,
+};
@@ -0,0 +1,107 @@
+/**
+ * Mixer Service
+ * DarkPoolMixer terms and withdrawal paths for notes
+ * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5
+ */
+
+import { getContractAddresses, isValidContractAddress } from '../config/contracts';
+import { calculateFee } from '../utils/curveQuote';
+import { MixerNote } from '../utils/mixerNote';
+import { getContractService } from './contractService';
+import { CommitmentPath, getCommitmentTreeSync } from './commitmentTreeSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MixerTerms {
+  feeBps: bigint;
+  minDeposit: bigint;
+  maxDeposit: bigint;
+  isTokenSupported: boolean;
+}
+
+export interface MixerWithdrawalQuote {
+  fee: bigint;
+  /** What the recipient receives */
+  amountAfterFee: bigint;
+}
+
+export type MixerWithdrawalProof = CommitmentPath;
+
+// ============================================================================
+// Mixer Service Class
+// ============================================================================
+
+export class MixerService {
+  /**
+   * Fee the mixer takes on withdraw, as DarkPoolMixer.calculate_fee computes it
+   */
+  static quoteWithdrawal(amount: bigint, feeBps: bigint): MixerWithdrawalQuote {
+    const fee = calculateFee(amount, feeBps);
+    return { fee, amountAfterFee: amount - fee };
+  }
+
+  /**
+   * Fee, limits and token support, read together so they can be shown up front
+   */
+  async getTerms(token: string): Promise<MixerTerms> {
+    const contractService = getContractService();
+    const [feeBps, limits, isTokenSupported] = await Promise.all([
+      contractService.getMixerFee(),
+      contractService.getMixerLimits(),
+      contractService.isTokenSupportedByMixer(token),
+    ]);
+    return {
+      feeBps,
+      minDeposit: limits.min,
+      maxDeposit: limits.max,
+      isTokenSupported,
+    };
+  }
+
+  /**
+   * Merkle path and root DarkPoolMixer.withdraw accepts for a note
+   * The path comes from the locally synced commitment tree; the nullifier
+   * and root are checked on-chain before anything is signed.
+   *
+   * @throws Error carrying NULLIFIER_ALREADY_SPENT / INVALID_MERKLE_ROOT
+   */
+  async buildWithdrawalProof(note: MixerNote): Promise<MixerWithdrawalProof> {
+    const { darkPoolMixer } = getContractAddresses();
+    if (!isValidContractAddress(darkPoolMixer)) {
+      throw new Error('DarkPoolMixer contract address not configured');
+    }
+
+    if (await getContractService().isNullifierSpent(note.nullifier)) {
+      throw new Error('NULLIFIER_ALREADY_SPENT');
+    }
+
+    return getCommitmentTreeSync().getPath(note.commitment);
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let mixerServiceInstance: MixerService | null = null;
+
+/**
+ * Get or create MixerService singleton
+ */
+export const getMixerService = (): MixerService => {
+  if (!mixerServiceInstance) {
+    mixerServiceInstance = new MixerService();
+  }
+  return mixerServiceInstance;
+};
+
+/**
+ * Reset MixerService instance
+ */
+export const resetMixerService = (): void => {
+  mixerServiceInstance = null;
+};
+
+export default MixerService;
@@ -0,0 +1,238 @@
+/**
+ * @jest-environment node
+ */
+
+import { Blob } from 'buffer';
+import { webcrypto } from 'crypto';
+import { AccountInterface } from 'starknet';
+import { PrivacyVault } from './privacyVault';
+
+const ALICE = '0xa11ce';
+const BOB = '0xb0b';
+const CHAIN_ID = '0x534e5f5345504f4c4941';
+
+interface StoredRecord {
+  id: string;
+  wallet: string;
+  collection: string;
+  iv: string;
+  data: string;
+  updatedAt: number;
+}
+
+/**
+ * The node environment has no localStorage; legacy data is read from there
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * The single object store the vault opens, with its wallet index
+ * Requests complete on a later tick, as they do in the browser.
+ */
+class FakeIndexedDB {
+  readonly records = new Map<string, StoredRecord>();
+
+  readonly puts: string[] = [];
+
+  private store = {
+    get: (id: string) => this.request(() => this.copy(this.records.get(id))),
+    put: (record: StoredRecord) =>
+      this.request(() => {
+        this.puts.push(record.id);
+        this.records.set(record.id, { ...record });
+        return record.id;
+      }),
+    delete: (id: string) => this.request(() => this.records.delete(id) && undefined),
+    index: () => ({
+      getAll: (wallet: string) =>
+        this.request(() =>
+          Array.from(this.records.values())
+            .filter((record) => record.wallet === wallet)
+            .map((record) => ({ ...record }))
+        ),
+    }),
+  };
+
+  private db = {
+    createObjectStore: () => ({ createIndex: () => undefined }),
+    transaction: () => ({ objectStore: () => this.store }),
+  };
+
+  open() {
+    return this.request(() => this.db, true);
+  }
+
+  reset(): void {
+    this.records.clear();
+    this.puts.length = 0;
+  }
+
+  private copy(record: StoredRecord | undefined): StoredRecord | undefined {
+    return record && { ...record };
+  }
+
+  private request<T>(run: () => T, upgrade = false) {
+    const request: { result?: T; onsuccess?: () => void; onupgradeneeded?: () => void } = {};
+    setTimeout(() => {
+      request.result = run();
+      if (upgrade) request.onupgradeneeded?.();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+}
+
+const indexedDB = new FakeIndexedDB();
+
+/**
+ * Wallet whose unlock signature is fixed by `signature`
+ */
+const walletAccount = (signature: string[]) =>
+  ({
+    getChainId: async () => CHAIN_ID,
+    signMessage: async () => signature,
+  } as unknown as AccountInterface);
+
+beforeAll(() => {
+  Object.assign(globalThis, {
+    indexedDB,
+    crypto: webcrypto,
+    Blob,
+    btoa: (value: string) => Buffer.from(value, 'binary').toString('base64'),
+    atob: (value: string) => Buffer.from(value, 'base64').toString('binary'),
+  });
+});
+
+beforeEach(() => {
+  indexedDB.reset();
+  Object.assign(globalThis, { localStorage: new MemoryStorage() });
+});
+
+describe('PrivacyVault', () => {
+  const aliceAccount = walletAccount(['0x1234', '0x5678']);
+
+  it('reads back what it wrote, and stores only ciphertext', async () => {
+    const vault = new PrivacyVault();
+    await vault.unlock(aliceAccount, ALICE);
+
+    await expect(vault.read(ALICE, 'notes', [])).resolves.toEqual([]);
+    await vault.write(ALICE, 'notes', [{ secret: '0x5ec2e7' }]);
+
+    await expect(vault.read(ALICE, 'notes', [])).resolves.toEqual([{ secret: '0x5ec2e7' }]);
+    expect(JSON.stringify(Array.from(indexedDB.records.values()))).not.toContain('5ec2e7');
+
+    vault.lock(ALICE);
+    await expect(vault.read(ALICE, 'notes', [])).rejects.toMatchObject({
+      name: 'VaultError',
+      code: 'LOCKED',
+    });
+  });
+
+  it('rejects a record moved to another collection or wallet', async () => {
+    const vault = new PrivacyVault();
+    await vault.unlock(aliceAccount, ALICE);
+    await vault.write(ALICE, 'balances', { STRK: '100' });
+    const { iv, data } = indexedDB.records.get(`${ALICE}:balances`)!;
+
+    indexedDB.records.set(`${ALICE}:notes`, {
+      id: `${ALICE}:notes`,
+      wallet: ALICE,
+      collection: 'notes',
+      iv,
+      data,
+      updatedAt: 0,
+    });
+    await expect(vault.read(ALICE, 'notes', [])).rejects.toThrow();
+
+    // Bob restores Alice's seed; the record stays bound to Alice's wallet
+    await vault.restoreFromSeed(walletAccount(['0x9']), BOB, vault.getRecoverySeed(ALICE)!);
+    indexedDB.records.set(`${BOB}:balances`, {
+      id: `${BOB}:balances`,
+      wallet: BOB,
+      collection: 'balances',
+      iv,
+      data,
+      updatedAt: 0,
+    });
+    await expect(vault.read(BOB, 'balances', {})).rejects.toThrow();
+  });
+
+  it('refuses a backup sealed with another seed without writing anything', async () => {
+    const device = new PrivacyVault();
+    await device.unlock(aliceAccount, ALICE);
+    await device.write(ALICE, 'notes', [{ secret: '0x1' }]);
+    const backup = await (await device.exportBackup(ALICE)).text();
+
+    // Another device, unlocked with a different signature and so another seed
+    indexedDB.reset();
+    const otherDevice = new PrivacyVault();
+    await otherDevice.unlock(walletAccount(['0xabc', '0xdef']), ALICE);
+    await otherDevice.write(ALICE, 'notes', [{ secret: '0x2' }]);
+    const before = new Map(indexedDB.records);
+    indexedDB.puts.length = 0;
+
+    await expect(otherDevice.importBackup(ALICE, backup)).rejects.toMatchObject({
+      name: 'VaultError',
+      code: 'WRONG_SEED',
+    });
+    expect(indexedDB.puts).toEqual([]);
+    expect(indexedDB.records).toEqual(before);
+    await expect(otherDevice.read(ALICE, 'notes', [])).resolves.toEqual([{ secret: '0x2' }]);
+  });
+
+  it('re-encrypts existing records when restoring a seed', async () => {
+    const device = new PrivacyVault();
+    await device.unlock(aliceAccount, ALICE);
+    const seed = device.getRecoverySeed(ALICE)!;
+    await device.write(ALICE, 'notes', [{ secret: '0x1' }]);
+    const backup = await (await device.exportBackup(ALICE)).text();
+
+    indexedDB.reset();
+    const otherAccount = walletAccount(['0xabc', '0xdef']);
+    const otherDevice = new PrivacyVault();
+    await otherDevice.unlock(otherAccount, ALICE);
+    await otherDevice.write(ALICE, 'balances', { STRK: '7' });
+    const sealed = indexedDB.records.get(`${ALICE}:balances`)!;
+
+    const keys = await otherDevice.restoreFromSeed(otherAccount, ALICE, seed);
+
+    expect(keys).toEqual(device.getStealthKeys(ALICE));
+    expect(indexedDB.records.get(`${ALICE}:balances`)!.data).not.toBe(sealed.data);
+    await expect(otherDevice.read(ALICE, 'balances', {})).resolves.toEqual({ STRK: '7' });
+    await expect(otherDevice.importBackup(ALICE, backup)).resolves.toBe(1);
+
+    // The keyring now holds the restored seed for this wallet's signature
+    const reopened = new PrivacyVault();
+    await reopened.unlock(otherAccount, ALICE);
+    expect(reopened.getRecoverySeed(ALICE)).toBe(seed);
+    await expect(reopened.read(ALICE, 'notes', [])).resolves.toEqual([{ secret: '0x1' }]);
+    await expect(reopened.read(ALICE, 'balances', {})).resolves.toEqual({ STRK: '7' });
+  });
+
+  it('moves plaintext localStorage data into the vault on first unlock', async () => {
+    const history = [{ hash: '0x7a11', type: 'buy' }];
+    localStorage.setItem(`zump_tx_history_${ALICE}`, JSON.stringify(history));
+    const vault = new PrivacyVault();
+
+    await expect(vault.has(ALICE, 'transactions')).resolves.toBe(true);
+    await vault.unlock(aliceAccount, ALICE);
+
+    expect(localStorage.getItem(`zump_tx_history_${ALICE}`)).toBeNull();
+    await expect(vault.read(ALICE, 'transactions', [])).resolves.toEqual(history);
+    expect(indexedDB.records.get(`${ALICE}:transactions`)!.data).not.toContain('7a11');
+  });
+});
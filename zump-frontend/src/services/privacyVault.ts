@@ -0,0 +1,592 @@
+/**
+ * Privacy Vault
+ * Encrypted IndexedDB storage for stealth keys, stealth addresses, private
+ * transactions and balances, unlocked by a wallet signature
+ * Requirements: 2.1, 10.2, 10.3, 10.4
+ */
+
+import { AccountInterface, Signature, stark } from 'starknet';
+import {
+  StealthKeys,
+  deriveStealthKeysFromSeed,
+  deriveStealthSeed,
+  getStealthKeyTypedData,
+  isValidStealthSeed,
+} from '../utils/stealthKeys';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VaultCollection =
+  | 'stealthAddresses'
+  | 'transactions'
+  | 'balances'
+  | 'notes'
+  | 'privatePositions'
+  | 'pendingLaunch';
+
+export type VaultErrorCode = 'UNSUPPORTED' | 'LOCKED' | 'INVALID_SEED' | 'INVALID_BACKUP' | 'WRONG_SEED';
+
+/**
+ * Called after a collection changes; collection is null when the vault was
+ * unlocked, locked or restored and everything should be reloaded
+ */
+export type VaultListener = (wallet: string, collection: VaultCollection | null) => void;
+
+interface VaultRecord {
+  /** `${wallet}:${collection}` */
+  id: string;
+  wallet: string;
+  collection: string;
+  iv: string;
+  data: string;
+  updatedAt: number;
+}
+
+interface VaultSession {
+  seed: string;
+  /** Encrypts collections; derived from the seed */
+  dataKey: CryptoKey;
+  /** Encrypts the seed; derived from the wallet signature */
+  wrapKey: CryptoKey;
+  keys: StealthKeys;
+}
+
+export interface VaultBackup {
+  version: number;
+  wallet: string;
+  createdAt: number;
+  records: Array<Pick<VaultRecord, 'collection' | 'iv' | 'data' | 'updatedAt'>>;
+}
+
+// ============================================================================
+// Error Class
+// ============================================================================
+
+export class VaultError extends Error {
+  constructor(
+    message: string,
+    public code: VaultErrorCode
+  ) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME = 'zump-privacy-vault';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+/** Holds the seed, encrypted with the signature key instead of the data key */
+const KEYRING_COLLECTION = '__keyring';
+const BACKUP_VERSION = 1;
+const VAULT_COLLECTIONS: VaultCollection[] = [
+  'stealthAddresses',
+  'transactions',
+  'balances',
+  'notes',
+  'privatePositions',
+  'pendingLaunch',
+];
+
+/**
+ * Plaintext localStorage prefixes moved into the vault on first unlock
+ */
+const LEGACY_STORAGE_KEYS: Partial<Record<VaultCollection, string>> = {
+  stealthAddresses: 'zump_stealth_addresses',
+  transactions: 'zump_tx_history',
+  balances: 'zump_balance_cache',
+  pendingLaunch: 'zump_pending_launch',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const normalizeWallet = (wallet: string): string => `0x${BigInt(wallet).toString(16)}`;
+
+const recordId = (wallet: string, collection: string): string => `${wallet}:${collection}`;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const feltBytes = (values: string[]): Uint8Array =>
+  encoder.encode(values.map((value) => BigInt(value).toString(16).padStart(64, '0')).join(''));
+
+/**
+ * AES-GCM key from key material via HKDF-SHA256
+ */
+const deriveAesKey = async (material: Uint8Array, wallet: string, info: string): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(wallet), info: encoder.encode(info) },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const deriveWrapKey = (signature: Signature, wallet: string): Promise<CryptoKey> =>
+  deriveAesKey(feltBytes(stark.formatSignature(signature)), wallet, 'zump-vault-wrap');
+
+const deriveDataKey = (seed: string, wallet: string): Promise<CryptoKey> =>
+  deriveAesKey(feltBytes([seed]), wallet, 'zump-vault-data');
+
+/**
+ * Encrypt a value; the record id is bound as associated data so ciphertexts
+ * cannot be swapped between wallets or collections
+ */
+const encryptValue = async (
+  key: CryptoKey,
+  id: string,
+  value: unknown
+): Promise<{ iv: string; data: string }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(id) },
+    key,
+    encoder.encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptValue = async <T>(key: CryptoKey, id: string, iv: string, data: string): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: encoder.encode(id) },
+    key,
+    fromBase64(data)
+  );
+  return JSON.parse(decoder.decode(plaintext)) as T;
+};
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new VaultError('IndexedDB is not available in this browser', 'UNSUPPORTED'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('wallet', 'wallet');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getRecord = (id: string): Promise<VaultRecord | undefined> =>
+  runRequest<VaultRecord | undefined>('readonly', (store) => store.get(id));
+
+const putRecord = (record: VaultRecord): Promise<IDBValidKey> =>
+  runRequest('readwrite', (store) => store.put(record));
+
+const deleteRecord = (id: string): Promise<undefined> =>
+  runRequest('readwrite', (store) => store.delete(id));
+
+const getWalletRecords = (wallet: string): Promise<VaultRecord[]> =>
+  runRequest<VaultRecord[]>('readonly', (store) => store.index('wallet').getAll(wallet));
+
+// ============================================================================
+// Privacy Vault Class
+// ============================================================================
+
+export class PrivacyVault {
+  private sessions = new Map<string, VaultSession>();
+
+  private unlocking = new Map<string, Promise<StealthKeys>>();
+
+  private listeners = new Set<VaultListener>();
+
+  // =========================================================================
+  // Session
+  // =========================================================================
+
+  isUnlocked(wallet: string): boolean {
+    return this.sessions.has(normalizeWallet(wallet));
+  }
+
+  /**
+   * Stealth keys of an unlocked vault, or null while locked
+   */
+  getStealthKeys(wallet: string): StealthKeys | null {
+    return this.sessions.get(normalizeWallet(wallet))?.keys ?? null;
+  }
+
+  /**
+   * Seed to write down for restoreFromSeed; null while locked
+   */
+  getRecoverySeed(wallet: string): string | null {
+    return this.sessions.get(normalizeWallet(wallet))?.seed ?? null;
+  }
+
+  /**
+   * Unlock with a wallet signature
+   * The first unlock stores the signature-derived seed and moves plaintext
+   * localStorage data into the vault. Concurrent calls share one prompt.
+   */
+  async unlock(account: AccountInterface, walletAddress: string): Promise<StealthKeys> {
+    const wallet = normalizeWallet(walletAddress);
+    const session = this.sessions.get(wallet);
+    if (session) return session.keys;
+
+    const running = this.unlocking.get(wallet);
+    if (running) return running;
+
+    const unlock = this.runUnlock(account, walletAddress, wallet).finally(() => {
+      this.unlocking.delete(wallet);
+    });
+    this.unlocking.set(wallet, unlock);
+    return unlock;
+  }
+
+  /**
+   * Forget the keys; data stays encrypted on disk
+   */
+  lock(walletAddress: string): void {
+    const wallet = normalizeWallet(walletAddress);
+    if (this.sessions.delete(wallet)) {
+      this.notify(wallet, null);
+    }
+  }
+
+  // =========================================================================
+  // Collections
+  // =========================================================================
+
+  /**
+   * Read a collection; returns fallback when it was never written
+   */
+  async read<T>(walletAddress: string, collection: VaultCollection, fallback: T): Promise<T> {
+    const wallet = normalizeWallet(walletAddress);
+    const session = this.requireSession(wallet);
+    const id = recordId(wallet, collection);
+
+    const record = await getRecord(id);
+    if (!record) return fallback;
+    return decryptValue<T>(session.dataKey, id, record.iv, record.data);
+  }
+
+  async write<T>(walletAddress: string, collection: VaultCollection, value: T): Promise<void> {
+    const wallet = normalizeWallet(walletAddress);
+    const session = this.requireSession(wallet);
+    const id = recordId(wallet, collection);
+
+    const encrypted = await encryptValue(session.dataKey, id, value);
+    await putRecord({ id, wallet, collection, ...encrypted, updatedAt: Date.now() });
+    this.notify(wallet, collection);
+  }
+
+  /**
+   * Whether a collection holds data, also while locked
+   * Only reveals that a record exists (or still waits in legacy localStorage
+   * to be moved in), never its contents.
+   */
+  async has(walletAddress: string, collection: VaultCollection): Promise<boolean> {
+    const legacyPrefix = LEGACY_STORAGE_KEYS[collection];
+    if (legacyPrefix && localStorage.getItem(`${legacyPrefix}_${walletAddress}`) !== null) {
+      return true;
+    }
+    const record = await getRecord(recordId(normalizeWallet(walletAddress), collection));
+    return record !== undefined;
+  }
+
+  async remove(walletAddress: string, collection: VaultCollection): Promise<void> {
+    const wallet = normalizeWallet(walletAddress);
+    this.requireSession(wallet);
+    await deleteRecord(recordId(wallet, collection));
+    this.notify(wallet, collection);
+  }
+
+  /**
+   * Listen for changes; returns an unsubscribe function
+   */
+  subscribe(listener: VaultListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // =========================================================================
+  // Backup & Restore
+  // =========================================================================
+
+  /**
+   * Encrypted backup of every collection
+   * Records stay encrypted with the seed's data key, so the file is useless
+   * without the seed (or the same wallet signature).
+   */
+  async exportBackup(walletAddress: string): Promise<Blob> {
+    const wallet = normalizeWallet(walletAddress);
+    this.requireSession(wallet);
+
+    const records = (await getWalletRecords(wallet)).filter(
+      (record) => record.collection !== KEYRING_COLLECTION
+    );
+    const backup: VaultBackup = {
+      version: BACKUP_VERSION,
+      wallet,
+      createdAt: Date.now(),
+      records: records.map(({ collection, iv, data, updatedAt }) => ({ collection, iv, data, updatedAt })),
+    };
+
+    return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  }
+
+  /**
+   * Import a backup made by exportBackup, replacing the collections it contains
+   * Every record is decrypted before anything is written, so a backup for a
+   * different seed changes nothing.
+   *
+   * @returns Number of collections restored
+   */
+  async importBackup(walletAddress: string, contents: string): Promise<number> {
+    const wallet = normalizeWallet(walletAddress);
+    const session = this.requireSession(wallet);
+
+    let backup: VaultBackup;
+    try {
+      backup = JSON.parse(contents) as VaultBackup;
+    } catch {
+      throw new VaultError('Backup file is not valid JSON', 'INVALID_BACKUP');
+    }
+    if (backup.version !== BACKUP_VERSION || !Array.isArray(backup.records)) {
+      throw new VaultError('Unsupported backup format', 'INVALID_BACKUP');
+    }
+    if (normalizeWallet(backup.wallet) !== wallet) {
+      throw new VaultError('Backup belongs to a different wallet', 'INVALID_BACKUP');
+    }
+
+    const records = backup.records.filter((record) =>
+      VAULT_COLLECTIONS.includes(record.collection as VaultCollection)
+    );
+    try {
+      await Promise.all(
+        records.map((record) =>
+          decryptValue(session.dataKey, recordId(wallet, record.collection), record.iv, record.data)
+        )
+      );
+    } catch {
+      throw new VaultError(
+        'Backup was encrypted with a different seed. Restore that seed first.',
+        'WRONG_SEED'
+      );
+    }
+
+    await Promise.all(
+      records.map((record) =>
+        putRecord({ ...record, id: recordId(wallet, record.collection), wallet })
+      )
+    );
+    this.notify(wallet, null);
+    return records.length;
+  }
+
+  /**
+   * Replace the vault seed, e.g. with one written down on another device
+   * Works while locked too. Existing data is re-encrypted under the new seed
+   * and the stealth keys are rebuilt from it.
+   */
+  async restoreFromSeed(
+    account: AccountInterface,
+    walletAddress: string,
+    seed: string
+  ): Promise<StealthKeys> {
+    if (!isValidStealthSeed(seed)) {
+      throw new VaultError('Invalid recovery seed', 'INVALID_SEED');
+    }
+
+    const wallet = normalizeWallet(walletAddress);
+    const current = this.sessions.get(wallet);
+    const normalizedSeed = `0x${BigInt(seed.trim()).toString(16)}`;
+    const dataKey = await deriveDataKey(normalizedSeed, wallet);
+    const wrapKey = current?.wrapKey ?? (await deriveWrapKey(await this.signUnlock(account), wallet));
+
+    // Records were sealed with either this seed or the one currently unlocked
+    const records = (await getWalletRecords(wallet)).filter(
+      (record) => record.collection !== KEYRING_COLLECTION
+    );
+    const values = await Promise.all(
+      records.map(async (record) => {
+        try {
+          return await decryptValue(dataKey, record.id, record.iv, record.data);
+        } catch {
+          if (!current) {
+            throw new VaultError(
+              'Stored data was encrypted with a different seed. Unlock the vault first.',
+              'WRONG_SEED'
+            );
+          }
+          return decryptValue(current.dataKey, record.id, record.iv, record.data);
+        }
+      })
+    );
+
+    await this.storeKeyring(wallet, wrapKey, normalizedSeed);
+    await Promise.all(
+      records.map(async (record, i) => {
+        const encrypted = await encryptValue(dataKey, record.id, values[i]);
+        await putRecord({ ...record, ...encrypted, updatedAt: Date.now() });
+      })
+    );
+
+    const keys = deriveStealthKeysFromSeed(normalizedSeed);
+    this.sessions.set(wallet, { seed: normalizedSeed, dataKey, wrapKey, keys });
+    this.notify(wallet, null);
+    return keys;
+  }
+
+  // =========================================================================
+  // Internals
+  // =========================================================================
+
+  private requireSession(wallet: string): VaultSession {
+    const session = this.sessions.get(wallet);
+    if (!session) {
+      throw new VaultError('Privacy vault is locked', 'LOCKED');
+    }
+    return session;
+  }
+
+  private notify(wallet: string, collection: VaultCollection | null): void {
+    this.listeners.forEach((listener) => listener(wallet, collection));
+  }
+
+  private async signUnlock(account: AccountInterface): Promise<Signature> {
+    const chainId = await account.getChainId();
+    return account.signMessage(getStealthKeyTypedData(chainId));
+  }
+
+  private async storeKeyring(wallet: string, wrapKey: CryptoKey, seed: string): Promise<void> {
+    const id = recordId(wallet, KEYRING_COLLECTION);
+    const encrypted = await encryptValue(wrapKey, id, { seed });
+    await putRecord({ id, wallet, collection: KEYRING_COLLECTION, ...encrypted, updatedAt: Date.now() });
+  }
+
+  private async runUnlock(
+    account: AccountInterface,
+    walletAddress: string,
+    wallet: string
+  ): Promise<StealthKeys> {
+    const signature = await this.signUnlock(account);
+    const wrapKey = await deriveWrapKey(signature, wallet);
+
+    const keyring = await getRecord(recordId(wallet, KEYRING_COLLECTION));
+    let seed: string;
+    if (keyring) {
+      try {
+        ({ seed } = await decryptValue<{ seed: string }>(wrapKey, keyring.id, keyring.iv, keyring.data));
+      } catch {
+        // Signature differs from the one the keyring was sealed with
+        throw new VaultError(
+          'Could not unlock the vault with this signature. Restore it from your recovery seed.',
+          'WRONG_SEED'
+        );
+      }
+    } else {
+      seed = deriveStealthSeed(signature);
+      await this.storeKeyring(wallet, wrapKey, seed);
+    }
+
+    const session: VaultSession = {
+      seed,
+      dataKey: await deriveDataKey(seed, wallet),
+      wrapKey,
+      keys: deriveStealthKeysFromSeed(seed),
+    };
+    this.sessions.set(wallet, session);
+
+    await this.migrateLegacyStorage(walletAddress, wallet);
+    this.notify(wallet, null);
+    return session.keys;
+  }
+
+  /**
+   * Move plaintext localStorage entries into the vault, then delete them
+   */
+  private async migrateLegacyStorage(walletAddress: string, wallet: string): Promise<void> {
+    const entries = Object.entries(LEGACY_STORAGE_KEYS) as Array<[VaultCollection, string]>;
+
+    await Promise.all(
+      entries.map(async ([collection, prefix]) => {
+        const storageKey = `${prefix}_${walletAddress}`;
+        const stored = localStorage.getItem(storageKey);
+        if (stored === null) return;
+
+        try {
+          const existing = await getRecord(recordId(wallet, collection));
+          if (!existing) {
+            await this.write(wallet, collection, JSON.parse(stored));
+          }
+          localStorage.removeItem(storageKey);
+        } catch (err) {
+          console.error(`Failed to migrate ${storageKey} into the vault:`, err);
+        }
+      })
+    );
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let privacyVaultInstance: PrivacyVault | null = null;
+
+/**
+ * Get or create PrivacyVault singleton
+ */
+export const getPrivacyVault = (): PrivacyVault => {
+  if (!privacyVaultInstance) {
+    privacyVaultInstance = new PrivacyVault();
+  }
+  return privacyVaultInstance;
+};
+
+/**
+ * Reset PrivacyVault instance (locks every wallet)
+ */
+export const resetPrivacyVault = (): void => {
+  privacyVaultInstance = null;
+};
+
+export default PrivacyVault;
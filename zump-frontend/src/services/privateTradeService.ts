@@ -0,0 +1,122 @@
+/**
+ * Private Trade Service
+ * Public inputs and proofs for BondingCurvePool.private_buy/private_sell
+ * Requirements: 6.1, 6.2
+ */
+
+import { getContractAddresses, isValidContractAddress } from '../config/contracts';
+import { EMPTY_ROOT } from '../utils/commitmentTree';
+import { PrivateTradeNote } from '../utils/privateTradeNote';
+import {
+  PROOF_TYPES,
+  ProofType,
+  ZKProof,
+  computeNullifierHash,
+  computeTradeInputHash,
+} from '../utils/zkProof';
+import { getContractService } from './contractService';
+import { ProofRequest, ProveOptions, getProofProvider } from './proofProvider';
+
+// ============================================================================
+// Private Trade Service Class
+// ============================================================================
+
+export class PrivateTradeService {
+  /**
+   * Proof request for private_buy, bound to the note's pool, amount and commitment
+   */
+  async buildBuyRequest(note: PrivateTradeNote): Promise<ProofRequest> {
+    return this.buildRequest(
+      PROOF_TYPES.BUY,
+      computeTradeInputHash(PROOF_TYPES.BUY, note.poolAddress, note.amount, note.commitment),
+      note
+    );
+  }
+
+  /**
+   * Proof request for private_sell of a position, bound to its nullifier
+   */
+  async buildSellRequest(note: PrivateTradeNote): Promise<ProofRequest> {
+    return this.buildRequest(
+      PROOF_TYPES.SELL,
+      computeTradeInputHash(PROOF_TYPES.SELL, note.poolAddress, note.amount, note.nullifier),
+      note
+    );
+  }
+
+  async buildBuyProof(note: PrivateTradeNote, options?: ProveOptions): Promise<ZKProof> {
+    return getProofProvider().prove(await this.buildBuyRequest(note), options);
+  }
+
+  async buildSellProof(note: PrivateTradeNote, options?: ProveOptions): Promise<ZKProof> {
+    return getProofProvider().prove(await this.buildSellRequest(note), options);
+  }
+
+  /**
+   * The proof is timestamped with the latest block, not the local clock,
+   * so a fast clock cannot trip FUTURE_PROOF
+   */
+  private async buildRequest(
+    proofType: ProofType,
+    publicInputHash: string,
+    note: PrivateTradeNote
+  ): Promise<ProofRequest> {
+    const contractService = getContractService();
+    const [merkleRoot, timestamp] = await Promise.all([
+      this.getMerkleRoot(),
+      contractService.getLatestBlockTimestamp(),
+    ]);
+    const nullifierHash = computeNullifierHash(note.nullifier);
+
+    return {
+      proofType,
+      publicInputHash,
+      merkleRoot,
+      nullifierHash,
+      timestamp,
+      witness: {
+        public_input_hash: BigInt(publicInputHash).toString(),
+        merkle_root: BigInt(merkleRoot).toString(),
+        nullifier_hash: BigInt(nullifierHash).toString(),
+        proof_type: proofType.toString(),
+        pool: BigInt(note.poolAddress).toString(),
+        amount: note.amount.toString(),
+        commitment: BigInt(note.commitment).toString(),
+        nullifier: BigInt(note.nullifier).toString(),
+        secret: BigInt(note.secret).toString(),
+      },
+    };
+  }
+
+  private async getMerkleRoot(): Promise<string> {
+    const { commitmentTree } = getContractAddresses();
+    return isValidContractAddress(commitmentTree)
+      ? getContractService().getCurrentMerkleRoot()
+      : EMPTY_ROOT;
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let privateTradeServiceInstance: PrivateTradeService | null = null;
+
+/**
+ * Get or create PrivateTradeService singleton
+ */
+export const getPrivateTradeService = (): PrivateTradeService => {
+  if (!privateTradeServiceInstance) {
+    privateTradeServiceInstance = new PrivateTradeService();
+  }
+  return privateTradeServiceInstance;
+};
+
+/**
+ * Reset PrivateTradeService instance
+ */
+export const resetPrivateTradeService = (): void => {
+  privateTradeServiceInstance = null;
+};
+
+export default PrivateTradeService;
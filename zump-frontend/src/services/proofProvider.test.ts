@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+import { getProverConfig } from '../config/contracts';
+import { PROOF_TYPES } from '../utils/zkProof';
+import { MockProofProvider, ProofProgress, ProofRequest } from './proofProvider';
+
+jest.mock('../workers/createProverWorker', () => ({ createProverWorker: jest.fn() }));
+
+const REQUEST: ProofRequest = {
+  proofType: PROOF_TYPES.BUY,
+  publicInputHash: '0x1234',
+  merkleRoot: '0x7007',
+  nullifierHash: '0x4a11',
+  timestamp: 1760000000,
+  witness: { amount: '1000', nullifier: '0x9111' },
+};
+
+describe('MockProofProvider', () => {
+  const provider = new MockProofProvider();
+
+  it('returns the same proof for the same public inputs', async () => {
+    const proof = await provider.prove(REQUEST);
+
+    await expect(provider.prove({ ...REQUEST })).resolves.toEqual(proof);
+    await expect(provider.prove({ ...REQUEST, witness: { amount: '1' } })).resolves.toEqual(proof);
+    expect(proof).toMatchObject({
+      proofType: REQUEST.proofType,
+      publicInputHash: REQUEST.publicInputHash,
+      merkleRoot: REQUEST.merkleRoot,
+      nullifierHash: REQUEST.nullifierHash,
+      timestamp: REQUEST.timestamp,
+    });
+  });
+
+  it('binds the proof points to the public input and nullifier hashes', async () => {
+    const proof = await provider.prove(REQUEST);
+    const otherInput = await provider.prove({ ...REQUEST, publicInputHash: '0x1235' });
+    const otherNullifier = await provider.prove({ ...REQUEST, nullifierHash: '0x4a12' });
+
+    expect(otherInput.proofA).not.toEqual(proof.proofA);
+    expect(otherNullifier.proofC).not.toEqual(proof.proofC);
+    expect(BigInt(proof.proofA.x)).not.toBe(BigInt(0));
+  });
+
+  it('reports progress and refuses an aborted request', async () => {
+    const updates: ProofProgress[] = [];
+    await provider.prove(REQUEST, { onProgress: (update) => updates.push(update) });
+    expect(updates.map(({ stage }) => stage)).toEqual(['proving', 'done']);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(provider.prove(REQUEST, { signal: controller.signal })).rejects.toThrow(
+      'PROOF_CANCELLED'
+    );
+  });
+});
+
+describe('getProverConfig', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('defaults to the mock prover outside production', () => {
+    delete process.env.REACT_APP_PROVER;
+    expect(getProverConfig().backend).toBe('mock');
+
+    process.env.REACT_APP_PROVER = 'worker';
+    expect(getProverConfig().backend).toBe('worker');
+  });
+
+  it('always uses the worker in production builds', () => {
+    process.env = { ...env, NODE_ENV: 'production' };
+    delete process.env.REACT_APP_PROVER;
+    expect(getProverConfig().backend).toBe('worker');
+
+    process.env.REACT_APP_PROVER = 'mock';
+    expect(getProverConfig().backend).toBe('worker');
+  });
+});
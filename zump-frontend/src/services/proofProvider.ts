@@ -0,0 +1,191 @@
+/**
+ * Proof Providers
+ * Turn public inputs and a circuit witness into a ZKProof for
+ * ZKProofVerifier (buy, sell, transfer and launch proofs)
+ * Requirements: 6.1, 6.2
+ */
+
+import { getProverConfig } from '../config/contracts';
+import type {
+  CircuitInputs,
+  CircuitName,
+  ProofStage,
+  ProverWorkerRequest,
+  ProverWorkerResponse,
+} from '../workers/prover.worker';
+import { createProverWorker } from '../workers/createProverWorker';
+import {
+  PROOF_TYPES,
+  ProofPublicInputs,
+  ProofType,
+  ZKProof,
+  createDevelopmentProof,
+  formatGroth16Proof,
+} from '../utils/zkProof';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { CircuitInputs, ProofStage };
+
+export interface ProofRequest extends ProofPublicInputs {
+  /** Private and public circuit inputs, by signal name */
+  witness: CircuitInputs;
+}
+
+export interface ProofProgress {
+  stage: ProofStage;
+  /** 0 to 1 */
+  progress: number;
+}
+
+export interface ProveOptions {
+  onProgress?: (progress: ProofProgress) => void;
+  /** Aborting rejects with PROOF_CANCELLED and stops the prover */
+  signal?: AbortSignal;
+}
+
+export interface ProofProvider {
+  readonly name: string;
+  prove: (request: ProofRequest, options?: ProveOptions) => Promise<ZKProof>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CIRCUITS: Record<ProofType, CircuitName> = {
+  [PROOF_TYPES.BUY]: 'buy',
+  [PROOF_TYPES.SELL]: 'sell',
+  [PROOF_TYPES.TRANSFER]: 'transfer',
+  [PROOF_TYPES.LAUNCH]: 'launch',
+};
+
+const publicInputsOf = ({ witness, ...inputs }: ProofRequest): ProofPublicInputs => inputs;
+
+// ============================================================================
+// Mock Provider
+// ============================================================================
+
+/**
+ * Deterministic placeholder proofs, derived from the public inputs only
+ * They pass the verifier's current non-zero checks and nothing more.
+ */
+export class MockProofProvider implements ProofProvider {
+  readonly name = 'mock';
+
+  async prove(request: ProofRequest, options: ProveOptions = {}): Promise<ZKProof> {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) throw new Error('PROOF_CANCELLED');
+
+    onProgress?.({ stage: 'proving', progress: 0 });
+    const proof = createDevelopmentProof(publicInputsOf(request));
+    onProgress?.({ stage: 'done', progress: 1 });
+    return proof;
+  }
+}
+
+// ============================================================================
+// WebWorker Provider
+// ============================================================================
+
+/**
+ * Groth16 proofs from the circuit artifacts, computed in a WebWorker
+ * Each proof gets its own worker, so cancelling one terminates only that
+ * prover; a synchronous WASM prover cannot be interrupted any other way.
+ */
+export class WorkerProofProvider implements ProofProvider {
+  readonly name = 'worker';
+
+  private circuitsUrl: string;
+
+  constructor(circuitsUrl: string) {
+    this.circuitsUrl = new URL(circuitsUrl, window.location.href).toString();
+  }
+
+  prove(request: ProofRequest, options: ProveOptions = {}): Promise<ZKProof> {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) return Promise.reject(new Error('PROOF_CANCELLED'));
+
+    return new Promise<ZKProof>((resolve, reject) => {
+      const worker = createProverWorker();
+
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+      };
+      function onAbort() {
+        finish();
+        reject(new Error('PROOF_CANCELLED'));
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      worker.onmessage = (event: MessageEvent<ProverWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.({ stage: message.stage, progress: message.progress });
+          return;
+        }
+
+        finish();
+        if (message.type === 'error') {
+          reject(new Error(message.message));
+          return;
+        }
+        try {
+          onProgress?.({ stage: 'formatting', progress: 0.95 });
+          const proof = formatGroth16Proof(publicInputsOf(request), message.proof, message.publicSignals);
+          onProgress?.({ stage: 'done', progress: 1 });
+          resolve(proof);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'PROVER_UNAVAILABLE'));
+      };
+
+      const message: ProverWorkerRequest = {
+        type: 'prove',
+        circuit: CIRCUITS[request.proofType],
+        inputs: request.witness,
+        circuitsUrl: this.circuitsUrl,
+      };
+      worker.postMessage(message);
+    });
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let proofProviderInstance: ProofProvider | null = null;
+
+/**
+ * Get or create the configured ProofProvider (REACT_APP_PROVER)
+ */
+export const getProofProvider = (): ProofProvider => {
+  if (!proofProviderInstance) {
+    const { backend, circuitsUrl } = getProverConfig();
+    proofProviderInstance =
+      backend === 'worker' ? new WorkerProofProvider(circuitsUrl) : new MockProofProvider();
+  }
+  return proofProviderInstance;
+};
+
+/**
+ * Use a specific provider, e.g. the mock provider in tests
+ */
+export const setProofProvider = (provider: ProofProvider): void => {
+  proofProviderInstance = provider;
+};
+
+/**
+ * Reset ProofProvider instance
+ */
+export const resetProofProvider = (): void => {
+  proofProviderInstance = null;
+};
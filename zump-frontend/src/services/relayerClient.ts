@@ -0,0 +1,249 @@
+/**
+ * Relayer Client
+ * Quotes and submits private buys to the Zump relayer, which sends them from
+ * its PrivacyRelayer-authorized account so the user's wallet never appears
+ * on-chain. The buy is paid from a DarkPoolMixer note.
+ * Requirements: 6.1, 6.4
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { ec, hash, num, shortString, stark } from 'starknet';
+import { getRelayerUrl } from '../config/contracts';
+import { ZKProof, compileZKProof } from '../utils/zkProof';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RelayerQuote {
+  relayer: string;
+  /** PumpFactory launch of the pool, signed into the request */
+  launchId: bigint;
+  pool: string;
+  quoteToken: string;
+  amountTokens: bigint;
+  /** Curve cost plus protocol and creator fees, what the pool charges the relayer */
+  cost: bigint;
+  fee: bigint;
+  feeBps: bigint;
+  /** Unix seconds */
+  validUntil: number;
+}
+
+/**
+ * Mixer note the relayer withdraws to itself to pay for the buy
+ */
+export interface RelayerFunding {
+  token: string;
+  amount: bigint;
+  nullifier: string;
+  commitment: string;
+  leafIndex: bigint;
+  merkleProof: string[];
+  merkleRoot: string;
+}
+
+export interface RelayedBuyParams {
+  /** From the quote; the relayer checks the factory lists the pool under it */
+  launchId: bigint;
+  pool: string;
+  amountTokens: bigint;
+  commitment: string;
+  proof: ZKProof;
+  funding: RelayerFunding;
+  /** Receives the tokens and the unspent part of the note */
+  recipient: string;
+  maxCost: bigint;
+  maxFee: bigint;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+export type RelayJobStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface RelayJob {
+  id: string;
+  status: RelayJobStatus;
+  txHash?: string;
+  error?: string;
+}
+
+export interface WaitForJobOptions {
+  onUpdate?: (job: RelayJob) => void;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Domain of the signed request hash; scripts/relayer/request.ts uses the same
+ */
+const REQUEST_DOMAIN = shortString.encodeShortString('ZUMP_RELAY_BUY');
+
+const DEFAULT_POLL_INTERVAL = 3000;
+const DEFAULT_JOB_TIMEOUT = 5 * 60 * 1000;
+
+const felt = (value: string | number | bigint): string => num.toHex(BigInt(value));
+
+// ============================================================================
+// Request Signing
+// ============================================================================
+
+/**
+ * Hash the relayer verifies the request signature against
+ * Field order must match hashPrivateBuyRequest in scripts/relayer/request.ts.
+ */
+export const hashRelayRequest = (params: RelayedBuyParams, signerKey: string): string => {
+  const { funding } = params;
+  return hash.computePoseidonHashOnElements([
+    REQUEST_DOMAIN,
+    felt(params.launchId),
+    felt(params.pool),
+    felt(params.amountTokens),
+    felt(params.commitment),
+    ...compileZKProof(params.proof).map(felt),
+    felt(funding.token),
+    felt(funding.amount),
+    felt(funding.nullifier),
+    felt(funding.commitment),
+    felt(funding.leafIndex),
+    hash.computePoseidonHashOnElements(funding.merkleProof.map(felt)),
+    felt(funding.merkleRoot),
+    felt(params.recipient),
+    felt(params.maxCost),
+    felt(params.maxFee),
+    felt(params.expiresAt),
+    signerKey,
+  ]);
+};
+
+// ============================================================================
+// Relayer Client Class
+// ============================================================================
+
+export class RelayerClient {
+  private http: AxiosInstance;
+
+  constructor(baseUrl: string) {
+    this.http = axios.create({ baseURL: baseUrl.replace(/\/$/, ''), timeout: 30000 });
+    // The relayer answers errors with { error: CODE }
+    this.http.interceptors.response.use(
+      (response) => response,
+      (error) =>
+        Promise.reject(new Error(error.response?.data?.error || 'RELAYER_UNAVAILABLE'))
+    );
+  }
+
+  async getQuote(pool: string, amountTokens: bigint): Promise<RelayerQuote> {
+    const { data } = await this.http.get('/quote', {
+      params: { pool, amount: amountTokens.toString() },
+    });
+    return {
+      relayer: data.relayer,
+      launchId: BigInt(data.launchId),
+      pool: data.pool,
+      quoteToken: data.quoteToken,
+      amountTokens: BigInt(data.amountTokens),
+      cost: BigInt(data.cost),
+      fee: BigInt(data.fee),
+      feeBps: BigInt(data.feeBps),
+      validUntil: data.validUntil,
+    };
+  }
+
+  /**
+   * Sign the request with a one-time key and hand it to the relayer
+   * The key only proves the request was not altered in transit; it is not
+   * linked to the user's wallet.
+   */
+  async submit(params: RelayedBuyParams): Promise<RelayJob> {
+    const privateKey = stark.randomAddress();
+    const signer = stark.getFullPublicKey(privateKey);
+    const signerKey = felt(`0x${signer.slice(4, 68)}`);
+    const signature = ec.starkCurve.sign(hashRelayRequest(params, signerKey), privateKey);
+
+    const { proof, funding } = params;
+    const { data } = await this.http.post('/relay', {
+      request: {
+        launchId: params.launchId.toString(),
+        pool: params.pool,
+        amountTokens: params.amountTokens.toString(),
+        commitment: params.commitment,
+        proof: { ...proof },
+        funding: {
+          ...funding,
+          amount: funding.amount.toString(),
+          leafIndex: funding.leafIndex.toString(),
+        },
+        recipient: params.recipient,
+        maxCost: params.maxCost.toString(),
+        maxFee: params.maxFee.toString(),
+        expiresAt: params.expiresAt,
+        signer,
+      },
+      signature: [felt(signature.r), felt(signature.s)],
+    });
+    return data as RelayJob;
+  }
+
+  async getStatus(id: string): Promise<RelayJob> {
+    const { data } = await this.http.get(`/status/${id}`);
+    return data as RelayJob;
+  }
+
+  /**
+   * Poll until the job is confirmed or failed
+   *
+   * @throws Error when the relayer reports a failure or the job times out
+   */
+  async waitForJob(id: string, options: WaitForJobOptions = {}): Promise<RelayJob> {
+    const {
+      onUpdate,
+      intervalMs = DEFAULT_POLL_INTERVAL,
+      timeoutMs = DEFAULT_JOB_TIMEOUT,
+    } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      // eslint-disable-next-line no-await-in-loop
+      const job = await this.getStatus(id);
+      onUpdate?.(job);
+      if (job.status === 'confirmed') return job;
+      if (job.status === 'failed') throw new Error(job.error || 'RELAY_FAILED');
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+    throw new Error('RELAY_TIMEOUT');
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let relayerClientInstance: RelayerClient | null = null;
+
+/**
+ * Get or create RelayerClient singleton
+ * Null when REACT_APP_RELAYER_URL is not set.
+ */
+export const getRelayerClient = (): RelayerClient | null => {
+  const url = getRelayerUrl();
+  if (!url) return null;
+  if (!relayerClientInstance) {
+    relayerClientInstance = new RelayerClient(url);
+  }
+  return relayerClientInstance;
+};
+
+/**
+ * Reset RelayerClient instance
+ */
+export const resetRelayerClient = (): void => {
+  relayerClientInstance = null;
+};
+
+export default RelayerClient;
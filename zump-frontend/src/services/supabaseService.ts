@@ -338,9 +338,9 @@ export class SupabaseService {
       .single();
 
     if (error) {
-      // Ignore duplicate tx_hash errors (already cached)
+      // Ignore duplicate (tx_hash, event_index) errors (already cached)
       if (error.code === '23505') {
-        const existing = await this.getTradeEventByTxHash(event.tx_hash);
+        const existing = await this.getTradeEventByTxHash(event.tx_hash, event.event_index);
         if (existing) return existing;
       }
       throw new SupabaseServiceError(
@@ -355,14 +355,16 @@ export class SupabaseService {
 
   /**
    * Get trade event by transaction hash
+   * A multicall can hold several trades; eventIndex picks one (default: the first)
    */
-  async getTradeEventByTxHash(txHash: string): Promise<TradeEvent | null> {
+  async getTradeEventByTxHash(txHash: string, eventIndex = 0): Promise<TradeEvent | null> {
     const client = this.getClient();
 
     const { data, error } = await client
       .from(SUPABASE_CONFIG.tables.tradeEvents)
       .select('*')
       .eq('tx_hash', txHash)
+      .eq('event_index', eventIndex)
       .single();
 
     if (error) {
@@ -442,7 +444,7 @@ export class SupabaseService {
 
     const { data, error } = await client
       .from(SUPABASE_CONFIG.tables.tradeEvents)
-      .upsert(events, { onConflict: 'tx_hash', ignoreDuplicates: true })
+      .upsert(events, { onConflict: 'tx_hash,event_index', ignoreDuplicates: true })
       .select();
 
     if (error) {
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+import { CurveFees, CurveQuoteState, quoteBuy, quoteSell } from '../utils/curveQuote';
+import { SlippageExceededError } from '../utils/tradingErrors';
+import {
+  assertBuyWithinBound,
+  assertSellWithinBound,
+  buildBuyCalls,
+  buildSellCalls,
+} from './tradeBuilder';
+
+const POOL = '0xb0c';
+const QUOTE_TOKEN = '0x57a4';
+const FEES: CurveFees = { feeBps: BigInt(30), creatorFeeBps: BigInt(100) };
+const ONE = BigInt(1);
+
+const state: CurveQuoteState = {
+  basePrice: BigInt('1000000000000000'),
+  slope: BigInt('100000000000000'),
+  tokensSold: BigInt(500),
+  reserveBalance: BigInt('1000000000000000000000'),
+};
+
+const buyQuote = quoteBuy(state, FEES, BigInt(100));
+const sellQuote = quoteSell(state, FEES, BigInt(100));
+
+describe('assertBuyWithinBound', () => {
+  it('accepts a cost up to maxCost, or any cost without a bound', () => {
+    expect(() => assertBuyWithinBound(buyQuote)).not.toThrow();
+    expect(() => assertBuyWithinBound(buyQuote, buyQuote.totalCost)).not.toThrow();
+  });
+
+  it('rejects a cost one above maxCost', () => {
+    const bound = buyQuote.totalCost - ONE;
+    expect(() => assertBuyWithinBound(buyQuote, bound)).toThrow(SlippageExceededError);
+    expect(() => assertBuyWithinBound(buyQuote, bound)).toThrow(
+      expect.objectContaining({
+        code: 'SLIPPAGE_EXCEEDED',
+        details: { side: 'buy', quoted: buyQuote.totalCost, bound },
+      })
+    );
+  });
+});
+
+describe('assertSellWithinBound', () => {
+  it('accepts a return down to minReturn, or any return without a bound', () => {
+    expect(() => assertSellWithinBound(sellQuote)).not.toThrow();
+    expect(() => assertSellWithinBound(sellQuote, sellQuote.netReturn)).not.toThrow();
+  });
+
+  it('rejects a return one below minReturn', () => {
+    const bound = sellQuote.netReturn + ONE;
+    expect(() => assertSellWithinBound(sellQuote, bound)).toThrow(
+      expect.objectContaining({
+        code: 'SLIPPAGE_EXCEEDED',
+        details: { side: 'sell', quoted: sellQuote.netReturn, bound },
+      })
+    );
+  });
+});
+
+describe('buildBuyCalls', () => {
+  it('approves the pool for exactly the amount given, then buys', () => {
+    const calls = buildBuyCalls({
+      poolAddress: POOL,
+      quoteToken: QUOTE_TOKEN,
+      amountTokens: BigInt(100),
+      approveAmount: buyQuote.totalCost,
+    });
+
+    expect(calls).toEqual([
+      {
+        contractAddress: QUOTE_TOKEN,
+        entrypoint: 'approve',
+        calldata: [BigInt(POOL).toString(), buyQuote.totalCost.toString(), '0'],
+      },
+      { contractAddress: POOL, entrypoint: 'buy', calldata: ['100', '0'] },
+    ]);
+  });
+
+  it('splits amounts above 2^128 into u256 low and high words', () => {
+    const amount = (ONE << BigInt(128)) + BigInt(5);
+    const [approve, buy] = buildBuyCalls({
+      poolAddress: POOL,
+      quoteToken: QUOTE_TOKEN,
+      amountTokens: amount,
+      approveAmount: amount,
+    });
+
+    expect(approve.calldata).toEqual([BigInt(POOL).toString(), '5', '1']);
+    expect(buy.calldata).toEqual(['5', '1']);
+  });
+});
+
+describe('buildSellCalls', () => {
+  it('sells without an approval', () => {
+    expect(buildSellCalls({ poolAddress: POOL, amountTokens: BigInt(100) })).toEqual([
+      { contractAddress: POOL, entrypoint: 'sell', calldata: ['100', '0'] },
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Trade Builder
+ * Builds BondingCurvePool trade multicalls and enforces slippage bounds
+ * Requirements: 5.2, 5.3, 6.1, 6.2, 6.3
+ */
+
+import { Call, CallData, cairo } from 'starknet';
+import { BuyQuote, SellQuote } from '../utils/curveQuote';
+import { SlippageExceededError } from '../utils/tradingErrors';
+import { ZKProof, compileZKProof } from '../utils/zkProof';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BuyCallsParams {
+  poolAddress: string;
+  quoteToken: string;
+  amountTokens: bigint;
+  /** Allowance granted to the pool: the quoted total cost, once it passed the bound */
+  approveAmount: bigint;
+}
+
+export interface SellCallsParams {
+  poolAddress: string;
+  amountTokens: bigint;
+}
+
+export interface PrivateBuyCallsParams extends BuyCallsParams {
+  proof: ZKProof;
+  /** Recorded by the pool and emitted in PrivateBuy instead of the buyer */
+  commitment: string;
+}
+
+export interface PrivateSellCallsParams extends SellCallsParams {
+  proof: ZKProof;
+  /** Spent in NullifierRegistry; a second sell with it reverts */
+  nullifier: string;
+}
+
+// ============================================================================
+// Slippage Checks
+// ============================================================================
+
+/**
+ * Abort a buy whose fresh quote costs more than maxCost
+ */
+export const assertBuyWithinBound = (quote: BuyQuote, maxCost?: bigint): void => {
+  if (maxCost !== undefined && quote.totalCost > maxCost) {
+    throw new SlippageExceededError({
+      side: 'buy',
+      quoted: quote.totalCost,
+      bound: maxCost,
+    });
+  }
+};
+
+/**
+ * Abort a sell whose fresh quote returns less than minReturn
+ */
+export const assertSellWithinBound = (quote: SellQuote, minReturn?: bigint): void => {
+  if (minReturn !== undefined && quote.netReturn < minReturn) {
+    throw new SlippageExceededError({
+      side: 'sell',
+      quoted: quote.netReturn,
+      bound: minReturn,
+    });
+  }
+};
+
+// ============================================================================
+// Call Builders
+// ============================================================================
+
+/**
+ * ERC20 approve call
+ */
+export const buildApproveCall = (tokenAddress: string, spender: string, amount: bigint): Call => ({
+  contractAddress: tokenAddress,
+  entrypoint: 'approve',
+  calldata: CallData.compile({
+    spender,
+    amount: cairo.uint256(amount),
+  }),
+});
+
+/**
+ * approve(quote token → pool) + BondingCurvePool.buy, for one account.execute
+ * The pool pulls the curve cost plus fees with transfer_from. Approving exactly
+ * the quoted total leaves no allowance behind, and a buy whose price moved up
+ * before inclusion reverts instead of spending more.
+ */
+export const buildBuyCalls = (params: BuyCallsParams): Call[] => [
+  buildApproveCall(params.quoteToken, params.poolAddress, params.approveAmount),
+  {
+    contractAddress: params.poolAddress,
+    entrypoint: 'buy',
+    calldata: CallData.compile({
+      amount_tokens: cairo.uint256(params.amountTokens),
+    }),
+  },
+];
+
+/**
+ * BondingCurvePool.sell (no approval: the pool burns as the token's minter)
+ */
+export const buildSellCalls = (params: SellCallsParams): Call[] => [
+  {
+    contractAddress: params.poolAddress,
+    entrypoint: 'sell',
+    calldata: CallData.compile({
+      amount_tokens: cairo.uint256(params.amountTokens),
+    }),
+  },
+];
+
+/**
+ * approve(quote token → pool) + BondingCurvePool.private_buy
+ * The pool pulls the cost and fee from the caller exactly as buy does.
+ */
+export const buildPrivateBuyCalls = (params: PrivateBuyCallsParams): Call[] => [
+  buildApproveCall(params.quoteToken, params.poolAddress, params.approveAmount),
+  {
+    contractAddress: params.poolAddress,
+    entrypoint: 'private_buy',
+    calldata: [
+      ...CallData.compile({ amount_tokens: cairo.uint256(params.amountTokens) }),
+      ...compileZKProof(params.proof),
+      ...CallData.compile({ commitment: params.commitment }),
+    ],
+  },
+];
+
+/**
+ * BondingCurvePool.private_sell (burns from the caller like sell)
+ */
+export const buildPrivateSellCalls = (params: PrivateSellCallsParams): Call[] => [
+  {
+    contractAddress: params.poolAddress,
+    entrypoint: 'private_sell',
+    calldata: [
+      ...CallData.compile({ amount_tokens: cairo.uint256(params.amountTokens) }),
+      ...compileZKProof(params.proof),
+      ...CallData.compile({ nullifier: params.nullifier }),
+    ],
+  },
+];
+
+export default {
+  assertBuyWithinBound,
+  assertSellWithinBound,
+  buildApproveCall,
+  buildBuyCalls,
+  buildSellCalls,
+  buildPrivateBuyCalls,
+  buildPrivateSellCalls,
+};
@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+import { TradeType } from '../@types/supabase';
+import { CandleTrade, applyPriceTick, buildCandles, getBucketStart } from './candles';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2025, 0, 1);
+
+const trade = (
+  offset: number,
+  type: TradeType,
+  price: number,
+  costOrReturn: number,
+  amountTokens = 1
+): CandleTrade => ({
+  timestamp: new Date(START + offset),
+  type,
+  price: BigInt(price),
+  amountTokens: BigInt(amountTokens),
+  costOrReturn: BigInt(costOrReturn),
+});
+
+describe('buildCandles', () => {
+  it('buckets the same trades by each interval', () => {
+    const trades = [
+      trade(30 * 1000, 'buy', 100, 10),
+      trade(4 * MINUTE, 'buy', 110, 20),
+      trade(7 * MINUTE, 'sell', 105, 5),
+      trade(70 * MINUTE, 'buy', 120, 30),
+    ];
+
+    expect(buildCandles(trades, '1m').map(({ time }) => time)).toEqual([
+      START,
+      START + 4 * MINUTE,
+      START + 7 * MINUTE,
+      START + 70 * MINUTE,
+    ]);
+    expect(buildCandles(trades, '5m').map(({ time, trades: count }) => [time, count])).toEqual([
+      [START, 2],
+      [START + 5 * MINUTE, 1],
+      [START + 70 * MINUTE, 1],
+    ]);
+    expect(buildCandles(trades, '1h').map(({ time, trades: count }) => [time, count])).toEqual([
+      [START, 3],
+      [START + HOUR, 1],
+    ]);
+    expect(buildCandles(trades, '1d')).toHaveLength(1);
+    expect(getBucketStart(START + 70 * MINUTE + 59 * 1000, '15m')).toBe(START + 60 * MINUTE);
+  });
+
+  it('sorts trades and keeps the input order of ties', () => {
+    const [candle] = buildCandles(
+      [trade(50 * 1000, 'buy', 130, 1), trade(10 * 1000, 'buy', 100, 1), trade(50 * 1000, 'sell', 90, 1)],
+      '1m'
+    );
+
+    expect(candle.open).toBe(BigInt(100));
+    expect(candle.close).toBe(BigInt(90));
+    expect(candle.high).toBe(BigInt(130));
+    expect(candle.low).toBe(BigInt(90));
+  });
+
+  it('opens each candle at the previous close', () => {
+    const [first, second] = buildCandles(
+      [trade(0, 'buy', 100, 1), trade(20 * 1000, 'buy', 110, 1), trade(MINUTE, 'sell', 104, 1)],
+      '1m'
+    );
+
+    expect(first.open).toBe(BigInt(100));
+    expect(first.close).toBe(BigInt(110));
+    expect(second).toMatchObject({
+      open: BigInt(110),
+      high: BigInt(110),
+      low: BigInt(104),
+      close: BigInt(104),
+    });
+  });
+
+  it('skips empty buckets and bridges the gap from the last close', () => {
+    const candles = buildCandles([trade(0, 'buy', 100, 1), trade(10 * MINUTE, 'buy', 150, 1)], '1m');
+
+    expect(candles.map(({ time }) => time)).toEqual([START, START + 10 * MINUTE]);
+    expect(candles[1].open).toBe(BigInt(100));
+    expect(candles[1].low).toBe(BigInt(100));
+    expect(buildCandles([], '1h')).toEqual([]);
+  });
+
+  it('splits quote volume between buys and sells', () => {
+    const [candle] = buildCandles(
+      [trade(0, 'buy', 100, 1000, 10), trade(MINUTE, 'sell', 95, 400, 4), trade(2 * MINUTE, 'buy', 98, 250, 3)],
+      '5m'
+    );
+
+    expect(candle.buyVolume).toBe(BigInt(1250));
+    expect(candle.sellVolume).toBe(BigInt(400));
+    expect(candle.volume).toBe(candle.buyVolume + candle.sellVolume);
+    expect(candle.baseVolume).toBe(BigInt(17));
+    expect(candle.trades).toBe(3);
+  });
+
+  it('matches the candle applyPriceTick opens for the same bucket', () => {
+    const built = buildCandles([trade(0, 'buy', 100, 1)], '1m');
+    const ticked = applyPriceTick(built, '1m', { timestamp: new Date(START + MINUTE), price: BigInt(120) });
+    const rebuilt = buildCandles([trade(0, 'buy', 100, 1), trade(MINUTE, 'buy', 120, 1)], '1m');
+
+    expect([rebuilt[1].open, rebuilt[1].high, rebuilt[1].low, rebuilt[1].close]).toEqual([
+      ticked[1].open,
+      ticked[1].high,
+      ticked[1].low,
+      ticked[1].close,
+    ]);
+  });
+});
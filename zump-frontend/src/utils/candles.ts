@@ -0,0 +1,197 @@
+/**
+ * OHLCV Candles
+ * Pure aggregation of bonding curve trades into fixed-interval candles
+ * Requirements: 10.3
+ */
+
+import { TradeType } from '../@types/supabase';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+/**
+ * Trade fields a candle needs (ParsedTradeEvent satisfies this)
+ */
+export interface CandleTrade {
+  timestamp: Date;
+  type: TradeType;
+  /** Price per token, 18-decimal fixed point */
+  price: bigint;
+  amountTokens: bigint;
+  /** Quote tokens paid (buy) or received (sell) */
+  costOrReturn: bigint;
+}
+
+/**
+ * Latest pool price (usePricePolling) merged into the last candle
+ */
+export interface PriceTick {
+  timestamp: Date;
+  price: bigint;
+}
+
+export interface Candle {
+  /** Bucket start, ms since epoch */
+  time: number;
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  /** Quote volume */
+  volume: bigint;
+  buyVolume: bigint;
+  sellVolume: bigint;
+  /** Token volume */
+  baseVolume: bigint;
+  trades: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const ZERO = BigInt(0);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Start of the bucket containing a timestamp (buckets are aligned to UTC epoch)
+ */
+export const getBucketStart = (timestamp: number, interval: CandleInterval): number => {
+  const size = CANDLE_INTERVALS[interval];
+  return Math.floor(timestamp / size) * size;
+};
+
+const flatCandle = (time: number, price: bigint): Candle => ({
+  time,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: ZERO,
+  buyVolume: ZERO,
+  sellVolume: ZERO,
+  baseVolume: ZERO,
+  trades: 0,
+});
+
+const maxBigInt = (a: bigint, b: bigint): bigint => (a > b ? a : b);
+
+const minBigInt = (a: bigint, b: bigint): bigint => (a < b ? a : b);
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Aggregate trades into candles, oldest first
+ * Trades may arrive in any order; ties keep their input order. Each candle
+ * opens at the previous candle's close, as applyPriceTick does, so the chart
+ * has no jumps between bodies. Buckets without trades produce no candle.
+ *
+ * @param trades - Trades to aggregate
+ * @param interval - Candle size
+ * @returns Candles sorted by time
+ */
+export const buildCandles = (trades: CandleTrade[], interval: CandleInterval): Candle[] => {
+  const sorted = trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => a.trade.timestamp.getTime() - b.trade.timestamp.getTime() || a.index - b.index)
+    .map(({ trade }) => trade);
+
+  const candles: Candle[] = [];
+
+  sorted.forEach((trade) => {
+    const time = getBucketStart(trade.timestamp.getTime(), interval);
+    let last = candles[candles.length - 1];
+
+    if (!last || last.time !== time) {
+      last = flatCandle(time, last ? last.close : trade.price);
+      candles.push(last);
+    }
+
+    last.high = maxBigInt(last.high, trade.price);
+    last.low = minBigInt(last.low, trade.price);
+    last.close = trade.price;
+    last.volume += trade.costOrReturn;
+    last.baseVolume += trade.amountTokens;
+    last.trades += 1;
+    if (trade.type === 'buy') {
+      last.buyVolume += trade.costOrReturn;
+    } else {
+      last.sellVolume += trade.costOrReturn;
+    }
+  });
+
+  return candles;
+};
+
+/**
+ * Merge the latest pool price into a candle series without mutating it
+ * A tick inside the last bucket moves its close (and high/low); a later tick
+ * opens a new zero-volume candle at the previous close. Ticks older than the
+ * last candle are ignored.
+ *
+ * @param candles - Series from buildCandles
+ * @param interval - Candle size the series was built with
+ * @param tick - Latest price
+ * @returns Updated series
+ */
+export const applyPriceTick = (
+  candles: Candle[],
+  interval: CandleInterval,
+  tick: PriceTick
+): Candle[] => {
+  const time = getBucketStart(tick.timestamp.getTime(), interval);
+  const last = candles[candles.length - 1];
+
+  if (!last) {
+    return [flatCandle(time, tick.price)];
+  }
+  if (time < last.time) {
+    return candles;
+  }
+  if (time === last.time) {
+    return [
+      ...candles.slice(0, -1),
+      {
+        ...last,
+        high: maxBigInt(last.high, tick.price),
+        low: minBigInt(last.low, tick.price),
+        close: tick.price,
+      },
+    ];
+  }
+
+  const opened = flatCandle(time, last.close);
+  return [
+    ...candles,
+    {
+      ...opened,
+      high: maxBigInt(opened.high, tick.price),
+      low: minBigInt(opened.low, tick.price),
+      close: tick.price,
+    },
+  ];
+};
+
+export default {
+  CANDLE_INTERVALS,
+  getBucketStart,
+  buildCandles,
+  applyPriceTick,
+};
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  CommitmentTreeMirror,
+  EMPTY_ROOT,
+  TREE_DEPTH,
+  computeInsertionPath,
+  computeRootFromPath,
+} from './commitmentTree';
+
+// Same vectors as commitment_tree_vector_tests in tests/test_integration.cairo
+const LEAVES = ['0x101', '0x202', '0x303', '0x404', '0x505'];
+
+const ROOTS = [
+  '0x1372597f5263d9f9f3126be7a749bdb611fe7ec9bc0e565a541051257a8e785',
+  '0x599614aa5f7d17e5655d4d12bb00d0e7bb9ff90a5ff1facef433749f3b53a68',
+  '0x2816a3a6312a8311591733af91803a542196177b419628cffa1a7541c5cab54',
+  '0x4dc3b660c66481727bb0a24e2274251fb718c1415c9e5b7785f1953d83fd78b',
+  '0x6032a961711c2dfa910b82e244bea1ea753db137785cdb75de163628f4b2834',
+];
+
+const LEAF_3_PATH = [
+  '0x303',
+  '0x7d595c5e2b69aee90c27f52d20f8bf020583068159ee4d69bdabef3fd90ae50',
+  '0x7a4593a109e9577576dbbc919cc2f4453ed2c32cec8f34322906fda98a8b687',
+  '0x1fa0a8778a7c9d89e54537c6ad22f5f7229fb86aaaebbd3db5873a1e6193f6',
+  '0x47968b6ceab867bd0a474d0f63742404757296926ced1f3378dc0083bb847bb',
+  '0x5eb38e04228e2f215c93e78e1afc152dfb7b14d9123c4ace17b6e3084437c2d',
+  '0x40d2f18110fc1334d48b6a3a545e02552a7ec829ad5082947c56ad71eae50f7',
+  '0x379fbcc3187d9d20598823dfbbd93e4f6ac254ab790fd128031f76f657bd89d',
+  '0x178946a3f8a3a19559518add69c4013c32d7ba6afc9d7a4f165dbb23266828e',
+  '0x645f5ec317c844faf10abe3e769bc8a80919d40cc628a88bcdc3753da21d91f',
+  '0xd8c047c110d96a3c2511706e92f1fec92df0876e3cb39a674c99711064c4dd',
+  '0x6b7e25433d33ad07d1862e6ffc87fa9653381602b3ca60f5c08a2f38ebeb31d',
+  '0x4a53aaf4c84cc41d5f6a507f813ea75d56d03603fa47517693ec90da06d1378',
+  '0x78d4154f579bea9b0895e958d6b2277f6186ab2f66bb1f5f1d29698eccc2012',
+  '0x1f089cec560dd65232edec3422a2da17a16cbc5e980672e45bbb7b0219c3213',
+  '0x495153238f90f768eba8502653f6f09f53fe04655f79ad6c802928949943c90',
+  '0x283b2e366b647d6809ec81f280204cf7117d5ab0943205888a543e5bab9acc9',
+  '0x60fef412665b6ba04a914a7603b12e8e96a8377cac0c7f387ecfa6202480b86',
+  '0x19ac74949dd144f4d19388515869065b92242a07ae26088df42cff4a90b019b',
+  '0x7c309105144d080b5528f09dbb3abac9f6b0482808a659b3ca58ebe3b9081ad',
+];
+
+const felt = (value: string) => BigInt(value);
+
+describe('commitment tree vectors', () => {
+  it('starts from the constructor root', () => {
+    expect(felt(EMPTY_ROOT)).toBe(felt('0x177702db477b71bf44db2c7692cf8303c0548e30fd8fcc2473f99779e63369c'));
+    expect(new CommitmentTreeMirror().getRoot()).toBe(EMPTY_ROOT);
+  });
+
+  it('records the contract root after every insert', () => {
+    const tree = new CommitmentTreeMirror();
+
+    LEAVES.forEach((leaf, index) => {
+      expect(tree.insert(leaf)).toBe(index);
+      expect(felt(tree.getRoot())).toBe(felt(ROOTS[index]));
+    });
+    expect(ROOTS.map((_, index) => felt(tree.getRootAt(index)))).toEqual(ROOTS.map(felt));
+  });
+
+  it('builds the leaf 3 path the contract verifies against ROOT_3', () => {
+    const tree = new CommitmentTreeMirror(LEAVES);
+    const path = tree.getPath(3);
+
+    expect(path).toHaveLength(TREE_DEPTH);
+    expect(path.map(felt)).toEqual(LEAF_3_PATH.map(felt));
+    expect(path).toEqual(computeInsertionPath('0x404', BigInt(3), '0x303'));
+    expect(felt(computeRootFromPath('0x404', BigInt(3), path))).toBe(felt(ROOTS[3]));
+  });
+
+  it('forgets truncated leaves and their roots', () => {
+    const tree = new CommitmentTreeMirror(LEAVES);
+    tree.truncate(3);
+
+    expect(tree.size).toBe(3);
+    expect(tree.indexOf('0x404')).toBe(-1);
+    expect(felt(tree.getRoot())).toBe(felt(ROOTS[2]));
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Commitment Tree
+ * Poseidon Merkle tree that reproduces CommitmentTree's zero values,
+ * insertion hashing and root history, so paths can be built off-chain
+ * Requirements: 7.1, 7.2
+ */
+
+import { hash, num } from 'starknet';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * CommitmentTree::TREE_DEPTH (2^20 leaves)
+ */
+export const TREE_DEPTH = 20;
+
+/**
+ * zero_values[level]; level TREE_DEPTH is the leaf level, level 0 the root
+ */
+export const ZERO_VALUES: string[] = (() => {
+  const zeros: string[] = new Array(TREE_DEPTH + 1);
+  zeros[TREE_DEPTH] = '0x0';
+  for (let level = TREE_DEPTH - 1; level >= 0; level -= 1) {
+    zeros[level] = hash.computePoseidonHashOnElements([zeros[level + 1], zeros[level + 1]]);
+  }
+  return zeros;
+})();
+
+/**
+ * Root of the empty tree, the constructor's initial current_root
+ */
+export const EMPTY_ROOT = ZERO_VALUES[0];
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * poseidon_hash_span([left, right]), as used at every tree level
+ */
+export const hashPair = (left: string, right: string): string =>
+  hash.computePoseidonHashOnElements([left, right]);
+
+/**
+ * Fold a path the way CommitmentTree.verify_proof does
+ *
+ * @param leaf - Leaf value
+ * @param leafIndex - Position of the leaf
+ * @param path - Siblings from the leaf level upwards
+ * @returns The root the path proves membership in
+ */
+export const computeRootFromPath = (
+  leaf: string,
+  leafIndex: bigint,
+  path: string[]
+): string => {
+  let current = num.toHex(leaf);
+  let index = leafIndex;
+
+  path.forEach((sibling) => {
+    current = index % BigInt(2) === BigInt(1) ? hashPair(sibling, current) : hashPair(current, sibling);
+    index /= BigInt(2);
+  });
+
+  return current;
+};
+
+/**
+ * Path that reproduces the root CommitmentTree recorded when a leaf was inserted
+ *
+ * update_tree only looks at the leaf's left neighbour, the node it is
+ * building and zero values. get_proof reuses a single filled subtree per
+ * level, so its paths do not verify, but this one verifies against the
+ * insertion root, which stays in the contract's known-root history.
+ *
+ * @param leafIndex - Position the leaf was inserted at
+ * @param leftLeaf - Leaf at leafIndex - 1, required when leafIndex is odd
+ * @returns Siblings from the leaf level upwards (TREE_DEPTH entries)
+ */
+export const computeInsertionPath = (
+  leaf: string,
+  leafIndex: bigint,
+  leftLeaf?: string
+): string[] => {
+  const isOdd = leafIndex % BigInt(2) === BigInt(1);
+  if (isOdd && leftLeaf === undefined) {
+    throw new Error('Left neighbour leaf is required for an odd leaf index');
+  }
+
+  // The leaf count when update_tree ran, after next_leaf_index was bumped
+  const leafCount = leafIndex + BigInt(1);
+  const path: string[] = [];
+  let current = num.toHex(leaf);
+  let index = leafIndex;
+
+  for (let level = TREE_DEPTH - 1; level >= 0; level -= 1) {
+    const isRight = index % BigInt(2) === BigInt(1);
+    let sibling: string;
+
+    if (level === TREE_DEPTH - 1) {
+      // Leaf level: the real left neighbour, or an empty right slot
+      sibling = isRight ? num.toHex(leftLeaf as string) : ZERO_VALUES[TREE_DEPTH];
+    } else if (isRight || index + BigInt(1) < leafCount) {
+      // filled_subtrees[level + 1] was just overwritten with the node itself
+      sibling = current;
+    } else {
+      sibling = ZERO_VALUES[level + 1];
+    }
+
+    path.push(sibling);
+    current = isRight ? hashPair(sibling, current) : hashPair(current, sibling);
+    index /= BigInt(2);
+  }
+
+  return path;
+};
+
+// ============================================================================
+// Tree Mirror
+// ============================================================================
+
+/**
+ * Leaf-by-leaf mirror of CommitmentTree
+ * The contract's root after n leaves is the insertion root of leaf n - 1, so
+ * the leaves alone determine every root it has recorded.
+ */
+export class CommitmentTreeMirror {
+  private leaves: string[];
+
+  private indexes = new Map<string, number>();
+
+  constructor(leaves: string[] = []) {
+    this.leaves = [];
+    leaves.forEach((leaf) => this.insert(leaf));
+  }
+
+  get size(): number {
+    return this.leaves.length;
+  }
+
+  getLeaves(): string[] {
+    return [...this.leaves];
+  }
+
+  getLeaf(leafIndex: number): string | undefined {
+    return this.leaves[leafIndex];
+  }
+
+  /**
+   * Position of a leaf, or -1 when it is not in the tree
+   */
+  indexOf(leaf: string): number {
+    return this.indexes.get(BigInt(leaf).toString(16)) ?? -1;
+  }
+
+  /**
+   * Append a leaf, like insert_commitment
+   *
+   * @returns The new leaf's index
+   */
+  insert(leaf: string): number {
+    if (BigInt(leaf) === BigInt(0)) {
+      throw new Error('INVALID_COMMITMENT');
+    }
+    if (this.leaves.length >= 2 ** TREE_DEPTH) {
+      throw new Error('TREE_FULL');
+    }
+
+    const leafIndex = this.leaves.length;
+    this.leaves.push(num.toHex(leaf));
+    const key = BigInt(leaf).toString(16);
+    if (!this.indexes.has(key)) {
+      this.indexes.set(key, leafIndex);
+    }
+    return leafIndex;
+  }
+
+  /**
+   * Drop leaves from leafCount onwards (used after a reorg)
+   */
+  truncate(leafCount: number): void {
+    this.leaves.slice(leafCount).forEach((leaf, offset) => {
+      const key = BigInt(leaf).toString(16);
+      if (this.indexes.get(key) === leafCount + offset) {
+        this.indexes.delete(key);
+      }
+    });
+    this.leaves = this.leaves.slice(0, leafCount);
+  }
+
+  /**
+   * Path that verifies against the root recorded when the leaf was inserted
+   */
+  getPath(leafIndex: number): string[] {
+    const leaf = this.requireLeaf(leafIndex);
+    return computeInsertionPath(
+      leaf,
+      BigInt(leafIndex),
+      leafIndex % 2 === 1 ? this.leaves[leafIndex - 1] : undefined
+    );
+  }
+
+  /**
+   * Root CommitmentTree recorded when the leaf was inserted
+   */
+  getRootAt(leafIndex: number): string {
+    const leaf = this.requireLeaf(leafIndex);
+    return computeRootFromPath(leaf, BigInt(leafIndex), this.getPath(leafIndex));
+  }
+
+  /**
+   * Equivalent of get_current_root
+   */
+  getRoot(): string {
+    return this.leaves.length === 0 ? EMPTY_ROOT : this.getRootAt(this.leaves.length - 1);
+  }
+
+  private requireLeaf(leafIndex: number): string {
+    const leaf = this.leaves[leafIndex];
+    if (leaf === undefined) {
+      throw new Error(`Leaf ${leafIndex} is not in the tree`);
+    }
+    return leaf;
+  }
+}
+
+export default {
+  TREE_DEPTH,
+  ZERO_VALUES,
+  EMPTY_ROOT,
+  hashPair,
+  computeRootFromPath,
+  computeInsertionPath,
+  CommitmentTreeMirror,
+};
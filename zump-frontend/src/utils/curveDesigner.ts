@@ -0,0 +1,311 @@
+/**
+ * Curve Designer
+ * Curve presets, price-vs-supply sampling and buyer simulations for the
+ * launch flow
+ * Requirements: 2.1, 4.2
+ */
+
+import {
+  calculatePrice,
+  calculateMarketCap,
+  calculateProgress,
+  formatBigIntWithDecimals,
+  maxBigInt,
+  minBigInt,
+  toBigIntWithDecimals,
+} from './bondingCurveUtils';
+import { CurveParams, calculateRaise } from './curvePreview';
+import { CurveFees, CurveQuoteState, applyBuy, quoteBuy } from './curveQuote';
+import type { CurveLimits } from '../services/contractService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CurvePresetId = 'fair' | 'steep' | 'flat';
+
+export interface CurvePreset {
+  id: CurvePresetId;
+  label: string;
+  description: string;
+  basePrice: bigint;
+  slope: bigint;
+  maxSupply: bigint;
+  /** Share of max supply sold when the pool migrates */
+  migrationPercent: number;
+}
+
+/**
+ * Curve fields exactly as LaunchFormData takes them
+ */
+export interface CurveFormValues {
+  basePrice: string;
+  slope: string;
+  maxSupply: string;
+  migrationThreshold: string;
+}
+
+export interface CurvePoint {
+  /** Tokens sold (whole tokens) */
+  supply: number;
+  /** Pool price (quote tokens) */
+  price: number;
+}
+
+export type SimulatedBuyStatus = 'filled' | 'rejected';
+
+export interface SimulatedBuy {
+  /** 1-based position in the queue */
+  buyer: number;
+  amount: bigint;
+  status: SimulatedBuyStatus;
+  /** Contract error code when rejected (MAX_SUPPLY_REACHED, ALREADY_MIGRATED) */
+  reason?: string;
+  /** Average price per token, fees included */
+  entryPrice: bigint;
+  /** Quote tokens paid, fee included */
+  cost: bigint;
+  /** Share of all tokens the simulated buyers end up holding */
+  sharePercent: number;
+}
+
+export interface SimulationMigration {
+  /** Buyer whose purchase pushed the reserve over the threshold */
+  buyer: number;
+  /** Pool reserve at migration: the quote tokens moved to the DEX */
+  raised: bigint;
+  tokensSold: bigint;
+  marketCap: bigint;
+}
+
+export interface BuyerSimulation {
+  buys: SimulatedBuy[];
+  tokensSold: bigint;
+  totalCost: bigint;
+  /** Cost-weighted entry price over all filled buys */
+  averageEntryPrice: bigint;
+  reserve: bigint;
+  finalPrice: bigint;
+  migration: SimulationMigration | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_DECIMALS = 18;
+const ZERO = BigInt(0);
+const DEFAULT_CURVE_POINTS = 50;
+
+const tokens = (amount: string): bigint => toBigIntWithDecimals(amount, TOKEN_DECIMALS);
+
+export const CURVE_PRESETS: Record<CurvePresetId, CurvePreset> = {
+  fair: {
+    id: 'fair',
+    label: 'Fair',
+    description: 'Gentle slope; late buyers pay moderately more than early ones',
+    basePrice: tokens('0.001'),
+    slope: tokens('0.0001'),
+    maxSupply: tokens('1000000'),
+    migrationPercent: 80,
+  },
+  steep: {
+    id: 'steep',
+    label: 'Steep',
+    description: 'Small supply and fast price growth; rewards the earliest buyers',
+    basePrice: tokens('0.001'),
+    slope: tokens('0.01'),
+    maxSupply: tokens('100000'),
+    migrationPercent: 60,
+  },
+  flat: {
+    id: 'flat',
+    label: 'Flat',
+    description: 'Large supply at a nearly constant price; spreads entry evenly',
+    basePrice: tokens('0.01'),
+    slope: tokens('0.0001'),
+    maxSupply: tokens('10000000'),
+    migrationPercent: 90,
+  },
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const clamp = (value: bigint, min: bigint, max: bigint): bigint => maxBigInt(min, minBigInt(value, max));
+
+const toDisplayNumber = (value: bigint): number =>
+  Number(formatBigIntWithDecimals(value, TOKEN_DECIMALS, TOKEN_DECIMALS));
+
+const toFormString = (value: bigint): string =>
+  formatBigIntWithDecimals(value, TOKEN_DECIMALS, TOKEN_DECIMALS);
+
+/**
+ * Curve fields in LaunchFormData format
+ */
+export const toCurveFormValues = (params: CurveParams): CurveFormValues => ({
+  basePrice: toFormString(params.basePrice),
+  slope: toFormString(params.slope),
+  maxSupply: toFormString(params.maxSupply),
+  migrationThreshold: toFormString(params.migrationThreshold),
+});
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+/**
+ * Curve parameters for a preset
+ * Values are pulled inside the ProtocolConfig limits when they are known, and
+ * the migration threshold is the reserve at the preset's migration point.
+ *
+ * @param id - Preset to apply
+ * @param limits - ProtocolConfig.get_curve_limits
+ * @returns Curve parameters
+ */
+export const getPresetParams = (id: CurvePresetId, limits?: CurveLimits | null): CurveParams => {
+  const preset = CURVE_PRESETS[id];
+  const basePrice = limits
+    ? clamp(preset.basePrice, limits.minBasePrice, limits.maxBasePrice)
+    : preset.basePrice;
+  const slope = limits ? clamp(preset.slope, limits.minSlope, limits.maxSlope) : preset.slope;
+  const maxSupply = limits
+    ? clamp(preset.maxSupply, limits.minSupply, limits.maxSupply)
+    : preset.maxSupply;
+
+  const params: CurveParams = { basePrice, slope, maxSupply, migrationThreshold: ZERO };
+  const migrationSupply = (maxSupply * BigInt(preset.migrationPercent)) / BigInt(100);
+
+  return { ...params, migrationThreshold: calculateRaise(params, migrationSupply) };
+};
+
+// ============================================================================
+// Price Curve
+// ============================================================================
+
+/**
+ * Sample price against supply for plotting, from 0 to max supply
+ *
+ * @param params - Curve parameters
+ * @param points - Number of intervals (points + 1 samples)
+ * @returns Samples in whole tokens and quote tokens
+ */
+export const sampleCurve = (params: CurveParams, points: number = DEFAULT_CURVE_POINTS): CurvePoint[] => {
+  const steps = BigInt(Math.max(1, points));
+
+  return Array.from({ length: Number(steps) + 1 }, (_, i) => {
+    const sold = (params.maxSupply * BigInt(i)) / steps;
+    return {
+      supply: toDisplayNumber(sold),
+      price: toDisplayNumber(calculatePrice(params.basePrice, params.slope, sold)),
+    };
+  });
+};
+
+// ============================================================================
+// Buyer Simulation
+// ============================================================================
+
+/**
+ * Simulate buyers arriving one after another at a fresh pool
+ * Every buy settles like BondingCurvePool.buy (curve cost plus fees); once a
+ * buy lifts the reserve to the migration threshold the pool migrates and
+ * later buys are rejected, as are buys past max supply.
+ *
+ * @param params - Curve parameters
+ * @param fees - Fees from ProtocolConfig
+ * @param amounts - Tokens each buyer buys, in arrival order
+ * @returns Per-buyer fills and the pool state afterwards
+ */
+export const simulateBuyers = (
+  params: CurveParams,
+  fees: CurveFees,
+  amounts: bigint[]
+): BuyerSimulation => {
+  let state: CurveQuoteState = {
+    basePrice: params.basePrice,
+    slope: params.slope,
+    tokensSold: ZERO,
+    reserveBalance: ZERO,
+    maxSupply: params.maxSupply,
+    migrated: false,
+  };
+  let totalCost = ZERO;
+  let migration: SimulationMigration | null = null;
+
+  const buys: SimulatedBuy[] = amounts.map((amount, index) => {
+    const buyer = index + 1;
+
+    try {
+      const quote = quoteBuy(state, fees, amount);
+      state = applyBuy(state, quote, amount);
+      totalCost += quote.totalCost;
+
+      if (
+        params.migrationThreshold > ZERO &&
+        state.reserveBalance >= params.migrationThreshold
+      ) {
+        state = { ...state, migrated: true };
+        const price = calculatePrice(state.basePrice, state.slope, state.tokensSold);
+        migration = {
+          buyer,
+          raised: state.reserveBalance,
+          tokensSold: state.tokensSold,
+          marketCap: calculateMarketCap(price, state.tokensSold),
+        };
+      }
+
+      return {
+        buyer,
+        amount,
+        status: 'filled',
+        entryPrice: amount > ZERO ? quote.totalCost / amount : quote.price,
+        cost: quote.totalCost,
+        sharePercent: 0,
+      };
+    } catch (error) {
+      return {
+        buyer,
+        amount,
+        status: 'rejected',
+        reason: error instanceof Error ? error.message : 'REJECTED',
+        entryPrice: ZERO,
+        cost: ZERO,
+        sharePercent: 0,
+      };
+    }
+  });
+
+  buys.forEach((buy) => {
+    if (buy.status === 'filled') {
+      buy.sharePercent = calculateProgress(buy.amount, state.tokensSold);
+    }
+  });
+
+  return {
+    buys,
+    tokensSold: state.tokensSold,
+    totalCost,
+    // Weighted by tokens bought, like each buy's entry price
+    averageEntryPrice: state.tokensSold > ZERO ? totalCost / state.tokensSold : ZERO,
+    reserve: state.reserveBalance,
+    finalPrice: calculatePrice(state.basePrice, state.slope, state.tokensSold),
+    migration,
+  };
+};
+
+/**
+ * N buyers of the same size
+ */
+export const equalBuys = (buyers: number, amount: bigint): bigint[] =>
+  Array.from({ length: Math.max(0, buyers) }, () => amount);
+
+export default {
+  CURVE_PRESETS,
+  getPresetParams,
+  toCurveFormValues,
+  sampleCurve,
+  simulateBuyers,
+  equalBuys,
+};
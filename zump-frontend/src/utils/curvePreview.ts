@@ -0,0 +1,140 @@
+/**
+ * Curve Preview
+ * What a launch's bonding curve parameters lead to before it is deployed:
+ * prices along the curve, the total raise and the migration point
+ * Requirements: 2.1, 4.2
+ */
+
+import { calculatePrice, calculateProgress } from './bondingCurveUtils';
+import { CurveFees, calculateCurveCost, calculateFee } from './curveQuote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Launch curve parameters in contract units (18 decimals)
+ */
+export interface CurveParams {
+  basePrice: bigint;
+  slope: bigint;
+  maxSupply: bigint;
+  /** Pool reserve that triggers migration; 0 disables migration */
+  migrationThreshold: bigint;
+}
+
+export interface MigrationPoint {
+  /** Tokens sold when the reserve first reaches the threshold */
+  tokensSold: bigint;
+  /** tokensSold as a percentage of max supply */
+  percentSold: number;
+  /** Pool price at that point */
+  price: bigint;
+}
+
+export interface CurvePreview {
+  /** Price at 0%, 50% and 100% of max supply sold */
+  startPrice: bigint;
+  midPrice: bigint;
+  endPrice: bigint;
+  /** Quote tokens buyers pay for the whole supply, fees included */
+  totalRaise: bigint;
+  /** Part of totalRaise left in the pool reserve: the raise without fees */
+  reserveAtSellout: bigint;
+  /** Null when migration is disabled or the threshold is never reached */
+  migration: MigrationPoint | null;
+  /** False when a non-zero threshold is above reserveAtSellout */
+  migrationReachable: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Threshold used when the launch form leaves it empty
+ */
+export const DEFAULT_MIGRATION_THRESHOLD = BigInt('1000000000000000000000'); // 1000 tokens
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+// ============================================================================
+// Curve Math
+// ============================================================================
+
+/**
+ * Quote tokens the curve takes in for the first `sold` tokens
+ * BondingCurvePool prices every trade by the area under the curve and charges
+ * fees on top, so this is also the pool reserve at that point, however the
+ * tokens were bought.
+ *
+ * @param params - Curve parameters
+ * @param sold - Tokens sold
+ * @returns Quote raised before fees
+ */
+export const calculateRaise = (params: CurveParams, sold: bigint): bigint =>
+  calculateCurveCost(params.basePrice, params.slope, ZERO, sold);
+
+/**
+ * First point on the curve where the pool reserve reaches the migration threshold
+ *
+ * @param params - Curve parameters
+ * @returns The migration point, or null if migration is disabled or unreachable
+ */
+export const findMigrationPoint = (params: CurveParams): MigrationPoint | null => {
+  if (params.migrationThreshold <= ZERO) return null;
+  if (calculateRaise(params, params.maxSupply) < params.migrationThreshold) return null;
+
+  // The reserve grows with every token sold, so the first crossing is found by bisection
+  let low = ZERO;
+  let high = params.maxSupply;
+  while (low < high) {
+    const mid = (low + high) / TWO;
+    if (calculateRaise(params, mid) >= params.migrationThreshold) {
+      high = mid;
+    } else {
+      low = mid + ONE;
+    }
+  }
+
+  return {
+    tokensSold: low,
+    percentSold: calculateProgress(low, params.maxSupply),
+    price: calculatePrice(params.basePrice, params.slope, low),
+  };
+};
+
+/**
+ * Preview a launch curve
+ *
+ * @param params - Curve parameters
+ * @param fees - Fees from ProtocolConfig
+ * @returns Prices, raise and migration point
+ */
+export const buildCurvePreview = (params: CurveParams, fees: CurveFees): CurvePreview => {
+  const reserveAtSellout = calculateRaise(params, params.maxSupply);
+  const totalRaise =
+    reserveAtSellout +
+    calculateFee(reserveAtSellout, fees.feeBps) +
+    calculateFee(reserveAtSellout, fees.creatorFeeBps);
+
+  return {
+    startPrice: calculatePrice(params.basePrice, params.slope, ZERO),
+    midPrice: calculatePrice(params.basePrice, params.slope, params.maxSupply / TWO),
+    endPrice: calculatePrice(params.basePrice, params.slope, params.maxSupply),
+    totalRaise,
+    reserveAtSellout,
+    migration: findMigrationPoint(params),
+    migrationReachable:
+      params.migrationThreshold <= ZERO || reserveAtSellout >= params.migrationThreshold,
+  };
+};
+
+export default {
+  DEFAULT_MIGRATION_THRESHOLD,
+  calculateRaise,
+  findMigrationPoint,
+  buildCurvePreview,
+};
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  CurveFees,
+  CurveQuoteState,
+  NO_FEES,
+  applyBuy,
+  applySell,
+  calculateCurveCost,
+  calculateFee,
+  quoteBuy,
+  quoteRoundTrip,
+  quoteSell,
+} from './curveQuote';
+
+const FEES: CurveFees = { feeBps: BigInt(30), creatorFeeBps: BigInt(100) };
+const LARGE_RESERVE = BigInt('1000000000000000000000000000000');
+
+const pool = (overrides: Partial<CurveQuoteState> = {}): CurveQuoteState => ({
+  basePrice: BigInt('1000000000000000'),
+  slope: BigInt('100000000000000'),
+  tokensSold: BigInt(500),
+  reserveBalance: LARGE_RESERVE,
+  ...overrides,
+});
+
+// Grid the round-trip properties are checked over
+const BASE_PRICES = [BigInt(1), BigInt('1000000000000'), BigInt('1000000000000000')];
+const SLOPES = [BigInt(0), BigInt(1), BigInt('1000000000'), BigInt('100000000000000')];
+const SOLD = [BigInt(0), BigInt(1), BigInt(500), BigInt('1000000')];
+const AMOUNTS = [BigInt(1), BigInt(7), BigInt(100), BigInt(10000)];
+const FEE_GRID: CurveFees[] = [
+  NO_FEES,
+  { feeBps: BigInt(30), creatorFeeBps: BigInt(0) },
+  FEES,
+  { feeBps: BigInt(1000), creatorFeeBps: BigInt(1000) },
+];
+
+const forEachCase = (run: (state: CurveQuoteState, fees: CurveFees, amount: bigint) => void) => {
+  BASE_PRICES.forEach((basePrice) =>
+    SLOPES.forEach((slope) =>
+      SOLD.forEach((tokensSold) =>
+        AMOUNTS.forEach((amount) =>
+          FEE_GRID.forEach((fees) => run(pool({ basePrice, slope, tokensSold }), fees, amount))
+        )
+      )
+    )
+  );
+};
+
+describe('calculateCurveCost', () => {
+  it('adds up the spot price of every token in the trade', () => {
+    const { basePrice, slope } = pool();
+    let summed = BigInt(0);
+    for (let i = 0; i < 100; i += 1) {
+      summed += basePrice + slope * (BigInt(500) + BigInt(i));
+    }
+
+    expect(calculateCurveCost(basePrice, slope, BigInt(500), BigInt(100))).toBe(summed);
+    expect(calculateCurveCost(basePrice, slope, BigInt(500), BigInt(0))).toBe(BigInt(0));
+  });
+
+  it('does not depend on how a trade is split', () => {
+    const { basePrice, slope } = pool();
+    const whole = calculateCurveCost(basePrice, slope, BigInt(500), BigInt(100));
+    const split =
+      calculateCurveCost(basePrice, slope, BigInt(500), BigInt(40)) +
+      calculateCurveCost(basePrice, slope, BigInt(540), BigInt(60));
+
+    expect(split).toBe(whole);
+  });
+});
+
+describe('quoteBuy', () => {
+  it('charges the curve cost and adds both fees on top', () => {
+    const quote = quoteBuy(pool(), FEES, BigInt(100));
+
+    expect(quote.price).toBe(BigInt('51000000000000000'));
+    expect(quote.netCost).toBe(BigInt('5595000000000000000'));
+    expect(quote.fee).toBe(BigInt('16785000000000000'));
+    expect(quote.creatorFee).toBe(BigInt('55950000000000000'));
+    expect(quote.totalCost).toBe(BigInt('5667735000000000000'));
+  });
+
+  it('charges the spot price for a single token', () => {
+    expect(quoteBuy(pool(), NO_FEES, BigInt(1)).totalCost).toBe(BigInt('51000000000000000'));
+  });
+
+  it('rounds the fee down like the contract', () => {
+    expect(calculateFee(BigInt(333), BigInt(30))).toBe(BigInt(0));
+    expect(calculateFee(BigInt(10000), BigInt(30))).toBe(BigInt(30));
+  });
+
+  it('reverts with the contract codes', () => {
+    expect(() => quoteBuy(pool({ migrated: true }), FEES, BigInt(1))).toThrow('ALREADY_MIGRATED');
+    expect(() => quoteBuy(pool({ maxSupply: BigInt(550) }), FEES, BigInt(51))).toThrow(
+      'MAX_SUPPLY_REACHED'
+    );
+  });
+});
+
+describe('quoteSell', () => {
+  it('refunds the curve value below tokens_sold minus both fees', () => {
+    const quote = quoteSell(pool(), FEES, BigInt(100));
+
+    expect(quote.price).toBe(BigInt('51000000000000000'));
+    expect(quote.grossReturn).toBe(BigInt('4595000000000000000'));
+    expect(quote.fee).toBe(BigInt('13785000000000000'));
+    expect(quote.creatorFee).toBe(BigInt('45950000000000000'));
+    expect(quote.netReturn).toBe(BigInt('4535265000000000000'));
+  });
+
+  it('reverts with the contract codes', () => {
+    expect(() => quoteSell(pool(), FEES, BigInt(501))).toThrow('NOT_ENOUGH_SOLD');
+    expect(() => quoteSell(pool({ reserveBalance: BigInt(0) }), FEES, BigInt(1))).toThrow(
+      'INSUFFICIENT_RESERVE'
+    );
+  });
+});
+
+describe('applyBuy / applySell', () => {
+  it('moves tokens_sold and the reserve by the curve cost', () => {
+    const amount = BigInt(100);
+    const buy = quoteBuy(pool(), FEES, amount);
+    const afterBuy = applyBuy(pool(), buy, amount);
+    expect(afterBuy.tokensSold).toBe(BigInt(600));
+    expect(afterBuy.reserveBalance).toBe(LARGE_RESERVE + buy.netCost);
+
+    const sell = quoteSell(afterBuy, FEES, amount);
+    const afterSell = applySell(afterBuy, sell, amount);
+    expect(afterSell.tokensSold).toBe(BigInt(500));
+    expect(afterSell.reserveBalance).toBe(LARGE_RESERVE);
+  });
+
+  it('keeps the reserve equal to the curve cost of every token sold', () => {
+    const trades = [BigInt(300), BigInt(-120), BigInt(45), BigInt(-200), BigInt(1000), BigInt(-1)];
+    let state = pool({ tokensSold: BigInt(0), reserveBalance: BigInt(0) });
+
+    trades.forEach((trade) => {
+      state =
+        trade > BigInt(0)
+          ? applyBuy(state, quoteBuy(state, FEES, trade), trade)
+          : applySell(state, quoteSell(state, FEES, -trade), -trade);
+
+      expect(state.reserveBalance).toBe(
+        calculateCurveCost(state.basePrice, state.slope, BigInt(0), state.tokensSold)
+      );
+    });
+  });
+});
+
+describe('buy-then-sell round trip', () => {
+  it('never returns more than was paid', () => {
+    forEachCase((state, fees, amount) => {
+      const { paid, returned, gain } = quoteRoundTrip(state, fees, amount);
+
+      expect(returned <= paid).toBe(true);
+      expect(gain).toBe(returned - paid);
+    });
+  });
+
+  it('loses exactly the fees of both legs', () => {
+    forEachCase((state, fees, amount) => {
+      const buy = quoteBuy(state, fees, amount);
+      const sell = quoteSell(applyBuy(state, buy, amount), fees, amount);
+
+      expect(sell.grossReturn).toBe(buy.netCost);
+      expect(quoteRoundTrip(state, fees, amount).gain).toBe(
+        -(buy.fee + buy.creatorFee + sell.fee + sell.creatorFee)
+      );
+    });
+  });
+
+  it('breaks even without fees', () => {
+    expect(quoteRoundTrip(pool(), NO_FEES, BigInt(100)).gain).toBe(BigInt(0));
+  });
+});
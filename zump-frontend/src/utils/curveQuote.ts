@@ -0,0 +1,252 @@
+/**
+ * Bonding Curve Quotes
+ * Pure buy/sell quote math shared by ContractService and the trading UI
+ * Requirements: 5.1, 6.1
+ */
+
+import { calculatePrice } from './bondingCurveUtils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Pool values a quote depends on (BondingCurvePool storage)
+ */
+export interface CurveQuoteState {
+  basePrice: bigint;
+  slope: bigint;
+  tokensSold: bigint;
+  reserveBalance: bigint;
+  maxSupply?: bigint;
+  migrated?: boolean;
+}
+
+/**
+ * Fees charged on top of the curve value of a trade, in basis points
+ * (ProtocolConfig.get_fee_config and get_creator_fee_bps)
+ */
+export interface CurveFees {
+  feeBps: bigint;
+  creatorFeeBps: bigint;
+}
+
+export interface BuyQuote {
+  /** Spot price before the trade; the trade walks up the curve from here */
+  price: bigint;
+  /** Quote tokens pulled from the buyer (curve cost + both fees) */
+  totalCost: bigint;
+  /** Protocol fee sent to the fee receiver */
+  fee: bigint;
+  /** Creator fee sent to the launch creator */
+  creatorFee: bigint;
+  /** Curve cost, added to the pool reserve in full */
+  netCost: bigint;
+}
+
+export interface SellQuote {
+  /** Spot price before the trade; the trade walks down the curve from here */
+  price: bigint;
+  /** Curve value of the tokens, taken from the pool reserve */
+  grossReturn: bigint;
+  /** Protocol fee sent to the fee receiver */
+  fee: bigint;
+  /** Creator fee sent to the launch creator */
+  creatorFee: bigint;
+  /** Quote tokens sent to the seller */
+  netReturn: bigint;
+}
+
+/**
+ * A buy immediately followed by a sell of the same amount
+ */
+export interface RoundTripQuote {
+  /** Quote tokens pulled from the buyer by the buy leg */
+  paid: bigint;
+  /** Quote tokens sent back by the sell leg */
+  returned: bigint;
+  /** returned − paid; never positive */
+  gain: bigint;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Basis point denominator used by ProtocolConfig.fee_bps
+ */
+export const BPS_DENOMINATOR = BigInt(10000);
+
+/**
+ * Fees to quote with before ProtocolConfig has been read
+ */
+export const NO_FEES: CurveFees = { feeBps: BigInt(0), creatorFeeBps: BigInt(0) };
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+// ============================================================================
+// Quote Calculation
+// ============================================================================
+
+/**
+ * Calculate a fee the way BondingCurvePool.calculate_fees does for each of
+ * the protocol and creator fees
+ * Formula: fee = amount × fee_bps / 10000 (rounded down)
+ *
+ * @param amount - Curve value of the trade
+ * @param feeBps - Fee in basis points
+ * @returns The fee amount
+ */
+export const calculateFee = (amount: bigint, feeBps: bigint): bigint => {
+  return (amount * feeBps) / BPS_DENOMINATOR;
+};
+
+/**
+ * Quote value of `amount` tokens starting at `sold`, the area under the curve
+ * the way BondingCurvePool.calculate_curve_cost computes it:
+ * Σ(base_price + slope × (sold + i)) for i < amount
+ *
+ * @param basePrice - Starting price
+ * @param slope - Price increase per token sold
+ * @param sold - Tokens sold before the trade's first token
+ * @param amount - Tokens traded
+ * @returns Curve value of the trade
+ */
+export const calculateCurveCost = (
+  basePrice: bigint,
+  slope: bigint,
+  sold: bigint,
+  amount: bigint
+): bigint => {
+  if (amount <= ZERO) return ZERO;
+  return basePrice * amount + slope * (amount * sold + (amount * (amount - ONE)) / TWO);
+};
+
+/**
+ * Quote a buy exactly as BondingCurvePool.buy settles it
+ * The curve cost of the tokens goes to the pool reserve, and the protocol and
+ * creator fees are charged on top of it.
+ *
+ * Throws with the same short-string codes the contract reverts with.
+ *
+ * @param state - Current pool state and curve parameters
+ * @param fees - Fees from ProtocolConfig
+ * @param amount - Tokens to buy
+ * @returns The buy quote
+ */
+export const quoteBuy = (state: CurveQuoteState, fees: CurveFees, amount: bigint): BuyQuote => {
+  if (state.migrated) {
+    throw new Error('ALREADY_MIGRATED');
+  }
+  if (state.maxSupply !== undefined && state.tokensSold + amount > state.maxSupply) {
+    throw new Error('MAX_SUPPLY_REACHED');
+  }
+
+  const netCost = calculateCurveCost(state.basePrice, state.slope, state.tokensSold, amount);
+  const fee = calculateFee(netCost, fees.feeBps);
+  const creatorFee = calculateFee(netCost, fees.creatorFeeBps);
+
+  return {
+    price: calculatePrice(state.basePrice, state.slope, state.tokensSold),
+    totalCost: netCost + fee + creatorFee,
+    fee,
+    creatorFee,
+    netCost,
+  };
+};
+
+/**
+ * Quote a sell exactly as BondingCurvePool.sell settles it
+ * The reserve pays out the curve value of the tokens just below tokens_sold,
+ * which is what buying them cost; the seller receives it minus both fees.
+ *
+ * Throws with the same short-string codes the contract reverts with.
+ *
+ * @param state - Current pool state and curve parameters
+ * @param fees - Fees from ProtocolConfig
+ * @param amount - Tokens to sell
+ * @returns The sell quote
+ */
+export const quoteSell = (state: CurveQuoteState, fees: CurveFees, amount: bigint): SellQuote => {
+  if (state.migrated) {
+    throw new Error('ALREADY_MIGRATED');
+  }
+  if (state.tokensSold < amount) {
+    throw new Error('NOT_ENOUGH_SOLD');
+  }
+
+  const grossReturn = calculateCurveCost(
+    state.basePrice,
+    state.slope,
+    state.tokensSold - amount,
+    amount
+  );
+  const fee = calculateFee(grossReturn, fees.feeBps);
+  const creatorFee = calculateFee(grossReturn, fees.creatorFeeBps);
+
+  if (state.reserveBalance < grossReturn) {
+    throw new Error('INSUFFICIENT_RESERVE');
+  }
+
+  return {
+    price: calculatePrice(state.basePrice, state.slope, state.tokensSold),
+    grossReturn,
+    fee,
+    creatorFee,
+    netReturn: grossReturn - fee - creatorFee,
+  };
+};
+
+/**
+ * Pool state after a buy settles (for chained quotes)
+ */
+export const applyBuy = (state: CurveQuoteState, quote: BuyQuote, amount: bigint): CurveQuoteState => ({
+  ...state,
+  tokensSold: state.tokensSold + amount,
+  reserveBalance: state.reserveBalance + quote.netCost,
+});
+
+/**
+ * Pool state after a sell settles (for chained quotes)
+ */
+export const applySell = (state: CurveQuoteState, quote: SellQuote, amount: bigint): CurveQuoteState => ({
+  ...state,
+  tokensSold: state.tokensSold - amount,
+  reserveBalance: state.reserveBalance - quote.grossReturn,
+});
+
+/**
+ * Quote buying `amount` and selling it straight back
+ * Both legs cover the same area under the curve, so the round trip loses
+ * exactly the fees of both legs and leaves the reserve where it was.
+ *
+ * @param state - Current pool state and curve parameters
+ * @param fees - Fees from ProtocolConfig
+ * @param amount - Tokens bought and then sold
+ * @returns Both legs and the difference
+ */
+export const quoteRoundTrip = (state: CurveQuoteState, fees: CurveFees, amount: bigint): RoundTripQuote => {
+  const buy = quoteBuy(state, fees, amount);
+  const sell = quoteSell(applyBuy(state, buy, amount), fees, amount);
+
+  return {
+    paid: buy.totalCost,
+    returned: sell.netReturn,
+    gain: sell.netReturn - buy.totalCost,
+  };
+};
+
+export default {
+  BPS_DENOMINATOR,
+  NO_FEES,
+  calculateFee,
+  calculateCurveCost,
+  quoteBuy,
+  quoteSell,
+  applyBuy,
+  applySell,
+  quoteRoundTrip,
+};
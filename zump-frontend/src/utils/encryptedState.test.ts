@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  EncryptedBalanceEntry,
+  computeBalanceCommitment,
+  computeUpdatedBalanceCommitment,
+  decryptBalance,
+  deriveEncryptionKey,
+  encryptAmount,
+  expectedBalanceCommitment,
+  hashEncryptAmount,
+} from './encryptedState';
+
+// Same vectors as encrypted_state_vector_tests in tests/test_integration.cairo
+const VIEWING_KEY = '0x2222';
+const STEALTH_ADDRESS = '0x5ea17';
+const TOKEN = '0x70c3';
+const AMOUNT = BigInt('1000000000000000000');
+const LARGE_AMOUNT = BigInt('340282366920938463463374607431768211461');
+
+const ENCRYPTION_KEY = '0x5384ad939874b82524f99fc862db12d03ce6bead0632cd802c42458a6c3f56c';
+const HASHED_AMOUNT = '0x28fc5519045a7c121c9ff5d2a60f87c7aec5db6a575d617bdf931d994b02555';
+const HASHED_COMMITMENT = '0x333fcf8492c15151d71624b9406a113b57098ea2c2ed703a79f729ca3784351';
+const HASHED_LARGE_AMOUNT = '0x43814ba539ebdb23bea6f11c0e645ee5da9cbc6d34c74527277dbf74f47ec70';
+const HASHED_LARGE_COMMITMENT = '0x272d115ceef7db927a7a3b696e6bd6c27cbce40ebcf5b25a80a8daa1ad37236';
+const PADDED_AMOUNT = '0x722d7073861a453701d5829047ea0139292367e012acb505cda9f1316241a94';
+const PADDED_COMMITMENT = '0x1ef4cc7cb8edde26ac6ccbe1d203f45cca7ea1cfa278095322800751dd70391';
+
+const entry = (encryptedAmount: string, commitment: string): EncryptedBalanceEntry => ({
+  encryptedAmount,
+  commitment,
+  lastUpdated: 1760000000,
+});
+
+describe('encrypted balance vectors', () => {
+  it('derives the key the vectors use', () => {
+    expect(deriveEncryptionKey(VIEWING_KEY, STEALTH_ADDRESS)).toBe(ENCRYPTION_KEY);
+  });
+
+  it('matches what encrypt_balance stores', () => {
+    expect(hashEncryptAmount(AMOUNT, ENCRYPTION_KEY)).toBe(HASHED_AMOUNT);
+    expect(computeBalanceCommitment(HASHED_AMOUNT, STEALTH_ADDRESS, TOKEN)).toBe(HASHED_COMMITMENT);
+    expect(hashEncryptAmount(LARGE_AMOUNT, ENCRYPTION_KEY)).toBe(HASHED_LARGE_AMOUNT);
+    expect(computeBalanceCommitment(HASHED_LARGE_AMOUNT, STEALTH_ADDRESS, TOKEN)).toBe(
+      HASHED_LARGE_COMMITMENT
+    );
+  });
+
+  it('matches what update_encrypted_balance stores', () => {
+    expect(encryptAmount(AMOUNT, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)).toBe(PADDED_AMOUNT);
+    expect(
+      computeUpdatedBalanceCommitment(PADDED_AMOUNT, STEALTH_ADDRESS, TOKEN, ENCRYPTION_KEY)
+    ).toBe(PADDED_COMMITMENT);
+  });
+});
+
+describe('decryptBalance', () => {
+  const otherKey = deriveEncryptionKey('0x3333', STEALTH_ADDRESS);
+
+  it('opens a padded balance and expects the stored commitment', () => {
+    const stored = entry(PADDED_AMOUNT, PADDED_COMMITMENT);
+    const decrypted = decryptBalance(stored, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN);
+
+    expect(decrypted).toEqual({ amount: AMOUNT, method: 'pad' });
+    expect(
+      expectedBalanceCommitment(stored, decrypted!, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)
+    ).toBe(PADDED_COMMITMENT);
+  });
+
+  it('matches a hashed balance against the candidate amounts', () => {
+    const stored = entry(HASHED_AMOUNT, HASHED_COMMITMENT);
+    const decrypted = decryptBalance(stored, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN, [
+      BigInt(1),
+      AMOUNT,
+    ]);
+
+    expect(decrypted).toEqual({ amount: AMOUNT, method: 'hash' });
+    expect(
+      expectedBalanceCommitment(stored, decrypted!, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)
+    ).toBe(HASHED_COMMITMENT);
+    expect(decryptBalance(stored, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN, [BigInt(1)])).toBeNull();
+  });
+
+  it('round trips any u128 amount and refuses a wrong key', () => {
+    const amounts = [BigInt(0), BigInt(1), AMOUNT, (BigInt(1) << BigInt(128)) - BigInt(1)];
+
+    amounts.forEach((amount) => {
+      const ciphertext = encryptAmount(amount, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN);
+      const stored = entry(
+        ciphertext,
+        computeUpdatedBalanceCommitment(ciphertext, STEALTH_ADDRESS, TOKEN, ENCRYPTION_KEY)
+      );
+
+      expect(decryptBalance(stored, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)).toEqual({
+        amount,
+        method: 'pad',
+      });
+      expect(decryptBalance(stored, otherKey, STEALTH_ADDRESS, TOKEN, [amount])).toBeNull();
+      expect(decryptBalance(stored, ENCRYPTION_KEY, STEALTH_ADDRESS, '0x70c4')).toBeNull();
+    });
+
+    expect(() => encryptAmount(LARGE_AMOUNT, ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)).toThrow(
+      'AMOUNT_TOO_HIGH'
+    );
+    expect(decryptBalance(entry('0x0', '0x0'), ENCRYPTION_KEY, STEALTH_ADDRESS, TOKEN)).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Encrypted State
+ * Client-side keys and ciphertexts for EncryptedStateManager balances and
+ * positions, reproducing the contract's Poseidon layouts
+ * Requirements: 10.4
+ */
+
+import { cairo, constants, hash, num, shortString } from 'starknet';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * pump_fun::encrypted_state_manager::EncryptedBalance
+ */
+export interface EncryptedBalanceEntry {
+  encryptedAmount: string;
+  commitment: string;
+  /** Unix seconds; 0 when nothing was ever stored */
+  lastUpdated: number;
+}
+
+/**
+ * pump_fun::encrypted_state_manager::EncryptedPosition
+ */
+export interface EncryptedPositionEntry {
+  positionHash: string;
+  encryptedData: string;
+  pool: string;
+  timestamp: number;
+}
+
+/**
+ * How an encrypted balance was opened
+ * 'pad': written by update_encrypted_balance with encryptAmount, decrypted
+ * directly; 'hash': written by encrypt_balance, matched against a known amount
+ */
+export type DecryptionMethod = 'pad' | 'hash';
+
+export interface DecryptedBalance {
+  amount: bigint;
+  method: DecryptionMethod;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ENCRYPTION_KEY_DOMAIN = shortString.encodeShortString('ZUMP_ENCRYPTED_STATE');
+const AMOUNT_PAD_DOMAIN = shortString.encodeShortString('ZUMP_AMOUNT_PAD');
+const FIELD_PRIME = BigInt(constants.PRIME);
+const MAX_U128 = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+const poseidon = (...values: (string | number | bigint)[]): string =>
+  num.toHex(hash.computePoseidonHashOnElements(values.map((value) => num.toHex(value))));
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Encryption key for one stealth address (balances) or pool (positions)
+ * Derived from the viewing key, so it is recovered with the stealth keys
+ * and never stored.
+ */
+export const deriveEncryptionKey = (viewingPrivateKey: string, context: string): string =>
+  poseidon(ENCRYPTION_KEY_DOMAIN, viewingPrivateKey, context);
+
+// ============================================================================
+// Balances
+// ============================================================================
+
+/**
+ * encrypted_amount as encrypt_balance computes it: poseidon(low, high, key)
+ * This is a hash, so it can only be checked against a candidate amount.
+ */
+export const hashEncryptAmount = (amount: bigint, encryptionKey: string): string => {
+  const { low, high } = cairo.uint256(amount);
+  return poseidon(low, high, encryptionKey);
+};
+
+/**
+ * Commitment encrypt_balance stores next to a hashed amount
+ */
+export const computeBalanceCommitment = (
+  encryptedAmount: string,
+  stealthAddress: string,
+  token: string
+): string => poseidon(encryptedAmount, stealthAddress, token);
+
+const amountPad = (encryptionKey: string, stealthAddress: string, token: string): bigint =>
+  BigInt(poseidon(AMOUNT_PAD_DOMAIN, encryptionKey, stealthAddress, token));
+
+/**
+ * Ciphertext for update_encrypted_balance that the key holder can decrypt
+ * The amount is offset by a key-derived pad in the field; amounts are
+ * limited to u128 so a wrong key is detected by the commitment, not guessed.
+ */
+export const encryptAmount = (
+  amount: bigint,
+  encryptionKey: string,
+  stealthAddress: string,
+  token: string
+): string => {
+  if (amount < BigInt(0) || amount > MAX_U128) {
+    throw new Error('AMOUNT_TOO_HIGH');
+  }
+  return num.toHex((amount + amountPad(encryptionKey, stealthAddress, token)) % FIELD_PRIME);
+};
+
+/**
+ * Commitment update_encrypted_balance stores: poseidon(ciphertext, address, token, key)
+ */
+export const computeUpdatedBalanceCommitment = (
+  encryptedAmount: string,
+  stealthAddress: string,
+  token: string,
+  encryptionKey: string
+): string => poseidon(encryptedAmount, stealthAddress, token, encryptionKey);
+
+/**
+ * Open an encrypted balance with the owner's key
+ * Padded ciphertexts are decrypted directly once their commitment confirms
+ * the key; hashed ones are compared against the candidate amounts.
+ *
+ * @returns null when the key does not open the entry
+ */
+export const decryptBalance = (
+  entry: EncryptedBalanceEntry,
+  encryptionKey: string,
+  stealthAddress: string,
+  token: string,
+  candidates: bigint[] = []
+): DecryptedBalance | null => {
+  const ciphertext = BigInt(entry.encryptedAmount);
+  if (ciphertext === BigInt(0)) return null;
+
+  const padded = computeUpdatedBalanceCommitment(entry.encryptedAmount, stealthAddress, token, encryptionKey);
+  if (BigInt(padded) === BigInt(entry.commitment)) {
+    const pad = amountPad(encryptionKey, stealthAddress, token);
+    const amount = (ciphertext - pad + FIELD_PRIME) % FIELD_PRIME;
+    return amount <= MAX_U128 ? { amount, method: 'pad' } : null;
+  }
+
+  const amount = candidates.find(
+    (candidate) => BigInt(hashEncryptAmount(candidate, encryptionKey)) === ciphertext
+  );
+  return amount === undefined ? null : { amount, method: 'hash' };
+};
+
+/**
+ * Commitment verify_balance_commitment should find for a decrypted balance
+ */
+export const expectedBalanceCommitment = (
+  entry: EncryptedBalanceEntry,
+  decrypted: DecryptedBalance,
+  encryptionKey: string,
+  stealthAddress: string,
+  token: string
+): string =>
+  decrypted.method === 'pad'
+    ? computeUpdatedBalanceCommitment(entry.encryptedAmount, stealthAddress, token, encryptionKey)
+    : computeBalanceCommitment(hashEncryptAmount(decrypted.amount, encryptionKey), stealthAddress, token);
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+/**
+ * encrypted_data as encrypt_position computes it: poseidon(position_data, key)
+ * Positions are encrypted with the position commitment as position_data.
+ */
+export const encryptPositionData = (positionData: string, encryptionKey: string): string =>
+  poseidon(positionData, encryptionKey);
+
+/**
+ * Find which of the owner's position commitments an encrypted position holds
+ *
+ * @returns The matching commitment, or null
+ */
+export const decryptPosition = (
+  entry: EncryptedPositionEntry,
+  encryptionKey: string,
+  commitments: string[]
+): string | null =>
+  commitments.find(
+    (commitment) =>
+      BigInt(encryptPositionData(commitment, encryptionKey)) === BigInt(entry.encryptedData)
+  ) ?? null;
+
+export default {
+  deriveEncryptionKey,
+  hashEncryptAmount,
+  computeBalanceCommitment,
+  encryptAmount,
+  computeUpdatedBalanceCommitment,
+  decryptBalance,
+  expectedBalanceCommitment,
+  encryptPositionData,
+  decryptPosition,
+};
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+
+import { hash } from 'starknet';
+import {
+  DecodedEventType,
+  EVENT_SELECTORS,
+  RawEvent,
+  decodeEvent,
+  decodeEvents,
+  findReceiptEvent,
+  getEventType,
+} from './eventDecoder';
+// Receipts in the starknet_getTransactionReceipt (RPC 0.7) shape; each one also
+// carries the ERC20 Transfer, account TransactionExecuted and fee events a
+// real invoke emits, which the decoder has to skip
+import buyReceipt from './__fixtures__/receipts/buy.json';
+import sellReceipt from './__fixtures__/receipts/sell.json';
+import launchReceipt from './__fixtures__/receipts/launch.json';
+import migrationReceipt from './__fixtures__/receipts/migration.json';
+import lpUnlockReceipt from './__fixtures__/receipts/lp_unlock.json';
+import mixerDepositReceipt from './__fixtures__/receipts/mixer_deposit.json';
+import mixerWithdrawReceipt from './__fixtures__/receipts/mixer_withdraw.json';
+import privateTradesReceipt from './__fixtures__/receipts/private_trades.json';
+import stealthReceipt from './__fixtures__/receipts/stealth.json';
+import encryptedStateReceipt from './__fixtures__/receipts/encrypted_state.json';
+
+const RECEIPTS = [
+  buyReceipt,
+  sellReceipt,
+  launchReceipt,
+  migrationReceipt,
+  lpUnlockReceipt,
+  mixerDepositReceipt,
+  mixerWithdrawReceipt,
+  privateTradesReceipt,
+  stealthReceipt,
+  encryptedStateReceipt,
+];
+
+const address = (value: string) => `0x${BigInt(value).toString(16).padStart(64, '0')}`;
+
+const ACCOUNT = address('0x4d1f2e0b6b1c7f9e0a2f1c3d5e7f9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3');
+const STRK = address('0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d');
+const FACTORY = address('0x73399b589e513c4aad810f1b5fab0e8ee00d71e5c606730617197486c889f50');
+const POOL = address('0x2b7a4c1e9d8f6a3b5c7d9e1f2a4b6c8d0e2f4a6b8c0d2e4f6a8b0c2d4e6f8a1');
+const TOKEN = address('0x5e3c1a9f7d5b3e1c9a7f5d3b1e9c7a5f3d1b9e7c5a3f1d9b7e5c3a1f9d7b5e3');
+const MIXER = address('0x4c0c9b0fcbb2f45b31ccda688fb95af193f8b745713fcedc6763f630b1b25e7');
+const STEALTH = address('0x3a9e5c1f7b3d9a5e1c7f3b9d5a1e7c3f9b5d1a7e3c9f5b1d7a3e9c5f1b7d3a9');
+const LP_TOKEN = address('0x6b2d8f4a0c6e2b8d4f0a6c2e8b4d0f6a2c8e4b0d6f2a8c4e0b6d2f8a4c0e6b2');
+const RECIPIENT = address('0x2f8b4d0a6c2e8f4b0d6a2c8e4f0b6d2a8c4e0f6b2d8a4c0e6f2b8d4a0c6e2f8');
+
+const COMMITMENT = '0x2f0d8840bcf3bc629598d8a6cc80cb7c0d9e52d93dab244bbf9cd0dca0ad082';
+const TOKENS = (whole: number) => BigInt(whole) * BigInt('1000000000000000000');
+
+// Every receipt ends with the fee Transfer; most tests look past the transfers
+const protocolEvents = (receipt: { events: RawEvent[] }) =>
+  decodeEvents(receipt.events).filter((event) => event.type !== 'Transfer');
+
+describe('EVENT_SELECTORS', () => {
+  it('is sn_keccak of each event name and maps back to the name', () => {
+    (Object.keys(EVENT_SELECTORS) as DecodedEventType[]).forEach((type) => {
+      expect(EVENT_SELECTORS[type]).toBe(hash.getSelectorFromName(type));
+      expect(getEventType(EVENT_SELECTORS[type])).toBe(type);
+    });
+  });
+
+  it('covers every event type in the fixtures', () => {
+    const seen = new Set(RECEIPTS.flatMap((receipt) => decodeEvents(receipt.events)).map((event) => event.type));
+    expect(Array.from(seen).sort()).toEqual(Object.keys(EVENT_SELECTORS).sort());
+  });
+});
+
+describe('decodeEvents', () => {
+  it('decodes a pool buy and skips the account event', () => {
+    const events = decodeEvents(buyReceipt.events);
+
+    expect(buyReceipt.events).toHaveLength(6);
+    expect(events.map((event) => event.type)).toEqual(['Transfer', 'Transfer', 'Transfer', 'Buy', 'Transfer']);
+    expect(decodeEvents(buyReceipt.events, ['Buy'])).toEqual([
+      {
+        type: 'Buy',
+        buyer: ACCOUNT,
+        amountTokens: TOKENS(100),
+        costQuote: BigInt('5100000000000000000'),
+        feeQuote: BigInt('15300000000000000'),
+        fromAddress: POOL,
+        txHash: null,
+        blockNumber: null,
+      },
+    ]);
+  });
+
+  it('decodes the token mint and quote transfers of a buy', () => {
+    const [payment, fee, mint] = decodeEvents(buyReceipt.events, ['Transfer']);
+
+    expect(payment).toMatchObject({ from: ACCOUNT, to: POOL, value: BigInt('5084700000000000000'), fromAddress: STRK });
+    expect(fee.value).toBe(BigInt('15300000000000000'));
+    expect(mint).toMatchObject({ from: address('0x0'), to: ACCOUNT, value: TOKENS(100), fromAddress: TOKEN });
+  });
+
+  it('decodes a pool sell', () => {
+    expect(decodeEvents(sellReceipt.events, ['Sell'])).toMatchObject([
+      {
+        seller: ACCOUNT,
+        amountTokens: TOKENS(40),
+        refundQuote: BigInt('2433680000000000000'),
+        feeQuote: BigInt('7320000000000000'),
+      },
+    ]);
+  });
+
+  it('decodes the factory events of a launch multicall with u256 keys', () => {
+    expect(protocolEvents(launchReceipt)).toMatchObject([
+      {
+        type: 'LaunchCreated',
+        launchId: BigInt(42),
+        token: TOKEN,
+        pool: POOL,
+        stealthCreator: STEALTH,
+        migrationThreshold: TOKENS(69000),
+        fromAddress: FACTORY,
+      },
+      { type: 'LaunchRegistered', launchId: BigInt(42), token: TOKEN, pool: POOL, creator: ACCOUNT },
+    ]);
+  });
+
+  it('decodes every contract taking part in a migration', () => {
+    expect(protocolEvents(migrationReceipt)).toMatchObject([
+      {
+        type: 'MigrationThresholdReached',
+        launchId: BigInt(42),
+        pool: POOL,
+        reserveBalance: TOKENS(69123),
+        threshold: TOKENS(69000),
+      },
+      { type: 'Migrated', pool: POOL, fromAddress: POOL },
+      { type: 'LaunchMigrated', launchId: BigInt(42) },
+      { type: 'MigrationCompleted', launchId: BigInt(42), pool: POOL },
+      { type: 'LiquidityProtected', pool: POOL, lpToken: LP_TOKEN, unlockTime: BigInt(1767225600) },
+    ]);
+    expect(protocolEvents(lpUnlockReceipt)).toMatchObject([{ type: 'LPUnlocked', pool: POOL }]);
+  });
+
+  it('decodes mixer deposits and withdrawals with their tree and nullifier events', () => {
+    const [leaf, deposit] = decodeEvents(mixerDepositReceipt.events, ['LeafInserted', 'Deposit']);
+    expect(leaf).toMatchObject({ type: 'LeafInserted', leaf: COMMITMENT, leafIndex: BigInt(7) });
+    expect(deposit).toMatchObject({
+      type: 'Deposit',
+      commitment: COMMITMENT,
+      token: STRK,
+      amount: TOKENS(1),
+      leafIndex: BigInt(7),
+      timestamp: BigInt(1760000000),
+    });
+
+    const [spent, withdrawal] = protocolEvents(mixerWithdrawReceipt);
+    expect(spent).toMatchObject({ type: 'NullifierSpent', pool: MIXER, timestamp: BigInt(1760003600) });
+    expect(withdrawal).toMatchObject({
+      type: 'Withdrawal',
+      nullifier: (spent as { nullifier: string }).nullifier,
+      recipient: RECIPIENT,
+      token: STRK,
+      amount: BigInt('990000000000000000'),
+      fee: BigInt('10000000000000000'),
+    });
+  });
+
+  it('decodes private trades and the relayer event', () => {
+    expect(protocolEvents(privateTradesReceipt)).toMatchObject([
+      { type: 'PrivateBuy', commitment: COMMITMENT, amountTokens: TOKENS(100), price: BigInt('51000000000000000') },
+      { type: 'PrivateTradeExecuted', commitment: COMMITMENT, pool: POOL, amount: TOKENS(100) },
+      { type: 'PrivateSell', amountTokens: TOKENS(40), price: BigInt('61000000000000000') },
+    ]);
+  });
+
+  it('decodes stealth and encrypted state events with felt keys', () => {
+    expect(protocolEvents(stealthReceipt)).toMatchObject([
+      { type: 'StealthAddressGenerated', primaryWallet: ACCOUNT, stealthAddress: STEALTH, viewTag: '0xa7' },
+      { type: 'StealthAddressRegistered', stealthAddress: STEALTH, viewTag: '0xa7' },
+    ]);
+    expect(protocolEvents(encryptedStateReceipt)).toMatchObject([
+      { type: 'BalanceEncrypted', stealthAddress: STEALTH, token: TOKEN, commitment: COMMITMENT },
+      { type: 'BalanceUpdated', stealthAddress: STEALTH, token: TOKEN },
+      { type: 'PositionEncrypted', pool: POOL },
+    ]);
+  });
+
+  it('drops an event whose payload is shorter than the ABI instead of throwing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Another contract's Buy(amount: felt252) shares the selector
+    const foreign = { from_address: '0x123', keys: [EVENT_SELECTORS.Buy, '0x1'], data: ['0x5'] };
+
+    expect(decodeEvent(foreign)).toBeNull();
+    expect(decodeEvents([foreign, ...buyReceipt.events], ['Buy'])).toHaveLength(1);
+    warn.mockRestore();
+  });
+});
+
+describe('findReceiptEvent', () => {
+  it('returns the first matching event with the receipt hash and block', () => {
+    const created = findReceiptEvent(launchReceipt, 'LaunchCreated');
+
+    expect(created).toMatchObject({
+      type: 'LaunchCreated',
+      launchId: BigInt(42),
+      txHash: launchReceipt.transaction_hash,
+      blockNumber: launchReceipt.block_number,
+    });
+  });
+
+  it('only matches the given emitter', () => {
+    expect(findReceiptEvent(migrationReceipt, 'Migrated', POOL)).not.toBeNull();
+    expect(findReceiptEvent(migrationReceipt, 'Migrated', FACTORY)).toBeNull();
+    // Unpadded addresses match their padded form
+    expect(findReceiptEvent(buyReceipt, 'Buy', `0x${BigInt(POOL).toString(16)}`)?.buyer).toBe(ACCOUNT);
+  });
+
+  it('returns null for missing events and receipts', () => {
+    expect(findReceiptEvent(buyReceipt, 'Sell')).toBeNull();
+    expect(findReceiptEvent(null, 'Buy')).toBeNull();
+    expect(findReceiptEvent({}, 'Buy')).toBeNull();
+  });
+});
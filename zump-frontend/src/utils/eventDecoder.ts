@@ -0,0 +1,499 @@
+/**
+ * Event Decoder
+ * Decodes Zump contract events into typed objects using the ABIs in src/abi
+ * Requirements: 2.2, 7.1
+ */
+
+import { Abi, hash, num } from 'starknet';
+import {
+  BONDING_CURVE_POOL_ABI,
+  MEMECOIN_TOKEN_ABI,
+  PUMP_FACTORY_ABI,
+  DARK_POOL_MIXER_ABI,
+  COMMITMENT_TREE_ABI,
+  NULLIFIER_REGISTRY_ABI,
+  STEALTH_ADDRESS_GENERATOR_ABI,
+  PRIVACY_RELAYER_ABI,
+  ENCRYPTED_STATE_MANAGER_ABI,
+  LIQUIDITY_MIGRATION_ABI,
+  ZK_DEX_HOOK_ABI,
+} from '../abi';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Event as returned by receipts and provider.getEvents
+ */
+export interface RawEvent {
+  from_address?: string;
+  keys?: string[];
+  data?: string[];
+  transaction_hash?: string;
+  block_number?: number;
+}
+
+/**
+ * Where a decoded event came from
+ */
+export interface EventMeta {
+  fromAddress: string | null;
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+// BondingCurvePool
+
+export interface BuyEvent extends EventMeta {
+  type: 'Buy';
+  buyer: string;
+  amountTokens: bigint;
+  costQuote: bigint;
+  feeQuote: bigint;
+}
+
+export interface SellEvent extends EventMeta {
+  type: 'Sell';
+  seller: string;
+  amountTokens: bigint;
+  refundQuote: bigint;
+  feeQuote: bigint;
+}
+
+export interface MigratedEvent extends EventMeta {
+  type: 'Migrated';
+  pool: string;
+}
+
+export interface PrivateBuyEvent extends EventMeta {
+  type: 'PrivateBuy';
+  commitment: string;
+  amountTokens: bigint;
+  price: bigint;
+}
+
+export interface PrivateSellEvent extends EventMeta {
+  type: 'PrivateSell';
+  commitment: string;
+  amountTokens: bigint;
+  price: bigint;
+}
+
+// MemecoinToken (also matches the standard ERC20 Transfer of quote tokens)
+
+export interface TransferEvent extends EventMeta {
+  type: 'Transfer';
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+// PumpFactory
+
+export interface LaunchCreatedEvent extends EventMeta {
+  type: 'LaunchCreated';
+  launchId: bigint;
+  token: string;
+  pool: string;
+  stealthCreator: string;
+  migrationThreshold: bigint;
+}
+
+export interface LaunchRegisteredEvent extends EventMeta {
+  type: 'LaunchRegistered';
+  launchId: bigint;
+  token: string;
+  pool: string;
+  creator: string;
+}
+
+export interface LaunchMigratedEvent extends EventMeta {
+  type: 'LaunchMigrated';
+  launchId: bigint;
+}
+
+export interface MigrationThresholdReachedEvent extends EventMeta {
+  type: 'MigrationThresholdReached';
+  launchId: bigint;
+  pool: string;
+  reserveBalance: bigint;
+  threshold: bigint;
+}
+
+// Privacy contracts
+
+export interface DepositEvent extends EventMeta {
+  type: 'Deposit';
+  commitment: string;
+  token: string;
+  amount: bigint;
+  leafIndex: bigint;
+  timestamp: bigint;
+}
+
+export interface WithdrawalEvent extends EventMeta {
+  type: 'Withdrawal';
+  nullifier: string;
+  recipient: string;
+  token: string;
+  amount: bigint;
+  fee: bigint;
+  timestamp: bigint;
+}
+
+export interface LeafInsertedEvent extends EventMeta {
+  type: 'LeafInserted';
+  leaf: string;
+  leafIndex: bigint;
+  newRoot: string;
+}
+
+export interface NullifierSpentEvent extends EventMeta {
+  type: 'NullifierSpent';
+  nullifier: string;
+  pool: string;
+  timestamp: bigint;
+}
+
+export interface StealthAddressGeneratedEvent extends EventMeta {
+  type: 'StealthAddressGenerated';
+  primaryWallet: string;
+  stealthAddress: string;
+  viewTag: string;
+  ephemeralPubkey: string;
+}
+
+export interface StealthAddressRegisteredEvent extends EventMeta {
+  type: 'StealthAddressRegistered';
+  stealthAddress: string;
+  viewTag: string;
+}
+
+export interface PrivateTradeExecutedEvent extends EventMeta {
+  type: 'PrivateTradeExecuted';
+  commitment: string;
+  pool: string;
+  amount: bigint;
+}
+
+export interface BalanceEncryptedEvent extends EventMeta {
+  type: 'BalanceEncrypted';
+  stealthAddress: string;
+  token: string;
+  commitment: string;
+}
+
+export interface BalanceUpdatedEvent extends EventMeta {
+  type: 'BalanceUpdated';
+  stealthAddress: string;
+  token: string;
+  newCommitment: string;
+}
+
+export interface PositionEncryptedEvent extends EventMeta {
+  type: 'PositionEncrypted';
+  positionHash: string;
+  pool: string;
+}
+
+// Migration contracts
+
+export interface MigrationCompletedEvent extends EventMeta {
+  type: 'MigrationCompleted';
+  launchId: bigint;
+  pool: string;
+}
+
+export interface LiquidityProtectedEvent extends EventMeta {
+  type: 'LiquidityProtected';
+  pool: string;
+  lpToken: string;
+  unlockTime: bigint;
+}
+
+export interface LPUnlockedEvent extends EventMeta {
+  type: 'LPUnlocked';
+  pool: string;
+}
+
+export type DecodedEvent =
+  | BuyEvent
+  | SellEvent
+  | MigratedEvent
+  | PrivateBuyEvent
+  | PrivateSellEvent
+  | TransferEvent
+  | LaunchCreatedEvent
+  | LaunchRegisteredEvent
+  | LaunchMigratedEvent
+  | MigrationThresholdReachedEvent
+  | DepositEvent
+  | WithdrawalEvent
+  | LeafInsertedEvent
+  | NullifierSpentEvent
+  | StealthAddressGeneratedEvent
+  | StealthAddressRegisteredEvent
+  | PrivateTradeExecutedEvent
+  | BalanceEncryptedEvent
+  | BalanceUpdatedEvent
+  | PositionEncryptedEvent
+  | MigrationCompletedEvent
+  | LiquidityProtectedEvent
+  | LPUnlockedEvent;
+
+export type DecodedEventType = DecodedEvent['type'];
+
+export type DecodedEventOf<T extends DecodedEventType> = Extract<DecodedEvent, { type: T }>;
+
+interface EventMember {
+  name: string;
+  type: string;
+  kind: 'key' | 'data';
+}
+
+interface EventDefinition {
+  type: DecodedEventType;
+  selector: string;
+  members: EventMember[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Events decoded by this module, and the ABI each one is read from
+ */
+const EVENT_SOURCES: Record<DecodedEventType, Abi> = {
+  Buy: BONDING_CURVE_POOL_ABI,
+  Sell: BONDING_CURVE_POOL_ABI,
+  Migrated: BONDING_CURVE_POOL_ABI,
+  PrivateBuy: BONDING_CURVE_POOL_ABI,
+  PrivateSell: BONDING_CURVE_POOL_ABI,
+  Transfer: MEMECOIN_TOKEN_ABI,
+  LaunchCreated: PUMP_FACTORY_ABI,
+  LaunchRegistered: PUMP_FACTORY_ABI,
+  LaunchMigrated: PUMP_FACTORY_ABI,
+  MigrationThresholdReached: PUMP_FACTORY_ABI,
+  Deposit: DARK_POOL_MIXER_ABI,
+  Withdrawal: DARK_POOL_MIXER_ABI,
+  LeafInserted: COMMITMENT_TREE_ABI,
+  NullifierSpent: NULLIFIER_REGISTRY_ABI,
+  StealthAddressGenerated: STEALTH_ADDRESS_GENERATOR_ABI,
+  StealthAddressRegistered: STEALTH_ADDRESS_GENERATOR_ABI,
+  PrivateTradeExecuted: PRIVACY_RELAYER_ABI,
+  BalanceEncrypted: ENCRYPTED_STATE_MANAGER_ABI,
+  BalanceUpdated: ENCRYPTED_STATE_MANAGER_ABI,
+  PositionEncrypted: ENCRYPTED_STATE_MANAGER_ABI,
+  MigrationCompleted: LIQUIDITY_MIGRATION_ABI,
+  LiquidityProtected: ZK_DEX_HOOK_ABI,
+  LPUnlocked: ZK_DEX_HOOK_ABI,
+};
+
+const U128_SHIFT = BigInt(128);
+
+// ============================================================================
+// Selector Registry
+// ============================================================================
+
+/**
+ * Find the struct definition of an event in an ABI by its short name
+ * (ABI names are fully qualified, e.g. pump_fun::...::BondingCurvePool::Buy)
+ */
+const findEventMembers = (abi: Abi, type: DecodedEventType): EventMember[] => {
+  const entry = abi.find(
+    (item: any) =>
+      item.type === 'event' &&
+      item.kind === 'struct' &&
+      typeof item.name === 'string' &&
+      item.name.split('::').pop() === type
+  );
+  if (!entry) {
+    throw new Error(`Event ${type} not found in ABI`);
+  }
+  return entry.members as EventMember[];
+};
+
+/**
+ * Contract events are flat enum variants, so keys[0] is sn_keccak of the variant name
+ * The registry is keyed by that selector alone: any contract emitting an event
+ * with the same short name (e.g. every ERC20 Transfer) decodes as this module's
+ * event, so callers must filter by emitter address.
+ */
+const buildRegistry = (): Map<string, EventDefinition> => {
+  const registry = new Map<string, EventDefinition>();
+  (Object.keys(EVENT_SOURCES) as DecodedEventType[]).forEach((type) => {
+    const selector = hash.getSelectorFromName(type);
+    registry.set(selector, {
+      type,
+      selector,
+      members: findEventMembers(EVENT_SOURCES[type], type),
+    });
+  });
+  return registry;
+};
+
+const EVENT_REGISTRY = buildRegistry();
+
+/**
+ * Selector (keys[0]) of every decoded event, keyed by event name
+ */
+export const EVENT_SELECTORS = Object.fromEntries(
+  Array.from(EVENT_REGISTRY.values()).map((definition) => [definition.type, definition.selector])
+) as Record<DecodedEventType, string>;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalize a felt to a lowercase hex string without leading zeros
+ */
+const normalizeFelt = (value: string): string => num.toHex(value);
+
+/**
+ * Normalize a contract address to 0x + 64 hex chars
+ */
+const toHexAddress = (value: string): string =>
+  `0x${BigInt(value).toString(16).padStart(64, '0')}`;
+
+const toCamelCase = (name: string): string =>
+  name.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * Read one member from a felt cursor, advancing it by the felts consumed
+ */
+const readMember = (felts: string[], cursor: { index: number }, type: string): unknown => {
+  const shortType = type.split('::').pop();
+  const take = (): string => {
+    const felt = felts[cursor.index];
+    if (felt === undefined) {
+      throw new Error('Event payload is shorter than its ABI definition');
+    }
+    cursor.index += 1;
+    return felt;
+  };
+
+  switch (shortType) {
+    case 'u256': {
+      const low = BigInt(take());
+      const high = BigInt(take());
+      // eslint-disable-next-line no-bitwise
+      return low + (high << U128_SHIFT);
+    }
+    case 'u8':
+    case 'u16':
+    case 'u32':
+    case 'u64':
+    case 'u128':
+      return BigInt(take());
+    case 'bool':
+      return BigInt(take()) !== BigInt(0);
+    case 'ContractAddress':
+      return toHexAddress(take());
+    default:
+      return normalizeFelt(take());
+  }
+};
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Look up the event name for a selector
+ */
+export const getEventType = (selector: string | undefined): DecodedEventType | null => {
+  if (!selector) return null;
+  return EVENT_REGISTRY.get(normalizeFelt(selector))?.type ?? null;
+};
+
+/**
+ * Decode a single event
+ * Returns null for events this module does not know or whose payload does
+ * not match the ABI. Transfer is known, so quote-token ERC20 transfers decode
+ * too; check fromAddress when only one contract's events are wanted.
+ */
+export const decodeEvent = (event: RawEvent): DecodedEvent | null => {
+  if (!event.keys || event.keys.length === 0) return null;
+
+  const definition = EVENT_REGISTRY.get(normalizeFelt(event.keys[0]));
+  if (!definition) return null;
+
+  const keys = event.keys.slice(1);
+  const data = event.data || [];
+  const keyCursor = { index: 0 };
+  const dataCursor = { index: 0 };
+  const fields: Record<string, unknown> = {};
+
+  try {
+    definition.members.forEach((member) => {
+      fields[toCamelCase(member.name)] =
+        member.kind === 'key'
+          ? readMember(keys, keyCursor, member.type)
+          : readMember(data, dataCursor, member.type);
+    });
+  } catch (error) {
+    console.warn(`Failed to decode ${definition.type} event:`, error);
+    return null;
+  }
+
+  return {
+    ...fields,
+    type: definition.type,
+    fromAddress: event.from_address ? toHexAddress(event.from_address) : null,
+    txHash: event.transaction_hash ?? null,
+    blockNumber: event.block_number ?? null,
+  } as DecodedEvent;
+};
+
+/**
+ * Decode a list of events, dropping unknown ones
+ * When types is given only those events are returned.
+ */
+export function decodeEvents(events: RawEvent[]): DecodedEvent[];
+export function decodeEvents<T extends DecodedEventType>(
+  events: RawEvent[],
+  types: T[]
+): DecodedEventOf<T>[];
+export function decodeEvents(events: RawEvent[], types?: DecodedEventType[]): DecodedEvent[] {
+  const decoded: DecodedEvent[] = [];
+  events.forEach((event) => {
+    const result = decodeEvent(event);
+    if (result && (!types || types.includes(result.type))) {
+      decoded.push(result);
+    }
+  });
+  return decoded;
+}
+
+/**
+ * Find the first event of a type in a transaction receipt
+ * fromAddress restricts the match to events emitted by one contract.
+ */
+export const findReceiptEvent = <T extends DecodedEventType>(
+  receipt: { events?: RawEvent[]; transaction_hash?: string; block_number?: number } | null,
+  type: T,
+  fromAddress?: string
+): DecodedEventOf<T> | null => {
+  const events = receipt?.events || [];
+  const emitter = fromAddress ? toHexAddress(fromAddress) : null;
+  const match = decodeEvents(
+    events.map((event) => ({
+      transaction_hash: receipt?.transaction_hash,
+      block_number: receipt?.block_number,
+      ...event,
+    })),
+    [type]
+  ).find((event) => !emitter || event.fromAddress === emitter);
+  return match ?? null;
+};
+
+export default {
+  EVENT_SELECTORS,
+  getEventType,
+  decodeEvent,
+  decodeEvents,
+  findReceiptEvent,
+};
@@ -4,6 +4,8 @@
  * Requirements: 2.2
  */
 
+import { findReceiptEvent } from './eventDecoder';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -29,14 +31,6 @@ export interface TransactionEvent {
   from_address?: string;
 }
 
-// ============================================================================
-// Constants
-// ============================================================================
-
-// LaunchCreated event selector (keccak256 of event signature)
-// This should match the actual event selector from the contract
-const LAUNCH_CREATED_EVENT_KEY = '0x'; // Will be populated based on actual contract
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -89,54 +83,20 @@ export const extractLaunchCreatedEvent = (
   receipt: TransactionReceipt
 ): LaunchCreatedEventData | null => {
   try {
-    const events = receipt.events || [];
-    
-    if (events.length === 0) {
-      return null;
-    }
-
-    // Iterate through events to find LaunchCreated
-    for (const event of events) {
-      // Check if event has required structure
-      if (!event.keys || !event.data) {
-        continue;
-      }
-
-      // LaunchCreated event structure from PumpFactory:
-      // Keys: [event_selector, launch_id]
-      // Data: [token, pool, stealth_creator, migration_threshold_low, migration_threshold_high]
-      
-      // We need at least 1 key (launch_id) and 2 data items (token, pool)
-      if (event.keys.length >= 1 && event.data.length >= 2) {
-        const launchId = parseU256(event.keys[event.keys.length - 1]); // Last key is launch_id
-        const token = event.data[0]?.toString() || '0x0';
-        const pool = event.data[1]?.toString() || '0x0';
-        
-        // Validate extracted addresses
-        if (isValidAddress(token) && isValidAddress(pool)) {
-          const result: LaunchCreatedEventData = {
-            launchId,
-            token,
-            pool,
-          };
+    const event = findReceiptEvent(receipt, 'LaunchCreated');
 
-          // Extract optional fields if present
-          if (event.data.length >= 3) {
-            result.stealthCreator = event.data[2]?.toString();
-          }
-          if (event.data.length >= 5) {
-            result.migrationThreshold = parseU256({
-              low: event.data[3],
-              high: event.data[4],
-            });
-          }
-
-          return result;
-        }
-      }
+    // Validate extracted addresses
+    if (!event || !isValidAddress(event.token) || !isValidAddress(event.pool)) {
+      return null;
     }
 
-    return null;
+    return {
+      launchId: event.launchId,
+      token: event.token,
+      pool: event.pool,
+      stealthCreator: event.stealthCreator,
+      migrationThreshold: event.migrationThreshold,
+    };
   } catch (error) {
     console.error('Failed to extract LaunchCreated event:', error);
     return null;
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+import { MixerNote, computeNoteCommitment, formatMixerNote, parseMixerNote } from './mixerNote';
+
+const TOKEN = '0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7';
+const AMOUNT = BigInt('1000000000000000000');
+const NULLIFIER = '0x4a11f1e2';
+const SECRET = '0x5ec2e7';
+
+const note = (overrides: Partial<MixerNote> = {}): MixerNote => ({
+  network: 'sepolia',
+  token: TOKEN,
+  amount: AMOUNT,
+  nullifier: NULLIFIER,
+  secret: SECRET,
+  commitment: computeNoteCommitment(NULLIFIER, SECRET),
+  ...overrides,
+});
+
+describe('mixer notes', () => {
+  it('round trips a confirmed note', () => {
+    const original = note({ leafIndex: BigInt(42) });
+
+    expect(parseMixerNote(formatMixerNote(original))).toEqual(original);
+  });
+
+  it('round trips a note without a leaf index', () => {
+    const original = note();
+    const parsed = parseMixerNote(`  ${formatMixerNote(original)}\n`);
+
+    expect(parsed).toEqual(original);
+    expect(parsed.leafIndex).toBeUndefined();
+  });
+
+  it('commits to both the nullifier and the secret', () => {
+    const commitment = computeNoteCommitment(NULLIFIER, SECRET);
+
+    expect(computeNoteCommitment(NULLIFIER, '0x5ec2e8')).not.toBe(commitment);
+    expect(computeNoteCommitment('0x4a11f1e3', SECRET)).not.toBe(commitment);
+    expect(computeNoteCommitment(SECRET, NULLIFIER)).not.toBe(commitment);
+  });
+
+  it('rejects a note whose amount, secret or checksum was edited', () => {
+    const formatted = formatMixerNote(note({ leafIndex: BigInt(7) }));
+    const parts = formatted.split(':');
+    const edit = (index: number, value: string) =>
+      parts.map((part, i) => (i === index ? value : part)).join(':');
+
+    expect(() => parseMixerNote(edit(3, (AMOUNT * BigInt(10)).toString()))).toThrow(
+      'Mixer note is corrupted'
+    );
+    expect(() => parseMixerNote(edit(5, '0x1'))).toThrow('Mixer note is corrupted');
+    expect(() => parseMixerNote(edit(6, ''))).toThrow('Mixer note is corrupted');
+    expect(() => parseMixerNote(edit(7, '00000000'))).toThrow('Mixer note is corrupted');
+  });
+
+  it('rejects strings that are not notes', () => {
+    const formatted = formatMixerNote(note());
+
+    expect(() => parseMixerNote(formatted.replace('zump-mixer-v2', 'zump-mixer-v3'))).toThrow(
+      'Not a Zump mixer note'
+    );
+    expect(() => parseMixerNote(formatted.split(':').slice(0, 7).join(':'))).toThrow(
+      'Not a Zump mixer note'
+    );
+    expect(() => parseMixerNote('')).toThrow('Not a Zump mixer note');
+  });
+
+  it('still reads v1 notes, which have no checksum', () => {
+    const original = note();
+    const v1 = [
+      'zump-mixer-v1',
+      original.network,
+      original.token,
+      original.amount.toString(),
+      original.nullifier,
+      original.secret,
+      '',
+    ].join(':');
+
+    expect(parseMixerNote(v1)).toEqual(original);
+    expect(() => parseMixerNote(v1.replace(original.secret, 'not-a-felt'))).toThrow(
+      'Mixer note is corrupted'
+    );
+  });
+});
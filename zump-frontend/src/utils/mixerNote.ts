@@ -0,0 +1,135 @@
+/**
+ * Mixer Notes
+ * Secret/nullifier notes for DarkPoolMixer deposits and their portable
+ * string form
+ * Requirements: 7.1, 7.2
+ */
+
+import { hash, num, shortString } from 'starknet';
+import { randomPrivateKey } from './stealthKeys';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MixerNote {
+  network: string;
+  token: string;
+  /** Deposited amount in token base units */
+  amount: bigint;
+  nullifier: string;
+  secret: string;
+  commitment: string;
+  /** CommitmentTree position, known once the deposit is confirmed */
+  leafIndex?: bigint;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const NOTE_PREFIX = 'zump-mixer-v2';
+
+/** v1 notes carry no checksum; they are still accepted */
+const LEGACY_NOTE_PREFIX = 'zump-mixer-v1';
+
+/**
+ * Client-only domain separator for note commitments
+ */
+export const MIXER_COMMITMENT_DOMAIN = shortString.encodeShortString('ZUMP_MIXER_NOTE');
+
+// ============================================================================
+// Note Functions
+// ============================================================================
+
+/**
+ * Commitment inserted into CommitmentTree for a note
+ * The tree accepts any non-zero felt; hashing the secret in keeps the
+ * nullifier unlinkable to the deposit until it is spent.
+ */
+export const computeNoteCommitment = (nullifier: string, secret: string): string =>
+  hash.computePoseidonHashOnElements([MIXER_COMMITMENT_DOMAIN, nullifier, secret]);
+
+/**
+ * Last 8 hex digits of the note body's keccak, so an edited note is refused
+ * before its commitment is looked up
+ */
+const noteChecksum = (body: string): string =>
+  hash.starknetKeccak(body).toString(16).padStart(8, '0').slice(-8);
+
+/**
+ * Create a note with a fresh secret and nullifier
+ */
+export const generateMixerNote = (network: string, token: string, amount: bigint): MixerNote => {
+  const nullifier = randomPrivateKey();
+  const secret = randomPrivateKey();
+  return {
+    network,
+    token: num.toHex(token),
+    amount,
+    nullifier,
+    secret,
+    commitment: computeNoteCommitment(nullifier, secret),
+  };
+};
+
+/**
+ * Serialize a note; anyone holding the string can withdraw the deposit
+ */
+export const formatMixerNote = (note: MixerNote): string => {
+  const body = [
+    NOTE_PREFIX,
+    note.network,
+    note.token,
+    note.amount.toString(),
+    note.nullifier,
+    note.secret,
+    note.leafIndex === undefined ? '' : note.leafIndex.toString(),
+  ].join(':');
+  return `${body}:${noteChecksum(body)}`;
+};
+
+/**
+ * Parse a serialized note and recompute its commitment
+ *
+ * @throws Error when the string is not a note, or its checksum does not match
+ */
+export const parseMixerNote = (value: string): MixerNote => {
+  const parts = value.trim().split(':');
+  const legacy = parts.length === 7 && parts[0] === LEGACY_NOTE_PREFIX;
+  if (!legacy && (parts.length !== 8 || parts[0] !== NOTE_PREFIX)) {
+    throw new Error('Not a Zump mixer note');
+  }
+  if (!legacy && parts[7].toLowerCase() !== noteChecksum(parts.slice(0, 7).join(':'))) {
+    throw new Error('Mixer note is corrupted');
+  }
+
+  const [, network, token, amount, nullifier, secret, leafIndex] = parts;
+  try {
+    return {
+      network,
+      token: num.toHex(token),
+      amount: BigInt(amount),
+      nullifier: num.toHex(nullifier),
+      secret: num.toHex(secret),
+      commitment: computeNoteCommitment(nullifier, secret),
+      leafIndex: leafIndex === '' ? undefined : BigInt(leafIndex),
+    };
+  } catch {
+    throw new Error('Mixer note is corrupted');
+  }
+};
+
+/**
+ * File name used when a note is downloaded
+ */
+export const getMixerNoteFileName = (note: MixerNote): string =>
+  `zump-note-${note.commitment.slice(2, 10)}.txt`;
+
+export default {
+  computeNoteCommitment,
+  generateMixerNote,
+  formatMixerNote,
+  parseMixerNote,
+  getMixerNoteFileName,
+};
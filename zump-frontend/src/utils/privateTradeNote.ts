@@ -0,0 +1,75 @@
+/**
+ * Private Trade Notes
+ * Secret/nullifier pairs behind BondingCurvePool private buys; the
+ * nullifier is revealed when the position is privately sold
+ * Requirements: 6.1, 6.2
+ */
+
+import { hash, num, shortString } from 'starknet';
+import { randomPrivateKey } from './stealthKeys';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PrivateTradeNote {
+  poolAddress: string;
+  /** Tokens bought, in base units */
+  amount: bigint;
+  nullifier: string;
+  secret: string;
+  commitment: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Client-only domain separator for private buy commitments
+ */
+export const PRIVATE_TRADE_COMMITMENT_DOMAIN = shortString.encodeShortString('ZUMP_PRIVATE_TRADE');
+
+// ============================================================================
+// Note Functions
+// ============================================================================
+
+/**
+ * Commitment private_buy records for a position
+ * The pool stores any felt; hashing the secret in keeps the nullifier
+ * unlinkable to the buy until the position is sold.
+ */
+export const computePrivateTradeCommitment = (
+  poolAddress: string,
+  amount: bigint,
+  nullifier: string,
+  secret: string
+): string =>
+  hash.computePoseidonHashOnElements([
+    PRIVATE_TRADE_COMMITMENT_DOMAIN,
+    poolAddress,
+    num.toHex(amount),
+    nullifier,
+    secret,
+  ]);
+
+/**
+ * Create a note with a fresh secret and nullifier
+ */
+export const generatePrivateTradeNote = (poolAddress: string, amount: bigint): PrivateTradeNote => {
+  const pool = num.toHex(poolAddress);
+  const nullifier = randomPrivateKey();
+  const secret = randomPrivateKey();
+  return {
+    poolAddress: pool,
+    amount,
+    nullifier,
+    secret,
+    commitment: computePrivateTradeCommitment(pool, amount, nullifier, secret),
+  };
+};
+
+export default {
+  computePrivateTradeCommitment,
+  generatePrivateTradeNote,
+};
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+import { shortString } from 'starknet';
+import {
+  StealthKeys,
+  computeEcdh,
+  computeOnChainStealthAddress,
+  createStealthPayment,
+  deriveEphemeralPubkey,
+  getPublicKey,
+  recoverStealthPayment,
+} from './stealthKeys';
+
+// Same vectors as stealth_vector_tests in tests/test_integration.cairo
+const SPENDING_KEY = '0x1111';
+const VIEWING_KEY = '0x2222';
+const EPHEMERAL_KEY = '0x3333';
+
+const SPENDING_PUBKEY = '0x3a68ed59df05e2313925e0f0c83b5951decacdf9109d7d8969541eb8b4b7e89';
+const VIEWING_PUBKEY = '0x6bfa2238af7eb25ad41eb8787234d303b4df22a36d545216bf9b91935636c80';
+const EPHEMERAL_PUBKEY = '0x102560da2308127e6f0c079182ff4c63736fa57db33429cc80f9c63cbac564b';
+const ECDH_SECRET = '0x2b8e1ff652871ba0572c6cb2e72f59ddcebad737534e815128d16f7df9fd869';
+const SHARED_SECRET = '0x350ca18404f4d6b8dc444f74004b2d9879de3ab3df2947dcd4710d8e2c5c345';
+const STEALTH_ADDRESS = '0xf4d2de19f3756b9221d4bdf9a3d28a13159203c4d8c03df7c31cc5b8632b11';
+const VIEW_TAG = '0x407bb6e15131ef75de4c317b07a517140f955a8dfbca3c5be5c5134c04a0a58';
+
+const KEYS: StealthKeys = {
+  spending: { privateKey: SPENDING_KEY, publicKey: SPENDING_PUBKEY },
+  viewing: { privateKey: VIEWING_KEY, publicKey: VIEWING_PUBKEY },
+};
+
+const META = { spendingPubkey: SPENDING_PUBKEY, viewingPubkey: VIEWING_PUBKEY };
+
+describe('stealth key vectors', () => {
+  it('derives the public keys the contract computes', () => {
+    expect(getPublicKey(SPENDING_KEY)).toBe(SPENDING_PUBKEY);
+    expect(getPublicKey(VIEWING_KEY)).toBe(VIEWING_PUBKEY);
+    expect(getPublicKey(EPHEMERAL_KEY)).toBe(EPHEMERAL_PUBKEY);
+  });
+
+  it('reaches the same ECDH secret from both sides', () => {
+    expect(computeEcdh(EPHEMERAL_KEY, VIEWING_PUBKEY)).toBe(ECDH_SECRET);
+    expect(computeEcdh(VIEWING_KEY, EPHEMERAL_PUBKEY)).toBe(ECDH_SECRET);
+  });
+
+  it('creates the stealth payment the contract hashes produce', () => {
+    expect(createStealthPayment(META, EPHEMERAL_KEY)).toEqual({
+      address: STEALTH_ADDRESS,
+      viewTag: VIEW_TAG,
+      ephemeralPubkey: EPHEMERAL_PUBKEY,
+      sharedSecret: SHARED_SECRET,
+    });
+  });
+
+  it('recovers the payment from the published ephemeral key', () => {
+    expect(recoverStealthPayment(KEYS, EPHEMERAL_PUBKEY)).toEqual(createStealthPayment(META, EPHEMERAL_KEY));
+  });
+
+  it('matches the address generate_stealth_address registers', () => {
+    const ephemeralPubkey = deriveEphemeralPubkey(
+      shortString.encodeShortString('random_789'),
+      BigInt(1000),
+      BigInt(7)
+    );
+    expect(ephemeralPubkey).toBe('0x7df7cd6fc5056c3ae418d5345046c5a54ddf4f82a1477111540c9a1baef152f');
+
+    const payment = computeOnChainStealthAddress(META, ephemeralPubkey);
+    expect(payment.address).toBe('0x4f36f8d6c62e019ef29b2e93a6e3b451459e0ac4f7319d97433822759771b7e');
+    expect(payment.viewTag).toBe('0x3fbb9dbecb7a3d08d84eff6bce27ef595dc6856c5fb5f8f2742739caab25e61');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Stealth Keys
+ * Stark-curve spending/viewing keys and stealth address derivation that
+ * reproduces StealthAddressGenerator's Poseidon layouts
+ * Requirements: 2.1, 2.2, 2.3
+ */
+
+import { Signature, TypedData, ec, encode, hash, shortString, stark } from 'starknet';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StarkKeypair {
+  privateKey: string;
+  /** x coordinate of privateKey·G, the usual Stark public key */
+  publicKey: string;
+}
+
+export interface StealthKeys {
+  spending: StarkKeypair;
+  viewing: StarkKeypair;
+}
+
+/**
+ * Public half of StealthKeys; what a sender needs to pay the owner
+ */
+export interface StealthMetaAddress {
+  spendingPubkey: string;
+  viewingPubkey: string;
+}
+
+export interface StealthPayment {
+  address: string;
+  viewTag: string;
+  ephemeralPubkey: string;
+  sharedSecret: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CURVE = ec.starkCurve;
+const CURVE_ORDER = CURVE.CURVE.n;
+const FIELD_PRIME = BigInt('0x800000000000011000000000000000000000000000000000000000000000001');
+
+/**
+ * Domain separators, identical to StealthAddressGenerator::DomainSeparators
+ */
+export const STEALTH_DOMAINS = {
+  EPHEMERAL_KEY: shortString.encodeShortString('ZUMP_EPHEMERAL_KEY'),
+  STEALTH_ADDRESS: shortString.encodeShortString('ZUMP_STEALTH_ADDR'),
+  VIEW_TAG: shortString.encodeShortString('ZUMP_VIEW_TAG'),
+  SPENDING_KEY: shortString.encodeShortString('ZUMP_SPENDING_KEY'),
+  /** Client-only: separates the viewing key from the spending key */
+  VIEWING_KEY: shortString.encodeShortString('ZUMP_VIEWING_KEY'),
+  /** Client-only: seed both keys are derived from */
+  SEED: shortString.encodeShortString('ZUMP_STEALTH_SEED'),
+} as const;
+
+const KEY_DERIVATION_MESSAGE = 'Derive Zump stealth keys';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const toHex = (value: bigint): string => `0x${value.toString(16)}`;
+
+const poseidon = (...values: (string | bigint)[]): string =>
+  toHex(BigInt(hash.computePoseidonHashOnElements(values)));
+
+/**
+ * Map a felt onto a valid private key in [1, n - 1]
+ */
+const toPrivateKey = (value: string): string =>
+  toHex((BigInt(value) % (CURVE_ORDER - BigInt(1))) + BigInt(1));
+
+/**
+ * Curve point for an x-only public key
+ * Either y works: x(k·P) = x(k·(-P)), which is all ECDH and getStarkKey use.
+ */
+const toCurvePoint = (publicKey: string) =>
+  CURVE.ProjectivePoint.fromHex(`02${BigInt(publicKey).toString(16).padStart(64, '0')}`);
+
+/**
+ * Random private key from the browser CSPRNG
+ */
+export const randomPrivateKey = (): string =>
+  toPrivateKey(`0x${encode.buf2hex(CURVE.utils.randomPrivateKey())}`);
+
+/**
+ * Public key for a private key
+ */
+export const getPublicKey = (privateKey: string): string => toHex(BigInt(CURVE.getStarkKey(privateKey)));
+
+/**
+ * Whether a felt is the x coordinate of a point on the Stark curve
+ */
+export const isValidPublicKey = (publicKey: string): boolean => {
+  try {
+    toCurvePoint(publicKey).assertValidity();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Elliptic-curve Diffie-Hellman on the Stark curve
+ * x(a·B) = x(b·A), so sender and recipient reach the same value.
+ *
+ * @param privateKey - Own private key
+ * @param publicKey - Other party's public key
+ * @returns x coordinate of the shared point
+ */
+export const computeEcdh = (privateKey: string, publicKey: string): string =>
+  toHex(toCurvePoint(publicKey).multiply(BigInt(privateKey)).toAffine().x);
+
+// ============================================================================
+// Key Derivation
+// ============================================================================
+
+/**
+ * Typed data the wallet signs to derive stealth keys
+ * Stark signatures are deterministic (RFC 6979), so the same wallet always
+ * gets the same keys back and nothing has to be stored.
+ */
+export const getStealthKeyTypedData = (chainId: string): TypedData => ({
+  types: {
+    StarkNetDomain: [
+      { name: 'name', type: 'felt' },
+      { name: 'version', type: 'felt' },
+      { name: 'chainId', type: 'felt' },
+    ],
+    Message: [{ name: 'action', type: 'felt' }],
+  },
+  primaryType: 'Message',
+  domain: { name: 'Zump.fun', version: '1', chainId },
+  message: { action: KEY_DERIVATION_MESSAGE },
+});
+
+/**
+ * Stealth seed for a wallet signature
+ * The seed is the recovery secret: both keypairs follow from it alone.
+ *
+ * @param signature - Signature over getStealthKeyTypedData
+ * @returns Seed felt
+ */
+export const deriveStealthSeed = (signature: Signature): string => {
+  const parts = stark.formatSignature(signature);
+  if (parts.length === 0) {
+    throw new Error('Empty signature');
+  }
+  return poseidon(STEALTH_DOMAINS.SEED, ...parts);
+};
+
+/**
+ * Whether a string is a usable stealth seed (non-zero felt)
+ */
+export const isValidStealthSeed = (seed: string): boolean => {
+  try {
+    const value = BigInt(seed.trim());
+    return value > BigInt(0) && value < FIELD_PRIME;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Derive spending and viewing keypairs from a stealth seed
+ * Deterministic, so restoring the seed restores every stealth address.
+ */
+export const deriveStealthKeysFromSeed = (seed: string): StealthKeys => {
+  if (!isValidStealthSeed(seed)) {
+    throw new Error('Invalid stealth seed');
+  }
+
+  const normalized = toHex(BigInt(seed.trim()));
+  const spendingKey = toPrivateKey(poseidon(STEALTH_DOMAINS.SPENDING_KEY, normalized));
+  const viewingKey = toPrivateKey(poseidon(STEALTH_DOMAINS.VIEWING_KEY, normalized));
+
+  return {
+    spending: { privateKey: spendingKey, publicKey: getPublicKey(spendingKey) },
+    viewing: { privateKey: viewingKey, publicKey: getPublicKey(viewingKey) },
+  };
+};
+
+/**
+ * Derive spending and viewing keypairs from a wallet signature
+ *
+ * @param signature - Signature over getStealthKeyTypedData
+ * @returns Spending and viewing keypairs
+ */
+export const deriveStealthKeys = (signature: Signature): StealthKeys =>
+  deriveStealthKeysFromSeed(deriveStealthSeed(signature));
+
+/**
+ * Public keys to share with senders
+ */
+export const toMetaAddress = (keys: StealthKeys): StealthMetaAddress => ({
+  spendingPubkey: keys.spending.publicKey,
+  viewingPubkey: keys.viewing.publicKey,
+});
+
+// ============================================================================
+// Contract Hashes (StealthAddressGenerator)
+// ============================================================================
+
+/**
+ * derive_ephemeral_pubkey: H(EPHEMERAL_KEY, random, timestamp, nonce.low, nonce.high)
+ */
+export const deriveEphemeralPubkey = (
+  ephemeralRandom: string,
+  timestamp: bigint,
+  nonce: bigint
+): string => {
+  const mask = (BigInt(1) << BigInt(128)) - BigInt(1);
+  return poseidon(
+    STEALTH_DOMAINS.EPHEMERAL_KEY,
+    ephemeralRandom,
+    timestamp,
+    nonce & mask,
+    nonce >> BigInt(128)
+  );
+};
+
+/**
+ * derive_shared_secret_internal: H(SPENDING_KEY, spending_pubkey, viewing_pubkey, ephemeral)
+ */
+export const deriveSharedSecret = (
+  spendingPubkey: string,
+  viewingPubkey: string,
+  ephemeral: string
+): string => poseidon(STEALTH_DOMAINS.SPENDING_KEY, spendingPubkey, viewingPubkey, ephemeral);
+
+/**
+ * compute_stealth_hash: H(STEALTH_ADDRESS, shared_secret)
+ */
+export const computeStealthHash = (sharedSecret: string): string =>
+  poseidon(STEALTH_DOMAINS.STEALTH_ADDRESS, sharedSecret);
+
+/**
+ * compute_view_tag: H(VIEW_TAG, viewing_pubkey, ephemeral_pubkey)
+ */
+export const computeViewTag = (viewingPubkey: string, ephemeralPubkey: string): string =>
+  poseidon(STEALTH_DOMAINS.VIEW_TAG, viewingPubkey, ephemeralPubkey);
+
+// ============================================================================
+// Stealth Payments
+// ============================================================================
+
+/**
+ * Stealth address for a recipient, computed by the sender
+ * The ephemeral key is a real curve key; its ECDH point with the viewing key
+ * takes the ephemeral slot of derive_shared_secret_internal, so only the
+ * sender and the viewing-key holder can compute the secret.
+ *
+ * @param meta - Recipient's public keys
+ * @param ephemeralPrivateKey - Fresh random key (defaults to a new one)
+ * @returns Stealth address, view tag and the ephemeral key to publish
+ */
+export const createStealthPayment = (
+  meta: StealthMetaAddress,
+  ephemeralPrivateKey: string = randomPrivateKey()
+): StealthPayment => {
+  if (!isValidPublicKey(meta.spendingPubkey) || !isValidPublicKey(meta.viewingPubkey)) {
+    throw new Error('Invalid stealth meta-address');
+  }
+
+  const ephemeralPubkey = getPublicKey(ephemeralPrivateKey);
+  const ecdh = computeEcdh(ephemeralPrivateKey, meta.viewingPubkey);
+  const sharedSecret = deriveSharedSecret(meta.spendingPubkey, meta.viewingPubkey, ecdh);
+
+  return {
+    address: computeStealthHash(sharedSecret),
+    viewTag: computeViewTag(meta.viewingPubkey, ephemeralPubkey),
+    ephemeralPubkey,
+    sharedSecret,
+  };
+};
+
+/**
+ * Recompute a stealth payment from the published ephemeral key
+ * Callers compare the result with the announced address to claim it.
+ *
+ * @param keys - Recipient's keys
+ * @param ephemeralPubkey - Ephemeral key published by the sender
+ * @returns The same payment the sender computed
+ */
+export const recoverStealthPayment = (keys: StealthKeys, ephemeralPubkey: string): StealthPayment => {
+  if (!isValidPublicKey(ephemeralPubkey)) {
+    throw new Error('Invalid ephemeral public key');
+  }
+
+  const ecdh = computeEcdh(keys.viewing.privateKey, ephemeralPubkey);
+  const sharedSecret = deriveSharedSecret(keys.spending.publicKey, keys.viewing.publicKey, ecdh);
+
+  return {
+    address: computeStealthHash(sharedSecret),
+    viewTag: computeViewTag(keys.viewing.publicKey, ephemeralPubkey),
+    ephemeralPubkey,
+    sharedSecret,
+  };
+};
+
+/**
+ * Stealth address generate_stealth_address registers for an emitted ephemeral key
+ * On-chain addresses hash public values only, so anyone can recompute them.
+ */
+export const computeOnChainStealthAddress = (
+  meta: StealthMetaAddress,
+  ephemeralPubkey: string
+): StealthPayment => {
+  const sharedSecret = deriveSharedSecret(meta.spendingPubkey, meta.viewingPubkey, ephemeralPubkey);
+
+  return {
+    address: computeStealthHash(sharedSecret),
+    viewTag: computeViewTag(meta.viewingPubkey, ephemeralPubkey),
+    ephemeralPubkey,
+    sharedSecret,
+  };
+};
+
+export default {
+  STEALTH_DOMAINS,
+  getStealthKeyTypedData,
+  deriveStealthSeed,
+  deriveStealthKeysFromSeed,
+  deriveStealthKeys,
+  toMetaAddress,
+  deriveEphemeralPubkey,
+  deriveSharedSecret,
+  computeStealthHash,
+  computeViewTag,
+  computeEcdh,
+  createStealthPayment,
+  recoverStealthPayment,
+  computeOnChainStealthAddress,
+};
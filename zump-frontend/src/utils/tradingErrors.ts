@@ -4,6 +4,8 @@
  * Requirements: 5.5, 6.5
  */
 
+import { CONTRACT_ERROR_CODES } from '../@types/privacy';
+
 // ===========================================
 // Types
 // ===========================================
@@ -12,6 +14,7 @@ export interface TradingError {
   code: string;
   message: string;
   recoveryOptions?: RecoveryOption[];
+  slippage?: SlippageDetails;
 }
 
 export interface RecoveryOption {
@@ -19,6 +22,39 @@ export interface RecoveryOption {
   action: () => void;
 }
 
+/**
+ * Fresh quote vs. the bound the user signed off on
+ */
+export interface SlippageDetails {
+  side: 'buy' | 'sell';
+  /** Quote computed from pool state right before submitting */
+  quoted: bigint;
+  /** maxCost for buys, minReturn for sells */
+  bound: bigint;
+}
+
+/**
+ * Handlers for recovery options that need component state
+ */
+export interface RecoveryHandlers {
+  onIncreaseSlippage?: (details?: SlippageDetails) => void;
+  /** Show the DEX swap in place of the bonding curve trade */
+  onSwitchToDex?: () => void;
+}
+
+/**
+ * Thrown by the trade builder when the fresh quote breaks the slippage bound
+ * Requirements: 5.3, 6.3
+ */
+export class SlippageExceededError extends Error {
+  code = 'SLIPPAGE_EXCEEDED';
+
+  constructor(public details: SlippageDetails) {
+    super(`SLIPPAGE_EXCEEDED: ${details.side} quote ${details.quoted.toString()} exceeds bound ${details.bound.toString()}`);
+    this.name = 'SlippageExceededError';
+  }
+}
+
 // ===========================================
 // Error Messages (Turkish)
 // ===========================================
@@ -34,6 +70,7 @@ export const ERROR_MESSAGES: Record<string, string> = {
   'ALREADY_MIGRATED': 'Bu havuz DEX\'e taşınmış. Lütfen DEX üzerinden işlem yapın.',
   'MAX_SUPPLY_REACHED': 'Maksimum arz limitine ulaşıldı.',
   'INSUFFICIENT_TOKENS_SOLD': 'Satılabilecek yeterli token yok.',
+  'NOT_ENOUGH_SOLD': 'Satılabilecek yeterli token yok.',
   
   // Authorization errors
   'NOT_AUTHORIZED': 'Bu işlem için yetkiniz yok.',
@@ -50,7 +87,36 @@ export const ERROR_MESSAGES: Record<string, string> = {
   'NETWORK_ERROR': 'Ağ hatası. Lütfen internet bağlantınızı kontrol edin.',
   'NETWORK_TIMEOUT': 'Ağ zaman aşımı. Lütfen tekrar deneyin.',
   'RPC_ERROR': 'RPC hatası. Lütfen daha sonra tekrar deneyin.',
-  
+
+  // Proof errors
+  'PROOF_CANCELLED': 'Kanıt oluşturma iptal edildi.',
+  'PROOF_POINT_OUT_OF_RANGE': 'Kanıt, kontratın beklediği formata sığmıyor.',
+  'PROOF_INPUT_MISMATCH': 'Devre çıktısı işlem girdileriyle eşleşmiyor.',
+  'CIRCUIT_MANIFEST_UNAVAILABLE': 'Devre dosyaları yüklenemedi.',
+  'CIRCUIT_NOT_FOUND': 'Bu işlem için devre bulunamadı.',
+  'PROVER_UNAVAILABLE': 'Kanıt üretici yüklenemedi.',
+
+  // Relayer errors
+  'RELAYER_UNAVAILABLE': 'Relayer\'a ulaşılamadı. Lütfen daha sonra tekrar deneyin.',
+  'RELAYER_NOT_CONFIGURED': 'Relayer yapılandırılmamış.',
+  'NO_FUNDING_NOTE': 'Bu alım için yeterli miktarda yatırılmış mixer notunuz yok.',
+  'INSUFFICIENT_FUNDING': 'Mixer notu, alım maliyetini ve relayer ücretini karşılamıyor.',
+  'FEE_ABOVE_MAX': 'Relayer ücreti arttı. Lütfen yeni teklifle tekrar deneyin.',
+  'REQUEST_EXPIRED': 'Relayer isteğinin süresi doldu. Lütfen tekrar deneyin.',
+  'DUPLICATE_REQUEST': 'Bu mixer notu zaten bekleyen bir alımda kullanılıyor.',
+  'RELAY_TIMEOUT': 'Relayer işlemi zamanında tamamlanmadı. Durumu daha sonra kontrol edin.',
+  'RELAY_FAILED': 'Relayer işlemi başarısız oldu.',
+
+  // DEX errors (graduated tokens)
+  'DEX_NO_ROUTE': 'DEX üzerinde bu işlem için rota bulunamadı.',
+  'DEX_QUOTE_EXPIRED': 'DEX fiyat teklifinin süresi doldu. Lütfen yeni teklif alın.',
+  'DEX_UNAVAILABLE': 'DEX servisine ulaşılamadı. Lütfen daha sonra tekrar deneyin.',
+
+  // Admin errors (owner-only setters)
+  'ONLY_OWNER': 'Bu işlem yalnızca kontrat sahibi tarafından yapılabilir.',
+  'INVALID_LIMITS': 'Minimum değer maksimum değerden küçük olmalı.',
+  'ADMIN_INVALID_INPUT': 'Geçersiz değer. Lütfen alanları kontrol edin.',
+
   // Unknown error
   'UNKNOWN_ERROR': 'Bilinmeyen bir hata oluştu. Lütfen tekrar deneyin.',
 };
@@ -64,6 +130,13 @@ export const ERROR_MESSAGES: Record<string, string> = {
  * Requirements: 5.5, 6.5
  */
 export const parseContractError = (error: unknown): TradingError => {
+  if (error instanceof SlippageExceededError) {
+    return {
+      ...createTradingError('SLIPPAGE_EXCEEDED', ERROR_MESSAGES.SLIPPAGE_EXCEEDED),
+      slippage: error.details,
+    };
+  }
+
   const errorMessage = error instanceof Error ? error.message : String(error);
   const errorLower = errorMessage.toLowerCase();
   
@@ -75,6 +148,12 @@ export const parseContractError = (error: unknown): TradingError => {
   if (matchedEntry) {
     return createTradingError(matchedEntry[0], matchedEntry[1]);
   }
+
+  // Privacy contract codes (private trades, nullifiers, proofs)
+  const privacyCode = Object.keys(CONTRACT_ERROR_CODES).find((code) => errorMessage.includes(code));
+  if (privacyCode) {
+    return createTradingError(privacyCode, CONTRACT_ERROR_CODES[privacyCode]);
+  }
   
   // Check for specific error patterns
   if (errorLower.includes('insufficient') && errorLower.includes('balance')) {
@@ -82,12 +161,7 @@ export const parseContractError = (error: unknown): TradingError => {
   }
   
   if (errorLower.includes('migrated')) {
-    return createTradingError('ALREADY_MIGRATED', ERROR_MESSAGES.ALREADY_MIGRATED, [
-      {
-        label: 'DEX\'e Git',
-        action: () => window.open('https://app.avnu.fi', '_blank'),
-      },
-    ]);
+    return createTradingError('ALREADY_MIGRATED', ERROR_MESSAGES.ALREADY_MIGRATED);
   }
   
   if (errorLower.includes('rejected') || errorLower.includes('denied')) {
@@ -129,17 +203,24 @@ export const createTradingError = (
 
 /**
  * Get recovery options for a specific error code
+ * Options that need component state are only returned when a handler is given
  * Requirements: 5.5, 6.5
  */
-export const getRecoveryOptions = (errorCode: string): RecoveryOption[] => {
+export const getRecoveryOptions = (
+  errorCode: string,
+  handlers: RecoveryHandlers = {},
+  slippage?: SlippageDetails
+): RecoveryOption[] => {
   switch (errorCode) {
     case 'ALREADY_MIGRATED':
-      return [
-        {
-          label: 'DEX\'e Git',
-          action: () => window.open('https://app.avnu.fi', '_blank'),
-        },
-      ];
+      return handlers.onSwitchToDex
+        ? [
+            {
+              label: 'DEX ile İşlem Yap',
+              action: () => handlers.onSwitchToDex?.(),
+            },
+          ]
+        : [];
     
     case 'INSUFFICIENT_QUOTE_BALANCE':
       return [
@@ -150,12 +231,14 @@ export const getRecoveryOptions = (errorCode: string): RecoveryOption[] => {
       ];
     
     case 'SLIPPAGE_EXCEEDED':
-      return [
-        {
-          label: 'Slippage Artır',
-          action: () => {}, // This should be handled by the component
-        },
-      ];
+      return handlers.onIncreaseSlippage
+        ? [
+            {
+              label: 'Slippage Artır',
+              action: () => handlers.onIncreaseSlippage?.(slippage),
+            },
+          ]
+        : [];
     
     case 'NETWORK_ERROR':
     case 'NETWORK_TIMEOUT':
@@ -176,19 +259,57 @@ export const getRecoveryOptions = (errorCode: string): RecoveryOption[] => {
 // Error Display Helpers
 // ===========================================
 
+/**
+ * Smallest slippage (in percent) that would have accepted the fresh quote
+ * Measured against the quote shown to the user before submitting
+ */
+export const getRequiredSlippage = (details: SlippageDetails, expected: bigint): number => {
+  if (expected <= BigInt(0)) return 0;
+  const diff = details.side === 'buy'
+    ? details.quoted - expected
+    : expected - details.quoted;
+  if (diff <= BigInt(0)) return 0;
+  // Basis points, rounded up
+  const bps = (diff * BigInt(10000) + expected - BigInt(1)) / expected;
+  return Number(bps) / 100;
+};
+
+/**
+ * Slippage steps offered by "Slippage Artır" (percent)
+ */
+export const SLIPPAGE_STEPS = [0.5, 1, 2, 5, 10];
+
+/**
+ * Slippage to switch to after SLIPPAGE_EXCEEDED
+ * The next step above the current value, or enough to accept the fresh quote
+ * (plus 0.1% headroom) if that is higher, capped at the largest step
+ */
+export const getSuggestedSlippage = (
+  current: number,
+  details?: SlippageDetails,
+  expected?: bigint | null
+): number => {
+  const maxSlippage = SLIPPAGE_STEPS[SLIPPAGE_STEPS.length - 1];
+  const nextStep = SLIPPAGE_STEPS.find((step) => step > current) ?? maxSlippage;
+  const required = details && expected ? getRequiredSlippage(details, expected) : 0;
+  const withHeadroom = required > 0 ? Math.ceil(required * 10 + 1) / 10 : 0;
+  return Math.min(maxSlippage, Math.max(nextStep, withHeadroom));
+};
+
 /**
  * Check if error is recoverable
  */
 export const isRecoverableError = (errorCode: string): boolean => {
   const nonRecoverableErrors = [
     'NOT_AUTHORIZED',
+    'ONLY_OWNER',
     'MAX_SUPPLY_REACHED',
   ];
   return !nonRecoverableErrors.includes(errorCode);
 };
 
 /**
- * Check if error requires DEX redirect
+ * Check if error means the trade has to go through the DEX
  * Requirements: 6.5
  */
 export const requiresDexRedirect = (errorCode: string): boolean => {
@@ -213,6 +334,8 @@ export default {
   parseContractError,
   createTradingError,
   getRecoveryOptions,
+  getRequiredSlippage,
+  getSuggestedSlippage,
   isRecoverableError,
   requiresDexRedirect,
   getErrorSeverity,
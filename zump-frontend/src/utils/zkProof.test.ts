@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+
+import { CallData } from 'starknet';
+import { BONDING_CURVE_POOL_ABI, ZK_PROOF_VERIFIER_ABI } from '../abi';
+import { PROOF_TYPES, ZKProof, compileZKProof, createDevelopmentProof } from './zkProof';
+
+const PROOF: ZKProof = createDevelopmentProof({
+  proofType: PROOF_TYPES.BUY,
+  publicInputHash: '0x111',
+  merkleRoot: '0x222',
+  nullifierHash: '0x333',
+  timestamp: 1760000000,
+});
+
+const ABI_PROOF = {
+  public_input_hash: PROOF.publicInputHash,
+  merkle_root: PROOF.merkleRoot,
+  nullifier_hash: PROOF.nullifierHash,
+  proof_a: PROOF.proofA,
+  proof_b: PROOF.proofB,
+  proof_c: PROOF.proofC,
+  proof_type: PROOF.proofType,
+  timestamp: PROOF.timestamp,
+};
+
+describe('compileZKProof', () => {
+  it('serializes all 13 felts, with proof_b as a G2 point', () => {
+    const calldata = compileZKProof(PROOF);
+
+    expect(calldata).toHaveLength(13);
+    expect(calldata.slice(5, 9)).toEqual(
+      [PROOF.proofB.x0, PROOF.proofB.x1, PROOF.proofB.y0, PROOF.proofB.y1].map((felt) => BigInt(felt).toString())
+    );
+  });
+
+  it('matches the ZKProof layout of ZKProofVerifier.verify_proof', () => {
+    const verifierCalldata = new CallData(ZK_PROOF_VERIFIER_ABI).compile('verify_proof', { proof: ABI_PROOF });
+
+    expect(verifierCalldata).toEqual(compileZKProof(PROOF));
+  });
+
+  it('matches the ZKProof layout the pool forwards from private_buy', () => {
+    const poolCalldata = new CallData(BONDING_CURVE_POOL_ABI).compile('private_buy', {
+      amount_tokens: { low: 100, high: 0 },
+      proof: ABI_PROOF,
+      commitment: '0x444',
+    });
+
+    expect(poolCalldata.slice(2, 15)).toEqual(compileZKProof(PROOF));
+  });
+});
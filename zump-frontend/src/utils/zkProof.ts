@@ -0,0 +1,228 @@
+/**
+ * ZK Proofs
+ * ZKProof struct as BondingCurvePool takes it, plus the public inputs
+ * private trades commit to
+ * Requirements: 6.1, 6.2
+ */
+
+import { CallData, constants, hash, num, shortString } from 'starknet';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface G1ProofPoint {
+  x: string;
+  y: string;
+}
+
+export interface G2ProofPoint {
+  x0: string;
+  x1: string;
+  y0: string;
+  y1: string;
+}
+
+/**
+ * pump_fun::bonding_curve_pool::ZKProof
+ */
+export interface ZKProof {
+  publicInputHash: string;
+  merkleRoot: string;
+  nullifierHash: string;
+  proofA: G1ProofPoint;
+  proofB: G2ProofPoint;
+  proofC: G1ProofPoint;
+  proofType: ProofType;
+  /** Unix seconds; the verifier rejects proofs from the future or older than an hour */
+  timestamp: number;
+}
+
+export type ProofType = (typeof PROOF_TYPES)[keyof typeof PROOF_TYPES];
+
+/**
+ * Values a proof is bound to
+ */
+export interface ProofPublicInputs {
+  proofType: ProofType;
+  publicInputHash: string;
+  merkleRoot: string;
+  nullifierHash: string;
+  timestamp: number;
+}
+
+/**
+ * Groth16 proof as snarkjs returns it (decimal strings, projective coordinates)
+ */
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * PROOF_TYPE_* constants shared by the pool and ZKProofVerifier
+ */
+export const PROOF_TYPES = {
+  BUY: 1,
+  SELL: 2,
+  TRANSFER: 3,
+  LAUNCH: 4,
+} as const;
+
+/**
+ * ZKProofVerifier rejects proofs older than this (seconds)
+ */
+export const PROOF_VALIDITY_SECONDS = 3600;
+
+const DEV_PROOF_DOMAIN = shortString.encodeShortString('ZUMP_DEV_PROOF');
+
+// ============================================================================
+// Public Inputs
+// ============================================================================
+
+/**
+ * Hash binding a private trade proof to its pool, amount and commitment
+ * (or nullifier, for sells)
+ */
+export const computeTradeInputHash = (
+  proofType: ProofType,
+  poolAddress: string,
+  amountTokens: bigint,
+  commitmentOrNullifier: string
+): string =>
+  hash.computePoseidonHashOnElements([
+    proofType,
+    poolAddress,
+    num.toHex(amountTokens),
+    commitmentOrNullifier,
+  ]);
+
+/**
+ * Hash binding an anonymous launch proof to its token, pool and stealth creator
+ */
+export const computeLaunchInputHash = (
+  tokenAddress: string,
+  poolAddress: string,
+  stealthCreator: string
+): string =>
+  hash.computePoseidonHashOnElements([
+    PROOF_TYPES.LAUNCH,
+    tokenAddress,
+    poolAddress,
+    stealthCreator,
+  ]);
+
+/**
+ * Public nullifier hash; the raw nullifier only appears when it is spent
+ */
+export const computeNullifierHash = (nullifier: string): string =>
+  hash.computePoseidonHashOnElements([nullifier]);
+
+// ============================================================================
+// Proof Construction
+// ============================================================================
+
+/**
+ * Proof with deterministic points derived from the public inputs
+ *
+ * The deployed ZKProofVerifier only checks that the public inputs and
+ * proof points are non-zero and the timestamp is fresh, so these points
+ * pass it without a circuit. They prove nothing and must be replaced by a
+ * real prover once the verifier checks pairings.
+ */
+export const createDevelopmentProof = (inputs: ProofPublicInputs): ZKProof => {
+  const point = (label: string): string =>
+    hash.computePoseidonHashOnElements([
+      DEV_PROOF_DOMAIN,
+      inputs.publicInputHash,
+      inputs.nullifierHash,
+      shortString.encodeShortString(label),
+    ]);
+
+  return {
+    ...inputs,
+    proofA: { x: point('a.x'), y: point('a.y') },
+    proofB: { x0: point('b.x0'), x1: point('b.x1'), y0: point('b.y0'), y1: point('b.y1') },
+    proofC: { x: point('c.x'), y: point('c.y') },
+  };
+};
+
+/**
+ * Fit a prover's Groth16 proof into the ZKProof struct
+ *
+ * The circuit must expose [public_input_hash, merkle_root, nullifier_hash]
+ * as its first public signals, so the proof is bound to the same values the
+ * contracts read. ZKProof holds each coordinate in a single felt; BN254
+ * coordinates above the Stark prime cannot be carried and are rejected
+ * rather than reduced, since a reduced point is a different point.
+ *
+ * @throws Error carrying PROOF_INPUT_MISMATCH / PROOF_POINT_OUT_OF_RANGE
+ */
+export const formatGroth16Proof = (
+  inputs: ProofPublicInputs,
+  proof: Groth16Proof,
+  publicSignals: string[]
+): ZKProof => {
+  const expected = [inputs.publicInputHash, inputs.merkleRoot, inputs.nullifierHash];
+  if (expected.some((value, index) => BigInt(publicSignals[index] ?? -1) !== BigInt(value))) {
+    throw new Error('PROOF_INPUT_MISMATCH');
+  }
+
+  const coordinate = (value: string): string => {
+    const felt = BigInt(value);
+    if (felt >= constants.PRIME) {
+      throw new Error('PROOF_POINT_OUT_OF_RANGE');
+    }
+    return num.toHex(felt);
+  };
+
+  return {
+    ...inputs,
+    proofA: { x: coordinate(proof.pi_a[0]), y: coordinate(proof.pi_a[1]) },
+    proofB: {
+      x0: coordinate(proof.pi_b[0][0]),
+      x1: coordinate(proof.pi_b[0][1]),
+      y0: coordinate(proof.pi_b[1][0]),
+      y1: coordinate(proof.pi_b[1][1]),
+    },
+    proofC: { x: coordinate(proof.pi_c[0]), y: coordinate(proof.pi_c[1]) },
+  };
+};
+
+/**
+ * ZKProof calldata in member order
+ * BondingCurvePool and ZKProofVerifier share the layout, so the same calldata
+ * serves private trades and direct verify_proof calls.
+ */
+export const compileZKProof = (proof: ZKProof): string[] =>
+  CallData.compile({
+    public_input_hash: proof.publicInputHash,
+    merkle_root: proof.merkleRoot,
+    nullifier_hash: proof.nullifierHash,
+    proof_a: { x: proof.proofA.x, y: proof.proofA.y },
+    proof_b: {
+      x0: proof.proofB.x0,
+      x1: proof.proofB.x1,
+      y0: proof.proofB.y0,
+      y1: proof.proofB.y1,
+    },
+    proof_c: { x: proof.proofC.x, y: proof.proofC.y },
+    proof_type: proof.proofType,
+    timestamp: proof.timestamp,
+  });
+
+export default {
+  PROOF_TYPES,
+  PROOF_VALIDITY_SECONDS,
+  computeTradeInputHash,
+  computeLaunchInputHash,
+  computeNullifierHash,
+  createDevelopmentProof,
+  formatGroth16Proof,
+  compileZKProof,
+};
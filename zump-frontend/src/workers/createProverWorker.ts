@@ -0,0 +1,10 @@
+/**
+ * Prover Worker Factory
+ * Kept apart from proofProvider so webpack bundles prover.worker.ts as its
+ * own chunk while Jest, which cannot parse import.meta, can mock it away
+ */
+
+export const createProverWorker = (): Worker =>
+  new Worker(new URL('./prover.worker.ts', import.meta.url));
+
+export default createProverWorker;
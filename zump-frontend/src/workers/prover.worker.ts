@@ -0,0 +1,109 @@
+/**
+ * Prover Worker
+ * Runs Groth16 proving off the main thread. The prover bundle and circuit
+ * artifacts are loaded from the circuits URL described by its manifest.json:
+ *
+ *   { "prover": "snarkjs.min.js",
+ *     "circuits": { "buy": { "wasm": "buy.wasm", "zkey": "buy_final.zkey" }, ... } }
+ *
+ * The prover bundle must define a global `snarkjs` (the snarkjs browser build does).
+ * Requirements: 6.1, 6.2
+ */
+
+import type { Groth16Proof } from '../utils/zkProof';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CircuitName = 'buy' | 'sell' | 'transfer' | 'launch';
+
+export type ProofStage = 'loading' | 'proving' | 'formatting' | 'done';
+
+export type CircuitInputs = Record<string, string | string[]>;
+
+export interface ProverWorkerRequest {
+  type: 'prove';
+  circuit: CircuitName;
+  inputs: CircuitInputs;
+  /** Absolute base URL of manifest.json and the artifacts */
+  circuitsUrl: string;
+}
+
+export type ProverWorkerResponse =
+  | { type: 'progress'; stage: ProofStage; progress: number }
+  | { type: 'result'; proof: Groth16Proof; publicSignals: string[] }
+  | { type: 'error'; message: string };
+
+interface CircuitManifest {
+  prover: string;
+  circuits: Partial<Record<CircuitName, { wasm: string; zkey: string }>>;
+}
+
+interface Groth16Prover {
+  groth16: {
+    fullProve: (
+      inputs: CircuitInputs,
+      wasm: string,
+      zkey: string
+    ) => Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+  };
+}
+
+interface ProverWorkerScope {
+  onmessage: ((event: MessageEvent<ProverWorkerRequest>) => void) | null;
+  postMessage: (message: ProverWorkerResponse) => void;
+  importScripts: (...urls: string[]) => void;
+  snarkjs?: Groth16Prover;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+// The app compiles against the DOM lib, so type the worker global by hand
+const ctx = globalThis as unknown as ProverWorkerScope;
+
+const report = (stage: ProofStage, progress: number) =>
+  ctx.postMessage({ type: 'progress', stage, progress });
+
+const resolve = (base: string, path: string): string =>
+  new URL(path, base.endsWith('/') ? base : `${base}/`).toString();
+
+async function prove({ circuit, inputs, circuitsUrl }: ProverWorkerRequest): Promise<void> {
+  report('loading', 0);
+  const response = await fetch(resolve(circuitsUrl, 'manifest.json'));
+  if (!response.ok) {
+    throw new Error(`CIRCUIT_MANIFEST_UNAVAILABLE: ${response.status}`);
+  }
+  const manifest = (await response.json()) as CircuitManifest;
+  const artifacts = manifest.circuits[circuit];
+  if (!artifacts) {
+    throw new Error(`CIRCUIT_NOT_FOUND: ${circuit}`);
+  }
+
+  if (!ctx.snarkjs) {
+    ctx.importScripts(resolve(circuitsUrl, manifest.prover));
+  }
+  const prover = ctx.snarkjs;
+  if (!prover) {
+    throw new Error('PROVER_UNAVAILABLE');
+  }
+
+  // fullProve computes the witness and the proof in one call, without progress
+  report('proving', 0.3);
+  const { proof, publicSignals } = await prover.groth16.fullProve(
+    inputs,
+    resolve(circuitsUrl, artifacts.wasm),
+    resolve(circuitsUrl, artifacts.zkey)
+  );
+
+  ctx.postMessage({ type: 'result', proof, publicSignals });
+}
+
+ctx.onmessage = (event) => {
+  if (event.data?.type !== 'prove') return;
+  prove(event.data).catch((error) => {
+    ctx.postMessage({ type: 'error', message: error?.message || String(error) });
+  });
+};
@@ -0,0 +1,30 @@
+-- Migration: Hand trade and portfolio writes to the indexer
+-- trade_events and user_portfolios are now written only by scripts/indexer
+-- using the service role key, which bypasses RLS. Browsers keep read access.
+-- Run this in your Supabase SQL Editor
+
+-- Step 1: Indexer cursor (last fully indexed block per network/factory)
+CREATE TABLE IF NOT EXISTS indexer_state (
+  id TEXT PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE indexer_state ENABLE ROW LEVEL SECURITY;
+
+-- Step 2: Remove public write access
+DROP POLICY IF EXISTS "Anyone can insert trade events" ON trade_events;
+DROP POLICY IF EXISTS "Anyone can insert user portfolios" ON user_portfolios;
+DROP POLICY IF EXISTS "Anyone can update user portfolios" ON user_portfolios;
+
+-- Step 3: One row per trade event, not per transaction
+-- A multicall with several Buy/Sell events used to keep only the first
+ALTER TABLE trade_events ADD COLUMN IF NOT EXISTS event_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trade_events DROP CONSTRAINT IF EXISTS trade_events_tx_hash_key;
+ALTER TABLE trade_events DROP CONSTRAINT IF EXISTS trade_events_tx_event_key;
+ALTER TABLE trade_events ADD CONSTRAINT trade_events_tx_event_key UNIQUE (tx_hash, event_index);
+
+-- Step 4: Verify the remaining policies
+SELECT tablename, policyname, cmd
+FROM pg_policies
+WHERE tablename IN ('trade_events', 'user_portfolios', 'indexer_state');
@@ -45,8 +45,7 @@ CREATE INDEX IF NOT EXISTS idx_token_metadata_pool ON token_metadata(pool_addres
 -- ===========================================
 -- Trade Events Cache Table
 -- ===========================================
--- Caches trade events from blockchain for faster queries
--- This is optional but improves performance for trade history
+-- Trade events from the blockchain, written by scripts/indexer
 
 CREATE TABLE IF NOT EXISTS trade_events (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -57,11 +56,14 @@ CREATE TABLE IF NOT EXISTS trade_events (
   price TEXT NOT NULL,
   cost_or_return TEXT NOT NULL,
   timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
-  tx_hash TEXT UNIQUE NOT NULL,
+  tx_hash TEXT NOT NULL,
+  -- Position among the Buy/Sell events of the transaction (multicalls hold several)
+  event_index INTEGER NOT NULL DEFAULT 0,
   block_number BIGINT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
   -- Constraints
+  CONSTRAINT trade_events_tx_event_key UNIQUE (tx_hash, event_index),
   CONSTRAINT pool_address_format CHECK (pool_address ~ '^0x[a-fA-F0-9]+$'),
   CONSTRAINT trader_format CHECK (trader ~ '^0x[a-fA-F0-9]+$'),
   CONSTRAINT tx_hash_format CHECK (tx_hash ~ '^0x[a-fA-F0-9]+$')
@@ -85,7 +87,7 @@ CREATE INDEX IF NOT EXISTS idx_trade_events_trader ON trade_events(trader);
 -- ===========================================
 -- User Portfolios Cache Table (Optional)
 -- ===========================================
--- Caches user token balances for faster portfolio display
+-- User token balances for faster portfolio display, written by scripts/indexer
 
 CREATE TABLE IF NOT EXISTS user_portfolios (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -108,14 +110,28 @@ CREATE INDEX IF NOT EXISTS idx_user_portfolios_user ON user_portfolios(user_addr
 -- Index for token lookups
 CREATE INDEX IF NOT EXISTS idx_user_portfolios_token ON user_portfolios(token_address);
 
+-- ===========================================
+-- Indexer State Table
+-- ===========================================
+-- Last fully indexed block of scripts/indexer, keyed by network and factory
+
+CREATE TABLE IF NOT EXISTS indexer_state (
+  id TEXT PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- ===========================================
 -- Row Level Security (RLS) Policies
 -- ===========================================
 -- Enable RLS for all tables
+-- trade_events and user_portfolios are written only by the indexer, whose
+-- service role key bypasses RLS, so they have no public write policies
 
 ALTER TABLE token_metadata ENABLE ROW LEVEL SECURITY;
 ALTER TABLE trade_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_portfolios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_state ENABLE ROW LEVEL SECURITY;
 
 -- Token metadata: Anyone can read, only authenticated can insert
 CREATE POLICY "Token metadata is publicly readable"
@@ -126,28 +142,16 @@ CREATE POLICY "Anyone can insert token metadata"
   ON token_metadata FOR INSERT
   WITH CHECK (true);
 
--- Trade events: Anyone can read, only authenticated can insert
+-- Trade events: Anyone can read, only the indexer writes
 CREATE POLICY "Trade events are publicly readable"
   ON trade_events FOR SELECT
   USING (true);
 
-CREATE POLICY "Anyone can insert trade events"
-  ON trade_events FOR INSERT
-  WITH CHECK (true);
-
--- User portfolios: Anyone can read, only authenticated can insert/update
+-- User portfolios: Anyone can read, only the indexer writes
 CREATE POLICY "User portfolios are publicly readable"
   ON user_portfolios FOR SELECT
   USING (true);
 
-CREATE POLICY "Anyone can insert user portfolios"
-  ON user_portfolios FOR INSERT
-  WITH CHECK (true);
-
-CREATE POLICY "Anyone can update user portfolios"
-  ON user_portfolios FOR UPDATE
-  USING (true);
-
 -- ===========================================
 -- Storage Bucket for Token Images
 -- ===========================================